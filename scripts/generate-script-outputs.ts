@@ -0,0 +1,178 @@
+#!/usr/bin/env npx tsx
+/**
+ * Generate SCRIPT_OUTPUTS from Action Script Sources
+ *
+ * Extracts the Decision Variable values each action script can return and
+ * rewrites src/data/script-outputs.ts. Sources, later ones winning:
+ * 1. action_scripts table (when VITE_SUPABASE_URL + SUPABASE_SERVICE_KEY are set)
+ * 2. Official-Action-Nodes folder (OFFICIAL_ACTION_NODES_DIR, default ../Official-Action-Nodes)
+ * 3. Bundled STARTUP_SCRIPTS
+ *
+ * Entries with no script source available are kept from the current file.
+ *
+ * Run with: npx tsx scripts/generate-script-outputs.ts [--check]
+ *   --check  Exit 1 if the file is out of date instead of writing it
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { config } from 'dotenv';
+import { createClient } from '@supabase/supabase-js';
+import { STARTUP_SCRIPTS } from '../src/data/startup-scripts';
+import { SCRIPT_OUTPUTS } from '../src/data/script-outputs';
+import { extractScriptContract, getContractOutcomes } from '../src/services/script-contract';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const ROOT = path.join(__dirname, '..');
+config({ path: path.join(ROOT, '.env') });
+
+const OUTPUT_FILE = path.join(ROOT, 'src', 'data', 'script-outputs.ts');
+const OFFICIAL_DIR = process.env.OFFICIAL_ACTION_NODES_DIR || path.join(ROOT, '..', 'Official-Action-Nodes');
+const CHECK_ONLY = process.argv.includes('--check');
+
+interface ScriptSource {
+  name: string;
+  content: string;
+  origin: string;
+}
+
+async function loadTableScripts(): Promise<ScriptSource[]> {
+  const url = process.env.VITE_SUPABASE_URL;
+  const key = process.env.SUPABASE_SERVICE_KEY;
+  if (!url || !key) {
+    console.log('⏭️  action_scripts: no Supabase credentials, skipping');
+    return [];
+  }
+
+  const { data, error } = await createClient(url, key).from('action_scripts').select('name, content');
+  if (error) {
+    console.warn(`⚠️  action_scripts: ${error.message}`);
+    return [];
+  }
+  console.log(`📥 action_scripts: ${data?.length || 0} scripts`);
+  return (data || [])
+    .filter(row => row.name && row.content)
+    .map(row => ({ name: row.name, content: row.content, origin: 'action_scripts' }));
+}
+
+function loadOfficialScripts(): ScriptSource[] {
+  if (!fs.existsSync(OFFICIAL_DIR)) {
+    console.log(`⏭️  Official-Action-Nodes: ${OFFICIAL_DIR} not found, skipping`);
+    return [];
+  }
+
+  const files = fs.readdirSync(OFFICIAL_DIR).filter(f => f.endsWith('.py'));
+  console.log(`📥 Official-Action-Nodes: ${files.length} scripts`);
+  return files.map(file => ({
+    name: file.replace(/\.py$/, ''),
+    content: fs.readFileSync(path.join(OFFICIAL_DIR, file), 'utf-8'),
+    origin: 'Official-Action-Nodes',
+  }));
+}
+
+// Trailing comments on existing entries, so kept entries don't lose their notes
+function existingComments(): Map<string, string> {
+  const comments = new Map<string, string>();
+  if (!fs.existsSync(OUTPUT_FILE)) return comments;
+  for (const match of fs.readFileSync(OUTPUT_FILE, 'utf-8').matchAll(/^[ \t]*'([^']+)':[ \t]*\[.*\],[ \t]*\/\/[ \t]*(.+)$/gm)) {
+    comments.set(match[1], match[2].trim());
+  }
+  return comments;
+}
+
+function render(entries: { name: string; outputs: string[]; comment?: string }[]): string {
+  const lines = entries.map(({ name, outputs, comment }) => {
+    const values = outputs.map(v => `'${v.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`).join(', ');
+    return `  '${name}': [${values}],${comment ? ` // ${comment}` : ''}`;
+  });
+
+  return `/**
+ * Action Script Outputs
+ *
+ * GENERATED by scripts/generate-script-outputs.ts - do not edit by hand.
+ * Run \`npm run generate:script-outputs\` after adding or changing an action script.
+ *
+ * Known Decision Variable values returned by action node scripts.
+ * Kept free of service imports so it can be used from scripts/ CLIs.
+ */
+
+/**
+ * Registry of action script output values
+ * Maps script names to their possible Decision Variable return values.
+ * Used to validate that What Next routing covers all possible outcomes.
+ *
+ * CRITICAL: If a What Next is missing a route for any of these values,
+ * the bot will fail with an unhandled routing error.
+ */
+export const SCRIPT_OUTPUTS: Record<string, string[]> = {
+${lines.join('\n')}
+};
+`;
+}
+
+async function main() {
+  console.log('🔍 Generating SCRIPT_OUTPUTS\n');
+
+  const sources = new Map<string, ScriptSource>();
+  const bundled = STARTUP_SCRIPTS.map(s => ({ name: s.name, content: s.content, origin: 'bundled' }));
+  for (const script of [...await loadTableScripts(), ...loadOfficialScripts(), ...bundled]) {
+    sources.set(script.name, script);
+  }
+  console.log(`📦 Bundled: ${bundled.length} scripts\n`);
+
+  const comments = existingComments();
+  const entries: { name: string; outputs: string[]; comment?: string }[] = [];
+  const names = new Set([...sources.keys(), ...Object.keys(SCRIPT_OUTPUTS)]);
+
+  for (const name of [...names].sort()) {
+    const source = sources.get(name);
+    const previous = SCRIPT_OUTPUTS[name];
+
+    if (!source) {
+      console.warn(`⚠️  ${name}: no script source found - keeping [${previous.join(', ')}]`);
+      entries.push({ name, outputs: previous, comment: comments.get(name) });
+      continue;
+    }
+
+    const contract = extractScriptContract(source.content, name);
+    const outputs = getContractOutcomes(contract);
+    if (outputs.length === 0) {
+      if (previous) {
+        console.warn(`⚠️  ${name}: no literal ${contract.decisionVariable} values in ${source.origin} source - keeping [${previous.join(', ')}]`);
+        entries.push({ name, outputs: previous, comment: comments.get(name) });
+      }
+      continue;
+    }
+
+    const dynamic = contract.dynamicReturnValues.includes(contract.decisionVariable);
+    const comment = [
+      contract.decisionVariable !== 'success' ? `Decision Variable: ${contract.decisionVariable}` : '',
+      dynamic ? 'other values are dynamic' : '',
+    ].filter(Boolean).join('; ');
+    entries.push({ name, outputs, comment: comment || undefined });
+
+    const changed = !previous || previous.join('|') !== outputs.join('|');
+    console.log(`${changed ? '✏️ ' : '✅'} ${name} (${source.origin}): ${outputs.join(', ')}`);
+  }
+
+  const content = render(entries);
+  const current = fs.existsSync(OUTPUT_FILE) ? fs.readFileSync(OUTPUT_FILE, 'utf-8') : '';
+
+  if (CHECK_ONLY) {
+    if (content !== current) {
+      console.error('\n❌ src/data/script-outputs.ts is out of date - run npm run generate:script-outputs');
+      process.exit(1);
+    }
+    console.log('\n✅ src/data/script-outputs.ts is up to date');
+    return;
+  }
+
+  fs.writeFileSync(OUTPUT_FILE, content);
+  console.log(`\n✅ Wrote ${entries.length} entries to src/data/script-outputs.ts`);
+}
+
+main().catch((err) => {
+  console.error('❌ Generation failed:', err);
+  process.exit(1);
+});
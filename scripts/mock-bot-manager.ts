@@ -0,0 +1,29 @@
+#!/usr/bin/env npx tsx
+/**
+ * Mock Bot Manager Server
+ *
+ * Standalone local stand-in for the Pypestream APIs (Bot Manager, pypes/streams,
+ * widgets, preview page, Engagement) so Instant Build can run end-to-end offline.
+ * Point the app at it with VITE_PYPESTREAM_MOCK_URL=http://localhost:4010.
+ *
+ * Run with: npx tsx scripts/mock-bot-manager.ts [port]
+ *   MOCK_BOT_MANAGER_CUSTOMERS=acme,demo  Only accept these customer names (default: any)
+ */
+
+import { startMockBotManager } from '../vite/mock-bot-manager';
+
+const port = Number(process.argv[2] || process.env.MOCK_BOT_MANAGER_PORT || 4010);
+const customers = process.env.MOCK_BOT_MANAGER_CUSTOMERS
+  ?.split(',')
+  .map(c => c.trim())
+  .filter(Boolean);
+
+startMockBotManager(port, { customers })
+  .then(() => {
+    console.log(`🧪 Mock Bot Manager listening on http://localhost:${port}`);
+    console.log(`   Set VITE_PYPESTREAM_MOCK_URL=http://localhost:${port} to use it\n`);
+  })
+  .catch((err) => {
+    console.error(`❌ Could not start on port ${port}:`, err.message);
+    process.exit(1);
+  });
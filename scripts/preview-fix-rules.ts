@@ -0,0 +1,81 @@
+#!/usr/bin/env npx tsx
+/**
+ * Fix Rule Dry Run
+ *
+ * Shows what each fix rule would change in a bot CSV for a set of Bot Manager
+ * validation errors, field by field, without writing anything.
+ *
+ * Run with: npx tsx scripts/preview-fix-rules.ts <bot.csv> <errors.json> [--rules rules.json]
+ *   errors.json  Bot Manager validation response ({ errors: [...] }) or an array of errors
+ *   --rules      Extra FixRule[] to preview alongside the built-in rules
+ */
+
+import { readFileSync } from 'fs';
+import { dirname, resolve } from 'path';
+import { fileURLToPath } from 'url';
+import { createServer } from 'vite';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+
+const args = process.argv.slice(2);
+const rulesIdx = args.indexOf('--rules');
+const rulesPath = rulesIdx !== -1 ? args[rulesIdx + 1] : undefined;
+const [csvPath, errorsPath] = args.filter((_, idx) => rulesIdx === -1 || (idx !== rulesIdx && idx !== rulesIdx + 1));
+
+if (!csvPath || !errorsPath) {
+  console.log('Usage: npx tsx scripts/preview-fix-rules.ts <bot.csv> <errors.json> [--rules rules.json]');
+  process.exit(1);
+}
+
+const csv = readFileSync(resolve(csvPath), 'utf-8');
+const errorsJson = JSON.parse(readFileSync(resolve(errorsPath), 'utf-8'));
+const errors = Array.isArray(errorsJson) ? errorsJson : errorsJson.errors || [];
+const extraRules = rulesPath ? JSON.parse(readFileSync(resolve(rulesPath), 'utf-8')) : [];
+
+// fix-rules.ts reaches the Supabase client through error-learning; it is never
+// contacted here, but the client refuses to construct without a key
+process.env.VITE_SUPABASE_ANON_KEY ||= 'preview-fix-rules';
+
+// Load fix-rules.ts through Vite so import.meta.env resolves like in the app
+const server = await createServer({
+  configFile: false,
+  root: resolve(__dirname, '..'),
+  logLevel: 'error',
+  server: { middlewareMode: true },
+  appType: 'custom',
+});
+
+let changeCount = 0;
+
+try {
+  const { BUILTIN_FIX_RULES, previewFixRules, ruleMatchesError } = await server.ssrLoadModule('/src/services/fix-rules.ts');
+  const rules = [...BUILTIN_FIX_RULES, ...extraRules];
+  const previews = previewFixRules(csv, errors, rules);
+
+  console.log(`🔧 Fix Rule Dry Run - ${errors.length} error(s)\n`);
+  console.log('='.repeat(60) + '\n');
+
+  for (const preview of previews) {
+    console.log(`📐 ${preview.ruleId}: ${preview.description}`);
+    for (const match of preview.errors) {
+      console.log(`   Node ${match.nodeNum ?? '?'} - ${match.error}`);
+      if (match.changes.length === 0) {
+        console.log('      (no change)');
+      }
+      for (const change of match.changes) {
+        changeCount++;
+        const where = change.nodeNum === null ? 'row' : `${change.nodeNum}.${change.field}`;
+        console.log(`      ${where}: ${JSON.stringify(change.before)} → ${JSON.stringify(change.after)}`);
+      }
+    }
+    console.log('');
+  }
+
+  // Errors no rule matches go straight to AI refinement
+  const unmatched = errors.filter((error: unknown) => !rules.some(rule => ruleMatchesError(rule, error)));
+
+  console.log('='.repeat(60));
+  console.log(`${previews.length} rule(s) matched, ${changeCount} field change(s), ${unmatched.length} error(s) left for AI refinement`);
+} finally {
+  await server.close();
+}
@@ -0,0 +1,54 @@
+#!/usr/bin/env npx tsx
+/**
+ * Conversation Test Runner
+ *
+ * Runs a scripted conversation test suite (JSON or YAML) against a bot CSV
+ * using the offline simulator - no Bot Manager deploy needed.
+ *
+ * Run with: npx tsx scripts/test-conversations.ts <bot.csv> <suite.json|suite.yaml>
+ */
+
+import { readFileSync } from 'fs';
+import {
+  parseConversationTestSuite,
+  runConversationTestSuite,
+} from '../src/services/conversation-tests';
+
+const [csvPath, suitePath] = process.argv.slice(2);
+
+if (!csvPath || !suitePath) {
+  console.log('Usage: npx tsx scripts/test-conversations.ts <bot.csv> <suite.json|suite.yaml>');
+  process.exit(1);
+}
+
+const csv = readFileSync(csvPath, 'utf-8');
+const suite = parseConversationTestSuite(readFileSync(suitePath, 'utf-8'));
+
+console.log(`🧪 ${suite.name || 'Conversation Tests'}\n`);
+console.log('='.repeat(60) + '\n');
+
+const result = runConversationTestSuite(csv, suite);
+
+for (const test of result.results) {
+  if (test.passed) {
+    console.log(`✅ ${test.name}`);
+    continue;
+  }
+
+  console.log(`❌ ${test.name}`);
+  for (const row of test.failures) {
+    console.log(`    Node ${row.nodeNum} (row ${row.rowNum})${row.nodeName ? ` - ${row.nodeName}` : ''}`);
+    for (const err of row.errors) {
+      console.log(`      ${err}`);
+    }
+  }
+  console.log(`    Path: ${test.visitedNodes.join(' → ')}`);
+}
+
+// ============================================
+// Summary
+// ============================================
+console.log('\n' + '='.repeat(60));
+console.log(`\n📊 Results: ${result.passed} passed, ${result.failed} failed\n`);
+
+process.exit(result.failed === 0 ? 0 : 1);
@@ -0,0 +1,101 @@
+#!/usr/bin/env npx tsx
+/**
+ * LLM Usage Header Check
+ *
+ * Starts the dev server's middleware from vite.config.ts with the LLM gateway
+ * pointed at a local OpenAI-compatible stub, calls a real endpoint
+ * (/api/generate-action-code) and checks that its X-LLM-Usage header yields a
+ * non-zero CostLedger entry - the path every build's cost tracking relies on.
+ *
+ * Run with: npx tsx scripts/test-llm-usage.ts
+ */
+
+import { createServer as createHttpServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { dirname, resolve } from 'path';
+import { fileURLToPath } from 'url';
+import { createServer } from 'vite';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+
+// Priced in the gateway's MODEL_PRICING, so the entry has a cost as well as tokens
+const STUB_MODEL = 'claude-3-5-haiku-20241022';
+const STUB_USAGE = { prompt_tokens: 1200, completion_tokens: 340 };
+
+function listen(server: Server): Promise<number> {
+  return new Promise(done => server.listen(0, '127.0.0.1', () => done((server.address() as AddressInfo).port)));
+}
+
+// ============================================
+// Provider stub
+// ============================================
+
+const provider = createHttpServer((req, res) => {
+  req.resume();
+  req.on('end', () => {
+    res.setHeader('Content-Type', 'application/json');
+    res.end(JSON.stringify({
+      model: STUB_MODEL,
+      choices: [{ message: { content: 'class IntentRouter:\n    pass' }, finish_reason: 'stop' }],
+      usage: STUB_USAGE,
+    }));
+  });
+});
+const providerPort = await listen(provider);
+
+process.env.LLM_PROVIDER = 'openai-compatible';
+process.env.LLM_BASE_URL = `http://127.0.0.1:${providerPort}/v1`;
+process.env.LLM_MODEL = STUB_MODEL;
+delete process.env.LLM_RECORD_DIR;
+// cost-ledger.ts imports the Supabase client, which refuses to construct without a key
+process.env.VITE_SUPABASE_ANON_KEY ||= 'llm-usage-check';
+
+// ============================================
+// Dev server
+// ============================================
+
+const vite = await createServer({
+  root: resolve(__dirname, '..'),
+  logLevel: 'error',
+  server: { middlewareMode: true, hmr: false },
+  appType: 'custom',
+});
+const app = createHttpServer(vite.middlewares);
+const appPort = await listen(app);
+
+let passed = false;
+
+try {
+  const { CostLedger } = await vite.ssrLoadModule('/src/services/cost-ledger.ts');
+
+  console.log('🧪 LLM Usage Header\n');
+
+  const response = await fetch(`http://127.0.0.1:${appPort}/api/generate-action-code`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ nodeData: { type: 'nlu', intents: ['billing', 'claims'] }, flowContext: { label: 'Support' } }),
+  });
+  await response.text();
+
+  const ledger = new CostLedger(null);
+  ledger.record(response, 'other');
+  const entry = ledger.entries[0];
+
+  console.log(`   /api/generate-action-code -> ${response.status}, X-LLM-Usage: ${response.headers.get('X-LLM-Usage') || '(missing)'}`);
+
+  passed = response.ok
+    && ledger.entries.length === 1
+    && entry.inputTokens === STUB_USAGE.prompt_tokens
+    && entry.outputTokens === STUB_USAGE.completion_tokens
+    && entry.costUsd > 0;
+
+  console.log(passed
+    ? `   ✅ Ledger entry: ${entry.inputTokens} in / ${entry.outputTokens} out, $${entry.costUsd.toFixed(6)}`
+    : `   ❌ Expected one ledger entry with ${STUB_USAGE.prompt_tokens} in / ${STUB_USAGE.completion_tokens} out and a cost, got ${JSON.stringify(ledger.entries)}`);
+} finally {
+  app.close();
+  provider.close();
+  await vite.close();
+}
+
+process.exit(passed ? 0 : 1);
@@ -0,0 +1,130 @@
+#!/usr/bin/env npx tsx
+/**
+ * Pipeline Fixture Regression Runner
+ *
+ * Replays the CSVs captured in recorded Instant Build bundles (fixtures/pipeline/)
+ * through structuralPreValidation + sanitizeCSVForDeploy and compares the fixes
+ * and output against the bundle's golden results - no AI or Bot Manager calls.
+ *
+ * Run with: npx tsx scripts/test-pipeline-fixtures.ts [--update] [bundle.json ...]
+ *   --update  Write the current results as the golden results
+ *
+ * A bundle or captured CSV without golden results fails the run; record them
+ * with --update and commit the bundle.
+ */
+
+import { createHash } from 'crypto';
+import { existsSync, readdirSync, readFileSync, writeFileSync } from 'fs';
+import { dirname, join, resolve } from 'path';
+import { fileURLToPath } from 'url';
+import { createServer } from 'vite';
+import {
+  getFixtureCSVs,
+  type PipelineFixture,
+  type PipelineFixtureGolden,
+} from '../src/services/pipeline-fixtures';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const FIXTURE_DIR = resolve(__dirname, '..', 'fixtures', 'pipeline');
+
+const args = process.argv.slice(2);
+const update = args.includes('--update');
+const paths = args.filter(a => a !== '--update');
+
+const files = paths.length > 0
+  ? paths.map(p => resolve(p))
+  : existsSync(FIXTURE_DIR)
+    ? readdirSync(FIXTURE_DIR).filter(f => f.endsWith('.json')).sort().map(f => join(FIXTURE_DIR, f))
+    : [];
+
+if (files.length === 0) {
+  console.log(`No pipeline fixtures found in ${FIXTURE_DIR}. Record one with VITE_PIPELINE_FIXTURE_MODE=record.`);
+  process.exit(1);
+}
+
+// generation.ts reaches the Supabase client through error-learning; it is never
+// contacted here, but the client refuses to construct without a key
+process.env.VITE_SUPABASE_ANON_KEY ||= 'pipeline-fixtures';
+
+// Load generation.ts through Vite so import.meta.env resolves like in the app
+const server = await createServer({
+  configFile: false,
+  root: resolve(__dirname, '..'),
+  logLevel: 'error',
+  server: { middlewareMode: true },
+  appType: 'custom',
+});
+
+let failed = 0;
+let updated = 0;
+
+try {
+  const { structuralPreValidation, sanitizeCSVForDeploy } = await server.ssrLoadModule('/src/services/generation.ts');
+
+  console.log('🧪 Pipeline Fixtures\n');
+  console.log('='.repeat(60) + '\n');
+
+  for (const file of files) {
+    const fixture: PipelineFixture = JSON.parse(readFileSync(file, 'utf-8'));
+    const csvs = getFixtureCSVs(fixture);
+
+    const results: PipelineFixtureGolden[] = csvs.map(({ seq, csv }) => {
+      const pre = structuralPreValidation(csv);
+      const output: string = sanitizeCSVForDeploy(pre.csv);
+      return { seq, fixes: pre.fixes, outputHash: createHash('sha256').update(output).digest('hex') };
+    });
+
+    console.log(`📦 ${fixture.name} (${csvs.length} CSV${csvs.length === 1 ? '' : 's'}, outcome: ${fixture.outcome?.success ? 'success' : fixture.outcome?.error || 'unknown'})`);
+
+    if (update) {
+      const created = !fixture.golden;
+      fixture.golden = results;
+      writeFileSync(file, JSON.stringify(fixture, null, 2) + '\n');
+      updated++;
+      console.log(`   📝 Golden results ${created ? 'created' : 'updated'}\n`);
+      continue;
+    }
+
+    for (const csv of csvs) {
+      const expected = fixture.golden?.find(g => g.seq === csv.seq);
+      const actual = results.find(r => r.seq === csv.seq)!;
+      const label = `#${csv.seq} ${csv.endpoint}`;
+
+      if (!expected) {
+        failed++;
+        console.log(`   ❌ ${label}: no golden result (run with --update and commit the bundle)`);
+        continue;
+      }
+
+      const missingFixes = expected.fixes.filter(f => !actual.fixes.includes(f));
+      const newFixes = actual.fixes.filter(f => !expected.fixes.includes(f));
+      const outputChanged = expected.outputHash !== actual.outputHash;
+
+      if (!outputChanged && missingFixes.length === 0 && newFixes.length === 0) {
+        console.log(`   ✅ ${label}`);
+      } else {
+        failed++;
+        console.log(`   ❌ ${label}${outputChanged ? ' - sanitized output changed' : ''}`);
+        for (const fix of missingFixes) console.log(`      - ${fix}`);
+        for (const fix of newFixes) console.log(`      + ${fix}`);
+      }
+
+      // Bot Manager's verdict at record time, for context when a fix regresses
+      if (csv.valid === false && Array.isArray(csv.errors) && csv.errors.length > 0) {
+        console.log(`      Bot Manager reported ${csv.errors.length} error(s) when recorded`);
+      }
+    }
+    console.log('');
+  }
+} finally {
+  await server.close();
+}
+
+// ============================================
+// Summary
+// ============================================
+
+console.log('='.repeat(60));
+console.log(`${files.length} bundle(s), ${failed} mismatch(es)${updated ? `, ${updated} golden file(s) written` : ''}`);
+
+process.exit(failed === 0 ? 0 : 1);
@@ -20,6 +20,8 @@ import {
   ResultsPage,
   EditorPage,
   LiveEditPage,
+  ErrorLearningAdminPage,
+  FixQueuePage,
 } from './pages';
 import { AuthCallbackPage } from './pages/AuthCallbackPage';
 import { Loader2 } from 'lucide-react';
@@ -171,6 +173,11 @@ function AppContent() {
         return;
       }
       
+      // Admin pages and the fix queue aren't part of a solution
+      if (currentPath.startsWith('/admin/') || currentPath === '/fix-queue') {
+        return;
+      }
+      
       let targetPath = `/solutions/${activeSolutionId}`;
       
       if (instantStep === 'confirm') {
@@ -200,6 +207,20 @@ function AppContent() {
         </ProtectedRoute>
       } />
       
+      {/* Error-learning admin - full-screen, no wizard layout */}
+      <Route path="/admin/error-learning" element={
+        <ProtectedRoute>
+          <ErrorLearningAdminPage />
+        </ProtectedRoute>
+      } />
+      
+      {/* Shared fix queue for stuck builds - full-screen, no wizard layout */}
+      <Route path="/fix-queue" element={
+        <ProtectedRoute>
+          <FixQueuePage />
+        </ProtectedRoute>
+      } />
+      
       {/* Main app routes with layout */}
       <Route path="/*" element={
         <ProtectedRoute>
@@ -0,0 +1,460 @@
+/**
+ * Brand Theme Designer
+ *
+ * Adjust the widget's colors, logo, font and message bubbles before the
+ * channel is created, with WCAG contrast checks and a local widget mock
+ * showing sample conversation content. The theme is saved on the brand
+ * assets and used for channel creation and the CSS Classname column.
+ *
+ * Without Brandfetch data the brand can be built here from an uploaded logo
+ * and/or a website (brand-upload.ts).
+ */
+
+import { useEffect, useState } from 'react';
+import { Palette, Check, AlertTriangle, Send, Wand2, Upload, Globe, Loader2 } from 'lucide-react';
+import { Button } from './Button';
+import { Card, CardHeader } from './Card';
+import {
+  BUBBLE_RADIUS,
+  THEME_FONTS,
+  checkThemeContrast,
+  getBrandTheme,
+  getLogoUrl,
+  getPrimaryColor,
+  getSecondaryColor,
+  normalizeHex,
+  readableTextColor,
+  type ContrastCheck,
+} from '../services/brand-theme';
+import {
+  buildManualBrandAssets,
+  extractLogoPalette,
+  fetchBrandFromWebsite,
+  type LogoUpload,
+  type SiteBrand,
+} from '../services/brand-upload';
+import type { BrandAssets, BrandTheme } from '../types';
+
+interface BrandThemeDesignerProps {
+  isOpen: boolean;
+  brandAssets?: BrandAssets;
+  companyName?: string;
+  onClose: () => void;
+  onSave: (brandAssets: BrandAssets) => void;
+}
+
+const SHAPES: { id: BrandTheme['bubbleShape']; label: string }[] = [
+  { id: 'rounded', label: 'Rounded' },
+  { id: 'square', label: 'Square' },
+  { id: 'pill', label: 'Pill' },
+];
+
+function ColorField({ label, value, swatches = [], onChange }: {
+  label: string;
+  value: string;
+  swatches?: string[];
+  onChange: (hex: string) => void;
+}) {
+  const [text, setText] = useState(value);
+
+  useEffect(() => {
+    setText(value);
+  }, [value]);
+
+  return (
+    <div>
+      <div className="text-[11px] uppercase tracking-wider text-[#6a6a75] mb-1">{label}</div>
+      <div className="flex items-center gap-2">
+        <input
+          type="color"
+          value={value}
+          onChange={(e) => onChange(e.target.value.toUpperCase())}
+          className="w-8 h-8 rounded border border-white/10 bg-transparent cursor-pointer"
+        />
+        <input
+          value={text}
+          onChange={(e) => {
+            setText(e.target.value);
+            const hex = normalizeHex(e.target.value);
+            if (hex) onChange(hex);
+          }}
+          onBlur={() => setText(value)}
+          className="w-24 px-2 py-1.5 bg-[#1a1a1f] border border-white/10 rounded-lg text-[12px] font-mono text-white focus:outline-none focus:border-[#6366f1]/50"
+        />
+        <div className="flex flex-wrap gap-1">
+          {swatches.slice(0, 8).map((swatch) => (
+            <button
+              key={swatch}
+              title={swatch}
+              onClick={() => onChange(swatch)}
+              className={`w-5 h-5 rounded border ${swatch === value ? 'border-white' : 'border-white/10'}`}
+              style={{ backgroundColor: swatch }}
+            />
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function ContrastRow({ check, onFix }: { check: ContrastCheck; onFix?: () => void }) {
+  return (
+    <div className="flex items-center gap-2 text-[12px]">
+      <span
+        className="inline-flex items-center justify-center w-8 h-5 rounded text-[10px] font-semibold"
+        style={{ backgroundColor: check.background, color: check.foreground }}
+      >
+        Aa
+      </span>
+      <span className="text-[#a0a0a5] flex-1">{check.label}</span>
+      <span className="font-mono text-[#6a6a75]">{check.ratio.toFixed(2)}:1</span>
+      {check.passes ? (
+        <span className="inline-flex items-center gap-1 text-emerald-400"><Check className="w-3 h-3" /> AA</span>
+      ) : (
+        <span className="inline-flex items-center gap-1 text-amber-400"><AlertTriangle className="w-3 h-3" /> Low</span>
+      )}
+      {!check.passes && onFix && (
+        <button onClick={onFix} className="inline-flex items-center gap-1 text-[#a5b4fc] hover:text-white">
+          <Wand2 className="w-3 h-3" /> Fix
+        </button>
+      )}
+    </div>
+  );
+}
+
+function BrandSourcePanel({ hasBrandData, onBrand }: {
+  hasBrandData: boolean;
+  onBrand: (logo: LogoUpload | null, site: SiteBrand | null) => void;
+}) {
+  const [logo, setLogo] = useState<LogoUpload | null>(null);
+  const [site, setSite] = useState<SiteBrand | null>(null);
+  const [siteUrl, setSiteUrl] = useState('');
+  const [busy, setBusy] = useState<'logo' | 'site' | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleLogo = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setBusy('logo');
+    setError(null);
+    try {
+      const upload = await extractLogoPalette(file);
+      setLogo(upload);
+      onBrand(upload, site);
+    } catch (err: any) {
+      setError(err.message || String(err));
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleSite = async () => {
+    if (!siteUrl.trim()) return;
+    setBusy('site');
+    setError(null);
+    try {
+      const brand = await fetchBrandFromWebsite(siteUrl);
+      setSite(brand);
+      onBrand(logo, brand);
+    } catch (err: any) {
+      setError(err.message || String(err));
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <div className="p-3 rounded-xl border border-white/5 space-y-2">
+      <div className="text-[11px] uppercase tracking-wider text-[#6a6a75]">Brand source</div>
+      {!hasBrandData && (
+        <p className="text-[12px] text-amber-400">No brand data was found. Upload a logo or read the colors and fonts from a website.</p>
+      )}
+      <div className="flex items-center gap-2">
+        <label className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-white/5 hover:bg-white/10 text-[12px] text-white cursor-pointer transition-colors">
+          {busy === 'logo' ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Upload className="w-3.5 h-3.5" />}
+          Upload logo
+          <input type="file" accept="image/png,image/jpeg,image/svg+xml,image/webp" onChange={handleLogo} className="hidden" disabled={!!busy} />
+        </label>
+        {logo && <img src={logo.logoUrl} alt="" className="w-7 h-7 rounded bg-white object-contain p-0.5" />}
+        {logo?.colors.map((color) => (
+          <span key={color.hex} title={color.hex} className="w-4 h-4 rounded border border-white/10" style={{ backgroundColor: color.hex }} />
+        ))}
+      </div>
+      <div className="flex items-center gap-2">
+        <input
+          value={siteUrl}
+          onChange={(e) => setSiteUrl(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter') handleSite(); }}
+          placeholder="www.example.com"
+          className="flex-1 px-3 py-1.5 bg-[#1a1a1f] border border-white/10 rounded-lg text-[12px] text-white placeholder-white/30 focus:outline-none focus:border-[#6366f1]/50"
+        />
+        <button
+          onClick={handleSite}
+          disabled={!siteUrl.trim() || !!busy}
+          className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-white/5 hover:bg-white/10 text-[12px] text-white disabled:opacity-50 transition-colors"
+        >
+          {busy === 'site' ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Globe className="w-3.5 h-3.5" />}
+          Read site
+        </button>
+      </div>
+      {site && (
+        <p className="text-[11px] text-[#6a6a75]">
+          {site.domain}: {site.colors.length} colors, {site.fonts.length} fonts{site.fonts[0] ? ` (${site.fonts.map(f => f.name).join(', ')})` : ''}
+        </p>
+      )}
+      {error && <p className="text-[12px] text-red-400">{error}</p>}
+    </div>
+  );
+}
+
+function WidgetMock({ companyName, logoUrl, primaryColor, secondaryColor, theme }: {
+  companyName: string;
+  logoUrl: string;
+  primaryColor: string;
+  secondaryColor: string;
+  theme: BrandTheme;
+}) {
+  const radius = BUBBLE_RADIUS[theme.bubbleShape];
+  const font = theme.fontFamily ? `'${theme.fontFamily}', Inter, system-ui, sans-serif` : 'Inter, system-ui, sans-serif';
+  const headerText = readableTextColor(primaryColor);
+  const buttonText = readableTextColor(secondaryColor);
+  const agentBubble = {
+    backgroundColor: theme.agentBubbleColor,
+    color: theme.agentBubbleTextColor,
+    borderRadius: radius.corner,
+    borderBottomLeftRadius: radius.tail,
+  };
+
+  return (
+    <div className="w-[300px] mx-auto rounded-2xl overflow-hidden shadow-2xl bg-white" style={{ fontFamily: font }}>
+      <div className="flex items-center gap-2 px-4 py-3" style={{ backgroundColor: primaryColor, color: headerText }}>
+        {logoUrl ? (
+          <img src={logoUrl} alt="" className="w-7 h-7 rounded-full bg-white object-contain p-0.5" />
+        ) : (
+          <div className="w-7 h-7 rounded-full flex items-center justify-center text-[12px] font-bold bg-white/20">
+            {(companyName || 'B')[0].toUpperCase()}
+          </div>
+        )}
+        <span className="text-[14px] font-semibold truncate">{companyName || 'Your brand'}</span>
+      </div>
+
+      <div className="px-3 py-4 space-y-2.5 text-[13px]">
+        <div className="max-w-[85%] px-3 py-2" style={agentBubble}>
+          Hi! I'm the {companyName || 'virtual'} assistant. How can I help you today?
+        </div>
+        <div className="flex flex-wrap gap-1.5">
+          {['Check my claim', 'Talk to an agent'].map((label) => (
+            <span
+              key={label}
+              className="px-3 py-1.5 rounded-full text-[12px] font-medium"
+              style={{ backgroundColor: secondaryColor, color: buttonText }}
+            >
+              {label}
+            </span>
+          ))}
+        </div>
+        <div className="flex justify-end">
+          <div
+            className="max-w-[85%] px-3 py-2"
+            style={{
+              backgroundColor: theme.userBubbleColor,
+              color: theme.userBubbleTextColor,
+              borderRadius: radius.corner,
+              borderBottomRightRadius: radius.tail,
+            }}
+          >
+            Check my claim
+          </div>
+        </div>
+        <div className="max-w-[85%] px-3 py-2" style={agentBubble}>
+          Sure - what's your claim number?
+        </div>
+      </div>
+
+      <div className="flex items-center gap-2 px-3 py-2 border-t border-black/10">
+        <span className="flex-1 text-[12px] text-black/40">Type a message...</span>
+        <Send className="w-4 h-4" style={{ color: primaryColor }} />
+      </div>
+    </div>
+  );
+}
+
+export function BrandThemeDesigner({ isOpen, brandAssets, companyName, onClose, onSave }: BrandThemeDesignerProps) {
+  // Brand being themed - the saved one, or one built from an upload/website
+  const [base, setBase] = useState<BrandAssets | undefined>(brandAssets);
+  const [primaryColor, setPrimaryColor] = useState(getPrimaryColor(brandAssets));
+  const [secondaryColor, setSecondaryColor] = useState(getSecondaryColor(brandAssets));
+  const [logoUrl, setLogoUrl] = useState(getLogoUrl(brandAssets));
+  const [theme, setTheme] = useState<BrandTheme>(getBrandTheme(brandAssets));
+
+  // Start from the saved brand every time the designer opens
+  useEffect(() => {
+    if (!isOpen) return;
+    setBase(brandAssets);
+    setPrimaryColor(getPrimaryColor(brandAssets));
+    setSecondaryColor(getSecondaryColor(brandAssets));
+    setLogoUrl(getLogoUrl(brandAssets));
+    setTheme(getBrandTheme(brandAssets));
+  }, [isOpen, brandAssets]);
+
+  // Load the chosen Google Font so the mock renders in it
+  useEffect(() => {
+    if (!isOpen || !theme.fontFamily) return;
+    const id = 'brand-theme-designer-font';
+    let link = document.getElementById(id) as HTMLLinkElement | null;
+    if (!link) {
+      link = document.createElement('link');
+      link.id = id;
+      link.rel = 'stylesheet';
+      document.head.appendChild(link);
+    }
+    link.href = `https://fonts.googleapis.com/css2?family=${theme.fontFamily.replace(/\s+/g, '+')}:wght@400;600&display=swap`;
+  }, [isOpen, theme.fontFamily]);
+
+  if (!isOpen) return null;
+
+  const name = base?.name || companyName || '';
+  const draft: BrandAssets = {
+    colors: [],
+    logos: [],
+    fonts: [],
+    images: [],
+    ...base,
+    name,
+    primaryColor,
+    secondaryColor,
+    logoUrl,
+    theme,
+  };
+  const checks = checkThemeContrast(draft, theme);
+  const swatches = Array.from(new Set(
+    (base?.colors || []).map(c => normalizeHex(c.hex)).filter((hex): hex is string => !!hex)
+  ));
+  const brandFonts = (base?.fonts || []).filter(f => f.origin === 'google').map(f => f.name);
+  const fonts = Array.from(new Set([...brandFonts, ...THEME_FONTS]));
+  const updateTheme = (changes: Partial<BrandTheme>) => setTheme(prev => ({ ...prev, ...changes }));
+
+  // Restart the design from a manually built brand (bubble shape is kept)
+  const handleManualBrand = (logo: LogoUpload | null, site: SiteBrand | null) => {
+    const manual = buildManualBrandAssets({ name: name || undefined, logo, site });
+    setBase(manual);
+    setPrimaryColor(getPrimaryColor(manual));
+    setSecondaryColor(getSecondaryColor(manual));
+    setLogoUrl(getLogoUrl(manual));
+    setTheme(prev => ({ ...getBrandTheme(manual), bubbleShape: prev.bubbleShape }));
+  };
+
+  const fixes: Partial<Record<ContrastCheck['id'], () => void>> = {
+    userBubble: () => updateTheme({ userBubbleTextColor: readableTextColor(theme.userBubbleColor) }),
+    agentBubble: () => updateTheme({ agentBubbleTextColor: readableTextColor(theme.agentBubbleColor) }),
+  };
+
+  return (
+    <>
+      <div className="fixed inset-0 bg-black/60 backdrop-blur-sm z-[110]" onClick={onClose} />
+      <div className="fixed inset-0 z-[111] flex items-center justify-center p-4 pointer-events-none">
+        <div className="w-full max-w-4xl pointer-events-auto">
+          <Card variant="elevated">
+            <CardHeader
+              title="Widget theme"
+              description="Adjust how the chat widget looks before it is created."
+              icon={<Palette className="w-5 h-5" />}
+              size="sm"
+            />
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6 max-h-[70vh] overflow-y-auto">
+              <div className="space-y-4">
+                <BrandSourcePanel hasBrandData={(base?.colors?.length || 0) > 0} onBrand={handleManualBrand} />
+                <ColorField label="Primary color" value={primaryColor} swatches={swatches} onChange={setPrimaryColor} />
+                <ColorField label="Secondary color (buttons)" value={secondaryColor} swatches={swatches} onChange={setSecondaryColor} />
+
+                <div>
+                  <div className="text-[11px] uppercase tracking-wider text-[#6a6a75] mb-1">Logo URL</div>
+                  <input
+                    value={logoUrl}
+                    onChange={(e) => setLogoUrl(e.target.value.trim())}
+                    placeholder="https://..."
+                    className="w-full px-3 py-1.5 bg-[#1a1a1f] border border-white/10 rounded-lg text-[12px] text-white placeholder-white/30 focus:outline-none focus:border-[#6366f1]/50"
+                  />
+                  {(base?.logos?.length || 0) > 1 && (
+                    <div className="flex flex-wrap gap-1.5 mt-2">
+                      {base!.logos.filter(l => l.url).slice(0, 6).map((logo) => (
+                        <button
+                          key={logo.url}
+                          onClick={() => setLogoUrl(logo.url)}
+                          className={`w-9 h-9 rounded-lg bg-white p-1 border-2 ${logo.url === logoUrl ? 'border-[#6366f1]' : 'border-transparent'}`}
+                        >
+                          <img src={logo.url} alt={logo.type} className="w-full h-full object-contain" />
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                </div>
+
+                <div>
+                  <div className="text-[11px] uppercase tracking-wider text-[#6a6a75] mb-1">Font</div>
+                  <select
+                    value={theme.fontFamily || ''}
+                    onChange={(e) => updateTheme({ fontFamily: e.target.value || undefined })}
+                    className="w-full px-3 py-1.5 bg-[#1a1a1f] border border-white/10 rounded-lg text-[12px] text-white focus:outline-none focus:border-[#6366f1]/50"
+                  >
+                    <option value="">Brand default</option>
+                    {fonts.map((font) => <option key={font} value={font}>{font}</option>)}
+                  </select>
+                </div>
+
+                <div>
+                  <div className="text-[11px] uppercase tracking-wider text-[#6a6a75] mb-1">Bubble shape</div>
+                  <div className="flex gap-1">
+                    {SHAPES.map((shape) => (
+                      <button
+                        key={shape.id}
+                        onClick={() => updateTheme({ bubbleShape: shape.id })}
+                        className={`px-3 py-1 rounded-lg text-[12px] ${theme.bubbleShape === shape.id ? 'bg-[#6366f1]/20 text-[#a5b4fc]' : 'text-[#6a6a75] hover:text-white'}`}
+                      >
+                        {shape.label}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-2 gap-3">
+                  <ColorField label="User bubble" value={theme.userBubbleColor} onChange={(hex) => updateTheme({ userBubbleColor: hex })} />
+                  <ColorField label="User text" value={theme.userBubbleTextColor} onChange={(hex) => updateTheme({ userBubbleTextColor: hex })} />
+                  <ColorField label="Bot bubble" value={theme.agentBubbleColor} onChange={(hex) => updateTheme({ agentBubbleColor: hex })} />
+                  <ColorField label="Bot text" value={theme.agentBubbleTextColor} onChange={(hex) => updateTheme({ agentBubbleTextColor: hex })} />
+                </div>
+
+                <div className="space-y-1.5 p-3 rounded-xl border border-white/5">
+                  <div className="text-[11px] uppercase tracking-wider text-[#6a6a75] mb-1">Contrast (WCAG AA 4.5:1)</div>
+                  {checks.map((check) => (
+                    <ContrastRow key={check.id} check={check} onFix={fixes[check.id]} />
+                  ))}
+                </div>
+              </div>
+
+              <div className="flex flex-col justify-center gap-3 p-4 rounded-xl bg-[#1a1a1f]">
+                <WidgetMock
+                  companyName={name}
+                  logoUrl={logoUrl}
+                  primaryColor={primaryColor}
+                  secondaryColor={secondaryColor}
+                  theme={theme}
+                />
+                <p className="text-[11px] text-center text-[#6a6a75]">
+                  Message nodes get the <span className="font-mono text-[#a5b4fc]">{theme.cssClassname}</span> CSS class
+                </p>
+              </div>
+            </div>
+
+            <div className="flex justify-end gap-2 mt-4">
+              <Button size="sm" variant="ghost" onClick={onClose}>Cancel</Button>
+              <Button size="sm" onClick={() => onSave(draft)}>Save theme</Button>
+            </div>
+          </Card>
+        </div>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,200 @@
+/**
+ * Conversation Simulator Component
+ *
+ * Click through a generated bot CSV locally, without deploying:
+ * - Bot messages and rich asset options rendered from Decision nodes
+ * - Action nodes resolved automatically or by picking an outcome
+ * - Visited node path shown for debugging routing
+ * - A conversation test replay can be loaded to continue from a failing turn
+ */
+
+import { useState, useEffect, useRef, useMemo } from 'react';
+import { RotateCw, Send, Bot, User, Code, AlertTriangle, CheckCircle2 } from 'lucide-react';
+import { ConversationSimulator, type SimState } from '../services/conversation-simulator';
+import type { ConversationReplay } from '../services/conversation-tests';
+
+interface ConversationSimulatorPanelProps {
+  csv: string;
+  className?: string;
+  // Test replay to show instead of a fresh conversation
+  replay?: ConversationReplay | null;
+}
+
+export function ConversationSimulatorPanel({ csv, className = '', replay }: ConversationSimulatorPanelProps) {
+  const [manualOutcomes, setManualOutcomes] = useState(false);
+  const [state, setState] = useState<SimState | null>(null);
+  const [replayed, setReplayed] = useState<ConversationReplay | null>(null);
+  const [textInput, setTextInput] = useState('');
+  const transcriptRef = useRef<HTMLDivElement>(null);
+
+  const simulator = useMemo(
+    () => new ConversationSimulator(csv, { autoResolveActions: !manualOutcomes }),
+    [csv, manualOutcomes]
+  );
+
+  // (Re)start whenever the CSV or outcome mode changes
+  useEffect(() => {
+    setReplayed(null);
+    setState(simulator.start());
+  }, [simulator]);
+
+  // Jump to a replayed test turn; restarting goes back to the regular simulator
+  useEffect(() => {
+    if (!replay) return;
+    setReplayed(replay);
+    setState(replay.state);
+  }, [replay]);
+
+  const active = replayed?.simulator || simulator;
+
+  // Keep the newest message in view
+  useEffect(() => {
+    transcriptRef.current?.scrollTo({ top: transcriptRef.current.scrollHeight });
+  }, [state?.transcript.length]);
+
+  if (!state) return null;
+
+  const handleSendText = () => {
+    if (!textInput.trim()) return;
+    setState(active.sendText(textInput.trim()));
+    setTextInput('');
+  };
+
+  const canType = state.status === 'awaiting_text' || state.status === 'awaiting_option';
+
+  return (
+    <div className={`flex flex-col bg-[rgba(20,20,31,0.6)] border border-[rgba(255,255,255,0.05)] rounded-xl overflow-hidden ${className}`}>
+      {/* Header */}
+      <div className="flex items-center justify-between px-4 py-3 border-b border-[rgba(255,255,255,0.06)]">
+        <div className="flex items-center gap-2">
+          <Bot className="w-4 h-4 text-[#818cf8]" />
+          <span className="text-[14px] font-medium text-[#e8e8f0]">Offline Simulator</span>
+          {state.currentNode && (
+            <span className="px-2 py-0.5 text-[11px] font-mono rounded-full bg-[rgba(99,102,241,0.1)] text-[#a5b4fc]">
+              Node {state.currentNode.num}
+            </span>
+          )}
+        </div>
+        <div className="flex items-center gap-3">
+          <label className="flex items-center gap-1.5 text-[12px] text-[#8585a3] cursor-pointer">
+            <input
+              type="checkbox"
+              checked={manualOutcomes}
+              onChange={(e) => setManualOutcomes(e.target.checked)}
+              className="accent-[#6366f1]"
+            />
+            Pick action outcomes
+          </label>
+          <button
+            onClick={() => {
+              setReplayed(null);
+              setState(simulator.start());
+            }}
+            className="p-1.5 rounded-lg text-[#8585a3] hover:text-[#e8e8f0] hover:bg-[rgba(255,255,255,0.04)] transition-colors"
+            title="Restart conversation"
+          >
+            <RotateCw className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      {/* Transcript */}
+      <div ref={transcriptRef} className="flex-1 min-h-[280px] max-h-[420px] overflow-y-auto p-4 space-y-3">
+        {state.transcript.map((msg) => (
+          <div key={msg.id} className={`flex gap-2 ${msg.fromSide === 'user' ? 'justify-end' : 'justify-start'}`}>
+            {msg.fromSide === 'bot' && <Bot className="w-4 h-4 mt-1 text-[#818cf8] shrink-0" />}
+            <div className={`max-w-[75%] px-3 py-2 rounded-xl text-[13px] whitespace-pre-wrap ${
+              msg.fromSide === 'user'
+                ? 'bg-[#4f46e5] text-white'
+                : 'bg-[rgba(255,255,255,0.04)] text-[#c4c4d6] border border-[rgba(255,255,255,0.06)]'
+            }`}>
+              {msg.text}
+              {msg.nodeNum !== undefined && msg.fromSide === 'bot' && (
+                <div className="mt-1 text-[10px] font-mono text-[#5c5c78]">#{msg.nodeNum}</div>
+              )}
+            </div>
+            {msg.fromSide === 'user' && <User className="w-4 h-4 mt-1 text-[#8585a3] shrink-0" />}
+          </div>
+        ))}
+
+        {state.status === 'ended' && (
+          <div className="flex items-center gap-2 text-[12px] text-[#4ade80]">
+            <CheckCircle2 className="w-3.5 h-3.5" />
+            <span>{state.endReason}</span>
+          </div>
+        )}
+
+        {state.status === 'error' && (
+          <div className="flex items-start gap-2 p-2.5 text-[12px] text-[#f87171] bg-[rgba(239,68,68,0.06)] border border-[rgba(239,68,68,0.15)] rounded-lg">
+            <AlertTriangle className="w-3.5 h-3.5 mt-0.5 shrink-0" />
+            <span>{state.error}</span>
+          </div>
+        )}
+      </div>
+
+      {/* Rich asset options */}
+      {state.status === 'awaiting_option' && state.options.length > 0 && (
+        <div className="flex flex-wrap gap-2 px-4 pb-3">
+          {state.options.map((opt, idx) => (
+            <button
+              key={`${idx}-${opt.label}`}
+              onClick={() => setState(active.chooseOption(idx))}
+              className="px-3 py-1.5 text-[12px] font-medium rounded-lg bg-[rgba(99,102,241,0.1)] text-[#a5b4fc] border border-[rgba(99,102,241,0.2)] hover:bg-[rgba(99,102,241,0.2)] transition-colors"
+              title={opt.dest !== null ? `→ node ${opt.dest}` : 'No destination'}
+            >
+              {opt.label || '(no label)'}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {/* Action outcome picker */}
+      {state.status === 'awaiting_outcome' && state.currentNode && (
+        <div className="px-4 pb-3">
+          <p className="flex items-center gap-1.5 text-[11px] text-[#8585a3] mb-2">
+            <Code className="w-3 h-3" />
+            Action node {state.currentNode.num} ({state.currentNode.command || 'no command'}) - choose outcome:
+          </p>
+          <div className="flex flex-wrap gap-2">
+            {state.outcomes.map((outcome) => (
+              <button
+                key={outcome}
+                onClick={() => setState(active.resolveAction(outcome))}
+                className="px-3 py-1.5 text-[12px] font-mono rounded-lg bg-[rgba(139,92,246,0.1)] text-[#c4b5fd] border border-[rgba(139,92,246,0.2)] hover:bg-[rgba(139,92,246,0.2)] transition-colors"
+              >
+                {outcome}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Free text input */}
+      <div className="flex gap-2 px-4 py-3 border-t border-[rgba(255,255,255,0.06)]">
+        <input
+          type="text"
+          value={textInput}
+          onChange={(e) => setTextInput(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleSendText()}
+          disabled={!canType}
+          placeholder={canType ? 'Type a message...' : 'Waiting...'}
+          className="flex-1 px-3 py-2 text-[13px] rounded-lg bg-[rgba(0,0,0,0.2)] border border-[rgba(255,255,255,0.08)] text-[#e8e8f0] placeholder-[#5c5c78] focus:outline-none focus:border-[rgba(99,102,241,0.4)] disabled:opacity-50"
+        />
+        <button
+          onClick={handleSendText}
+          disabled={!canType || !textInput.trim()}
+          className="p-2 rounded-lg bg-[#4f46e5] text-white disabled:opacity-40 transition-opacity"
+        >
+          <Send className="w-4 h-4" />
+        </button>
+      </div>
+
+      {/* Visited path */}
+      {state.visitedNodes.length > 0 && (
+        <div className="px-4 py-2 border-t border-[rgba(255,255,255,0.04)] text-[10px] font-mono text-[#5c5c78] truncate" title={state.visitedNodes.join(' → ')}>
+          Path: {state.visitedNodes.join(' → ')}
+        </div>
+      )}
+    </div>
+  );
+}
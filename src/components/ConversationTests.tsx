@@ -0,0 +1,177 @@
+/**
+ * Conversation Tests Component
+ *
+ * Edit and run a scripted conversation test suite (JSON or YAML) against the
+ * current CSV. Failures show the offending node the same way Failed Rows do;
+ * clicking the node replays the test up to the failing turn.
+ */
+
+import { useState } from 'react';
+import { Play, CheckCircle2, XCircle, FlaskConical } from 'lucide-react';
+import { Button } from './Button';
+import { Card, CardHeader } from './Card';
+import {
+  parseConversationTestSuite,
+  runConversationTestSuite,
+  replayConversationTest,
+  type ConversationReplay,
+  type ConversationSuiteResult,
+  type ConversationTestSuite,
+} from '../services/conversation-tests';
+
+// localStorage key prefix for per-solution test suites
+const TEST_SUITE_KEY_PREFIX = 'solution_builder_conversation_tests_';
+
+const SAMPLE_SUITE = `{
+  "name": "Smoke tests",
+  "tests": [
+    {
+      "name": "Bot greets the user",
+      "steps": [
+        { "expectStatus": "awaiting_option" }
+      ]
+    }
+  ]
+}`;
+
+interface ConversationTestsPanelProps {
+  csv: string;
+  solutionId?: string | null;
+  // Called with the test replayed up to its failing step
+  onJumpToFailure?: (replay: ConversationReplay) => void;
+}
+
+function loadSuite(solutionId?: string | null): string {
+  if (!solutionId) return SAMPLE_SUITE;
+  try {
+    return localStorage.getItem(TEST_SUITE_KEY_PREFIX + solutionId) || SAMPLE_SUITE;
+  } catch {
+    return SAMPLE_SUITE;
+  }
+}
+
+export function ConversationTestsPanel({ csv, solutionId, onJumpToFailure }: ConversationTestsPanelProps) {
+  const [suiteText, setSuiteText] = useState(() => loadSuite(solutionId));
+  const [suite, setSuite] = useState<ConversationTestSuite | null>(null);
+  const [result, setResult] = useState<ConversationSuiteResult | null>(null);
+  const [parseError, setParseError] = useState<string | null>(null);
+
+  const handleRun = () => {
+    try {
+      const parsed = parseConversationTestSuite(suiteText);
+      setParseError(null);
+      setSuite(parsed);
+      setResult(runConversationTestSuite(csv, parsed));
+      if (solutionId) {
+        localStorage.setItem(TEST_SUITE_KEY_PREFIX + solutionId, suiteText);
+      }
+    } catch (e) {
+      setSuite(null);
+      setResult(null);
+      setParseError(e instanceof Error ? e.message : 'Invalid test suite');
+    }
+  };
+
+  const handleJump = (testIndex: number) => {
+    const test = suite?.tests[testIndex];
+    const failedStep = result?.results[testIndex]?.failedStep;
+    if (!suite || !test || failedStep === undefined || !onJumpToFailure) return;
+    onJumpToFailure(replayConversationTest(csv, test, failedStep, suite.variables));
+  };
+
+  return (
+    <Card>
+      <CardHeader
+        title="Conversation Tests"
+        description="Scripted regression tests (JSON or YAML) run against this CSV offline"
+        icon={<FlaskConical className="w-5 h-5" />}
+        size="sm"
+        action={
+          <Button size="sm" onClick={handleRun} icon={<Play className="w-3.5 h-3.5" />}>
+            Run Tests
+          </Button>
+        }
+      />
+
+      <textarea
+        value={suiteText}
+        onChange={(e) => setSuiteText(e.target.value)}
+        spellCheck={false}
+        className="w-full h-48 p-3 font-mono text-[12px] rounded-xl bg-[rgba(0,0,0,0.2)] border border-[rgba(255,255,255,0.08)] text-[#c4c4d6] focus:outline-none focus:border-[rgba(99,102,241,0.4)]"
+      />
+
+      {parseError && (
+        <div className="mt-3 flex items-center gap-2 text-[12px] text-[#f87171]">
+          <XCircle className="w-3.5 h-3.5" />
+          <span>{parseError}</span>
+        </div>
+      )}
+
+      {result && (
+        <div className="mt-4 space-y-2">
+          <p className="text-[12px] text-[#8585a3]">
+            {result.passed} passed, {result.failed} failed
+          </p>
+          {result.results.map((test, testIndex) => (
+            <div
+              key={test.name}
+              className={`p-3 rounded-xl border ${
+                test.passed
+                  ? 'bg-[rgba(34,197,94,0.04)] border-[rgba(34,197,94,0.12)]'
+                  : 'bg-[rgba(239,68,68,0.04)] border-[rgba(239,68,68,0.12)]'
+              }`}
+            >
+              <div className="flex items-center gap-2">
+                {test.passed ? (
+                  <CheckCircle2 className="w-4 h-4 text-[#4ade80]" />
+                ) : (
+                  <XCircle className="w-4 h-4 text-[#f87171]" />
+                )}
+                <span className="text-[13px] text-[#e8e8f0]">{test.name}</span>
+              </div>
+
+              {test.failures.map((row, idx) => (
+                <div key={idx} className="mt-2 ml-6">
+                  <div className="flex items-center gap-2 mb-1">
+                    {onJumpToFailure ? (
+                      <button
+                        onClick={() => handleJump(testIndex)}
+                        className="text-xs font-mono bg-red-500/10 text-red-400 px-2 py-0.5 rounded hover:bg-red-500/20 transition-colors"
+                        title="Open the simulator at this turn"
+                      >
+                        Node {row.nodeNum}
+                      </button>
+                    ) : (
+                      <span className="text-xs font-mono bg-red-500/10 text-red-400 px-2 py-0.5 rounded">
+                        Node {row.nodeNum}
+                      </span>
+                    )}
+                    {row.nodeType && (
+                      <span className={`text-xs px-2 py-0.5 rounded ${row.nodeType === 'A' ? 'bg-purple-500/10 text-purple-400' : 'bg-blue-500/10 text-blue-400'}`}>
+                        {row.nodeType === 'A' ? 'Action' : 'Decision'}
+                      </span>
+                    )}
+                    {row.nodeName && (
+                      <span className="text-xs text-[#8585a3] truncate max-w-[200px]">{row.nodeName}</span>
+                    )}
+                  </div>
+                  <div className="text-xs text-red-300 space-y-1">
+                    {row.errors.map((err, errIdx) => (
+                      <div key={errIdx} className="font-mono break-all">{err}</div>
+                    ))}
+                  </div>
+                </div>
+              ))}
+
+              {!test.passed && (
+                <div className="mt-2 ml-6 text-[10px] font-mono text-[#5c5c78] truncate">
+                  Path: {test.visitedNodes.join(' → ')}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </Card>
+  );
+}
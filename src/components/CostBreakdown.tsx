@@ -0,0 +1,72 @@
+/**
+ * Cost Breakdown
+ *
+ * AI token usage and estimated cost for a build or a whole solution,
+ * split by pipeline step (see services/cost-ledger.ts).
+ */
+
+import { Coins, AlertTriangle } from 'lucide-react';
+import { COST_STEP_LABELS, formatCost, formatTokens } from '../services/cost-ledger';
+import type { CostStep, CostSummary } from '../types';
+
+interface CostBreakdownProps {
+  title: string;
+  summary: CostSummary;
+  // Running total across all builds and edits of the solution
+  solutionTotal?: CostSummary | null;
+}
+
+export function CostBreakdown({ title, summary, solutionTotal }: CostBreakdownProps) {
+  const steps = (Object.keys(COST_STEP_LABELS) as CostStep[]).filter(step => summary.byStep[step]);
+
+  return (
+    <div className="bg-[#1a1a1f] border border-white/10 rounded-xl p-4">
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center gap-2">
+          <Coins className="w-4 h-4 text-[#8585a3]" />
+          <h3 className="text-sm font-medium text-white">{title}</h3>
+        </div>
+        <div className="text-right">
+          <span className="text-sm font-semibold text-white">{formatCost(summary.costUsd)}</span>
+          {summary.budgetUsd !== undefined && (
+            <span className="text-xs text-[#6a6a75]"> / {formatCost(summary.budgetUsd)} budget</span>
+          )}
+        </div>
+      </div>
+
+      <p className="text-xs text-[#6a6a75] mb-3">
+        {summary.calls} AI call{summary.calls === 1 ? '' : 's'} • {formatTokens(summary.inputTokens)} in / {formatTokens(summary.outputTokens)} out tokens
+      </p>
+
+      {steps.length > 0 && (
+        <div className="space-y-1">
+          {steps.map(step => {
+            const totals = summary.byStep[step]!;
+            return (
+              <div key={step} className="flex items-center justify-between text-xs">
+                <span className="text-[#8585a3]">{COST_STEP_LABELS[step]}</span>
+                <span className="text-[#6a6a75]">
+                  {formatTokens(totals.inputTokens + totals.outputTokens)} tokens • <span className="text-[#a5a5c0]">{formatCost(totals.costUsd)}</span>
+                </span>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {summary.budgetExceeded && (
+        <div className="flex items-center gap-2 mt-3 text-xs text-amber-400">
+          <AlertTriangle className="w-3.5 h-3.5" />
+          Refinement stopped early - the build budget was reached
+        </div>
+      )}
+
+      {solutionTotal && solutionTotal.calls > summary.calls && (
+        <div className="flex items-center justify-between mt-3 pt-3 border-t border-white/5 text-xs">
+          <span className="text-[#8585a3]">Solution total ({solutionTotal.calls} calls)</span>
+          <span className="text-white">{formatCost(solutionTotal.costUsd)}</span>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,9 +1,12 @@
 import { useEffect, useState, useRef } from 'react';
 import { Check, Loader2, Database, GitBranch, Boxes, CheckCircle2, Sparkles, LayoutGrid } from 'lucide-react';
 import type { SequentialProgressState, FlowProgressItem } from '../services/instant-build';
+import type { BuildStageState } from '../types';
 
 interface FlowchartProgressProps {
   sequentialProgress?: SequentialProgressState;
+  // Persisted pipeline stages (from build checkpoints)
+  stages?: BuildStageState[];
 }
 
 type NodeStatus = 'hidden' | 'pending' | 'active' | 'done' | 'error';
@@ -25,8 +28,9 @@ interface FlowNode {
  * - Planning → Startup → Flows → Assembly
  * - Nodes appear when they become active
  * - Connections animate between related nodes
+ * - A strip along the bottom shows every checkpointed pipeline stage
  */
-export function FlowchartProgress({ sequentialProgress }: FlowchartProgressProps) {
+export function FlowchartProgress({ sequentialProgress, stages }: FlowchartProgressProps) {
   const [nodes, setNodes] = useState<FlowNode[]>([]);
   const [connections, setConnections] = useState<{ from: string; to: string; active: boolean }[]>([]);
   const containerRef = useRef<HTMLDivElement>(null);
@@ -130,7 +134,7 @@ export function FlowchartProgress({ sequentialProgress }: FlowchartProgressProps
       
       newNodes.push({
         id: flowId,
-        label: formatFlowName(flow.name),
+        label: flow.attempt ? `${formatFlowName(flow.name)} (retry ${flow.attempt - 1})` : formatFlowName(flow.name),
         status: flowStatus,
         x: LAYOUT.centerX + xOffset,
         y: flowStartY + index * flowVerticalSpacing,
@@ -302,11 +306,48 @@ export function FlowchartProgress({ sequentialProgress }: FlowchartProgressProps
         <p className="text-xs text-[#6a6a75] mt-1">
           {sequentialProgress.phase === 'planning' && 'Analyzing requirements...'}
           {sequentialProgress.phase === 'startup' && 'Building system foundation...'}
-          {sequentialProgress.phase === 'flow' && `Generating flows (${(sequentialProgress.currentFlowIndex || 0) + 1}/${sequentialProgress.totalFlows || 1})...`}
+          {sequentialProgress.phase === 'flow' && (() => {
+            // Flows generate concurrently - show how many are in flight
+            const { flows } = sequentialProgress;
+            const building = flows.filter(f => f.status === 'active').length;
+            const done = flows.filter(f => f.status === 'done').length;
+            return `Generating flows (${done}/${sequentialProgress.totalFlows || flows.length || 1} done${building > 0 ? `, ${building} in progress` : ''})...`;
+          })()}
           {sequentialProgress.phase === 'assembly' && 'Assembling solution...'}
           {sequentialProgress.phase === 'validation' && 'Finalizing...'}
         </p>
       </div>
+      
+      {stages && stages.length > 0 && <StageStrip stages={stages} />}
+    </div>
+  );
+}
+
+/**
+ * Checkpointed pipeline stages, preflight through health check
+ */
+function StageStrip({ stages }: { stages: BuildStageState[] }) {
+  const statusStyles = {
+    pending: 'border-[#2a2a35] text-[#6a6a75]',
+    active: 'border-[#6366f1] bg-[#6366f1]/10 text-white',
+    done: 'border-[#22c55e]/40 bg-[#22c55e]/10 text-[#22c55e]',
+    error: 'border-red-500/40 bg-red-500/10 text-red-400',
+  };
+  
+  return (
+    <div className="absolute bottom-0 left-0 right-0 flex flex-wrap justify-center gap-1.5 px-2">
+      {stages.map((stage) => (
+        <span
+          key={stage.stage}
+          title={stage.detail}
+          className={`flex items-center gap-1 px-2 py-0.5 rounded-full border text-[10px] font-medium transition-colors ${statusStyles[stage.status]}`}
+        >
+          {stage.status === 'active' && <Loader2 className="w-2.5 h-2.5 animate-spin" />}
+          {stage.status === 'done' && <Check className="w-2.5 h-2.5" />}
+          {stage.label}
+          {stage.stage === 'flow' && stage.detail && <span className="opacity-70">{stage.detail}</span>}
+        </span>
+      ))}
     </div>
   );
 }
@@ -18,7 +18,8 @@ import type {
 interface EditorChatbotProps {
   session: LiveEditSession | null;
   context: ConversationContext;
-  onEditComplete: (result: EditResult) => Promise<void>;
+  // Resolves true once the (reviewed) edit is deployed, false if it was discarded
+  onEditComplete: (result: EditResult) => Promise<boolean>;
   isRedeploying: boolean;
 }
 
@@ -77,7 +78,9 @@ export function EditorChatbot({
         instruction: userMessage.content,
         context,
         currentCsv: session.csv,
-        currentScripts: session.scripts
+        currentScripts: session.scripts,
+        // 'current' = unsaved instant build, nothing to bill the edit to
+        solutionId: session.solutionId !== 'current' ? session.solutionId : undefined
       });
       
       // Remove loading message
@@ -88,19 +91,19 @@ export function EditorChatbot({
         const successMessage: EditorMessage = {
           id: `success-${Date.now()}`,
           role: 'assistant',
-          content: `✓ ${result.changesSummary}\n\nAffected nodes: ${result.affectedNodes.join(', ') || 'none'}\n\nDeploying changes...`,
+          content: `✓ ${result.changesSummary}\n\nAffected nodes: ${result.affectedNodes.join(', ') || 'none'}\n\nReview the changes to deploy them...`,
           timestamp: new Date(),
           editResult: result
         };
         setMessages(prev => [...prev, successMessage]);
         
         // Apply the changes
-        await onEditComplete(result);
+        const deployed = await onEditComplete(result);
         
         // Update message after deployment
         setMessages(prev => prev.map(m => 
           m.id === successMessage.id 
-            ? { ...m, content: `✓ ${result.changesSummary}\n\nAffected nodes: ${result.affectedNodes.join(', ') || 'none'}\n\n✓ Changes deployed! The preview has been refreshed.` }
+            ? { ...m, content: `✓ ${result.changesSummary}\n\nAffected nodes: ${result.affectedNodes.join(', ') || 'none'}\n\n${deployed ? '✓ Changes deployed! The preview has been refreshed.' : 'Changes were not deployed.'}` }
             : m
         ));
       } else {
@@ -10,6 +10,7 @@
 import { useState } from 'react';
 import { RefreshCw, Maximize2, ExternalLink, MessageSquare, Bot } from 'lucide-react';
 import type { ConversationContext } from '../../types';
+import { getClientPypestreamHosts } from '../../services/pypestream-hosts';
 
 interface PreviewPanelProps {
   widgetUrl: string;
@@ -31,7 +32,7 @@ export function PreviewPanel({
   
   // Construct preview URL
   const previewUrl = widgetUrl || (widgetId 
-    ? `https://web-sandbox.pypestream.com/preview.html?id=${widgetId}`
+    ? `${getClientPypestreamHosts().host('web-sandbox')}/preview.html?id=${widgetId}`
     : '');
   
   if (!previewUrl) {
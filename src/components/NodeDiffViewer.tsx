@@ -0,0 +1,200 @@
+/**
+ * Node Diff Viewer
+ *
+ * Shows added, removed and modified nodes between two bot CSVs field by field
+ * and lets the user accept or reject each node change before it is written back.
+ */
+
+import { useEffect, useMemo, useState, type ReactNode } from 'react';
+import { Check, X, GitCompare, Plus, Minus, PenLine } from 'lucide-react';
+import { Button } from './Button';
+import { Card, CardHeader } from './Card';
+import { applyNodeChanges, diffCSV, type CSVNodeChange } from '../services/bot-diff';
+
+const CHANGE_STYLES: Record<CSVNodeChange['changeType'], { label: string; icon: ReactNode; className: string }> = {
+  added: { label: 'Added', icon: <Plus className="w-3 h-3" />, className: 'bg-emerald-500/10 text-emerald-400 border-emerald-500/20' },
+  removed: { label: 'Removed', icon: <Minus className="w-3 h-3" />, className: 'bg-red-500/10 text-red-400 border-red-500/20' },
+  modified: { label: 'Modified', icon: <PenLine className="w-3 h-3" />, className: 'bg-amber-500/10 text-amber-400 border-amber-500/20' },
+};
+
+interface NodeDiffViewerProps {
+  before: string;
+  after: string;
+  title: string;
+  description?: string;
+  applyLabel?: string;
+  // Highlighted node (e.g. selected on the canvas)
+  selectedNode?: number | null;
+  onSelectNode?: (nodeNum: number) => void;
+  // Reports the rejected node numbers whenever a decision changes
+  onDecisionsChange?: (rejected: Set<number>) => void;
+  onApply: (csv: string, appliedCount: number) => void;
+  onCancel: () => void;
+}
+
+function FieldDiff({ change }: { change: CSVNodeChange }) {
+  return (
+    <div className="mt-2 space-y-2">
+      {change.changedFields.map((field) => (
+        <div key={field}>
+          <div className="text-[10px] uppercase tracking-wider text-[#6a6a75] mb-0.5">{field}</div>
+          {change.before?.[field] && (
+            <div className="px-2 py-1 rounded bg-red-500/5 text-[11px] font-mono text-red-300 line-through break-all whitespace-pre-wrap">
+              {change.before[field]}
+            </div>
+          )}
+          {change.after?.[field] && (
+            <div className="px-2 py-1 rounded bg-emerald-500/5 text-[11px] font-mono text-emerald-300 break-all whitespace-pre-wrap">
+              {change.after[field]}
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export function NodeDiffViewer({
+  before,
+  after,
+  title,
+  description,
+  applyLabel = 'Apply',
+  selectedNode,
+  onSelectNode,
+  onDecisionsChange,
+  onApply,
+  onCancel,
+}: NodeDiffViewerProps) {
+  const diff = useMemo(() => diffCSV(before, after), [before, after]);
+  const [rejected, setRejected] = useState<Set<number>>(new Set());
+  const [expanded, setExpanded] = useState<number | null>(null);
+
+  useEffect(() => {
+    setRejected(new Set());
+  }, [diff]);
+
+  useEffect(() => {
+    onDecisionsChange?.(rejected);
+  }, [rejected, onDecisionsChange]);
+
+  useEffect(() => {
+    if (selectedNode !== undefined) setExpanded(selectedNode);
+  }, [selectedNode]);
+
+  const setDecision = (nodeNum: number, accept: boolean) => {
+    setRejected((prev) => {
+      const next = new Set(prev);
+      if (accept) next.delete(nodeNum);
+      else next.add(nodeNum);
+      return next;
+    });
+  };
+
+  const acceptedNodes = diff.changes.map(c => c.nodeNum).filter(n => !rejected.has(n));
+
+  const handleApply = () => {
+    onApply(applyNodeChanges(before, after, acceptedNodes), acceptedNodes.length);
+  };
+
+  return (
+    <Card variant="elevated">
+      <CardHeader
+        title={title}
+        description={description || diff.summary}
+        icon={<GitCompare className="w-5 h-5" />}
+        size="sm"
+      />
+
+      {diff.changes.length === 0 ? (
+        <p className="text-[12px] text-[#8585a3]">No node changes.</p>
+      ) : (
+        <>
+          <div className="flex items-center justify-between mb-3 text-[12px] text-[#8585a3]">
+            <span>{acceptedNodes.length} of {diff.changes.length} changes accepted</span>
+            <div className="flex gap-3">
+              <button onClick={() => setRejected(new Set())} className="hover:text-white transition-colors">Accept all</button>
+              <button onClick={() => setRejected(new Set(diff.changes.map(c => c.nodeNum)))} className="hover:text-white transition-colors">Reject all</button>
+            </div>
+          </div>
+
+          <div className="space-y-2 max-h-[50vh] overflow-y-auto">
+            {diff.changes.map((change) => {
+              const style = CHANGE_STYLES[change.changeType];
+              const isRejected = rejected.has(change.nodeNum);
+              const nodeName = (change.after || change.before)?.['Node Name'];
+
+              return (
+                <div
+                  key={change.nodeNum}
+                  className={`p-3 rounded-xl border transition-opacity ${
+                    selectedNode === change.nodeNum ? 'border-[rgba(99,102,241,0.4)]' : 'border-[rgba(255,255,255,0.06)]'
+                  } ${isRejected ? 'opacity-50' : ''}`}
+                >
+                  <div className="flex items-center gap-2">
+                    <button
+                      onClick={() => {
+                        setExpanded(expanded === change.nodeNum ? null : change.nodeNum);
+                        onSelectNode?.(change.nodeNum);
+                      }}
+                      className="flex items-center gap-2 flex-1 min-w-0 text-left"
+                    >
+                      <span className={`inline-flex items-center gap-1 px-1.5 py-0.5 rounded border text-[10px] ${style.className}`}>
+                        {style.icon}
+                        {style.label}
+                      </span>
+                      <span className="text-xs font-mono text-[#8585a3]">#{change.nodeNum}</span>
+                      {nodeName && <span className="text-[12px] text-[#e8e8f0] truncate">{nodeName}</span>}
+                    </button>
+                    <button
+                      onClick={() => setDecision(change.nodeNum, true)}
+                      title="Accept"
+                      className={`p-1 rounded ${!isRejected ? 'bg-emerald-500/20 text-emerald-400' : 'text-[#6a6a75] hover:text-emerald-400'}`}
+                    >
+                      <Check className="w-3.5 h-3.5" />
+                    </button>
+                    <button
+                      onClick={() => setDecision(change.nodeNum, false)}
+                      title="Reject"
+                      className={`p-1 rounded ${isRejected ? 'bg-red-500/20 text-red-400' : 'text-[#6a6a75] hover:text-red-400'}`}
+                    >
+                      <X className="w-3.5 h-3.5" />
+                    </button>
+                  </div>
+
+                  {expanded === change.nodeNum && <FieldDiff change={change} />}
+                </div>
+              );
+            })}
+          </div>
+        </>
+      )}
+
+      <div className="flex justify-end gap-2 mt-4">
+        <Button size="sm" variant="ghost" onClick={onCancel}>Cancel</Button>
+        <Button size="sm" onClick={handleApply} disabled={diff.changes.length > 0 && acceptedNodes.length === 0}>
+          {applyLabel} {acceptedNodes.length > 0 ? `(${acceptedNodes.length})` : ''}
+        </Button>
+      </div>
+    </Card>
+  );
+}
+
+/**
+ * NodeDiffViewer in a modal overlay
+ */
+export function NodeDiffModal(props: NodeDiffViewerProps & { isOpen: boolean }) {
+  const { isOpen, ...viewerProps } = props;
+  if (!isOpen) return null;
+
+  return (
+    <>
+      <div className="fixed inset-0 bg-black/60 backdrop-blur-sm z-50" onClick={props.onCancel} />
+      <div className="fixed inset-0 z-50 flex items-center justify-center p-4 pointer-events-none">
+        <div className="w-full max-w-2xl pointer-events-auto">
+          <NodeDiffViewer {...viewerProps} />
+        </div>
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,130 @@
+/**
+ * Sync Conflict Dialog
+ *
+ * Shown when the bot was edited here and in Google Sheets at the same time and
+ * some edits touch the same node. Everything else has already been merged;
+ * for each conflicting node the user keeps this version or the sheet's, or
+ * closes the dialog and leaves both sides as they are.
+ */
+
+import { useEffect, useState } from 'react';
+import { GitMerge, Monitor, Sheet } from 'lucide-react';
+import { Button } from './Button';
+import { Card, CardHeader } from './Card';
+import type { CSVMergeConflict, CSVMergeResult, MergeSide } from '../services/bot-diff';
+
+const CONFLICT_LABELS: Record<CSVMergeConflict['kind'], string> = {
+  'modified': 'Edited on both sides',
+  'deleted-locally': 'Deleted here, edited in Sheets',
+  'deleted-remotely': 'Edited here, deleted in Sheets',
+};
+
+interface SyncConflictDialogProps {
+  merge: CSVMergeResult | null;
+  isResolving?: boolean;
+  onResolve: (choices: Record<number, MergeSide>) => void;
+  onCancel: () => void;
+}
+
+function SideValue({ label, value, active }: { label: string; value: string | undefined; active: boolean }) {
+  return (
+    <div className={`flex-1 min-w-0 px-2 py-1 rounded border text-[11px] font-mono break-all whitespace-pre-wrap ${
+      active ? 'border-[rgba(99,102,241,0.4)] bg-[#6366f1]/10 text-[#e8e8f0]' : 'border-[rgba(255,255,255,0.06)] text-[#8585a3]'
+    }`}>
+      <div className="text-[10px] font-sans uppercase tracking-wider text-[#6a6a75] mb-0.5">{label}</div>
+      {value === undefined ? <span className="italic">(node deleted)</span> : value || <span className="italic">(empty)</span>}
+    </div>
+  );
+}
+
+export function SyncConflictDialog({ merge, isResolving = false, onResolve, onCancel }: SyncConflictDialogProps) {
+  const [choices, setChoices] = useState<Record<number, MergeSide>>({});
+
+  useEffect(() => {
+    setChoices({});
+  }, [merge]);
+
+  if (!merge || merge.conflicts.length === 0) return null;
+
+  const sideOf = (nodeNum: number): MergeSide => choices[nodeNum] || 'local';
+  const chooseAll = (side: MergeSide) => {
+    setChoices(Object.fromEntries(merge.conflicts.map(c => [c.nodeNum, side])));
+  };
+  const autoMerged = new Set([...merge.localChanges, ...merge.remoteChanges]).size;
+
+  return (
+    <>
+      <div className="fixed inset-0 bg-black/60 backdrop-blur-sm z-50" onClick={isResolving ? undefined : onCancel} />
+      <div className="fixed inset-0 z-50 flex items-center justify-center p-4 pointer-events-none">
+        <div className="w-full max-w-2xl pointer-events-auto">
+          <Card variant="elevated">
+            <CardHeader
+              title="Resolve sync conflicts"
+              description={`This bot was edited here and in Google Sheets. ${autoMerged} node change(s) merged automatically; ${merge.conflicts.length} need a decision.`}
+              icon={<GitMerge className="w-5 h-5" />}
+              size="sm"
+            />
+
+            <div className="flex items-center justify-end gap-3 mb-3 text-[12px] text-[#8585a3]">
+              <button onClick={() => chooseAll('local')} className="hover:text-white transition-colors">Keep all mine</button>
+              <button onClick={() => chooseAll('remote')} className="hover:text-white transition-colors">Take all from Sheets</button>
+            </div>
+
+            <div className="space-y-2 max-h-[50vh] overflow-y-auto">
+              {merge.conflicts.map((conflict) => {
+                const side = sideOf(conflict.nodeNum);
+                const nodeName = (conflict.local || conflict.remote || conflict.base)?.['Node Name'];
+                const fields = conflict.fields.length > 0 ? conflict.fields : ['Node Name'];
+
+                return (
+                  <div key={conflict.nodeNum} className="p-3 rounded-xl border border-[rgba(255,255,255,0.06)]">
+                    <div className="flex items-center gap-2">
+                      <span className="text-xs font-mono text-[#8585a3]">#{conflict.nodeNum}</span>
+                      {nodeName && <span className="text-[12px] text-[#e8e8f0] truncate">{nodeName}</span>}
+                      <span className="text-[10px] text-amber-400">{CONFLICT_LABELS[conflict.kind]}</span>
+                      <div className="ml-auto flex gap-1">
+                        <button
+                          onClick={() => setChoices(prev => ({ ...prev, [conflict.nodeNum]: 'local' }))}
+                          className={`inline-flex items-center gap-1 px-2 py-1 rounded text-[11px] ${side === 'local' ? 'bg-[#6366f1]/20 text-[#a5b4fc]' : 'text-[#6a6a75] hover:text-white'}`}
+                        >
+                          <Monitor className="w-3 h-3" /> Mine
+                        </button>
+                        <button
+                          onClick={() => setChoices(prev => ({ ...prev, [conflict.nodeNum]: 'remote' }))}
+                          className={`inline-flex items-center gap-1 px-2 py-1 rounded text-[11px] ${side === 'remote' ? 'bg-[#6366f1]/20 text-[#a5b4fc]' : 'text-[#6a6a75] hover:text-white'}`}
+                        >
+                          <Sheet className="w-3 h-3" /> Sheets
+                        </button>
+                      </div>
+                    </div>
+
+                    <div className="mt-2 space-y-2">
+                      {fields.map((field) => (
+                        <div key={field}>
+                          <div className="text-[10px] uppercase tracking-wider text-[#6a6a75] mb-0.5">{field}</div>
+                          <div className="flex gap-2">
+                            <SideValue label="Mine" value={conflict.local?.[field]} active={side === 'local'} />
+                            <SideValue label="Sheets" value={conflict.remote?.[field]} active={side === 'remote'} />
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+
+            <div className="flex justify-end gap-2 mt-4">
+              <Button size="sm" variant="ghost" onClick={onCancel} disabled={isResolving}>
+                Decide later
+              </Button>
+              <Button size="sm" onClick={() => onResolve(choices)} disabled={isResolving}>
+                {isResolving ? 'Syncing...' : 'Apply and sync'}
+              </Button>
+            </div>
+          </Card>
+        </div>
+      </div>
+    </>
+  );
+}
@@ -5,4 +5,10 @@ export { Card, CardHeader } from './Card';
 export { Input, Textarea } from './Input';
 export { ConnectService } from './ConnectService';
 export { ScriptEditorModal } from './ui/script-editor-modal';
-export { FlowchartProgress } from './FlowchartProgress';
\ No newline at end of file
+export { FlowchartProgress } from './FlowchartProgress';
+export { ConversationSimulatorPanel } from './ConversationSimulator';
+export { ConversationTestsPanel } from './ConversationTests';
+export { NodeDiffViewer, NodeDiffModal } from './NodeDiffViewer';
+export { CostBreakdown } from './CostBreakdown';
+export { SyncConflictDialog } from './SyncConflictDialog';
+export { BrandThemeDesigner } from './BrandThemeDesigner';
@@ -2,7 +2,7 @@ import React, { useState, useRef, useEffect, useCallback } from 'react'
 import { createPortal } from 'react-dom'
 import { 
   Plus, Paperclip, FileText, FileSpreadsheet,
-  SendHorizontal, Zap, User, ChevronDown, Link2, X, Check, ExternalLink, Menu
+  SendHorizontal, Zap, User, ChevronDown, Link2, X, Check, ExternalLink, Menu, Bot
 } from 'lucide-react'
 import { useStore } from '../../store/useStore'
 import { NavDrawer } from './nav-drawer'
@@ -638,7 +638,8 @@ function ImportButtons({ onImport }: { onImport?: (source: string) => void }) {
       <div className="flex gap-2">
         {[
           { id: 'figma', name: 'Figma', icon: <FigmaIcon className="size-4" /> },
-          { id: 'sheets', name: 'Google Sheets', icon: <SheetsIcon className="size-4" /> }
+          { id: 'sheets', name: 'Google Sheets', icon: <SheetsIcon className="size-4" /> },
+          { id: 'bot', name: 'Existing bot', icon: <Bot className="size-4" /> }
         ].map((option) => (
           <button
             key={option.id}
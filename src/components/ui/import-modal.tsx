@@ -1,12 +1,23 @@
 import React, { useState, useEffect } from 'react'
-import { X, Loader2, Check, ExternalLink, FileSpreadsheet, Search, Link2, AlertCircle } from 'lucide-react'
+import { X, Loader2, Check, ExternalLink, FileSpreadsheet, Search, Link2, AlertCircle, Bot, Upload } from 'lucide-react'
 import { useStore } from '../../store/useStore'
 
 interface ImportModalProps {
   isOpen: boolean
   onClose: () => void
-  source: 'figma' | 'sheets' | null
-  onImport: (data: { source: string; file: ImportFile }) => void
+  source: 'figma' | 'sheets' | 'bot' | null
+  onImport: (data: ImportData) => void
+}
+
+export interface ImportData {
+  source: string
+  file: ImportFile
+  // Import the bot itself as an editable solution instead of its requirements
+  asBot?: boolean
+  // Contents of an uploaded bot CSV
+  csv?: string
+  // Contents of a Figma file saved as JSON (offline import)
+  figmaJson?: string
 }
 
 interface ImportFile {
@@ -41,10 +52,12 @@ function SheetsLogo({ className }: { className?: string }) {
 // Figma URL Input screen - for importing Figma designs via URL
 function FigmaUrlInput({ 
   onImport, 
+  onImportFile,
   onClose,
   isLoading 
 }: { 
   onImport: (fileKey: string, fileName: string) => void
+  onImportFile: (fileName: string, json: string) => void
   onClose: () => void
   isLoading: boolean
 }) {
@@ -110,6 +123,18 @@ function FigmaUrlInput({
     }
   }
   
+  // Offline import: the Figma API's file JSON saved to disk
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    if (!file) return
+    setError(null)
+    if (/\.fig$/i.test(file.name)) {
+      setError('.fig files can\'t be read - save the Figma API response for the file as JSON instead')
+      return
+    }
+    onImportFile(file.name.replace(/\.json$/i, ''), await file.text())
+  }
+  
   return (
     <div className="flex flex-col p-6">
       {/* Icon */}
@@ -196,7 +221,7 @@ function FigmaUrlInput({
       </div>
       
       {/* How to get URL */}
-      <div className="bg-white/[0.02] border border-white/5 rounded-xl p-4 mb-6">
+      <div className="bg-white/[0.02] border border-white/5 rounded-xl p-4 mb-4">
         <p className="text-xs font-medium text-[#a0a0a5] mb-2">How to get the URL:</p>
         <ol className="text-xs text-[#6a6a75] space-y-1.5">
           <li>1. Open your design in Figma</li>
@@ -205,6 +230,13 @@ function FigmaUrlInput({
         </ol>
       </div>
       
+      {/* Offline import */}
+      <label className="flex items-center justify-center gap-2 mb-6 text-xs text-[#6a6a75] hover:text-[#a5b4fc] cursor-pointer transition-colors">
+        <Upload className="w-3.5 h-3.5" />
+        <span>Or upload a Figma file saved as JSON</span>
+        <input type="file" accept=".json,application/json,.fig" onChange={handleFileChange} className="hidden" disabled={isLoading} />
+      </label>
+      
       {/* Buttons */}
       <div className="flex gap-3">
         <button
@@ -237,6 +269,161 @@ function FigmaUrlInput({
   )
 }
 
+// Existing bot screen - a bot CSV file or a bot in Bot Manager
+function BotSourceInput({
+  onImport,
+  onClose
+}: {
+  onImport: (data: ImportData) => void
+  onClose: () => void
+}) {
+  const { credentials, setCredentials } = useStore()
+  const [mode, setMode] = useState<'file' | 'botmanager'>('file')
+  const [csvFile, setCsvFile] = useState<{ name: string; csv: string } | null>(null)
+  const [botId, setBotId] = useState('')
+  const [apiKey, setApiKey] = useState(credentials.pypestreamApiKey || '')
+  const [error, setError] = useState<string | null>(null)
+  
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    if (!file) return
+    setError(null)
+    const csv = await file.text()
+    if (!/^\s*"?Node Number"?\s*,/i.test(csv)) {
+      setCsvFile(null)
+      setError('This doesn\'t look like a Pypestream bot CSV - the first column should be "Node Number"')
+      return
+    }
+    setCsvFile({ name: file.name, csv })
+  }
+  
+  const canSubmit = mode === 'file' ? !!csvFile : !!botId.trim() && !!apiKey.trim()
+  
+  const handleSubmit = () => {
+    if (mode === 'file' && csvFile) {
+      onImport({
+        source: 'bot',
+        file: { id: csvFile.name, name: csvFile.name.replace(/\.csv$/i, ''), type: 'csv' },
+        asBot: true,
+        csv: csvFile.csv,
+      })
+      return
+    }
+    
+    const id = botId.trim()
+    if (!/^[^.\s]+\.[^.\s]+$/.test(id)) {
+      setError('Bot IDs look like Customer.BotName')
+      return
+    }
+    if (apiKey.trim() !== credentials.pypestreamApiKey) {
+      setCredentials({ pypestreamApiKey: apiKey.trim() })
+    }
+    onImport({
+      source: 'bot',
+      file: { id, name: id.split('.')[1], type: 'botmanager' },
+      asBot: true,
+    })
+  }
+  
+  return (
+    <div className="flex flex-col p-6">
+      {/* Icon */}
+      <div className="flex justify-center mb-6">
+        <div className="w-16 h-16 rounded-2xl bg-gradient-to-br from-[#6366f1] to-[#8b5cf6] p-0.5">
+          <div className="w-full h-full rounded-2xl bg-[#0f0f12] flex items-center justify-center">
+            <Bot className="w-8 h-8 text-white" />
+          </div>
+        </div>
+      </div>
+      
+      {/* Title */}
+      <h3 className="text-xl font-semibold text-white text-center mb-2">Import an existing bot</h3>
+      <p className="text-sm text-[#6a6a75] text-center mb-6">
+        Bring in a Pypestream bot to edit its flows and redeploy it
+      </p>
+      
+      {/* Mode tabs */}
+      <div className="flex gap-1 p-1 mb-4 rounded-xl bg-white/5">
+        {([['file', 'Bot CSV file'], ['botmanager', 'Bot Manager']] as const).map(([id, label]) => (
+          <button
+            key={id}
+            onClick={() => { setMode(id); setError(null) }}
+            className={`flex-1 py-2 rounded-lg text-sm font-medium transition-colors ${
+              mode === id ? 'bg-[#6366f1] text-white' : 'text-[#6a6a75] hover:text-white'
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+      
+      {mode === 'file' ? (
+        <label className="flex flex-col items-center justify-center gap-2 p-6 mb-4 rounded-xl border border-dashed border-white/10 hover:border-[#6366f1]/50 cursor-pointer transition-colors">
+          <Upload className="w-6 h-6 text-[#a5b4fc]" />
+          <span className="text-sm text-white">{csvFile ? csvFile.name : 'Choose a bot CSV'}</span>
+          <span className="text-xs text-[#5a5a65]">The CSV you upload to Bot Manager</span>
+          <input type="file" accept=".csv,text/csv" onChange={handleFileChange} className="hidden" />
+        </label>
+      ) : (
+        <div className="space-y-3 mb-4">
+          <div>
+            <label className="block text-sm font-medium text-[#a0a0a5] mb-2">Bot ID</label>
+            <input
+              type="text"
+              value={botId}
+              onChange={(e) => { setBotId(e.target.value); setError(null) }}
+              placeholder="Customer.BotName"
+              className="w-full px-4 py-3 rounded-xl bg-white/5 border border-white/10 text-white text-sm placeholder-[#5a5a65] focus:outline-none focus:border-[#6366f1]/50 focus:ring-1 focus:ring-[#6366f1]/25 transition-all"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-[#a0a0a5] mb-2">Pypestream API key</label>
+            <input
+              type="password"
+              value={apiKey}
+              onChange={(e) => setApiKey(e.target.value)}
+              placeholder="Bot Manager API key"
+              className="w-full px-4 py-3 rounded-xl bg-white/5 border border-white/10 text-white text-sm placeholder-[#5a5a65] focus:outline-none focus:border-[#6366f1]/50 focus:ring-1 focus:ring-[#6366f1]/25 transition-all"
+            />
+          </div>
+          <p className="text-xs text-[#5a5a65]">
+            We import the newest version's CSV and its custom scripts.
+          </p>
+        </div>
+      )}
+      
+      {/* Error message */}
+      {error && (
+        <div className="flex items-center gap-2 p-3 rounded-lg bg-red-500/10 border border-red-500/20 mb-4">
+          <AlertCircle className="w-4 h-4 text-red-400 shrink-0" />
+          <p className="text-sm text-red-400">{error}</p>
+        </div>
+      )}
+      
+      {/* Buttons */}
+      <div className="flex gap-3">
+        <button
+          onClick={onClose}
+          className="flex-1 py-2.5 rounded-xl font-medium bg-white/5 hover:bg-white/10 text-white transition-all duration-200"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={handleSubmit}
+          disabled={!canSubmit}
+          className={`flex-1 py-2.5 rounded-xl font-medium transition-all duration-200 ${
+            canSubmit
+              ? 'bg-[#6366f1] hover:bg-[#7c7ff2] text-white' 
+              : 'bg-white/5 text-[#5a5a65] cursor-not-allowed'
+          }`}
+        >
+          Import Bot
+        </button>
+      </div>
+    </div>
+  )
+}
+
 // Authentication screen
 function AuthScreen({ 
   source, 
@@ -350,7 +537,7 @@ function FileSelector({
 }: { 
   source: 'figma' | 'sheets'
   files: ImportFile[]
-  onSelect: (file: ImportFile) => void
+  onSelect: (file: ImportFile, asBot: boolean) => void
   onClose: () => void
   isLoading: boolean
 }) {
@@ -374,10 +561,10 @@ function FileSelector({
     return new Date(b.lastModified).getTime() - new Date(a.lastModified).getTime()
   })
   
-  const handleImport = () => {
+  const handleImport = (asBot = false) => {
     const file = files.find(f => f.id === selectedFile)
     if (file) {
-      onSelect(file)
+      onSelect(file, asBot)
     }
   }
   
@@ -508,11 +695,25 @@ function FileSelector({
       </div>
       
       {/* Footer */}
-      <div className="px-4 py-3 border-t border-white/5 bg-white/[0.02] shrink-0">
+      <div className="flex gap-2 px-4 py-3 border-t border-white/5 bg-white/[0.02] shrink-0">
+        {source === 'sheets' && (
+          <button
+            onClick={() => handleImport(true)}
+            disabled={!selectedFile}
+            title="Open the sheet's bot CSV for editing and redeploying"
+            className={`flex-1 py-2.5 rounded-xl font-medium transition-all duration-200 ${
+              selectedFile 
+                ? 'bg-white/5 hover:bg-white/10 text-white' 
+                : 'bg-white/5 text-[#5a5a65] cursor-not-allowed'
+            }`}
+          >
+            Import as editable bot
+          </button>
+        )}
         <button
-          onClick={handleImport}
+          onClick={() => handleImport()}
           disabled={!selectedFile}
-          className={`w-full py-2.5 rounded-xl font-medium transition-all duration-200 ${
+          className={`flex-1 py-2.5 rounded-xl font-medium transition-all duration-200 ${
             selectedFile 
               ? 'bg-[#6366f1] hover:bg-[#7c7ff2] text-white' 
               : 'bg-white/5 text-[#5a5a65] cursor-not-allowed'
@@ -611,13 +812,19 @@ export function ImportModal({ isOpen, onClose, source, onImport }: ImportModalPr
   }
   
   // Handle file selection (for Sheets)
-  const handleFileSelect = (file: ImportFile) => {
+  const handleFileSelect = (file: ImportFile, asBot: boolean) => {
     if (source) {
-      onImport({ source, file })
+      onImport({ source, file, asBot })
       onClose()
     }
   }
   
+  // Handle existing bot import (CSV file or Bot Manager)
+  const handleBotImport = (data: ImportData) => {
+    onImport(data)
+    onClose()
+  }
+  
   // Handle Figma URL import
   const handleFigmaImport = (fileKey: string, fileName: string) => {
     setIsImportingFigma(true)
@@ -635,6 +842,19 @@ export function ImportModal({ isOpen, onClose, source, onImport }: ImportModalPr
     onClose()
   }
   
+  // Handle Figma JSON file import
+  const handleFigmaFileImport = (fileName: string, json: string) => {
+    const file: ImportFile = {
+      id: fileName,
+      name: fileName,
+      type: 'figma-json',
+      lastModified: new Date().toISOString(),
+    }
+    
+    onImport({ source: 'figma', file, figmaJson: json })
+    onClose()
+  }
+  
   if (!isOpen || !source) return null
   
   const config = {
@@ -642,6 +862,29 @@ export function ImportModal({ isOpen, onClose, source, onImport }: ImportModalPr
     sheets: { name: 'Google Sheets', color: 'from-[#34A853] to-[#4285F4]' },
   }
   
+  // Existing bots come from a file or Bot Manager - no OAuth
+  if (source === 'bot') {
+    return (
+      <>
+        {/* Backdrop */}
+        <div 
+          className="fixed inset-0 bg-black/60 backdrop-blur-sm z-[100] animate-fade-in"
+          onClick={onClose}
+        />
+        
+        {/* Modal */}
+        <div className="fixed inset-0 z-[101] flex items-center justify-center p-4 pointer-events-none">
+          <div className="bg-[#0f0f12] border border-white/10 rounded-2xl shadow-2xl overflow-hidden w-full max-w-md pointer-events-auto animate-scale-in">
+            <BotSourceInput
+              onImport={handleBotImport}
+              onClose={onClose}
+            />
+          </div>
+        </div>
+      </>
+    )
+  }
+  
   // Figma uses URL input directly (no OAuth in this app - handled by MCP)
   if (source === 'figma') {
     return (
@@ -657,6 +900,7 @@ export function ImportModal({ isOpen, onClose, source, onImport }: ImportModalPr
           <div className="bg-[#0f0f12] border border-white/10 rounded-2xl shadow-2xl overflow-hidden w-full max-w-md pointer-events-auto animate-scale-in">
             <FigmaUrlInput
               onImport={handleFigmaImport}
+              onImportFile={handleFigmaFileImport}
               onClose={onClose}
               isLoading={isImportingFigma}
             />
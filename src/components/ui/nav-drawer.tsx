@@ -3,11 +3,12 @@ import { useNavigate } from 'react-router-dom'
 import { 
   X, Plus, ChevronRight, FileText, Clock, 
   CheckCircle2, Archive, Rocket, LayoutDashboard,
-  Menu, LogOut, User, Settings, Sparkles
+  Menu, LogOut, User, Settings, Sparkles, BrainCircuit, Wrench
 } from 'lucide-react'
 import { useStore } from '../../store/useStore'
 import { useAuth } from '../../contexts/AuthContext'
 import { AISettingsModal } from './ai-settings-modal'
+import { isErrorLearningAdmin } from '../../services/error-learning-admin'
 import type { SavedSolution } from '../../types'
 
 // Format relative time
@@ -153,6 +154,14 @@ export function NavDrawer() {
     closeAndNavigate(() => navigate('/dashboard'))
   }
   
+  const handleOpenFixQueue = () => {
+    closeAndNavigate(() => navigate('/fix-queue'))
+  }
+  
+  const handleOpenErrorLearning = () => {
+    closeAndNavigate(() => navigate('/admin/error-learning'))
+  }
+  
   const handleSelectSolution = (solutionId: string) => {
     closeAndNavigate(() => {
       setActiveSolution(solutionId)
@@ -272,6 +281,26 @@ export function NavDrawer() {
             )}
           </button>
           
+          {/* Fix Queue */}
+          <button
+            onClick={handleOpenFixQueue}
+            className="w-full flex items-center gap-3 px-3 py-2.5 rounded-lg text-sm text-[#a0a0a5] hover:text-white hover:bg-white/5 transition-colors"
+          >
+            <Wrench className="w-4 h-4" />
+            <span>Fix Queue</span>
+          </button>
+          
+          {/* Error Learning (admins only) */}
+          {isErrorLearningAdmin(user.email) && (
+            <button
+              onClick={handleOpenErrorLearning}
+              className="w-full flex items-center gap-3 px-3 py-2.5 rounded-lg text-sm text-[#a0a0a5] hover:text-white hover:bg-white/5 transition-colors"
+            >
+              <BrainCircuit className="w-4 h-4" />
+              <span>Error Learning</span>
+            </button>
+          )}
+          
           {user.email && (
             <div className="flex items-center gap-3 pt-2">
               <div className="w-8 h-8 rounded-full bg-[rgba(99,102,241,0.15)] border border-[rgba(99,102,241,0.2)] flex items-center justify-center">
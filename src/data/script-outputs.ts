@@ -0,0 +1,43 @@
+/**
+ * Action Script Outputs
+ *
+ * GENERATED by scripts/generate-script-outputs.ts - do not edit by hand.
+ * Run `npm run generate:script-outputs` after adding or changing an action script.
+ *
+ * Known Decision Variable values returned by action node scripts.
+ * Kept free of service imports so it can be used from scripts/ CLIs.
+ */
+
+/**
+ * Registry of action script output values
+ * Maps script names to their possible Decision Variable return values.
+ * Used to validate that What Next routing covers all possible outcomes.
+ *
+ * CRITICAL: If a What Next is missing a route for any of these values,
+ * the bot will fail with an unhandled routing error.
+ */
+export const SCRIPT_OUTPUTS: Record<string, string[]> = {
+  'AssignVariable': ['true', 'false', 'error'],
+  'BotToPlatform': ['true', 'false', 'error'],
+  'FailCountCheck': ['stop', 'continue', 'error'],
+  'GenAIFallback': ['not_understood', 'route_flow', 'understood', 'error'], // Decision Variable: result
+  'GetGPTCompletion': ['true', 'false', 'error'],
+  'GetGeminiCompletionSimple': ['true', 'false', 'error'],
+  'GetValue': ['true', 'false', 'error'],
+  'HandleBotError': ['other', 'bot_timeout', 'bot_error'], // Decision Variable: error_type
+  'LimitCounter': ['stop', 'continue', 'error'],
+  'MatchRouting': ['true', 'false', 'error'],
+  'MultiMatchRouting': ['false', 'error'], // matches are dynamic, false/error are standard
+  'SetVar': ['true', 'false', 'error'],
+  'SysAssignVariable': ['true', 'error'],
+  'SysMultiMatchRouting': ['false', 'error'], // 'false' for no match, other values are dynamic
+  'SysSetEnv': ['true', 'error'],
+  'SysShowMetadata': ['true', 'error'],
+  'SysVariableReset': ['true', 'error'],
+  'UserPlatformRouting': ['ios', 'android', 'mac', 'windows', 'other', 'error'],
+  'ValidateAddress': ['true', 'false', 'error'],
+  'ValidateDate': ['true', 'false', 'error'],
+  'ValidatePhoneAndReturnStripped': ['true', 'false', 'error'],
+  'ValidateRegex': ['false', 'true', 'error'],
+  'VarCheck': ['true', 'false', 'error'],
+};
@@ -9,6 +9,9 @@ import { createClient } from '@supabase/supabase-js';
 const SUPABASE_URL = import.meta.env.VITE_SUPABASE_URL || 'https://jcsfggahtaewgqytvgau.supabase.co';
 const SUPABASE_ANON_KEY = import.meta.env.VITE_SUPABASE_ANON_KEY || '';
 
-export const supabase = createClient(SUPABASE_URL, SUPABASE_ANON_KEY);
+// fetch is looked up per request so pipeline fixtures can record/replay Supabase calls
+export const supabase = createClient(SUPABASE_URL, SUPABASE_ANON_KEY, {
+  global: { fetch: (input, init) => fetch(input, init) },
+});
 
 export type { User, Session } from '@supabase/supabase-js';
@@ -4,11 +4,12 @@ import {
   Plus, Search, Filter, MoreHorizontal, FileText, 
   Rocket, Archive, Clock, ChevronDown, Edit3, 
   Copy, Trash2, ExternalLink, LayoutGrid, List,
-  ArrowLeft, Menu, Loader2, X
+  ArrowLeft, Menu, Loader2, X, Coins
 } from 'lucide-react';
 import { useStore } from '../store/useStore';
-import type { SavedSolution } from '../types';
+import type { CostSummary, SavedSolution } from '../types';
 import { NavDrawer, NavMenuButton } from '../components/ui/nav-drawer';
+import { fetchCostTotals, formatCost, formatTokens, getBuildBudgetUsd, setBuildBudgetUsd } from '../services/cost-ledger';
 
 // Format date
 function formatDate(dateString: string): string {
@@ -125,8 +126,69 @@ function DeleteConfirmModal({
   );
 }
 
+// AI spend across all solutions, with the per-build budget setting
+function SpendMenu({ costs }: { costs: Record<string, CostSummary> }) {
+  const [open, setOpen] = useState(false);
+  const [budgetInput, setBudgetInput] = useState(() => getBuildBudgetUsd()?.toString() || '');
+  
+  const totals = Object.values(costs);
+  const totalCost = totals.reduce((sum, c) => sum + c.costUsd, 0);
+  const totalTokens = totals.reduce((sum, c) => sum + c.inputTokens + c.outputTokens, 0);
+  
+  const handleSave = () => {
+    const budget = parseFloat(budgetInput);
+    setBuildBudgetUsd(budget > 0 ? budget : null);
+    setBudgetInput(budget > 0 ? String(budget) : '');
+    setOpen(false);
+  };
+  
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className="flex items-center gap-2 px-3 py-2 rounded-lg bg-[#1a1a1f] border border-white/5 text-sm text-[#a0a0a5] hover:border-white/10 transition-colors"
+        title="AI spend across your solutions"
+      >
+        <Coins className="w-4 h-4" />
+        {formatCost(totalCost)}
+      </button>
+      
+      {open && (
+        <>
+          <div className="fixed inset-0 z-10" onClick={() => setOpen(false)} />
+          <div className="absolute right-0 top-full mt-1 z-20 w-64 bg-[#1a1a1f] border border-white/10 rounded-xl shadow-2xl p-4">
+            <p className="text-sm text-white font-medium">{formatCost(totalCost)} AI spend</p>
+            <p className="text-xs text-[#6a6a75] mb-4">{formatTokens(totalTokens)} tokens across {totals.length} solution{totals.length === 1 ? '' : 's'}</p>
+            
+            <label className="block text-xs text-[#8585a3] mb-1.5">Per-build budget (USD)</label>
+            <div className="flex gap-2">
+              <input
+                type="number"
+                min="0"
+                step="0.5"
+                value={budgetInput}
+                onChange={(e) => setBudgetInput(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+                placeholder="No limit"
+                className="flex-1 min-w-0 px-3 py-1.5 rounded-lg bg-[#0a0a0c] border border-white/10 text-white text-sm placeholder-[#5a5a65] focus:outline-none focus:border-[#6366f1]/50"
+              />
+              <button
+                onClick={handleSave}
+                className="px-3 py-1.5 rounded-lg bg-[#6366f1] hover:bg-[#7c7ff2] text-white text-sm font-medium transition-colors"
+              >
+                Save
+              </button>
+            </div>
+            <p className="text-[11px] text-[#5a5a65] mt-2">Refinement stops before a build goes over budget.</p>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
 // Solution card component
-function SolutionCard({ solution, onSelect, onDelete }: { solution: SavedSolution; onSelect: () => void; onDelete: () => void }) {
+function SolutionCard({ solution, cost, onSelect, onDelete }: { solution: SavedSolution; cost?: CostSummary; onSelect: () => void; onDelete: () => void }) {
   const [showMenu, setShowMenu] = useState(false);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
@@ -249,6 +311,9 @@ function SolutionCard({ solution, onSelect, onDelete }: { solution: SavedSolutio
         </div>
         <div className="text-xs text-[#5a5a65]">
           {solution.nodeCount} nodes
+          {cost && cost.calls > 0 && (
+            <span title={`${formatTokens(cost.inputTokens)} in / ${formatTokens(cost.outputTokens)} out tokens`}> • {formatCost(cost.costUsd)}</span>
+          )}
         </div>
       </div>
       
@@ -277,6 +342,7 @@ export function DashboardPage() {
   const setStep = useStore((state) => state.setStep);
   const startNewSolution = useStore((state) => state.startNewSolution);
   const setActiveSolution = useStore((state) => state.setActiveSolution);
+  const [costs, setCosts] = useState<Record<string, CostSummary>>({});
   
   // Sync solutions from Supabase on mount and when user email is available
   // Cached solutions show immediately, then we sync in background to remove deleted items
@@ -286,6 +352,13 @@ export function DashboardPage() {
     }
   }, [userEmail, fetchSavedSolutions]);
   
+  // AI cost totals from the ledger, once solutions are known
+  useEffect(() => {
+    if (solutionsLoaded && userEmail) {
+      fetchCostTotals().then(setCosts);
+    }
+  }, [solutionsLoaded, userEmail]);
+  
   // Filter solutions
   const filteredSolutions = savedSolutions.filter((solution) => {
     const matchesSearch = 
@@ -355,6 +428,8 @@ export function DashboardPage() {
           
           {/* Filters and View Toggle */}
           <div className="flex items-center gap-2">
+            <SpendMenu costs={costs} />
+            
             {/* Status Filter */}
             <div className="relative">
               <button
@@ -431,6 +506,7 @@ export function DashboardPage() {
               <SolutionCard
                 key={solution.id}
                 solution={solution}
+                cost={costs[solution.id]}
                 onSelect={() => handleSelectSolution(solution.id)}
                 onDelete={() => deleteSavedSolution(solution.id)}
               />
@@ -46,6 +46,7 @@ import {
   Type,
   Image
 } from 'lucide-react';
+import type { CustomScript } from '../types';
 
 type Environment = 'sandbox' | 'production';
 type DeployStatus = 'idle' | 'deploying' | 'success' | 'error';
@@ -119,6 +120,8 @@ export function DeployPage() {
   const [scriptDetection, setScriptDetection] = useState<ScriptDetectionResult | null>(null);
   const [isUploadingScripts, setIsUploadingScripts] = useState(false);
   const [uploadedScripts, setUploadedScripts] = useState<Set<string>>(new Set());
+  // Script sources for the Parameter Input / What Next contract check
+  const [contractScripts, setContractScripts] = useState<CustomScript[]>([]);
   
   // Deployment readiness state
   const [configUploaded, setConfigUploaded] = useState(false);
@@ -190,6 +193,35 @@ export function DeployPage() {
     }
   }, [solution?.csvContent]);
 
+  // Fetch official script sources (action_scripts table or local files) for contract checks
+  useEffect(() => {
+    if (!scriptDetection) return;
+    const known = new Set((solution?.scripts || []).map(s => s.name));
+    const names = scriptDetection.officialScripts.filter(name => !known.has(name));
+    if (names.length === 0) return;
+
+    let cancelled = false;
+    Promise.all(names.map(async (scriptName) => {
+      try {
+        const response = await fetch('/api/scripts/get-content', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ scriptName }),
+        });
+        const result = await response.json();
+        return result.content ? { name: scriptName, content: result.content as string } : null;
+      } catch {
+        return null;
+      }
+    })).then((fetched) => {
+      if (!cancelled) setContractScripts(fetched.filter((s): s is CustomScript => s !== null));
+    });
+
+    return () => { cancelled = true; };
+  }, [scriptDetection, solution?.scripts]);
+
+  const scriptsForContracts = (): CustomScript[] => [...(solution?.scripts || []), ...contractScripts];
+
   const hasApiKey = !!credentials.pypestreamApiKey;
   const botId = customBotId || defaultBotId;
   
@@ -300,7 +332,7 @@ export function DeployPage() {
   // Run pre-deploy validation
   const runPreDeployValidation = () => {
     if (!solution?.csvContent) return;
-    const result = preDeployValidation(solution.csvContent, false);
+    const result = preDeployValidation(solution.csvContent, false, scriptsForContracts());
     setPreValidation(result);
     return result;
   };
@@ -310,7 +342,7 @@ export function DeployPage() {
     if (!solution?.csvContent) return;
     
     setIsAutoFixing(true);
-    const result = preDeployValidation(solution.csvContent, true);
+    const result = preDeployValidation(solution.csvContent, true, scriptsForContracts());
     
     if (result.fixedCsv) {
       // Update solution with fixed CSV
@@ -323,11 +355,11 @@ export function DeployPage() {
       if (activeSolutionId) {
         await updateSavedSolution(activeSolutionId, {
           csvContent: result.fixedCsv
-        });
+        }, { source: 'edit', note: 'Auto-fix before deploy' });
       }
       
       // Re-run validation to confirm fix
-      setPreValidation(preDeployValidation(result.fixedCsv, false));
+      setPreValidation(preDeployValidation(result.fixedCsv, false, scriptsForContracts()));
     }
     
     setIsAutoFixing(false);
@@ -407,7 +439,7 @@ export function DeployPage() {
       if (activeSolutionId) {
         await updateSavedSolution(activeSolutionId, {
           csvContent: result.csv,
-        });
+        }, { source: 'manual', note: `Removed script ${scriptName}` });
       }
       
       console.log(`[Deploy] Removed script ${scriptName} from nodes: ${result.nodesModified.join(', ')}`);
@@ -631,7 +663,7 @@ PARAMS = {
     }
     
     // Run pre-deploy validation
-    const preCheck = preDeployValidation(solution.csvContent, false);
+    const preCheck = preDeployValidation(solution.csvContent, false, scriptsForContracts());
     if (!preCheck.valid) {
       setPreValidation(preCheck);
       // Don't stop deployment, but show warning
@@ -820,7 +852,10 @@ PARAMS = {
             deployedEnvironment: selectedEnv,
             botUrl: finalPreviewUrl,
             widgetUrl: finalPreviewUrl,  // Same URL - the widget preview
-          });
+            csvContent: sanitizedCsv,
+            botId,
+            versionId: result.versionId,
+          }, { source: 'deploy', note: `Deployed to ${selectedEnv}`, scripts: scriptsForDeploy });
         }
       } else if (result.success && !result.deployed) {
         // Upload succeeded but deploy failed
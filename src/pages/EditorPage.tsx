@@ -33,13 +33,19 @@ import {
   Maximize2,
   Code2,
   FileCode,
-  Link2
+  Link2,
+  AlertTriangle,
+  GitCompare
 } from 'lucide-react';
-import { SheetsSyncService } from '../services/sheets-sync';
+import { SheetsSyncService, type SheetsSyncResult } from '../services/sheets-sync';
 import { oneClickDeploy } from '../services/botmanager';
 import { exportToGoogleSheets } from '../services/composio';
-import { ScriptEditorModal } from '../components';
-import type { CustomScript } from '../types';
+import { BotDocument } from '../services/bot-document';
+import { analyzeBotGraph } from '../services/graph-analyzer';
+import { diffCSV, mergeRemovedNodes, type CSVMergeResult, type CSVNodeChange, type MergeSide } from '../services/bot-diff';
+import { fetchSolutionVersions } from '../services/solution-versions-api';
+import { ScriptEditorModal, NodeDiffViewer, SyncConflictDialog } from '../components';
+import type { CustomScript, GraphCheck, SolutionVersion } from '../types';
 
 // System/Official action nodes that don't need custom scripts
 const SYSTEM_ACTION_NODES = new Set([
@@ -78,16 +84,77 @@ interface ParsedNode {
   whatNext?: string;
   answerRequired?: string;
   nluDisabled?: string;
+  // Routing graph checks that flagged this node (highlighted on the canvas)
+  graphIssues?: GraphCheck[];
+  graphMessages?: string[];
+  // Pending change from a compared version (diff overlay)
+  diffStatus?: CSVNodeChange['changeType'];
+  diffRejected?: boolean;
+}
+
+// A proposed CSV being compared against the current one
+interface PendingDiff {
+  title: string;
+  before: string;
+  after: string;
+  note: string;
+}
+
+const GRAPH_CHECK_LABELS: Record<GraphCheck, string> = {
+  unreachable: 'Unreachable',
+  dead_end: 'Dead end',
+  uncovered_outcome: 'Missing route',
+  silent_loop: 'Silent loop',
+};
+
+const DIFF_RINGS: Record<CSVNodeChange['changeType'], string> = {
+  added: 'ring-2 ring-emerald-400 ring-offset-2 ring-offset-[#0a0a0f]',
+  removed: 'ring-2 ring-red-400 ring-offset-2 ring-offset-[#0a0a0f] opacity-60',
+  modified: 'ring-2 ring-amber-400 ring-offset-2 ring-offset-[#0a0a0f]',
+};
+
+// Ring + badge shown on nodes flagged by the graph analyzer (or changed in a diff)
+function graphIssueRing(data: ParsedNode, selected: boolean): string {
+  if (selected) return '';
+  if (data.diffStatus) return data.diffRejected ? 'opacity-40' : DIFF_RINGS[data.diffStatus];
+  return data.graphIssues?.length ? 'ring-2 ring-red-500 ring-offset-2 ring-offset-[#0a0a0f]' : '';
+}
+
+function DiffBadge({ data }: { data: ParsedNode }) {
+  if (!data.diffStatus) return null;
+  const colors = { added: 'bg-emerald-500', removed: 'bg-red-500', modified: 'bg-amber-500' };
+  return (
+    <div className={`absolute -top-2 -left-2 px-1.5 py-0.5 rounded-full text-[10px] font-medium text-white shadow ${
+      data.diffRejected ? 'bg-[#4a4a55] line-through' : colors[data.diffStatus]
+    }`}>
+      {data.diffStatus}
+    </div>
+  );
+}
+
+function GraphIssueBadge({ data }: { data: ParsedNode }) {
+  if (!data.graphIssues?.length) return null;
+  return (
+    <div
+      className="absolute -top-2 -right-2 flex items-center gap-1 px-1.5 py-0.5 rounded-full bg-red-500 text-[10px] font-medium text-white shadow"
+      title={data.graphMessages?.join('\n')}
+    >
+      <AlertTriangle className="w-3 h-3" />
+      {GRAPH_CHECK_LABELS[data.graphIssues[0]]}
+    </div>
+  );
 }
 
 // Custom node component for Decision nodes
 function DecisionNode({ data, selected }: { data: ParsedNode; selected: boolean }) {
   return (
-    <div className={`px-4 py-3 rounded-xl shadow-lg min-w-[200px] max-w-[280px] transition-all ${
+    <div className={`relative px-4 py-3 rounded-xl shadow-lg min-w-[200px] max-w-[280px] transition-all ${
       selected 
         ? 'bg-blue-600 ring-2 ring-blue-400 ring-offset-2 ring-offset-[#0a0a0f]' 
         : 'bg-gradient-to-br from-blue-600 to-blue-700'
-    }`}>
+    } ${graphIssueRing(data, selected)}`}>
+      <GraphIssueBadge data={data} />
+      <DiffBadge data={data} />
       <Handle type="target" position={Position.Top} className="!bg-blue-400 !w-3 !h-3" />
       
       <div className="flex items-center gap-2 mb-2">
@@ -119,11 +186,13 @@ function DecisionNode({ data, selected }: { data: ParsedNode; selected: boolean
 // Custom node component for Action nodes
 function ActionNode({ data, selected }: { data: ParsedNode; selected: boolean }) {
   return (
-    <div className={`px-4 py-3 rounded-xl shadow-lg min-w-[200px] max-w-[280px] transition-all ${
+    <div className={`relative px-4 py-3 rounded-xl shadow-lg min-w-[200px] max-w-[280px] transition-all ${
       selected 
         ? 'bg-emerald-600 ring-2 ring-emerald-400 ring-offset-2 ring-offset-[#0a0a0f]' 
         : 'bg-gradient-to-br from-emerald-600 to-emerald-700'
-    }`}>
+    } ${graphIssueRing(data, selected)}`}>
+      <GraphIssueBadge data={data} />
+      <DiffBadge data={data} />
       <Handle type="target" position={Position.Top} className="!bg-emerald-400 !w-3 !h-3" />
       
       <div className="flex items-center gap-2 mb-2">
@@ -149,11 +218,13 @@ function ActionNode({ data, selected }: { data: ParsedNode; selected: boolean })
 // Custom node component for System/Error nodes
 function SystemNode({ data, selected }: { data: ParsedNode; selected: boolean }) {
   return (
-    <div className={`px-4 py-3 rounded-xl shadow-lg min-w-[180px] max-w-[240px] transition-all ${
+    <div className={`relative px-4 py-3 rounded-xl shadow-lg min-w-[180px] max-w-[240px] transition-all ${
       selected 
         ? 'bg-amber-600 ring-2 ring-amber-400 ring-offset-2 ring-offset-[#0a0a0f]' 
         : 'bg-gradient-to-br from-amber-600 to-amber-700'
-    }`}>
+    } ${graphIssueRing(data, selected)}`}>
+      <GraphIssueBadge data={data} />
+      <DiffBadge data={data} />
       <Handle type="target" position={Position.Top} className="!bg-amber-400 !w-3 !h-3" />
       
       <div className="flex items-center gap-2 mb-1">
@@ -201,6 +272,12 @@ export function EditorPage() {
   const [redeployError, setRedeployError] = useState<string | null>(null);
   const [parsedNodes, setParsedNodes] = useState<ParsedNode[]>([]);
   const syncService = useRef<SheetsSyncService | null>(null);
+  // Sheet edits that clash with edits made here, waiting for the user
+  const [syncConflict, setSyncConflict] = useState<CSVMergeResult | null>(null);
+  const [resolvingConflict, setResolvingConflict] = useState(false);
+  // Latest build result for the sync poller
+  const buildResultRef = useRef(instantBuildResult);
+  buildResultRef.current = instantBuildResult;
   
   // Google Sheets export state
   const [exportingToSheets, setExportingToSheets] = useState(false);
@@ -215,6 +292,16 @@ export function EditorPage() {
   const [editingScript, setEditingScript] = useState<CustomScript | null>(null);
   const [scripts, setScripts] = useState<CustomScript[]>(instantBuildResult?.scripts || []);
   
+  // Version compare / diff overlay state
+  const [versionPicker, setVersionPicker] = useState<SolutionVersion[] | null>(null);
+  const [pendingDiff, setPendingDiff] = useState<PendingDiff | null>(null);
+  const [rejectedChanges, setRejectedChanges] = useState<Set<number>>(new Set());
+  const [diffSelectedNode, setDiffSelectedNode] = useState<number | null>(null);
+  const diffChanges = useMemo(
+    () => (pendingDiff ? diffCSV(pendingDiff.before, pendingDiff.after).changes : []),
+    [pendingDiff]
+  );
+  
   // Initialize scripts from instantBuildResult
   useEffect(() => {
     if (instantBuildResult?.scripts) {
@@ -265,39 +352,103 @@ export function EditorPage() {
   }, [scripts, instantBuildResult, setInstantBuildResult]);
   
   // Parse CSV and create flow nodes/edges on mount
+  // While comparing, draw the proposed CSV (plus removed nodes) with the diff overlaid
   useEffect(() => {
-    if (instantBuildResult?.csv) {
-      const parsed = parseCSVToNodes(instantBuildResult.csv);
+    const csv = pendingDiff
+      ? mergeRemovedNodes(pendingDiff.before, pendingDiff.after)
+      : instantBuildResult?.csv;
+    if (csv) {
+      const parsed = parseCSVToNodes(csv);
+      for (const change of diffChanges) {
+        const node = parsed.find(n => n.nodeNumber === change.nodeNum);
+        if (!node) continue;
+        node.diffStatus = change.changeType;
+        node.diffRejected = rejectedChanges.has(change.nodeNum);
+      }
       setParsedNodes(parsed);
       
       const { flowNodes, flowEdges } = createFlowElements(parsed);
       setNodes(flowNodes);
       setEdges(flowEdges);
     }
-  }, [instantBuildResult?.csv, setNodes, setEdges]);
+  }, [instantBuildResult?.csv, pendingDiff, diffChanges, rejectedChanges, setNodes, setEdges]);
+  
+  // Adopt content the sync produced (pulled or merged from Google Sheets)
+  const applySyncedCSV = useCallback((csv: string, note: string) => {
+    const current = buildResultRef.current;
+    if (!current || csv === current.csv) return;
+    setInstantBuildResult({ ...current, csv });
+    if (activeSolutionId) {
+      updateSavedSolution(activeSolutionId, {
+        csvContent: csv,
+        nodeCount: BotDocument.parse(csv).nodes.length,
+      }, { source: 'sheets-sync', note, scripts: current.scripts });
+    }
+  }, [activeSolutionId, setInstantBuildResult, updateSavedSolution]);
+  
+  const handleSyncResult = useCallback((result: SheetsSyncResult) => {
+    switch (result.status) {
+      case 'pulled':
+      case 'merged':
+        console.log(`[Editor] Sheets sync: ${result.status}`);
+        applySyncedCSV(result.csv!, result.status === 'pulled' ? 'Pulled changes from Google Sheets' : 'Merged changes with Google Sheets');
+        setSyncStatus('synced');
+        break;
+      case 'pushed':
+      case 'in-sync':
+        setSyncStatus('synced');
+        break;
+      case 'conflict':
+        setSyncConflict(result.merge!);
+        break;
+      case 'error':
+        setSyncStatus('error');
+        break;
+    }
+  }, [applySyncedCSV]);
   
   // Initialize sync service
   useEffect(() => {
     if (instantBuildResult?.spreadsheetId) {
-      syncService.current = new SheetsSyncService(instantBuildResult.spreadsheetId);
+      const service = new SheetsSyncService(instantBuildResult.spreadsheetId);
+      service.initBase(buildResultRef.current?.csv || '');
+      syncService.current = service;
       
-      syncService.current.startPolling((newCSV) => {
-        console.log('[Editor] Remote change detected');
-        const parsed = parseCSVToNodes(newCSV);
-        setParsedNodes(parsed);
-        const { flowNodes, flowEdges } = createFlowElements(parsed);
-        setNodes(flowNodes);
-        setEdges(flowEdges);
-        setSyncStatus('synced');
-      });
+      service.startPolling(() => buildResultRef.current?.csv || '', handleSyncResult);
       
       return () => {
-        syncService.current?.stopPolling();
+        service.stopPolling();
       };
     } else {
       setSyncStatus('offline');
     }
-  }, [instantBuildResult?.spreadsheetId, setNodes, setEdges]);
+  }, [instantBuildResult?.spreadsheetId, handleSyncResult]);
+  
+  const handleResolveConflict = async (choices: Record<number, MergeSide>) => {
+    if (!syncService.current || !syncConflict) return;
+    const previousStatus = syncStatus;
+    setResolvingConflict(true);
+    setSyncStatus('syncing');
+    const result = await syncService.current.resolveConflicts(syncConflict, choices);
+    setResolvingConflict(false);
+    if (result.status === 'conflict') {
+      // The sheet changed in a way that needs new decisions
+      setSyncConflict(result.merge!);
+      setSyncStatus(previousStatus);
+      return;
+    }
+    setSyncConflict(null);
+    if (result.csv) {
+      applySyncedCSV(result.csv, `Resolved ${syncConflict.conflicts.length} sync conflict(s) with Google Sheets`);
+    }
+    setSyncStatus(result.status === 'error' ? 'error' : 'synced');
+  };
+  
+  // Leave both sides as they are until one of them changes
+  const handleCancelConflict = () => {
+    syncService.current?.dismissConflicts();
+    setSyncConflict(null);
+  };
   
   const onConnect = useCallback(
     (connection: Connection) => setEdges((eds) => addEdge({
@@ -311,9 +462,13 @@ export function EditorPage() {
   );
   
   const onNodeClick = useCallback((_: React.MouseEvent, node: Node) => {
+    if (pendingDiff) {
+      setDiffSelectedNode(parseInt(node.id));
+      return;
+    }
     const parsed = parsedNodes.find(n => n.nodeNumber === parseInt(node.id));
     setSelectedNode(parsed || null);
-  }, [parsedNodes]);
+  }, [parsedNodes, pendingDiff]);
   
   const handleBack = () => {
     setInstantStep('results');
@@ -431,10 +586,52 @@ export function EditorPage() {
     }
   };
   
+  const flaggedNodeCount = useMemo(
+    () => parsedNodes.filter(n => n.graphIssues?.length).length,
+    [parsedNodes]
+  );
+  
   const handleCloseDetails = () => {
     setSelectedNode(null);
   };
   
+  // Open the version picker for comparing against a saved snapshot
+  const handleOpenCompare = async () => {
+    if (versionPicker) {
+      setVersionPicker(null);
+      return;
+    }
+    if (!activeSolutionId) return;
+    setVersionPicker(await fetchSolutionVersions(activeSolutionId));
+  };
+  
+  const handleCompareVersion = (version: SolutionVersion) => {
+    setVersionPicker(null);
+    setSelectedNode(null);
+    setDiffSelectedNode(null);
+    setPendingDiff({
+      title: `Changes from v${version.versionNumber}`,
+      before: instantBuildResult?.csv || '',
+      after: version.csvContent,
+      note: `Applied node changes from v${version.versionNumber}`,
+    });
+  };
+  
+  // Write the accepted node changes back to the solution
+  const handleApplyDiff = (csv: string, appliedCount: number) => {
+    if (instantBuildResult) {
+      setInstantBuildResult({ ...instantBuildResult, csv });
+    }
+    if (activeSolutionId) {
+      updateSavedSolution(activeSolutionId, {
+        csvContent: csv,
+        nodeCount: BotDocument.parse(csv).nodes.length,
+      }, { source: 'manual', note: `${pendingDiff?.note} (${appliedCount} nodes)`, scripts });
+    }
+    console.log(`[Editor] Applied ${appliedCount} node changes`);
+    setPendingDiff(null);
+  };
+  
   return (
     <div className="flex flex-col h-screen bg-[#0a0a0f]">
       {/* Header */}
@@ -517,6 +714,38 @@ export function EditorPage() {
               : 'Export'}
           </button>
           
+          {/* Compare with a saved version */}
+          {activeSolutionId && (
+            <div className="relative">
+              <button
+                onClick={handleOpenCompare}
+                disabled={!!pendingDiff}
+                className="flex items-center gap-2 px-3 py-2 text-sm text-[#8585a3] hover:text-white border border-white/10 hover:border-white/20 rounded-lg transition-colors disabled:opacity-50"
+              >
+                <GitCompare className="w-4 h-4" />
+                Compare
+              </button>
+              {versionPicker && (
+                <div className="absolute right-0 mt-2 w-72 max-h-80 overflow-y-auto bg-[#1a1a1f] border border-white/10 rounded-lg shadow-xl z-20">
+                  {versionPicker.length === 0 ? (
+                    <p className="p-3 text-xs text-[#6a6a75]">No saved versions yet</p>
+                  ) : versionPicker.map((version) => (
+                    <button
+                      key={version.id}
+                      onClick={() => handleCompareVersion(version)}
+                      className="w-full px-3 py-2 text-left hover:bg-white/5 transition-colors"
+                    >
+                      <div className="text-sm text-white">v{version.versionNumber} · {version.source}</div>
+                      <div className="text-xs text-[#6a6a75] truncate">
+                        {version.note || new Date(version.createdAt).toLocaleString()}
+                      </div>
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+          
           {/* Redeploy button */}
           <button
             onClick={handleRedeploy}
@@ -604,12 +833,51 @@ export function EditorPage() {
                 <div className="w-3 h-3 rounded bg-amber-500" />
                 <span className="text-[#fcd34d]">System</span>
               </div>
+              {pendingDiff && (
+                <>
+                  <div className="flex items-center gap-2 text-xs">
+                    <div className="w-3 h-3 rounded ring-2 ring-emerald-400" />
+                    <span className="text-emerald-400">Added</span>
+                  </div>
+                  <div className="flex items-center gap-2 text-xs">
+                    <div className="w-3 h-3 rounded ring-2 ring-amber-400" />
+                    <span className="text-amber-400">Modified</span>
+                  </div>
+                  <div className="flex items-center gap-2 text-xs">
+                    <div className="w-3 h-3 rounded ring-2 ring-red-400" />
+                    <span className="text-red-400">Removed</span>
+                  </div>
+                </>
+              )}
+              {flaggedNodeCount > 0 && (
+                <div className="flex items-center gap-2 text-xs">
+                  <div className="w-3 h-3 rounded ring-2 ring-red-500" />
+                  <span className="text-red-400">Flow issue ({flaggedNodeCount})</span>
+                </div>
+              )}
             </div>
           </Panel>
         </ReactFlow>
         
+        {/* Diff review sidebar */}
+        {pendingDiff && (
+          <div className="absolute top-0 right-0 bottom-0 w-96 p-3 bg-[#0f0f13] border-l border-white/10 shadow-xl overflow-y-auto">
+            <NodeDiffViewer
+              before={pendingDiff.before}
+              after={pendingDiff.after}
+              title={pendingDiff.title}
+              applyLabel="Apply changes"
+              selectedNode={diffSelectedNode}
+              onSelectNode={setDiffSelectedNode}
+              onDecisionsChange={setRejectedChanges}
+              onApply={handleApplyDiff}
+              onCancel={() => setPendingDiff(null)}
+            />
+          </div>
+        )}
+        
         {/* Node Details Sidebar */}
-        {selectedNode && (
+        {selectedNode && !pendingDiff && (
           <div className="absolute top-0 right-0 bottom-0 w-80 bg-[#1a1a1f] border-l border-white/10 shadow-xl overflow-y-auto">
             <div className="p-4">
               <div className="flex items-center justify-between mb-4">
@@ -631,6 +899,17 @@ export function EditorPage() {
               
               <h3 className="text-lg font-semibold text-white mb-4">{selectedNode.nodeName}</h3>
               
+              {selectedNode.graphMessages && selectedNode.graphMessages.length > 0 && (
+                <div className="mb-4 p-3 bg-red-500/10 border border-red-500/20 rounded-lg space-y-1">
+                  {selectedNode.graphMessages.map((msg, idx) => (
+                    <div key={idx} className="flex items-start gap-2 text-xs text-red-300">
+                      <AlertTriangle className="w-3.5 h-3.5 shrink-0 mt-0.5" />
+                      <span>{msg}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+              
               <div className="space-y-4">
                 <div>
                   <label className="block text-xs text-[#6a6a75] uppercase tracking-wider mb-1">Type</label>
@@ -707,69 +986,47 @@ export function EditorPage() {
         script={editingScript}
         onSave={handleSaveScript}
       />
+      
+      <SyncConflictDialog
+        merge={syncConflict}
+        isResolving={resolvingConflict}
+        onResolve={handleResolveConflict}
+        onCancel={handleCancelConflict}
+      />
     </div>
   );
 }
 
 // Helper: Parse CSV to node objects
 function parseCSVToNodes(csv: string): ParsedNode[] {
-  const lines = csv.split('\n');
-  if (lines.length < 2) return [];
-  
-  const nodes: ParsedNode[] = [];
+  const nodes: ParsedNode[] = BotDocument.parse(csv).nodes.map(node => ({
+    nodeNumber: node.nodeNum,
+    nodeType: (node.type.trim().toUpperCase() === 'A' ? 'A' : 'D') as 'D' | 'A',
+    nodeName: node.name.trim() || `Node ${node.nodeNum}`,
+    nluDisabled: node.nluDisabled.trim(),
+    nextNodes: node.nextNodes.trim(),
+    message: node.message.trim(),
+    richAssetType: node.richType.trim(),
+    richAssetContent: node.richContent.trim(),
+    answerRequired: node.ansReq.trim(),
+    command: node.command.trim(),
+    whatNext: node.whatNext.trim(),
+  }));
   
-  for (let i = 1; i < lines.length; i++) {
-    const line = lines[i].trim();
-    if (!line) continue;
-    
-    const fields = parseCSVLine(line);
-    const nodeNum = parseInt(fields[0], 10);
-    if (isNaN(nodeNum)) continue;
-    
-    nodes.push({
-      nodeNumber: nodeNum,
-      nodeType: (fields[1]?.trim().toUpperCase() === 'A' ? 'A' : 'D') as 'D' | 'A',
-      nodeName: fields[2]?.trim() || `Node ${nodeNum}`,
-      nluDisabled: fields[6]?.trim(),
-      nextNodes: fields[7]?.trim(),
-      message: fields[8]?.trim(),
-      richAssetType: fields[9]?.trim(),
-      richAssetContent: fields[10]?.trim(),
-      answerRequired: fields[11]?.trim(),
-      command: fields[13]?.trim(),
-      whatNext: fields[19]?.trim(),
-    });
+  // Flag nodes with routing problems (unreachable, dead ends, missing routes, silent loops)
+  const { issues, flaggedNodes } = analyzeBotGraph(csv);
+  for (const node of nodes) {
+    const checks = flaggedNodes.get(node.nodeNumber);
+    if (!checks) continue;
+    node.graphIssues = checks;
+    node.graphMessages = issues
+      .filter(i => i.nodeNumber === node.nodeNumber || i.relatedNodes?.includes(node.nodeNumber))
+      .map(i => i.message);
   }
   
   return nodes.sort((a, b) => a.nodeNumber - b.nodeNumber);
 }
 
-// Helper: Parse CSV line handling quoted fields
-function parseCSVLine(line: string): string[] {
-  const result: string[] = [];
-  let current = '';
-  let inQuotes = false;
-  
-  for (let i = 0; i < line.length; i++) {
-    const char = line[i];
-    if (char === '"') {
-      if (inQuotes && line[i + 1] === '"') {
-        current += '"';
-        i++;
-      } else {
-        inQuotes = !inQuotes;
-      }
-    } else if (char === ',' && !inQuotes) {
-      result.push(current);
-      current = '';
-    } else {
-      current += char;
-    }
-  }
-  result.push(current);
-  return result;
-}
-
 // Helper: Create React Flow nodes and edges from parsed nodes
 function createFlowElements(parsedNodes: ParsedNode[]): { flowNodes: Node[]; flowEdges: Edge[] } {
   const nodeMap = new Map(parsedNodes.map(n => [n.nodeNumber, n]));
@@ -0,0 +1,405 @@
+/**
+ * Error Learning Admin
+ *
+ * Curate the self-improvement data without SQL: error patterns by occurrence
+ * or recency, each pattern's fix attempts with their before/after diff,
+ * approve / reject / edit fixes, merge duplicate signatures and choose which
+ * patterns are fed to the generation prompt.
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import {
+  Search, Loader2, ShieldAlert, Check, X, Edit3, GitMerge,
+  MessageSquareWarning, ChevronRight, RotateCcw
+} from 'lucide-react';
+import { useStore } from '../store/useStore';
+import { NavDrawer, NavMenuButton } from '../components/ui/nav-drawer';
+import {
+  getErrorPatternDetail,
+  isErrorLearningAdmin,
+  listErrorPatterns,
+  mergeErrorPatterns,
+  setAvoidInPrompt,
+  updateFix,
+  type ErrorPatternDetail,
+  type ErrorPatternSummary,
+  type PatternSortOrder,
+} from '../services/error-learning-admin';
+import type { FixAttempt, FixReviewStatus } from '../services/error-learning';
+
+function formatDate(dateString: string): string {
+  return new Date(dateString).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+}
+
+function diffValue(value: unknown): string {
+  if (value === undefined || value === null || value === '') return '(empty)';
+  return typeof value === 'string' ? value : JSON.stringify(value, null, 2);
+}
+
+// Review status badge
+function ReviewBadge({ status = 'pending' }: { status?: FixReviewStatus }) {
+  const className = {
+    pending: 'text-[#8a8a95] bg-white/5 border-white/10',
+    approved: 'text-emerald-400 bg-emerald-400/10 border-emerald-400/20',
+    rejected: 'text-red-400 bg-red-400/10 border-red-400/20',
+  }[status];
+
+  return (
+    <span className={`px-2 py-0.5 rounded-full border text-xs font-medium capitalize ${className}`}>
+      {status}
+    </span>
+  );
+}
+
+// One fix attempt with its diff and review actions
+function FixCard({ fix, onUpdated }: { fix: FixAttempt; onUpdated: (fix: FixAttempt) => void }) {
+  const [editing, setEditing] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const diff = fix.fix_diff as { before?: unknown; after?: unknown } | null;
+  const [description, setDescription] = useState(fix.fix_description);
+  const [before, setBefore] = useState(typeof diff?.before === 'string' ? diff.before : '');
+  const [after, setAfter] = useState(typeof diff?.after === 'string' ? diff.after : '');
+
+  const save = async (changes: Parameters<typeof updateFix>[1]) => {
+    setSaving(true);
+    setError(null);
+    try {
+      onUpdated(await updateFix(fix.id, changes));
+      setEditing(false);
+    } catch (e: any) {
+      setError(e.message || String(e));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSaveEdit = () => save({
+    fix_description: description,
+    fix_diff: before || after ? { ...(diff || {}), before, after } : diff,
+  });
+
+  return (
+    <div className="bg-[#1a1a1f] border border-white/5 rounded-xl p-4">
+      <div className="flex items-start justify-between gap-3 mb-3">
+        {editing ? (
+          <textarea
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            rows={2}
+            className="flex-1 px-3 py-2 rounded-lg bg-[#0a0a0c] border border-white/10 text-white text-sm focus:outline-none focus:border-[#6366f1]/50"
+          />
+        ) : (
+          <p className="text-sm text-white">{fix.fix_description}</p>
+        )}
+        <ReviewBadge status={fix.review_status} />
+      </div>
+
+      {editing ? (
+        <div className="grid grid-cols-2 gap-2 mb-3">
+          <label className="text-xs text-[#8585a3]">
+            Before
+            <textarea value={before} onChange={(e) => setBefore(e.target.value)} rows={3}
+              className="mt-1 w-full px-2 py-1.5 rounded-lg bg-[#0a0a0c] border border-white/10 text-red-300 text-xs font-mono focus:outline-none focus:border-[#6366f1]/50" />
+          </label>
+          <label className="text-xs text-[#8585a3]">
+            After
+            <textarea value={after} onChange={(e) => setAfter(e.target.value)} rows={3}
+              className="mt-1 w-full px-2 py-1.5 rounded-lg bg-[#0a0a0c] border border-white/10 text-emerald-300 text-xs font-mono focus:outline-none focus:border-[#6366f1]/50" />
+          </label>
+        </div>
+      ) : diff ? (
+        <div className="grid grid-cols-2 gap-2 mb-3">
+          <pre className="p-2 rounded-lg bg-red-500/5 border border-red-500/10 text-xs text-red-300 whitespace-pre-wrap break-all font-mono">{diffValue(diff.before)}</pre>
+          <pre className="p-2 rounded-lg bg-emerald-500/5 border border-emerald-500/10 text-xs text-emerald-300 whitespace-pre-wrap break-all font-mono">{diffValue(diff.after)}</pre>
+        </div>
+      ) : (
+        <p className="text-xs text-[#5a5a65] mb-3">No before/after diff recorded</p>
+      )}
+
+      <div className="flex items-center justify-between gap-3">
+        <p className="text-xs text-[#6a6a75]">
+          {Math.round(fix.confidence_score * 100)}% success • {fix.success_count}/{fix.applied_count} applied
+          {fix.reviewed_by && <> • reviewed by {fix.reviewed_by}</>}
+        </p>
+        <div className="flex items-center gap-1.5">
+          {editing ? (
+            <>
+              <button onClick={() => setEditing(false)} disabled={saving}
+                className="px-2.5 py-1 rounded-lg text-xs text-[#8a8a95] hover:text-white hover:bg-white/5 transition-colors">
+                Cancel
+              </button>
+              <button onClick={handleSaveEdit} disabled={saving || !description.trim()}
+                className="px-2.5 py-1 rounded-lg bg-[#6366f1] hover:bg-[#7c7ff2] disabled:opacity-50 text-white text-xs font-medium transition-colors">
+                Save
+              </button>
+            </>
+          ) : (
+            <>
+              <button onClick={() => setEditing(true)} disabled={saving} title="Edit fix"
+                className="p-1.5 rounded-lg text-[#8a8a95] hover:text-white hover:bg-white/5 transition-colors">
+                <Edit3 className="w-3.5 h-3.5" />
+              </button>
+              {fix.review_status && fix.review_status !== 'pending' && (
+                <button onClick={() => save({ review_status: 'pending' })} disabled={saving} title="Reset review"
+                  className="p-1.5 rounded-lg text-[#8a8a95] hover:text-white hover:bg-white/5 transition-colors">
+                  <RotateCcw className="w-3.5 h-3.5" />
+                </button>
+              )}
+              <button onClick={() => save({ review_status: 'rejected' })} disabled={saving || fix.review_status === 'rejected'}
+                className="flex items-center gap-1 px-2.5 py-1 rounded-lg text-xs text-red-400 hover:bg-red-400/10 disabled:opacity-40 transition-colors">
+                <X className="w-3.5 h-3.5" /> Reject
+              </button>
+              <button onClick={() => save({ review_status: 'approved' })} disabled={saving || fix.review_status === 'approved'}
+                className="flex items-center gap-1 px-2.5 py-1 rounded-lg text-xs text-emerald-400 hover:bg-emerald-400/10 disabled:opacity-40 transition-colors">
+                <Check className="w-3.5 h-3.5" /> Approve
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+      {error && <p className="text-xs text-red-400 mt-2">{error}</p>}
+    </div>
+  );
+}
+
+export function ErrorLearningAdminPage() {
+  const user = useStore((state) => state.user);
+  const isAdmin = isErrorLearningAdmin(user.email);
+
+  const [patterns, setPatterns] = useState<ErrorPatternSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [orderBy, setOrderBy] = useState<PatternSortOrder>('occurrence_count');
+  const [search, setSearch] = useState('');
+  const [detail, setDetail] = useState<ErrorPatternDetail | null>(null);
+  const [detailLoading, setDetailLoading] = useState(false);
+  const [mergeSelection, setMergeSelection] = useState<Set<string>>(new Set());
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  const loadPatterns = useCallback(async () => {
+    setLoading(true);
+    setPatterns(await listErrorPatterns({ orderBy, search }));
+    setLoading(false);
+  }, [orderBy, search]);
+
+  useEffect(() => {
+    if (!isAdmin) return;
+    // Debounce typing in the search box
+    const timer = setTimeout(loadPatterns, 250);
+    return () => clearTimeout(timer);
+  }, [isAdmin, loadPatterns]);
+
+  const openPattern = async (patternId: string) => {
+    setDetailLoading(true);
+    setActionError(null);
+    setDetail(await getErrorPatternDetail(patternId));
+    setDetailLoading(false);
+  };
+
+  const toggleMergeSelection = (patternId: string) => {
+    setMergeSelection(prev => {
+      const next = new Set(prev);
+      if (next.has(patternId)) next.delete(patternId);
+      else next.add(patternId);
+      return next;
+    });
+  };
+
+  const handleToggleAvoid = async (pattern: ErrorPatternSummary) => {
+    setActionError(null);
+    try {
+      const updated = await setAvoidInPrompt(pattern.id, pattern.avoid_in_prompt === false);
+      setPatterns(prev => prev.map(p => p.id === updated.id ? { ...p, ...updated } : p));
+      setDetail(prev => prev && prev.pattern.id === updated.id ? { ...prev, pattern: updated } : prev);
+    } catch (e: any) {
+      setActionError(e.message || String(e));
+    }
+  };
+
+  // Merge the checked patterns into the one that is open
+  const mergeSources = detail ? [...mergeSelection].filter(id => id !== detail.pattern.id) : [];
+  const handleMerge = async () => {
+    if (!detail || mergeSources.length === 0) return;
+    if (!confirm(`Merge ${mergeSources.length} pattern(s) into "${detail.pattern.error_description.substring(0, 60)}"? Their fixes and counts move to this pattern.`)) return;
+
+    setActionError(null);
+    try {
+      await mergeErrorPatterns(detail.pattern.id, mergeSources);
+      setMergeSelection(new Set());
+      await Promise.all([loadPatterns(), openPattern(detail.pattern.id)]);
+    } catch (e: any) {
+      setActionError(e.message || String(e));
+    }
+  };
+
+  const handleFixUpdated = (fix: FixAttempt) => {
+    setDetail(prev => prev && { ...prev, fixes: prev.fixes.map(f => f.id === fix.id ? { ...f, ...fix } : f) });
+  };
+
+  return (
+    <div className="min-h-screen bg-[#0a0a0c]">
+      <NavDrawer />
+
+      {/* Header */}
+      <header className="sticky top-0 z-30 bg-[#0a0a0c]/80 backdrop-blur-xl border-b border-white/5">
+        <div className="max-w-7xl mx-auto px-6 py-4 flex items-center gap-4">
+          <NavMenuButton />
+          <div>
+            <h1 className="text-lg font-semibold text-white">Error Learning</h1>
+            <p className="text-sm text-[#6a6a75]">Review what the builder has learned from validation errors</p>
+          </div>
+        </div>
+      </header>
+
+      {!isAdmin ? (
+        <div className="text-center py-16">
+          <ShieldAlert className="w-12 h-12 text-[#3a3a45] mx-auto mb-4" />
+          <h3 className="text-lg font-medium text-white mb-2">Admin access required</h3>
+          <p className="text-sm text-[#6a6a75]">Ask an admin to add your email to VITE_ADMIN_EMAILS.</p>
+        </div>
+      ) : (
+        <div className="max-w-7xl mx-auto px-6 py-6 grid grid-cols-1 lg:grid-cols-[minmax(0,2fr)_minmax(0,3fr)] gap-6">
+          {/* Pattern list */}
+          <div>
+            <div className="flex items-center gap-2 mb-4">
+              <div className="relative flex-1">
+                <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-[#5a5a65]" />
+                <input
+                  type="text"
+                  value={search}
+                  onChange={(e) => setSearch(e.target.value)}
+                  placeholder="Search errors..."
+                  className="w-full pl-10 pr-4 py-2 rounded-xl bg-[#1a1a1f] border border-white/5 text-white text-sm placeholder-[#5a5a65] focus:outline-none focus:border-[#6366f1]/50"
+                />
+              </div>
+              <div className="flex items-center bg-[#1a1a1f] border border-white/5 rounded-lg p-1">
+                {([['occurrence_count', 'Frequent'], ['last_seen_at', 'Recent']] as const).map(([value, label]) => (
+                  <button
+                    key={value}
+                    onClick={() => setOrderBy(value)}
+                    className={`px-2.5 py-1 rounded-md text-xs transition-colors ${
+                      orderBy === value ? 'bg-white/10 text-white' : 'text-[#5a5a65] hover:text-white'
+                    }`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {loading ? (
+              <div className="text-center py-12">
+                <Loader2 className="w-6 h-6 text-[#6366f1] animate-spin mx-auto" />
+              </div>
+            ) : patterns.length === 0 ? (
+              <p className="text-sm text-[#6a6a75] text-center py-12">No error patterns found</p>
+            ) : (
+              <div className="space-y-2">
+                {patterns.map((pattern) => (
+                  <div
+                    key={pattern.id}
+                    className={`flex items-start gap-3 p-3 rounded-xl border transition-colors ${
+                      detail?.pattern.id === pattern.id ? 'bg-[#6366f1]/10 border-[#6366f1]/30' : 'bg-[#1a1a1f] border-white/5 hover:border-white/10'
+                    }`}
+                  >
+                    <input
+                      type="checkbox"
+                      checked={mergeSelection.has(pattern.id)}
+                      onChange={() => toggleMergeSelection(pattern.id)}
+                      title="Select for merge"
+                      className="mt-1 accent-[#6366f1]"
+                    />
+                    <button onClick={() => openPattern(pattern.id)} className="flex-1 min-w-0 text-left">
+                      <p className="text-sm text-white line-clamp-2">{pattern.error_description}</p>
+                      <p className="text-xs text-[#6a6a75] mt-1">
+                        {pattern.error_type}{pattern.field_name && <> • {pattern.field_name}</>}
+                      </p>
+                      <p className="text-xs text-[#5a5a65] mt-0.5">
+                        {pattern.occurrence_count}× • last {formatDate(pattern.last_seen_at)} • {pattern.fix_count} fix{pattern.fix_count === 1 ? '' : 'es'}
+                      </p>
+                    </button>
+                    <button
+                      onClick={() => handleToggleAvoid(pattern)}
+                      title={pattern.avoid_in_prompt === false ? 'Not in generation prompt - click to include' : 'In generation prompt - click to exclude'}
+                      className={`p-1.5 rounded-lg transition-colors ${
+                        pattern.avoid_in_prompt === false ? 'text-[#3a3a45] hover:text-[#8a8a95]' : 'text-amber-400 hover:bg-amber-400/10'
+                      }`}
+                    >
+                      <MessageSquareWarning className="w-4 h-4" />
+                    </button>
+                    <ChevronRight className="w-4 h-4 mt-1 text-[#4a4a55]" />
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Pattern detail */}
+          <div>
+            {actionError && (
+              <div className="mb-4 p-3 bg-red-500/10 border border-red-500/20 rounded-xl text-sm text-red-400">{actionError}</div>
+            )}
+
+            {detailLoading ? (
+              <div className="text-center py-12">
+                <Loader2 className="w-6 h-6 text-[#6366f1] animate-spin mx-auto" />
+              </div>
+            ) : !detail ? (
+              <p className="text-sm text-[#6a6a75] text-center py-12">Select an error pattern to review its fixes</p>
+            ) : (
+              <div>
+                <div className="bg-[#1a1a1f] border border-white/5 rounded-xl p-4 mb-4">
+                  <p className="text-sm text-white mb-2">{detail.pattern.error_description}</p>
+                  <p className="text-xs text-[#6a6a75]">
+                    {detail.pattern.error_type}{detail.pattern.field_name && <> • {detail.pattern.field_name}</>} • {detail.pattern.error_signature}
+                  </p>
+                  <p className="text-xs text-[#5a5a65] mt-1">
+                    {detail.pattern.occurrence_count} occurrences • first {formatDate(detail.pattern.first_seen_at)} • last {formatDate(detail.pattern.last_seen_at)}
+                  </p>
+                  {detail.pattern.merged_signatures && detail.pattern.merged_signatures.length > 0 && (
+                    <p className="text-xs text-[#5a5a65] mt-1">Merged: {detail.pattern.merged_signatures.join(', ')}</p>
+                  )}
+                  {detail.pattern.node_context && (
+                    <pre className="mt-3 p-2 rounded-lg bg-[#0a0a0c] text-xs text-[#8a8a95] whitespace-pre-wrap break-all max-h-40 overflow-auto">
+                      {JSON.stringify(detail.pattern.node_context, null, 2)}
+                    </pre>
+                  )}
+
+                  <div className="flex items-center gap-2 mt-3">
+                    <button
+                      onClick={() => handleToggleAvoid({ ...detail.pattern, fix_count: detail.fixes.length })}
+                      className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg border border-white/10 text-xs text-[#a0a0a5] hover:text-white hover:bg-white/5 transition-colors"
+                    >
+                      <MessageSquareWarning className="w-3.5 h-3.5" />
+                      {detail.pattern.avoid_in_prompt === false ? 'Feed to generation prompt' : 'Stop feeding to generation prompt'}
+                    </button>
+                    {mergeSources.length > 0 && (
+                      <button
+                        onClick={handleMerge}
+                        className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-[#6366f1] hover:bg-[#7c7ff2] text-white text-xs font-medium transition-colors"
+                      >
+                        <GitMerge className="w-3.5 h-3.5" />
+                        Merge {mergeSources.length} selected into this pattern
+                      </button>
+                    )}
+                  </div>
+                </div>
+
+                <h3 className="text-sm font-medium text-white mb-2">Fix attempts ({detail.fixes.length})</h3>
+                {detail.fixes.length === 0 ? (
+                  <p className="text-sm text-[#6a6a75]">No fixes recorded for this pattern yet</p>
+                ) : (
+                  <div className="space-y-3">
+                    {detail.fixes.map((fix) => (
+                      <FixCard key={fix.id} fix={fix} onUpdated={handleFixUpdated} />
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
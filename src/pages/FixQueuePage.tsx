@@ -0,0 +1,471 @@
+/**
+ * Fix Queue
+ *
+ * Shared queue of Instant Builds that needed human intervention. Claim a stuck
+ * build, edit its failed rows next to the Bot Manager errors, and resolve it:
+ * the fix is revalidated, recorded for error learning, and the pipeline resumes
+ * from the cached generation.
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import {
+  Loader2, Wrench, Hand, Undo2, Trash2, Play, ShieldCheck,
+  CheckCircle2, ExternalLink, AlertCircle
+} from 'lucide-react';
+import { useStore } from '../store/useStore';
+import { NavDrawer, NavMenuButton } from '../components/ui/nav-drawer';
+import {
+  abandonFixQueueItem,
+  applyRowEdits,
+  claimFixQueueItem,
+  fetchFixQueue,
+  releaseFixQueueItem,
+  resolveFixQueueItem,
+  revalidateFix,
+  type FixQueueRowEdits,
+} from '../services/fix-queue';
+import type { InstantBuildProgress } from '../services/instant-build';
+import type { FailedRow, FixQueueItem, FixQueueStatus } from '../types';
+
+function formatDate(dateString: string): string {
+  return new Date(dateString).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+}
+
+// Queue status badge
+function StatusBadge({ status }: { status: FixQueueStatus }) {
+  const className = {
+    open: 'text-amber-400 bg-amber-400/10 border-amber-400/20',
+    claimed: 'text-[#a5b4fc] bg-[#6366f1]/10 border-[#6366f1]/20',
+    resolved: 'text-emerald-400 bg-emerald-400/10 border-emerald-400/20',
+    abandoned: 'text-[#8a8a95] bg-white/5 border-white/10',
+  }[status];
+
+  return (
+    <span className={`px-2 py-0.5 rounded-full border text-xs font-medium capitalize ${className}`}>
+      {status}
+    </span>
+  );
+}
+
+// One failed row: Bot Manager errors on the left, editable fields on the right
+function FailedRowEditor({
+  row,
+  edits,
+  disabled,
+  onChange,
+}: {
+  row: FailedRow;
+  edits: Record<string, string>;
+  disabled: boolean;
+  onChange: (header: string, value: string) => void;
+}) {
+  const [showEmpty, setShowEmpty] = useState(false);
+  const fields = Object.entries(row.fields || {})
+    .filter(([header, value]) => showEmpty || value !== '' || header in edits);
+
+  return (
+    <div className="bg-[#1a1a1f] border border-white/5 rounded-xl p-4 grid grid-cols-1 lg:grid-cols-[minmax(0,2fr)_minmax(0,3fr)] gap-4">
+      <div>
+        <div className="flex items-center gap-2 mb-2">
+          <span className="text-xs font-mono bg-red-500/10 text-red-400 px-2 py-0.5 rounded">Node {row.nodeNum}</span>
+          {row.nodeType && (
+            <span className={`text-xs px-2 py-0.5 rounded ${row.nodeType === 'A' ? 'bg-purple-500/10 text-purple-400' : 'bg-blue-500/10 text-blue-400'}`}>
+              {row.nodeType === 'A' ? 'Action' : 'Decision'}
+            </span>
+          )}
+        </div>
+        {row.nodeName && <p className="text-sm text-white mb-2">{row.nodeName}</p>}
+        <div className="text-xs text-red-300 space-y-1">
+          {row.errors.map((err, idx) => (
+            <div key={idx} className="font-mono break-all">{err}</div>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        {!row.fields || row.nodeNum < 0 ? (
+          <p className="text-xs text-[#6a6a75]">This row has no node number and can't be edited here</p>
+        ) : (
+          <>
+            <div className="space-y-2">
+              {fields.map(([header, value]) => (
+                <label key={header} className="block">
+                  <span className="text-xs text-[#6a6a75]">{header}</span>
+                  <textarea
+                    value={edits[header] ?? value}
+                    onChange={(e) => onChange(header, e.target.value)}
+                    disabled={disabled}
+                    rows={Math.min(4, Math.max(1, Math.ceil((edits[header] ?? value).length / 60)))}
+                    className={`w-full mt-0.5 px-2 py-1.5 rounded-lg bg-[#0a0a0c] border text-xs text-white font-mono resize-y focus:outline-none focus:border-[#6366f1]/50 disabled:opacity-60 ${
+                      header in edits && edits[header] !== value ? 'border-amber-400/40' : 'border-white/10'
+                    }`}
+                  />
+                </label>
+              ))}
+            </div>
+            <button
+              onClick={() => setShowEmpty(!showEmpty)}
+              className="mt-2 text-xs text-[#6366f1] hover:text-[#818cf8] transition-colors"
+            >
+              {showEmpty ? 'Hide empty fields' : 'Show empty fields'}
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export function FixQueuePage() {
+  const { user, credentials, savedSolutions, updateSavedSolution } = useStore();
+
+  const [items, setItems] = useState<FixQueueItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showResolved, setShowResolved] = useState(false);
+  const [selected, setSelected] = useState<FixQueueItem | null>(null);
+  // Working copy: CSV with the fixes so far, the rows still failing, and pending edits
+  const [workingCsv, setWorkingCsv] = useState('');
+  const [rows, setRows] = useState<FailedRow[]>([]);
+  const [edits, setEdits] = useState<FixQueueRowEdits>({});
+  const [busy, setBusy] = useState<'claim' | 'validate' | 'resolve' | null>(null);
+  const [progress, setProgress] = useState<InstantBuildProgress | null>(null);
+  const [message, setMessage] = useState<{ type: 'error' | 'success'; text: string } | null>(null);
+
+  const token = credentials.pypestreamApiKey;
+  const isMine = !!selected && selected.status === 'claimed' && selected.claimedBy === user.email;
+
+  const loadQueue = useCallback(async () => {
+    setLoading(true);
+    setItems(await fetchFixQueue(showResolved ? ['open', 'claimed', 'resolved', 'abandoned'] : ['open', 'claimed']));
+    setLoading(false);
+  }, [showResolved]);
+
+  useEffect(() => {
+    loadQueue();
+  }, [loadQueue]);
+
+  const openItem = (item: FixQueueItem) => {
+    setSelected(item);
+    setWorkingCsv(item.csvContent);
+    setRows(item.failedRows);
+    setEdits({});
+    setProgress(null);
+    setMessage(null);
+  };
+
+  const replaceItem = (item: FixQueueItem) => {
+    setItems(prev => prev.map(i => i.id === item.id ? item : i));
+    setSelected(item);
+  };
+
+  const handleClaim = async () => {
+    if (!selected) return;
+    setBusy('claim');
+    setMessage(null);
+    const claimed = await claimFixQueueItem(selected.id);
+    setBusy(null);
+    if (claimed) {
+      replaceItem(claimed);
+    } else {
+      setMessage({ type: 'error', text: 'Someone else claimed this build first' });
+      loadQueue();
+    }
+  };
+
+  const handleRelease = async () => {
+    if (!selected) return;
+    const released = await releaseFixQueueItem(selected.id);
+    if (released) replaceItem(released);
+  };
+
+  const handleAbandon = async () => {
+    if (!selected || !confirm(`Take "${selected.projectName}" off the queue without fixing it?`)) return;
+    const abandoned = await abandonFixQueueItem(selected.id);
+    if (abandoned) {
+      setSelected(null);
+      loadQueue();
+    }
+  };
+
+  const handleEdit = (nodeNum: number, header: string, value: string) => {
+    setEdits(prev => ({ ...prev, [nodeNum]: { ...prev[nodeNum], [header]: value } }));
+  };
+
+  // Carry validated edits into the working copy and show whatever still fails
+  const applyRevalidation = (csv: string, failedRows: FailedRow[]) => {
+    setWorkingCsv(csv);
+    setRows(failedRows);
+    setEdits({});
+  };
+
+  const handleValidate = async () => {
+    if (!selected || !token) return;
+    setBusy('validate');
+    setMessage(null);
+    try {
+      const csv = applyRowEdits(workingCsv, edits);
+      const revalidation = await revalidateFix(selected, csv, token);
+      applyRevalidation(csv, revalidation.failedRows);
+      setMessage(revalidation.valid
+        ? { type: 'success', text: 'Bot Manager accepts the fixed CSV - resolve to resume the build' }
+        : { type: 'error', text: `${revalidation.failedRows.length} row(s) still fail validation` });
+    } catch (e: any) {
+      setMessage({ type: 'error', text: e.message || String(e) });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleResolve = async () => {
+    if (!selected || !token) return;
+    setBusy('resolve');
+    setMessage(null);
+
+    const aiCredentials = credentials.anthropicApiKey || credentials.googleAiApiKey
+      ? {
+          apiKey: credentials.aiProvider === 'google'
+            ? credentials.googleAiApiKey
+            : credentials.anthropicApiKey,
+          provider: credentials.aiProvider || 'anthropic' as const
+        }
+      : undefined;
+
+    try {
+      const csv = applyRowEdits(workingCsv, edits);
+      const resolution = await resolveFixQueueItem(selected, csv, token, setProgress, aiCredentials);
+
+      if (!resolution.result) {
+        applyRevalidation(csv, resolution.revalidation.failedRows);
+        setMessage({ type: 'error', text: `${resolution.revalidation.failedRows.length} row(s) still fail validation` });
+        return;
+      }
+
+      const { result } = resolution;
+      if (resolution.item) replaceItem(resolution.item);
+
+      if (result.success) {
+        // Only the owner's own solutions can be written back
+        if (selected.solutionId && savedSolutions.some(s => s.id === selected.solutionId)) {
+          updateSavedSolution(selected.solutionId, {
+            status: 'deployed',
+            nodeCount: result.nodeCount || 0,
+            csvContent: result.csv,
+            botId: result.botId,
+            versionId: result.versionId,
+            widgetUrl: result.widgetUrl,
+            botUrl: result.widgetUrl,
+            spreadsheetUrl: result.sheetsUrl,
+            deployedEnvironment: 'sandbox',
+          }, { source: 'deploy', note: 'Fixed from the fix queue', scripts: result.scripts });
+        }
+        setMessage({ type: 'success', text: 'Build resumed and deployed' });
+      } else {
+        applyRevalidation(result.csv || csv, result.failedRows || []);
+        setMessage({ type: 'error', text: result.error || 'Build failed again' });
+      }
+    } catch (e: any) {
+      setMessage({ type: 'error', text: e.message || String(e) });
+    } finally {
+      setBusy(null);
+      setProgress(null);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-[#0a0a0c]">
+      <NavDrawer />
+
+      {/* Header */}
+      <header className="sticky top-0 z-30 bg-[#0a0a0c]/80 backdrop-blur-xl border-b border-white/5">
+        <div className="max-w-7xl mx-auto px-6 py-4 flex items-center gap-4">
+          <NavMenuButton />
+          <div className="flex-1">
+            <h1 className="text-lg font-semibold text-white">Fix Queue</h1>
+            <p className="text-sm text-[#6a6a75]">Builds that need a person to fix their failed rows</p>
+          </div>
+          <label className="flex items-center gap-2 text-xs text-[#8a8a95]">
+            <input
+              type="checkbox"
+              checked={showResolved}
+              onChange={(e) => setShowResolved(e.target.checked)}
+              className="accent-[#6366f1]"
+            />
+            Show resolved
+          </label>
+        </div>
+      </header>
+
+      <div className="max-w-7xl mx-auto px-6 py-6 grid grid-cols-1 lg:grid-cols-[minmax(0,1fr)_minmax(0,3fr)] gap-6">
+        {/* Queue */}
+        <div>
+          {loading ? (
+            <div className="text-center py-12">
+              <Loader2 className="w-6 h-6 text-[#6366f1] animate-spin mx-auto" />
+            </div>
+          ) : items.length === 0 ? (
+            <div className="text-center py-12">
+              <Wrench className="w-10 h-10 text-[#3a3a45] mx-auto mb-3" />
+              <p className="text-sm text-[#6a6a75]">No stuck builds</p>
+            </div>
+          ) : (
+            <div className="space-y-2">
+              {items.map((item) => (
+                <button
+                  key={item.id}
+                  onClick={() => openItem(item)}
+                  className={`w-full text-left p-3 rounded-xl border transition-colors ${
+                    selected?.id === item.id ? 'bg-[#6366f1]/10 border-[#6366f1]/30' : 'bg-[#1a1a1f] border-white/5 hover:border-white/10'
+                  }`}
+                >
+                  <div className="flex items-center justify-between gap-2 mb-1">
+                    <p className="text-sm text-white truncate">{item.projectName}</p>
+                    <StatusBadge status={item.status} />
+                  </div>
+                  <p className="text-xs text-[#6a6a75] line-clamp-2">{item.error}</p>
+                  <p className="text-xs text-[#5a5a65] mt-1">
+                    {item.failedRows.length} failed row{item.failedRows.length === 1 ? '' : 's'} • {formatDate(item.createdAt)}
+                    {item.claimedBy && item.status === 'claimed' && <> • {item.claimedBy}</>}
+                  </p>
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Selected build */}
+        <div>
+          {message && (
+            <div className={`mb-4 p-3 rounded-xl border text-sm ${
+              message.type === 'error' ? 'bg-red-500/10 border-red-500/20 text-red-400' : 'bg-emerald-500/10 border-emerald-500/20 text-emerald-400'
+            }`}>
+              {message.text}
+            </div>
+          )}
+
+          {!selected ? (
+            <p className="text-sm text-[#6a6a75] text-center py-12">Select a build to see its failed rows</p>
+          ) : (
+            <div>
+              <div className="bg-[#1a1a1f] border border-white/5 rounded-xl p-4 mb-4">
+                <div className="flex items-center gap-2 mb-1">
+                  <h2 className="text-base font-medium text-white">{selected.projectName}</h2>
+                  <StatusBadge status={selected.status} />
+                </div>
+                <p className="text-sm text-[#a0a0a5] mb-1">{selected.error}</p>
+                <p className="text-xs text-[#5a5a65]">
+                  Queued {formatDate(selected.createdAt)}{selected.createdBy && <> by {selected.createdBy}</>}
+                  {selected.claimedBy && <> • claimed by {selected.claimedBy}</>}
+                  {selected.resolvedBy && <> • resolved by {selected.resolvedBy}</>}
+                </p>
+
+                {selected.status === 'resolved' && selected.widgetUrl && (
+                  <a
+                    href={selected.widgetUrl}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="inline-flex items-center gap-1.5 mt-3 text-xs text-[#6366f1] hover:text-[#818cf8]"
+                  >
+                    <ExternalLink className="w-3.5 h-3.5" />
+                    Open deployed bot
+                  </a>
+                )}
+
+                <div className="flex items-center gap-2 mt-3 flex-wrap">
+                  {selected.status === 'open' && (
+                    <button
+                      onClick={handleClaim}
+                      disabled={busy !== null}
+                      className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-[#6366f1] hover:bg-[#7c7ff2] text-white text-xs font-medium transition-colors disabled:opacity-50"
+                    >
+                      {busy === 'claim' ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Hand className="w-3.5 h-3.5" />}
+                      Claim
+                    </button>
+                  )}
+                  {isMine && (
+                    <>
+                      <button
+                        onClick={handleValidate}
+                        disabled={busy !== null || !token}
+                        className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg border border-white/10 text-xs text-[#a0a0a5] hover:text-white hover:bg-white/5 transition-colors disabled:opacity-50"
+                      >
+                        {busy === 'validate' ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <ShieldCheck className="w-3.5 h-3.5" />}
+                        Revalidate
+                      </button>
+                      <button
+                        onClick={handleResolve}
+                        disabled={busy !== null || !token}
+                        className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-[#6366f1] hover:bg-[#7c7ff2] text-white text-xs font-medium transition-colors disabled:opacity-50"
+                      >
+                        {busy === 'resolve' ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Play className="w-3.5 h-3.5" />}
+                        Resolve & resume build
+                      </button>
+                      <button
+                        onClick={handleRelease}
+                        disabled={busy !== null}
+                        className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg border border-white/10 text-xs text-[#a0a0a5] hover:text-white hover:bg-white/5 transition-colors disabled:opacity-50"
+                      >
+                        <Undo2 className="w-3.5 h-3.5" />
+                        Release
+                      </button>
+                    </>
+                  )}
+                  {(selected.status === 'open' || isMine) && (
+                    <button
+                      onClick={handleAbandon}
+                      disabled={busy !== null}
+                      className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs text-red-400 hover:bg-red-400/10 transition-colors disabled:opacity-50"
+                    >
+                      <Trash2 className="w-3.5 h-3.5" />
+                      Abandon
+                    </button>
+                  )}
+                </div>
+
+                {isMine && !token && (
+                  <p className="flex items-center gap-1.5 mt-3 text-xs text-amber-400">
+                    <AlertCircle className="w-3.5 h-3.5" />
+                    Add your Pypestream API key (run a build once) to revalidate and resume
+                  </p>
+                )}
+
+                {progress && (
+                  <div className="mt-3">
+                    <div className="flex items-center justify-between text-xs text-[#8a8a95] mb-1">
+                      <span>{progress.message}</span>
+                      <span>{progress.progress}%</span>
+                    </div>
+                    <div className="h-1.5 rounded-full bg-white/5 overflow-hidden">
+                      <div className="h-full bg-[#6366f1] transition-all" style={{ width: `${progress.progress}%` }} />
+                    </div>
+                  </div>
+                )}
+              </div>
+
+              {selected.status === 'resolved' ? (
+                <div className="text-center py-8">
+                  <CheckCircle2 className="w-8 h-8 text-emerald-400 mx-auto mb-2" />
+                  <p className="text-sm text-[#a0a0a5]">Fixed and deployed{selected.botId && <> as {selected.botId}</>}</p>
+                </div>
+              ) : rows.length === 0 ? (
+                <p className="text-sm text-[#6a6a75] text-center py-8">No failed rows left</p>
+              ) : (
+                <div className="space-y-3">
+                  <h3 className="text-sm font-medium text-white">Failed rows ({rows.length})</h3>
+                  {rows.map((row, idx) => (
+                    <FailedRowEditor
+                      key={`${row.nodeNum}-${idx}`}
+                      row={row}
+                      edits={edits[row.nodeNum] || {}}
+                      disabled={!isMine || busy !== null}
+                      onChange={(header, value) => handleEdit(row.nodeNum, header, value)}
+                    />
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
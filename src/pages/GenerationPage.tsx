@@ -440,7 +440,7 @@ export function GenerationPage() {
       // Wait for save to complete before marking as complete
       try {
         if (activeSolutionId) {
-          await updateSavedSolution(activeSolutionId, solutionData);
+          await updateSavedSolution(activeSolutionId, solutionData, { source: 'generation' });
           console.log(`[Generation] Updated solution ${activeSolutionId} with fixed CSV`);
         } else {
           const saved = await addSavedSolution(solutionData);
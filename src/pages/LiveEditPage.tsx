@@ -4,9 +4,12 @@
  * Split-screen interface for live bot editing:
  * - Left panel (40%): Editor chatbot with context display
  * - Right panel (60%): Widget preview iframe with controls
+ * 
+ * When the bot has a Google Sheet, edits made here and in the sheet are
+ * synced both ways; sheet changes are deployed like an edit.
  */
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import { ArrowLeft, RefreshCw, Maximize2, Settings, AlertCircle, Check } from 'lucide-react';
 import { useStore } from '../store/useStore';
 import { PreviewPanel } from '../components/LiveEdit/PreviewPanel';
@@ -14,11 +17,15 @@ import { EditorChatbot } from '../components/LiveEdit/EditorChatbot';
 import { SessionMonitor } from '../services/session-monitor';
 import { hotReload } from '../services/hot-reload';
 import { getSolution } from '../services/solutions-api';
+import { SheetsSyncService, spreadsheetIdFromUrl, type SheetsSyncResult } from '../services/sheets-sync';
+import type { CSVMergeResult, MergeSide } from '../services/bot-diff';
+import { NodeDiffModal, SyncConflictDialog } from '../components';
 import type { 
   ConversationContext, 
   EditResult, 
   LiveEditSession,
-  CustomScript 
+  CustomScript,
+  SolutionVersionSource
 } from '../types';
 
 // Extract solution ID from URL path: /live-edit/:solutionId
@@ -35,7 +42,7 @@ function navigateTo(path: string) {
 
 export function LiveEditPage() {
   const solutionId = getSolutionIdFromPath();
-  const { savedSolutions, credentials, instantBuildResult, solutionsLoaded, activeSolutionId } = useStore();
+  const { savedSolutions, credentials, instantBuildResult, solutionsLoaded, activeSolutionId, updateSavedSolution } = useStore();
   
   // Session state
   const [session, setSession] = useState<LiveEditSession | null>(null);
@@ -53,6 +60,16 @@ export function LiveEditPage() {
   const [lastDeployStatus, setLastDeployStatus] = useState<'success' | 'error' | null>(null);
   const [splitPosition, setSplitPosition] = useState(40); // Left panel percentage
   
+  // AI edit waiting for node-by-node review before it is deployed
+  const [pendingEdit, setPendingEdit] = useState<{ result: EditResult; resolve: (deployed: boolean) => void } | null>(null);
+  
+  // Google Sheets sync: conflicting edits wait here for the user
+  const syncService = useRef<SheetsSyncService | null>(null);
+  const [syncConflict, setSyncConflict] = useState<CSVMergeResult | null>(null);
+  const [resolvingConflict, setResolvingConflict] = useState(false);
+  const sessionRef = useRef(session);
+  sessionRef.current = session;
+  
   // Initialize session from solution or instantBuildResult
   // FIXED: Check solutionsLoaded and fetch from API if needed to prevent race condition
   useEffect(() => {
@@ -72,7 +89,8 @@ export function LiveEditPage() {
             csv: instantBuildResult.csv || '',
             scripts: instantBuildResult.scripts || [],
             versionId: instantBuildResult.versionId,
-            editHistory: []
+            editHistory: [],
+            spreadsheetId: instantBuildResult.spreadsheetId || spreadsheetIdFromUrl(instantBuildResult.sheetsUrl)
           });
           return;
         }
@@ -112,7 +130,8 @@ export function LiveEditPage() {
             widgetUrl: solutionData.widgetUrl || '',
             csv: solutionData.csv || '',
             scripts: [],
-            editHistory: []
+            editHistory: [],
+            spreadsheetId: spreadsheetIdFromUrl(solutionData.spreadsheetUrl)
           });
         } else {
           setError('Solution not found. Please deploy a bot first.');
@@ -158,9 +177,15 @@ export function LiveEditPage() {
     };
   }, [session?.widgetId]);
   
-  // Handle edit completion and redeploy
-  const handleEditComplete = useCallback(async (result: EditResult) => {
-    if (!session || !credentials.pypestreamApiKey) return;
+  // Handle edit completion: hold the edit for review, deploy once accepted
+  const handleEditComplete = useCallback((result: EditResult) => {
+    if (!session || !credentials.pypestreamApiKey) return Promise.resolve(false);
+    return new Promise<boolean>((resolve) => setPendingEdit({ result, resolve }));
+  }, [session, credentials.pypestreamApiKey]);
+  
+  // Redeploy an accepted edit (or content synced from Google Sheets)
+  const deployEdit = useCallback(async (result: EditResult, source: SolutionVersionSource = 'edit'): Promise<boolean> => {
+    if (!session || !credentials.pypestreamApiKey) return false;
     
     setIsRedeploying(true);
     setLastDeployStatus(null);
@@ -187,6 +212,15 @@ export function LiveEditPage() {
         setSession(updatedSession);
         setLastDeployStatus('success');
         
+        // Persist the edit (records a version snapshot)
+        const persistId = session.solutionId !== 'current' ? session.solutionId : activeSolutionId;
+        if (persistId) {
+          updateSavedSolution(persistId, {
+            csvContent: result.modifiedCsv,
+            versionId: deployResult.versionId,
+          }, { source, note: result.changesSummary, scripts: updatedSession.scripts });
+        }
+        
         // Refresh preview iframe
         setRefreshKey(prev => prev + 1);
         
@@ -204,17 +238,91 @@ export function LiveEditPage() {
             }));
           });
         }
+        return true;
       } else {
         setLastDeployStatus('error');
         setError('Deployment failed. Changes were not applied.');
+        return false;
       }
     } catch (err: any) {
       setLastDeployStatus('error');
       setError(err.message || 'Failed to deploy changes');
+      return false;
     } finally {
       setIsRedeploying(false);
     }
-  }, [session, credentials.pypestreamApiKey, sessionMonitor]);
+  }, [session, credentials.pypestreamApiKey, sessionMonitor, activeSolutionId, updateSavedSolution]);
+  
+  // Deploy only the node changes the user accepted
+  const handleApplyEdit = useCallback(async (csv: string) => {
+    if (!pendingEdit) return;
+    const { result, resolve } = pendingEdit;
+    setPendingEdit(null);
+    resolve(await deployEdit({ ...result, modifiedCsv: csv }));
+  }, [pendingEdit, deployEdit]);
+  
+  const handleDiscardEdit = useCallback(() => {
+    pendingEdit?.resolve(false);
+    setPendingEdit(null);
+  }, [pendingEdit]);
+  
+  // Deploy content that came from the sheet
+  const deploySyncedCSV = useCallback(async (csv: string, summary: string) => {
+    if (!session || csv === session.csv) return;
+    const deployed = await deployEdit({ success: true, modifiedCsv: csv, changesSummary: summary, affectedNodes: [] }, 'sheets-sync');
+    // Keep the sheet's content even if the deploy failed - otherwise the next
+    // sync would push the old CSV back over it
+    if (!deployed) setSession(prev => prev && { ...prev, csv });
+  }, [session, deployEdit]);
+  
+  const handleSyncResult = useCallback((result: SheetsSyncResult) => {
+    if (result.status === 'pulled' || result.status === 'merged') {
+      console.log(`[LiveEdit] Sheets sync: ${result.status}`);
+      deploySyncedCSV(result.csv!, result.status === 'pulled' ? 'Pulled changes from Google Sheets' : 'Merged changes with Google Sheets');
+    } else if (result.status === 'conflict') {
+      setSyncConflict(result.merge!);
+    }
+  }, [deploySyncedCSV]);
+  const syncHandlerRef = useRef(handleSyncResult);
+  syncHandlerRef.current = handleSyncResult;
+  
+  // Sync with the bot's Google Sheet. Local edits are picked up by the next
+  // poll, so deploys don't have to push them.
+  useEffect(() => {
+    const spreadsheetId = session?.spreadsheetId;
+    if (!spreadsheetId) return;
+    
+    const service = new SheetsSyncService(spreadsheetId);
+    service.initBase(sessionRef.current?.csv || '');
+    syncService.current = service;
+    service.startPolling(() => sessionRef.current?.csv || '', (result) => syncHandlerRef.current(result));
+    
+    return () => {
+      service.stopPolling();
+      syncService.current = null;
+    };
+  }, [session?.spreadsheetId]);
+  
+  const handleResolveConflict = useCallback(async (choices: Record<number, MergeSide>) => {
+    if (!syncService.current || !syncConflict) return;
+    setResolvingConflict(true);
+    const result = await syncService.current.resolveConflicts(syncConflict, choices);
+    setResolvingConflict(false);
+    // The sheet changed in a way that needs new decisions
+    setSyncConflict(result.status === 'conflict' ? result.merge! : null);
+    if (result.status === 'error') {
+      setError(`Google Sheets sync failed: ${result.error}`);
+    }
+    if (result.csv) {
+      await deploySyncedCSV(result.csv, `Resolved ${syncConflict.conflicts.length} sync conflict(s) with Google Sheets`);
+    }
+  }, [syncConflict, deploySyncedCSV]);
+  
+  // Leave both sides as they are until one of them changes
+  const handleCancelConflict = useCallback(() => {
+    syncService.current?.dismissConflicts();
+    setSyncConflict(null);
+  }, []);
   
   // Refresh preview
   const handleRefresh = useCallback(() => {
@@ -375,6 +483,26 @@ export function LiveEditPage() {
           />
         </div>
       </div>
+      
+      {/* Review AI edit node by node before deploying */}
+      <NodeDiffModal
+        isOpen={!!pendingEdit}
+        before={session?.csv || ''}
+        after={pendingEdit?.result.modifiedCsv || ''}
+        title="Review AI edit"
+        description={pendingEdit?.result.changesSummary}
+        applyLabel="Deploy"
+        onApply={handleApplyEdit}
+        onCancel={handleDiscardEdit}
+      />
+      
+      {/* Edits made here and in Google Sheets that touch the same nodes */}
+      <SyncConflictDialog
+        merge={syncConflict}
+        isResolving={resolvingConflict}
+        onResolve={handleResolveConflict}
+        onCancel={handleCancelConflict}
+      />
     </div>
   );
 }
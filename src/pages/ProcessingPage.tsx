@@ -1,7 +1,11 @@
 import { useEffect, useState, useRef, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
 import { useStore } from '../store/useStore';
-import { instantBuild, InstantBuildProgress } from '../services/instant-build';
-import { Loader2, Check, AlertCircle, Sparkles, Database, Shield, Rocket, FileSpreadsheet, Key, Copy, CheckCircle2, ChevronDown, ChevronUp, Clock } from 'lucide-react';
+import type { InstantBuildProgress } from '../services/instant-build';
+import { cancelBuildJob, submitBuildJob, watchBuildJob } from '../services/build-jobs';
+import { saveCostEntries } from '../services/cost-ledger';
+import { enqueueStuckBuild } from '../services/fix-queue';
+import { Loader2, Check, AlertCircle, Sparkles, Database, Shield, Rocket, FileSpreadsheet, Key, Copy, CheckCircle2, ChevronDown, ChevronUp, Clock, Wrench } from 'lucide-react';
 import { FlowchartProgress } from '../components/FlowchartProgress';
 import type { InstantBuildResult } from '../types';
 
@@ -147,7 +151,9 @@ export function ProcessingPage() {
     addSavedSolution,
     updateSavedSolution,
     activeSolutionId,
-    setActiveSolution
+    setActiveSolution,
+    buildJobId,
+    setBuildJobId
   } = useStore();
   
   const [progress, setProgress] = useState<InstantBuildProgress>({
@@ -163,8 +169,11 @@ export function ProcessingPage() {
   const [buildTrigger, setBuildTrigger] = useState(0);
   const [copied, setCopied] = useState(false);
   const [showFailedRows, setShowFailedRows] = useState(false);
+  const [queueState, setQueueState] = useState<'idle' | 'queueing' | 'queued' | 'failed'>('idle');
+  const navigate = useNavigate();
   const buildStarted = useRef(false);
   const cachedGenerationRef = useRef<any>(null);
+  const unsubscribeRef = useRef<(() => void) | null>(null);
   
   // Pipeline steps for visual display
   const steps = [
@@ -176,40 +185,9 @@ export function ProcessingPage() {
   
   const currentStepIndex = steps.findIndex(s => s.id === progress.step);
   
-  // Build function that can be called multiple times
-  const runBuild = useCallback(async (apiKey: string) => {
-    if (!extractedDetails) {
-      setLocalError('No project details available. Please go back and describe your bot.');
-      return;
-    }
-    
-    setLocalError(null);
-    setProgress({
-      step: 'generating',
-      message: 'Starting build...',
-      progress: 0,
-    });
-    
-    // Get AI credentials from store
-    const aiCredentials = credentials.anthropicApiKey || credentials.googleAiApiKey
-      ? {
-          apiKey: credentials.aiProvider === 'google' 
-            ? credentials.googleAiApiKey 
-            : credentials.anthropicApiKey,
-          provider: credentials.aiProvider || 'anthropic' as const
-        }
-      : undefined;
-    
-    const result = await instantBuild(
-      extractedDetails.description,
-      extractedDetails,
-      projectConfig.brandAssets || null,
-      apiKey,
-      user.email || 'anonymous',
-      (update) => setProgress(update),
-      cachedGenerationRef.current || undefined,
-      aiCredentials
-    );
+  // Save the finished build and move on, or show what failed
+  const handleBuildResult = useCallback((result: InstantBuildResult, solutionId: string | null) => {
+    if (!extractedDetails) return;
     
     if (result.success) {
       // Clear cache on success
@@ -237,14 +215,16 @@ export function ProcessingPage() {
         deployedEnvironment: 'sandbox' as const,
       };
       
-      // Update existing or create new
-      if (activeSolutionId) {
-        updateSavedSolution(activeSolutionId, solutionData);
-        console.log(`[ProcessingPage] Updated solution ${activeSolutionId} in Supabase`);
+      // Update existing (or the draft created above) or create new
+      if (solutionId) {
+        updateSavedSolution(solutionId, solutionData, { source: 'generation', scripts: result.scripts });
+        saveCostEntries(solutionId, result.costEntries || []);
+        console.log(`[ProcessingPage] Updated solution ${solutionId} in Supabase`);
       } else if (user.email) {
         addSavedSolution(solutionData).then((saved) => {
           if (saved) {
             setActiveSolution(saved.id);
+            saveCostEntries(saved.id, result.costEntries || []);
             console.log(`[ProcessingPage] Saved new solution ${saved.id} to Supabase`);
           }
         });
@@ -252,6 +232,11 @@ export function ProcessingPage() {
       
       setInstantStep('results');
     } else {
+      // Tokens spent on a failed build still count against the solution
+      if (solutionId) {
+        saveCostEntries(solutionId, result.costEntries || []);
+      }
+      
       // Cache generation result so retry skips expensive CSV regeneration
       if (result._cachedGeneration) {
         cachedGenerationRef.current = result._cachedGeneration;
@@ -272,13 +257,105 @@ export function ProcessingPage() {
         });
       }
     }
-  }, [extractedDetails, projectConfig.brandAssets, user.email, setInstantBuildResult, setInstantStep, setCredentials, addSavedSolution, updateSavedSolution, activeSolutionId, setActiveSolution]);
+  }, [extractedDetails, user.email, setInstantBuildResult, setInstantStep, setCredentials, addSavedSolution, updateSavedSolution, setActiveSolution]);
+  
+  // Follow a build job until it finishes. Leaving the page only drops the
+  // subscription - the job keeps running and is picked up again on return.
+  const followBuildJob = useCallback(async (jobId: string, solutionId: string | null) => {
+    const watch = watchBuildJob(jobId, (update) => setProgress(update));
+    unsubscribeRef.current = watch.unsubscribe;
+    
+    let result: InstantBuildResult;
+    try {
+      result = await watch.result;
+    } catch (e: any) {
+      // Unsubscribed on leaving the page - the job is still running
+      if (e.name === 'AbortError') return;
+      result = { success: false, nodeCount: 0, botId: '', error: e.message };
+    }
+    
+    setBuildJobId(null);
+    handleBuildResult(result, solutionId);
+  }, [handleBuildResult, setBuildJobId]);
+  
+  // Build function that can be called multiple times
+  const runBuild = useCallback(async (apiKey: string) => {
+    if (!extractedDetails) {
+      setLocalError('No project details available. Please go back and describe your bot.');
+      return;
+    }
+    
+    setLocalError(null);
+    setQueueState('idle');
+    setProgress({
+      step: 'generating',
+      message: 'Starting build...',
+      progress: 0,
+    });
+    
+    // Get AI credentials from store
+    const aiCredentials = credentials.anthropicApiKey || credentials.googleAiApiKey
+      ? {
+          apiKey: credentials.aiProvider === 'google' 
+            ? credentials.googleAiApiKey 
+            : credentials.anthropicApiKey,
+          provider: credentials.aiProvider || 'anthropic' as const
+        }
+      : undefined;
+    
+    // Create a draft up front so the build, its costs and checkpoints are
+    // saved against a solution from the start
+    let solutionId = activeSolutionId;
+    if (!solutionId && user.email) {
+      const draft = await addSavedSolution({
+        name: extractedDetails.projectName || 'Instant Build Solution',
+        clientName: extractedDetails.clientName || '',
+        projectType: 'custom',
+        description: extractedDetails.description || '',
+        status: 'draft',
+        nodeCount: 0,
+      });
+      if (draft) {
+        solutionId = draft.id;
+        setActiveSolution(draft.id);
+        console.log(`[ProcessingPage] Created draft solution ${draft.id} for the build`);
+      }
+    }
+    
+    let job;
+    try {
+      job = await submitBuildJob({
+        description: extractedDetails.description,
+        extractedDetails,
+        brandAssets: projectConfig.brandAssets || null,
+        token: apiKey,
+        userId: user.email || 'anonymous',
+        cachedGeneration: cachedGenerationRef.current || undefined,
+        aiCredentials,
+        solutionId,
+      });
+    } catch (e: any) {
+      setLocalError(e.message);
+      setProgress({ step: 'error', message: e.message, progress: 0 });
+      return;
+    }
+    
+    setBuildJobId(job.id);
+    await followBuildJob(job.id, solutionId);
+  }, [extractedDetails, projectConfig.brandAssets, user.email, addSavedSolution, activeSolutionId, setActiveSolution, setBuildJobId, followBuildJob]);
   
   useEffect(() => {
     // Prevent double-run in React 18 Strict Mode (only for initial mount)
     if (buildTrigger === 0 && buildStarted.current) return;
     if (buildTrigger === 0) buildStarted.current = true;
     
+    // A build started before a reload or navigation is still running on the server
+    if (buildTrigger === 0 && buildJobId) {
+      console.log(`[ProcessingPage] Following running build job ${buildJobId}`);
+      followBuildJob(buildJobId, activeSolutionId);
+      return;
+    }
+    
     const token = credentials.pypestreamApiKey;
     if (!token) {
       // Show API key input instead of error
@@ -289,6 +366,9 @@ export function ProcessingPage() {
     runBuild(token);
   }, [buildTrigger, credentials.pypestreamApiKey, runBuild]);
   
+  // Stop listening on unmount; the build itself keeps running
+  useEffect(() => () => unsubscribeRef.current?.(), []);
+  
   const handleApiKeySubmit = () => {
     if (!apiKeyInput.trim()) return;
     // Save the API key
@@ -308,6 +388,15 @@ export function ProcessingPage() {
     setInstantStep('create');
   };
   
+  const handleCancel = () => {
+    unsubscribeRef.current?.();
+    if (buildJobId) {
+      cancelBuildJob(buildJobId);
+      setBuildJobId(null);
+    }
+    setInstantStep('create');
+  };
+  
   // API Key prompt
   if (needsApiKey) {
     return (
@@ -361,6 +450,18 @@ export function ProcessingPage() {
       setTimeout(() => setCopied(false), 2000);
     };
     
+    // Hand the build to a teammate; resuming from the queue reuses the cached generation
+    const handleSendToFixQueue = async () => {
+      if (!failedResult || !extractedDetails) return;
+      setQueueState('queueing');
+      const item = await enqueueStuckBuild(failedResult, {
+        description: extractedDetails.description,
+        extractedDetails,
+        brandAssets: projectConfig.brandAssets || null,
+      }, activeSolutionId);
+      setQueueState(item ? 'queued' : 'failed');
+    };
+    
     return (
       <div className="flex items-center justify-center min-h-[70vh] px-6 py-8">
         <div className={`bg-[#12121a] border border-white/[0.08] rounded-2xl p-10 text-center w-full ${hasFailedRows ? 'max-w-2xl' : 'max-w-md'}`}>
@@ -425,6 +526,39 @@ export function ProcessingPage() {
             </div>
           )}
           
+          {/* Fix Queue - rows no automatic fix could repair */}
+          {failedResult?.needsHumanIntervention && (
+            <div className="mb-6 bg-[#0a0a0f] border border-white/[0.08] rounded-xl p-4 text-left">
+              {queueState === 'queued' ? (
+                <div className="flex items-center justify-between gap-3">
+                  <span className="text-sm text-[#22c55e]">Queued - a teammate can claim it in the Fix Queue</span>
+                  <button
+                    onClick={() => navigate('/fix-queue')}
+                    className="text-sm text-[#6366f1] hover:text-[#818cf8] transition-colors"
+                  >
+                    Open Fix Queue
+                  </button>
+                </div>
+              ) : (
+                <div className="flex items-center justify-between gap-3">
+                  <span className="text-xs text-[#6a6a75]">
+                    {queueState === 'failed'
+                      ? 'Could not add the build to the Fix Queue. Try again.'
+                      : 'Let a teammate fix these rows and resume the build without regenerating.'}
+                  </span>
+                  <button
+                    onClick={handleSendToFixQueue}
+                    disabled={queueState === 'queueing'}
+                    className="flex items-center gap-1.5 px-3 py-1.5 bg-[#6366f1]/10 text-[#6366f1] text-xs rounded-lg hover:bg-[#6366f1]/20 transition-colors whitespace-nowrap disabled:opacity-50"
+                  >
+                    {queueState === 'queueing' ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Wrench className="w-3.5 h-3.5" />}
+                    Send to Fix Queue
+                  </button>
+                </div>
+              )}
+            </div>
+          )}
+          
           <div className="flex items-center justify-center gap-4">
             <button
               onClick={handleBack}
@@ -522,7 +656,7 @@ export function ProcessingPage() {
           
           {/* Cancel button */}
           <button
-            onClick={handleBack}
+            onClick={handleCancel}
             className="mt-6 px-4 py-2 text-sm text-[#6a6a75] hover:text-white transition-colors"
           >
             Cancel
@@ -531,7 +665,7 @@ export function ProcessingPage() {
         
         {/* Right: Flowchart Progress (hidden on mobile) */}
         <div className="hidden lg:flex bg-[#12121a] border border-white/[0.08] rounded-2xl p-8 items-center justify-center min-h-[500px]">
-          <FlowchartProgress sequentialProgress={progress.sequentialProgress} />
+          <FlowchartProgress sequentialProgress={progress.sequentialProgress} stages={progress.stages} />
         </div>
       </div>
     </div>
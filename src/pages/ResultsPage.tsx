@@ -21,11 +21,14 @@ import {
   Wand2,
   Sparkles
 } from 'lucide-react';
-import { useState } from 'react';
+import { useCallback, useEffect, useState } from 'react';
 import { submitHumanFix } from '../services/error-learning';
 import { createChannelWithWidget, oneClickDeploy } from '../services/botmanager';
 import { exportToGoogleSheets } from '../services/composio';
 import { validateCSV, refineCSV, sanitizeCSVForDeploy } from '../services/generation';
+import { CostBreakdown, NodeDiffModal } from '../components';
+import { fetchCostTotals, recordSolutionUsage } from '../services/cost-ledger';
+import type { CostSummary } from '../types';
 
 /**
  * ResultsPage - Shows the completed instant build results
@@ -105,6 +108,21 @@ export function ResultsPage() {
     error?: string;
   } | null>(null);
   const [showReviewDetails, setShowReviewDetails] = useState(false);
+  // /api/ux-apply output waiting for node-by-node review
+  const [pendingUxApply, setPendingUxApply] = useState<{ before: string; after: string } | null>(null);
+  
+  // AI cost of every build and edit of this solution (ai_usage ledger)
+  const [solutionCosts, setSolutionCosts] = useState<CostSummary | null>(null);
+  
+  const refreshSolutionCosts = useCallback(async () => {
+    if (!activeSolutionId) return;
+    const totals = await fetchCostTotals([activeSolutionId]);
+    setSolutionCosts(totals[activeSolutionId] || null);
+  }, [activeSolutionId]);
+  
+  useEffect(() => {
+    refreshSolutionCosts();
+  }, [refreshSolutionCosts]);
   
   // Check if Google Sheets is connected
   const googleSheetsIntegration = integrations.find((i) => i.id === 'google-sheets');
@@ -504,6 +522,7 @@ export function ResultsPage() {
           },
         }),
       });
+      recordSolutionUsage(activeSolutionId, reviewResponse, 'ux-review').then(refreshSolutionCosts);
       
       if (!reviewResponse.ok) {
         const error = await reviewResponse.json().catch(() => ({ error: 'Review failed' }));
@@ -540,31 +559,19 @@ export function ResultsPage() {
             },
           }),
         });
+        recordSolutionUsage(activeSolutionId, applyResponse, 'ux-review').then(refreshSolutionCosts);
         
         if (applyResponse.ok) {
           const applyData = await applyResponse.json();
           
           if (applyData.success && applyData.csv) {
-            // Sanitize the improved CSV
+            // Sanitize the improved CSV, then let the user review it node by node
             const improvedCSV = sanitizeCSVForDeploy(applyData.csv);
-            
-            // Update the solution with improved CSV
-            setInstantBuildResult({
-              ...instantBuildResult,
-              csv: improvedCSV,
-            });
-            
-            // Save to Supabase
-            if (activeSolutionId) {
-              updateSavedSolution(activeSolutionId, {
-                csvContent: improvedCSV,
-              });
-            }
+            setPendingUxApply({ before: instantBuildResult.csv, after: improvedCSV });
             
             setAiReviewResult({
               success: true,
               analysis,
-              appliedCount: applyData.appliedCount || analysis.improvements.length,
             });
           } else {
             // Improvements couldn't be applied, but analysis is still valid
@@ -624,6 +631,25 @@ export function ResultsPage() {
   const targetCompany = extractedDetails?.targetCompany || projectConfig.targetCompany;
   const brandColor = projectConfig.brandAssets?.primaryColor || '#6366f1';
   
+  // Write back the UX improvements the user accepted
+  const handleApplyUxChanges = (csv: string, appliedCount: number) => {
+    if (!instantBuildResult) return;
+    
+    setInstantBuildResult({
+      ...instantBuildResult,
+      csv,
+    });
+    
+    // Save to Supabase
+    if (activeSolutionId) {
+      updateSavedSolution(activeSolutionId, {
+        csvContent: csv,
+      }, { source: 'ux-apply', note: `Applied UX improvements to ${appliedCount} nodes`, scripts: instantBuildResult.scripts });
+    }
+    
+    setAiReviewResult(prev => prev ? { ...prev, appliedCount } : prev);
+    setPendingUxApply(null);
+  };
   return (
     <div className="max-w-2xl mx-auto py-12 px-4 animate-fade-in">
       {/* Success Header */}
@@ -651,6 +677,13 @@ export function ResultsPage() {
         </p>
       </div>
       
+      {/* AI Cost */}
+      {instantBuildResult.costs && instantBuildResult.costs.calls > 0 && (
+        <div className="mb-8">
+          <CostBreakdown title="Build cost" summary={instantBuildResult.costs} solutionTotal={solutionCosts} />
+        </div>
+      )}
+      
       {/* Action Cards */}
       <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-8">
         {/* View in Google Sheets */}
@@ -1328,6 +1361,17 @@ export function ResultsPage() {
           </div>
         </div>
       )}
+      
+      {/* Review UX improvements node by node */}
+      <NodeDiffModal
+        isOpen={!!pendingUxApply}
+        before={pendingUxApply?.before || ''}
+        after={pendingUxApply?.after || ''}
+        title="Review UX improvements"
+        applyLabel="Apply improvements"
+        onApply={handleApplyUxChanges}
+        onCancel={() => setPendingUxApply(null)}
+      />
     </div>
   );
 }
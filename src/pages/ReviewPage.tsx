@@ -1,9 +1,13 @@
-import { useState, useEffect, useMemo } from 'react';
+import { useState, useEffect, useMemo, useRef } from 'react';
 import { useStore } from '../store/useStore';
 import { Button } from '../components/Button';
 import { Card, CardHeader } from '../components/Card';
 import { Input } from '../components/Input';
 import { ConnectService } from '../components/ConnectService';
+import { ConversationSimulatorPanel } from '../components/ConversationSimulator';
+import { ConversationTestsPanel } from '../components/ConversationTests';
+import type { ConversationReplay } from '../services/conversation-tests';
+import { analyzeBotGraph } from '../services/graph-analyzer';
 import { exportToGoogleSheets } from '../services/composio';
 import { 
   validateWithBotManager, 
@@ -34,10 +38,11 @@ import {
   Wand2,
   RotateCw,
   Database,
-  Check
+  Check,
+  GitBranch
 } from 'lucide-react';
 
-type TabId = 'overview' | 'nodes' | 'validation' | 'readme';
+type TabId = 'overview' | 'nodes' | 'validation' | 'simulate' | 'readme';
 
 export function ReviewPage() {
   const { 
@@ -122,12 +127,17 @@ export function ReviewPage() {
   const [autoFixIteration, setAutoFixIteration] = useState(0);
   const [currentErrors, setCurrentErrors] = useState<string[]>([]);
   const [showAllErrors, setShowAllErrors] = useState(false);
+  const [showAllGraphIssues, setShowAllGraphIssues] = useState(false);
   const [showApiKeyInput, setShowApiKeyInput] = useState(false);
   
   // Mock data state
   const [mockDataApplied, setMockDataApplied] = useState<Set<number>>(new Set());
   const [applyingMockData, setApplyingMockData] = useState<number | null>(null);
 
+  // Conversation test failure opened in the simulator
+  const [simulatorReplay, setSimulatorReplay] = useState<ConversationReplay | null>(null);
+  const simulatorRef = useRef<HTMLDivElement>(null);
+
   // Enrich warnings with API dependency info (for legacy solutions without it)
   const enrichedWarnings = useMemo(() => {
     const warnings = solution?.validationResult?.warnings || [];
@@ -140,6 +150,12 @@ export function ReviewPage() {
     return enrichWarningsWithApiInfo(warningMessages);
   }, [solution?.validationResult?.warnings]);
 
+  // Routing graph analysis (unreachable nodes, dead ends, uncovered outcomes, silent loops)
+  const graphIssues = useMemo(() => {
+    if (!solution?.csvContent) return [];
+    return analyzeBotGraph(solution.csvContent).issues;
+  }, [solution?.csvContent]);
+
   const googleSheetsConnected = integrations.find((i) => i.id === 'google-sheets')?.connected;
   const hasApiKey = !!credentials.pypestreamApiKey;
   
@@ -339,7 +355,7 @@ export function ReviewPage() {
       if (activeSolutionId) {
         updateSavedSolution(activeSolutionId, {
           csvContent: result.csv,
-        });
+        }, { source: 'edit', note: 'AI auto-fix' });
       }
       
       if (result.valid) {
@@ -434,7 +450,7 @@ export function ReviewPage() {
         if (activeSolutionId) {
           await updateSavedSolution(activeSolutionId, {
             csvContent: result.csv,
-          });
+          }, { source: 'edit', note: 'Applied mock data' });
         }
         
         console.log(`[MockData] Applied mock data: ${result.changes.join(', ')}`);
@@ -520,6 +536,7 @@ export function ReviewPage() {
     { id: 'overview' as const, label: 'Overview' },
     { id: 'nodes' as const, label: 'Nodes' },
     { id: 'validation' as const, label: 'Validation' },
+    { id: 'simulate' as const, label: 'Simulate' },
     { id: 'readme' as const, label: 'README' },
   ];
 
@@ -770,6 +787,49 @@ export function ReviewPage() {
               </div>
             </Card>
 
+            {/* Routing Graph Analysis */}
+            {solution?.csvContent && (
+              <Card>
+                <CardHeader
+                  title="Flow Analysis"
+                  description={graphIssues.length === 0
+                    ? 'Every node is reachable and every path has an exit'
+                    : `${graphIssues.filter(i => i.severity === 'error').length} errors, ${graphIssues.filter(i => i.severity === 'warning').length} warnings in the routing graph`}
+                  icon={<GitBranch className="w-5 h-5" />}
+                  size="sm"
+                  action={graphIssues.length > 5 ? (
+                    <button
+                      onClick={() => setShowAllGraphIssues(!showAllGraphIssues)}
+                      className="text-[11px] text-[#a5b4fc] hover:text-[#c4b5fd] transition-colors"
+                    >
+                      {showAllGraphIssues ? 'Show less' : `Show all ${graphIssues.length}`}
+                    </button>
+                  ) : undefined}
+                />
+                {graphIssues.length > 0 && (
+                  <div className={`space-y-2 ${showAllGraphIssues ? 'max-h-[400px] overflow-y-auto' : ''}`}>
+                    {(showAllGraphIssues ? graphIssues : graphIssues.slice(0, 5)).map((issue, index) => (
+                      <div
+                        key={`${issue.graphCheck}-${issue.nodeNumber}-${index}`}
+                        className={`flex items-start gap-2.5 p-3 rounded-xl border ${
+                          issue.severity === 'error'
+                            ? 'bg-[rgba(239,68,68,0.04)] border-[rgba(239,68,68,0.12)]'
+                            : 'bg-[rgba(251,191,36,0.05)] border-[rgba(251,191,36,0.1)]'
+                        }`}
+                      >
+                        {issue.severity === 'error' ? (
+                          <XCircle className="w-4 h-4 text-[#f87171] shrink-0 mt-0.5" />
+                        ) : (
+                          <AlertTriangle className="w-4 h-4 text-[#fbbf24] shrink-0 mt-0.5" />
+                        )}
+                        <span className="text-[13px] text-[#c4c4d6]">{issue.message}</span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </Card>
+            )}
+
             {/* Official Bot Manager Validation */}
             <Card variant="elevated">
               <CardHeader 
@@ -1049,6 +1109,28 @@ export function ReviewPage() {
           </div>
         )}
 
+        {activeTab === 'simulate' && (
+          solution?.csvContent ? (
+            <div className="space-y-4">
+              <div ref={simulatorRef}>
+                <ConversationSimulatorPanel csv={solution.csvContent} replay={simulatorReplay} />
+              </div>
+              <ConversationTestsPanel
+                csv={solution.csvContent}
+                solutionId={activeSolutionId}
+                onJumpToFailure={(replay) => {
+                  setSimulatorReplay(replay);
+                  simulatorRef.current?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+                }}
+              />
+            </div>
+          ) : (
+            <Card variant="ghost">
+              <p className="text-[13px] text-[#8585a3]">Generate a solution to simulate conversations.</p>
+            </Card>
+          )
+        )}
+
         {activeTab === 'readme' && (
           <Card padding="none">
             <div className="p-4 border-b border-[rgba(255,255,255,0.06)]">
@@ -2,10 +2,16 @@ import { useState, useEffect, useCallback, useRef } from 'react';
 import { createPortal } from 'react-dom';
 import { useNavigate, useParams, useLocation } from 'react-router-dom';
 import { useStore } from '../store/useStore';
-import { instantBuild } from '../services/instant-build';
+import { submitBuildJob, watchBuildJob } from '../services/build-jobs';
+import { createNodeRangeAllocator } from '../services/generation';
+import type { FlowPlan } from '../services/generation';
 import { createChannelWithWidget } from '../services/botmanager';
+import { BotDocument } from '../services/bot-document';
+import { recordSolutionUsage, saveCostEntries } from '../services/cost-ledger';
 import { GenerationProgressPanel } from '../components/GenerationProgress';
 import { ResultsModal } from '../components/ResultsModal';
+import { ConversationSimulatorPanel } from '../components/ConversationSimulator';
+import { BrandThemeDesigner } from '../components/BrandThemeDesigner';
 import type { InstantBuildResult, ArchitectureState } from '../types';
 import {
   ReactFlow,
@@ -58,7 +64,8 @@ import {
   Rocket,
   ChevronDown,
   Key,
-  AlertCircle
+  AlertCircle,
+  Palette
 } from 'lucide-react';
 
 // ============================================
@@ -837,6 +844,9 @@ interface PlannedFlow {
   label?: string;  // Optional since it may not be set initially
   description: string;
   startNode: number;
+  endNode?: number;  // Last node of the flow's range, when planned
+  estimatedNodes?: number;
+  nodeNumbers?: number[];  // Explicit membership for imported bots
 }
 
 interface MainMenuOption {
@@ -893,71 +903,56 @@ function parseCSVToFlowNodes(csvString: string, plannedFlows: PlannedFlow[]): Ma
   if (!csvString) return flowNodes;
   
   // Initialize all flows with empty arrays
+  // Imported bots list their nodes explicitly; those take precedence over ranges
+  const explicitFlow = new Map<number, string>();
   for (const flow of plannedFlows) {
     flowNodes.set(flow.name, []);
+    for (const num of flow.nodeNumbers || []) explicitFlow.set(num, flow.name);
   }
+  const rangedFlows = plannedFlows.filter(flow => !flow.nodeNumbers);
   
-  // Parse CSV rows (skip header)
-  const lines = csvString.split('\n').slice(1);
-  
-  for (const line of lines) {
-    if (!line.trim()) continue;
-    
-    // Parse CSV fields (handles quoted fields with commas)
-    const fields: string[] = [];
-    let current = '';
-    let inQuotes = false;
-    
-    for (let i = 0; i < line.length; i++) {
-      const char = line[i];
-      if (char === '"') {
-        inQuotes = !inQuotes;
-      } else if (char === ',' && !inQuotes) {
-        fields.push(current.replace(/^"|"$/g, '').trim());
-        current = '';
-      } else {
-        current += char;
-      }
-    }
-    fields.push(current.replace(/^"|"$/g, '').trim());
+  // Parse CSV rows (handles quoted fields with commas and line breaks)
+  for (const row of BotDocument.parse(csvString).nodes) {
+    const nodeNum = row.nodeNum;
     
     // Map to CSVNode
-    const nodeNum = parseInt(fields[0], 10);
-    if (isNaN(nodeNum)) continue;
-    
     const node: CSVNode = {
       num: nodeNum,
-      type: fields[1] as 'D' | 'A',
-      name: fields[2] || '',
-      intent: fields[3],
-      entityType: fields[4],
-      entity: fields[5],
-      nluDisabled: fields[6],
-      nextNodes: fields[7],
-      message: fields[8],
-      richType: fields[9],
-      richContent: fields[10],
-      ansReq: fields[11],
-      behaviors: fields[12],
-      command: fields[13],
-      description: fields[14],
-      output: fields[15],
-      nodeInput: fields[16],
-      paramInput: fields[17],
-      decVar: fields[18],
-      whatNext: fields[19],
-      nodeTags: fields[20],
-      skillTag: fields[21],
-      variable: fields[22],
-      platformFlag: fields[23],
-      flows: fields[24],
-      cssClass: fields[25]
+      type: row.type.trim() as 'D' | 'A',
+      name: row.name.trim(),
+      intent: row.intent.trim(),
+      entityType: row.entityType.trim(),
+      entity: row.entity.trim(),
+      nluDisabled: row.nluDisabled.trim(),
+      nextNodes: row.nextNodes.trim(),
+      message: row.message.trim(),
+      richType: row.richType.trim(),
+      richContent: row.richContent.trim(),
+      ansReq: row.ansReq.trim(),
+      behaviors: row.behaviors.trim(),
+      command: row.command.trim(),
+      description: row.description.trim(),
+      output: row.output.trim(),
+      nodeInput: row.nodeInput.trim(),
+      paramInput: row.paramInput.trim(),
+      decVar: row.decVar.trim(),
+      whatNext: row.whatNext.trim(),
+      nodeTags: row.nodeTags.trim(),
+      skillTag: row.skillTag.trim(),
+      variable: row.variable.trim(),
+      platformFlag: row.platformFlag.trim(),
+      flows: row.flows.trim(),
+      cssClass: row.cssClass.trim()
     };
     
     // Assign node to the appropriate flow based on node number range
     // Flows are assigned sequential start nodes (300, 400, 500, etc.)
     // Each flow owns nodes from its startNode to the next flow's startNode - 1
-    let assignedFlow: string | null = null;
+    let assignedFlow: string | null = explicitFlow.get(nodeNum) || null;
+    if (assignedFlow) {
+      flowNodes.get(assignedFlow)!.push(node);
+      continue;
+    }
     
     // Skip system nodes (negative or >= 99990)
     if (nodeNum < 0 || nodeNum >= 99990) continue;
@@ -966,7 +961,7 @@ function parseCSVToFlowNodes(csvString: string, plannedFlows: PlannedFlow[]): Ma
     if (nodeNum < 300) continue;
     
     // Find which flow this node belongs to
-    const sortedFlows = [...plannedFlows].sort((a, b) => a.startNode - b.startNode);
+    const sortedFlows = [...rangedFlows].sort((a, b) => a.startNode - b.startNode);
     for (let i = 0; i < sortedFlows.length; i++) {
       const flow = sortedFlows[i];
       const nextFlowStart = i < sortedFlows.length - 1 ? sortedFlows[i + 1].startNode : 99990;
@@ -1177,6 +1172,8 @@ export function SolutionArchitecturePage() {
   const [generationProgress, setGenerationProgress] = useState<GenerationProgress | null>(null);
   const [hasGenerated, setHasGenerated] = useState(false);
   const [showResultsPopup, setShowResultsPopup] = useState(false);
+  const [showSimulator, setShowSimulator] = useState(false);
+  const [showThemeDesigner, setShowThemeDesigner] = useState(false);
   const [instantBuildResult, setLocalInstantBuildResult] = useState<any>(null);
   
   // Cached generation for retry - stores the expensive AI-generated CSV when deployment fails
@@ -1867,6 +1864,8 @@ export function SolutionArchitecturePage() {
         body: JSON.stringify({
           code: codeModal.generatedCode,
           nodeData: codeModal.nodeData,
+          // Bot variables for the sandbox event
+          csv: instantBuildResult?.csv,
         })
       });
       
@@ -1889,7 +1888,7 @@ export function SolutionArchitecturePage() {
         },
       }));
     }
-  }, [codeModal.generatedCode, codeModal.nodeData]);
+  }, [codeModal.generatedCode, codeModal.nodeData, instantBuildResult?.csv]);
   
   // Close code modal
   const handleCloseCodeModal = useCallback(() => {
@@ -2104,6 +2103,7 @@ export function SolutionArchitecturePage() {
           }
         })
       });
+      recordSolutionUsage(solutionId || activeSolutionId, response, 'plan');
       
       if (!response.ok) {
         throw new Error('Failed to plan solution');
@@ -2340,88 +2340,90 @@ export function SolutionArchitecturePage() {
     setGenerationProgress(initialProgress);
     
     try {
-      // Store planned flows for the generation service
-      (window as any).__plannedFlows = flows;
-      (window as any).__plannedMenuOptions = menuOptions;
-      
-      // Store flow previews - these are the conversation structures the user has seen/approved
+      // Flow previews - these are the conversation structures the user has seen/approved
       // The generation service will use these to ensure the CSV matches what was previewed
       const previewsObject: Record<string, any[]> = {};
       flowPreviews.forEach((nodes, name) => {
         previewsObject[name] = nodes;
       });
-      (window as any).__flowPreviews = previewsObject;
       console.log(`[Architecture] Passing ${Object.keys(previewsObject).length} flow previews to generation`);
       
-      // Run the full build pipeline with progress tracking
+      // Run the full build pipeline on the build server with progress tracking
       // Pass cached generation if available to skip expensive AI regeneration on retry
-      const result = await instantBuild(
-        extractedDetails.description || '',
+      const job = await submitBuildJob({
+        description: extractedDetails.description || '',
         extractedDetails,
-        projectConfig.brandAssets || null,
-        apiKey, // Use the resolved API key (override or from credentials)
-        'anonymous', // User ID not available in UserProfile
-        (progress) => {
-          // Update generation progress based on instant-build progress
-          setGenerationProgress(prev => {
-            if (!prev) return prev;
-            
-            let stage = prev.stage;
-            if (progress.step === 'generating') stage = 'generating';
-            else if (progress.step === 'validating') stage = 'converting';
-            else if (progress.step === 'deploying') stage = 'deploying';
-            else if (progress.step === 'done') stage = 'done';
-            
-            // Update per-flow progress if available from sequential progress
-            const newFlowProgress = new Map(prev.flowProgress);
-            const seqProgress = progress.sequentialProgress;
-            
-            let totalNodes = 0;
-            
-            if (seqProgress?.flows) {
-              // Update flow statuses based on the flows array
-              for (const flowItem of seqProgress.flows) {
-                // Use nodeCount from progress if available
-                const nodeCount = flowItem.nodeCount || 0;
-                totalNodes += nodeCount;
-                
-                if (flowItem.status === 'active') {
-                  newFlowProgress.set(flowItem.name, {
-                    status: 'generating',
-                    nodeCount: nodeCount,
-                    nodes: []
-                  });
-                } else if (flowItem.status === 'done') {
-                  newFlowProgress.set(flowItem.name, {
-                    status: 'done',
-                    nodeCount: nodeCount,
-                    nodes: []
-                  });
-                }
+        brandAssets: projectConfig.brandAssets || null,
+        token: apiKey, // Use the resolved API key (override or from credentials)
+        userId: 'anonymous', // User ID not available in UserProfile
+        cachedGeneration: cachedGeneration || undefined,
+        solutionId: activeSolutionId, // Checkpoint stages so an interrupted build resumes
+        // Generate the reviewed flows instead of planning new ones (node ranges are re-allocated from their estimated size)
+        plannedArchitecture: {
+          flows: flows as FlowPlan[],
+          mainMenuOptions: menuOptions,
+          flowPreviews: previewsObject,
+        },
+      });
+      
+      const result = await watchBuildJob(job.id, (progress) => {
+        // Update generation progress based on instant-build progress
+        setGenerationProgress(prev => {
+          if (!prev) return prev;
+          
+          let stage = prev.stage;
+          if (progress.step === 'generating') stage = 'generating';
+          else if (progress.step === 'validating') stage = 'converting';
+          else if (progress.step === 'deploying') stage = 'deploying';
+          else if (progress.step === 'done') stage = 'done';
+          
+          // Update per-flow progress if available from sequential progress
+          const newFlowProgress = new Map(prev.flowProgress);
+          const seqProgress = progress.sequentialProgress;
+          
+          let totalNodes = 0;
+          
+          if (seqProgress?.flows) {
+            // Update flow statuses based on the flows array
+            for (const flowItem of seqProgress.flows) {
+              // Use nodeCount from progress if available
+              const nodeCount = flowItem.nodeCount || 0;
+              totalNodes += nodeCount;
+              
+              if (flowItem.status === 'active') {
+                newFlowProgress.set(flowItem.name, {
+                  status: 'generating',
+                  nodeCount: nodeCount,
+                  nodes: []
+                });
+              } else if (flowItem.status === 'done') {
+                newFlowProgress.set(flowItem.name, {
+                  status: 'done',
+                  nodeCount: nodeCount,
+                  nodes: []
+                });
               }
             }
-            
-            // Also check for total node count in progress object
-            if (progress.nodeCount && progress.nodeCount > totalNodes) {
-              totalNodes = progress.nodeCount;
-            }
-            
-            // Count completed flows
-            const completedCount = seqProgress?.flows?.filter(f => f.status === 'done').length || prev.completedFlows;
-            
-            return {
-              ...prev,
-              stage,
-              message: progress.message || prev.message,
-              nodesGenerated: totalNodes > 0 ? totalNodes : prev.nodesGenerated,
-              completedFlows: completedCount,
-              flowProgress: newFlowProgress
-            };
-          });
-        },
-        cachedGeneration || undefined, // Pass cached generation to skip AI regeneration on retry
-        undefined // AI credentials - not used
-      );
+          }
+          
+          // Also check for total node count in progress object
+          if (progress.nodeCount && progress.nodeCount > totalNodes) {
+            totalNodes = progress.nodeCount;
+          }
+          
+          // Count completed flows
+          const completedCount = seqProgress?.flows?.filter(f => f.status === 'done').length || prev.completedFlows;
+          
+          return {
+            ...prev,
+            stage,
+            message: progress.message || prev.message,
+            nodesGenerated: totalNodes > 0 ? totalNodes : prev.nodesGenerated,
+            completedFlows: completedCount,
+            flowProgress: newFlowProgress
+          };
+        });
+      }).result;
       
       // Store cached generation for retry if deployment fails
       if (result._cachedGeneration) {
@@ -2482,7 +2484,8 @@ export function SolutionArchitecturePage() {
               brandAssets: projectConfig.brandAssets || undefined,
               instantStep: 'architecture',
             },
-          });
+          }, { source: 'generation', scripts: result.scripts });
+          saveCostEntries(activeSolutionId, result.costEntries || []);
           console.log('[Architecture] Updated solution with architecture state:', activeSolutionId);
         } catch (updateError) {
           console.error('[Architecture] Failed to update solution:', updateError);
@@ -2627,7 +2630,7 @@ export function SolutionArchitecturePage() {
             deployedEnvironment: 'sandbox',
             botId: botId,
             versionId: deployResult.versionId
-          });
+          }, { source: 'deploy', note: 'Fixed and redeployed', scripts: instantBuildResult.scripts });
         }
       } else {
         // Check if errors indicate auth issue
@@ -2690,6 +2693,7 @@ export function SolutionArchitecturePage() {
             images: projectConfig.brandAssets.images,
             colors: projectConfig.brandAssets.colors,
             fonts: projectConfig.brandAssets.fonts,
+            theme: projectConfig.brandAssets.theme,
           } : undefined,
         }
       );
@@ -2837,15 +2841,21 @@ export function SolutionArchitecturePage() {
   const handleProceed = handleGenerate;
   
   const handleAddFlow = () => {
-    const newStartNode = flows.length > 0 
-      ? Math.max(...flows.map(f => f.startNode)) + 100 
-      : 300;
+    // Next free block after the existing flows' full ranges (a large flow spans
+    // several blocks), skipping reserved ranges
+    const allocator = createNodeRangeAllocator();
+    flows.forEach(f => allocator.claim({
+      start: f.startNode,
+      end: Math.max(f.endNode ?? f.startNode, ...(f.nodeNumbers || [])),
+    }));
+    const range = allocator.allocate();
     
     const newFlow: PlannedFlow = {
       name: `new_flow_${flows.length + 1}`,
       label: 'New Flow',
       description: 'New conversation flow',
-      startNode: newStartNode
+      startNode: range.start,
+      endNode: range.end
     };
     
     const newFlows = [...flows, newFlow];
@@ -2886,6 +2896,7 @@ export function SolutionArchitecturePage() {
           }
         })
       });
+      recordSolutionUsage(solutionId || activeSolutionId, response, 'plan');
       
       if (response.ok) {
         const data = await response.json();
@@ -3023,6 +3034,17 @@ export function SolutionArchitecturePage() {
               AI Architect
             </button>
             
+            <button
+              onClick={() => setShowThemeDesigner(true)}
+              className="flex items-center gap-1.5 px-3 py-1.5 text-sm text-[#a5b4fc] hover:text-white hover:bg-[#6366f1]/10 rounded-lg transition-colors"
+            >
+              <Palette className="w-4 h-4" />
+              Theme
+              {!projectConfig.brandAssets?.colors?.length && (
+                <span className="w-1.5 h-1.5 rounded-full bg-amber-400" title="No brand data - add a logo or website" />
+              )}
+            </button>
+            
             {/* API Key button - shows status and allows update */}
             <button
               onClick={() => {
@@ -3041,6 +3063,16 @@ export function SolutionArchitecturePage() {
               {credentials.pypestreamApiKey ? 'API Key Set' : 'Set API Key'}
             </button>
             
+            {instantBuildResult?.csv && (
+              <button
+                onClick={() => setShowSimulator(true)}
+                className="flex items-center gap-1.5 px-3 py-1.5 text-sm text-[#a5b4fc] hover:text-white hover:bg-[#6366f1]/10 rounded-lg transition-colors"
+              >
+                <Play className="w-4 h-4" />
+                Simulate
+              </button>
+            )}
+            
             {hasGenerated ? (
               <GenerateDropdown
                 onViewResults={() => setShowResultsPopup(true)}
@@ -3084,6 +3116,41 @@ export function SolutionArchitecturePage() {
         document.body
       )}
       
+      {/* Offline Simulator Modal */}
+      {showSimulator && instantBuildResult?.csv && createPortal(
+        <div className="fixed inset-0 z-[100] flex items-center justify-center">
+          <div
+            className="absolute inset-0 bg-black/60 backdrop-blur-sm"
+            onClick={() => setShowSimulator(false)}
+          />
+          <div className="relative w-full max-w-xl mx-4">
+            <button
+              onClick={() => setShowSimulator(false)}
+              className="absolute -top-10 right-0 p-2 text-[#8585a3] hover:text-white transition-colors"
+            >
+              <X className="w-5 h-5" />
+            </button>
+            <ConversationSimulatorPanel csv={instantBuildResult.csv} className="bg-[#12121a]" />
+          </div>
+        </div>,
+        document.body
+      )}
+      
+      {/* Widget Theme Designer */}
+      {showThemeDesigner && createPortal(
+        <BrandThemeDesigner
+          isOpen={showThemeDesigner}
+          brandAssets={projectConfig.brandAssets}
+          companyName={extractedDetails?.targetCompany || projectConfig.targetCompany}
+          onClose={() => setShowThemeDesigner(false)}
+          onSave={(brandAssets) => {
+            setProjectConfig({ brandAssets });
+            setShowThemeDesigner(false);
+          }}
+        />,
+        document.body
+      )}
+      
       {/* Results Modal */}
       <ResultsModal
         isOpen={showResultsPopup}
@@ -3194,7 +3261,13 @@ export function SolutionArchitecturePage() {
               <div className="p-6">
                 <h2 className="text-xl font-semibold text-white mb-2">Create Widget</h2>
                 <p className="text-sm text-[#6a6a75] mb-4">
-                  Enter your Pypestream API key to create a test widget for this bot.
+                  Enter your Pypestream API key to create a test widget for this bot.{' '}
+                  <button
+                    onClick={() => setShowThemeDesigner(true)}
+                    className="text-[#a5b4fc] hover:text-white transition-colors"
+                  >
+                    Preview the theme
+                  </button>
                 </p>
                 
                 {widgetError && (
@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useCallback, useEffect, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { 
   ArrowLeft, 
@@ -13,10 +13,14 @@ import {
   Edit3,
   Trash2,
   MoreHorizontal,
-  Loader2
+  Loader2,
+  History,
+  RotateCcw
 } from 'lucide-react';
 import { useStore } from '../store/useStore';
-import type { SavedSolution, WizardStep } from '../types';
+import { fetchSolutionVersions } from '../services/solution-versions-api';
+import { hotReload } from '../services/hot-reload';
+import type { SavedSolution, SolutionVersion, SolutionVersionSource, WizardStep } from '../types';
 
 // Step labels for display
 const stepLabels: Record<WizardStep, string> = {
@@ -114,6 +118,170 @@ function ActionCard({
   );
 }
 
+// Version source labels and colors for the history timeline
+const sourceStyles: Record<SolutionVersionSource, { label: string; className: string }> = {
+  'generation': { label: 'Generation', className: 'bg-[#6366f1]/10 text-[#a5b4fc] border-[#6366f1]/20' },
+  'edit': { label: 'AI Edit', className: 'bg-purple-400/10 text-purple-400 border-purple-400/20' },
+  'ux-apply': { label: 'UX Apply', className: 'bg-sky-400/10 text-sky-400 border-sky-400/20' },
+  'manual': { label: 'Manual', className: 'bg-gray-400/10 text-gray-400 border-gray-400/20' },
+  'deploy': { label: 'Deploy', className: 'bg-emerald-400/10 text-emerald-400 border-emerald-400/20' },
+  'restore': { label: 'Restore', className: 'bg-amber-400/10 text-amber-400 border-amber-400/20' },
+  'sheets-sync': { label: 'Sheets Sync', className: 'bg-green-400/10 text-green-400 border-green-400/20' },
+  'import': { label: 'Import', className: 'bg-rose-400/10 text-rose-400 border-rose-400/20' },
+};
+
+// Version history timeline with restore / restore & redeploy
+function VersionTimeline({ solution }: { solution: SavedSolution }) {
+  const updateSavedSolution = useStore((state) => state.updateSavedSolution);
+  const credentials = useStore((state) => state.credentials);
+  
+  const [versions, setVersions] = useState<SolutionVersion[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+  const [restoreError, setRestoreError] = useState<string | null>(null);
+  
+  const loadVersions = useCallback(async () => {
+    setIsLoading(true);
+    setVersions(await fetchSolutionVersions(solution.id));
+    setIsLoading(false);
+  }, [solution.id]);
+  
+  useEffect(() => {
+    loadVersions();
+  }, [loadVersions]);
+  
+  const handleRestore = async (version: SolutionVersion, redeploy: boolean) => {
+    setRestoringId(version.id);
+    setRestoreError(null);
+    
+    try {
+      const updates: Partial<SavedSolution> = {
+        csvContent: version.csvContent,
+        nodeCount: version.nodeCount,
+        architectureState: version.architectureState,
+      };
+      
+      // Redeploy the snapshot to the bot it was deployed to
+      if (redeploy && version.botId && credentials.pypestreamApiKey) {
+        const result = await hotReload(
+          version.botId,
+          version.csvContent,
+          version.scripts || [],
+          credentials.pypestreamApiKey
+        );
+        if (!result.success) {
+          setRestoreError(result.error || 'Redeploy failed. Nothing was restored.');
+          return;
+        }
+        updates.botId = version.botId;
+        updates.versionId = result.versionId;
+        updates.status = 'deployed';
+        console.log(`[Versions] Redeployed v${version.versionNumber} as ${result.versionId}`);
+      }
+      
+      await updateSavedSolution(solution.id, updates, {
+        source: 'restore',
+        note: `Restored v${version.versionNumber}${redeploy ? ' and redeployed' : ''}`,
+        scripts: version.scripts,
+      });
+      await loadVersions();
+    } catch (error: any) {
+      setRestoreError(error.message || 'Restore failed');
+    } finally {
+      setRestoringId(null);
+    }
+  };
+  
+  const formatTimestamp = (dateString: string) => new Date(dateString).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+  
+  return (
+    <div className="space-y-4 mt-8">
+      <h2 className="text-lg font-semibold text-white mb-4 flex items-center gap-2">
+        <History className="w-5 h-5 text-[#8585a3]" />
+        Version History
+      </h2>
+      
+      {restoreError && (
+        <div className="flex items-center gap-2 p-3 rounded-xl bg-red-500/10 border border-red-500/20 text-sm text-red-400">
+          <AlertCircle className="w-4 h-4" />
+          {restoreError}
+        </div>
+      )}
+      
+      {isLoading ? (
+        <div className="flex items-center gap-2 text-sm text-[#6a6a75]">
+          <Loader2 className="w-4 h-4 animate-spin" />
+          Loading history...
+        </div>
+      ) : versions.length === 0 ? (
+        <p className="text-sm text-[#6a6a75]">No versions recorded yet. A snapshot is saved on every save, deploy and AI edit.</p>
+      ) : (
+        <div className="bg-[#1a1a1f] border border-white/5 rounded-2xl divide-y divide-white/5">
+          {versions.map((version) => {
+            const isCurrent = version.csvContent === solution.csvContent;
+            const canRedeploy = !!version.botId && !!credentials.pypestreamApiKey;
+            const style = sourceStyles[version.source] || sourceStyles.manual;
+            
+            return (
+              <div key={version.id} className="flex items-center gap-4 p-4">
+                <span className="text-sm font-mono text-[#8585a3] w-10">v{version.versionNumber}</span>
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className={`px-2 py-0.5 rounded-md text-xs border ${style.className}`}>{style.label}</span>
+                    {isCurrent && <span className="text-xs text-emerald-400">Current</span>}
+                    <span className="text-xs text-[#6a6a75]">{version.nodeCount} nodes</span>
+                    {version.versionId && (
+                      <span className="text-xs font-mono text-[#5a5a65] truncate">{version.versionId}</span>
+                    )}
+                  </div>
+                  <p className="text-sm text-[#8585a3] mt-1 truncate">
+                    {version.note || 'Saved'}
+                    <span className="text-[#5a5a65]"> · {formatTimestamp(version.createdAt)}{version.author ? ` · ${version.author}` : ''}</span>
+                  </p>
+                </div>
+                {!isCurrent && (
+                  <div className="flex items-center gap-2">
+                    {restoringId === version.id ? (
+                      <Loader2 className="w-4 h-4 animate-spin text-[#8585a3]" />
+                    ) : (
+                      <>
+                        <button
+                          onClick={() => handleRestore(version, false)}
+                          disabled={!!restoringId}
+                          className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs text-[#8585a3] border border-white/10 hover:border-white/20 hover:text-white transition-colors disabled:opacity-50"
+                        >
+                          <RotateCcw className="w-3.5 h-3.5" />
+                          Restore
+                        </button>
+                        {canRedeploy && (
+                          <button
+                            onClick={() => handleRestore(version, true)}
+                            disabled={!!restoringId}
+                            title={`Restore and hot reload to ${version.botId}`}
+                            className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs text-emerald-400 border border-emerald-400/30 hover:bg-emerald-400/10 transition-colors disabled:opacity-50"
+                          >
+                            <Rocket className="w-3.5 h-3.5" />
+                            Restore & Redeploy
+                          </button>
+                        )}
+                      </>
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
+
 export function SolutionDetailPage() {
   const navigate = useNavigate();
   const activeSolutionId = useStore((state) => state.activeSolutionId);
@@ -335,6 +503,9 @@ export function SolutionDetailPage() {
           />
         </div>
       </div>
+      
+      {/* Version history */}
+      <VersionTimeline solution={solution} />
     </div>
   );
 }
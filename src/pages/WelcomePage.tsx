@@ -1,11 +1,14 @@
 import { useState, useEffect } from 'react';
 import { createPortal } from 'react-dom';
+import { useNavigate } from 'react-router-dom';
 import { useStore } from '../store/useStore';
 import { HeroChat } from '../components/ui/hero-chat';
-import { ImportModal } from '../components/ui/import-modal';
+import { ImportModal, type ImportData } from '../components/ui/import-modal';
 import { Loader2, FileSearch, Sparkles } from 'lucide-react';
-import { analyzeFigmaFile } from '../services/figma-analyzer';
+import { analyzeFigmaFile, analyzeFigmaJSON } from '../services/figma-analyzer';
 import { extractProjectDetails, fetchBrandAssets } from '../services/instant-build';
+import { importBot, type BotImportInput } from '../services/bot-import';
+import { exportBot } from '../services/botmanager';
 import { ConfirmDetailsPage } from './ConfirmDetailsPage';
 import { ProcessingPage } from './ProcessingPage';
 import type { ExtractedDetails } from '../types';
@@ -17,7 +20,12 @@ const DEBUG_MODE = import.meta.env.VITE_DEBUG_MODE === 'true';
 function AnalysisOverlay({ source, fileName }: { source: string; fileName: string }) {
   const [currentStep, setCurrentStep] = useState(0);
   
-  const steps = [
+  const steps = source === 'bot' ? [
+    'Reading bot CSV',
+    'Reconstructing flows',
+    'Collecting action scripts',
+    'Creating solution',
+  ] : [
     'Extracting file metadata',
     'Identifying flow structure', 
     'Detecting project type',
@@ -43,10 +51,10 @@ function AnalysisOverlay({ source, fileName }: { source: string; fileName: strin
           <FileSearch className="w-8 h-8 text-[#a5b4fc] animate-pulse" />
         </div>
         <h3 className="text-xl font-semibold text-white mb-2">
-          Analyzing {source === 'figma' ? 'Figma Design' : 'Spreadsheet'}
+          {source === 'bot' ? 'Importing Bot' : `Analyzing ${source === 'figma' ? 'Figma Design' : 'Spreadsheet'}`}
         </h3>
         <p className="text-sm text-[#6a6a75] mb-6">
-          Extracting project details from <span className="text-white font-medium">{fileName}</span>
+          {source === 'bot' ? 'Rebuilding flows from' : 'Extracting project details from'} <span className="text-white font-medium">{fileName}</span>
         </p>
         <div className="mt-6 space-y-2.5 text-left max-w-xs mx-auto">
           {steps.map((step, index) => (
@@ -96,12 +104,18 @@ export function WelcomePage() {
     setInstantStep,
     instantStep,
     startNewSolution,
-    projectConfig
+    projectConfig,
+    user,
+    addSavedSolution,
+    updateSavedSolution,
+    setActiveSolution
   } = useStore();
+  const navigate = useNavigate();
   const [isProcessing, setIsProcessing] = useState(false);
-  const [importSource, setImportSource] = useState<'figma' | 'sheets' | null>(null);
+  const [importSource, setImportSource] = useState<'figma' | 'sheets' | 'bot' | null>(null);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [analyzingFile, setAnalyzingFile] = useState<{ source: string; name: string } | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
   
   // Company URL state for brand fetching
   const [companyUrl, setCompanyUrl] = useState('');
@@ -300,12 +314,91 @@ export function WelcomePage() {
   };
 
   const handleImport = (source: string) => {
-    if (source === 'figma' || source === 'sheets') {
+    if (source === 'figma' || source === 'sheets' || source === 'bot') {
+      setImportError(null);
       setImportSource(source);
     }
   };
   
-  const handleImportComplete = async (data: { source: string; file: { id: string; name: string; type: string } }) => {
+  // Import an existing bot (CSV file, Google Sheet or Bot Manager bot) as an
+  // editable solution and open it on the architecture page
+  const handleBotImport = async (data: ImportData) => {
+    setImportSource(null);
+    setIsAnalyzing(true);
+    setAnalyzingFile({ source: 'bot', name: data.file.name });
+    setLoading(true);
+    
+    try {
+      let input: BotImportInput;
+      if (data.file.type === 'botmanager') {
+        const token = credentials.pypestreamApiKey || '';
+        const exported = await exportBot(data.file.id, token);
+        if (!exported.success || !exported.csv) {
+          throw new Error(exported.error || `Could not export ${data.file.id}`);
+        }
+        input = {
+          source: 'botmanager',
+          csv: exported.csv,
+          name: data.file.name,
+          botId: exported.botId,
+          versionId: exported.versionId,
+          scripts: exported.scripts,
+        };
+      } else if (data.source === 'sheets') {
+        const response = await fetch('/api/composio/fetch-sheet', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ spreadsheetId: data.file.id, userId: user.email }),
+        });
+        const sheet = await response.json().catch(() => ({}));
+        if (!response.ok || !sheet.csvContent) {
+          throw new Error(sheet.error || 'Could not read the spreadsheet');
+        }
+        input = {
+          source: 'sheets',
+          csv: sheet.csvContent,
+          name: data.file.name,
+          spreadsheetUrl: `https://docs.google.com/spreadsheets/d/${data.file.id}/edit`,
+        };
+      } else {
+        input = { source: 'csv', csv: data.csv || '', name: data.file.name };
+      }
+      
+      const imported = await importBot(input);
+      const created = await addSavedSolution(imported.solution);
+      if (!created) {
+        throw new Error('Could not save the imported solution - are you signed in?');
+      }
+      
+      // Record the imported CSV and scripts as the solution's first version
+      await updateSavedSolution(created.id, { csvContent: input.csv }, {
+        source: 'import',
+        note: `Imported from ${data.file.name}`,
+        scripts: imported.scripts,
+      });
+      
+      if (imported.missingScripts.length > 0) {
+        console.warn('[Welcome] Imported bot references scripts we could not find:', imported.missingScripts);
+      }
+      
+      setActiveSolution(created.id);
+      navigate(`/solutions/${created.id}`);
+    } catch (error: any) {
+      console.error('[Welcome] Bot import failed:', error);
+      setImportError(error.message || String(error));
+    } finally {
+      setIsAnalyzing(false);
+      setAnalyzingFile(null);
+      setLoading(false);
+    }
+  };
+  
+  const handleImportComplete = async (data: ImportData) => {
+    if (data.asBot) {
+      await handleBotImport(data);
+      return;
+    }
+    
     // Close the import modal
     setImportSource(null);
     
@@ -320,6 +413,50 @@ export function WelcomePage() {
       // Analyze the imported content
       const analysis = await analyzeImportedContent(data);
       
+      // Flows read from a Figma design go straight to the architecture page
+      if (analysis.architecture && analysis.architecture.plannedFlows.length > 0) {
+        const extracted: ExtractedDetails = {
+          clientName: analysis.clientName || '',
+          projectName: analysis.projectName || data.file.name,
+          projectType: analysis.projectType || 'custom',
+          botPurpose: analysis.description || '',
+          keyFeatures: analysis.importedRequirements?.sections || [],
+          targetCompany: analysis.clientName || '',
+          description: analysis.description || '',
+        };
+        setExtractedDetails(extracted);
+        setProjectConfig({
+          clientName: extracted.clientName,
+          projectName: extracted.projectName,
+          projectType: extracted.projectType,
+          description: extracted.description,
+          importedRequirements: analysis.importedRequirements,
+        });
+        
+        const created = await addSavedSolution({
+          name: extracted.projectName || 'Untitled Bot',
+          description: extracted.description,
+          clientName: extracted.clientName || 'CX',
+          projectType: extracted.projectType,
+          status: 'draft',
+          nodeCount: 0,
+          architectureState: {
+            plannedFlows: analysis.architecture.plannedFlows,
+            menuOptions: analysis.architecture.menuOptions,
+            nodePositions: {},
+            flowPreviews: analysis.architecture.flowPreviews,
+            hasGenerated: false,
+            extractedDetails: extracted,
+            targetCompany: extracted.targetCompany,
+          },
+        });
+        if (created) {
+          setActiveSolution(created.id);
+          navigate(`/solutions/${created.id}`);
+          return;
+        }
+      }
+      
       // Pre-fill the project config with extracted details
       setProjectConfig({
         clientName: analysis.clientName || '',
@@ -350,15 +487,18 @@ export function WelcomePage() {
   };
   
   // Analyze imported content from Figma or Sheets
-  const analyzeImportedContent = async (data: { source: string; file: { id: string; name: string; type: string } }) => {
+  const analyzeImportedContent = async (data: ImportData) => {
     const fileName = data.file.name;
     const fileKey = data.file.id; // For Figma, this is the file key
     
     if (data.source === 'figma') {
-      // Use the Figma analyzer service (which calls Supabase Edge Function)
+      // Read the design's frames (uploaded JSON or the Figma API), falling
+      // back to the Supabase Edge Function / file name analysis
       console.log('Analyzing Figma file:', fileKey, fileName);
       const figmaToken = credentials.figmaToken;
-      const analysis = await analyzeFigmaFile(fileKey, fileName, figmaToken);
+      const analysis = data.figmaJson
+        ? analyzeFigmaJSON(data.figmaJson, fileName)
+        : await analyzeFigmaFile(fileKey, fileName, figmaToken);
       
       return {
         clientName: analysis.clientName,
@@ -373,6 +513,7 @@ export function WelcomePage() {
           escalationTriggers: analysis.escalationTriggers,
           dataCollection: analysis.dataFields?.join(', '),
         },
+        architecture: analysis.architecture,
       };
     } else {
       // For Google Sheets, parse the spreadsheet content
@@ -461,6 +602,14 @@ export function WelcomePage() {
       {isAnalyzing && analyzingFile && (
         <AnalysisOverlay source={analyzingFile.source} fileName={analyzingFile.name} />
       )}
+      
+      {importError && createPortal(
+        <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-[200] flex items-center gap-3 px-4 py-3 rounded-xl bg-[#1a1a1f] border border-red-500/20 shadow-2xl max-w-md">
+          <p className="text-sm text-red-400">Import failed: {importError}</p>
+          <button onClick={() => setImportError(null)} className="text-xs text-[#6a6a75] hover:text-white">Dismiss</button>
+        </div>,
+        document.body
+      )}
     </>
   );
 }
@@ -14,4 +14,6 @@ export { SolutionArchitecturePage } from './SolutionArchitecturePage';
 export { ProcessingPage } from './ProcessingPage';
 export { ResultsPage } from './ResultsPage';
 export { EditorPage } from './EditorPage';
-export { LiveEditPage } from './LiveEditPage';
\ No newline at end of file
+export { LiveEditPage } from './LiveEditPage';
+export { ErrorLearningAdminPage } from './ErrorLearningAdminPage';
+export { FixQueuePage } from './FixQueuePage';
@@ -0,0 +1,381 @@
+/**
+ * Bot Diff
+ *
+ * Node-level diff between two bot CSVs (added / removed / modified nodes,
+ * field by field) and selective application of those changes, so a user can
+ * accept or reject each node change from a snapshot, an AI edit or a UX apply.
+ * Also a three-way merge of two edited copies of a bot against their common
+ * base, used by Google Sheets sync.
+ *
+ * Dependency-free apart from bot-document.
+ */
+
+import { BotDocument, fieldForHeader, type BotNodeFields } from './bot-document';
+
+// ============================================
+// NODE DIFF
+// ============================================
+
+export interface CSVNodeChange {
+  nodeNum: number;
+  changeType: 'added' | 'removed' | 'modified';
+  changedFields: string[];
+  before?: Record<string, string>;
+  after?: Record<string, string>;
+}
+
+export interface CSVDiffResult {
+  changes: CSVNodeChange[];
+  summary: string;
+  addedNodes: number[];
+  removedNodes: number[];
+  modifiedNodes: number[];
+}
+
+/**
+ * Parse CSV into a map of nodes keyed by node number
+ */
+function parseCSVToNodeMap(csv: string): Map<number, Record<string, string>> {
+  const doc = BotDocument.parse(csv);
+  const nodeMap = new Map<number, Record<string, string>>();
+  
+  for (const nodeNum of doc.nodeNumbers) {
+    nodeMap.set(nodeNum, doc.getLabeledNode(nodeNum)!);
+  }
+  
+  return nodeMap;
+}
+
+/**
+ * Compare two CSVs and return the differences
+ */
+export function diffCSV(beforeCSV: string, afterCSV: string): CSVDiffResult {
+  const beforeNodes = parseCSVToNodeMap(beforeCSV);
+  const afterNodes = parseCSVToNodeMap(afterCSV);
+  
+  const changes: CSVNodeChange[] = [];
+  const addedNodes: number[] = [];
+  const removedNodes: number[] = [];
+  const modifiedNodes: number[] = [];
+  
+  // Find added and modified nodes
+  for (const [nodeNum, afterNode] of afterNodes) {
+    const beforeNode = beforeNodes.get(nodeNum);
+    
+    if (!beforeNode) {
+      // Node was added
+      addedNodes.push(nodeNum);
+      changes.push({
+        nodeNum,
+        changeType: 'added',
+        changedFields: Object.keys(afterNode).filter(k => afterNode[k]),
+        after: afterNode,
+      });
+    } else {
+      // Check for modifications
+      const changedFields: string[] = [];
+      for (const field of Object.keys(afterNode)) {
+        if (beforeNode[field] !== afterNode[field]) {
+          changedFields.push(field);
+        }
+      }
+      
+      if (changedFields.length > 0) {
+        modifiedNodes.push(nodeNum);
+        changes.push({
+          nodeNum,
+          changeType: 'modified',
+          changedFields,
+          before: beforeNode,
+          after: afterNode,
+        });
+      }
+    }
+  }
+  
+  // Find removed nodes
+  for (const nodeNum of beforeNodes.keys()) {
+    if (!afterNodes.has(nodeNum)) {
+      const beforeNode = beforeNodes.get(nodeNum)!;
+      removedNodes.push(nodeNum);
+      changes.push({
+        nodeNum,
+        changeType: 'removed',
+        changedFields: Object.keys(beforeNode).filter(k => beforeNode[k]),
+        before: beforeNode,
+      });
+    }
+  }
+  
+  // Generate summary
+  const summaryParts: string[] = [];
+  if (addedNodes.length > 0) {
+    summaryParts.push(`Added ${addedNodes.length} node(s): ${addedNodes.join(', ')}`);
+  }
+  if (removedNodes.length > 0) {
+    summaryParts.push(`Removed ${removedNodes.length} node(s): ${removedNodes.join(', ')}`);
+  }
+  if (modifiedNodes.length > 0) {
+    summaryParts.push(`Modified ${modifiedNodes.length} node(s): ${modifiedNodes.join(', ')}`);
+  }
+  
+  return {
+    changes,
+    summary: summaryParts.join('; ') || 'No changes detected',
+    addedNodes,
+    removedNodes,
+    modifiedNodes,
+  };
+}
+
+/**
+ * Generate a human-readable description of changes for a specific node
+ */
+export function describeNodeChanges(change: CSVNodeChange): string {
+  if (change.changeType === 'added') {
+    return `Added node ${change.nodeNum}`;
+  }
+  
+  if (change.changeType === 'removed') {
+    return `Removed node ${change.nodeNum}`;
+  }
+  
+  // Modified
+  const fieldChanges = change.changedFields.map(field => {
+    const before = change.before?.[field] || '(empty)';
+    const after = change.after?.[field] || '(empty)';
+    
+    // Truncate long values
+    const truncate = (s: string, max = 50) => 
+      s.length > max ? s.substring(0, max) + '...' : s;
+    
+    return `${field}: "${truncate(before)}" → "${truncate(after)}"`;
+  });
+  
+  return `Modified node ${change.nodeNum}: ${fieldChanges.join(', ')}`;
+}
+
+// ============================================
+// APPLYING CHANGES
+// ============================================
+
+/**
+ * Apply only the accepted node changes from afterCSV onto beforeCSV.
+ * Rows that aren't touched keep their exact text; added nodes are placed
+ * after the node that precedes them in afterCSV.
+ */
+export function applyNodeChanges(beforeCSV: string, afterCSV: string, acceptedNodes: Iterable<number>): string {
+  const doc = BotDocument.parse(beforeCSV);
+  const target = BotDocument.parse(afterCSV);
+  const accepted = new Set(acceptedNodes);
+
+  // Added and modified nodes, in the order they appear in afterCSV
+  let previous: number | undefined;
+  for (const afterNode of target.nodes) {
+    const { nodeNum, rowNum: _rowNum, ...fields } = afterNode;
+    if (accepted.has(nodeNum)) {
+      if (doc.hasNode(nodeNum)) {
+        doc.updateNode(nodeNum, fields);
+      } else {
+        doc.addNode(fields, previous !== undefined && doc.hasNode(previous) ? { after: previous } : {});
+      }
+    }
+    if (doc.hasNode(nodeNum)) previous = nodeNum;
+  }
+
+  // Removed nodes
+  for (const nodeNum of accepted) {
+    if (!target.hasNode(nodeNum)) doc.removeNode(nodeNum);
+  }
+
+  return doc.toCSV();
+}
+
+/**
+ * afterCSV with the nodes it removed put back in their original position.
+ * Used to draw a diff on the canvas, where removed nodes still need a place.
+ */
+export function mergeRemovedNodes(beforeCSV: string, afterCSV: string): string {
+  const before = BotDocument.parse(beforeCSV);
+  const merged = BotDocument.parse(afterCSV);
+
+  let previous: number | undefined;
+  for (const node of before.nodes) {
+    if (!merged.hasNode(node.nodeNum)) {
+      const { nodeNum: _nodeNum, rowNum: _rowNum, ...fields } = node;
+      merged.addNode(fields, previous !== undefined ? { after: previous } : {});
+    }
+    previous = node.nodeNum;
+  }
+
+  return merged.toCSV();
+}
+
+// ============================================
+// THREE-WAY MERGE
+// ============================================
+
+export type MergeSide = 'local' | 'remote';
+
+/**
+ * A node both sides changed in ways that can't be combined
+ */
+export interface CSVMergeConflict {
+  nodeNum: number;
+  // 'modified': both edited the same field(s) differently (or both added the node)
+  // 'deleted-locally' / 'deleted-remotely': one side removed a node the other edited
+  kind: 'modified' | 'deleted-locally' | 'deleted-remotely';
+  // Conflicting fields (every field of the surviving node for deletions)
+  fields: string[];
+  base?: Record<string, string>;
+  local?: Record<string, string>;
+  remote?: Record<string, string>;
+  // Both sides' non-conflicting edits combined, conflicting fields as local
+  merged?: Record<string, string>;
+}
+
+export interface CSVMergeResult {
+  // Merged CSV with every conflict resolved to the local side
+  csv: string;
+  conflicts: CSVMergeConflict[];
+  // Nodes taken from each side without conflict
+  localChanges: number[];
+  remoteChanges: number[];
+}
+
+function sameNode(a?: Record<string, string>, b?: Record<string, string>): boolean {
+  if (!a || !b) return a === b;
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+  for (const key of keys) {
+    if ((a[key] || '') !== (b[key] || '')) return false;
+  }
+  return true;
+}
+
+/**
+ * Labeled node values as node fields, for writing into a BotDocument
+ */
+function toNodeFields(labeled: Record<string, string>): Partial<BotNodeFields> {
+  const fields: Partial<BotNodeFields> = {};
+  for (const [label, value] of Object.entries(labeled)) {
+    const field = fieldForHeader(label);
+    if (field) fields[field] = value;
+  }
+  return fields;
+}
+
+/**
+ * Put a node's values into the document, adding it after `after` if missing
+ */
+function writeNode(doc: BotDocument, nodeNum: number, labeled: Record<string, string>, after?: number): void {
+  const fields = toNodeFields(labeled);
+  if (doc.hasNode(nodeNum)) {
+    doc.updateNode(nodeNum, fields);
+  } else {
+    doc.addNode(fields, after !== undefined && doc.hasNode(after) ? { after } : {});
+  }
+}
+
+/**
+ * Merge local and remote edits of the same bot against their common base.
+ *
+ * Nodes only one side changed take that side's version; nodes both changed
+ * are merged field by field. Whatever is left - the same field edited
+ * differently, or an edit on one side and a removal on the other - is a
+ * conflict. Node order follows the local CSV; nodes only remote added are
+ * placed after the node that precedes them remotely.
+ */
+export function mergeCSV(baseCSV: string, localCSV: string, remoteCSV: string): CSVMergeResult {
+  const base = parseCSVToNodeMap(baseCSV);
+  const local = parseCSVToNodeMap(localCSV);
+  const remote = parseCSVToNodeMap(remoteCSV);
+  const remoteOrder = [...remote.keys()];
+  
+  const doc = BotDocument.parse(localCSV);
+  const conflicts: CSVMergeConflict[] = [];
+  const localChanges: number[] = [];
+  const remoteChanges: number[] = [];
+  
+  // Local nodes in order, then nodes only remote has (nodes both removed need nothing)
+  const nodeNums = [...local.keys(), ...remoteOrder.filter(n => !local.has(n))];
+  for (const nodeNum of nodeNums) {
+    const b = base.get(nodeNum);
+    const l = local.get(nodeNum);
+    const r = remote.get(nodeNum);
+    
+    if (sameNode(l, r)) continue;
+    if (sameNode(l, b)) {
+      // Only remote changed this node
+      remoteChanges.push(nodeNum);
+      if (!r) doc.removeNode(nodeNum);
+      else writeNode(doc, nodeNum, r, remoteOrder[remoteOrder.indexOf(nodeNum) - 1]);
+      continue;
+    }
+    if (sameNode(r, b)) {
+      // Only local changed this node - already in the document
+      localChanges.push(nodeNum);
+      continue;
+    }
+    
+    // Both changed it
+    if (!l || !r) {
+      const survivor = (l || r)!;
+      conflicts.push({
+        nodeNum,
+        kind: l ? 'deleted-remotely' : 'deleted-locally',
+        fields: Object.keys(survivor).filter(k => survivor[k] !== (b?.[k] || '')),
+        base: b,
+        local: l,
+        remote: r,
+      });
+      continue;
+    }
+    
+    const merged: Record<string, string> = { ...l };
+    const conflictingFields: string[] = [];
+    for (const field of new Set([...Object.keys(l), ...Object.keys(r)])) {
+      const baseValue = b?.[field] || '';
+      const localValue = l[field] || '';
+      const remoteValue = r[field] || '';
+      if (localValue === remoteValue || remoteValue === baseValue) continue;
+      if (localValue === baseValue) merged[field] = remoteValue;
+      else conflictingFields.push(field);
+    }
+    
+    writeNode(doc, nodeNum, merged);
+    if (conflictingFields.length > 0) {
+      conflicts.push({ nodeNum, kind: 'modified', fields: conflictingFields, base: b, local: l, remote: r, merged });
+    } else {
+      localChanges.push(nodeNum);
+      remoteChanges.push(nodeNum);
+    }
+  }
+  
+  return { csv: doc.toCSV(), conflicts, localChanges, remoteChanges };
+}
+
+/**
+ * Final CSV of a merge once the user has picked a side for each conflict
+ * (conflicts without a choice keep the local side)
+ */
+export function resolveMergeConflicts(merge: CSVMergeResult, choices: Record<number, MergeSide>): string {
+  const doc = BotDocument.parse(merge.csv);
+  
+  for (const conflict of merge.conflicts) {
+    if (choices[conflict.nodeNum] !== 'remote') continue;
+    const { nodeNum, remote } = conflict;
+    
+    if (!remote) {
+      doc.removeNode(nodeNum);
+    } else if (conflict.kind === 'modified') {
+      writeNode(doc, nodeNum, {
+        ...conflict.merged,
+        ...Object.fromEntries(conflict.fields.map(field => [field, remote[field] || ''])),
+      });
+    } else {
+      writeNode(doc, nodeNum, remote);
+    }
+  }
+  
+  return doc.toCSV();
+}
@@ -0,0 +1,410 @@
+/**
+ * Bot Document
+ *
+ * One typed model for a Pypestream bot CSV, shared by services and pages.
+ * Parses into nodes with all 26 named fields (multi-line quoted fields included),
+ * mutates through methods, and serializes back byte-stable: rows that were not
+ * touched are written exactly as they were read.
+ *
+ * Also exports the low-level CSV primitives (parseCSVLine, parseCSVRecords,
+ * serializeCSVFields) for repair code that has to work on malformed rows.
+ *
+ * Dependency-free apart from node-schema, so scripts and vite.config.ts can use it.
+ */
+
+import { BOT_NODE_FIELDS, escapeCSVField, nodeToCSVFields, type BotNodeField } from './node-schema';
+
+/**
+ * A parsed node: every CSV column by field name (raw, untrimmed values)
+ */
+export type BotNodeFields = Record<BotNodeField, string>;
+
+export interface BotNode extends BotNodeFields {
+  // Parsed Node Number
+  nodeNum: number;
+  // Spreadsheet row (header is row 1)
+  rowNum: number;
+}
+
+interface DocumentRow {
+  fields: string[];
+  // Original text (without line terminator); null once the row is modified
+  raw: string | null;
+  // Line terminator that followed this row ('' for the last row without one)
+  eol: string;
+}
+
+export interface RenumberOptions {
+  // Rewrite Next Nodes, What Next? and button destinations that point at the old number
+  updateReferences?: boolean;
+}
+
+// ============================================
+// CSV PRIMITIVES
+// ============================================
+
+/**
+ * Parse a single CSV line respecting quoted fields and "" escapes
+ */
+export function parseCSVLine(line: string, options: { trim?: boolean } = {}): string[] {
+  if (!line || typeof line !== 'string') return [];
+
+  const result: string[] = [];
+  let current = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"') {
+      if (inQuotes && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else {
+        inQuotes = !inQuotes;
+      }
+    } else if (char === ',' && !inQuotes) {
+      result.push(options.trim ? current.trim() : current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  result.push(options.trim ? current.trim() : current);
+
+  return result;
+}
+
+/**
+ * Split CSV text into records, keeping newlines inside quoted fields.
+ * Each record carries its original text and line terminator.
+ */
+export function splitCSVRecords(csv: string): { raw: string; eol: string }[] {
+  const records: { raw: string; eol: string }[] = [];
+  let start = 0;
+  let inQuotes = false;
+
+  for (let i = 0; i < csv.length; i++) {
+    const char = csv[i];
+    if (char === '"') {
+      // A doubled quote toggles twice, leaving the state unchanged
+      inQuotes = !inQuotes;
+    } else if ((char === '\n' || char === '\r') && !inQuotes) {
+      const eol = char === '\r' && csv[i + 1] === '\n' ? '\r\n' : char;
+      records.push({ raw: csv.substring(start, i), eol });
+      i += eol.length - 1;
+      start = i + 1;
+    }
+  }
+
+  if (start < csv.length) {
+    records.push({ raw: csv.substring(start), eol: '' });
+  }
+
+  return records;
+}
+
+/**
+ * Parse CSV text into field arrays (blank lines skipped, multi-line fields kept)
+ */
+export function parseCSVRecords(csv: string): string[][] {
+  return splitCSVRecords(csv)
+    .filter(r => r.raw.trim())
+    .map(r => parseCSVLine(r.raw));
+}
+
+/**
+ * Join field values into a CSV line, quoting only where needed
+ */
+export function serializeCSVFields(fields: string[]): string {
+  return fields.map(escapeCSVField).join(',');
+}
+
+/**
+ * Map a header label (e.g. "Rich Asset Content") to its node field name
+ */
+export function fieldForHeader(header: string): BotNodeField | undefined {
+  const wanted = header.trim().toLowerCase();
+  return BOT_NODE_FIELDS.find(f => f.header.toLowerCase() === wanted)?.key;
+}
+
+// Column index of each field in the standard 26-column layout
+const FIELD_INDEX = new Map<BotNodeField, number>(BOT_NODE_FIELDS.map((f, idx) => [f.key, idx]));
+
+// ============================================
+// BOT DOCUMENT
+// ============================================
+
+export class BotDocument {
+  private headerRow: DocumentRow;
+  private rows: DocumentRow[];
+  private defaultEol: string;
+
+  private constructor(headerRow: DocumentRow, rows: DocumentRow[], defaultEol: string) {
+    this.headerRow = headerRow;
+    this.rows = rows;
+    this.defaultEol = defaultEol;
+  }
+
+  /**
+   * Parse CSV text. Never throws - malformed rows are kept verbatim.
+   */
+  static parse(csv: string): BotDocument {
+    const records = splitCSVRecords(csv || '');
+    const defaultEol = records.find(r => r.eol)?.eol || '\n';
+    const toRow = (r: { raw: string; eol: string }): DocumentRow => ({ fields: parseCSVLine(r.raw), raw: r.raw, eol: r.eol });
+
+    const headerRow = records.length > 0 ? toRow(records[0]) : { fields: [], raw: '', eol: '' };
+    return new BotDocument(headerRow, records.slice(1).map(toRow), defaultEol);
+  }
+
+  /**
+   * Header labels as read
+   */
+  get header(): string[] {
+    return [...this.headerRow.fields];
+  }
+
+  /**
+   * All rows with a valid Node Number, in file order
+   */
+  get nodes(): BotNode[] {
+    const nodes: BotNode[] = [];
+    this.rows.forEach((row, idx) => {
+      const node = this.toNode(row, idx);
+      if (node) nodes.push(node);
+    });
+    return nodes;
+  }
+
+  get nodeNumbers(): number[] {
+    return this.nodes.map(n => n.nodeNum);
+  }
+
+  getNode(nodeNum: number): BotNode | undefined {
+    const idx = this.findRowIndex(nodeNum);
+    return idx === -1 ? undefined : this.toNode(this.rows[idx], idx) || undefined;
+  }
+
+  hasNode(nodeNum: number): boolean {
+    return this.findRowIndex(nodeNum) !== -1;
+  }
+
+  /**
+   * A node's values keyed by header label, e.g. { "Node Name": "Start" } (trimmed)
+   */
+  getLabeledNode(nodeNum: number): Record<string, string> | undefined {
+    const idx = this.findRowIndex(nodeNum);
+    return idx === -1 ? undefined : this.labelFields(this.rows[idx].fields);
+  }
+
+  /**
+   * The Nth data record keyed by header label (1-based, header excluded).
+   * Bot Manager validation errors report rows this way.
+   */
+  getLabeledRecord(index: number): Record<string, string> | undefined {
+    const row = this.rows[index - 1];
+    return row ? this.labelFields(row.fields) : undefined;
+  }
+
+  /**
+   * CSV text of the Nth data record (1-based, header excluded)
+   */
+  getRecordText(index: number): string | undefined {
+    const row = this.rows[index - 1];
+    if (!row) return undefined;
+    return row.raw !== null ? row.raw : serializeCSVFields(row.fields);
+  }
+
+  /**
+   * Set one field on a node. Returns false when the node does not exist.
+   */
+  setField(nodeNum: number, field: BotNodeField, value: string): boolean {
+    const idx = this.findRowIndex(nodeNum);
+    if (idx === -1) return false;
+
+    const row = this.rows[idx];
+    const col = this.columnFor(field);
+    if (col === -1) return false;
+
+    while (row.fields.length <= col) row.fields.push('');
+    if (row.fields[col] === value) return true;
+
+    row.fields[col] = value;
+    row.raw = null;
+    return true;
+  }
+
+  /**
+   * Set several fields on a node at once
+   */
+  updateNode(nodeNum: number, changes: Partial<BotNodeFields>): boolean {
+    if (!this.hasNode(nodeNum)) return false;
+    for (const [field, value] of Object.entries(changes)) {
+      if (value !== undefined) this.setField(nodeNum, field as BotNodeField, value);
+    }
+    return true;
+  }
+
+  /**
+   * Insert a node. Placed after `after` when given, otherwise appended.
+   * Throws if the node number is already used.
+   */
+  addNode(node: Partial<Record<BotNodeField, unknown>>, options: { after?: number } = {}): BotNode {
+    const nodeNum = parseInt(String(node.num ?? ''), 10);
+    if (isNaN(nodeNum)) {
+      throw new Error(`Cannot add node without a numeric Node Number (got "${node.num}")`);
+    }
+    if (this.hasNode(nodeNum)) {
+      throw new Error(`Node ${nodeNum} already exists`);
+    }
+
+    const row: DocumentRow = { fields: this.fieldsForHeader(nodeToCSVFields(node)), raw: null, eol: this.defaultEol };
+    const afterIdx = options.after !== undefined ? this.findRowIndex(options.after) : -1;
+    const insertAt = afterIdx === -1 ? this.rows.length : afterIdx + 1;
+
+    // The new row gets a terminator unless it becomes the (unterminated) last row
+    const previous = insertAt > 0 ? this.rows[insertAt - 1] : this.headerRow;
+    if (insertAt === this.rows.length) {
+      row.eol = previous.eol;
+      previous.eol = this.defaultEol;
+    }
+
+    this.rows.splice(insertAt, 0, row);
+    return this.toNode(row, insertAt)!;
+  }
+
+  /**
+   * Remove a node. Returns false when the node does not exist.
+   */
+  removeNode(nodeNum: number): boolean {
+    const idx = this.findRowIndex(nodeNum);
+    if (idx === -1) return false;
+
+    const [removed] = this.rows.splice(idx, 1);
+    // Keep the file's trailing-newline state when the last row is removed
+    if (idx === this.rows.length) {
+      const previous = idx > 0 ? this.rows[idx - 1] : this.headerRow;
+      previous.eol = removed.eol;
+    }
+    return true;
+  }
+
+  /**
+   * Text of rows whose Node Number is set but not an integer - usually the
+   * tail of a message that was broken across rows
+   */
+  invalidRows(): string[] {
+    return this.rows.filter(isInvalidRow).map(row => row.raw !== null ? row.raw : serializeCSVFields(row.fields));
+  }
+
+  /**
+   * Remove the rows invalidRows() reports. Returns their text.
+   */
+  removeInvalidRows(): string[] {
+    const removed = this.invalidRows();
+    if (removed.length === 0) return removed;
+
+    const lastEol = this.rows[this.rows.length - 1].eol;
+    this.rows = this.rows.filter(row => !isInvalidRow(row));
+    // Keep the file's trailing-newline state when the last row goes
+    const last = this.rows.length > 0 ? this.rows[this.rows.length - 1] : this.headerRow;
+    last.eol = lastEol;
+    return removed;
+  }
+
+  /**
+   * Change a node's number, by default rewriting every reference to it
+   */
+  renumber(oldNum: number, newNum: number, options: RenumberOptions = {}): boolean {
+    if (oldNum === newNum) return this.hasNode(oldNum);
+    if (!this.hasNode(oldNum)) return false;
+    if (this.hasNode(newNum)) {
+      throw new Error(`Cannot renumber node ${oldNum} to ${newNum}: node ${newNum} already exists`);
+    }
+
+    this.setField(oldNum, 'num', String(newNum));
+
+    if (options.updateReferences !== false) {
+      for (const node of this.nodes) {
+        const changes: Partial<BotNodeFields> = {};
+
+        const nextNodes = replaceNodeRefs(node.nextNodes, /(^|[,|\s])(-?\d+)(?=$|[,|\s])/g, oldNum, newNum);
+        if (nextNodes !== node.nextNodes) changes.nextNodes = nextNodes;
+
+        const whatNext = replaceNodeRefs(node.whatNext, /(~)(-?\d+)(?=$|[|\s])/g, oldNum, newNum);
+        if (whatNext !== node.whatNext) changes.whatNext = whatNext;
+
+        let richContent = replaceNodeRefs(node.richContent, /("dest"\s*:\s*"?)(-?\d+)(?=\D)/g, oldNum, newNum);
+        richContent = replaceNodeRefs(richContent, /(~)(-?\d+)(?=$|[|\n\r\s])/g, oldNum, newNum);
+        if (richContent !== node.richContent) changes.richContent = richContent;
+
+        if (Object.keys(changes).length > 0) this.updateNode(node.nodeNum, changes);
+      }
+    }
+
+    return true;
+  }
+
+  /**
+   * Serialize back to CSV. Untouched rows are emitted exactly as parsed.
+   */
+  toCSV(): string {
+    const rowText = (row: DocumentRow) => (row.raw !== null ? row.raw : serializeCSVFields(row.fields)) + row.eol;
+    return rowText(this.headerRow) + this.rows.map(rowText).join('');
+  }
+
+  // ---- internals ----
+
+  private findRowIndex(nodeNum: number): number {
+    return this.rows.findIndex(row => parseInt(row.fields[0], 10) === nodeNum);
+  }
+
+  private toNode(row: DocumentRow, idx: number): BotNode | null {
+    const nodeNum = parseInt(row.fields[0], 10);
+    if (isNaN(nodeNum)) return null;
+
+    const node = { nodeNum, rowNum: idx + 2 } as BotNode;
+    for (const { key } of BOT_NODE_FIELDS) {
+      const col = this.columnFor(key);
+      node[key] = col !== -1 ? row.fields[col] ?? '' : '';
+    }
+    return node;
+  }
+
+  private labelFields(fields: string[]): Record<string, string> {
+    const labeled: Record<string, string> = {};
+    this.headerRow.fields.forEach((header, idx) => {
+      labeled[header.trim()] = (fields[idx] ?? '').trim();
+    });
+    return labeled;
+  }
+
+  // Column for a field: by header label when present, otherwise the standard position
+  private columnFor(field: BotNodeField): number {
+    const header = BOT_NODE_FIELDS[FIELD_INDEX.get(field)!].header.toLowerCase();
+    const byHeader = this.headerRow.fields.findIndex(h => h.trim().toLowerCase() === header);
+    return byHeader !== -1 ? byHeader : FIELD_INDEX.get(field)!;
+  }
+
+  // Reorder standard-layout fields to match this document's header
+  private fieldsForHeader(standardFields: string[]): string[] {
+    const width = Math.max(this.headerRow.fields.length, BOT_NODE_FIELDS.length);
+    const fields = new Array<string>(width).fill('');
+    BOT_NODE_FIELDS.forEach(({ key }, idx) => {
+      fields[this.columnFor(key)] = standardFields[idx];
+    });
+    return fields;
+  }
+}
+
+function isInvalidRow(row: DocumentRow): boolean {
+  const first = (row.fields[0] || '').trim();
+  return first.length > 0 && isNaN(parseInt(first, 10));
+}
+
+function replaceNodeRefs(value: string, pattern: RegExp, oldNum: number, newNum: number): string {
+  if (!value) return value;
+  return value.replace(pattern, (match, prefix: string, num: string) =>
+    parseInt(num, 10) === oldNum ? `${prefix}${newNum}` : match
+  );
+}
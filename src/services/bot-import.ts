@@ -0,0 +1,389 @@
+/**
+ * Bot Import
+ *
+ * Turns an existing Pypestream bot CSV - uploaded, read from a Google Sheet or
+ * exported from Bot Manager - into an editable SavedSolution. Flows are
+ * reconstructed for the Solution Architecture page from the main menu's
+ * destinations, or from node numbering when the bot has no recognisable menu,
+ * and the action scripts the CSV references are pulled in.
+ */
+
+import type { ArchitectureState, CustomScript, SavedSolution } from '../types';
+import { BotDocument } from './bot-document';
+import { getNodeEdges } from './graph-analyzer';
+import { fetchScripts } from './action-scripts-api';
+import { getBundledScript } from '../data/startup-scripts';
+import { spreadsheetIdFromUrl } from './sheets-sync';
+
+export type BotImportSource = 'csv' | 'sheets' | 'botmanager';
+
+export interface ImportedFlow {
+  name: string;
+  label: string;
+  description: string;
+  startNode: number;
+  // Legacy bots don't number flows in ranges, so membership is explicit
+  nodeNumbers: number[];
+}
+
+export interface ReconstructedFlows {
+  flows: ImportedFlow[];
+  menuOptions: { label: string; description?: string; flowName?: string }[];
+  // Startup and system nodes that belong to no flow
+  sharedNodes: number[];
+  // 'menu' when flows hang off a main menu, 'numbering' when grouped by node number
+  method: 'menu' | 'numbering';
+}
+
+export interface BotImportInput {
+  source: BotImportSource;
+  csv: string;
+  name: string;
+  botId?: string;
+  versionId?: string;
+  spreadsheetUrl?: string;
+  // Scripts that came with the bot (Bot Manager export)
+  scripts?: CustomScript[];
+}
+
+export interface BotImportResult {
+  solution: Omit<SavedSolution, 'id' | 'createdAt' | 'updatedAt'>;
+  flows: ReconstructedFlows;
+  scripts: CustomScript[];
+  // Referenced scripts found nowhere - they must be added before redeploying
+  missingScripts: string[];
+}
+
+const SOURCE_LABELS: Record<BotImportSource, string> = {
+  csv: 'a bot CSV file',
+  sheets: 'Google Sheets',
+  botmanager: 'Bot Manager',
+};
+
+// Groups smaller than this are folded into the group they route to most
+const MIN_NUMBERED_FLOW_NODES = 3;
+
+// ============================================
+// FLOW RECONSTRUCTION
+// ============================================
+
+/**
+ * End chat, live agent, error handling - every flow routes here
+ */
+function isSharedNode(nodeNum: number): boolean {
+  return nodeNum < 0 || nodeNum >= 99990 || nodeNum === 666 || nodeNum === 999;
+}
+
+/**
+ * Human label from a node name or button label:
+ * "<<fas fa-car>> Report a claim" -> "Report a claim",
+ * "Ask for Case Number → CASE_NUMBER" -> "Ask for Case Number"
+ */
+function cleanLabel(text: string): string {
+  return text
+    .replace(/<<[^>]*>>/g, '')
+    .split('→')[0]
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function toFlowName(label: string, taken: Set<string>): string {
+  const base = label.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '').slice(0, 40) || 'flow';
+  let name = base;
+  for (let i = 2; taken.has(name); i++) name = `${base}_${i}`;
+  taken.add(name);
+  return name;
+}
+
+/**
+ * Every node reachable from start without entering a node where stop() holds
+ */
+function collectReachable(
+  start: number,
+  adjacency: Map<number, number[]>,
+  stop: (nodeNum: number) => boolean
+): Set<number> {
+  const seen = new Set<number>([start]);
+  const queue = [start];
+  while (queue.length > 0) {
+    for (const next of adjacency.get(queue.shift()!) || []) {
+      if (seen.has(next) || stop(next)) continue;
+      seen.add(next);
+      queue.push(next);
+    }
+  }
+  return seen;
+}
+
+/**
+ * Numbering parent of a legacy node: the longest other node number (100 or
+ * more) it extends, e.g. 58501 -> 5850, 101010 -> 10101 or 101
+ */
+function numberingRoot(nodeNum: number, numbers: Set<number>): number {
+  let root = nodeNum;
+  for (;;) {
+    const digits = String(root);
+    let parent: number | null = null;
+    for (let length = digits.length - 1; length >= 3 && parent === null; length--) {
+      const candidate = Number(digits.slice(0, length));
+      if (numbers.has(candidate)) parent = candidate;
+    }
+    if (parent === null) return root;
+    root = parent;
+  }
+}
+
+/**
+ * Rebuild the flows of an existing bot.
+ *
+ * With a main menu ("Main Menu" node, or node 200 as generated here), each
+ * menu destination starts a flow that owns every node it reaches before
+ * hitting another flow, the menu, startup or a system node. Without one,
+ * nodes are grouped by their number's 100-block, following legacy child
+ * numbering (5850 -> 58501) so sub-steps stay with their parent.
+ */
+export function reconstructFlows(csv: string): ReconstructedFlows {
+  const nodes = new Map(BotDocument.parse(csv).nodes.map(node => [node.nodeNum, node]));
+  const adjacency = new Map<number, number[]>();
+  for (const node of nodes.values()) {
+    adjacency.set(node.nodeNum, [...new Set(getNodeEdges(node).map(e => e.to))].filter(to => nodes.has(to)));
+  }
+
+  const numbers = [...nodes.keys()].sort((a, b) => a - b);
+  const firstNode = nodes.has(1) ? 1 : numbers.find(n => !isSharedNode(n));
+  const taken = new Set<string>();
+
+  // Main menu: the menu-named decision node with the most flow destinations
+  const menuCandidates = [...nodes.values()]
+    .filter(node => node.type.trim() === 'D' && (/main\s*menu/i.test(node.name) || (node.nodeNum === 200 && /menu/i.test(node.name))))
+    .map(node => ({ node, destinations: getNodeEdges(node).filter(e => nodes.has(e.to) && !isSharedNode(e.to)) }))
+    .filter(candidate => new Set(candidate.destinations.map(e => e.to)).size >= 2)
+    .sort((a, b) => b.destinations.length - a.destinations.length);
+  const menu = menuCandidates[0];
+
+  if (menu) {
+    const menuNum = menu.node.nodeNum;
+    const startup = firstNode !== undefined && firstNode !== menuNum
+      ? collectReachable(firstNode, adjacency, n => n === menuNum || isSharedNode(n))
+      : new Set<number>();
+    startup.add(menuNum);
+
+    const entries = new Map<number, string>();
+    for (const edge of menu.destinations) {
+      if (!startup.has(edge.to) && !entries.has(edge.to)) {
+        entries.set(edge.to, cleanLabel(edge.label || '') || cleanLabel(nodes.get(edge.to)!.name));
+      }
+    }
+
+    const claimed = new Set<number>();
+    const flows: ImportedFlow[] = [];
+    for (const [entry, label] of entries) {
+      if (claimed.has(entry)) continue;
+      const members = collectReachable(entry, adjacency, n =>
+        isSharedNode(n) || startup.has(n) || claimed.has(n) || (n !== entry && entries.has(n))
+      );
+      members.forEach(n => claimed.add(n));
+      flows.push({
+        name: toFlowName(label, taken),
+        label,
+        description: '',
+        startNode: entry,
+        nodeNumbers: [...members].sort((a, b) => a - b),
+      });
+    }
+
+    // Nodes only reachable some other way go to the flow numbered just below them
+    const byStart = [...flows].sort((a, b) => a.startNode - b.startNode);
+    for (const num of numbers) {
+      if (claimed.has(num) || startup.has(num) || isSharedNode(num) || byStart.length === 0) continue;
+      const owner = [...byStart].reverse().find(flow => flow.startNode <= num) || byStart[0];
+      owner.nodeNumbers.push(num);
+    }
+
+    for (const flow of flows) {
+      flow.nodeNumbers.sort((a, b) => a - b);
+      flow.description = `Imported flow: ${flow.nodeNumbers.length} nodes from node ${flow.startNode}`;
+    }
+
+    return {
+      flows,
+      menuOptions: flows.map(flow => ({ label: flow.label, flowName: flow.name })),
+      sharedNodes: numbers.filter(n => startup.has(n) || isSharedNode(n)),
+      method: 'menu',
+    };
+  }
+
+  // No menu - group by numbering
+  const numberSet = new Set(numbers);
+  const groups = new Map<number, number[]>();
+  for (const num of numbers) {
+    if (isSharedNode(num)) continue;
+    const block = Math.floor(numberingRoot(num, numberSet) / 100);
+    if (!groups.has(block)) groups.set(block, []);
+    groups.get(block)!.push(num);
+  }
+
+  const groupOf = new Map<number, number>();
+  groups.forEach((members, block) => members.forEach(n => groupOf.set(n, block)));
+
+  // Fold small groups into the neighbouring group they share the most edges with
+  for (const [block, members] of [...groups].sort((a, b) => a[1].length - b[1].length)) {
+    if (members.length >= MIN_NUMBERED_FLOW_NODES || groups.size === 1) continue;
+    const links = new Map<number, number>();
+    for (const num of members) {
+      for (const next of adjacency.get(num) || []) {
+        const other = groupOf.get(next);
+        if (other !== undefined && other !== block) links.set(other, (links.get(other) || 0) + 1);
+      }
+    }
+    for (const [from, targets] of adjacency) {
+      const other = groupOf.get(from);
+      if (other === undefined || other === block) continue;
+      const count = targets.filter(n => groupOf.get(n) === block).length;
+      if (count > 0) links.set(other, (links.get(other) || 0) + count);
+    }
+    const target = [...links].sort((a, b) => b[1] - a[1])[0]?.[0];
+    if (target === undefined) continue;
+    groups.get(target)!.push(...members);
+    members.forEach(n => groupOf.set(n, target));
+    groups.delete(block);
+  }
+
+  // The group holding the first node is the bot's startup, not a flow
+  const startupBlock = firstNode !== undefined ? groupOf.get(firstNode) : undefined;
+  const incoming = new Map<number, number>();
+  for (const [from, targets] of adjacency) {
+    for (const to of targets) {
+      if (groupOf.get(from) !== groupOf.get(to)) incoming.set(to, (incoming.get(to) || 0) + 1);
+    }
+  }
+
+  const flows: ImportedFlow[] = [];
+  for (const [block, members] of [...groups].sort((a, b) => Math.min(...a[1]) - Math.min(...b[1]))) {
+    if (block === startupBlock) continue;
+    members.sort((a, b) => a - b);
+    // Entry: the node most routed to from elsewhere, else the lowest number
+    const startNode = members.reduce((best, n) => (incoming.get(n) || 0) > (incoming.get(best) || 0) ? n : best, members[0]);
+    // Action names ("VarCheck") say little; name the flow after its first message then
+    const labelNode = [startNode, ...members].map(n => nodes.get(n)!).find(node => node.type.trim() === 'D');
+    const label = cleanLabel((labelNode || nodes.get(startNode)!).name) || `Flow ${startNode}`;
+    flows.push({
+      name: toFlowName(label, taken),
+      label,
+      description: `Imported flow: ${members.length} nodes from node ${startNode}`,
+      startNode,
+      nodeNumbers: members,
+    });
+  }
+
+  const startupNodes = new Set(startupBlock !== undefined ? groups.get(startupBlock) : []);
+  return {
+    flows,
+    menuOptions: [],
+    sharedNodes: numbers.filter(n => startupNodes.has(n) || isSharedNode(n)),
+    method: 'numbering',
+  };
+}
+
+// ============================================
+// SCRIPTS
+// ============================================
+
+/**
+ * Action scripts the CSV calls. Sys* nodes are built into the platform.
+ */
+export function getReferencedScripts(csv: string): string[] {
+  const names = new Set<string>();
+  for (const node of BotDocument.parse(csv).nodes) {
+    const command = node.command.trim();
+    if (node.type.trim() === 'A' && command && !/^Sys[A-Z]/.test(command)) names.add(command);
+  }
+  return [...names].sort();
+}
+
+/**
+ * Scripts for every referenced action: the bot's own first, then bundled
+ * scripts, then the shared script library
+ */
+async function resolveScripts(
+  csv: string,
+  provided: CustomScript[]
+): Promise<{ scripts: CustomScript[]; missing: string[] }> {
+  const scripts = new Map(provided.map(script => [script.name, script]));
+  const needed: string[] = [];
+
+  for (const name of getReferencedScripts(csv)) {
+    if (scripts.has(name)) continue;
+    const bundled = getBundledScript(name);
+    if (bundled) scripts.set(name, { name, content: bundled.content });
+    else needed.push(name);
+  }
+
+  const fetched = needed.length > 0 ? await fetchScripts(needed) : new Map();
+  const missing: string[] = [];
+  for (const name of needed) {
+    const script = fetched.get(name);
+    if (script?.content) scripts.set(name, { name, content: script.content });
+    else missing.push(name);
+  }
+
+  return { scripts: [...scripts.values()], missing };
+}
+
+// ============================================
+// IMPORT
+// ============================================
+
+/**
+ * Build a SavedSolution for an existing bot, ready for addSavedSolution.
+ * Throws if the CSV has no nodes.
+ */
+export async function importBot(input: BotImportInput): Promise<BotImportResult> {
+  const doc = BotDocument.parse(input.csv);
+  if (doc.nodes.length === 0) {
+    throw new Error('No bot nodes found - is this a Pypestream bot CSV?');
+  }
+
+  const flows = reconstructFlows(input.csv);
+  const { scripts, missing } = await resolveScripts(input.csv, input.scripts || []);
+  console.log(`[BotImport] ${input.name}: ${doc.nodes.length} nodes, ${flows.flows.length} flows (by ${flows.method}), ${scripts.length} scripts`);
+  if (missing.length > 0) {
+    console.warn('[BotImport] Scripts not found:', missing);
+  }
+
+  const architectureState: ArchitectureState = {
+    plannedFlows: flows.flows,
+    menuOptions: flows.menuOptions,
+    hasGenerated: true,
+    instantStep: 'architecture',
+    instantBuildResult: {
+      success: Boolean(input.versionId),
+      csv: input.csv,
+      botId: input.botId || '',
+      versionId: input.versionId,
+      sheetsUrl: input.spreadsheetUrl,
+      spreadsheetId: spreadsheetIdFromUrl(input.spreadsheetUrl),
+      nodeCount: doc.nodes.length,
+      scripts,
+    },
+  };
+
+  return {
+    solution: {
+      name: input.name,
+      clientName: input.botId?.split('.')[0] || '',
+      projectType: 'custom',
+      description: `Imported from ${SOURCE_LABELS[input.source]}`,
+      status: 'draft',
+      nodeCount: doc.nodes.length,
+      csvContent: input.csv,
+      spreadsheetUrl: input.spreadsheetUrl,
+      botId: input.botId,
+      versionId: input.versionId,
+      architectureState,
+    },
+    flows,
+    scripts,
+    missingScripts: missing,
+  };
+}
@@ -267,6 +267,42 @@ export async function getBotInfo(
   }
 }
 
+export interface BotManagerExportResult {
+  success: boolean;
+  botId?: string;
+  versionId?: string;
+  csv?: string;
+  scripts?: { name: string; content: string }[];
+  error?: string;
+  authError?: boolean;
+}
+
+/**
+ * Export a bot's CSV graph and custom scripts (newest version with a graph
+ * unless versionId is given)
+ */
+export async function exportBot(
+  botId: string,
+  token: string,
+  versionId?: string
+): Promise<BotManagerExportResult> {
+  try {
+    const response = await fetch('/api/botmanager/export', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ botId, token, versionId }),
+    });
+
+    const result = await response.json();
+    if (!response.ok && !result.error) {
+      return { success: false, error: `Export failed: ${response.status}` };
+    }
+    return result;
+  } catch (error: any) {
+    return { success: false, error: error.message || String(error) };
+  }
+}
+
 /**
  * Format Bot Manager API errors for display
  */
@@ -0,0 +1,191 @@
+/**
+ * Brand Theme
+ *
+ * Widget theme helpers for the theme designer: a default theme derived from
+ * the brand colors, WCAG contrast checks for every text/background pair the
+ * widget renders, and stamping the theme's class into the CSS Classname
+ * column of message nodes. The channel handler (/api/botmanager/create-channel)
+ * turns the same theme into the widget's custom CSS.
+ */
+
+import type { BrandAssets, BrandTheme } from '../types';
+import { BotDocument } from './bot-document';
+
+// WCAG 2.1 AA minimum for normal-size text
+export const MIN_CONTRAST_RATIO = 4.5;
+
+export const BUBBLE_RADIUS: Record<BrandTheme['bubbleShape'], { corner: string; tail: string }> = {
+  rounded: { corner: '18px', tail: '4px' },
+  square: { corner: '4px', tail: '4px' },
+  pill: { corner: '24px', tail: '24px' },
+};
+
+// Google Fonts offered in the designer (the channel CSS loads them by name)
+export const THEME_FONTS = [
+  'Inter',
+  'Roboto',
+  'Open Sans',
+  'Lato',
+  'Montserrat',
+  'Poppins',
+  'Nunito Sans',
+  'Work Sans',
+  'Raleway',
+  'Source Sans 3',
+];
+
+const FALLBACK_PRIMARY = '#1E3A5F';
+const FALLBACK_SECONDARY = '#3B82F6';
+const AGENT_BUBBLE_BG = '#F5F5F5';
+
+export interface ContrastCheck {
+  id: 'header' | 'userBubble' | 'agentBubble' | 'button';
+  label: string;
+  foreground: string;
+  background: string;
+  ratio: number;
+  passes: boolean;
+}
+
+// ============================================
+// COLOR MATH
+// ============================================
+
+/**
+ * Normalize #abc / abc / #aabbcc to #AABBCC, or null when not a hex color
+ */
+export function normalizeHex(value: string | undefined): string | null {
+  if (!value) return null;
+  const hex = value.trim().replace(/^#/, '');
+  if (/^[0-9a-f]{3}$/i.test(hex)) {
+    return `#${hex.split('').map(c => c + c).join('')}`.toUpperCase();
+  }
+  if (/^[0-9a-f]{6}$/i.test(hex)) {
+    return `#${hex}`.toUpperCase();
+  }
+  return null;
+}
+
+function relativeLuminance(hex: string): number {
+  const normalized = normalizeHex(hex) || '#000000';
+  const channels = [1, 3, 5].map(i => parseInt(normalized.slice(i, i + 2), 16) / 255);
+  const [r, g, b] = channels.map(c => (c <= 0.03928 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4)));
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+}
+
+/**
+ * WCAG contrast ratio between two colors (1 - 21)
+ */
+export function contrastRatio(foreground: string, background: string): number {
+  const a = relativeLuminance(foreground);
+  const b = relativeLuminance(background);
+  return (Math.max(a, b) + 0.05) / (Math.min(a, b) + 0.05);
+}
+
+/**
+ * Near-black or white, whichever reads better on the background
+ */
+export function readableTextColor(background: string): string {
+  return contrastRatio('#1A1A1A', background) >= contrastRatio('#FFFFFF', background) ? '#1A1A1A' : '#FFFFFF';
+}
+
+// ============================================
+// THEME
+// ============================================
+
+/**
+ * CSS class for a brand, e.g. "Travelers Insurance" -> "ps-theme-travelers-insurance".
+ * The prefix keeps names like "3M" from starting the class with a digit.
+ */
+export function themeClassname(name: string | undefined): string {
+  const slug = (name || 'brand').toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+  return `ps-theme-${slug || 'brand'}`;
+}
+
+/**
+ * Class selector for a theme class. Themes saved before the prefix can have a
+ * class starting with a digit ("3m-theme"), which has to be escaped.
+ */
+export function themeClassSelector(className: string): string {
+  const escaped = className
+    .replace(/[^a-zA-Z0-9_-]/g, ch => `\\${ch}`)
+    .replace(/^(-?)(\d)/, (_, dash: string, digit: string) => `${dash}\\3${digit} `);
+  return `.${escaped}`;
+}
+
+export function getPrimaryColor(assets: BrandAssets | undefined): string {
+  return normalizeHex(assets?.primaryColor)
+    || normalizeHex(assets?.colors?.find(c => c.usage === 'primary')?.hex)
+    || normalizeHex(assets?.colors?.[0]?.hex)
+    || FALLBACK_PRIMARY;
+}
+
+export function getSecondaryColor(assets: BrandAssets | undefined): string {
+  const primary = getPrimaryColor(assets);
+  return normalizeHex(assets?.secondaryColor)
+    || normalizeHex(assets?.colors?.find(c => c.usage === 'secondary')?.hex)
+    || normalizeHex(assets?.colors?.find(c => normalizeHex(c.hex) !== primary)?.hex)
+    || FALLBACK_SECONDARY;
+}
+
+export function getLogoUrl(assets: BrandAssets | undefined): string {
+  return assets?.logoUrl || assets?.logos?.find(l => l.type === 'icon')?.url || assets?.logos?.[0]?.url || '';
+}
+
+/**
+ * The saved theme, or one derived from the brand colors and fonts
+ */
+export function getBrandTheme(assets: BrandAssets | undefined): BrandTheme {
+  if (assets?.theme) return assets.theme;
+
+  const primary = getPrimaryColor(assets);
+  return {
+    fontFamily: assets?.fonts?.find(f => f.origin === 'google')?.name,
+    bubbleShape: 'rounded',
+    userBubbleColor: primary,
+    userBubbleTextColor: readableTextColor(primary),
+    agentBubbleColor: AGENT_BUBBLE_BG,
+    agentBubbleTextColor: readableTextColor(AGENT_BUBBLE_BG),
+    cssClassname: themeClassname(assets?.name),
+  };
+}
+
+/**
+ * Contrast of every text/background pair the widget renders
+ */
+export function checkThemeContrast(assets: BrandAssets | undefined, theme: BrandTheme = getBrandTheme(assets)): ContrastCheck[] {
+  const primary = getPrimaryColor(assets);
+  const secondary = getSecondaryColor(assets);
+  const pairs: Omit<ContrastCheck, 'ratio' | 'passes'>[] = [
+    { id: 'header', label: 'Header text', foreground: readableTextColor(primary), background: primary },
+    { id: 'userBubble', label: 'User messages', foreground: theme.userBubbleTextColor, background: theme.userBubbleColor },
+    { id: 'agentBubble', label: 'Bot messages', foreground: theme.agentBubbleTextColor, background: theme.agentBubbleColor },
+    { id: 'button', label: 'Buttons', foreground: readableTextColor(secondary), background: secondary },
+  ];
+
+  return pairs.map(pair => {
+    const ratio = contrastRatio(pair.foreground, pair.background);
+    return { ...pair, ratio, passes: ratio >= MIN_CONTRAST_RATIO };
+  });
+}
+
+/**
+ * Put the theme class on every message node that doesn't set its own.
+ * Action nodes render nothing, so they are left alone.
+ */
+export function applyThemeClassnames(csv: string, theme: BrandTheme | undefined): string {
+  if (!theme?.cssClassname) return csv;
+
+  const doc = BotDocument.parse(csv);
+  let applied = 0;
+  for (const node of doc.nodes) {
+    if (node.type.trim().toUpperCase() === 'D' && node.message.trim() && !node.cssClass.trim()) {
+      doc.setField(node.nodeNum, 'cssClass', theme.cssClassname);
+      applied++;
+    }
+  }
+
+  if (applied === 0) return csv;
+  console.log(`[BrandTheme] Applied "${theme.cssClassname}" to ${applied} message nodes`);
+  return doc.toCSV();
+}
@@ -0,0 +1,188 @@
+/**
+ * Manual Brand Assets
+ *
+ * Alternate path to Brandfetch for offline and internal brands: the user
+ * uploads a logo, its dominant colors are extracted on the client, and an
+ * optional website URL adds colors, fonts and logos read from the site's
+ * HTML/CSS (/api/brand-from-url). The result is a regular BrandAssets.
+ */
+
+import type { BrandAssets, BrandColor, BrandFont, BrandLogo } from '../types';
+
+// Logos are stored inline (data URL), so keep them small
+const LOGO_MAX_SIZE = 256;
+// Palette is sampled from a downscaled copy
+const SAMPLE_SIZE = 64;
+// Colors closer than this (RGB distance) count as the same color
+const MIN_COLOR_DISTANCE = 48;
+
+export interface LogoUpload {
+  // PNG data URL of the (downscaled) logo
+  logoUrl: string;
+  colors: BrandColor[];
+}
+
+export type SiteBrand = Pick<BrandAssets, 'name' | 'domain' | 'colors' | 'fonts' | 'logos' | 'primaryColor' | 'secondaryColor' | 'logoUrl'>;
+
+// ============================================
+// PALETTE
+// ============================================
+
+function toHex(r: number, g: number, b: number): string {
+  return '#' + [r, g, b].map(c => Math.round(c).toString(16).padStart(2, '0')).join('').toUpperCase();
+}
+
+function isNeutral(r: number, g: number, b: number): boolean {
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  return max - min < 24 || max < 30 || min > 235;
+}
+
+/**
+ * Dominant colors of RGBA pixel data, most common first. Pixels are bucketed
+ * at 4 bits per channel; near-duplicates are merged and neutrals (white,
+ * black, grays) only fill the list after every colorful bucket.
+ */
+export function dominantColors(pixels: Uint8ClampedArray, count = 6): string[] {
+  const buckets = new Map<number, { r: number; g: number; b: number; n: number }>();
+
+  for (let i = 0; i < pixels.length; i += 4) {
+    if (pixels[i + 3] < 128) continue; // transparent background
+    const key = ((pixels[i] >> 4) << 8) | ((pixels[i + 1] >> 4) << 4) | (pixels[i + 2] >> 4);
+    const bucket = buckets.get(key) || { r: 0, g: 0, b: 0, n: 0 };
+    bucket.r += pixels[i];
+    bucket.g += pixels[i + 1];
+    bucket.b += pixels[i + 2];
+    bucket.n++;
+    buckets.set(key, bucket);
+  }
+
+  const averaged = [...buckets.values()]
+    .map(b => ({ r: b.r / b.n, g: b.g / b.n, b: b.b / b.n, n: b.n }))
+    .map(c => ({ ...c, neutral: isNeutral(c.r, c.g, c.b) }))
+    .sort((a, b) => Number(a.neutral) - Number(b.neutral) || b.n - a.n);
+
+  const picked: { r: number; g: number; b: number }[] = [];
+  for (const color of averaged) {
+    const distinct = picked.every(p => Math.hypot(p.r - color.r, p.g - color.g, p.b - color.b) >= MIN_COLOR_DISTANCE);
+    if (distinct) picked.push(color);
+    if (picked.length >= count) break;
+  }
+
+  return picked.map(c => toHex(c.r, c.g, c.b));
+}
+
+function toBrandColors(hexes: string[], prefix: string): BrandColor[] {
+  return hexes.map((hex, i) => ({
+    name: `${prefix} ${i + 1}`,
+    hex,
+    usage: i === 0 ? 'primary' : i === 1 ? 'secondary' : 'accent',
+  }));
+}
+
+function loadImage(file: Blob): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const img = new Image();
+    img.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(img);
+    };
+    img.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('Could not read the image - use a PNG, JPEG, SVG or WebP logo'));
+    };
+    img.src = url;
+  });
+}
+
+function drawToCanvas(img: HTMLImageElement, maxSize: number): HTMLCanvasElement {
+  const width = img.naturalWidth || maxSize;
+  const height = img.naturalHeight || maxSize;
+  const scale = Math.min(1, maxSize / Math.max(width, height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(width * scale));
+  canvas.height = Math.max(1, Math.round(height * scale));
+  canvas.getContext('2d')?.drawImage(img, 0, 0, canvas.width, canvas.height);
+  return canvas;
+}
+
+/**
+ * Read an uploaded logo: a small PNG copy to store and its color palette
+ */
+export async function extractLogoPalette(file: File): Promise<LogoUpload> {
+  const img = await loadImage(file);
+  const logo = drawToCanvas(img, LOGO_MAX_SIZE);
+  const sample = drawToCanvas(img, SAMPLE_SIZE);
+  const context = sample.getContext('2d');
+  if (!context) throw new Error('Canvas is not available');
+
+  const pixels = context.getImageData(0, 0, sample.width, sample.height).data;
+  const colors = toBrandColors(dominantColors(pixels), 'Logo');
+  console.log(`[BrandUpload] ${file.name}: ${colors.map(c => c.hex).join(', ') || 'no colors'}`);
+
+  return { logoUrl: logo.toDataURL('image/png'), colors };
+}
+
+// ============================================
+// WEBSITE
+// ============================================
+
+/**
+ * Colors, fonts and logos read from a website's HTML and CSS
+ */
+export async function fetchBrandFromWebsite(url: string): Promise<SiteBrand> {
+  const response = await fetch('/api/brand-from-url', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ url: url.trim() }),
+  });
+  const data = await response.json().catch(() => null);
+  if (!response.ok || !data?.success) {
+    throw new Error(data?.error || `Could not read ${url}`);
+  }
+  return data.brand;
+}
+
+// ============================================
+// ASSEMBLY
+// ============================================
+
+/**
+ * Combine an uploaded logo and/or a website into BrandAssets. The logo's
+ * colors lead (the user picked that file); the site fills in the rest.
+ */
+export function buildManualBrandAssets(input: {
+  name?: string;
+  logo?: LogoUpload | null;
+  site?: SiteBrand | null;
+}): BrandAssets {
+  const { logo, site } = input;
+
+  const colors: BrandColor[] = [];
+  for (const color of [...(logo?.colors || []), ...(site?.colors || [])]) {
+    if (!colors.some(c => c.hex.toUpperCase() === color.hex.toUpperCase())) colors.push(color);
+  }
+
+  const logos: BrandLogo[] = [
+    ...(logo ? [{ url: logo.logoUrl, type: 'icon' as const, format: 'png', background: 'transparent' as const }] : []),
+    ...(site?.logos || []),
+  ];
+  const fonts: BrandFont[] = site?.fonts || [];
+
+  const primaryColor = logo?.colors[0]?.hex || site?.primaryColor || colors[0]?.hex;
+  const secondaryColor = colors.find(c => c.hex !== primaryColor)?.hex;
+
+  return {
+    name: input.name || site?.name,
+    domain: site?.domain,
+    colors,
+    logos,
+    fonts,
+    images: [],
+    primaryColor,
+    secondaryColor,
+    logoUrl: logos[0]?.url,
+    logoBackground: 'transparent',
+  };
+}
@@ -0,0 +1,260 @@
+/**
+ * Build Checkpoints
+ *
+ * The Instant Build pipeline as explicit stages, each with its output saved to
+ * build_checkpoints against the solution. instantBuild skips every stage that
+ * already has a completed checkpoint, so a build interrupted by a refresh, an
+ * auth error or a closed tab resumes from the last completed stage on any
+ * device. Checkpoints are cleared once the build finishes.
+ *
+ * Without a solution id the checkpoints live only in memory for the one run.
+ */
+
+import { supabase } from '../lib/supabase';
+import type { BuildCheckpoint, BuildStage, BuildStageState, BuildStageStatus } from '../types';
+
+export const BUILD_STAGES: { stage: BuildStage; label: string }[] = [
+  { stage: 'preflight', label: 'Pre-flight' },
+  { stage: 'plan', label: 'Plan' },
+  { stage: 'flow', label: 'Flows' },
+  { stage: 'assembly', label: 'Assembly' },
+  { stage: 'pre-validation', label: 'Pre-validation' },
+  { stage: 'validation', label: 'Bot Manager validation' },
+  { stage: 'refinement', label: 'Refinement' },
+  { stage: 'scripts', label: 'Scripts' },
+  { stage: 'deploy', label: 'Deploy' },
+  { stage: 'channel', label: 'Channel' },
+  { stage: 'health-check', label: 'Health check' },
+];
+
+/**
+ * Stable hash of the build input. Checkpoints saved for different input
+ * (edited description, details or brand) are discarded rather than resumed.
+ */
+export function buildFingerprint(input: unknown): string {
+  const text = JSON.stringify(input) || '';
+  let hash = 5381;
+  for (let i = 0; i < text.length; i++) {
+    hash = ((hash << 5) + hash + text.charCodeAt(i)) | 0;
+  }
+  return (hash >>> 0).toString(16);
+}
+
+function checkpointId(stage: BuildStage, key: string): string {
+  return key ? `${stage}:${key}` : stage;
+}
+
+// Convert database row to BuildCheckpoint format
+function dbToCheckpoint(row: any): BuildCheckpoint {
+  return {
+    stage: row.stage,
+    key: row.stage_key || '',
+    status: row.status,
+    output: row.output ?? undefined,
+    error: row.error || undefined,
+    updatedAt: row.updated_at,
+  };
+}
+
+export class BuildCheckpoints {
+  private constructor(
+    readonly solutionId: string | null,
+    readonly fingerprint: string,
+    private readonly checkpoints: Map<string, BuildCheckpoint>,
+    private readonly userId: string | null
+  ) {}
+
+  /**
+   * Load the solution's checkpoints for this build input. Checkpoints saved
+   * for other input are deleted. Without an access token the signed-in
+   * session's user owns them.
+   */
+  static async load(solutionId: string | null | undefined, fingerprint: string, accessToken?: string): Promise<BuildCheckpoints> {
+    if (!solutionId) return BuildCheckpoints.inMemory(fingerprint);
+
+    try {
+      const { data: { user } } = await supabase.auth.getUser(accessToken);
+      if (!user) {
+        console.error('[Checkpoints] No authenticated user - checkpoints kept in memory');
+        return BuildCheckpoints.inMemory(fingerprint);
+      }
+
+      const { data, error } = await supabase
+        .from('build_checkpoints')
+        .select('*')
+        .eq('project_id', solutionId);
+
+      if (error) {
+        console.error('[Checkpoints] Error loading checkpoints:', error);
+        return BuildCheckpoints.inMemory(fingerprint);
+      }
+
+      const checkpoints = new BuildCheckpoints(solutionId, fingerprint, new Map(), user.id);
+      const rows = data || [];
+      if (rows.some(row => row.fingerprint !== fingerprint)) {
+        console.log('[Checkpoints] Build input changed - discarding saved checkpoints');
+        await checkpoints.clear();
+        return checkpoints;
+      }
+
+      for (const row of rows) {
+        const checkpoint = dbToCheckpoint(row);
+        checkpoints.checkpoints.set(checkpointId(checkpoint.stage, checkpoint.key), checkpoint);
+      }
+      if (rows.length > 0) {
+        console.log(`[Checkpoints] Loaded ${rows.length} checkpoint(s) for solution ${solutionId}, resuming at ${checkpoints.resumeStage() || 'end'}`);
+      }
+      return checkpoints;
+    } catch (error) {
+      console.error('[Checkpoints] Error loading checkpoints:', error);
+      return BuildCheckpoints.inMemory(fingerprint);
+    }
+  }
+
+  static inMemory(fingerprint = ''): BuildCheckpoints {
+    return new BuildCheckpoints(null, fingerprint, new Map(), null);
+  }
+
+  get(stage: BuildStage, key = ''): BuildCheckpoint | undefined {
+    return this.checkpoints.get(checkpointId(stage, key));
+  }
+
+  isDone(stage: BuildStage, key = ''): boolean {
+    return this.get(stage, key)?.status === 'done';
+  }
+
+  /**
+   * Output of a completed stage
+   */
+  output<T>(stage: BuildStage, key = ''): T | undefined {
+    const checkpoint = this.get(stage, key);
+    return checkpoint?.status === 'done' ? checkpoint.output as T : undefined;
+  }
+
+  /**
+   * Output saved so far, whether or not the stage completed
+   */
+  partialOutput<T>(stage: BuildStage, key = ''): T | undefined {
+    return this.get(stage, key)?.output as T | undefined;
+  }
+
+  async start(stage: BuildStage, key = ''): Promise<void> {
+    await this.write(stage, key, 'active', this.get(stage, key)?.output);
+  }
+
+  /**
+   * Save partial output while a stage is still running
+   */
+  async save(stage: BuildStage, output: unknown, key = ''): Promise<void> {
+    await this.write(stage, key, 'active', output);
+  }
+
+  async complete(stage: BuildStage, output: unknown = null, key = ''): Promise<void> {
+    await this.write(stage, key, 'done', output);
+  }
+
+  /**
+   * Mark a stage failed. Its output is kept so the re-run can pick up from it.
+   */
+  async fail(stage: BuildStage, error: string, key = ''): Promise<void> {
+    await this.write(stage, key, 'error', this.get(stage, key)?.output, error);
+  }
+
+  /**
+   * Drop checkpoints for the given stages (all keys) so they run again
+   */
+  async reset(stages: BuildStage[]): Promise<void> {
+    for (const [id, checkpoint] of this.checkpoints) {
+      if (stages.includes(checkpoint.stage)) this.checkpoints.delete(id);
+    }
+    if (!this.solutionId) return;
+
+    try {
+      const { error } = await supabase
+        .from('build_checkpoints')
+        .delete()
+        .eq('project_id', this.solutionId)
+        .in('stage', stages);
+      if (error) console.error('[Checkpoints] Error resetting stages:', error);
+    } catch (error) {
+      console.error('[Checkpoints] Error resetting stages:', error);
+    }
+  }
+
+  /**
+   * Forget every checkpoint - called once a build completes
+   */
+  async clear(): Promise<void> {
+    await this.reset(BUILD_STAGES.map(s => s.stage));
+  }
+
+  /**
+   * First pipeline stage without a completed checkpoint
+   */
+  resumeStage(): BuildStage | null {
+    return this.stageStates().find(s => s.status !== 'done')?.stage || null;
+  }
+
+  /**
+   * Status of every stage, with per-flow checkpoints rolled up into 'flow'
+   */
+  stageStates(): BuildStageState[] {
+    return BUILD_STAGES.map(({ stage, label }) => {
+      if (stage !== 'flow') {
+        const checkpoint = this.get(stage);
+        return { stage, label, status: checkpoint?.status || 'pending', ...(checkpoint?.error ? { detail: checkpoint.error } : {}) };
+      }
+
+      const plannedFlows: unknown[] = this.output<{ flows: unknown[] }>('plan')?.flows || [];
+      const flows = [...this.checkpoints.values()].filter(c => c.stage === 'flow');
+      const done = flows.filter(c => c.status === 'done').length;
+      const total = Math.max(plannedFlows.length, flows.length);
+      let status: BuildStageStatus = 'pending';
+      if (flows.some(c => c.status === 'error')) status = 'error';
+      else if (flows.some(c => c.status === 'active')) status = 'active';
+      else if ((total > 0 && done === total) || this.isDone('assembly')) status = 'done';
+      else if (done > 0) status = 'active';
+
+      return { stage, label, status, ...(total > 0 ? { detail: `${done}/${total}` } : {}) };
+    });
+  }
+
+  private async write(
+    stage: BuildStage,
+    key: string,
+    status: BuildStageStatus,
+    output: unknown,
+    error?: string
+  ): Promise<void> {
+    const checkpoint: BuildCheckpoint = {
+      stage,
+      key,
+      status,
+      output: output ?? undefined,
+      error,
+      updatedAt: new Date().toISOString(),
+    };
+    this.checkpoints.set(checkpointId(stage, key), checkpoint);
+    if (!this.solutionId || !this.userId) return;
+
+    try {
+      const { error: upsertError } = await supabase
+        .from('build_checkpoints')
+        .upsert({
+          project_id: this.solutionId,
+          user_id: this.userId,
+          fingerprint: this.fingerprint,
+          stage,
+          stage_key: key,
+          status,
+          output: output ?? null,
+          error: error || null,
+          updated_at: checkpoint.updatedAt,
+        }, { onConflict: 'project_id,stage,stage_key' });
+
+      if (upsertError) console.error(`[Checkpoints] Error saving ${checkpointId(stage, key)}:`, upsertError);
+    } catch (e) {
+      console.error(`[Checkpoints] Error saving ${checkpointId(stage, key)}:`, e);
+    }
+  }
+}
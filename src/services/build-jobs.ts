@@ -0,0 +1,296 @@
+/**
+ * Build Jobs API
+ *
+ * Instant Builds run as jobs on the dev server (vite/build-worker.ts) rather
+ * than in this tab. The page submits a job, keeps its id, and subscribes to
+ * its InstantBuildProgress events; navigating away or reloading only drops the
+ * subscription, and subscribing again picks up the latest progress.
+ *
+ * Requests carry the Supabase session token: jobs run as the signed-in user
+ * and only that user can see or cancel them.
+ */
+
+import { supabase } from '../lib/supabase';
+import { getBuildBudgetUsd } from './cost-ledger';
+import type { BrandAssets, ExtractedDetails, InstantBuildResult } from '../types';
+import type { PlannedArchitecture } from './generation';
+import type { InstantBuildProgress } from './instant-build';
+
+const BUILD_JOBS_ENDPOINT = '/api/build-jobs';
+
+export type BuildJobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+// Arguments of instantBuild
+export interface BuildJobInput {
+  description: string;
+  extractedDetails: ExtractedDetails;
+  brandAssets: BrandAssets | null;
+  token: string;
+  userId: string;
+  cachedGeneration?: any;
+  aiCredentials?: { apiKey?: string; provider?: 'anthropic' | 'google' };
+  solutionId?: string | null;
+  plannedArchitecture?: PlannedArchitecture;
+  // Defaults to the budget set on the dashboard
+  budgetUsd?: number | null;
+}
+
+// Progress as sent by the worker, stamped with the server's performance.now()
+type BuildJobProgress = InstantBuildProgress & { emittedAt: number };
+
+export interface BuildJob {
+  id: string;
+  status: BuildJobStatus;
+  projectName: string;
+  userId: string;
+  solutionId?: string;
+  createdAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+  progress?: BuildJobProgress;
+  result?: InstantBuildResult;
+  error?: string;
+}
+
+type BuildJobEvent =
+  | { type: 'progress'; progress: BuildJobProgress }
+  | { type: 'finished'; job: BuildJob };
+
+async function accessToken(): Promise<string | undefined> {
+  const { data: { session } } = await supabase.auth.getSession();
+  return session?.access_token;
+}
+
+async function authHeaders(): Promise<Record<string, string>> {
+  const token = await accessToken();
+  return token ? { 'Authorization': `Bearer ${token}` } : {};
+}
+
+async function errorMessage(response: Response): Promise<string> {
+  const body = await response.json().catch(() => null);
+  return body?.error || `Request failed (${response.status})`;
+}
+
+/**
+ * Move the pipeline's performance.now() timestamps onto this tab's clock
+ */
+function toLocalProgress({ emittedAt, ...progress }: BuildJobProgress): InstantBuildProgress {
+  const offset = performance.now() - emittedAt;
+  return {
+    ...progress,
+    stepStartedAt: progress.stepStartedAt !== undefined ? progress.stepStartedAt + offset : undefined,
+    pipelineStartedAt: progress.pipelineStartedAt !== undefined ? progress.pipelineStartedAt + offset : undefined,
+  };
+}
+
+/**
+ * Result a finished job resolves to; cancelled and crashed jobs become failures
+ */
+function jobResult(job: BuildJob): InstantBuildResult {
+  if (job.result && job.status !== 'cancelled') return job.result;
+  return {
+    nodeCount: 0,
+    botId: '',
+    ...job.result,
+    success: false,
+    error: job.error || `Build ${job.status}`,
+  };
+}
+
+// ============================================
+// JOBS
+// ============================================
+
+/**
+ * Start a build on the server. Throws if the job could not be queued.
+ */
+export async function submitBuildJob(input: BuildJobInput): Promise<BuildJob> {
+  const response = await fetch(BUILD_JOBS_ENDPOINT, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...(await authHeaders()) },
+    body: JSON.stringify({ budgetUsd: getBuildBudgetUsd(), ...input }),
+  });
+  if (!response.ok) {
+    throw new Error(`Could not start the build: ${await errorMessage(response)}`);
+  }
+
+  const { job } = await response.json();
+  console.log(`[BuildJobs] Submitted ${job.id} (${job.projectName})`);
+  return job;
+}
+
+/**
+ * Job status, or null when the server no longer knows the job
+ */
+export async function fetchBuildJob(id: string): Promise<BuildJob | null> {
+  try {
+    const response = await fetch(`${BUILD_JOBS_ENDPOINT}/${encodeURIComponent(id)}`, { headers: await authHeaders() });
+    if (!response.ok) {
+      if (response.status !== 404) console.error('[BuildJobs] Failed to fetch job:', await errorMessage(response));
+      return null;
+    }
+    const { job } = await response.json();
+    return job;
+  } catch (error) {
+    console.error('[BuildJobs] Failed to fetch job:', error);
+    return null;
+  }
+}
+
+/**
+ * The user's jobs the server is running or finished recently, newest first
+ */
+export async function fetchBuildJobs(): Promise<BuildJob[]> {
+  try {
+    const response = await fetch(BUILD_JOBS_ENDPOINT, { headers: await authHeaders() });
+    if (!response.ok) {
+      console.error('[BuildJobs] Failed to list jobs:', await errorMessage(response));
+      return [];
+    }
+    const { jobs } = await response.json();
+    return jobs || [];
+  } catch (error) {
+    console.error('[BuildJobs] Failed to list jobs:', error);
+    return [];
+  }
+}
+
+export async function cancelBuildJob(id: string): Promise<BuildJob | null> {
+  try {
+    const response = await fetch(`${BUILD_JOBS_ENDPOINT}/${encodeURIComponent(id)}/cancel`, {
+      method: 'POST',
+      headers: await authHeaders(),
+    });
+    if (!response.ok) {
+      console.error('[BuildJobs] Failed to cancel job:', await errorMessage(response));
+      return null;
+    }
+    const { job } = await response.json();
+    console.log(`[BuildJobs] Cancelling ${id}`);
+    return job;
+  } catch (error) {
+    console.error('[BuildJobs] Failed to cancel job:', error);
+    return null;
+  }
+}
+
+// ============================================
+// PROGRESS
+// ============================================
+
+/**
+ * Read a job's event stream, passing progress to onProgress. Returns the job
+ * from the 'finished' event, or null when the stream ends before it.
+ */
+async function readJobEvents(
+  body: ReadableStream<Uint8Array>,
+  onProgress?: (progress: InstantBuildProgress) => void
+): Promise<BuildJob | null> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) return null;
+    buffer += decoder.decode(value, { stream: true });
+
+    // Events are separated by a blank line; the worker sends one data: line each
+    let end: number;
+    while ((end = buffer.indexOf('\n\n')) !== -1) {
+      const data = buffer.slice(0, end).split('\n')
+        .filter(line => line.startsWith('data:'))
+        .map(line => line.slice(5).trimStart())
+        .join('\n');
+      buffer = buffer.slice(end + 2);
+      if (!data) continue;
+
+      const event: BuildJobEvent = JSON.parse(data);
+      if (event.type === 'finished') {
+        void reader.cancel();
+        return event.job;
+      }
+      onProgress?.(toLocalProgress(event.progress));
+    }
+  }
+}
+
+/**
+ * Follow a job until it finishes, passing each progress update to onProgress.
+ * Resolves with the build result (cancelled jobs resolve as failures). Rejects
+ * if the job is unknown, e.g. because the dev server restarted.
+ *
+ * Events are streamed with fetch so the access token stays in the
+ * Authorization header. The stream reconnects when it drops and when the
+ * session is refreshed, which hands the server the new token for the job.
+ *
+ * Returns the promise and an unsubscribe function that stops listening
+ * without cancelling the job; the promise then rejects with an AbortError.
+ */
+export function watchBuildJob(
+  id: string,
+  onProgress?: (progress: InstantBuildProgress) => void
+): { result: Promise<InstantBuildResult>; unsubscribe: () => void } {
+  const stopped = new AbortController();
+  let connection: AbortController | null = null;
+
+  const result = new Promise<InstantBuildResult>((resolve, reject) => {
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((event) => {
+      if (event === 'TOKEN_REFRESHED') connection?.abort();
+    });
+    const settle = (finish: () => void) => {
+      subscription.unsubscribe();
+      finish();
+    };
+    stopped.signal.addEventListener('abort', () => {
+      connection?.abort();
+      settle(() => reject(new DOMException('Stopped watching the build job', 'AbortError')));
+    });
+
+    const follow = async () => {
+      let failures = 0;
+      while (!stopped.signal.aborted) {
+        const current = new AbortController();
+        connection = current;
+        try {
+          const response = await fetch(`${BUILD_JOBS_ENDPOINT}/${encodeURIComponent(id)}/events`, {
+            headers: await authHeaders(),
+            signal: current.signal,
+          });
+          if (response.status === 401 || response.status === 404) {
+            const error = response.status === 401
+              ? 'Your sign-in expired - sign in again to follow the build'
+              : 'The build job was lost - the build server may have restarted';
+            settle(() => reject(new Error(error)));
+            return;
+          }
+          if (!response.ok || !response.body) throw new Error(await errorMessage(response));
+
+          failures = 0;
+          const job = await readJobEvents(response.body, onProgress);
+          if (job) {
+            console.log(`[BuildJobs] ${id} ${job.status}`);
+            settle(() => resolve(jobResult(job)));
+            return;
+          }
+          // The server closed the stream before the job finished
+          failures++;
+        } catch (error) {
+          if (stopped.signal.aborted) return;
+          // Aborted for a session refresh: reconnect straight away with the new token
+          if (!current.signal.aborted) {
+            failures++;
+            console.warn(`[BuildJobs] Event stream for ${id} dropped, reconnecting:`, error);
+          }
+        }
+        if (failures > 0) await new Promise(r => setTimeout(r, Math.min(1000 * 2 ** failures, 10_000)));
+      }
+    };
+    void follow();
+  });
+
+  return {
+    result,
+    unsubscribe: () => stopped.abort(),
+  };
+}
@@ -0,0 +1,506 @@
+/**
+ * Conversation Simulator Service
+ *
+ * Offline interpreter for generated bot CSVs. Walks the 26-column CSV
+ * starting at node 1 without deploying to Bot Manager:
+ * - Decision nodes render their message and rich asset options
+ * - Routing follows Next Nodes (decision) and What Next? (action)
+ * - Action nodes resolve using SCRIPT_OUTPUTS plus scripted or user-chosen outcomes
+ */
+
+import type { ConversationMessage } from '../types';
+import { SCRIPT_OUTPUTS } from '../data/script-outputs';
+import { BotDocument } from './bot-document';
+
+// Safety limit for nodes traversed without user input
+const DEFAULT_MAX_AUTO_STEPS = 50;
+
+// Nodes that end the conversation
+const END_CHAT_NODE = 666;
+const AGENT_TRANSFER_NODE = 999;
+
+export interface SimNode {
+  num: number;
+  rowNum: number;
+  type: 'D' | 'A';
+  name: string;
+  intent: string;
+  nluDisabled: string;
+  nextNodes: string;
+  message: string;
+  richType: string;
+  richContent: string;
+  ansReq: string;
+  behaviors: string;
+  command: string;
+  paramInput: string;
+  decVar: string;
+  whatNext: string;
+  variable: string;
+}
+
+export interface SimOption {
+  label: string;
+  dest: number | null;
+}
+
+export type SimStatus = 'idle' | 'awaiting_option' | 'awaiting_text' | 'awaiting_outcome' | 'ended' | 'error';
+
+export interface SimState {
+  status: SimStatus;
+  currentNode: SimNode | null;
+  options: SimOption[];
+  outcomes: string[];
+  variables: Record<string, string>;
+  transcript: ConversationMessage[];
+  visitedNodes: number[];
+  endReason?: string;
+  error?: string;
+}
+
+export interface SimulatorOptions {
+  // Pre-chosen outcomes, keyed by node number or command name
+  scriptedOutcomes?: Record<string, string>;
+  // When false, action nodes without a scripted outcome pause for the user
+  autoResolveActions?: boolean;
+  // Initial variable values (e.g. from SysShowMetadata)
+  variables?: Record<string, string>;
+  maxAutoSteps?: number;
+}
+
+/**
+ * Parse a bot CSV into simulator nodes (handles quoted multi-line fields)
+ */
+export function parseSimNodes(csv: string): Map<number, SimNode> {
+  const nodes = new Map<number, SimNode>();
+
+  for (const n of BotDocument.parse(csv).nodes) {
+    nodes.set(n.nodeNum, {
+      num: n.nodeNum,
+      rowNum: n.rowNum,
+      type: n.type.trim().toUpperCase() === 'A' ? 'A' : 'D',
+      name: n.name.trim(),
+      intent: n.intent.trim(),
+      nluDisabled: n.nluDisabled.trim(),
+      nextNodes: n.nextNodes.trim(),
+      message: n.message,
+      richType: n.richType.trim().toLowerCase(),
+      richContent: n.richContent.trim(),
+      ansReq: n.ansReq.trim(),
+      behaviors: n.behaviors.trim(),
+      command: n.command.trim(),
+      paramInput: n.paramInput.trim(),
+      decVar: n.decVar.trim(),
+      whatNext: n.whatNext.trim(),
+      variable: n.variable.trim(),
+    });
+  }
+
+  return nodes;
+}
+
+/**
+ * Extract selectable options from a rich asset (buttons, quick_reply, listpicker, carousel)
+ */
+export function parseRichAssetOptions(richType: string, richContent: string): SimOption[] {
+  if (!richContent) return [];
+  const content = richContent.trim();
+
+  // JSON format: {"type":"static","options":[{"label":"...","dest":300}]}
+  if (content.startsWith('{') || content.startsWith('[')) {
+    try {
+      const parsed = JSON.parse(content);
+      const items: any[] = Array.isArray(parsed)
+        ? parsed
+        : parsed.options || parsed.items || parsed.cards || parsed.buttons || [];
+
+      const options: SimOption[] = [];
+      for (const item of items) {
+        // Carousel cards can carry their own buttons
+        if (Array.isArray(item?.buttons)) {
+          for (const btn of item.buttons) {
+            options.push({ label: String(btn.label ?? btn.title ?? ''), dest: toNodeNum(btn.dest) });
+          }
+        } else if (item && typeof item === 'object') {
+          options.push({ label: String(item.label ?? item.title ?? ''), dest: toNodeNum(item.dest) });
+        }
+      }
+      return options;
+    } catch {
+      // Fall through to pipe format
+    }
+  }
+
+  // Webview format: description~https://url (single link, routing via Next Nodes)
+  if (richType === 'webview') return [];
+
+  // Pipe format: Label~dest|Label~dest (options may also be split across lines)
+  if (content.includes('~')) {
+    return content
+      .split(/\||\n/)
+      .map(part => part.trim())
+      .filter(Boolean)
+      .map(part => {
+        const idx = part.lastIndexOf('~');
+        if (idx === -1) return { label: part, dest: null };
+        return { label: part.substring(0, idx).trim(), dest: toNodeNum(part.substring(idx + 1)) };
+      });
+  }
+
+  return [];
+}
+
+/**
+ * Parse What Next? routing into an outcome → node map (format: value~node|value~node)
+ */
+export function parseWhatNext(whatNext: string): Map<string, number> {
+  const routes = new Map<string, number>();
+  if (!whatNext) return routes;
+
+  for (const part of whatNext.split('|')) {
+    const idx = part.lastIndexOf('~');
+    if (idx === -1) continue;
+    const value = part.substring(0, idx).trim();
+    const dest = toNodeNum(part.substring(idx + 1));
+    if (value && dest !== null) routes.set(value, dest);
+  }
+
+  return routes;
+}
+
+function toNodeNum(value: unknown): number | null {
+  if (value === undefined || value === null || value === '') return null;
+  const num = parseInt(String(value).trim(), 10);
+  return isNaN(num) ? null : num;
+}
+
+/**
+ * Parse Next Nodes into node numbers (comma or pipe separated)
+ */
+export function parseNextNodes(nextNodes: string): number[] {
+  return nextNodes
+    .split(/[,|]/)
+    .map(n => toNodeNum(n))
+    .filter((n): n is number => n !== null);
+}
+
+/**
+ * Substitute {VARIABLE} placeholders with their current values
+ */
+function renderTemplate(text: string, variables: Record<string, string>): string {
+  return text.replace(/\{([A-Z0-9_]+)\}/g, (match, name) =>
+    variables[name] !== undefined ? variables[name] : match
+  );
+}
+
+let messageCounter = 0;
+
+function createMessage(
+  fromSide: 'bot' | 'user',
+  text: string,
+  extra: Partial<ConversationMessage> = {}
+): ConversationMessage {
+  messageCounter++;
+  return {
+    id: `sim-${Date.now()}-${messageCounter}`,
+    text,
+    fromSide,
+    timestamp: new Date(),
+    ...extra,
+  };
+}
+
+/**
+ * Step-by-step interpreter for a bot CSV.
+ * Each public method advances the conversation until user input is needed.
+ */
+export class ConversationSimulator {
+  private nodes: Map<number, SimNode>;
+  private options: SimulatorOptions;
+  private state: SimState;
+
+  constructor(csv: string, options: SimulatorOptions = {}) {
+    this.nodes = parseSimNodes(csv);
+    this.options = options;
+    this.state = this.createInitialState();
+  }
+
+  private createInitialState(): SimState {
+    return {
+      status: 'idle',
+      currentNode: null,
+      options: [],
+      outcomes: [],
+      variables: { ...(this.options.variables || {}) },
+      transcript: [],
+      visitedNodes: [],
+    };
+  }
+
+  getState(): SimState {
+    return {
+      ...this.state,
+      options: [...this.state.options],
+      outcomes: [...this.state.outcomes],
+      variables: { ...this.state.variables },
+      transcript: [...this.state.transcript],
+      visitedNodes: [...this.state.visitedNodes],
+    };
+  }
+
+  getNode(nodeNum: number): SimNode | undefined {
+    return this.nodes.get(nodeNum);
+  }
+
+  /**
+   * Reset and start the conversation at node 1 (or a specific node)
+   */
+  start(startNode: number = 1): SimState {
+    this.state = this.createInitialState();
+    this.runFrom(startNode);
+    return this.getState();
+  }
+
+  /**
+   * Click a button / quick reply / listpicker option by index or label
+   */
+  chooseOption(choice: number | string): SimState {
+    if (this.state.status !== 'awaiting_option') {
+      return this.fail(`Cannot choose an option while ${this.state.status}`);
+    }
+
+    const option = typeof choice === 'number'
+      ? this.state.options[choice]
+      : this.state.options.find(o => o.label.toLowerCase() === choice.toLowerCase());
+
+    if (!option) {
+      return this.fail(`Option not found: ${choice}`);
+    }
+
+    this.state.transcript.push(createMessage('user', option.label, { nodeNum: this.state.currentNode?.num }));
+
+    if (option.dest === null) {
+      return this.fail(`Option "${option.label}" on node ${this.state.currentNode?.num} has no destination`);
+    }
+
+    this.runFrom(option.dest);
+    return this.getState();
+  }
+
+  /**
+   * Send free text (used for free-text nodes, or typed instead of clicking)
+   */
+  sendText(text: string): SimState {
+    const node = this.state.currentNode;
+    if (!node || (this.state.status !== 'awaiting_text' && this.state.status !== 'awaiting_option')) {
+      return this.fail(`Cannot send text while ${this.state.status}`);
+    }
+
+    this.state.transcript.push(createMessage('user', text, { nodeNum: node.num }));
+
+    // Typed text matching an option label behaves like a click
+    const matchingOption = this.state.options.find(o => o.label.toLowerCase() === text.trim().toLowerCase());
+    if (matchingOption && matchingOption.dest !== null) {
+      this.runFrom(matchingOption.dest);
+      return this.getState();
+    }
+
+    if (node.variable) {
+      this.state.variables[node.variable] = text;
+    }
+    this.state.variables.LAST_USER_MESSAGE = text;
+
+    const candidates = parseNextNodes(node.nextNodes);
+    if (candidates.length === 0) {
+      // Button-only node: the widget would ignore unmatched text, so keep waiting
+      if (this.state.status === 'awaiting_option') {
+        this.state.transcript.push(createMessage('bot', '(No option matched - please pick one of the buttons)', { nodeNum: node.num }));
+        return this.getState();
+      }
+      return this.fail(`Node ${node.num} does not accept free text (no Next Nodes)`);
+    }
+
+    this.runFrom(this.pickByIntent(candidates, text));
+    return this.getState();
+  }
+
+  /**
+   * Resolve a pending action node with the chosen outcome
+   */
+  resolveAction(outcome: string): SimState {
+    const node = this.state.currentNode;
+    if (!node || this.state.status !== 'awaiting_outcome') {
+      return this.fail(`No action node is waiting for an outcome`);
+    }
+
+    const dest = this.applyActionOutcome(node, outcome);
+    if (dest === null) return this.getState();
+
+    this.runFrom(dest);
+    return this.getState();
+  }
+
+  /**
+   * Outcomes a given action node can produce: known SCRIPT_OUTPUTS plus any What Next branch
+   */
+  getPossibleOutcomes(node: SimNode): string[] {
+    const known = SCRIPT_OUTPUTS[node.command] || [];
+    const routed = [...parseWhatNext(node.whatNext).keys()];
+    return [...new Set([...routed, ...known])];
+  }
+
+  private runFrom(startNode: number): void {
+    const maxSteps = this.options.maxAutoSteps ?? DEFAULT_MAX_AUTO_STEPS;
+    let nodeNum: number | null = startNode;
+    let steps = 0;
+
+    while (nodeNum !== null) {
+      if (steps++ >= maxSteps) {
+        this.fail(`Stopped after ${maxSteps} nodes without user input (possible loop at node ${nodeNum})`);
+        return;
+      }
+
+      const node = this.nodes.get(nodeNum);
+      if (!node) {
+        this.fail(`Node ${nodeNum} is referenced but not defined`);
+        return;
+      }
+
+      this.state.currentNode = node;
+      this.state.options = [];
+      this.state.outcomes = [];
+      this.state.visitedNodes.push(node.num);
+
+      nodeNum = node.type === 'A' ? this.enterActionNode(node) : this.enterDecisionNode(node);
+    }
+  }
+
+  /**
+   * Render a decision node. Returns the next node to auto-advance to, or null to wait.
+   */
+  private enterDecisionNode(node: SimNode): number | null {
+    if (node.message.trim()) {
+      this.state.transcript.push(createMessage('bot', renderTemplate(node.message, this.state.variables), {
+        nodeNum: node.num,
+        richAssetType: node.richType || undefined,
+        richAssetContent: node.richContent || undefined,
+      }));
+    }
+
+    if (node.behaviors.includes('xfer_to_agent') || node.num === AGENT_TRANSFER_NODE) {
+      this.end('Transferred to agent');
+      return null;
+    }
+
+    if (node.num === END_CHAT_NODE || node.behaviors.includes('end_chat')) {
+      this.end('Chat ended');
+      return null;
+    }
+
+    const options = parseRichAssetOptions(node.richType, node.richContent);
+    if (options.length > 0) {
+      this.state.options = options;
+      this.state.status = 'awaiting_option';
+      return null;
+    }
+
+    const nextNodes = parseNextNodes(node.nextNodes);
+    if (nextNodes.length === 0) {
+      this.end(`Dead end at node ${node.num} (no Next Nodes or options)`);
+      return null;
+    }
+
+    // Single Next Node without an input prompt: message-only node, auto-advance
+    const expectsInput = node.ansReq === '1' || !!node.richType || nextNodes.length > 1;
+    if (!expectsInput) {
+      return nextNodes[0];
+    }
+
+    this.state.status = 'awaiting_text';
+    return null;
+  }
+
+  /**
+   * Run an action node. Returns the routed node, or null when waiting for an outcome.
+   */
+  private enterActionNode(node: SimNode): number | null {
+    this.state.outcomes = this.getPossibleOutcomes(node);
+
+    const scripted = this.options.scriptedOutcomes?.[String(node.num)]
+      ?? this.options.scriptedOutcomes?.[node.command];
+
+    if (scripted !== undefined) {
+      return this.applyActionOutcome(node, scripted);
+    }
+
+    if (this.options.autoResolveActions === false) {
+      this.state.status = 'awaiting_outcome';
+      return null;
+    }
+
+    return this.applyActionOutcome(node, this.defaultOutcome(node));
+  }
+
+  private defaultOutcome(node: SimNode): string {
+    const routes = parseWhatNext(node.whatNext);
+    if (routes.has('true')) return 'true';
+    // First non-error branch is the "happy path"
+    const happy = [...routes.keys()].find(k => k !== 'error' && k !== 'false');
+    return happy || [...routes.keys()][0] || 'true';
+  }
+
+  private applyActionOutcome(node: SimNode, outcome: string): number | null {
+    // SysAssignVariable-style "set" params update variables
+    if (node.paramInput.startsWith('{')) {
+      try {
+        const params = JSON.parse(node.paramInput);
+        if (params.set && typeof params.set === 'object') {
+          for (const [key, value] of Object.entries(params.set)) {
+            this.state.variables[key] = renderTemplate(String(value), this.state.variables);
+          }
+        }
+      } catch {
+        // Non-JSON params are ignored by the simulator
+      }
+    }
+
+    if (node.decVar) {
+      this.state.variables[node.decVar] = outcome;
+    }
+
+    const routes = parseWhatNext(node.whatNext);
+    const dest = routes.get(outcome);
+    if (dest === undefined) {
+      this.fail(`Action node ${node.num} (${node.command || 'no command'}) has no What Next route for "${outcome}"`);
+      return null;
+    }
+
+    return dest;
+  }
+
+  /**
+   * Choose among multiple Next Nodes by matching the typed text against each node's Intent
+   */
+  private pickByIntent(candidates: number[], text: string): number {
+    const lower = text.toLowerCase();
+    for (const num of candidates) {
+      const intent = this.nodes.get(num)?.intent.toLowerCase();
+      if (intent && intent.split(/[,|]/).some(i => i.trim() && lower.includes(i.trim().replace(/_/g, ' ')))) {
+        return num;
+      }
+    }
+    return candidates[0];
+  }
+
+  private end(reason: string): void {
+    this.state.status = 'ended';
+    this.state.endReason = reason;
+  }
+
+  private fail(error: string): SimState {
+    console.warn('[Simulator]', error);
+    this.state.status = 'error';
+    this.state.error = error;
+    return this.getState();
+  }
+}
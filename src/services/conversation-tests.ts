@@ -0,0 +1,275 @@
+/**
+ * Conversation Test Service
+ *
+ * Runs scripted conversation tests against a bot CSV using the offline simulator.
+ * A suite is JSON or YAML:
+ *
+ * {
+ *   "name": "Claims regression",
+ *   "tests": [{
+ *     "name": "File a claim",
+ *     "outcomes": { "10": "ios" },
+ *     "steps": [
+ *       { "expectMessage": "Welcome" },
+ *       { "click": "File a claim" },
+ *       { "expectNode": 300 },
+ *       { "say": "john@example.com" },
+ *       { "expectVariable": { "USER_EMAIL": "john@example.com" } }
+ *     ]
+ *   }]
+ * }
+ *
+ * or the same in YAML:
+ *
+ *   name: Claims regression
+ *   tests:
+ *     - name: File a claim
+ *       steps:
+ *         - expectMessage: Welcome
+ *         - click: File a claim
+ *         - expectNode: 300
+ *
+ * Used by scripts/test-conversations.ts (headless) and the ReviewPage test panel.
+ */
+
+import { parse as parseYAML } from 'yaml';
+import type { FailedRow } from '../types';
+import { ConversationSimulator, type SimState, type SimStatus } from './conversation-simulator';
+
+export interface ConversationTestStep {
+  // Actions
+  click?: string | number;
+  say?: string;
+  outcome?: string;
+  // Assertions
+  expectNode?: number;
+  expectMessage?: string;
+  expectOptions?: string[];
+  expectVariable?: Record<string, string>;
+  expectStatus?: SimStatus;
+}
+
+export interface ConversationTest {
+  name: string;
+  startNode?: number;
+  // Action outcomes keyed by node number or command name
+  outcomes?: Record<string, string>;
+  // When true, action nodes without a scripted outcome wait for an "outcome" step
+  manualOutcomes?: boolean;
+  variables?: Record<string, string>;
+  steps: ConversationTestStep[];
+}
+
+export interface ConversationTestSuite {
+  name?: string;
+  variables?: Record<string, string>;
+  tests: ConversationTest[];
+}
+
+export interface ConversationTestResult {
+  name: string;
+  passed: boolean;
+  stepsRun: number;
+  failures: FailedRow[];
+  visitedNodes: number[];
+  // Index of the step that failed (replayConversationTest jumps there)
+  failedStep?: number;
+}
+
+export interface ConversationReplay {
+  simulator: ConversationSimulator;
+  state: SimState;
+}
+
+export interface ConversationSuiteResult {
+  name: string;
+  passed: number;
+  failed: number;
+  results: ConversationTestResult[];
+}
+
+/**
+ * Parse and validate a suite definition (JSON or YAML text, or already-parsed object)
+ */
+export function parseConversationTestSuite(input: string | unknown): ConversationTestSuite {
+  const data: any = typeof input === 'string' ? parseSuiteText(input) : input;
+
+  // Accept a bare array of tests as shorthand
+  const suite: any = Array.isArray(data) ? { tests: data } : data;
+
+  if (!suite || !Array.isArray(suite.tests)) {
+    throw new Error('Test suite must have a "tests" array');
+  }
+
+  suite.tests.forEach((test: any, idx: number) => {
+    if (!test || typeof test.name !== 'string') {
+      throw new Error(`Test #${idx + 1} is missing a "name"`);
+    }
+    if (!Array.isArray(test.steps)) {
+      throw new Error(`Test "${test.name}" is missing a "steps" array`);
+    }
+  });
+
+  return suite as ConversationTestSuite;
+}
+
+// JSON when it looks like JSON (clearer errors), YAML otherwise
+function parseSuiteText(text: string): unknown {
+  const trimmed = text.trim();
+  if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+    return JSON.parse(trimmed);
+  }
+  return parseYAML(trimmed);
+}
+
+function createTestSimulator(csv: string, test: ConversationTest, suiteVariables: Record<string, string>): ConversationSimulator {
+  return new ConversationSimulator(csv, {
+    scriptedOutcomes: test.outcomes,
+    variables: { ...suiteVariables, ...(test.variables || {}) },
+    autoResolveActions: !test.manualOutcomes,
+  });
+}
+
+function runStep(simulator: ConversationSimulator, step: ConversationTestStep, state: SimState): SimState {
+  if (step.click !== undefined) return simulator.chooseOption(step.click);
+  if (step.say !== undefined) return simulator.sendText(step.say);
+  if (step.outcome !== undefined) return simulator.resolveAction(step.outcome);
+  return state;
+}
+
+/**
+ * Run a single conversation test
+ */
+export function runConversationTest(
+  csv: string,
+  test: ConversationTest,
+  suiteVariables: Record<string, string> = {}
+): ConversationTestResult {
+  const simulator = createTestSimulator(csv, test, suiteVariables);
+
+  const failures: FailedRow[] = [];
+  let state = simulator.start(test.startNode ?? 1);
+  let stepsRun = 0;
+  let failedStep: number | undefined;
+
+  for (let i = 0; i < test.steps.length; i++) {
+    const step = test.steps[i];
+    stepsRun++;
+    state = runStep(simulator, step, state);
+
+    const errors = checkStepAssertions(step, state);
+
+    // A simulator error during an action step is a failure even without assertions
+    if (state.status === 'error' && step.expectStatus !== 'error') {
+      errors.push(state.error || 'Simulator error');
+    }
+
+    if (errors.length > 0) {
+      failures.push(toFailedRow(state, i, errors));
+      failedStep = i;
+      break;
+    }
+  }
+
+  return {
+    name: test.name,
+    passed: failures.length === 0,
+    stepsRun,
+    failures,
+    visitedNodes: state.visitedNodes,
+    failedStep,
+  };
+}
+
+/**
+ * Replay a test up to and including a step, leaving a live simulator at that
+ * turn so the conversation can be inspected and continued
+ */
+export function replayConversationTest(
+  csv: string,
+  test: ConversationTest,
+  throughStep: number,
+  suiteVariables: Record<string, string> = {}
+): ConversationReplay {
+  const simulator = createTestSimulator(csv, test, suiteVariables);
+  let state = simulator.start(test.startNode ?? 1);
+  for (const step of test.steps.slice(0, throughStep + 1)) {
+    state = runStep(simulator, step, state);
+  }
+  return { simulator, state };
+}
+
+/**
+ * Run every test in a suite
+ */
+export function runConversationTestSuite(csv: string, suite: ConversationTestSuite): ConversationSuiteResult {
+  const results = suite.tests.map(test => runConversationTest(csv, test, suite.variables));
+  const passed = results.filter(r => r.passed).length;
+
+  return {
+    name: suite.name || 'Conversation tests',
+    passed,
+    failed: results.length - passed,
+    results,
+  };
+}
+
+function checkStepAssertions(step: ConversationTestStep, state: SimState): string[] {
+  const errors: string[] = [];
+
+  if (step.expectNode !== undefined && state.currentNode?.num !== step.expectNode) {
+    errors.push(`Expected to be at node ${step.expectNode}, but at node ${state.currentNode?.num ?? 'none'}`);
+  }
+
+  if (step.expectMessage !== undefined) {
+    // Only look at bot messages since the last user turn
+    const recentBotText = takeRecentBotMessages(state).join('\n').toLowerCase();
+    if (!recentBotText.includes(step.expectMessage.toLowerCase())) {
+      errors.push(`Expected a bot message containing "${step.expectMessage}"`);
+    }
+  }
+
+  if (step.expectOptions !== undefined) {
+    const labels = state.options.map(o => o.label.toLowerCase());
+    const missing = step.expectOptions.filter(o => !labels.includes(o.toLowerCase()));
+    if (missing.length > 0) {
+      errors.push(`Missing expected options: ${missing.join(', ')}`);
+    }
+  }
+
+  if (step.expectVariable !== undefined) {
+    for (const [name, expected] of Object.entries(step.expectVariable)) {
+      const actual = state.variables[name];
+      if (actual !== expected) {
+        errors.push(`Expected variable ${name} = "${expected}", got ${actual === undefined ? 'unset' : `"${actual}"`}`);
+      }
+    }
+  }
+
+  if (step.expectStatus !== undefined && state.status !== step.expectStatus) {
+    errors.push(`Expected status "${step.expectStatus}", got "${state.status}"`);
+  }
+
+  return errors;
+}
+
+function takeRecentBotMessages(state: SimState): string[] {
+  const texts: string[] = [];
+  for (let i = state.transcript.length - 1; i >= 0; i--) {
+    const msg = state.transcript[i];
+    if (msg.fromSide === 'user') break;
+    texts.unshift(msg.text);
+  }
+  return texts;
+}
+
+function toFailedRow(state: SimState, stepIndex: number, errors: string[]): FailedRow {
+  const node = state.currentNode;
+  return {
+    nodeNum: node?.num ?? 0,
+    rowNum: node?.rowNum ?? 0,
+    nodeName: node?.name,
+    nodeType: node?.type,
+    errors: errors.map(e => `Step ${stepIndex + 1}: ${e}`),
+  };
+}
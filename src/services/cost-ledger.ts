@@ -0,0 +1,241 @@
+/**
+ * Cost Ledger
+ *
+ * Token and dollar cost of AI calls, keyed by solution and pipeline step.
+ * The dev server reports the AI calls behind every /api response in the
+ * X-LLM-Usage header (vite/llm-gateway.ts). A build collects them in a
+ * CostLedger, which also enforces the per-build budget; entries are written
+ * to ai_usage once the build has a SavedSolution id.
+ *
+ * Budget: VITE_BUILD_BUDGET_USD, or the value set on the dashboard.
+ */
+
+import { supabase } from '../lib/supabase';
+import type { AIUsageEntry, CostStep, CostSummary, CostTotals } from '../types';
+
+const LLM_USAGE_HEADER = 'X-LLM-Usage';
+const BUDGET_STORAGE_KEY = 'build-budget-usd';
+
+// ============================================
+// USAGE HEADER
+// ============================================
+
+/**
+ * AI calls made while serving a response - empty when the endpoint made none
+ */
+export function readLLMUsage(response: Response, step: CostStep, pass?: number): AIUsageEntry[] {
+  const header = response.headers.get(LLM_USAGE_HEADER);
+  if (!header) return [];
+
+  try {
+    const calls = JSON.parse(header) as Array<Omit<AIUsageEntry, 'step' | 'pass' | 'createdAt'>>;
+    const createdAt = new Date().toISOString();
+    return calls.map(call => ({
+      step,
+      ...(pass !== undefined ? { pass } : {}),
+      tag: call.tag,
+      provider: call.provider,
+      model: call.model,
+      inputTokens: call.inputTokens || 0,
+      outputTokens: call.outputTokens || 0,
+      costUsd: call.costUsd || 0,
+      createdAt,
+    }));
+  } catch {
+    console.warn('[CostLedger] Unreadable usage header:', header);
+    return [];
+  }
+}
+
+// ============================================
+// BUDGET
+// ============================================
+
+export function getBuildBudgetUsd(): number | null {
+  let value: string | null | undefined = import.meta.env?.VITE_BUILD_BUDGET_USD;
+  try {
+    value = globalThis.localStorage?.getItem(BUDGET_STORAGE_KEY) ?? value;
+  } catch {
+    // localStorage unavailable
+  }
+  const budget = Number(value);
+  return value && budget > 0 ? budget : null;
+}
+
+export function setBuildBudgetUsd(budget: number | null): void {
+  if (budget && budget > 0) {
+    localStorage.setItem(BUDGET_STORAGE_KEY, String(budget));
+  } else {
+    localStorage.removeItem(BUDGET_STORAGE_KEY);
+  }
+}
+
+// ============================================
+// LEDGER
+// ============================================
+
+/**
+ * Usage for one build (or other run) before it is attached to a solution
+ */
+export class CostLedger {
+  readonly entries: AIUsageEntry[] = [];
+  private budgetExceeded = false;
+
+  constructor(readonly budgetUsd: number | null = getBuildBudgetUsd()) {}
+
+  record(response: Response, step: CostStep, pass?: number): void {
+    const entries = readLLMUsage(response, step, pass);
+    this.entries.push(...entries);
+    for (const entry of entries) {
+      console.log(`[CostLedger] ${step}${pass ? ` #${pass}` : ''} ${entry.model}: ${entry.inputTokens} in / ${entry.outputTokens} out (${formatCost(entry.costUsd)})`);
+    }
+  }
+
+  get totalCostUsd(): number {
+    return this.entries.reduce((sum, e) => sum + e.costUsd, 0);
+  }
+
+  /**
+   * Whether another call for this step fits in the budget, judged by the
+   * average cost of the step's calls so far (any spend left, before the first)
+   */
+  canAfford(step: CostStep): boolean {
+    if (this.budgetUsd === null) return true;
+    const remaining = this.budgetUsd - this.totalCostUsd;
+    const previous = this.entries.filter(e => e.step === step);
+    const expected = previous.length > 0 ? previous.reduce((sum, e) => sum + e.costUsd, 0) / previous.length : 0;
+    const affordable = remaining > 0 && remaining >= expected;
+    if (!affordable) this.budgetExceeded = true;
+    return affordable;
+  }
+
+  summary(): CostSummary {
+    return {
+      ...summarizeCosts(this.entries),
+      ...(this.budgetUsd !== null ? { budgetUsd: this.budgetUsd, budgetExceeded: this.budgetExceeded } : {}),
+    };
+  }
+}
+
+export function summarizeCosts(entries: Array<Pick<AIUsageEntry, 'step' | 'inputTokens' | 'outputTokens' | 'costUsd'>>): CostSummary {
+  const summary: CostSummary = { ...emptyTotals(), byStep: {} };
+  for (const entry of entries) {
+    for (const totals of [summary, summary.byStep[entry.step] ||= emptyTotals()]) {
+      totals.calls++;
+      totals.inputTokens += entry.inputTokens;
+      totals.outputTokens += entry.outputTokens;
+      totals.costUsd += entry.costUsd;
+    }
+  }
+  return summary;
+}
+
+function emptyTotals(): CostTotals {
+  return { calls: 0, inputTokens: 0, outputTokens: 0, costUsd: 0 };
+}
+
+// ============================================
+// PERSISTENCE (ai_usage)
+// ============================================
+
+/**
+ * Append entries to a solution's ledger
+ */
+export async function saveCostEntries(solutionId: string, entries: AIUsageEntry[]): Promise<boolean> {
+  if (!solutionId || entries.length === 0) return true;
+
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      console.error('[CostLedger] No authenticated user for cost entries');
+      return false;
+    }
+
+    const { error } = await supabase.from('ai_usage').insert(entries.map(entry => ({
+      project_id: solutionId,
+      user_id: user.id,
+      step: entry.step,
+      pass: entry.pass ?? null,
+      tag: entry.tag,
+      provider: entry.provider,
+      model: entry.model,
+      input_tokens: entry.inputTokens,
+      output_tokens: entry.outputTokens,
+      cost_usd: entry.costUsd,
+      created_at: entry.createdAt,
+    })));
+
+    if (error) {
+      console.error('[CostLedger] Error saving cost entries:', error);
+      return false;
+    }
+    return true;
+  } catch (error) {
+    console.error('[CostLedger] Error saving cost entries:', error);
+    return false;
+  }
+}
+
+/**
+ * Record a single response's AI usage straight to a solution's ledger
+ * (UX review, live edit and other calls made after the build)
+ */
+export async function recordSolutionUsage(solutionId: string | null | undefined, response: Response, step: CostStep): Promise<void> {
+  if (!solutionId) return;
+  await saveCostEntries(solutionId, readLLMUsage(response, step));
+}
+
+/**
+ * Cost totals per solution ID for the current user
+ */
+export async function fetchCostTotals(solutionIds?: string[]): Promise<Record<string, CostSummary>> {
+  try {
+    let query = supabase.from('ai_usage').select('project_id, step, input_tokens, output_tokens, cost_usd');
+    if (solutionIds) query = query.in('project_id', solutionIds);
+    const { data, error } = await query;
+
+    if (error) {
+      console.error('[CostLedger] Error fetching cost totals:', error);
+      return {};
+    }
+
+    const rowsBySolution: Record<string, Array<Pick<AIUsageEntry, 'step' | 'inputTokens' | 'outputTokens' | 'costUsd'>>> = {};
+    for (const row of data || []) {
+      (rowsBySolution[row.project_id] ||= []).push({
+        step: row.step,
+        inputTokens: row.input_tokens || 0,
+        outputTokens: row.output_tokens || 0,
+        costUsd: Number(row.cost_usd) || 0,
+      });
+    }
+    return Object.fromEntries(Object.entries(rowsBySolution).map(([id, rows]) => [id, summarizeCosts(rows)]));
+  } catch (error) {
+    console.error('[CostLedger] Error fetching cost totals:', error);
+    return {};
+  }
+}
+
+// ============================================
+// FORMATTING
+// ============================================
+
+export function formatCost(usd: number): string {
+  if (usd === 0) return '$0.00';
+  if (usd < 0.01) return '<$0.01';
+  return `$${usd.toFixed(2)}`;
+}
+
+export function formatTokens(tokens: number): string {
+  if (tokens >= 1_000_000) return `${(tokens / 1_000_000).toFixed(1)}M`;
+  if (tokens >= 1000) return `${(tokens / 1000).toFixed(1)}k`;
+  return String(tokens);
+}
+
+export const COST_STEP_LABELS: Record<CostStep, string> = {
+  'plan': 'Flow planning',
+  'flow-generation': 'Flow generation',
+  'refinement': 'Refinement',
+  'ux-review': 'UX review',
+  'live-edit': 'Live edit',
+  'other': 'Other',
+};
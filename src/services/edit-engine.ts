@@ -6,6 +6,9 @@
  */
 
 import type { EditRequest, EditResult, ConversationContext, CustomScript } from '../types';
+import { BotDocument, fieldForHeader } from './bot-document';
+import { BOT_NODE_FIELDS } from './node-schema';
+import { recordSolutionUsage } from './cost-ledger';
 
 // API endpoint for AI generation
 const AI_ENDPOINT = '/api/ai/generate';
@@ -34,6 +37,7 @@ export async function processEditRequest(request: EditRequest): Promise<EditResu
         currentScripts: currentScripts.map(s => ({ name: s.name, content: s.content }))
       })
     });
+    recordSolutionUsage(request.solutionId, response, 'live-edit');
     
     if (!response.ok) {
       throw new Error(`AI API returned ${response.status}`);
@@ -148,16 +152,12 @@ export function applySimpleEdit(
   columnName: string,
   newValue: string
 ): EditResult {
-  const lines = csv.split('\n');
-  const header = lines[0];
-  const headerCols = parseCSVRow(header);
+  const doc = BotDocument.parse(csv);
   
-  // Find column index
-  const colIndex = headerCols.findIndex(
-    h => h.toLowerCase().trim() === columnName.toLowerCase().trim()
-  );
+  // Find column
+  const field = fieldForHeader(columnName);
   
-  if (colIndex === -1) {
+  if (!field) {
     return {
       success: false,
       modifiedCsv: csv,
@@ -168,24 +168,7 @@ export function applySimpleEdit(
   }
   
   // Find and modify the node
-  let modified = false;
-  const modifiedLines = lines.map((line, i) => {
-    if (i === 0) return line; // Keep header
-    
-    const cols = parseCSVRow(line);
-    if (cols.length === 0) return line;
-    
-    const lineNodeNum = parseInt(cols[0], 10);
-    if (lineNodeNum === nodeNum) {
-      cols[colIndex] = escapeCSVField(newValue);
-      modified = true;
-      return cols.join(',');
-    }
-    
-    return line;
-  });
-  
-  if (!modified) {
+  if (!doc.setField(nodeNum, field, newValue)) {
     return {
       success: false,
       modifiedCsv: csv,
@@ -197,95 +180,28 @@ export function applySimpleEdit(
   
   return {
     success: true,
-    modifiedCsv: modifiedLines.join('\n'),
+    modifiedCsv: doc.toCSV(),
     changesSummary: `Updated ${columnName} for node ${nodeNum}`,
     affectedNodes: [nodeNum]
   };
 }
 
-/**
- * Parse a CSV row handling quoted fields
- */
-function parseCSVRow(line: string): string[] {
-  const result: string[] = [];
-  let current = '';
-  let inQuotes = false;
-  
-  for (let i = 0; i < line.length; i++) {
-    const char = line[i];
-    
-    if (char === '"') {
-      if (inQuotes && line[i + 1] === '"') {
-        current += '"';
-        i++;
-      } else {
-        inQuotes = !inQuotes;
-      }
-    } else if (char === ',' && !inQuotes) {
-      result.push(current.trim());
-      current = '';
-    } else {
-      current += char;
-    }
-  }
-  result.push(current.trim());
-  
-  return result;
-}
-
-/**
- * Escape a field for CSV
- */
-function escapeCSVField(value: string): string {
-  if (value.includes(',') || value.includes('"') || value.includes('\n')) {
-    return `"${value.replace(/"/g, '""')}"`;
-  }
-  return value;
-}
-
 /**
  * Find nodes matching a text pattern
  */
 export function findNodesWithText(csv: string, searchText: string): number[] {
-  const lines = csv.split('\n');
-  const matches: number[] = [];
   const searchLower = searchText.toLowerCase();
   
-  for (let i = 1; i < lines.length; i++) {
-    const line = lines[i].toLowerCase();
-    if (line.includes(searchLower)) {
-      const cols = parseCSVRow(lines[i]);
-      const nodeNum = parseInt(cols[0], 10);
-      if (!isNaN(nodeNum)) {
-        matches.push(nodeNum);
-      }
-    }
-  }
-  
-  return matches;
+  return BotDocument.parse(csv).nodes
+    .filter(node => BOT_NODE_FIELDS.some(({ key }) => node[key].toLowerCase().includes(searchLower)))
+    .map(node => node.nodeNum);
 }
 
 /**
  * Get node details by number
  */
 export function getNodeDetails(csv: string, nodeNum: number): Record<string, string> | null {
-  const lines = csv.split('\n');
-  const header = parseCSVRow(lines[0]);
-  
-  for (let i = 1; i < lines.length; i++) {
-    const cols = parseCSVRow(lines[i]);
-    const lineNodeNum = parseInt(cols[0], 10);
-    
-    if (lineNodeNum === nodeNum) {
-      const details: Record<string, string> = {};
-      header.forEach((col, idx) => {
-        details[col] = cols[idx] || '';
-      });
-      return details;
-    }
-  }
-  
-  return null;
+  return BotDocument.parse(csv).getLabeledNode(nodeNum) || null;
 }
 
 export default {
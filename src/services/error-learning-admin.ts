@@ -0,0 +1,144 @@
+/**
+ * Error Learning Admin API
+ *
+ * Curation of the self-improvement data through the sd-error-learning edge
+ * function: browse error patterns and their fix attempts, approve / reject /
+ * edit fixes, merge duplicate signatures, and choose which patterns feed
+ * formatErrorsToAvoidForPrompt. Writes need an admin account (ADMIN_EMAILS
+ * secret on the function; VITE_ADMIN_EMAILS controls what the app shows).
+ */
+
+import { supabase } from '../lib/supabase';
+import type { ErrorPattern, FixAttempt, FixReviewStatus } from './error-learning';
+
+const ERROR_LEARNING_ENDPOINT = '/functions/v1/sd-error-learning';
+
+export type PatternSortOrder = 'occurrence_count' | 'last_seen_at';
+
+export interface ErrorPatternSummary extends ErrorPattern {
+  fix_count: number;
+}
+
+export interface ErrorPatternDetail {
+  pattern: ErrorPattern;
+  fixes: FixAttempt[];
+}
+
+export interface FixChanges {
+  review_status?: FixReviewStatus;
+  fix_description?: string;
+  fix_diff?: Record<string, unknown> | null;
+}
+
+export function isErrorLearningAdmin(email: string | null | undefined): boolean {
+  if (!email) return false;
+  const admins = (import.meta.env.VITE_ADMIN_EMAILS || '')
+    .split(',')
+    .map(e => e.trim().toLowerCase())
+    .filter(Boolean);
+  return admins.includes(email.toLowerCase());
+}
+
+async function request(path: string, init: RequestInit = {}): Promise<Response> {
+  const { data: { session } } = await supabase.auth.getSession();
+  return fetch(`${ERROR_LEARNING_ENDPOINT}${path}`, {
+    ...init,
+    headers: {
+      'Content-Type': 'application/json',
+      ...(session?.access_token ? { 'Authorization': `Bearer ${session.access_token}` } : {}),
+    },
+  });
+}
+
+async function errorMessage(response: Response): Promise<string> {
+  const body = await response.json().catch(() => null);
+  return body?.error || `Request failed (${response.status})`;
+}
+
+// ============================================
+// PATTERNS
+// ============================================
+
+export async function listErrorPatterns(
+  options: { orderBy?: PatternSortOrder; search?: string; limit?: number } = {}
+): Promise<ErrorPatternSummary[]> {
+  const params = new URLSearchParams({
+    order_by: options.orderBy || 'occurrence_count',
+    limit: String(options.limit || 100),
+  });
+  if (options.search?.trim()) params.set('search', options.search.trim());
+
+  try {
+    const response = await request(`/patterns?${params}`);
+    if (!response.ok) {
+      console.error('[ErrorLearningAdmin] Failed to list patterns:', await errorMessage(response));
+      return [];
+    }
+
+    const data = await response.json();
+    return (data.patterns || []).map(({ fix_attempts, ...pattern }: ErrorPattern & { fix_attempts?: Array<{ count: number }> }) => ({
+      ...pattern,
+      fix_count: fix_attempts?.[0]?.count ?? 0,
+    }));
+  } catch (error) {
+    console.error('[ErrorLearningAdmin] Error listing patterns:', error);
+    return [];
+  }
+}
+
+export async function getErrorPatternDetail(patternId: string): Promise<ErrorPatternDetail | null> {
+  try {
+    const response = await request(`/patterns/${encodeURIComponent(patternId)}`);
+    if (!response.ok) {
+      console.error('[ErrorLearningAdmin] Failed to load pattern:', await errorMessage(response));
+      return null;
+    }
+
+    const data = await response.json();
+    return { pattern: data.pattern, fixes: data.fixes || [] };
+  } catch (error) {
+    console.error('[ErrorLearningAdmin] Error loading pattern:', error);
+    return null;
+  }
+}
+
+/**
+ * Include or exclude a pattern from the generation prompt's errors to avoid
+ */
+export async function setAvoidInPrompt(patternId: string, avoidInPrompt: boolean): Promise<ErrorPattern> {
+  const response = await request(`/patterns/${encodeURIComponent(patternId)}`, {
+    method: 'PUT',
+    body: JSON.stringify({ avoid_in_prompt: avoidInPrompt }),
+  });
+  if (!response.ok) throw new Error(await errorMessage(response));
+  return (await response.json()).pattern;
+}
+
+/**
+ * Fold duplicate patterns (and their fixes) into targetId
+ */
+export async function mergeErrorPatterns(targetId: string, sourceIds: string[]): Promise<ErrorPattern> {
+  const response = await request('/patterns/merge', {
+    method: 'POST',
+    body: JSON.stringify({ target_id: targetId, source_ids: sourceIds }),
+  });
+  if (!response.ok) throw new Error(await errorMessage(response));
+  console.log(`[ErrorLearningAdmin] Merged ${sourceIds.length} pattern(s) into ${targetId}`);
+  return (await response.json()).pattern;
+}
+
+// ============================================
+// FIXES
+// ============================================
+
+/**
+ * Approve, reject or edit a fix attempt
+ */
+export async function updateFix(fixId: string, changes: FixChanges): Promise<FixAttempt> {
+  const response = await request(`/fixes/${encodeURIComponent(fixId)}`, {
+    method: 'PUT',
+    body: JSON.stringify(changes),
+  });
+  if (!response.ok) throw new Error(await errorMessage(response));
+  return (await response.json()).fix;
+}
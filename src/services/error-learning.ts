@@ -8,9 +8,14 @@
  * - During CSV generation: Include errors to avoid in prompt
  * - During validation: Log error patterns
  * - During refinement: Query known fixes, log fix attempts
+ *
+ * Reads use the Supabase client directly; writes go through the
+ * sd-error-learning edge function, the only writer the tables allow.
  */
 
 import { supabase } from '../lib/supabase';
+import { BotDocument } from './bot-document';
+import type { CSVNodeChange } from './bot-diff';
 
 // ============================================
 // TYPES
@@ -26,8 +31,13 @@ export interface ErrorPattern {
   occurrence_count: number;
   first_seen_at: string;
   last_seen_at: string;
+  // Admin curation (see error-learning-admin.ts)
+  avoid_in_prompt?: boolean;
+  merged_signatures?: string[];
 }
 
+export type FixReviewStatus = 'pending' | 'approved' | 'rejected';
+
 export interface FixAttempt {
   id: string;
   error_pattern_id: string;
@@ -40,6 +50,10 @@ export interface FixAttempt {
   confidence_score: number;
   created_at: string;
   last_applied_at: string;
+  // Approved fixes count as proven regardless of confidence; rejected fixes are never used
+  review_status?: FixReviewStatus;
+  reviewed_by?: string | null;
+  reviewed_at?: string | null;
   error_patterns?: ErrorPattern;
 }
 
@@ -139,23 +153,13 @@ export function extractNodeContext(csv: string, nodeNum: number | undefined): Re
   if (!nodeNum) return null;
   
   try {
-    const lines = csv.split('\n');
-    const headers = lines[0]?.split(',').map(h => h.trim().replace(/"/g, ''));
-    
-    // Find the row with this node number
-    for (let i = 1; i < lines.length; i++) {
-      const line = lines[i];
-      // Simple check for node number at start
-      if (line.startsWith(`${nodeNum},`) || line.startsWith(`"${nodeNum}",`)) {
-        const values = parseCSVLine(line);
-        const context: Record<string, unknown> = {};
-        headers?.forEach((header, idx) => {
-          if (values[idx] && values[idx].trim()) {
-            context[header] = values[idx];
-          }
-        });
-        return context;
+    const labeled = BotDocument.parse(csv).getLabeledNode(nodeNum);
+    if (labeled) {
+      const context: Record<string, unknown> = {};
+      for (const [header, value] of Object.entries(labeled)) {
+        if (value) context[header] = value;
       }
+      return context;
     }
   } catch (e) {
     console.warn('[SELF-IMPROVE] Failed to extract node context:', e);
@@ -164,44 +168,36 @@ export function extractNodeContext(csv: string, nodeNum: number | undefined): Re
   return null;
 }
 
-/**
- * Simple CSV line parser that handles quoted fields
- */
-function parseCSVLine(line: string): string[] {
-  const result: string[] = [];
-  let current = '';
-  let inQuotes = false;
-  
-  for (let i = 0; i < line.length; i++) {
-    const char = line[i];
-    
-    if (char === '"') {
-      if (inQuotes && line[i + 1] === '"') {
-        current += '"';
-        i++;
-      } else {
-        inQuotes = !inQuotes;
-      }
-    } else if (char === ',' && !inQuotes) {
-      result.push(current.trim());
-      current = '';
-    } else {
-      current += char;
-    }
-  }
-  result.push(current.trim());
-  
-  return result;
-}
-
 // ============================================
-// API FUNCTIONS (Direct Supabase Client)
+// API FUNCTIONS (Supabase reads, edge function writes)
 // ============================================
 
+const ERROR_LEARNING_ENDPOINT = '/functions/v1/sd-error-learning';
+
 // Track consecutive failures to avoid spamming on temporary outages
 let consecutiveFailures = 0;
 const MAX_FAILURES_BEFORE_BACKOFF = 3;
 
+/**
+ * POST to the sd-error-learning edge function. Throws with the function's error.
+ */
+async function postToErrorLearning<T>(path: string, body: unknown): Promise<T> {
+  const { data: { session } } = await supabase.auth.getSession();
+  const response = await fetch(`${ERROR_LEARNING_ENDPOINT}${path}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(session?.access_token ? { 'Authorization': `Bearer ${session.access_token}` } : {}),
+    },
+    body: JSON.stringify(body),
+  });
+  const data = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new Error(data?.error || `Request failed (${response.status})`);
+  }
+  return data as T;
+}
+
 /**
  * Check if we should attempt the request (simple backoff on repeated failures)
  */
@@ -252,58 +248,18 @@ export async function logErrorPattern(
     
     console.log(`[SELF-IMPROVE] 📝 Logging error pattern: ${errorType} (${signature})`);
     
-    // Check if pattern already exists
-    const { data: existing } = await supabase
-      .from('error_patterns')
-      .select('id, occurrence_count, node_context')
-      .eq('error_signature', signature)
-      .single();
-    
-    if (existing) {
-      // Increment occurrence count
-      const { error: updateError } = await supabase
-        .from('error_patterns')
-        .update({
-          occurrence_count: existing.occurrence_count + 1,
-          last_seen_at: new Date().toISOString(),
-          node_context: nodeContext || existing.node_context,
-        })
-        .eq('id', existing.id);
-      
-      if (updateError) {
-        recordFailure();
-        console.warn('[SELF-IMPROVE] ❌ Failed to update error pattern:', updateError);
-        return null;
-      }
-      
-      recordSuccess();
-      console.log(`[SELF-IMPROVE] ✅ Error pattern updated (count: ${existing.occurrence_count + 1}): ${existing.id}`);
-      return existing.id.toString();
-    }
-    
-    // Insert new pattern
-    const { data: newPattern, error: insertError } = await supabase
-      .from('error_patterns')
-      .insert({
-        error_signature: signature,
-        error_type: errorType,
-        field_name: fieldName,
-        error_description: description,
-        node_context: nodeContext,
-        occurrence_count: 1,
-      })
-      .select('id')
-      .single();
-    
-    if (insertError) {
-      recordFailure();
-      console.warn('[SELF-IMPROVE] ❌ Failed to log error pattern:', insertError);
-      return null;
-    }
+    // Creates the pattern or counts another occurrence (also of merged-away signatures)
+    const { pattern_id } = await postToErrorLearning<{ pattern_id: string }>('/patterns', {
+      error_signature: signature,
+      error_type: errorType,
+      field_name: fieldName,
+      error_description: description || errorType,
+      node_context: nodeContext,
+    });
     
     recordSuccess();
-    console.log(`[SELF-IMPROVE] ✅ Error pattern logged: ${newPattern.id}`);
-    return newPattern.id.toString();
+    console.log(`[SELF-IMPROVE] ✅ Error pattern logged: ${pattern_id}`);
+    return String(pattern_id);
   } catch (e) {
     recordFailure();
     console.warn('[SELF-IMPROVE] ❌ Error logging pattern:', e);
@@ -328,62 +284,17 @@ export async function logFixAttempt(
   try {
     console.log(`[SELF-IMPROVE] 📝 Logging fix attempt: ${fixDescription.substring(0, 50)}... (${success ? '✅ success' : '❌ failure'})`);
     
-    // Check if this fix description already exists for this pattern
-    const { data: existing } = await supabase
-      .from('fix_attempts')
-      .select('id, applied_count, success_count, failure_count, fix_diff')
-      .eq('error_pattern_id', errorPatternId)
-      .eq('fix_description', fixDescription)
-      .single();
-    
-    if (existing) {
-      // Update existing fix attempt
-      const { error: updateError } = await supabase
-        .from('fix_attempts')
-        .update({
-          applied_count: existing.applied_count + 1,
-          success_count: success ? existing.success_count + 1 : existing.success_count,
-          failure_count: success ? existing.failure_count : existing.failure_count + 1,
-          last_applied_at: new Date().toISOString(),
-          fix_diff: fixDiff || existing.fix_diff,
-        })
-        .eq('id', existing.id);
-      
-      if (updateError) {
-        recordFailure();
-        console.warn('[SELF-IMPROVE] ❌ Failed to update fix attempt:', updateError);
-        return null;
-      }
-      
-      recordSuccess();
-      console.log(`[SELF-IMPROVE] ✅ Fix attempt updated: ${existing.id}`);
-      return existing.id.toString();
-    }
-    
-    // Insert new fix attempt
-    const { data: newFix, error: insertError } = await supabase
-      .from('fix_attempts')
-      .insert({
-        error_pattern_id: parseInt(errorPatternId, 10),
-        fix_description: fixDescription,
-        fix_diff: fixDiff || null,
-        success,
-        applied_count: 1,
-        success_count: success ? 1 : 0,
-        failure_count: success ? 0 : 1,
-      })
-      .select('id')
-      .single();
-    
-    if (insertError) {
-      recordFailure();
-      console.warn('[SELF-IMPROVE] ❌ Failed to log fix attempt:', insertError);
-      return null;
-    }
+    // Creates the fix or adds to its applied / success / failure counts
+    const { fix_id } = await postToErrorLearning<{ fix_id: string }>('/fixes', {
+      error_pattern_id: errorPatternId,
+      fix_description: fixDescription,
+      fix_diff: fixDiff || null,
+      success,
+    });
     
     recordSuccess();
-    console.log(`[SELF-IMPROVE] ✅ Fix attempt logged: ${newFix.id}`);
-    return newFix.id.toString();
+    console.log(`[SELF-IMPROVE] ✅ Fix attempt logged: ${fix_id}`);
+    return String(fix_id);
   } catch (e) {
     recordFailure();
     console.warn('[SELF-IMPROVE] ❌ Error logging fix attempt:', e);
@@ -414,6 +325,7 @@ export async function getErrorsToAvoid(limit = 20): Promise<ErrorToAvoid[]> {
         error_description,
         occurrence_count
       `)
+      .eq('avoid_in_prompt', true)
       .order('occurrence_count', { ascending: false })
       .limit(limit);
     
@@ -436,6 +348,7 @@ export async function getErrorsToAvoid(limit = 20): Promise<ErrorToAvoid[]> {
       .select('error_pattern_id, fix_description, confidence_score')
       .in('error_pattern_id', patternIds)
       .gte('confidence_score', 0.5)
+      .neq('review_status', 'rejected')
       .order('confidence_score', { ascending: false });
     
     // Map fixes to patterns
@@ -480,11 +393,12 @@ export async function getKnownFixes(errors: ValidationError[]): Promise<FixAttem
     const signatures = errors.map(e => normalizeError(e));
     console.log(`[SELF-IMPROVE] 🔍 Querying known fixes for ${signatures.length} error signatures...`);
     
-    // First get pattern IDs for these signatures
+    // First get pattern IDs for these signatures (including merged ones)
+    const signatureList = signatures.join(',');
     const { data: patterns, error: patternError } = await supabase
       .from('error_patterns')
       .select('id, error_signature')
-      .in('error_signature', signatures);
+      .or(`error_signature.in.(${signatureList}),merged_signatures.ov.{${signatureList}}`);
     
     if (patternError || !patterns || patterns.length === 0) {
       recordSuccess();
@@ -508,10 +422,12 @@ export async function getKnownFixes(errors: ValidationError[]): Promise<FixAttem
         failure_count,
         confidence_score,
         created_at,
-        last_applied_at
+        last_applied_at,
+        review_status
       `)
       .in('error_pattern_id', patternIds)
       .gte('confidence_score', 0.5)
+      .neq('review_status', 'rejected')
       .order('confidence_score', { ascending: false });
     
     if (fixError) {
@@ -566,6 +482,7 @@ export async function getProvenFixes(
         confidence_score,
         created_at,
         last_applied_at,
+        review_status,
         error_patterns (
           id,
           error_signature,
@@ -574,8 +491,8 @@ export async function getProvenFixes(
           error_description
         )
       `)
-      .gte('confidence_score', minConfidence)
-      .gte('applied_count', minApplied)
+      .or(`and(confidence_score.gte.${minConfidence},applied_count.gte.${minApplied}),review_status.eq.approved`)
+      .neq('review_status', 'rejected')
       .order('confidence_score', { ascending: false })
       .limit(limit);
     
@@ -741,8 +658,8 @@ export interface HumanFix {
 }
 
 /**
- * Submit a human-provided fix to the learning system
- * This creates high-confidence fix patterns that will be used in future generations
+ * Submit a human-provided fix to the learning system (admins only)
+ * Each correction is stored as an approved fix that future generations can use
  */
 export async function submitHumanFix(fixData: HumanFix): Promise<boolean> {
   if (!shouldAttemptRequest()) {
@@ -753,83 +670,9 @@ export async function submitHumanFix(fixData: HumanFix): Promise<boolean> {
   try {
     console.log(`[SELF-IMPROVE] 📝 Submitting human fix with ${fixData.fixes.length} corrections`);
     
-    // Submit each fix as a high-confidence pattern
-    for (const fix of fixData.fixes) {
-      const errorSignature = `node_${fix.node_num}_${fix.field}`;
-      
-      // Check if pattern exists, upsert
-      const { data: existingPattern } = await supabase
-        .from('error_patterns')
-        .select('id')
-        .eq('error_signature', errorSignature)
-        .single();
-      
-      let patternId: number;
-      
-      if (existingPattern) {
-        patternId = existingPattern.id;
-        // Update occurrence count
-        await supabase
-          .from('error_patterns')
-          .update({
-            occurrence_count: 1,
-            last_seen_at: new Date().toISOString(),
-          })
-          .eq('id', patternId);
-      } else {
-        // Create new pattern
-        const { data: newPattern, error: patternError } = await supabase
-          .from('error_patterns')
-          .insert({
-            error_signature: errorSignature,
-            error_type: 'Human-Identified',
-            field_name: fix.field,
-            error_description: `Field "${fix.field}" had incorrect value. ${fix.explanation}`,
-            node_context: { node_num: fix.node_num, field: fix.field },
-            occurrence_count: 1,
-          })
-          .select('id')
-          .single();
-        
-        if (patternError || !newPattern) {
-          console.warn('[SELF-IMPROVE] Failed to create pattern for human fix:', patternError);
-          continue;
-        }
-        patternId = newPattern.id;
-      }
-      
-      // Create fix attempt with high success rate (pre-set high confidence)
-      const { error: fixError } = await supabase
-        .from('fix_attempts')
-        .insert({
-          error_pattern_id: patternId,
-          fix_description: `Change "${fix.current_value}" to "${fix.correct_value}". ${fix.explanation}`,
-          fix_diff: { before: fix.current_value, after: fix.correct_value },
-          success: true,
-          applied_count: 5, // Pre-seed with high counts for immediate confidence
-          success_count: 5,
-          failure_count: 0,
-        });
-      
-      if (!fixError) {
-        console.log(`[SELF-IMPROVE] ✅ Human fix logged for node ${fix.node_num}`);
-      }
-    }
-    
-    // Log general guidance as a pattern
-    if (fixData.general_guidance) {
-      await supabase
-        .from('error_patterns')
-        .insert({
-          error_signature: `guidance_${Date.now()}`,
-          error_type: 'Human-Guidance',
-          field_name: null,
-          error_description: fixData.general_guidance,
-          node_context: null,
-          occurrence_count: 1,
-        });
-      console.log(`[SELF-IMPROVE] ✅ General guidance logged`);
-    }
+    // Each correction becomes a pattern with an approved fix; guidance is its own pattern
+    const { logged } = await postToErrorLearning<{ logged: number }>('/human-fixes', fixData);
+    console.log(`[SELF-IMPROVE] ✅ Human fix logged for ${logged} of ${fixData.fixes.length} corrections`);
     
     recordSuccess();
     return true;
@@ -841,159 +684,11 @@ export async function submitHumanFix(fixData: HumanFix): Promise<boolean> {
 }
 
 // ============================================
-// CSV DIFF UTILITIES
+// CSV DIFF UTILITIES (moved to bot-diff.ts)
 // ============================================
 
-export interface CSVNodeChange {
-  nodeNum: number;
-  changeType: 'added' | 'removed' | 'modified';
-  changedFields: string[];
-  before?: Record<string, string>;
-  after?: Record<string, string>;
-}
-
-export interface CSVDiffResult {
-  changes: CSVNodeChange[];
-  summary: string;
-  addedNodes: number[];
-  removedNodes: number[];
-  modifiedNodes: number[];
-}
-
-/**
- * Parse CSV into a map of nodes keyed by node number
- */
-function parseCSVToNodeMap(csv: string): Map<number, Record<string, string>> {
-  const lines = csv.split('\n').filter(line => line.trim());
-  if (lines.length < 2) return new Map();
-  
-  const headers = parseCSVLine(lines[0]);
-  const nodeMap = new Map<number, Record<string, string>>();
-  
-  for (let i = 1; i < lines.length; i++) {
-    const values = parseCSVLine(lines[i]);
-    const nodeNum = parseInt(values[0]);
-    
-    if (!isNaN(nodeNum)) {
-      const node: Record<string, string> = {};
-      headers.forEach((header, idx) => {
-        node[header.trim()] = values[idx] || '';
-      });
-      nodeMap.set(nodeNum, node);
-    }
-  }
-  
-  return nodeMap;
-}
-
-/**
- * Compare two CSVs and return the differences
- */
-export function diffCSV(beforeCSV: string, afterCSV: string): CSVDiffResult {
-  const beforeNodes = parseCSVToNodeMap(beforeCSV);
-  const afterNodes = parseCSVToNodeMap(afterCSV);
-  
-  const changes: CSVNodeChange[] = [];
-  const addedNodes: number[] = [];
-  const removedNodes: number[] = [];
-  const modifiedNodes: number[] = [];
-  
-  // Find added and modified nodes
-  for (const [nodeNum, afterNode] of afterNodes) {
-    const beforeNode = beforeNodes.get(nodeNum);
-    
-    if (!beforeNode) {
-      // Node was added
-      addedNodes.push(nodeNum);
-      changes.push({
-        nodeNum,
-        changeType: 'added',
-        changedFields: Object.keys(afterNode).filter(k => afterNode[k]),
-        after: afterNode,
-      });
-    } else {
-      // Check for modifications
-      const changedFields: string[] = [];
-      for (const field of Object.keys(afterNode)) {
-        if (beforeNode[field] !== afterNode[field]) {
-          changedFields.push(field);
-        }
-      }
-      
-      if (changedFields.length > 0) {
-        modifiedNodes.push(nodeNum);
-        changes.push({
-          nodeNum,
-          changeType: 'modified',
-          changedFields,
-          before: beforeNode,
-          after: afterNode,
-        });
-      }
-    }
-  }
-  
-  // Find removed nodes
-  for (const nodeNum of beforeNodes.keys()) {
-    if (!afterNodes.has(nodeNum)) {
-      const beforeNode = beforeNodes.get(nodeNum)!;
-      removedNodes.push(nodeNum);
-      changes.push({
-        nodeNum,
-        changeType: 'removed',
-        changedFields: Object.keys(beforeNode).filter(k => beforeNode[k]),
-        before: beforeNode,
-      });
-    }
-  }
-  
-  // Generate summary
-  const summaryParts: string[] = [];
-  if (addedNodes.length > 0) {
-    summaryParts.push(`Added ${addedNodes.length} node(s): ${addedNodes.join(', ')}`);
-  }
-  if (removedNodes.length > 0) {
-    summaryParts.push(`Removed ${removedNodes.length} node(s): ${removedNodes.join(', ')}`);
-  }
-  if (modifiedNodes.length > 0) {
-    summaryParts.push(`Modified ${modifiedNodes.length} node(s): ${modifiedNodes.join(', ')}`);
-  }
-  
-  return {
-    changes,
-    summary: summaryParts.join('; ') || 'No changes detected',
-    addedNodes,
-    removedNodes,
-    modifiedNodes,
-  };
-}
-
-/**
- * Generate a human-readable description of changes for a specific node
- */
-export function describeNodeChanges(change: CSVNodeChange): string {
-  if (change.changeType === 'added') {
-    return `Added node ${change.nodeNum}`;
-  }
-  
-  if (change.changeType === 'removed') {
-    return `Removed node ${change.nodeNum}`;
-  }
-  
-  // Modified
-  const fieldChanges = change.changedFields.map(field => {
-    const before = change.before?.[field] || '(empty)';
-    const after = change.after?.[field] || '(empty)';
-    
-    // Truncate long values
-    const truncate = (s: string, max = 50) => 
-      s.length > max ? s.substring(0, max) + '...' : s;
-    
-    return `${field}: "${truncate(before)}" → "${truncate(after)}"`;
-  });
-  
-  return `Modified node ${change.nodeNum}: ${fieldChanges.join(', ')}`;
-}
+export { diffCSV, describeNodeChanges } from './bot-diff';
+export type { CSVNodeChange, CSVDiffResult } from './bot-diff';
 
 /**
  * Match changes to errors they likely fixed
@@ -1,11 +1,15 @@
 /**
  * Figma Analyzer Service
  * 
- * Analyzes Figma/FigJam files by calling the Supabase Edge Function.
- * The Edge Function checks for cached analysis in the database,
- * and if not found, performs basic analysis from the file name.
+ * Analyzes Figma/FigJam files. The file is read through /api/figma/file (with
+ * the user's token, else the server's FIGMA_ACCESS_TOKEN) and its frames
+ * mapped to flows in-repo (figma-ingest.ts). If it can't be read - e.g. a 401
+ * when neither token is set - the Supabase Edge Function is asked for a cached
+ * analysis, and if that fails the details are guessed from the file name.
  */
 
+import { fetchFigmaFile, ingestFigmaFile, parseFigmaFileJSON, type FigmaArchitecture, type FigmaFile } from './figma-ingest';
+
 export interface FigmaAnalysis {
   clientName: string;
   projectName: string;
@@ -16,6 +20,8 @@ export interface FigmaAnalysis {
   decisionPoints: string[];
   userJourneys: string;
   escalationTriggers: string;
+  // Flows and previews read from the file itself (only when it could be read)
+  architecture?: FigmaArchitecture;
 }
 
 // Supabase project URL
@@ -25,13 +31,20 @@ const SUPABASE_URL = 'https://jcsfggahtaewgqytvgau.supabase.co';
  * Analyze a Figma file by its key via Supabase Edge Function
  * @param fileKey - The Figma file key from the URL
  * @param fileName - The file name (used for fallback analysis)
- * @param figmaToken - Optional Figma personal access token for real API analysis
+ * @param figmaToken - Optional Figma personal access token; the server's own token is used without it
  */
 export async function analyzeFigmaFile(
   fileKey: string, 
   fileName: string,
   figmaToken?: string
 ): Promise<FigmaAnalysis> {
+  try {
+    const file = await fetchFigmaFile(fileKey, figmaToken);
+    return analyzeFromFile(file, fileName);
+  } catch (error) {
+    console.error('[FigmaAnalyzer] Could not read the file, falling back:', error);
+  }
+  
   try {
     console.log('Calling Supabase Edge Function to analyze Figma file:', fileKey);
     console.log('Figma token provided:', !!figmaToken);
@@ -65,26 +78,58 @@ export async function analyzeFigmaFile(
   }
 }
 
+/**
+ * Analyze a Figma file saved as JSON (offline import)
+ */
+export function analyzeFigmaJSON(text: string, fileName: string): FigmaAnalysis {
+  return analyzeFromFile(parseFigmaFileJSON(text), fileName);
+}
+
+/**
+ * Analysis from the file's own frames: flows become sections, questions
+ * decision points and input fields data fields
+ */
+function analyzeFromFile(file: FigmaFile, fileName: string): FigmaAnalysis {
+  const architecture = ingestFigmaFile(file);
+  if (architecture.plannedFlows.length === 0) {
+    throw new Error('No conversation steps found in the file');
+  }
+  
+  const previews = Object.values(architecture.flowPreviews).flat();
+  const cleanName = (file.name || fileName).replace(/\.[^/.]+$/, '').trim();
+  const { clientName, projectName } = parseFileName(cleanName);
+  const projectType = detectProjectType(`${cleanName} ${architecture.plannedFlows.map(f => f.label || f.name).join(' ')}`);
+  
+  return {
+    clientName,
+    projectName,
+    projectType,
+    description: `Bot flow imported from Figma: ${file.name || fileName}\n\n${architecture.plannedFlows.length} flows read from the design. Review the flows and update the extracted details.`,
+    sections: architecture.plannedFlows.map(flow => flow.label || flow.name),
+    dataFields: previews.filter(p => p.type === 'freetext' || p.type === 'datepicker' || p.type === 'file_upload').map(p => p.label),
+    decisionPoints: previews.filter(p => p.type === 'question').map(p => p.message),
+    userJourneys: architecture.plannedFlows.map(flow => `${flow.label || flow.name}: ${flow.description}`).join('\n'),
+    escalationTriggers: previews.filter(p => /\b(agent|human|representative|specialist)\b/i.test(p.message)).map(p => p.message).join('\n'),
+    architecture,
+  };
+}
+
+function detectProjectType(text: string): FigmaAnalysis['projectType'] {
+  const lower = text.toLowerCase();
+  if (lower.includes('fnol') || lower.includes('claim')) return 'claims';
+  if (lower.includes('support') || lower.includes('help')) return 'support';
+  if (lower.includes('sales') || lower.includes('lead')) return 'sales';
+  if (lower.includes('faq')) return 'faq';
+  if (lower.includes('survey') || lower.includes('feedback')) return 'survey';
+  return 'custom';
+}
+
 /**
  * Fallback: Analyze project details from file name when API unavailable
  */
 function analyzeFromFileName(fileName: string): FigmaAnalysis {
   const cleanName = fileName.replace(/\.[^/.]+$/, '').trim();
-  const lowerName = cleanName.toLowerCase();
-  
-  // Detect project type
-  let projectType: FigmaAnalysis['projectType'] = 'custom';
-  if (lowerName.includes('fnol') || lowerName.includes('claim')) {
-    projectType = 'claims';
-  } else if (lowerName.includes('support') || lowerName.includes('help')) {
-    projectType = 'support';
-  } else if (lowerName.includes('sales') || lowerName.includes('lead')) {
-    projectType = 'sales';
-  } else if (lowerName.includes('faq')) {
-    projectType = 'faq';
-  } else if (lowerName.includes('survey') || lowerName.includes('feedback')) {
-    projectType = 'survey';
-  }
+  const projectType = detectProjectType(cleanName);
 
   // Extract client and project names
   const { clientName, projectName } = parseFileName(cleanName);
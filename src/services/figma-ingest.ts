@@ -0,0 +1,443 @@
+/**
+ * Figma Ingest
+ *
+ * Reads a Figma or FigJam file's JSON (from the Figma REST API, or a saved
+ * copy of that response for offline use) and maps it onto the Solution
+ * Architecture page: sections and connected groups of frames become planned
+ * flows, text layers become message nodes and button components become
+ * options, giving flowPreviews the page shows without asking the AI.
+ */
+
+import type { ArchitectureState } from '../types';
+import { allocateFlowNodeRanges, type FlowPlan } from './generation';
+
+// ============================================
+// FIGMA FILE JSON (the subset we read)
+// ============================================
+
+export interface FigmaNode {
+  id: string;
+  name: string;
+  type: string;
+  visible?: boolean;
+  children?: FigmaNode[];
+  // TEXT, STICKY, SHAPE_WITH_TEXT and CONNECTOR labels
+  characters?: string;
+  // INSTANCE
+  componentId?: string;
+  // SHAPE_WITH_TEXT: 'DIAMOND', 'ROUNDED_RECTANGLE', ...
+  shapeType?: string;
+  absoluteBoundingBox?: { x: number; y: number; width: number; height: number } | null;
+  // FigJam connectors
+  connectorStart?: { endpointNodeId?: string };
+  connectorEnd?: { endpointNodeId?: string };
+  // Prototype links, old and new API shapes
+  transitionNodeID?: string | null;
+  reactions?: { action?: { destinationId?: string | null } | null; actions?: { destinationId?: string | null }[] }[];
+  interactions?: { actions?: { destinationId?: string | null }[] }[];
+}
+
+export interface FigmaFile {
+  name: string;
+  document: FigmaNode;
+  components?: Record<string, { name: string }>;
+}
+
+// ============================================
+// OUTPUT
+// ============================================
+
+// Same shape as /api/generate-flow-detail nodes
+export interface FigmaPreviewNode {
+  type: 'response' | 'question' | 'freetext' | 'datepicker' | 'file_upload';
+  label: string;
+  message: string;
+  options?: { label: string; destination?: string }[];
+  placeholder?: string;
+}
+
+export type FigmaArchitecture = Required<Pick<ArchitectureState, 'plannedFlows' | 'menuOptions'>> & {
+  flowPreviews: Record<string, FigmaPreviewNode[]>;
+};
+
+// Top-level layers that are one conversation step
+const STEP_TYPES = new Set(['FRAME', 'COMPONENT', 'INSTANCE', 'GROUP', 'SHAPE_WITH_TEXT', 'STICKY']);
+
+const BUTTON_PATTERN = /\b(button|btn|cta|chip|quick ?reply|option|pill)\b/i;
+const INPUT_PATTERN = /\b(input|text ?field|textbox|text ?area|composer|search)\b/i;
+const DATE_PATTERN = /\b(date|calendar)\b/i;
+const UPLOAD_PATTERN = /\b(upload|attach(ment)?)\b/i;
+// Layer names Figma makes up - not worth showing
+const DEFAULT_NAME_PATTERN = /^(frame|group|rectangle|sticky|shape|section|text|component|instance)\s*\d*$/i;
+// Status bar clock in phone mockups
+const CLOCK_PATTERN = /^\d{1,2}:\d{2}(\s?[ap]m)?$/i;
+
+interface Step {
+  node: FigmaNode;
+  page: FigmaNode;
+  section?: FigmaNode;
+  title: string;
+}
+
+interface StepLink {
+  from: string;
+  to: string;
+  label?: string;
+}
+
+function isVisible(node: FigmaNode): boolean {
+  return node.visible !== false;
+}
+
+function position(node: FigmaNode): { x: number; y: number } {
+  return { x: node.absoluteBoundingBox?.x ?? 0, y: node.absoluteBoundingBox?.y ?? 0 };
+}
+
+function byPosition(a: FigmaNode, b: FigmaNode): number {
+  const pa = position(a);
+  const pb = position(b);
+  return pa.y - pb.y || pa.x - pb.x;
+}
+
+function walk(node: FigmaNode, visit: (node: FigmaNode) => boolean | void): void {
+  if (visit(node) === false) return;
+  for (const child of node.children || []) {
+    if (isVisible(child)) walk(child, visit);
+  }
+}
+
+function cleanText(text: string | undefined): string {
+  return (text || '').replace(/\s+/g, ' ').trim();
+}
+
+function shorten(text: string, max: number): string {
+  return text.length > max ? `${text.slice(0, max - 1).trimEnd()}…` : text;
+}
+
+function toFlowName(label: string, taken: Set<string>): string {
+  const base = label.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '').slice(0, 40) || 'flow';
+  let name = base;
+  for (let i = 2; taken.has(name); i++) name = `${base}_${i}`;
+  taken.add(name);
+  return name;
+}
+
+function componentName(node: FigmaNode, file: FigmaFile): string {
+  return (node.componentId && file.components?.[node.componentId]?.name) || '';
+}
+
+function matches(node: FigmaNode, file: FigmaFile, pattern: RegExp): boolean {
+  return node.type !== 'TEXT' && (pattern.test(node.name) || pattern.test(componentName(node, file)));
+}
+
+/**
+ * All text inside a layer, in reading order
+ */
+function textOf(node: FigmaNode): string {
+  if (node.type === 'TEXT' || node.characters !== undefined) return cleanText(node.characters);
+  const texts: FigmaNode[] = [];
+  walk(node, n => { if (n.type === 'TEXT') texts.push(n); });
+  return texts.sort(byPosition).map(t => cleanText(t.characters)).filter(Boolean).join(' ');
+}
+
+function destinationsOf(node: FigmaNode): string[] {
+  const ids = [
+    node.transitionNodeID,
+    ...(node.reactions || []).flatMap(r => [r.action?.destinationId, ...(r.actions || []).map(a => a.destinationId)]),
+    ...(node.interactions || []).flatMap(i => (i.actions || []).map(a => a.destinationId)),
+  ];
+  return [...new Set(ids.filter((id): id is string => !!id))];
+}
+
+// ============================================
+// STEPS AND LINKS
+// ============================================
+
+function collectSteps(file: FigmaFile): Step[] {
+  const steps: Step[] = [];
+  const addStep = (node: FigmaNode, page: FigmaNode, section?: FigmaNode) => {
+    const title = DEFAULT_NAME_PATTERN.test(node.name.trim())
+      ? shorten(textOf(node), 40)
+      : cleanText(node.name);
+    steps.push({ node, page, section, title: title || node.name });
+  };
+
+  for (const page of (file.document.children || []).filter(isVisible)) {
+    for (const child of (page.children || []).filter(isVisible)) {
+      if (child.type === 'SECTION') {
+        (child.children || []).filter(n => isVisible(n) && STEP_TYPES.has(n.type)).forEach(n => addStep(n, page, child));
+      } else if (STEP_TYPES.has(child.type)) {
+        addStep(child, page);
+      }
+    }
+  }
+  return steps;
+}
+
+/**
+ * Connectors (FigJam) and prototype links (Figma) between steps. A link that
+ * starts on a button carries the button's text as its label.
+ */
+function collectLinks(file: FigmaFile, steps: Step[]): StepLink[] {
+  const owner = new Map<string, string>();
+  for (const step of steps) walk(step.node, n => { owner.set(n.id, step.node.id); });
+
+  const links: StepLink[] = [];
+  const addLink = (from: string | undefined, to: string | undefined, label?: string) => {
+    if (from && to && from !== to) links.push({ from, to, label: label || undefined });
+  };
+
+  walk(file.document, n => {
+    if (n.type === 'CONNECTOR') {
+      addLink(owner.get(n.connectorStart?.endpointNodeId || ''), owner.get(n.connectorEnd?.endpointNodeId || ''), cleanText(n.characters));
+    }
+  });
+
+  for (const step of steps) {
+    const visit = (n: FigmaNode, button?: FigmaNode) => {
+      const currentButton = button || (matches(n, file, BUTTON_PATTERN) ? n : undefined);
+      for (const destination of destinationsOf(n)) {
+        addLink(step.node.id, owner.get(destination), currentButton ? textOf(currentButton) : undefined);
+      }
+      for (const child of (n.children || []).filter(isVisible)) visit(child, currentButton);
+    };
+    visit(step.node);
+  }
+
+  return links;
+}
+
+// ============================================
+// PREVIEW NODES
+// ============================================
+
+/**
+ * Conversation nodes for one step. FigJam stickies and shapes are a single
+ * message (a question when they branch); frames give one message per text
+ * layer, an input node for text fields, and options for their buttons.
+ */
+function stepToPreviewNodes(step: Step, file: FigmaFile, outgoing: StepLink[], titles: Map<string, string>): FigmaPreviewNode[] {
+  const { node } = step;
+  const destinationOf = (link: StepLink) => titles.get(link.to);
+
+  if (node.type === 'STICKY' || node.type === 'SHAPE_WITH_TEXT') {
+    const message = cleanText(node.characters);
+    if (!message) return [];
+    const label = shorten(message, 40);
+    const branches = outgoing.filter(link => link.label || outgoing.length > 1);
+    if (branches.length > 1 || node.shapeType === 'DIAMOND') {
+      return [{
+        type: 'question',
+        label,
+        message,
+        options: branches.map(link => ({ label: link.label || destinationOf(link) || 'Continue', destination: destinationOf(link) })),
+      }];
+    }
+    return [{ type: 'response', label, message }];
+  }
+
+  const texts: FigmaNode[] = [];
+  const buttons: FigmaNode[] = [];
+  const inputs: FigmaNode[] = [];
+  walk(node, n => {
+    if (n === node) return;
+    if (matches(n, file, BUTTON_PATTERN)) { buttons.push(n); return false; }
+    if (matches(n, file, INPUT_PATTERN) || matches(n, file, DATE_PATTERN) || matches(n, file, UPLOAD_PATTERN)) { inputs.push(n); return false; }
+    if (n.type === 'TEXT') texts.push(n);
+  });
+
+  const previews: FigmaPreviewNode[] = texts
+    .sort(byPosition)
+    .map(text => ({ text, message: cleanText(text.characters) }))
+    .filter(({ message }) => message && !CLOCK_PATTERN.test(message) && message !== step.title)
+    .map(({ text, message }) => ({
+      type: 'response' as const,
+      label: DEFAULT_NAME_PATTERN.test(text.name) || cleanText(text.name) === message ? step.title : cleanText(text.name),
+      message,
+    }));
+
+  for (const input of inputs.sort(byPosition)) {
+    const kind = matches(input, file, DATE_PATTERN) ? 'datepicker' : matches(input, file, UPLOAD_PATTERN) ? 'file_upload' : 'freetext';
+    const asked = previews.pop();
+    previews.push({
+      type: kind,
+      label: asked?.label || step.title,
+      message: asked?.message || step.title,
+      placeholder: textOf(input) || undefined,
+    });
+  }
+
+  if (buttons.length > 0) {
+    const asked = previews.pop();
+    const linkByLabel = new Map(outgoing.filter(link => link.label).map(link => [link.label!, link]));
+    const fallback = outgoing.length === 1 ? outgoing[0] : undefined;
+    previews.push({
+      type: 'question',
+      label: asked?.label || step.title,
+      message: asked?.message || step.title,
+      options: buttons.sort(byPosition).map(button => {
+        const label = textOf(button) || cleanText(button.name);
+        const link = linkByLabel.get(label) || fallback;
+        return { label, destination: link ? destinationOf(link) : undefined };
+      }).filter(option => option.label),
+    });
+  }
+
+  return previews;
+}
+
+// ============================================
+// FLOWS
+// ============================================
+
+/**
+ * Group steps into flows: a Figma section is a flow; other steps are grouped
+ * by what links them. Steps inside a flow are ordered from its entry (the
+ * step nothing else in the flow leads to) along the links.
+ */
+function groupSteps(steps: Step[], links: StepLink[]): { label: string; steps: Step[] }[] {
+  const byId = new Map(steps.map(step => [step.node.id, step]));
+  const parent = new Map(steps.map(step => [step.node.id, step.node.id]));
+  const find = (id: string): string => {
+    while (parent.get(id) !== id) id = parent.get(id)!;
+    return id;
+  };
+
+  for (const step of steps) {
+    if (step.section) parent.set(find(step.node.id), find(steps.find(s => s.section === step.section)!.node.id));
+  }
+  for (const link of links) {
+    const from = byId.get(link.from)!;
+    const to = byId.get(link.to)!;
+    // Links between sections are cross-flow routing, not grouping
+    if (from.section || to.section || from.page !== to.page) continue;
+    parent.set(find(link.from), find(link.to));
+  }
+
+  const groups = new Map<string, Step[]>();
+  for (const step of steps) {
+    const root = find(step.node.id);
+    if (!groups.has(root)) groups.set(root, []);
+    groups.get(root)!.push(step);
+  }
+
+  const groupsPerPage = new Map<FigmaNode, number>();
+  groups.forEach(members => groupsPerPage.set(members[0].page, (groupsPerPage.get(members[0].page) || 0) + 1));
+
+  return [...groups.values()]
+    .map(members => {
+      const ids = new Set(members.map(step => step.node.id));
+      const internal = links.filter(link => ids.has(link.from) && ids.has(link.to));
+      const hasIncoming = new Set(internal.map(link => link.to));
+      const sorted = [...members].sort((a, b) => byPosition(a.node, b.node));
+
+      // Breadth-first from the entries, then whatever is unconnected
+      const ordered: Step[] = [];
+      const seen = new Set<string>();
+      const queue = sorted.filter(step => !hasIncoming.has(step.node.id));
+      while (ordered.length < members.length) {
+        if (queue.length === 0) queue.push(sorted.find(step => !seen.has(step.node.id))!);
+        const step = queue.shift()!;
+        if (seen.has(step.node.id)) continue;
+        seen.add(step.node.id);
+        ordered.push(step);
+        internal
+          .filter(link => link.from === step.node.id)
+          .map(link => byId.get(link.to)!)
+          .sort((a, b) => byPosition(a.node, b.node))
+          .forEach(next => queue.push(next));
+      }
+
+      const page = members[0].page;
+      const label = members[0].section
+        ? cleanText(members[0].section.name)
+        : groupsPerPage.get(page) === 1 && !/^page\s*\d*$/i.test(page.name.trim())
+          ? cleanText(page.name)
+          : ordered[0].title;
+      return { label, steps: ordered };
+    })
+    .sort((a, b) => byPosition(a.steps[0].node, b.steps[0].node));
+}
+
+/**
+ * Map a Figma file onto planned flows, menu options and flow previews.
+ * Flows get node ranges sized from their previews.
+ */
+export function ingestFigmaFile(file: FigmaFile): FigmaArchitecture {
+  if (!file?.document) {
+    throw new Error('Not a Figma file - expected the JSON returned by the Figma API');
+  }
+
+  const steps = collectSteps(file);
+  const links = collectLinks(file, steps);
+  const titles = new Map(steps.map(step => [step.node.id, step.title]));
+
+  const taken = new Set<string>();
+  const flows: (FlowPlan & { label: string })[] = [];
+  const flowPreviews: Record<string, FigmaPreviewNode[]> = {};
+
+  for (const group of groupSteps(steps, links)) {
+    const previews = group.steps.flatMap(step =>
+      stepToPreviewNodes(step, file, links.filter(link => link.from === step.node.id), titles)
+    );
+    if (previews.length === 0) continue;
+
+    const name = toFlowName(group.label, taken);
+    const summary = previews.slice(0, 3).map(p => p.message).join(' / ');
+    flowPreviews[name] = previews;
+    flows.push({
+      name,
+      label: group.label,
+      description: shorten(`From Figma: ${summary}`, 200),
+      startNode: 0,
+      endNode: 0,
+    });
+  }
+
+  const allocated = allocateFlowNodeRanges(flows, undefined, flowPreviews).flows;
+  console.log(`[FigmaIngest] ${file.name}: ${steps.length} steps, ${links.length} links -> ${flows.length} flows`);
+
+  return {
+    plannedFlows: allocated.map((flow, i) => ({
+      name: flow.name,
+      label: flows[i].label,
+      description: flow.description,
+      startNode: flow.startNode,
+    })),
+    menuOptions: flows.map(flow => ({ label: flow.label, description: flow.description, flowName: flow.name })),
+    flowPreviews,
+  };
+}
+
+/**
+ * Fetch a file's JSON from the Figma API (via the dev server)
+ */
+export async function fetchFigmaFile(fileKey: string, token?: string): Promise<FigmaFile> {
+  const response = await fetch('/api/figma/file', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ fileKey, token }),
+  });
+  const data = await response.json().catch(() => null);
+  if (!response.ok || !data?.document) {
+    throw new Error(data?.error || `Figma fetch failed: ${response.status}`);
+  }
+  return data;
+}
+
+/**
+ * Parse a saved Figma file. Only the API's JSON is readable - .fig files
+ * are Figma's private binary format.
+ */
+export function parseFigmaFileJSON(text: string): FigmaFile {
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('Could not read the file - save the Figma API response (GET /v1/files/:key) as JSON; .fig files cannot be read');
+  }
+  if (!data?.document) {
+    throw new Error('Not a Figma file - expected the JSON returned by the Figma API');
+  }
+  return data;
+}
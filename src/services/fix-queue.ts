@@ -0,0 +1,351 @@
+/**
+ * Fix Queue API Service
+ *
+ * Shared queue of Instant Builds that gave up with rows no automatic fix could
+ * repair (needsHumanIntervention). A teammate claims an item, edits the failed
+ * rows, and resolving it revalidates the CSV, records each edit as a human
+ * fix_attempt for error learning, and resumes the pipeline from the cached
+ * generation instead of regenerating.
+ */
+
+import { supabase } from '../lib/supabase';
+import type { FailedRow, FixQueueBuildInput, FixQueueItem, FixQueueStatus, InstantBuildResult } from '../types';
+import { BotDocument, fieldForHeader } from './bot-document';
+import { diffCSV } from './bot-diff';
+import { generateBotId, validateWithBotManager } from './botmanager';
+import { logErrorPattern, logFixAttempt, type ValidationError } from './error-learning';
+import { submitBuildJob, watchBuildJob } from './build-jobs';
+import { extractFailedRows, type ProgressCallback } from './instant-build';
+
+// Edited field values per node, keyed by header label like FailedRow.fields
+export type FixQueueRowEdits = Record<number, Record<string, string>>;
+
+export interface FixRevalidation {
+  valid: boolean;
+  failedRows: FailedRow[];
+  validationErrors: ValidationError[];
+}
+
+export interface FixQueueResolution {
+  revalidation: FixRevalidation;
+  // Set when the fix validated and the pipeline was resumed
+  result?: InstantBuildResult;
+  item?: FixQueueItem;
+}
+
+// Convert database row to FixQueueItem format
+function dbToQueueItem(row: any): FixQueueItem {
+  return {
+    id: row.id,
+    solutionId: row.project_id || undefined,
+    projectName: row.project_name,
+    status: row.status,
+    error: row.error,
+    context: row.context || undefined,
+    csvContent: row.csv_content || '',
+    failedRows: row.failed_rows || [],
+    validationErrors: row.validation_errors || [],
+    buildInput: row.build_input,
+    cachedGeneration: row.cached_generation || undefined,
+    createdBy: row.created_by || undefined,
+    claimedBy: row.claimed_by || undefined,
+    claimedAt: row.claimed_at || undefined,
+    resolvedBy: row.resolved_by || undefined,
+    resolvedAt: row.resolved_at || undefined,
+    botId: row.bot_id || undefined,
+    widgetUrl: row.widget_url || undefined,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+async function currentUserEmail(): Promise<string | null> {
+  const { data: { user } } = await supabase.auth.getUser();
+  return user?.email || null;
+}
+
+async function currentUser(): Promise<{ id: string; email: string } | null> {
+  const { data: { user } } = await supabase.auth.getUser();
+  return user ? { id: user.id, email: user.email || 'anonymous' } : null;
+}
+
+async function updateQueueItem(
+  id: string,
+  changes: Record<string, unknown>,
+  onlyStatus?: FixQueueStatus
+): Promise<FixQueueItem | null> {
+  let query = supabase
+    .from('fix_queue')
+    .update({ ...changes, updated_at: new Date().toISOString() })
+    .eq('id', id);
+  if (onlyStatus) query = query.eq('status', onlyStatus);
+
+  const { data, error } = await query.select().maybeSingle();
+  if (error) {
+    console.error('[Fix Queue] Error updating item:', error);
+    return null;
+  }
+  return data ? dbToQueueItem(data) : null;
+}
+
+// ============================================
+// QUEUE
+// ============================================
+
+/**
+ * Put a failed build on the queue. Only builds flagged needsHumanIntervention
+ * carry the failed rows and cached generation a teammate needs.
+ */
+export async function enqueueStuckBuild(
+  result: InstantBuildResult,
+  buildInput: FixQueueBuildInput,
+  solutionId?: string | null
+): Promise<FixQueueItem | null> {
+  if (!result.needsHumanIntervention || !result.csv) {
+    console.error('[Fix Queue] Build does not need human intervention - not queued');
+    return null;
+  }
+
+  try {
+    const { data, error } = await supabase
+      .from('fix_queue')
+      .insert({
+        project_id: solutionId || null,
+        project_name: buildInput.extractedDetails.projectName || 'Instant Build Solution',
+        error: result.error || 'Build failed',
+        context: result.humanInterventionContext || null,
+        csv_content: result.csv,
+        failed_rows: result.failedRows || [],
+        validation_errors: result.validationErrors || [],
+        build_input: buildInput,
+        cached_generation: result._cachedGeneration || null,
+        created_by: await currentUserEmail(),
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('[Fix Queue] Error queueing build:', error);
+      return null;
+    }
+
+    console.log(`[Fix Queue] Queued ${data.project_name} with ${(result.failedRows || []).length} failed rows:`, data.id);
+    return dbToQueueItem(data);
+  } catch (error) {
+    console.error('[Fix Queue] Error queueing build:', error);
+    return null;
+  }
+}
+
+/**
+ * Fetch queue items, oldest first so stuck builds are worked in order
+ */
+export async function fetchFixQueue(
+  statuses: FixQueueStatus[] = ['open', 'claimed']
+): Promise<FixQueueItem[]> {
+  try {
+    const { data, error } = await supabase
+      .from('fix_queue')
+      .select('*')
+      .in('status', statuses)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('[Fix Queue] Error fetching queue:', error);
+      return [];
+    }
+
+    return (data || []).map(dbToQueueItem);
+  } catch (error) {
+    console.error('[Fix Queue] Error fetching queue:', error);
+    return [];
+  }
+}
+
+/**
+ * Claim an open item for the current user.
+ * Returns null when a teammate claimed it first.
+ */
+export async function claimFixQueueItem(id: string): Promise<FixQueueItem | null> {
+  try {
+    const email = await currentUserEmail();
+    if (!email) {
+      console.error('[Fix Queue] No authenticated user to claim item');
+      return null;
+    }
+
+    const item = await updateQueueItem(id, {
+      status: 'claimed',
+      claimed_by: email,
+      claimed_at: new Date().toISOString(),
+    }, 'open');
+
+    if (item) console.log(`[Fix Queue] ${email} claimed`, id);
+    return item;
+  } catch (error) {
+    console.error('[Fix Queue] Error claiming item:', error);
+    return null;
+  }
+}
+
+/**
+ * Hand a claimed item back to the queue
+ */
+export async function releaseFixQueueItem(id: string): Promise<FixQueueItem | null> {
+  try {
+    return await updateQueueItem(id, { status: 'open', claimed_by: null, claimed_at: null }, 'claimed');
+  } catch (error) {
+    console.error('[Fix Queue] Error releasing item:', error);
+    return null;
+  }
+}
+
+/**
+ * Take an item off the queue without fixing it
+ */
+export async function abandonFixQueueItem(id: string): Promise<FixQueueItem | null> {
+  try {
+    return await updateQueueItem(id, { status: 'abandoned' });
+  } catch (error) {
+    console.error('[Fix Queue] Error abandoning item:', error);
+    return null;
+  }
+}
+
+// ============================================
+// FIXING
+// ============================================
+
+/**
+ * Apply row editor changes to the CSV. Fields are keyed by header label, the
+ * same way FailedRow.fields is.
+ */
+export function applyRowEdits(csv: string, edits: FixQueueRowEdits): string {
+  const doc = BotDocument.parse(csv);
+
+  for (const [nodeNum, fields] of Object.entries(edits)) {
+    for (const [header, value] of Object.entries(fields)) {
+      const field = fieldForHeader(header);
+      if (field) doc.setField(Number(nodeNum), field, value);
+    }
+  }
+
+  return doc.toCSV();
+}
+
+/**
+ * Validate a fixed CSV with Bot Manager without deploying it
+ */
+export async function revalidateFix(item: FixQueueItem, csv: string, token: string): Promise<FixRevalidation> {
+  const { extractedDetails } = item.buildInput;
+  const botId = generateBotId(extractedDetails.clientName, extractedDetails.projectName);
+  const validation = await validateWithBotManager(csv, botId, token);
+  const validationErrors = validation.valid ? [] : validation.errors || [];
+
+  return {
+    valid: validation.valid,
+    failedRows: extractFailedRows(validationErrors, csv),
+    validationErrors,
+  };
+}
+
+/**
+ * Log every edited field that touched an erroring node as a successful human
+ * fix, with a { before, after } diff so promoteProvenFixes can turn it into a
+ * fix rule. Returns the number of fix attempts recorded.
+ */
+export async function recordHumanFixes(item: FixQueueItem, fixedCsv: string, author: string): Promise<number> {
+  const changes = diffCSV(item.csvContent, fixedCsv).changes.filter(c => c.changeType === 'modified');
+  let recorded = 0;
+
+  for (const error of item.validationErrors as ValidationError[]) {
+    const change = changes.find(c => c.nodeNum === error.node_num);
+    if (!change) continue;
+
+    const patternId = await logErrorPattern(error, item.csvContent);
+    if (!patternId) continue;
+
+    // Prefer the field Bot Manager complained about; otherwise log every edit on the node
+    const errorField = error.field_name || error.err_msgs?.[0]?.field_name;
+    const matching = change.changedFields.filter(f => errorField && fieldForHeader(f) === fieldForHeader(errorField));
+    const fields = matching.length > 0 ? matching : change.changedFields;
+
+    for (const field of fields) {
+      const before = change.before?.[field] ?? '';
+      const after = change.after?.[field] ?? '';
+      const description = `Human fix (${author}): set ${field} from "${before}" to "${after}"`;
+      if (await logFixAttempt(patternId, description, true, { before, after })) recorded++;
+    }
+  }
+
+  console.log(`[Fix Queue] Recorded ${recorded} human fix attempt(s) for`, item.id);
+  return recorded;
+}
+
+/**
+ * Revalidate the fixed CSV and, if Bot Manager accepts it, record the human
+ * fixes and resume the pipeline from the cached generation. The item is
+ * resolved when the resumed build deploys; otherwise it stays claimed with the
+ * new failed rows.
+ */
+export async function resolveFixQueueItem(
+  item: FixQueueItem,
+  fixedCsv: string,
+  token: string,
+  onProgress?: ProgressCallback,
+  aiCredentials?: { apiKey?: string; provider?: 'anthropic' | 'google' }
+): Promise<FixQueueResolution> {
+  const revalidation = await revalidateFix(item, fixedCsv, token);
+  if (!revalidation.valid) {
+    console.log(`[Fix Queue] Fix still has ${revalidation.failedRows.length} failed row(s)`);
+    return { revalidation };
+  }
+
+  // Fixes are credited by email; the build runs under the user's id
+  const user = await currentUser();
+  const author = user?.email || 'anonymous';
+  await recordHumanFixes(item, fixedCsv, author);
+
+  const { description, extractedDetails, brandAssets } = item.buildInput;
+  const cached = item.cachedGeneration;
+  const cachedGeneration = cached?.result
+    ? {
+        result: { ...cached.result, csv: fixedCsv, nodeCount: BotDocument.parse(fixedCsv).nodeNumbers.length },
+        projectConfig: cached.projectConfig,
+      }
+    : undefined;
+
+  // Resumed as a server-side build job, like every other Instant Build
+  const job = await submitBuildJob({
+    description,
+    extractedDetails,
+    brandAssets,
+    token,
+    userId: user?.id || 'anonymous',
+    cachedGeneration,
+    aiCredentials,
+    solutionId: item.solutionId,
+  });
+  const result = await watchBuildJob(job.id, onProgress).result;
+
+  const updated = result.success
+    ? await updateQueueItem(item.id, {
+        status: 'resolved',
+        csv_content: result.csv || fixedCsv,
+        resolved_by: author,
+        resolved_at: new Date().toISOString(),
+        bot_id: result.botId || null,
+        widget_url: result.widgetUrl || null,
+      })
+    : await updateQueueItem(item.id, {
+        error: result.error || 'Build failed',
+        context: result.humanInterventionContext || null,
+        csv_content: result.csv || fixedCsv,
+        failed_rows: result.failedRows || [],
+        validation_errors: result.validationErrors || [],
+        cached_generation: result._cachedGeneration || item.cachedGeneration || null,
+      });
+
+  console.log(`[Fix Queue] Resumed pipeline for ${item.id}: ${result.success ? 'deployed' : result.error}`);
+  return { revalidation, result, item: updated || undefined };
+}
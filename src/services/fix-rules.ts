@@ -0,0 +1,727 @@
+/**
+ * Fix Rules
+ *
+ * Declarative, deterministic fixes for Bot Manager validation errors. A rule
+ * matches an error (categorizeError category, field, description, signature)
+ * and lists field-level operations to run on the node it points at. Rules are
+ * plain JSON: the built-in set below ships with the app, and rules stored in
+ * the fix_rules table are merged in at runtime (same id = override).
+ *
+ * Proven fixes from the error-learning tables (getProvenFixes) can be promoted
+ * into rules, so a fix that keeps working runs without an AI call.
+ *
+ * previewFixRules() is the dry run: what each rule would change, node by node,
+ * without touching the CSV.
+ */
+
+import { supabase } from '../lib/supabase';
+import { BotDocument, fieldForHeader, type BotNode } from './bot-document';
+import { categorizeError, getProvenFixes, normalizeError, type FixAttempt, type ValidationError } from './error-learning';
+import { BOT_NODE_FIELDS, type BotNodeField } from './node-schema';
+
+// ============================================
+// TYPES
+// ============================================
+
+export type FixRuleSource = 'builtin' | 'promoted' | 'manual';
+
+// Which rows a rule's operations run on
+export type FixRuleTarget =
+  | 'error-node'            // The node the error reports (default)
+  | 'nodes-with-entry'      // Every node whose Rich Asset Content contains the error's field_entry
+  | 'invalid-rows';         // Rows without an integer Node Number (removeRow only)
+
+export interface FixRuleMatch {
+  // categorizeError() result, e.g. NLU_DISABLED_MULTI_CHILD
+  category?: string[];
+  // Error field name, case/underscore-insensitive ("Parameter Input" = "parameter_input")
+  field?: string[];
+  // Case-insensitive regex tested against the error description
+  description?: string;
+  // normalizeError() signature
+  signature?: string;
+  // Nodes the rule never touches
+  excludeNodes?: number[];
+}
+
+export interface FixCondition {
+  field: BotNodeField;
+  // Trimmed, case-insensitive comparisons
+  equals?: string;
+  notEquals?: string;
+  empty?: boolean;
+}
+
+export type FieldTransformName =
+  | 'repair-parameter-json'
+  | 'infer-rich-type'
+  | 'upper-snake'
+  | 'decision-variable-for-command'
+  | 'default-what-next'
+  | 'fix-reserved-button-chars';
+
+// Values may use {entry} for the error's field_entry
+export type FixOperation = { when?: FixCondition[] } & (
+  | { op: 'set'; field: BotNodeField; value: string }
+  | { op: 'clear'; fields: BotNodeField[] }
+  | { op: 'replace'; field: BotNodeField; find: string; replace: string; regex?: boolean }
+  | { op: 'move'; from: BotNodeField; to: BotNodeField; onlyIfEmpty?: boolean }
+  | { op: 'transform'; field: BotNodeField; transform: FieldTransformName }
+  | { op: 'removeRow' }
+);
+
+export interface FixRule {
+  id: string;
+  description: string;
+  source: FixRuleSource;
+  enabled?: boolean;
+  // Lower runs first (default 100); ties keep list order
+  priority?: number;
+  match: FixRuleMatch;
+  target?: FixRuleTarget;
+  operations: FixOperation[];
+  // Promoted rules: the fix_attempts row they came from and its record at promotion
+  fixAttemptId?: string;
+  confidence?: number;
+  appliedCount?: number;
+}
+
+export interface FixRuleResult {
+  csv: string;
+  // The rule that changed the CSV, null when none did
+  rule: FixRule | null;
+}
+
+export interface FixRuleFieldChange {
+  nodeNum: number | null;
+  field: BotNodeField | 'row';
+  before: string;
+  after: string;
+}
+
+export interface FixRulePreview {
+  ruleId: string;
+  description: string;
+  // Errors the rule matched, and what it would change for them
+  errors: Array<{ nodeNum?: number; error: string; changes: FixRuleFieldChange[] }>;
+}
+
+// ============================================
+// FIELD TRANSFORMS
+// ============================================
+
+type FieldTransform = (value: string, node: BotNode) => string | null;
+
+// Decision Variable each system command reports its result in
+const COMMAND_TO_DECVAR: Record<string, string> = {
+  'SysAssignVariable': 'success',
+  'SysShowMetadata': 'success',
+  'SysSetEnv': 'success',
+  'SysVariableReset': 'success',
+  'HandleBotError': 'error_type',
+  'UserPlatformRouting': 'success',
+  'GenAIFallback': 'result',
+  'ValidateRegex': 'success',
+  'ValidateDate': 'success',
+  'GetValue': 'success',
+  'SetVar': 'success',
+  'VarCheck': 'valid',
+  'LimitCounter': 'valid',
+  'BotToPlatform': 'success',
+  'SysMultiMatchRouting': 'route_to', // Uses output variable name
+};
+
+/**
+ * Transforms take the field's current value (and the node, for context) and
+ * return the new value, or null to leave the field as it is
+ */
+const FIELD_TRANSFORMS: Record<FieldTransformName, FieldTransform> = {
+  // Extra closing braces, [{...}] instead of {"set": {...}}, unquoted {VAR} refs.
+  // Only applied when the result parses - otherwise left for the AI.
+  'repair-parameter-json': (value) => {
+    let paramInput = value.trim();
+    if (!paramInput) return null;
+
+    const openBraces = (paramInput.match(/{/g) || []).length;
+    let closeBraces = (paramInput.match(/}/g) || []).length;
+    while (closeBraces > openBraces) {
+      paramInput = paramInput.replace(/}([^}]*)$/, '$1');
+      closeBraces--;
+    }
+
+    if (paramInput.startsWith('[')) {
+      try {
+        const arr = JSON.parse(paramInput);
+        if (Array.isArray(arr) && arr.length > 0) {
+          paramInput = JSON.stringify({ set: arr[0] });
+        }
+      } catch { /* keep as-is */ }
+    }
+
+    paramInput = paramInput.replace(/:(\s*)\{([a-zA-Z_][a-zA-Z0-9_]*)\}/g, ':$1"{$2}"');
+
+    try {
+      JSON.parse(paramInput);
+      return paramInput;
+    } catch {
+      return null;
+    }
+  },
+
+  // Rich Asset Type from the shape of the Rich Asset Content
+  'infer-rich-type': (_value, node) => {
+    const richContent = node.richContent?.trim() || '';
+    if (!richContent) return null;
+
+    const isJsonFormat = richContent.startsWith('{') || richContent.startsWith('[');
+    if (!isJsonFormat && richContent.includes('~')) return 'button';
+    if (!isJsonFormat) return null;
+
+    try {
+      const parsed = JSON.parse(richContent);
+      if (parsed.url) return 'webview';
+      if (parsed.options?.some((opt: { description?: string }) => opt.description)) return 'listpicker';
+      return 'buttons';
+    } catch {
+      return 'buttons';
+    }
+  },
+
+  'upper-snake': (value) => value.trim() ? value.trim().toUpperCase().replace(/[\s-]+/g, '_') : null,
+
+  'decision-variable-for-command': (_value, node) => COMMAND_TO_DECVAR[node.command?.trim() || ''] || 'success',
+
+  // What Next? for the node's Decision Variable, only when it has none
+  'default-what-next': (value, node) => {
+    if (value.trim()) return null;
+    const decVar = node.decVar?.trim();
+    if (decVar === 'success' || decVar === 'valid') {
+      return 'true~' + (node.nextNodes?.trim()?.split(/[,|]/)[0] || '201') + '|false~99990|error~99990';
+    }
+    if (decVar === 'error_type') {
+      return 'bot_error~99990|bot_timeout~99990|other~99990';
+    }
+    // Other decision variables are left to the AI or startup injection
+    return null;
+  },
+
+  'fix-reserved-button-chars': (value) => {
+    const { fixed, wasFixed } = fixReservedCharactersInButtons(value);
+    return wasFixed ? fixed : null;
+  },
+};
+
+/**
+ * Fix reserved characters inside button labels
+ * Pattern: "$25|k" -> "$25k" (pipe character incorrectly inside label)
+ * Pattern: "2|FA" -> "2FA" (pipe inside acronym like 2FA)
+ * This fixes common AI mistakes where | appears inside labels instead of between buttons
+ */
+export function fixReservedCharactersInButtons(content: string): { fixed: string; wasFixed: boolean } {
+  // Skip if JSON format
+  if (content.trim().startsWith('{') || content.trim().startsWith('[')) {
+    return { fixed: content, wasFixed: false };
+  }
+
+  // Check if it looks like button content
+  if (!content.includes('~')) {
+    return { fixed: content, wasFixed: false };
+  }
+
+  let fixedContent = content;
+
+  // Fix 1: Price labels with pipe before 'k' (thousand) - "$25|k" -> "$25k"
+  fixedContent = fixedContent.replace(/(\$\d+)\|([kK])/g, '$1$2');
+
+  // Fix 2: Price labels with pipe before 'm' (million) - "$1|m" -> "$1m"
+  fixedContent = fixedContent.replace(/(\$\d+)\|([mM])/g, '$1$2');
+
+  // Fix 3: Acronyms like "2|FA" -> "2FA" (two-factor auth)
+  // Pattern: digit|uppercase letters (common for 2FA, 3D, 4K, etc.)
+  fixedContent = fixedContent.replace(/(\d)\|([A-Z]{1,3})(?=[\s~]|$)/g, '$1$2');
+
+  // Fix 4: General pattern - pipe between alphanumeric characters within a button label
+  // Look at each button individually (split by | and recombine smartly)
+  // First, identify valid button separators: they come after ~nodeNum
+  // Invalid pipes are inside labels (before the first ~ or between label chars)
+  const buttons = fixedContent.split('|');
+  const fixedButtons: string[] = [];
+
+  for (let i = 0; i < buttons.length; i++) {
+    const btn = buttons[i];
+
+    // If this segment doesn't contain ~ and the previous one ended with ~number,
+    // this is likely a continuation of a broken label
+    if (i > 0 && !btn.includes('~') && fixedButtons.length > 0) {
+      // Check if this looks like it should be part of the previous button's label
+      // e.g., "Enable 2" + "FA~631" should become "Enable 2FA~631"
+      const lastBtn = fixedButtons[fixedButtons.length - 1];
+      if (!lastBtn.includes('~')) {
+        // Previous button also has no ~, merge them
+        fixedButtons[fixedButtons.length - 1] = lastBtn + btn;
+        continue;
+      } else if (btn.match(/^[A-Z]{1,4}~/)) {
+        // This starts with uppercase letters then ~ (like "FA~631")
+        // It's likely the second half of an acronym, merge with previous
+        // But only if previous ends with a digit
+        const prevParts = lastBtn.split('~');
+        if (prevParts.length === 1 && prevParts[0].match(/\d$/)) {
+          fixedButtons[fixedButtons.length - 1] = lastBtn + btn;
+          continue;
+        }
+      }
+    }
+
+    fixedButtons.push(btn);
+  }
+
+  fixedContent = fixedButtons.join('|');
+
+  return {
+    fixed: fixedContent,
+    wasFixed: fixedContent !== content
+  };
+}
+
+// ============================================
+// BUILT-IN RULES
+// ============================================
+
+// Startup nodes managed by injectRequiredStartupNodes - their Decision Variable
+// and What Next? are specific and must not be rewritten by a generic fix
+const PROTECTED_STARTUP_NODES = [
+  -500, // HandleBotError - decVar: error_type
+  1, // SysShowMetadata - decVar: success
+  10, // UserPlatformRouting - decVar: success (but special What Next)
+  100, 101, 102, // Platform SetVar - decVar: success
+  104, // SysSetEnv - decVar: success
+  105, // InitContext - decVar: success
+  1800, // GenAIFallback - decVar: result (NOT success!)
+  1803, // RouteDetectedIntent - decVar: route_to
+  1804, // FallbackLoop - may have special config
+];
+
+export const BUILTIN_FIX_RULES: FixRule[] = [
+  {
+    id: 'button-reserved-characters',
+    description: 'Remove pipe characters inside button labels ("$25|k" → "$25k")',
+    source: 'builtin',
+    match: { description: 'pipe character|button construction' },
+    target: 'nodes-with-entry',
+    operations: [{ op: 'transform', field: 'richContent', transform: 'fix-reserved-button-chars' }],
+  },
+  {
+    id: 'nlu-disabled-multi-child',
+    description: 'Clear NLU Disabled on nodes with more than one child',
+    source: 'builtin',
+    match: { category: ['NLU_DISABLED_MULTI_CHILD'] },
+    operations: [{ op: 'clear', fields: ['nluDisabled'], when: [{ field: 'nluDisabled', equals: '1' }] }],
+  },
+  {
+    id: 'parameter-input-json',
+    description: 'Repair Parameter Input JSON (extra braces, arrays, unquoted variables)',
+    source: 'builtin',
+    match: { field: ['Parameter Input'], description: 'json input error|expecting property name|expecting input' },
+    operations: [{ op: 'transform', field: 'paramInput', transform: 'repair-parameter-json' }],
+  },
+  {
+    id: 'decision-node-action-columns',
+    description: 'Clear Action-only columns on Decision nodes (moving a Node Input message to Message)',
+    source: 'builtin',
+    match: { description: 'dir_field', excludeNodes: PROTECTED_STARTUP_NODES },
+    operations: [
+      { op: 'move', from: 'nodeInput', to: 'message', onlyIfEmpty: true, when: [{ field: 'type', equals: 'D' }] },
+      { op: 'clear', fields: ['command', 'description', 'output', 'paramInput', 'decVar', 'whatNext'], when: [{ field: 'type', equals: 'D' }] },
+    ],
+  },
+  {
+    id: 'action-node-decision-variable',
+    description: "Set an Action node's Decision Variable from its command, with a default What Next?",
+    source: 'builtin',
+    match: { description: 'dir_field', excludeNodes: PROTECTED_STARTUP_NODES },
+    operations: [
+      { op: 'transform', field: 'decVar', transform: 'decision-variable-for-command', when: [{ field: 'type', notEquals: 'D' }] },
+      { op: 'transform', field: 'whatNext', transform: 'default-what-next', when: [{ field: 'type', notEquals: 'D' }] },
+    ],
+  },
+  {
+    id: 'variable-upper-case',
+    description: 'Convert Variable to ALL_CAPS',
+    source: 'builtin',
+    match: { description: 'capital letters|all capital' },
+    operations: [{ op: 'transform', field: 'variable', transform: 'upper-snake' }],
+  },
+  {
+    id: 'answer-required',
+    description: 'Set Answer Required to 1 (datepicker, timepicker, file upload)',
+    source: 'builtin',
+    match: { description: '^(?=.*ans_req).*1' },
+    operations: [{ op: 'set', field: 'ansReq', value: '1' }],
+  },
+  {
+    id: 'orphan-rows',
+    description: 'Remove rows without an integer Node Number (a message broken across rows)',
+    source: 'builtin',
+    match: { field: ['Node Number'], description: 'not an integer' },
+    target: 'invalid-rows',
+    operations: [{ op: 'removeRow' }],
+  },
+  {
+    id: 'rich-type-invalid',
+    description: 'Infer a missing or invalid Rich Asset Type from the content',
+    source: 'builtin',
+    match: { description: 'rich type is invalid' },
+    operations: [{ op: 'transform', field: 'richType', transform: 'infer-rich-type' }],
+  },
+  {
+    id: 'rich-content-embed-type',
+    description: 'Infer the Rich Asset Type when Bot Manager cannot tell the embed type',
+    source: 'builtin',
+    match: { field: ['Rich Asset Content'], description: 'embed type' },
+    operations: [{ op: 'transform', field: 'richType', transform: 'infer-rich-type' }],
+  },
+];
+
+// ============================================
+// MATCHING
+// ============================================
+
+function errorDetails(error: ValidationError) {
+  const msg = error.err_msgs?.[0];
+  return {
+    description: msg?.error_description || error.error_description || '',
+    field: msg?.field_name || error.field_name || '',
+    entry: msg?.field_entry || '',
+  };
+}
+
+function normalizeFieldName(name: string): string {
+  return name.toLowerCase().replace(/[_\s]+/g, ' ').trim();
+}
+
+export function ruleMatchesError(rule: FixRule, error: ValidationError): boolean {
+  if (rule.enabled === false) return false;
+  const { match } = rule;
+  const { description, field } = errorDetails(error);
+
+  if (match.category && !match.category.includes(categorizeError(error))) return false;
+  if (match.field && !match.field.some(f => normalizeFieldName(f) === normalizeFieldName(field))) return false;
+  if (match.signature && match.signature !== normalizeError(error)) return false;
+  if (match.excludeNodes && error.node_num !== undefined && match.excludeNodes.includes(error.node_num)) return false;
+  if (match.description) {
+    try {
+      if (!new RegExp(match.description, 'i').test(description)) return false;
+    } catch {
+      console.warn(`[FixRules] Invalid description pattern in rule "${rule.id}": ${match.description}`);
+      return false;
+    }
+  }
+  return true;
+}
+
+function conditionsHold(node: BotNode, conditions: FixCondition[] = []): boolean {
+  return conditions.every(condition => {
+    const value = (node[condition.field] || '').trim().toLowerCase();
+    if (condition.equals !== undefined && value !== condition.equals.toLowerCase()) return false;
+    if (condition.notEquals !== undefined && value === condition.notEquals.toLowerCase()) return false;
+    if (condition.empty !== undefined && (value === '') !== condition.empty) return false;
+    return true;
+  });
+}
+
+// ============================================
+// APPLYING
+// ============================================
+
+function fillTemplate(value: string, entry: string): string {
+  return value.replace(/\{entry\}/g, entry);
+}
+
+/**
+ * Run one operation on a node. Returns false when the node was removed.
+ */
+function applyOperation(doc: BotDocument, nodeNum: number, operation: FixOperation, entry: string): boolean {
+  const node = doc.getNode(nodeNum);
+  if (!node || !conditionsHold(node, operation.when)) return true;
+
+  switch (operation.op) {
+    case 'set':
+      doc.setField(nodeNum, operation.field, fillTemplate(operation.value, entry));
+      break;
+    case 'clear':
+      for (const field of operation.fields) doc.setField(nodeNum, field, '');
+      break;
+    case 'replace': {
+      const current = node[operation.field] || '';
+      const find = fillTemplate(operation.find, entry);
+      const replacement = fillTemplate(operation.replace, entry);
+      let updated = current;
+      if (operation.regex) {
+        try {
+          updated = current.replace(new RegExp(find, 'g'), replacement);
+        } catch {
+          console.warn(`[FixRules] Invalid replace pattern: ${find}`);
+        }
+      } else if (find) {
+        updated = current.split(find).join(replacement);
+      }
+      doc.setField(nodeNum, operation.field, updated);
+      break;
+    }
+    case 'move': {
+      const value = node[operation.from] || '';
+      if (!value.trim()) break;
+      if (operation.onlyIfEmpty && (node[operation.to] || '').trim()) break;
+      doc.updateNode(nodeNum, { [operation.to]: value, [operation.from]: '' });
+      break;
+    }
+    case 'transform': {
+      const updated = FIELD_TRANSFORMS[operation.transform]?.(node[operation.field] || '', node);
+      if (updated !== null && updated !== undefined) doc.setField(nodeNum, operation.field, updated);
+      break;
+    }
+    case 'removeRow':
+      doc.removeNode(nodeNum);
+      return false;
+  }
+  return true;
+}
+
+/**
+ * Apply a single rule for an error (no match check)
+ */
+function applyRule(csv: string, error: ValidationError, rule: FixRule): string {
+  const { entry } = errorDetails(error);
+  const doc = BotDocument.parse(csv);
+  const target = rule.target || 'error-node';
+
+  if (target === 'invalid-rows') {
+    if (!rule.operations.some(o => o.op === 'removeRow')) return csv;
+    for (const removed of doc.removeInvalidRows()) {
+      console.log(`[FixRules] Removed orphan row (non-integer Node Number): "${removed.substring(0, 40)}..."`);
+    }
+    return doc.toCSV();
+  }
+
+  const nodeNums = target === 'nodes-with-entry'
+    ? doc.nodes.filter(n => n.richContent && n.richContent.includes(entry)).map(n => n.nodeNum)
+    : error.node_num !== undefined ? [error.node_num] : [];
+
+  for (const nodeNum of nodeNums) {
+    for (const operation of rule.operations) {
+      if (!applyOperation(doc, nodeNum, operation, entry)) break;
+    }
+  }
+  return doc.toCSV();
+}
+
+function sortRules(rules: FixRule[]): FixRule[] {
+  return rules
+    .map((rule, idx) => ({ rule, idx }))
+    .sort((a, b) => (a.rule.priority ?? 100) - (b.rule.priority ?? 100) || a.idx - b.idx)
+    .map(({ rule }) => rule);
+}
+
+/**
+ * Apply the first matching rule that changes the CSV
+ */
+export function applyFixRules(csv: string, error: ValidationError, rules: FixRule[] = BUILTIN_FIX_RULES): FixRuleResult {
+  for (const rule of sortRules(rules)) {
+    if (!ruleMatchesError(rule, error)) continue;
+
+    const fixed = applyRule(csv, error, rule);
+    if (fixed !== csv) {
+      console.log(`[FixRules] "${rule.id}" fixed node ${error.node_num ?? 'unknown'}`);
+      return { csv: fixed, rule };
+    }
+  }
+  return { csv, rule: null };
+}
+
+// ============================================
+// DRY RUN
+// ============================================
+
+function fieldChanges(before: string, after: string): FixRuleFieldChange[] {
+  const beforeDoc = BotDocument.parse(before);
+  const afterDoc = BotDocument.parse(after);
+  const changes: FixRuleFieldChange[] = [];
+
+  for (const node of beforeDoc.nodes) {
+    const updated = afterDoc.getNode(node.nodeNum);
+    if (!updated) {
+      changes.push({ nodeNum: node.nodeNum, field: 'row', before: beforeDoc.getRecordText(node.rowNum - 1) || '', after: '' });
+      continue;
+    }
+    for (const field of Object.keys(node) as Array<keyof BotNode>) {
+      if (field === 'nodeNum' || field === 'rowNum') continue;
+      if ((node[field] || '') !== (updated[field] || '')) {
+        changes.push({ nodeNum: node.nodeNum, field, before: String(node[field] || ''), after: String(updated[field] || '') });
+      }
+    }
+  }
+
+  // Rows that were not nodes (orphan rows) show up as removed record text
+  const removedRows = beforeDoc.invalidRows().filter(row => !afterDoc.invalidRows().includes(row));
+  for (const row of removedRows) changes.push({ nodeNum: null, field: 'row', before: row, after: '' });
+
+  return changes;
+}
+
+/**
+ * What each rule would change for these errors, without applying anything.
+ * Every matching rule is evaluated on the original CSV, so the preview also
+ * shows rules that applyFixRules would not reach because an earlier one won.
+ */
+export function previewFixRules(csv: string, errors: ValidationError[], rules: FixRule[] = BUILTIN_FIX_RULES): FixRulePreview[] {
+  const previews: FixRulePreview[] = [];
+
+  for (const rule of sortRules(rules)) {
+    const preview: FixRulePreview = { ruleId: rule.id, description: rule.description, errors: [] };
+    for (const error of errors) {
+      if (!ruleMatchesError(rule, error)) continue;
+      const fixed = applyRule(csv, error, rule);
+      preview.errors.push({
+        nodeNum: error.node_num,
+        error: errorDetails(error).description,
+        changes: fixed === csv ? [] : fieldChanges(csv, fixed),
+      });
+    }
+    if (preview.errors.length > 0) previews.push(preview);
+  }
+
+  return previews;
+}
+
+// ============================================
+// RUNTIME RULES (fix_rules)
+// ============================================
+
+let cachedRules: FixRule[] | null = null;
+
+// Admin write path for fix_rules (service-role client on the edge function)
+const FIX_RULES_ENDPOINT = '/functions/v1/sd-error-learning/rules';
+
+/**
+ * Built-in rules merged with the rules stored in fix_rules. A stored rule with
+ * a built-in's id replaces it (e.g. to disable it). Falls back to the built-in
+ * rules when the table can't be read.
+ */
+export async function loadFixRules(options: { refresh?: boolean } = {}): Promise<FixRule[]> {
+  if (cachedRules && !options.refresh) return cachedRules;
+
+  try {
+    const { data, error } = await supabase
+      .from('fix_rules')
+      .select('id, rule, enabled')
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.warn('[FixRules] Failed to load fix rules, using built-in rules:', error);
+      return BUILTIN_FIX_RULES;
+    }
+
+    const stored = (data || []).map(row => ({ ...(row.rule as FixRule), id: row.id, enabled: row.enabled }));
+    const storedById = new Map(stored.map(rule => [rule.id, rule]));
+    cachedRules = [
+      ...BUILTIN_FIX_RULES.map(rule => storedById.get(rule.id) || rule),
+      ...stored.filter(rule => !BUILTIN_FIX_RULES.some(b => b.id === rule.id)),
+    ];
+    console.log(`[FixRules] Loaded ${cachedRules.length} fix rules (${stored.length} stored)`);
+    return cachedRules;
+  } catch (error) {
+    console.warn('[FixRules] Failed to load fix rules, using built-in rules:', error);
+    return BUILTIN_FIX_RULES;
+  }
+}
+
+/**
+ * Store a rule. Only admins can write fix_rules, so this goes through the
+ * sd-error-learning edge function with the user's session.
+ */
+export async function saveFixRule(rule: FixRule): Promise<boolean> {
+  try {
+    const { data: { session } } = await supabase.auth.getSession();
+    const response = await fetch(`${FIX_RULES_ENDPOINT}/${encodeURIComponent(rule.id)}`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(session?.access_token ? { 'Authorization': `Bearer ${session.access_token}` } : {}),
+      },
+      body: JSON.stringify({
+        rule,
+        source: rule.source,
+        enabled: rule.enabled !== false,
+        fix_attempt_id: rule.fixAttemptId ?? null,
+      }),
+    });
+
+    if (!response.ok) {
+      const body = await response.json().catch(() => null);
+      console.error('[FixRules] Error saving fix rule:', body?.error || response.status);
+      return false;
+    }
+    cachedRules = null;
+    return true;
+  } catch (error) {
+    console.error('[FixRules] Error saving fix rule:', error);
+    return false;
+  }
+}
+
+// ============================================
+// PROMOTION (proven fixes → rules)
+// ============================================
+
+/**
+ * Turn a proven fix into a rule. Only fixes with a field-level before/after
+ * diff can be expressed as one; description-only fixes return null.
+ */
+export function ruleFromProvenFix(fix: FixAttempt): FixRule | null {
+  const diff = fix.fix_diff as { before?: unknown; after?: unknown } | null;
+  const pattern = fix.error_patterns;
+  if (!diff || typeof diff.after !== 'string' || !pattern?.field_name) return null;
+
+  const field = fieldForHeader(pattern.field_name) || BOT_NODE_FIELDS.find(f => f.key === pattern.field_name)?.key;
+  if (!field) return null;
+
+  const before = typeof diff.before === 'string' ? diff.before : '';
+  // Pattern signatures from normalizeError match future errors exactly; human-fix
+  // patterns are keyed by node, so those match on category + field instead
+  const match: FixRuleMatch = pattern.error_signature?.startsWith('err_')
+    ? { signature: pattern.error_signature }
+    : { category: [categorizeError({ field_name: pattern.field_name, error_description: pattern.error_description })], field: [pattern.field_name] };
+
+  const operation: FixOperation = before
+    ? { op: 'replace', field, find: before, replace: diff.after }
+    : { op: 'set', field, value: diff.after, when: [{ field, empty: true }] };
+
+  return {
+    id: `promoted-${fix.id}`,
+    description: fix.fix_description,
+    source: 'promoted',
+    match,
+    operations: [operation],
+    fixAttemptId: fix.id,
+    confidence: fix.confidence_score,
+    appliedCount: fix.applied_count,
+  };
+}
+
+/**
+ * Promote every proven fix that can be expressed as a rule and isn't one yet
+ */
+export async function promoteProvenFixes(minConfidence = 0.9, minApplied = 5): Promise<FixRule[]> {
+  const [fixes, existing] = await Promise.all([getProvenFixes(minConfidence, minApplied), loadFixRules({ refresh: true })]);
+  const existingIds = new Set(existing.map(rule => rule.id));
+
+  const promoted: FixRule[] = [];
+  for (const fix of fixes) {
+    const rule = ruleFromProvenFix(fix);
+    if (!rule || existingIds.has(rule.id)) continue;
+    if (await saveFixRule(rule)) promoted.push(rule);
+  }
+
+  console.log(`[FixRules] Promoted ${promoted.length} of ${fixes.length} proven fixes`);
+  return promoted;
+}
@@ -14,6 +14,17 @@ import {
   type ValidationError,
   type FixAttempt,
 } from './error-learning';
+import { SCRIPT_OUTPUTS } from '../data/script-outputs';
+import { STARTUP_SCRIPTS } from '../data/startup-scripts';
+import { BOT_NODE_FIELDS, CSV_HEADER, clearForeignFields, escapeCSVField, nodeToCSVRow, validateGeneratedNodes } from './node-schema';
+import { BotDocument, type BotNodeFields, parseCSVLine, parseCSVRecords, serializeCSVFields, splitCSVRecords } from './bot-document';
+import { checkScriptContracts } from './script-contract';
+import { applyFixRules, fixReservedCharactersInButtons, loadFixRules } from './fix-rules';
+import { applyThemeClassnames } from './brand-theme';
+import type { CostLedger } from './cost-ledger';
+import type { BuildCheckpoints } from './build-checkpoints';
+
+export { SCRIPT_OUTPUTS };
 
 export interface CustomScript {
   name: string;
@@ -122,53 +133,6 @@ export const OFFICIAL_ACTION_NODE_SCRIPTS = new Set([
   'VarCheck', 'VariableReset', 'VerifyGPS',
 ]);
 
-/**
- * Registry of action script output values
- * Maps script names to their possible Decision Variable return values.
- * Used to validate that What Next routing covers all possible outcomes.
- * 
- * CRITICAL: If a What Next is missing a route for any of these values,
- * the bot will fail with an unhandled routing error.
- */
-export const SCRIPT_OUTPUTS: Record<string, string[]> = {
-  // Startup & Platform
-  'UserPlatformRouting': ['ios', 'android', 'mac', 'windows', 'other', 'error'],
-  'SysShowMetadata': ['true', 'error'],
-  'SysSetEnv': ['true', 'error'],
-  
-  // Variable Operations
-  'SysAssignVariable': ['true', 'error'],
-  'SetVar': ['true', 'false', 'error'],
-  'AssignVariable': ['true', 'false', 'error'],
-  'SysVariableReset': ['true', 'error'],
-  
-  // Routing & Matching
-  'SysMultiMatchRouting': ['false', 'error'], // 'false' for no match, other values are dynamic
-  'MatchRouting': ['true', 'false', 'error'],
-  'MultiMatchRouting': ['false', 'error'], // matches are dynamic, false/error are standard
-  'VarCheck': ['true', 'false', 'error'],
-  
-  // Validation
-  'ValidateRegex': ['true', 'false', 'error'],
-  'ValidateDate': ['true', 'false', 'error'],
-  'ValidateAddress': ['true', 'false', 'error'],
-  'ValidatePhoneAndReturnStripped': ['true', 'false', 'error'],
-  
-  // Error Handling
-  'HandleBotError': ['bot_error', 'bot_timeout', 'other'],
-  
-  // AI/NLU
-  'GenAIFallback': ['understood', 'route_flow', 'not_understood', 'error'],
-  'GetGPTCompletion': ['true', 'false', 'error'],
-  'GetGeminiCompletionSimple': ['true', 'false', 'error'],
-  
-  // Common utilities
-  'LimitCounter': ['stop', 'continue', 'error'],
-  'FailCountCheck': ['stop', 'continue', 'error'],
-  'GetValue': ['true', 'false', 'error'],
-  'BotToPlatform': ['true', 'false', 'error'],
-};
-
 /**
  * Result of script detection
  */
@@ -184,18 +148,11 @@ export interface ScriptDetectionResult {
  * Detect which action node scripts are used in a CSV and categorize them
  */
 export function detectRequiredScripts(csv: string): ScriptDetectionResult {
-  const lines = csv.split('\n');
-  const COMMAND_COL = 13;
-  
   const usedCommands = new Set<string>();
   
-  for (let i = 1; i < lines.length; i++) {
-    const line = lines[i];
-    if (!line.trim()) continue;
-    
-    const fields = parseCSVLineForFix(line);
-    const nodeType = fields[1]?.trim().toUpperCase();
-    const command = fields[COMMAND_COL]?.trim();
+  for (const node of BotDocument.parse(csv).nodes) {
+    const nodeType = node.type.trim().toUpperCase();
+    const command = node.command.trim();
     
     if (nodeType === 'A' && command) {
       usedCommands.add(command);
@@ -241,95 +198,58 @@ export function removeScriptFromSolution(csv: string, scriptName: string): {
   nodesModified: number[];
   success: boolean;
 } {
-  const lines = csv.split('\n');
-  if (lines.length < 2) return { csv, nodesModified: [], success: false };
-  
-  const COMMAND_COL = 13;
-  const NODE_NUM_COL = 0;
-  const NODE_TYPE_COL = 1;
-  const NODE_NAME_COL = 2;
-  const PARAM_INPUT_COL = 17;
-  const DECISION_VAR_COL = 18;
-  const WHAT_NEXT_COL = 19;
-  const OUTPUT_COL = 15;
-  
-  const fixedLines: string[] = [lines[0]]; // Keep header
+  const doc = BotDocument.parse(csv);
   const nodesModified: number[] = [];
   
-  for (let i = 1; i < lines.length; i++) {
-    const line = lines[i];
-    if (!line.trim()) {
-      fixedLines.push(line);
-      continue;
+  for (const node of doc.nodes) {
+    // Check if this node uses the script we're removing
+    if (node.type.trim().toUpperCase() !== 'A' || node.command.trim() !== scriptName) continue;
+    
+    // Get the original output variables to preserve them as mock values
+    const outputVars = node.output.trim().split(',').map(v => v.trim()).filter(v => v);
+    
+    // Build mock output - set each output variable to a placeholder
+    const mockSet: Record<string, string> = {};
+    if (outputVars.length > 0) {
+      outputVars.forEach(v => {
+        mockSet[v.toUpperCase()] = `MOCK_${v.toUpperCase()}`;
+      });
+    } else {
+      mockSet['SCRIPT_REMOVED'] = 'true';
+      mockSet['ORIGINAL_COMMAND'] = scriptName;
     }
     
-    const fields = parseCSVLineForFix(line);
-    while (fields.length < 26) fields.push('');
+    // Replace with SysAssignVariable
+    const changes: Partial<BotNodeFields> = {
+      command: 'SysAssignVariable',
+      paramInput: JSON.stringify({ set: mockSet }),
+    };
     
-    const nodeNum = parseInt(fields[NODE_NUM_COL], 10);
-    const nodeType = fields[NODE_TYPE_COL]?.trim().toUpperCase();
-    const command = fields[COMMAND_COL]?.trim();
+    // Ensure decision variable exists
+    if (!node.decVar.trim()) {
+      changes.decVar = 'success';
+    }
     
-    // Check if this node uses the script we're removing
-    if (nodeType === 'A' && command === scriptName) {
-      // Get the original output variables to preserve them as mock values
-      const originalOutput = fields[OUTPUT_COL]?.trim() || '';
-      const outputVars = originalOutput.split(',').map(v => v.trim()).filter(v => v);
-      
-      // Build mock output - set each output variable to a placeholder
-      const mockSet: Record<string, string> = {};
-      if (outputVars.length > 0) {
-        outputVars.forEach(v => {
-          mockSet[v.toUpperCase()] = `MOCK_${v.toUpperCase()}`;
-        });
-      } else {
-        mockSet['SCRIPT_REMOVED'] = 'true';
-        mockSet['ORIGINAL_COMMAND'] = scriptName;
-      }
-      
-      // Replace with SysAssignVariable
-      fields[COMMAND_COL] = 'SysAssignVariable';
-      fields[PARAM_INPUT_COL] = JSON.stringify({ set: mockSet });
-      
-      // Ensure decision variable exists
-      if (!fields[DECISION_VAR_COL]?.trim()) {
-        fields[DECISION_VAR_COL] = 'success';
-      }
-      
-      // Fix What Next if needed - ensure it has the decision variable format
-      const whatNext = fields[WHAT_NEXT_COL]?.trim();
-      if (whatNext && !whatNext.includes('~')) {
-        // It's just a node number, convert to proper format
-        fields[WHAT_NEXT_COL] = `true~${whatNext}|error~99990`;
-      } else if (!whatNext) {
-        fields[WHAT_NEXT_COL] = 'true~105|error~99990';
-      }
-      
-      // Update node name to indicate it was modified
-      const nodeName = fields[NODE_NAME_COL] || '';
-      if (!nodeName.includes('[Mock]')) {
-        fields[NODE_NAME_COL] = `${nodeName} [Mock - ${scriptName} removed]`.trim();
-      }
-      
-      nodesModified.push(nodeNum);
-      
-      // Reconstruct line
-      const newLine = fields.map(f => {
-        if (!f) return '';
-        const str = String(f);
-        if (str.includes(',') || str.includes('"') || str.includes('\n')) {
-          return '"' + str.replace(/"/g, '""') + '"';
-        }
-        return str;
-      }).join(',');
-      fixedLines.push(newLine);
-    } else {
-      fixedLines.push(line);
+    // Fix What Next if needed - ensure it has the decision variable format
+    const whatNext = node.whatNext.trim();
+    if (whatNext && !whatNext.includes('~')) {
+      // It's just a node number, convert to proper format
+      changes.whatNext = `true~${whatNext}|error~99990`;
+    } else if (!whatNext) {
+      changes.whatNext = 'true~105|error~99990';
+    }
+    
+    // Update node name to indicate it was modified
+    if (!node.name.includes('[Mock]')) {
+      changes.name = `${node.name} [Mock - ${scriptName} removed]`.trim();
     }
+    
+    doc.updateNode(node.nodeNum, changes);
+    nodesModified.push(node.nodeNum);
   }
   
   return {
-    csv: fixedLines.join('\n'),
+    csv: nodesModified.length > 0 ? doc.toCSV() : csv,
     nodesModified,
     success: nodesModified.length > 0,
   };
@@ -340,25 +260,15 @@ export function removeScriptFromSolution(csv: string, scriptName: string): {
  */
 export function validateCSVStructure(csv: string): { valid: boolean; errors: string[] } {
   const errors: string[] = [];
-  const lines = csv.split('\n').filter(l => l.trim());
+  const doc = BotDocument.parse(csv);
   
-  if (lines.length < 2) {
+  if (doc.nodes.length === 0) {
     errors.push('CSV has no data rows');
     return { valid: false, errors };
   }
   
   // Check for node 1
-  let hasNode1 = false;
-  for (let i = 1; i < lines.length; i++) {
-    const fields = parseCSVLineForFix(lines[i]);
-    const nodeNum = parseInt(fields[0], 10);
-    if (nodeNum === 1) {
-      hasNode1 = true;
-      break;
-    }
-  }
-  
-  if (!hasNode1) {
+  if (!doc.hasNode(1)) {
     errors.push('Missing required start node (Node Number 1). Every bot must have a node numbered 1 as the entry point.');
   }
   
@@ -384,7 +294,8 @@ export function validateCSVStructure(csv: string): { valid: boolean; errors: str
  */
 export function structuralPreValidation(csv: string): { csv: string; fixes: string[] } {
   const fixes: string[] = [];
-  const lines = csv.split('\n');
+  // One entry per CSV record - quoted multi-line fields stay in their row
+  const lines = splitCSVRecords(csv).map(r => r.raw);
   if (lines.length < 2) return { csv, fixes };
 
   // Column indices
@@ -405,7 +316,7 @@ export function structuralPreValidation(csv: string): { csv: string; fixes: stri
   for (let i = 1; i < lines.length; i++) {
     const line = lines[i];
     if (!line.trim()) continue;
-    const fields = parseCSVLineForFix(line);
+    const fields = parseCSVLine(line);
     while (fields.length < 26) fields.push('');
     // Trim excess columns
     if (fields.length > 26) fields.length = 26;
@@ -1007,7 +918,7 @@ export function structuralPreValidation(csv: string): { csv: string; fixes: stri
 
     // Reconstruct the line
     if (modified) {
-      fixedLines.push(reconstructCSVLine(fields));
+      fixedLines.push(serializeCSVFields(fields));
     } else {
       fixedLines.push(lines[lineIdx]);
     }
@@ -1061,7 +972,7 @@ export function structuralPreValidation(csv: string): { csv: string; fixes: stri
     for (let i = 1; i < fixedLines.length; i++) {
       const line = fixedLines[i];
       if (!line.trim()) continue;
-      const fields = parseCSVLineForFix(line);
+      const fields = parseCSVLine(line);
       if (fields.length < 8) continue;
       let lineModified = false;
       const nodeNum = parseInt(fields[0], 10);
@@ -1146,7 +1057,7 @@ export function structuralPreValidation(csv: string): { csv: string; fixes: stri
       }
       
       if (lineModified) {
-        fixedLines[i] = reconstructCSVLine(fields);
+        fixedLines[i] = serializeCSVFields(fields);
       }
     }
     
@@ -1191,7 +1102,7 @@ export function structuralPreValidation(csv: string): { csv: string; fixes: stri
     for (let i = 1; i < fixedLines.length; i++) {
       const line = fixedLines[i];
       if (!line.trim()) continue;
-      const fields = parseCSVLineForFix(line);
+      const fields = parseCSVLine(line);
       while (fields.length < 26) fields.push('');
       const nodeNum = parseInt(fields[COL.NODE_NUM], 10);
       if (isNaN(nodeNum)) continue;
@@ -1366,7 +1277,7 @@ export function structuralPreValidation(csv: string): { csv: string; fixes: stri
       }
       
       if (modified) {
-        fixedLines[lineIdx] = reconstructCSVLine(fields);
+        fixedLines[lineIdx] = serializeCSVFields(fields);
       }
     }
     
@@ -1389,7 +1300,7 @@ export function structuralPreValidation(csv: string): { csv: string; fixes: stri
       const line = fixedLines[i];
       if (!line.trim()) continue;
       
-      const fields = parseCSVLineForFix(line);
+      const fields = parseCSVLine(line);
       while (fields.length < 26) fields.push('');
       
       const nodeNum = parseInt(fields[COL.NODE_NUM], 10);
@@ -1444,7 +1355,7 @@ export function structuralPreValidation(csv: string): { csv: string; fixes: stri
         const fixedWhatNext = whatNext + '|' + newRoutes.join('|');
         
         fields[COL.WHAT_NEXT] = fixedWhatNext;
-        fixedLines[i] = reconstructCSVLine(fields);
+        fixedLines[i] = serializeCSVFields(fields);
         routingFixes++;
         
         fixes.push(`Node ${nodeNum}: Added missing ${command} routes: ${missingRoutes.join(', ')} → ${fallbackDest}`);
@@ -1467,7 +1378,7 @@ export function structuralPreValidation(csv: string): { csv: string; fixes: stri
       const line = fixedLines[i];
       if (!line.trim()) continue;
       
-      const fields = parseCSVLineForFix(line);
+      const fields = parseCSVLine(line);
       const nodeNum = parseInt(fields[COL.NODE_NUM], 10);
       if (isNaN(nodeNum)) continue;
       
@@ -1581,39 +1492,6 @@ export function structuralPreValidation(csv: string): { csv: string; fixes: stri
   return { csv: fixedLines.join('\n'), fixes };
 }
 
-/**
- * Parse a CSV line respecting quoted fields
- */
-function parseCSVLineForFix(line: string): string[] {
-  // Safety check - always return an array
-  if (!line || typeof line !== 'string') {
-    return [];
-  }
-  
-  const result: string[] = [];
-  let current = '';
-  let inQuotes = false;
-  
-  for (let i = 0; i < line.length; i++) {
-    const char = line[i];
-    if (char === '"') {
-      if (inQuotes && line[i + 1] === '"') {
-        current += '"';
-        i++;
-      } else {
-        inQuotes = !inQuotes;
-      }
-    } else if (char === ',' && !inQuotes) {
-      result.push(current);
-      current = '';
-    } else {
-      current += char;
-    }
-  }
-  result.push(current);
-  return result;
-}
-
 /**
  * Clean up a JSON string that might have extra quoting
  * Handles cases where JSON is wrapped in extra quotes: '"{"type":...}"' -> '{"type":...}'
@@ -1728,78 +1606,6 @@ function fixRichAssetContent(content: string, richType?: string): { fixed: strin
   }
 }
 
-/**
- * Fix reserved characters inside button labels
- * Pattern: "$25|k" -> "$25k" (pipe character incorrectly inside label)
- * Pattern: "2|FA" -> "2FA" (pipe inside acronym like 2FA)
- * This fixes common AI mistakes where | appears inside labels instead of between buttons
- */
-function fixReservedCharactersInButtons(content: string): { fixed: string; wasFixed: boolean } {
-  // Skip if JSON format
-  if (content.trim().startsWith('{') || content.trim().startsWith('[')) {
-    return { fixed: content, wasFixed: false };
-  }
-  
-  // Check if it looks like button content
-  if (!content.includes('~')) {
-    return { fixed: content, wasFixed: false };
-  }
-  
-  let fixedContent = content;
-  
-  // Fix 1: Price labels with pipe before 'k' (thousand) - "$25|k" -> "$25k"
-  fixedContent = fixedContent.replace(/(\$\d+)\|([kK])/g, '$1$2');
-  
-  // Fix 2: Price labels with pipe before 'm' (million) - "$1|m" -> "$1m"
-  fixedContent = fixedContent.replace(/(\$\d+)\|([mM])/g, '$1$2');
-  
-  // Fix 3: Acronyms like "2|FA" -> "2FA" (two-factor auth)
-  // Pattern: digit|uppercase letters (common for 2FA, 3D, 4K, etc.)
-  fixedContent = fixedContent.replace(/(\d)\|([A-Z]{1,3})(?=[\s~]|$)/g, '$1$2');
-  
-  // Fix 4: General pattern - pipe between alphanumeric characters within a button label
-  // Look at each button individually (split by | and recombine smartly)
-  // First, identify valid button separators: they come after ~nodeNum
-  // Invalid pipes are inside labels (before the first ~ or between label chars)
-  const buttons = fixedContent.split('|');
-  const fixedButtons: string[] = [];
-  
-  for (let i = 0; i < buttons.length; i++) {
-    let btn = buttons[i];
-    
-    // If this segment doesn't contain ~ and the previous one ended with ~number,
-    // this is likely a continuation of a broken label
-    if (i > 0 && !btn.includes('~') && fixedButtons.length > 0) {
-      // Check if this looks like it should be part of the previous button's label
-      // e.g., "Enable 2" + "FA~631" should become "Enable 2FA~631"
-      const lastBtn = fixedButtons[fixedButtons.length - 1];
-      if (!lastBtn.includes('~')) {
-        // Previous button also has no ~, merge them
-        fixedButtons[fixedButtons.length - 1] = lastBtn + btn;
-        continue;
-      } else if (btn.match(/^[A-Z]{1,4}~/)) {
-        // This starts with uppercase letters then ~ (like "FA~631")
-        // It's likely the second half of an acronym, merge with previous
-        // But only if previous ends with a digit
-        const prevParts = lastBtn.split('~');
-        if (prevParts.length === 1 && prevParts[0].match(/\d$/)) {
-          fixedButtons[fixedButtons.length - 1] = lastBtn + btn;
-          continue;
-        }
-      }
-    }
-    
-    fixedButtons.push(btn);
-  }
-  
-  fixedContent = fixedButtons.join('|');
-  
-  return { 
-    fixed: fixedContent, 
-    wasFixed: fixedContent !== content 
-  };
-}
-
 /**
  * Fix button pipe format - add missing | between button options
  * Pattern: "Label~100Label~200" -> "Label~100|Label~200"
@@ -1957,359 +1763,18 @@ function getColumnIndexByFieldName(fieldName: string): number {
  * If fieldName is provided, only checks that specific column (avoids false positives)
  */
 function isErrorStillInNode(csv: string, nodeNum: number, errorContent: string, fieldName?: string): boolean {
-  const lines = csv.split('\n');
-  for (let i = 1; i < lines.length; i++) {
-    const line = lines[i];
-    if (!line.trim()) continue;
-    // Quick check: does this line start with the node number?
-    const fields = parseCSVLineForFix(line);
-    if (fields.length < 1) continue;
-    const lineNodeNum = parseInt(fields[0], 10);
-    if (lineNodeNum === nodeNum) {
-      // If we know the field name, only check that specific column
-      // This prevents false positives (e.g., fix sets "success" and we find "success" in another field)
-      if (fieldName) {
-        const colIdx = getColumnIndexByFieldName(fieldName);
-        if (colIdx >= 0 && colIdx < fields.length) {
-          return fields[colIdx]?.includes(errorContent) ?? false;
-        }
-      }
-      // Fallback: check all fields (but this can cause false positives)
-      return fields.some(f => f && f.includes(errorContent));
-    }
-  }
+  const node = BotDocument.parse(csv).getNode(nodeNum);
   // Node not found — can't verify, assume not present
-  return false;
-}
-
-/**
- * Apply programmatic fix for a specific validation error
- * This is used as a fallback when AI refinement fails to fix an error
- */
-function applyProgrammaticFixForError(csv: string, error: ValidationError): string {
-  const errorDesc = error.err_msgs?.[0]?.error_description?.toLowerCase() || '';
-  const errorContent = error.err_msgs?.[0]?.field_entry || '';
-  const fieldName = error.err_msgs?.[0]?.field_name || '';
-  
-  // Fix: Pipe character inside button labels (e.g., "$25|k" -> "$25k")
-  if (errorDesc.includes('pipe character') || errorDesc.includes('button construction')) {
-    // Apply the reserved character fix to the entire CSV
-    const lines = csv.split('\n');
-    const fixedLines = lines.map((line, idx) => {
-      if (idx === 0) return line; // Skip header
-      
-      const fields = parseCSVLineForFix(line);
-      if (fields.length < 11) return line;
-      
-      // Check Rich Asset Content column (index 10)
-      const richContent = fields[10];
-      if (richContent && richContent.includes(errorContent)) {
-        // Apply the fix
-        const { fixed, wasFixed } = fixReservedCharactersInButtons(richContent);
-        if (wasFixed) {
-          fields[10] = fixed;
-          console.log(`[Programmatic Fix] Fixed reserved characters in node row ${idx}`);
-          return reconstructCSVLine(fields);
-        }
-      }
-      return line;
-    });
-    return fixedLines.join('\n');
-  }
-  
-  // Fix: NLU Disabled with multiple children
-  if (errorDesc.includes('nlu disabled') && errorDesc.includes('one child')) {
-    const nodeNum = error.node_num;
-    const lines = csv.split('\n');
-    const fixedLines = lines.map((line, idx) => {
-      if (idx === 0) return line;
-      
-      const fields = parseCSVLineForFix(line);
-      if (fields.length < 7) return line;
-      
-      const lineNodeNum = parseInt(fields[0], 10);
-      if (lineNodeNum === nodeNum && fields[6]?.trim() === '1') {
-        // Clear NLU Disabled
-        fields[6] = '';
-        console.log(`[Programmatic Fix] Cleared NLU Disabled for node ${nodeNum}`);
-        return reconstructCSVLine(fields);
-      }
-      return line;
-    });
-    return fixedLines.join('\n');
-  }
-  
-  // Fix: Parameter Input JSON errors
-  if ((errorDesc.includes('json input error') || errorDesc.includes('expecting property name') || errorDesc.includes('expecting input')) && (fieldName === 'Parameter Input' || fieldName === 'parameter_input')) {
-    const nodeNum = error.node_num;
-    const lines = csv.split('\n');
-    const fixedLines = lines.map((line, idx) => {
-      if (idx === 0) return line;
-      
-      const fields = parseCSVLineForFix(line);
-      if (fields.length < 18) return line;
-      
-      const lineNodeNum = parseInt(fields[0], 10);
-      if (lineNodeNum === nodeNum && fields[17]) {
-        let paramInput = fields[17].trim();
-        
-        // Fix 1: Remove extra closing braces
-        let openBraces = (paramInput.match(/{/g) || []).length;
-        let closeBraces = (paramInput.match(/}/g) || []).length;
-        while (closeBraces > openBraces) {
-          paramInput = paramInput.replace(/}([^}]*)$/, '$1');
-          closeBraces--;
-        }
-        
-        // Fix 2: Array to object — [{"key":"val"}] → {"set":{"key":"val"}}
-        if (paramInput.startsWith('[')) {
-          try {
-            const arr = JSON.parse(paramInput);
-            if (Array.isArray(arr) && arr.length > 0) {
-              paramInput = JSON.stringify({ set: arr[0] });
-            }
-          } catch { /* keep as-is */ }
-        }
-        
-        // Fix 3: Unquoted variable refs — {var_name} → "{var_name}"
-        paramInput = paramInput.replace(/:(\s*)\{([a-zA-Z_][a-zA-Z0-9_]*)\}/g, ':$1"{$2}"');
-        
-        // Fix 4: Validate final JSON - if still broken, DON'T modify (let AI try)
-        try {
-          JSON.parse(paramInput);
-          // JSON is valid now, apply the fix
-          fields[17] = paramInput;
-          console.log(`[Programmatic Fix] Fixed Parameter Input JSON for node ${nodeNum}`);
-          return reconstructCSVLine(fields);
-        } catch {
-          // JSON is still broken - don't apply a placeholder, let AI try to fix it
-          console.log(`[Programmatic Fix] Parameter Input unfixable for node ${nodeNum}, deferring to AI`);
-          return line; // Return original line unchanged
-        }
-      }
-      return line;
-    });
-    return fixedLines.join('\n');
-  }
-  
-  // Fix: Decision Variable mismatch ("dir_field not in payload")
-  if (errorDesc.includes('dir_field') || errorDesc.includes('proposed dir_field')) {
-    const nodeNum = error.node_num;
-    
-    // CRITICAL: Skip programmatic fixes for startup nodes that are managed by injectRequiredStartupNodes
-    // These nodes have specific configurations that should NOT be overwritten
-    const PROTECTED_STARTUP_NODES = new Set([
-      -500, // HandleBotError - decVar: error_type
-      1, // SysShowMetadata - decVar: success
-      10, // UserPlatformRouting - decVar: success (but special What Next)
-      100, 101, 102, // Platform SetVar - decVar: success
-      104, // SysSetEnv - decVar: success
-      105, // InitContext - decVar: success
-      1800, // GenAIFallback - decVar: result (NOT success!)
-      1803, // RouteDetectedIntent - decVar: route_to
-      1804, // FallbackLoop - may have special config
-    ]);
-    
-    if (nodeNum !== undefined && PROTECTED_STARTUP_NODES.has(nodeNum)) {
-      console.log(`[Programmatic Fix] Skipping protected startup node ${nodeNum} - will be handled by startup injection`);
-      return csv; // Don't modify - let injectRequiredStartupNodes handle it
-    }
-    
-    const lines = csv.split('\n');
-    const fixedLines = lines.map((line, idx) => {
-      if (idx === 0) return line;
-      
-      const fields = parseCSVLineForFix(line);
-      if (fields.length < 20) return line;
-      
-      const lineNodeNum = parseInt(fields[0], 10);
-      if (lineNodeNum === nodeNum) {
-        const nodeType = fields[1]?.trim().toUpperCase();
-        
-        // For Decision nodes: CLEAR Action-only columns - D nodes should NOT have Decision Variable
-        if (nodeType === 'D') {
-          // Move any message from Node Input (col 16) to Message (col 8) if Message is empty
-          if (!fields[8]?.trim() && fields[16]?.trim()) {
-            fields[8] = fields[16];
-            fields[16] = '';
-            console.log(`[Programmatic Fix] Moved message from Node Input to Message for node ${nodeNum}`);
-          }
-          // Clear Action-only columns: Command(13), Description(14), Output(15), ParamInput(17), DecisionVar(18), WhatNext(19)
-          fields[13] = '';
-          fields[14] = '';
-          fields[15] = '';
-          fields[17] = '';
-          fields[18] = '';
-          fields[19] = '';
-          console.log(`[Programmatic Fix] Cleared Action-only columns for Decision node ${nodeNum}`);
-          return reconstructCSVLine(fields);
-        }
-        
-        // For Action nodes: Use command-specific Decision Variable, not just "success"
-        const command = fields[13]?.trim() || '';
-        const COMMAND_TO_DECVAR: Record<string, string> = {
-          'SysAssignVariable': 'success',
-          'SysShowMetadata': 'success',
-          'SysSetEnv': 'success',
-          'SysVariableReset': 'success',
-          'HandleBotError': 'error_type',
-          'UserPlatformRouting': 'success',
-          'GenAIFallback': 'result',
-          'ValidateRegex': 'success',
-          'ValidateDate': 'success',
-          'GetValue': 'success',
-          'SetVar': 'success',
-          'VarCheck': 'valid',
-          'LimitCounter': 'valid',
-          'BotToPlatform': 'success',
-          'SysMultiMatchRouting': 'route_to', // Uses output variable name
-        };
-        
-        const correctDecVar = COMMAND_TO_DECVAR[command] || 'success';
-        fields[18] = correctDecVar;
-        
-        // Only fix What Next if it's empty or clearly wrong for the decision variable
-        const wn = fields[19]?.trim();
-        if (!wn) {
-          // Generate appropriate What Next based on the decision variable
-          if (correctDecVar === 'success') {
-            fields[19] = 'true~' + (fields[7]?.trim()?.split(/[,|]/)[0] || '201') + '|false~99990|error~99990';
-          } else if (correctDecVar === 'error_type') {
-            fields[19] = 'bot_error~99990|bot_timeout~99990|other~99990';
-          } else if (correctDecVar === 'valid') {
-            fields[19] = 'true~' + (fields[7]?.trim()?.split(/[,|]/)[0] || '201') + '|false~99990|error~99990';
-          }
-          // For other decision variables, leave What Next alone - AI or startup injection will handle
-        }
-        console.log(`[Programmatic Fix] Fixed Decision Variable for Action node ${nodeNum} → "${correctDecVar}"`);
-        return reconstructCSVLine(fields);
-      }
-      return line;
-    });
-    return fixedLines.join('\n');
-  }
-  
-  // Fix: Variable not ALL_CAPS
-  if (errorDesc.includes('capital letters') || errorDesc.includes('all capital')) {
-    const nodeNum = error.node_num;
-    const lines = csv.split('\n');
-    const fixedLines = lines.map((line, idx) => {
-      if (idx === 0) return line;
-      
-      const fields = parseCSVLineForFix(line);
-      if (fields.length < 23) return line;
-      
-      const lineNodeNum = parseInt(fields[0], 10);
-      if (lineNodeNum === nodeNum && fields[22]) {
-        fields[22] = fields[22].trim().toUpperCase().replace(/[\s-]+/g, '_');
-        console.log(`[Programmatic Fix] Fixed Variable case for node ${nodeNum} → ${fields[22]}`);
-        return reconstructCSVLine(fields);
-      }
-      return line;
-    });
-    return fixedLines.join('\n');
-  }
+  if (!node) return false;
   
-  // Fix: Answer Required must be 1 for datepicker/timepicker/file_upload
-  if (errorDesc.includes('ans_req') && errorDesc.includes('1')) {
-    const nodeNum = error.node_num;
-    const lines = csv.split('\n');
-    const fixedLines = lines.map((line, idx) => {
-      if (idx === 0) return line;
-      
-      const fields = parseCSVLineForFix(line);
-      if (fields.length < 12) return line;
-      
-      const lineNodeNum = parseInt(fields[0], 10);
-      if (lineNodeNum === nodeNum) {
-        fields[11] = '1';
-        console.log(`[Programmatic Fix] Set Answer Required=1 for node ${nodeNum}`);
-        return reconstructCSVLine(fields);
-      }
-      return line;
-    });
-    return fixedLines.join('\n');
+  // If we know the field name, only check that specific column
+  // This prevents false positives (e.g., fix sets "success" and we find "success" in another field)
+  if (fieldName) {
+    const field = BOT_NODE_FIELDS[getColumnIndexByFieldName(fieldName)]?.key;
+    if (field) return node[field].includes(errorContent);
   }
-  
-  // Fix: Node number not an integer (broken row from multi-line message)
-  if (errorDesc.includes('not an integer') && fieldName === 'Node Number') {
-    // This usually means a message with newlines broke into separate rows
-    // Remove the orphan row since the content should be in the Message column
-    const lines = csv.split('\n');
-    const fixedLines = lines.filter((line, idx) => {
-      if (idx === 0) return true; // Keep header
-      const firstComma = line.indexOf(',');
-      const firstField = firstComma > 0 ? line.substring(0, firstComma).trim() : line.trim();
-      const nodeNum = parseInt(firstField, 10);
-      // Keep valid rows, remove rows where first field isn't a number
-      if (isNaN(nodeNum) && firstField.length > 0) {
-        console.log(`[Programmatic Fix] Removed orphan row (non-integer Node Number): "${firstField.substring(0, 40)}..."`);
-        return false;
-      }
-      return true;
-    });
-    return fixedLines.join('\n');
-  }
-  
-  // Fix: Rich Asset Type invalid - content exists but type is missing/invalid
-  if (errorDesc.includes('rich type is invalid') || (fieldName === 'Rich Asset Content' && errorDesc.includes('embed type'))) {
-    const nodeNum = error.node_num;
-    const lines = csv.split('\n');
-    const fixedLines = lines.map((line, idx) => {
-      if (idx === 0) return line;
-      
-      const fields = parseCSVLineForFix(line);
-      if (fields.length < 11) return line;
-      
-      const lineNodeNum = parseInt(fields[0], 10);
-      if (lineNodeNum === nodeNum) {
-        const richContent = fields[10]?.trim() || '';
-        if (richContent) {
-          const isJsonFormat = richContent.startsWith('{') || richContent.startsWith('[');
-          const isPipeFormat = richContent.includes('~') && !richContent.startsWith('{');
-          
-          if (isPipeFormat) {
-            fields[9] = 'button';
-            console.log(`[Programmatic Fix] Set Rich Asset Type to 'button' for pipe content at node ${nodeNum}`);
-          } else if (isJsonFormat) {
-            // Try to detect the type from JSON content
-            try {
-              const parsed = JSON.parse(richContent);
-              if (parsed.url) {
-                fields[9] = 'webview';
-              } else if (parsed.options?.some((opt: { description?: string }) => opt.description)) {
-                fields[9] = 'listpicker';
-              } else {
-                fields[9] = 'buttons';
-              }
-            } catch {
-              fields[9] = 'buttons';
-            }
-            console.log(`[Programmatic Fix] Set Rich Asset Type to '${fields[9]}' for JSON content at node ${nodeNum}`);
-          }
-          return reconstructCSVLine(fields);
-        }
-      }
-      return line;
-    });
-    return fixedLines.join('\n');
-  }
-  
-  return csv;
-}
-
-/**
- * Reconstruct a CSV line from fields with proper escaping
- */
-function reconstructCSVLine(fields: string[]): string {
-  return fields.map(f => {
-    if (!f) return '';
-    const str = String(f);
-    if (str.includes(',') || str.includes('"') || str.includes('\n')) {
-      return '"' + str.replace(/"/g, '""') + '"';
-    }
-    return str;
-  }).join(',');
+  // Fallback: check all fields (but this can cause false positives)
+  return BOT_NODE_FIELDS.some(({ key }) => node[key].includes(errorContent));
 }
 
 /**
@@ -2336,7 +1801,8 @@ function reconstructCSVLine(fields: string[]): string {
  * 17. File upload validation - Ensure required JSON properties
  */
 export function sanitizeCSVForDeploy(csv: string): string {
-  const lines = csv.split('\n');
+  // One entry per CSV record - quoted multi-line fields stay in their row
+  const lines = splitCSVRecords(csv).map(r => r.raw);
   if (lines.length < 2) return csv;
   
   // Column indices (0-indexed)
@@ -2365,7 +1831,7 @@ export function sanitizeCSVForDeploy(csv: string): string {
   for (let i = 1; i < lines.length; i++) {
     const line = lines[i];
     if (!line.trim()) continue;
-    const tempFields = parseCSVLineForFix(line);
+    const tempFields = parseCSVLine(line);
     const numStr = tempFields[NODE_NUM_COL]?.trim() || '';
     const num = parseInt(numStr, 10);
     if (!isNaN(num) && numStr === String(num)) {
@@ -2386,7 +1852,7 @@ export function sanitizeCSVForDeploy(csv: string): string {
       continue;
     }
     
-    const fields = parseCSVLineForFix(line);
+    const fields = parseCSVLine(line);
     
     // Ensure we have enough columns (pad if needed)
     while (fields.length < 26) {
@@ -3110,21 +2576,7 @@ export function sanitizeCSVForDeploy(csv: string): string {
     }
     
     if (needsReconstruct) {
-      // Reconstruct line with proper CSV escaping
-      if (!fields || !Array.isArray(fields)) {
-        console.error(`[Sanitize] Error: fields is not an array at line ${i}, keeping original`);
-        fixedLines.push(line);
-      } else {
-        const newLine = fields.map(f => {
-          if (!f) return '';
-          const str = String(f);
-          if (str.includes(',') || str.includes('"') || str.includes('\n')) {
-            return '"' + str.replace(/"/g, '""') + '"';
-          }
-          return str;
-        }).join(',');
-        fixedLines.push(newLine);
-      }
+      fixedLines.push(serializeCSVFields(fields));
     } else {
       fixedLines.push(line);
     }
@@ -3151,21 +2603,10 @@ export function sanitizeCSVForDeploy(csv: string): string {
  * Converts API-dependent nodes to use hardcoded mock values
  */
 export function applyMockDataToWarning(csv: string, warningMessage: string): { csv: string; applied: boolean; changes: string[] } {
-  const lines = csv.split('\n');
-  if (lines.length < 2) return { csv, applied: false, changes: [] };
+  const doc = BotDocument.parse(csv);
+  if (doc.nodes.length === 0) return { csv, applied: false, changes: [] };
   
   const changes: string[] = [];
-  const fixedLines: string[] = [lines[0]]; // Keep header
-  
-  // Column indices
-  const NODE_NUM_COL = 0;
-  const NODE_TYPE_COL = 1;
-  const NODE_NAME_COL = 2;
-  const MESSAGE_COL = 8;
-  const COMMAND_COL = 13;
-  const PARAM_INPUT_COL = 17;
-  const DECISION_VAR_COL = 18;
-  const WHAT_NEXT_COL = 19;
   
   // Detect what type of API dependency based on warning message
   const isPostEventToBQ = warningMessage.toLowerCase().includes('posteventtobq') || 
@@ -3173,47 +2614,37 @@ export function applyMockDataToWarning(csv: string, warningMessage: string): { c
   const isBooking = warningMessage.toLowerCase().includes('booking');
   const isEmail = warningMessage.toLowerCase().includes('email');
   const isIntegration = warningMessage.toLowerCase().includes('integration');
-  const isAgentTransfer = warningMessage.toLowerCase().includes('agent');
   
   // Extract table name from message if BigQuery
   const tableMatch = warningMessage.match(/(?:table|BigQuery table)\s+(\w+\.\w+)/i);
   const tableName = tableMatch ? tableMatch[1] : null;
   
-  for (let i = 1; i < lines.length; i++) {
-    const line = lines[i];
-    if (!line.trim()) {
-      fixedLines.push(line);
-      continue;
-    }
-    
-    const fields = parseCSVLineForFix(line);
-    while (fields.length < 26) fields.push('');
-    
-    const nodeNum = fields[NODE_NUM_COL];
-    const nodeType = fields[NODE_TYPE_COL]?.toUpperCase();
-    const nodeName = fields[NODE_NAME_COL] || '';
-    const command = fields[COMMAND_COL] || '';
-    const paramInput = fields[PARAM_INPUT_COL] || '';
-    
-    let modified = false;
+  for (const node of doc.nodes) {
+    const nodeNum = node.nodeNum;
+    const nodeType = node.type.toUpperCase();
+    const nodeName = node.name;
+    const command = node.command;
+    const paramInput = node.paramInput;
+    
+    // Replace the node's action with SysAssignVariable setting mock values
+    const mockNode = (set: Record<string, string>) => {
+      doc.updateNode(nodeNum, {
+        command: 'SysAssignVariable',
+        paramInput: JSON.stringify({ set }),
+        decVar: 'success',
+        // Keep existing What Next or add default
+        ...(!node.whatNext.trim() && { whatNext: 'true~105|error~99990' }),
+      });
+    };
     
     // Handle PostEventToBQ nodes - replace with SysAssignVariable
     if (isPostEventToBQ && nodeType === 'A' && command === 'PostEventToBQ') {
       // Check if this node references the table in the warning
       if (!tableName || paramInput.includes(tableName)) {
-        fields[COMMAND_COL] = 'SysAssignVariable';
-        fields[PARAM_INPUT_COL] = JSON.stringify({ 
-          set: { 
-            MOCK_BQ_LOGGED: 'true',
-            MOCK_TIMESTAMP: new Date().toISOString().split('T')[0]
-          }
+        mockNode({
+          MOCK_BQ_LOGGED: 'true',
+          MOCK_TIMESTAMP: new Date().toISOString().split('T')[0]
         });
-        fields[DECISION_VAR_COL] = 'success';
-        // Keep existing What Next or add default
-        if (!fields[WHAT_NEXT_COL]?.trim()) {
-          fields[WHAT_NEXT_COL] = 'true~105|error~99990';
-        }
-        modified = true;
         changes.push(`Node ${nodeNum}: Replaced PostEventToBQ with mock logging (SysAssignVariable)`);
       }
     }
@@ -3221,19 +2652,11 @@ export function applyMockDataToWarning(csv: string, warningMessage: string): { c
     // Handle booking-related action nodes
     if (isBooking && nodeType === 'A' && 
         (nodeName.toLowerCase().includes('book') || command.toLowerCase().includes('book'))) {
-      fields[COMMAND_COL] = 'SysAssignVariable';
-      fields[PARAM_INPUT_COL] = JSON.stringify({ 
-        set: { 
-          BOOKING_STATUS: 'MOCK_CONFIRMED',
-          BOOKING_REF: 'MOCK-' + Math.random().toString(36).substring(7).toUpperCase(),
-          BOOKING_DATE: new Date().toISOString().split('T')[0]
-        }
+      mockNode({
+        BOOKING_STATUS: 'MOCK_CONFIRMED',
+        BOOKING_REF: 'MOCK-' + Math.random().toString(36).substring(7).toUpperCase(),
+        BOOKING_DATE: new Date().toISOString().split('T')[0]
       });
-      fields[DECISION_VAR_COL] = 'success';
-      if (!fields[WHAT_NEXT_COL]?.trim()) {
-        fields[WHAT_NEXT_COL] = 'true~105|error~99990';
-      }
-      modified = true;
       changes.push(`Node ${nodeNum}: Replaced booking API with mock confirmation`);
     }
     
@@ -3241,18 +2664,10 @@ export function applyMockDataToWarning(csv: string, warningMessage: string): { c
     if (isEmail && nodeType === 'A' && 
         (nodeName.toLowerCase().includes('email') || command.toLowerCase().includes('email') || 
          nodeName.toLowerCase().includes('confirm'))) {
-      fields[COMMAND_COL] = 'SysAssignVariable';
-      fields[PARAM_INPUT_COL] = JSON.stringify({ 
-        set: { 
-          EMAIL_STATUS: 'MOCK_SENT',
-          EMAIL_REF: 'EMAIL-' + Date.now()
-        }
+      mockNode({
+        EMAIL_STATUS: 'MOCK_SENT',
+        EMAIL_REF: 'EMAIL-' + Date.now()
       });
-      fields[DECISION_VAR_COL] = 'success';
-      if (!fields[WHAT_NEXT_COL]?.trim()) {
-        fields[WHAT_NEXT_COL] = 'true~105|error~99990';
-      }
-      modified = true;
       changes.push(`Node ${nodeNum}: Replaced email sending with mock confirmation`);
     }
     
@@ -3261,39 +2676,16 @@ export function applyMockDataToWarning(csv: string, warningMessage: string): { c
         (nodeName.toLowerCase().includes('integration') || 
          nodeName.toLowerCase().includes('api') ||
          nodeName.toLowerCase().includes('external'))) {
-      fields[COMMAND_COL] = 'SysAssignVariable';
-      fields[PARAM_INPUT_COL] = JSON.stringify({ 
-        set: { 
-          API_STATUS: 'MOCK_SUCCESS',
-          API_RESPONSE: 'Mock data - integration not connected'
-        }
+      mockNode({
+        API_STATUS: 'MOCK_SUCCESS',
+        API_RESPONSE: 'Mock data - integration not connected'
       });
-      fields[DECISION_VAR_COL] = 'success';
-      if (!fields[WHAT_NEXT_COL]?.trim()) {
-        fields[WHAT_NEXT_COL] = 'true~105|error~99990';
-      }
-      modified = true;
       changes.push(`Node ${nodeNum}: Replaced external API with mock response`);
     }
-    
-    // Reconstruct line if modified
-    if (modified) {
-      const newLine = fields.map(f => {
-        if (!f) return '';
-        const str = String(f);
-        if (str.includes(',') || str.includes('"') || str.includes('\n')) {
-          return '"' + str.replace(/"/g, '""') + '"';
-        }
-        return str;
-      }).join(',');
-      fixedLines.push(newLine);
-    } else {
-      fixedLines.push(line);
-    }
   }
   
   return { 
-    csv: fixedLines.join('\n'), 
+    csv: changes.length > 0 ? doc.toCSV() : csv, 
     applied: changes.length > 0, 
     changes 
   };
@@ -3353,28 +2745,22 @@ export function enrichWarningsWithApiInfo(warnings: string[]): Array<{
 
 /**
  * Pre-deploy validation and auto-fix
- * Checks for common issues before deploying to Bot Manager
+ * Checks for common issues before deploying to Bot Manager.
+ * Action nodes are also checked against the contract of their script
+ * (custom/fetched scripts plus the bundled startup scripts).
  */
-export function preDeployValidation(csv: string, autoFix: boolean = false): PreDeployValidation {
-  const lines = csv.split('\n');
+export function preDeployValidation(
+  csv: string,
+  autoFix: boolean = false,
+  scripts: CustomScript[] = []
+): PreDeployValidation {
+  const doc = BotDocument.parse(csv);
   const errors: PreDeployValidation['errors'] = [];
-  const fixedLines: string[] = [];
   let anyFixed = false;
   
-  // Column index for Rich Asset Content
-  const RICH_CONTENT_COL = 10;
-  const NODE_NUM_COL = 0;
-  
-  for (let i = 0; i < lines.length; i++) {
-    const line = lines[i];
-    if (i === 0 || !line.trim()) {
-      fixedLines.push(line);
-      continue;
-    }
-    
-    const fields = parseCSVLineForFix(line);
-    const nodeNum = parseInt(fields[NODE_NUM_COL]) || 0;
-    const richContent = fields[RICH_CONTENT_COL] || '';
+  for (const node of doc.nodes) {
+    const nodeNum = node.nodeNum;
+    const richContent = node.richContent;
     
     // Check Rich Asset Content for common issues
     if (richContent && richContent.trim().startsWith('{')) {
@@ -3394,8 +2780,8 @@ export function preDeployValidation(csv: string, autoFix: boolean = false): PreD
           if (autoFix) {
             const { fixed, wasFixed } = fixRichAssetContent(richContent);
             if (wasFixed) {
-              // Store the raw fixed JSON - quoting will be handled in reconstruction
-              fields[RICH_CONTENT_COL] = fixed;
+              // Only this row is re-serialized; the rest stay byte-for-byte
+              doc.setField(nodeNum, 'richContent', fixed);
               anyFixed = true;
             }
           }
@@ -3411,26 +2797,23 @@ export function preDeployValidation(csv: string, autoFix: boolean = false): PreD
         });
       }
     }
-    
-    // Reconstruct line
-    if (autoFix && anyFixed && fields && Array.isArray(fields)) {
-      fixedLines.push(fields.map(f => {
-        if (!f) return '';
-        const str = String(f);
-        if (str.includes(',') || str.includes('"') || str.includes('\n')) {
-          return `"${str.replace(/"/g, '""')}"`;
-        }
-        return str;
-      }).join(','));
-    } else {
-      fixedLines.push(line);
-    }
+  }
+  
+  // Parameter Input / Decision Variable / What Next vs. what the script reads and returns
+  for (const issue of checkScriptContracts(csv, [...scripts, ...STARTUP_SCRIPTS])) {
+    errors.push({
+      nodeNum: issue.nodeNum,
+      field: issue.field,
+      error: issue.error,
+      value: issue.value,
+      autoFixable: false
+    });
   }
   
   return {
     valid: errors.length === 0,
     errors,
-    fixedCsv: autoFix && anyFixed ? fixedLines.join('\n') : undefined
+    fixedCsv: autoFix && anyFixed ? doc.toCSV() : undefined
   };
 }
 
@@ -3444,6 +2827,14 @@ export interface GenerationOptions {
   onProgress?: (progress: SequentialProgress) => void;
   /** Skip fallback to single-call on sequential failure */
   noFallback?: boolean;
+  /** Collects AI token usage for the build's cost ledger */
+  costLedger?: CostLedger;
+  /** Saved plan and per-flow output to resume from (see build-checkpoints.ts) */
+  checkpoints?: BuildCheckpoints;
+  /** Flows planned on the Architecture page - generated instead of planning new ones */
+  plannedArchitecture?: PlannedArchitecture;
+  /** Concurrency and retries for per-flow generation */
+  flowGeneration?: FlowGenerationOptions;
 }
 
 /**
@@ -3468,7 +2859,11 @@ export async function generateBotCSV(
       const result = await generateSequentially(
         projectConfig,
         clarifyingQuestions,
-        options?.onProgress
+        options?.onProgress,
+        options?.costLedger,
+        options?.checkpoints,
+        options?.plannedArchitecture,
+        options?.flowGeneration
       );
       console.log('[Generation] Sequential generation succeeded');
       return result;
@@ -3508,6 +2903,7 @@ export async function generateBotCSV(
       aiProvider: aiCredentials?.provider || 'anthropic',
     }),
   });
+  options?.costLedger?.record(response, 'flow-generation');
 
   if (!response.ok) {
     const error = await response.json().catch(() => ({ error: 'Unknown error' }));
@@ -3582,7 +2978,8 @@ export async function generateBotCSV(
  * - Enforces field type constraints per column
  */
 function normalizeCSVColumns(csv: string): string {
-  const lines = csv.split('\n');
+  // Repair works on raw records (column counts may be wrong); quoted newlines stay in their row
+  const lines = splitCSVRecords(csv).map(r => r.raw);
   if (lines.length < 2) return csv;
   
   const EXPECTED_COLS = 26;
@@ -3600,7 +2997,7 @@ function normalizeCSVColumns(csv: string): string {
     const line = lines[i].trim();
     if (!line) continue;
     
-    const fields = parseCSVLineForFix(line);
+    const fields = parseCSVLine(line);
     
     // Skip rows where Node Number isn't a valid integer
     const nodeNum = parseInt(fields[0], 10);
@@ -3621,12 +3018,12 @@ function normalizeCSVColumns(csv: string): string {
     if (fields.length === EXPECTED_COLS) {
       // Correct count — just validate field types
       const validated = validateFieldTypes(fields, nodeType);
-      normalizedLines.push(reconstructCSVLine(validated));
+      normalizedLines.push(serializeCSVFields(validated));
     } else if (fields.length < EXPECTED_COLS) {
       // Too few columns — pad with empty strings
       while (fields.length < EXPECTED_COLS) fields.push('');
       const validated = validateFieldTypes(fields, nodeType);
-      normalizedLines.push(reconstructCSVLine(validated));
+      normalizedLines.push(serializeCSVFields(validated));
       fixed++;
     } else {
       // Too many columns — likely unescaped commas in a field
@@ -3666,7 +3063,7 @@ function normalizeCSVColumns(csv: string): string {
       if (mergedFields.length > EXPECTED_COLS) mergedFields.length = EXPECTED_COLS;
       
       const validated = validateFieldTypes(mergedFields, nodeType);
-      normalizedLines.push(reconstructCSVLine(validated));
+      normalizedLines.push(serializeCSVFields(validated));
       fixed++;
     }
   }
@@ -3684,11 +3081,7 @@ function normalizeCSVColumns(csv: string): string {
  * Common AI mistakes: using "success" for SysMultiMatchRouting (should be "next_node" or "valid")
  */
 function fixDecisionVariables(csv: string): string {
-  const lines = csv.split('\n');
-  if (lines.length < 2) return csv;
-  
-  const header = lines[0];
-  const fixedLines = [header];
+  const doc = BotDocument.parse(csv);
   let fixes = 0;
   
   // Command → Expected Decision Variable mapping
@@ -3714,50 +3107,30 @@ function fixDecisionVariables(csv: string): string {
   // Scripts where DecVar should match Output (variable names)
   const DECVAR_MATCHES_OUTPUT = new Set(['SysMultiMatchRouting']);
   
-  // Column indices
-  const COL_TYPE = 1;
-  const COL_COMMAND = 13;
-  const COL_OUTPUT = 15;
-  const COL_DEC_VAR = 18;
-  
-  for (let i = 1; i < lines.length; i++) {
-    const line = lines[i].trim();
-    if (!line) continue;
-    
-    const fields = parseCSVLineForFix(line);
-    const nodeType = (fields[COL_TYPE] || '').toUpperCase();
-    
+  for (const node of doc.nodes) {
     // Only fix Action nodes
-    if (nodeType !== 'A') {
-      fixedLines.push(line);
-      continue;
-    }
+    if (node.type.trim().toUpperCase() !== 'A') continue;
     
-    const command = fields[COL_COMMAND] || '';
-    const currentDecVar = fields[COL_DEC_VAR] || '';
-    const currentOutput = fields[COL_OUTPUT] || '';
-    
-    let needsFix = false;
+    const command = node.command.trim();
+    const currentDecVar = node.decVar.trim();
+    const currentOutput = node.output.trim();
+    const changes: Partial<BotNodeFields> = {};
     
     // Special handling for SysMultiMatchRouting - DecVar should match Output
     if (DECVAR_MATCHES_OUTPUT.has(command)) {
       if (currentOutput && currentDecVar && currentDecVar !== currentOutput) {
-        console.log(`[DecVar Fix] Node ${fields[0]} (${command}): Fixing Decision Variable from "${currentDecVar}" to "${currentOutput}" (must match output)`);
-        fields[COL_DEC_VAR] = currentOutput;
-        needsFix = true;
+        console.log(`[DecVar Fix] Node ${node.nodeNum} (${command}): Fixing Decision Variable from "${currentDecVar}" to "${currentOutput}" (must match output)`);
+        changes.decVar = currentOutput;
       } else if (!currentOutput && currentDecVar) {
         // Output is missing, set it to match DecVar
-        fields[COL_OUTPUT] = currentDecVar;
-        needsFix = true;
+        changes.output = currentDecVar;
       } else if (currentOutput && !currentDecVar) {
         // DecVar is missing, set it to match Output
-        fields[COL_DEC_VAR] = currentOutput;
-        needsFix = true;
+        changes.decVar = currentOutput;
       } else if (!currentOutput && !currentDecVar) {
         // Both missing, use default
-        fields[COL_OUTPUT] = 'next_node';
-        fields[COL_DEC_VAR] = 'next_node';
-        needsFix = true;
+        changes.output = 'next_node';
+        changes.decVar = 'next_node';
       }
     } else {
       // For other commands, use the mapping
@@ -3765,23 +3138,18 @@ function fixDecisionVariables(csv: string): string {
       
       if (expectedDecVar) {
         // Always set to expected value for known commands
-        if (!currentDecVar || currentDecVar !== expectedDecVar) {
-          console.log(`[DecVar Fix] Node ${fields[0]} (${command}): Fixing Decision Variable from "${currentDecVar || '(empty)'}" to "${expectedDecVar}"`);
-          fields[COL_DEC_VAR] = expectedDecVar;
-          needsFix = true;
-        }
-        // Also fix output if missing
-        if (!currentOutput) {
-          fields[COL_OUTPUT] = expectedDecVar;
+        if (currentDecVar !== expectedDecVar) {
+          console.log(`[DecVar Fix] Node ${node.nodeNum} (${command}): Fixing Decision Variable from "${currentDecVar || '(empty)'}" to "${expectedDecVar}"`);
+          changes.decVar = expectedDecVar;
+          // Also fix output if missing
+          if (!currentOutput) changes.output = expectedDecVar;
         }
       }
     }
     
-    if (needsFix) {
+    if (Object.keys(changes).length > 0) {
       fixes++;
-      fixedLines.push(reconstructCSVLine(fields));
-    } else {
-      fixedLines.push(line);
+      doc.updateNode(node.nodeNum, changes);
     }
   }
   
@@ -3789,7 +3157,7 @@ function fixDecisionVariables(csv: string): string {
     console.log(`[DecVar Fix] Fixed ${fixes} Decision Variable mismatches`);
   }
   
-  return fixedLines.join('\n');
+  return fixes > 0 ? doc.toCSV() : csv;
 }
 
 import { SYSTEM_NODES, STARTUP_NODES, GENAI_FALLBACK_NODES, returnMenu, type NodeTemplate } from '../data/node-templates';
@@ -3799,46 +3167,7 @@ import { SYSTEM_NODES, STARTUP_NODES, GENAI_FALLBACK_NODES, returnMenu, type Nod
  * Uses the canonical templates from node-templates.ts
  */
 function nodeTemplateToCSVRow(template: NodeTemplate): string {
-  const escapeField = (val: any): string => {
-    if (val === undefined || val === null) return '';
-    const str = String(val);
-    if (!str) return '';
-    if (str.includes(',') || str.includes('"') || str.includes('\n')) {
-      return '"' + str.replace(/"/g, '""') + '"';
-    }
-    return str;
-  };
-  
-  // Build 26-column array
-  const cols: string[] = new Array(26).fill('');
-  cols[0] = String(template.num);           // Node Number
-  cols[1] = template.type;                   // Node Type
-  cols[2] = template.name;                   // Node Name
-  cols[3] = template.intent || '';           // Intent
-  cols[4] = '';                              // Entity Type
-  cols[5] = '';                              // Entity
-  cols[6] = template.nluDisabled || '';      // NLU Disabled?
-  cols[7] = template.nextNodes || '';        // Next Nodes
-  cols[8] = template.message || '';          // Message
-  cols[9] = template.richType || '';         // Rich Asset Type
-  cols[10] = template.richContent || '';     // Rich Asset Content
-  cols[11] = template.ansReq || '';          // Answer Required?
-  cols[12] = template.behaviors || '';       // Behaviors
-  cols[13] = template.command || '';         // Command
-  cols[14] = template.description || '';     // Description
-  cols[15] = template.output || '';          // Output
-  cols[16] = template.nodeInput || '';       // Node Input
-  cols[17] = template.paramInput || '';      // Parameter Input
-  cols[18] = template.decVar || '';          // Decision Variable
-  cols[19] = template.whatNext || '';        // What Next?
-  cols[20] = '';                             // Node Tags
-  cols[21] = '';                             // Skill Tag
-  cols[22] = template.variable || '';        // Variable
-  cols[23] = '';                             // Platform Flag
-  cols[24] = template.flows || '';           // Flows
-  cols[25] = '';                             // CSS Classname
-  
-  return cols.map(escapeField).join(',');
+  return nodeToCSVRow(template);
 }
 
 /**
@@ -4044,7 +3373,8 @@ function isNodeBroken(fields: string[], nodeNum: number): boolean {
  * 2. FALLBACK_ONLY_NODES - Only injected if missing AND no alternative exists (200, 201, 210, 300)
  */
 function injectRequiredStartupNodes(csv: string): string {
-  const lines = csv.split('\n');
+  // Whole records, so a multi-line message stays one row when rows are re-sorted
+  const lines = splitCSVRecords(csv).map(r => r.raw);
   if (lines.length < 1) return csv;
   
   const header = lines[0];
@@ -4053,7 +3383,7 @@ function injectRequiredStartupNodes(csv: string): string {
   // Parse existing node numbers and their lines
   const existingNodes = new Map<number, { line: string; fields: string[] }>();
   for (const line of dataLines) {
-    const fields = parseCSVLineForFix(line);
+    const fields = parseCSVLine(line);
     const nodeNum = parseInt(fields[0], 10);
     if (!isNaN(nodeNum)) {
       existingNodes.set(nodeNum, { line, fields });
@@ -4111,7 +3441,7 @@ function injectRequiredStartupNodes(csv: string): string {
   
   // Keep existing lines except those being replaced
   for (const line of dataLines) {
-    const fields = parseCSVLineForFix(line);
+    const fields = parseCSVLine(line);
     const nodeNum = parseInt(fields[0], 10);
     if (!nodesToRemove.has(nodeNum)) {
       finalDataLines.push(line);
@@ -4131,8 +3461,8 @@ function injectRequiredStartupNodes(csv: string): string {
   
   // Sort by node number for cleaner output
   finalDataLines.sort((a, b) => {
-    const numA = parseInt(parseCSVLineForFix(a)[0], 10) || 0;
-    const numB = parseInt(parseCSVLineForFix(b)[0], 10) || 0;
+    const numA = parseInt(parseCSVLine(a)[0], 10) || 0;
+    const numB = parseInt(parseCSVLine(b)[0], 10) || 0;
     return numA - numB;
   });
   
@@ -4148,28 +3478,17 @@ function injectRequiredStartupNodes(csv: string): string {
  */
 export function validateStartupNodes(csv: string): string[] {
   const issues: string[] = [];
-  const lines = csv.split('\n');
-  
-  // Parse nodes into a map
-  const nodeMap = new Map<number, string[]>();
-  for (let i = 1; i < lines.length; i++) {
-    const line = lines[i].trim();
-    if (!line) continue;
-    const fields = parseCSVLineForFix(line);
-    const nodeNum = parseInt(fields[0], 10);
-    if (!isNaN(nodeNum)) {
-      nodeMap.set(nodeNum, fields);
-    }
-  }
+  const doc = BotDocument.parse(csv);
+  const nodeMap = new Map(doc.nodes.map(node => [node.nodeNum, node]));
   
   // Check node -500 (HandleBotError) - CRITICAL for error handling
   if (!nodeMap.has(-500)) {
     issues.push('CRITICAL: Node -500 (HandleBotError) is missing - bot will crash on any error');
   } else {
     const node = nodeMap.get(-500)!;
-    const nodeType = node[1]?.toUpperCase();
-    const command = node[13]?.trim();
-    const whatNext = node[19]?.trim();
+    const nodeType = node.type.toUpperCase();
+    const command = node.command.trim();
+    const whatNext = node.whatNext.trim();
     
     if (nodeType !== 'A') {
       issues.push('CRITICAL: Node -500 must be Action type (A), not Decision');
@@ -4187,9 +3506,9 @@ export function validateStartupNodes(csv: string): string[] {
     issues.push('CRITICAL: Node 1 (SysShowMetadata) is missing - bot cannot start');
   } else {
     const node1 = nodeMap.get(1)!;
-    const nodeType = node1[1]?.toUpperCase();
-    const command = node1[13]?.trim();
-    const whatNext = node1[19]?.trim();
+    const nodeType = node1.type.toUpperCase();
+    const command = node1.command.trim();
+    const whatNext = node1.whatNext.trim();
     
     if (nodeType !== 'A') {
       issues.push('Node 1 must be Action type (A), not Decision');
@@ -4207,7 +3526,7 @@ export function validateStartupNodes(csv: string): string[] {
     issues.push('Node 10 (UserPlatformRouting) is missing');
   } else {
     const node = nodeMap.get(10)!;
-    const command = node[13]?.trim();
+    const command = node.command.trim();
     if (!command || command !== 'UserPlatformRouting') {
       issues.push(`Node 10 must use UserPlatformRouting command, found: "${command}"`);
     }
@@ -4306,7 +3625,8 @@ function validateFieldTypes(fields: string[], nodeType: string): string[] {
 }
 
 function fixCSVColumnAlignment(csv: string): string {
-  const lines = csv.split('\n');
+  // Repair works on raw records (values may be in the wrong columns); quoted newlines stay in their row
+  const lines = splitCSVRecords(csv).map(r => r.raw);
   if (lines.length < 2) return csv;
   
   // Keep header as-is
@@ -4364,7 +3684,7 @@ function fixCSVColumnAlignment(csv: string): string {
     if (!line) continue;
     
     // Parse the line
-    const values = parseCSVLineForFix(line);
+    const values = parseCSVLine(line);
     
     // Create a new row with exactly 26 columns
     const newRow: string[] = new Array(26).fill('');
@@ -4388,25 +3708,13 @@ function fixCSVColumnAlignment(csv: string): string {
     }
     
     // Convert back to CSV line with proper escaping
-    const csvLine = newRow.map(v => escapeCSVValue(v)).join(',');
+    const csvLine = newRow.map(v => escapeCSVField(v)).join(',');
     fixedLines.push(csvLine);
   }
   
   return fixedLines.join('\n');
 }
 
-/**
- * Escape a value for CSV output
- */
-function escapeCSVValue(value: string): string {
-  if (!value) return '';
-  // If contains comma, quote, or newline, wrap in quotes
-  if (value.includes(',') || value.includes('"') || value.includes('\n')) {
-    return '"' + value.replace(/"/g, '""') + '"';
-  }
-  return value;
-}
-
 /**
  * Place Decision node values in correct columns
  */
@@ -4509,34 +3817,6 @@ function placeActionNodeValues(
   }
 }
 
-/**
- * Parse a CSV line handling quoted fields
- */
-function parseCSVLine(line: string): string[] {
-  const result: string[] = [];
-  let current = '';
-  let inQuotes = false;
-  
-  for (let i = 0; i < line.length; i++) {
-    const char = line[i];
-    if (char === '"') {
-      if (inQuotes && line[i + 1] === '"') {
-        current += '"';
-        i++;
-      } else {
-        inQuotes = !inQuotes;
-      }
-    } else if (char === ',' && !inQuotes) {
-      result.push(current.trim());
-      current = '';
-    } else {
-      current += char;
-    }
-  }
-  result.push(current.trim());
-  return result;
-}
-
 /**
  * Validate generated CSV content
  */
@@ -4544,14 +3824,14 @@ export function validateCSV(csv: string): { valid: boolean; errors: string[]; wa
   const errors: string[] = [];
   const warnings: string[] = [];
   
-  const lines = csv.split('\n').filter(l => l.trim());
-  if (lines.length < 2) {
+  // Field arrays per record (raw, so malformed rows are reported) - multi-line fields stay in their row
+  const records = parseCSVRecords(csv).map(fields => fields.map(f => f.trim()));
+  if (records.length < 2) {
     errors.push('CSV must have at least a header row and one data row');
     return { valid: false, errors, warnings };
   }
 
   // Check header
-  const header = lines[0];
   const expectedColumns = [
     'Node Number', 'Node Type', 'Node Name', 'Intent', 'Entity Type', 'Entity',
     'NLU Disabled?', 'Next Nodes', 'Message', 'Rich Asset Type', 'Rich Asset Content',
@@ -4560,7 +3840,7 @@ export function validateCSV(csv: string): { valid: boolean; errors: string[]; wa
     'Variable', 'Platform Flag', 'Flows', 'CSS Classname'
   ];
   
-  const headerColumns = parseCSVLine(header);
+  const headerColumns = records[0];
   if (headerColumns.length !== 26) {
     errors.push(`CSV must have exactly 26 columns, found ${headerColumns.length}`);
   }
@@ -4570,10 +3850,7 @@ export function validateCSV(csv: string): { valid: boolean; errors: string[]; wa
   const nodeData: { nodeNum: string; nodeType: string; nextNodes: string; whatNext: string; message: string; nodeName: string }[] = [];
   const requiredNodes = ['-500', '666', '1800', '99990'];
   
-  for (let i = 1; i < lines.length; i++) {
-    const line = lines[i];
-    const parts = parseCSVLine(line);
-    
+  for (const parts of records.slice(1)) {
     if (parts.length < 2) continue;
     
     const nodeNum = parts[0]?.trim();
@@ -4690,38 +3967,27 @@ export function parseCSVStats(csv: string): {
   actionNodes: number;
   officialNodesUsed: string[];
 } {
-  const lines = csv.split('\n').filter(l => l.trim());
-  if (lines.length < 2) {
-    return { totalNodes: 0, decisionNodes: 0, actionNodes: 0, officialNodesUsed: [] };
-  }
+  const nodes = BotDocument.parse(csv).nodes;
 
   let decisionNodes = 0;
   let actionNodes = 0;
   const officialNodesFound = new Set<string>();
-  
-  // Command column is index 13 (0-indexed)
-  const COMMAND_COL = 13;
 
-  for (let i = 1; i < lines.length; i++) {
-    const line = lines[i];
-    // Use parseCSVLine to properly handle quoted fields with commas
-    const parts = parseCSVLine(line);
-    if (parts.length > 1) {
-      const nodeType = parts[1].trim().toUpperCase();
-      if (nodeType === 'D') decisionNodes++;
-      else if (nodeType === 'A') {
-        actionNodes++;
-        // Check if command is an official node
-        const command = parts[COMMAND_COL]?.trim();
-        if (command && OFFICIAL_ACTION_NODES.has(command)) {
-          officialNodesFound.add(command);
-        }
+  for (const node of nodes) {
+    const nodeType = node.type.trim().toUpperCase();
+    if (nodeType === 'D') decisionNodes++;
+    else if (nodeType === 'A') {
+      actionNodes++;
+      // Check if command is an official node
+      const command = node.command.trim();
+      if (command && OFFICIAL_ACTION_NODES.has(command)) {
+        officialNodesFound.add(command);
       }
     }
   }
 
   return {
-    totalNodes: lines.length - 1,
+    totalNodes: nodes.length,
     decisionNodes,
     actionNodes,
     officialNodesUsed: Array.from(officialNodesFound).sort(),
@@ -4748,6 +4014,8 @@ export interface IterativeRefinementResult {
   allFixesMade: string[];
   remainingErrors: string[];
   versionId?: string;
+  // Stopped before AI refinement because the build budget ran out
+  budgetExceeded?: boolean;
 }
 
 /**
@@ -4768,7 +4036,8 @@ export async function refineCSV(
   validationErrors: any[],
   projectConfig: { clientName?: string; projectName?: string; projectType?: string },
   iteration: number,
-  knownFixesContext?: string
+  knownFixesContext?: string,
+  costLedger?: CostLedger
 ): Promise<RefinementResult> {
   const response = await fetch('/api/refine-csv', {
     method: 'POST',
@@ -4781,6 +4050,7 @@ export async function refineCSV(
       knownFixesContext,
     }),
   });
+  costLedger?.record(response, 'refinement', iteration);
 
   if (!response.ok) {
     const error = await response.json().catch(() => ({ error: 'Unknown error' }));
@@ -4813,6 +4083,8 @@ export async function refineCSV(
  * 2. If errors, send to AI for fixes
  * 3. Re-validate
  * 4. Repeat until valid or max iterations reached
+ *
+ * With a cost ledger, AI refinement stops once another pass would exceed the build budget.
  */
 export async function validateAndRefineIteratively(
   initialCSV: string,
@@ -4820,7 +4092,9 @@ export async function validateAndRefineIteratively(
   token: string,
   projectConfig: { clientName?: string; projectName?: string; projectType?: string },
   onProgress?: RefinementProgressCallback,
-  maxIterations: number = 5
+  maxIterations: number = 5,
+  costLedger?: CostLedger,
+  checkpoints?: BuildCheckpoints
 ): Promise<IterativeRefinementResult> {
   let currentCSV = initialCSV;
   let iteration = 0;
@@ -4844,6 +4118,11 @@ export async function validateAndRefineIteratively(
   
   // Track error signatures that have been tried and failed - exclude from future AI calls
   const unfixableSignatures = new Set<string>();
+  
+  let budgetExceeded = false;
+
+  // Deterministic fixes tried before (and after) each AI pass - built-in rules plus fix_rules
+  const fixRules = await loadFixRules();
 
   while (iteration < maxIterations) {
     iteration++;
@@ -4866,6 +4145,12 @@ export async function validateAndRefineIteratively(
     }
     preValTime = Math.round(performance.now() - preValStart);
     
+    // Checkpoint the CSV each pass starts from so an interrupted build resumes here
+    if (iteration === 1) {
+      await checkpoints?.complete('pre-validation', { fixes: preResult.fixes });
+    }
+    await checkpoints?.save('refinement', { csv: currentCSV, iteration });
+    
     // Phase 1: Validate with Bot Manager API
     const bmValStart = performance.now();
     onProgress?.({
@@ -4888,6 +4173,10 @@ export async function validateAndRefineIteratively(
       throw new AuthError(validationResult.errors || 'API token is invalid or expired');
     }
     
+    if (iteration === 1) {
+      await checkpoints?.complete('validation', { valid: !!validationResult.valid, errorCount: validationResult.errors?.length || 0 });
+    }
+    
     // Check if validation passed
     if (validationResult.valid) {
       onProgress?.({
@@ -4975,11 +4264,11 @@ export async function validateAndRefineIteratively(
         // Apply aggressive programmatic fixes for stuck errors
         let aggressiveFixedCsv = currentCSV;
         for (const error of errors) {
-          const beforeFix = aggressiveFixedCsv;
-          aggressiveFixedCsv = applyProgrammaticFixForError(aggressiveFixedCsv, error);
-          if (aggressiveFixedCsv !== beforeFix) {
+          const fix = applyFixRules(aggressiveFixedCsv, error, fixRules);
+          if (fix.rule) {
+            aggressiveFixedCsv = fix.csv;
             console.log(`[AI Refine] Aggressive fix applied for stuck error in node ${error.node_num}`);
-            allFixesMade.push(`Aggressive programmatic fix for stuck error in node ${error.node_num}`);
+            allFixesMade.push(`Aggressive programmatic fix for stuck error in node ${error.node_num} (${fix.rule.id})`);
           }
         }
         
@@ -5018,11 +4307,11 @@ export async function validateAndRefineIteratively(
     const errorsForAI: ValidationError[] = [];
     
     for (const error of errors) {
-      const beforeFix = currentCSV;
-      currentCSV = applyProgrammaticFixForError(currentCSV, error);
-      if (currentCSV !== beforeFix) {
+      const fix = applyFixRules(currentCSV, error, fixRules);
+      if (fix.rule) {
+        currentCSV = fix.csv;
         programmaticFixCount++;
-        allFixesMade.push(`Programmatic fix for node ${error.node_num || 'unknown'}`);
+        allFixesMade.push(`Programmatic fix for node ${error.node_num || 'unknown'} (${fix.rule.id})`);
       } else {
         // Only add to AI queue if not previously marked as unfixable
         const sig = normalizeError(error);
@@ -5087,6 +4376,21 @@ export async function validateAndRefineIteratively(
       console.warn('[SELF-IMPROVE] ❌ Failed to query known fixes:', e);
     }
 
+    // Stop before a refinement pass the build budget can't cover
+    if (costLedger && !costLedger.canAfford('refinement')) {
+      console.warn(`[Refine] 💸 Build budget of $${costLedger.budgetUsd} reached ($${costLedger.totalCostUsd.toFixed(4)} spent) - stopping before AI refinement`);
+      onProgress?.({
+        iteration,
+        phase: 'refining',
+        message: `AI budget reached - stopping with ${errorsForAI.length} errors left`,
+        errors: lastErrors,
+      });
+      budgetExceeded = true;
+      const iterTotal = Math.round(performance.now() - iterStart);
+      iterationTimings.push({ iteration, preValidation: preValTime, botManagerValidation: bmValTime, aiRefinement: 0, total: iterTotal, errorsIn: lastRawErrors.length, errorsOut: errors.length });
+      break;
+    }
+
     // Phase 2: Refine with AI (only for errors we couldn't fix programmatically)
     const aiRefineStart = performance.now();
     const aiErrorCount = errorsForAI.length;
@@ -5099,11 +4403,11 @@ export async function validateAndRefineIteratively(
 
     try {
       // Send only the errors AI needs to fix, not all errors
-      const refinement = await refineCSV(currentCSV, errorsForAI, projectConfig, iteration, knownFixesContext);
+      const refinement = await refineCSV(currentCSV, errorsForAI, projectConfig, iteration, knownFixesContext, costLedger);
       
       // === GUARD RAIL: Reject AI output that's structurally worse ===
-      const originalLines = currentCSV.split('\n').filter(l => l.trim());
-      const refinedLines = refinement.csv.split('\n').filter(l => l.trim());
+      const originalLines = parseCSVRecords(currentCSV);
+      const refinedLines = parseCSVRecords(refinement.csv);
       
       // Check 1: Row count shouldn't change dramatically (allow ±5% or ±3 rows)
       const rowDiff = Math.abs(refinedLines.length - originalLines.length);
@@ -5115,21 +4419,12 @@ export async function validateAndRefineIteratively(
         refinement.fixesMade = ['REJECTED: AI changed row count too much'];
       }
       
-      // Check 2: Verify column alignment — every data row should have ~25 commas
+      // Check 2: Verify column alignment — every data row should have 26 fields
       if (refinement.csv !== currentCSV) {
         const badColumnRows: number[] = [];
-        const checkLines = refinement.csv.split('\n');
-        for (let i = 1; i < checkLines.length; i++) {
-          const line = checkLines[i].trim();
-          if (!line) continue;
-          // Count commas outside of quoted fields
-          let commaCount = 0;
-          let inQuotes = false;
-          for (let j = 0; j < line.length; j++) {
-            if (line[j] === '"') inQuotes = !inQuotes;
-            else if (line[j] === ',' && !inQuotes) commaCount++;
-          }
-          if (commaCount !== 25) {
+        const checkRecords = parseCSVRecords(refinement.csv);
+        for (let i = 1; i < checkRecords.length; i++) {
+          if (checkRecords[i].length !== 26) {
             badColumnRows.push(i);
           }
         }
@@ -5159,10 +4454,10 @@ export async function validateAndRefineIteratively(
         if (stillPresent) {
           console.warn(`[AI Refine] FIX NOT APPLIED - Node ${errorNodeNum} still contains error content: ${errorContent.substring(0, 50)}...`);
           // Apply programmatic fix as fallback
-          const beforeFix = verifiedCsv;
-          verifiedCsv = applyProgrammaticFixForError(verifiedCsv, error);
-          if (verifiedCsv !== beforeFix) {
-            programmaticFixesApplied.push(`Programmatic fix applied for node ${error.node_num}`);
+          const fix = applyFixRules(verifiedCsv, error, fixRules);
+          if (fix.rule) {
+            verifiedCsv = fix.csv;
+            programmaticFixesApplied.push(`Programmatic fix applied for node ${error.node_num} (${fix.rule.id})`);
           }
         }
       }
@@ -5222,6 +4517,7 @@ export async function validateAndRefineIteratively(
     allFixesMade,
     remainingErrors: lastErrors,
     versionId,
+    ...(budgetExceeded ? { budgetExceeded } : {}),
   };
 }
 
@@ -5384,9 +4680,9 @@ function formatValidationErrors(errors: any[]): string[] {
 // ============================================
 
 /**
- * Standard 26-column CSV header for Pypestream bots
+ * Standard 26-column CSV header for Pypestream bots (defined by the node schema)
  */
-export const CSV_HEADER = 'Node Number,Node Type,Node Name,Intent,Entity Type,Entity,NLU Disabled?,Next Nodes,Message,Rich Asset Type,Rich Asset Content,Answer Required?,Behaviors,Command,Description,Output,Node Input,Parameter Input,Decision Variable,What Next?,Node Tags,Skill Tag,Variable,Platform Flag,Flows,CSS Classname';
+export { CSV_HEADER };
 
 /**
  * Flow definition for sequential generation
@@ -5396,6 +4692,8 @@ export interface FlowPlan {
   description: string;
   startNode: number;
   endNode: number;
+  // Planner's guess at the flow's node count - sizes its node range
+  estimatedNodes?: number;
 }
 
 /**
@@ -5409,18 +4707,72 @@ export interface SequentialProgress {
   totalFlows?: number;
   currentFlow?: number;
   message?: string;
+  // Planned flow names, in plan order (planning 'done')
+  flowNames?: string[];
+  // Attempt number of a flow 'started' event (> 1 on retries)
+  attempt?: number;
+}
+
+/**
+ * Per-flow generation settings. Flows each have their own node block, so they
+ * are generated concurrently; a flow that fails every attempt blocks the build.
+ */
+export interface FlowGenerationOptions {
+  /** Flows generated at once (default VITE_FLOW_CONCURRENCY, else 3) */
+  concurrency?: number;
+  /** Attempts per flow (default 3) */
+  maxAttempts?: number;
+}
+
+const DEFAULT_FLOW_CONCURRENCY = 3;
+const DEFAULT_FLOW_ATTEMPTS = 3;
+
+function getFlowConcurrency(options?: FlowGenerationOptions): number {
+  const configured = options?.concurrency ?? Number(import.meta.env?.VITE_FLOW_CONCURRENCY);
+  return configured > 0 ? Math.floor(configured) : DEFAULT_FLOW_CONCURRENCY;
+}
+
+/**
+ * Run fn over items with at most `limit` in flight; results keep item order
+ */
+async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const workers = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  });
+  await Promise.all(workers);
+  return results;
 }
 
 /**
  * Main menu option from flow planning
  */
-interface MainMenuOption {
+export interface MainMenuOption {
   label: string;
   description?: string;
   flowName?: string;
   startNode?: number;
 }
 
+/**
+ * Architecture the user reviewed on the Solution Architecture page.
+ * flowPreviews holds the previewed conversation nodes per flow name, so the
+ * generated CSV matches what the user saw.
+ */
+export interface PlannedArchitecture {
+  flows: FlowPlan[];
+  mainMenuOptions?: MainMenuOption[];
+  flowPreviews?: Record<string, any[]>;
+}
+
 /**
  * Options for startup node generation
  */
@@ -5736,60 +5088,22 @@ export function nodesToCSVRows(nodes: any[]): string[] {
       paramInput = JSON.stringify(paramInput);
     }
     
-    // Map JSON node properties to CSV columns (26 columns)
+    // Serialize by field name - columns are placed and escaped in node-schema.ts
     // Use the corrected message/nextNodes/nodeInput values
-    const fields = [
-      node.num || node.nodeNum || '',           // 0: Node Number
-      node.type || 'D',                          // 1: Node Type
-      node.name || '',                           // 2: Node Name
-      node.intent || '',                         // 3: Intent
-      node.entityType || '',                     // 4: Entity Type
-      node.entity || '',                         // 5: Entity
-      node.nluDisabled || '',                    // 6: NLU Disabled?
-      nextNodes,                                 // 7: Next Nodes (corrected)
-      message,                                   // 8: Message (corrected)
-      node.richType || node.richAssetType || '',       // 9: Rich Asset Type
-      richContent,                                     // 10: Rich Asset Content
-      node.ansReq || node.answerRequired || '',  // 11: Answer Required?
-      node.behaviors || '',                      // 12: Behaviors
-      node.command || '',                        // 13: Command
-      node.description || '',                    // 14: Description
-      node.output || '',                         // 15: Output
-      nodeInput,                                       // 16: Node Input (corrected)
-      paramInput,                                      // 17: Parameter Input
-      node.decVar || node.decisionVariable || '', // 18: Decision Variable
-      node.whatNext || '',                       // 19: What Next?
-      node.nodeTags || '',                       // 20: Node Tags
-      node.skillTag || '',                       // 21: Skill Tag
-      node.variable || '',                       // 22: Variable
-      node.platformFlag || '',                   // 23: Platform Flag
-      node.flows || '',                          // 24: Flows
-      node.cssClass || node.cssClassname || '',  // 25: CSS Classname
-    ];
-    
-    // Validate we have exactly 26 columns
-    if (fields.length !== 26) {
-      console.error(`[nodesToCSVRows] Node ${node.num} has ${fields.length} fields instead of 26!`);
-    }
-    
-    // Escape fields for CSV - MUST handle all special characters
-    const escapedFields = fields.map((f, idx) => {
-      const str = String(f ?? '');
-      // Always quote fields that contain: comma, quote, newline, or are richContent/paramInput
-      if (str.includes(',') || str.includes('"') || str.includes('\n') || idx === 10 || idx === 17) {
-        return '"' + str.replace(/"/g, '""') + '"';
-      }
-      return str;
-    });
-    
-    const row = escapedFields.join(',');
-    
-    // Validate the row has correct column count by counting unquoted commas
-    const rowColumns = parseCSVLineForFix(row).length;
-    if (rowColumns !== 26) {
-      console.error(`[nodesToCSVRows] Node ${node.num} row has ${rowColumns} columns after escaping (expected 26)`);
-      console.error(`[nodesToCSVRows] Problematic row: ${row.substring(0, 200)}...`);
-    }
+    const row = nodeToCSVRow(clearForeignFields({
+      ...node,
+      num: node.num || node.nodeNum || '',
+      type: node.type || 'D',
+      nextNodes,
+      message,
+      richType: node.richType || node.richAssetType || '',
+      richContent,
+      ansReq: node.ansReq || node.answerRequired || '',
+      nodeInput,
+      paramInput,
+      decVar: node.decVar || node.decisionVariable || '',
+      cssClass: node.cssClass || node.cssClassname || '',
+    }));
     
     rows.push(row);
   }
@@ -5825,19 +5139,26 @@ export const RESERVED_NODE_RANGES = {
 } as const;
 
 /**
- * Safe flow node ranges - AI can generate flows in these ranges.
- * Each flow gets a 100-node block (e.g., 300-399, 400-499, etc.)
+ * Flow node numbering. Flows get whole 100-node blocks from 300 up, sized by
+ * their estimated node count: a small flow gets one block (300-399), a large
+ * one several consecutive blocks (e.g. 400-699). Blocks overlapping a reserved
+ * range (1800-1899, 9000-9999) are skipped, and numbering carries on past 9999
+ * - the Travelers reference bot uses numbers up to 156,121.
  */
 export const FLOW_NODE_RANGES = {
-  FIRST_FLOW: { start: 300, end: 399 },
-  SECOND_FLOW: { start: 400, end: 499 },
-  THIRD_FLOW: { start: 500, end: 599 },
-  FOURTH_FLOW: { start: 600, end: 699 },
-  FIFTH_FLOW: { start: 700, end: 799 },
-  // Additional flows continue: 800-899, 900-999 (stops before 9000)
-  MAX_FLOW_END: 8999, // Flows cannot exceed this
+  FIRST_FLOW_START: 300,
+  BLOCK_SIZE: 100,
+  // Room left for refinement and retries: a flow estimated at 60 nodes gets 120
+  HEADROOM: 2,
+  // Estimate when the plan gives none and there is no preview
+  DEFAULT_FLOW_NODES: 40,
 } as const;
 
+export interface FlowNodeRange {
+  start: number;
+  end: number;
+}
+
 /**
  * Get the set of all reserved node numbers (individual nodes, not ranges)
  */
@@ -5897,21 +5218,112 @@ function isNodeNumberReserved(nodeNum: number): boolean {
 }
 
 /**
- * Get the expected flow range for a flow index (0-based)
+ * Whether a node block overlaps a reserved range. Single reserved nodes inside
+ * a block (666, 999, 99990) don't disqualify it - alignment steps around them.
+ */
+function blockOverlapsReservedRange(start: number, end: number): boolean {
+  return Object.values(RESERVED_NODE_RANGES).some(range =>
+    range.end > range.start && start <= range.end && end >= range.start
+  );
+}
+
+/**
+ * Hands out flow node ranges in whole blocks, lowest free blocks first.
+ * Ranges are contiguous, so a multi-block range starts after any reserved
+ * range that would split it.
+ */
+export function createNodeRangeAllocator() {
+  const { FIRST_FLOW_START, BLOCK_SIZE } = FLOW_NODE_RANGES;
+  let nextStart: number = FIRST_FLOW_START;
+  
+  return {
+    /**
+     * Allocate a range with room for at least `nodeCount` nodes
+     */
+    allocate(nodeCount: number = BLOCK_SIZE): FlowNodeRange {
+      const size = Math.max(1, Math.ceil(nodeCount / BLOCK_SIZE)) * BLOCK_SIZE;
+      let start = nextStart;
+      while (blockOverlapsReservedRange(start, start + size - 1)) {
+        start += BLOCK_SIZE;
+      }
+      nextStart = start + size;
+      return { start, end: start + size - 1 };
+    },
+    
+    /**
+     * Mark everything up to an externally chosen range as taken
+     */
+    claim(range: FlowNodeRange): void {
+      const blockEnd = Math.ceil((range.end + 1) / BLOCK_SIZE) * BLOCK_SIZE;
+      nextStart = Math.max(nextStart, blockEnd);
+    },
+  };
+}
+
+/**
+ * Estimated node count of a planned flow: the plan's estimate, else twice the
+ * preview's turns (each turn is usually a question and a response node)
  */
-function getFlowRange(flowIndex: number): { start: number; end: number } {
-  const baseStart = 300;
-  const rangeSize = 100;
-  const start = baseStart + (flowIndex * rangeSize);
-  const end = start + rangeSize - 1;
+export function estimateFlowNodeCount(flow: FlowPlan, preview?: unknown[]): number {
+  if (flow.estimatedNodes && flow.estimatedNodes > 0) return flow.estimatedNodes;
+  if (preview && preview.length > 0) return preview.length * 2;
+  return FLOW_NODE_RANGES.DEFAULT_FLOW_NODES;
+}
+
+/**
+ * Give every planned flow a node range sized by its estimated complexity,
+ * replacing whatever startNode/endNode the planner suggested. Menu options
+ * pointing at a flow are moved to its new start node.
+ */
+export function allocateFlowNodeRanges(
+  flows: FlowPlan[],
+  mainMenuOptions?: MainMenuOption[],
+  flowPreviews?: Record<string, any[]>
+): { flows: FlowPlan[]; mainMenuOptions?: MainMenuOption[] } {
+  const allocator = createNodeRangeAllocator();
+  const starts = new Map<string, number>();
+  const plannedStarts = new Map<number, number>();
+  
+  const allocated = flows.map(flow => {
+    const estimate = estimateFlowNodeCount(flow, flowPreviews?.[flow.name]);
+    const range = allocator.allocate(estimate * FLOW_NODE_RANGES.HEADROOM);
+    starts.set(flow.name, range.start);
+    if (flow.startNode !== undefined) plannedStarts.set(flow.startNode, range.start);
+    return { ...flow, startNode: range.start, endNode: range.end };
+  });
+  
+  console.log('[NodeRanges] Allocated flow ranges:', allocated.map(f => `${f.name} ${f.startNode}-${f.endNode}`).join(', '));
   
-  // Cap at max flow end to avoid system reserved range
   return {
-    start,
-    end: Math.min(end, FLOW_NODE_RANGES.MAX_FLOW_END)
+    flows: allocated,
+    mainMenuOptions: mainMenuOptions?.map(option => {
+      const start = (option.flowName ? starts.get(option.flowName) : undefined)
+        ?? (option.startNode !== undefined ? plannedStarts.get(option.startNode) : undefined);
+      return start !== undefined ? { ...option, startNode: start } : option;
+    })
   };
 }
 
+/**
+ * Default range for a flow index (0-based) when no plan is available: one
+ * block per flow, in order
+ */
+function getFlowRange(flowIndex: number): FlowNodeRange {
+  const allocator = createNodeRangeAllocator();
+  let range = allocator.allocate();
+  for (let i = 0; i < flowIndex; i++) range = allocator.allocate();
+  return range;
+}
+
+/**
+ * Node range of flows[index], falling back to the default for its index
+ */
+function getPlannedFlowRange(flows: FlowPlan[], index: number): FlowNodeRange {
+  const flow = flows[index];
+  if (flow?.startNode === undefined) return getFlowRange(index);
+  return { start: flow.startNode, end: flow.endNode ?? flow.startNode + FLOW_NODE_RANGES.BLOCK_SIZE - 1 };
+}
+
 /**
  * Validate and remap AI-generated nodes to prevent conflicts with reserved nodes.
  * 
@@ -5924,17 +5336,21 @@ function getFlowRange(flowIndex: number): { start: number; end: number } {
 export function validateAndRemapNodeNumbers(
   nodes: any[],
   flowIndex: number,
-  reservedNodes: Set<number>
+  reservedNodes: Set<number>,
+  flowRange: FlowNodeRange = getFlowRange(flowIndex),
+  allocateOverflow: () => FlowNodeRange = () => getFlowRange(flowIndex + 1)
 ): { nodes: any[]; remappings: Map<number, number>; warnings: string[] } {
   const warnings: string[] = [];
   const remappings = new Map<number, number>();
   
-  // Get the expected range for this flow
-  const flowRange = getFlowRange(flowIndex);
-  let nextAvailableNode = flowRange.start;
+  // Remapped nodes go into the flow's range, then into overflow ranges
+  let currentRange = flowRange;
+  let nextAvailableNode = currentRange.start;
   
   // Track which node numbers are already used in this flow
-  const usedInFlow = new Set<number>();
+  const usedInFlow = new Set<number>(
+    nodes.map(node => parseInt(String(node.num || node.nodeNum), 10)).filter(n => !isNaN(n))
+  );
   
   // First pass: identify conflicts and plan remappings
   for (const node of nodes) {
@@ -5947,13 +5363,13 @@ export function validateAndRemapNodeNumbers(
     // Check if this node conflicts with reserved nodes
     if (reservedNodes.has(numVal) || isNodeNumberReserved(numVal)) {
       // Find next available node in flow range
-      while (usedInFlow.has(nextAvailableNode) || reservedNodes.has(nextAvailableNode)) {
+      while (usedInFlow.has(nextAvailableNode) || reservedNodes.has(nextAvailableNode) || isNodeNumberReserved(nextAvailableNode)) {
         nextAvailableNode++;
-        if (nextAvailableNode > flowRange.end) {
-          // Overflow to next available range
-          const overflowRange = getFlowRange(flowIndex + 1);
-          nextAvailableNode = overflowRange.start;
-          warnings.push(`Flow ${flowIndex} overflowed into next range (${overflowRange.start}+)`);
+        if (nextAvailableNode > currentRange.end) {
+          // Overflow to a fresh range
+          currentRange = allocateOverflow();
+          nextAvailableNode = currentRange.start;
+          warnings.push(`Flow ${flowIndex} overflowed into range ${currentRange.start}-${currentRange.end}`);
         }
       }
       
@@ -6112,7 +5528,8 @@ function remapRichAssetReferences(richContent: any, remappings: Map<number, numb
  */
 export function alignFlowNodeNumbers(
   flowRowsArrays: string[][],
-  reservedNodes: Set<number>
+  reservedNodes: Set<number>,
+  flows: FlowPlan[] = []
 ): { aligned: string[][]; report: NodeAlignmentReport } {
   const report: NodeAlignmentReport = {
     totalFlows: flowRowsArrays.length,
@@ -6122,10 +5539,15 @@ export function alignFlowNodeNumbers(
   };
   
   const aligned: string[][] = [];
+  const flowRanges = flowRowsArrays.map((_, flowIdx) => getPlannedFlowRange(flows, flowIdx));
+  
+  // Flows that outgrow their range overflow into blocks no flow was given
+  const overflowAllocator = createNodeRangeAllocator();
+  flowRanges.forEach(range => overflowAllocator.claim(range));
   
   for (let flowIdx = 0; flowIdx < flowRowsArrays.length; flowIdx++) {
     const flowRows = flowRowsArrays[flowIdx];
-    const flowRange = getFlowRange(flowIdx);
+    const flowRange = flowRanges[flowIdx];
     
     report.flowRanges.push({
       flowIndex: flowIdx,
@@ -6136,7 +5558,7 @@ export function alignFlowNodeNumbers(
     // Parse rows into node objects with field confusion detection
     const nodes: any[] = [];
     for (const row of flowRows) {
-      const fields = parseCSVLineForFix(row);
+      const fields = parseCSVLine(row);
       const nodeNum = parseInt(fields[0], 10);
       if (isNaN(nodeNum)) continue;
       
@@ -6210,7 +5632,9 @@ export function alignFlowNodeNumbers(
     const { nodes: remappedNodes, remappings, warnings } = validateAndRemapNodeNumbers(
       nodes, 
       flowIdx, 
-      reservedNodes
+      reservedNodes,
+      flowRange,
+      () => overflowAllocator.allocate()
     );
     
     report.remappedNodes += remappings.size;
@@ -6251,57 +5675,155 @@ interface NodeAlignmentReport {
   }[];
 }
 
+/**
+ * Node numbers a CSV row routes to (Next Nodes, What Next?, rich asset destinations)
+ */
+function referencedNodeNumbers(fields: string[]): number[] {
+  const refs: number[] = [];
+  for (const match of (fields[7] || '').matchAll(/\d+/g)) refs.push(parseInt(match[0], 10));
+  for (const match of (fields[19] || '').matchAll(/~\s*(\d+)/g)) refs.push(parseInt(match[1], 10));
+  for (const match of (fields[10] || '').matchAll(/"dest"\s*:\s*"?(\d+)|~(\d+)/g)) refs.push(parseInt(match[1] || match[2], 10));
+  return refs;
+}
+
+/**
+ * Apply node number remappings to a CSV row's own number (optionally) and its references
+ */
+function remapCSVRow(row: string, remappings: Map<number, number>, remapOwnNumber: boolean): string {
+  const fields = parseCSVLine(row);
+  const nodeNum = parseInt(fields[0], 10);
+  const ownChanged = remapOwnNumber && remappings.has(nodeNum);
+  if (!ownChanged && !referencedNodeNumbers(fields).some(n => remappings.has(n))) return row;
+  
+  if (ownChanged) fields[0] = String(remappings.get(nodeNum));
+  fields[7] = remapNodeReferences(fields[7] || '', remappings);
+  fields[10] = remapRichAssetReferences(fields[10] || '', remappings);
+  fields[19] = remapWhatNextReferences(fields[19] || '', remappings);
+  return serializeCSVFields(fields);
+}
+
+/**
+ * Flows are generated concurrently, so none of them sees the others' nodes.
+ * Merge them in plan order and line up the references between them:
+ *
+ * 1. A node number an earlier flow already uses is moved to a free number in
+ *    this flow's block, together with this flow's references to it
+ * 2. A reference to a node no flow defines that falls in another flow's planned
+ *    block (usually its planned entry node) is pointed at that flow's entry node
+ */
+export function resolveCrossFlowReferences(
+  flowRowsArrays: string[][],
+  flows: FlowPlan[],
+  protectedNodes: Set<number>
+): { resolved: string[][]; renumbered: number; redirected: number } {
+  const blockOf = (index: number) => getPlannedFlowRange(flows, index);
+  const nodeNumbersOf = (rows: string[]) => rows
+    .map(row => parseInt(parseCSVLine(row)[0], 10))
+    .filter(n => !isNaN(n));
+  
+  const defined = new Set<number>(protectedNodes);
+  const resolved: string[][] = [];
+  const entryNodes: (number | undefined)[] = [];
+  let renumbered = 0;
+  let redirected = 0;
+  
+  // Pass 1: claim node numbers in plan order
+  flowRowsArrays.forEach((rows, index) => {
+    const own = nodeNumbersOf(rows);
+    const taken = new Set(own);
+    const remappings = new Map<number, number>();
+    let next = blockOf(index).start;
+    
+    for (const num of own) {
+      if (!defined.has(num) || remappings.has(num)) continue;
+      while (defined.has(next) || taken.has(next) || isNodeNumberReserved(next)) next++;
+      remappings.set(num, next);
+      taken.add(next);
+      next++;
+    }
+    
+    const flowRows = remappings.size > 0 ? rows.map(row => remapCSVRow(row, remappings, true)) : rows;
+    if (remappings.size > 0) {
+      console.log(`[CrossFlow] "${flows[index]?.name || index}": moved ${remappings.size} node(s) used by an earlier flow`, Object.fromEntries(remappings));
+      renumbered += remappings.size;
+    }
+    
+    const finalNums = nodeNumbersOf(flowRows);
+    finalNums.forEach(n => defined.add(n));
+    const plannedStart = flows[index]?.startNode;
+    const plannedEntry = plannedStart !== undefined ? remappings.get(plannedStart) ?? plannedStart : undefined;
+    entryNodes[index] = plannedEntry !== undefined && finalNums.includes(plannedEntry)
+      ? plannedEntry
+      : finalNums.length > 0 ? Math.min(...finalNums) : undefined;
+    resolved.push(flowRows);
+  });
+  
+  // Pass 2: point dangling references into other flows at their entry nodes
+  resolved.forEach((rows, index) => {
+    const remappings = new Map<number, number>();
+    
+    for (const row of rows) {
+      for (const ref of referencedNodeNumbers(parseCSVLine(row))) {
+        if (defined.has(ref) || isNodeNumberReserved(ref) || remappings.has(ref)) continue;
+        const target = flowRowsArrays.findIndex((_, i) => {
+          if (i === index || entryNodes[i] === undefined) return false;
+          const block = blockOf(i);
+          return ref >= block.start && ref <= block.end;
+        });
+        if (target >= 0) remappings.set(ref, entryNodes[target]!);
+      }
+    }
+    
+    if (remappings.size > 0) {
+      console.log(`[CrossFlow] "${flows[index]?.name || index}": redirected ${remappings.size} reference(s) to other flows' entry nodes`, Object.fromEntries(remappings));
+      resolved[index] = rows.map(row => remapCSVRow(row, remappings, false));
+      redirected += remappings.size;
+    }
+  });
+  
+  return { resolved, renumbered, redirected };
+}
+
 /**
  * Log a comprehensive inventory of all nodes in the CSV.
  * Groups nodes by their functional category (startup, menu, flows, system).
  * Useful for debugging node number conflicts.
  */
 function logNodeInventory(csv: string, stage: string = ''): void {
-  const lines = csv.split('\n');
-  if (lines.length < 2) return;
+  const nodeNumbers = BotDocument.parse(csv).nodeNumbers;
+  if (nodeNumbers.length === 0) return;
   
   const inventory = {
     startup: [] as number[],       // 1-105
     mainMenu: [] as number[],      // 200-299
-    flows: [] as { range: string; nodes: number[] }[],  // 300+
+    flows: [] as { range: string; nodes: number[] }[],  // 300+, by block
     system: [] as number[],        // 666, 999, 1800-1804, 99990, -500
     other: [] as number[]          // Anything else
   };
+  const flowBlocks = new Map<number, number[]>();
+  const { FIRST_FLOW_START, BLOCK_SIZE } = FLOW_NODE_RANGES;
   
-  // Initialize flow ranges
-  for (let i = 0; i < 8; i++) {
-    const start = 300 + (i * 100);
-    inventory.flows.push({ range: `${start}-${start + 99}`, nodes: [] });
-  }
-  
-  for (let i = 1; i < lines.length; i++) {
-    const line = lines[i].trim();
-    if (!line) continue;
-    
-    const fields = parseCSVLineForFix(line);
-    const nodeNum = parseInt(fields[0], 10);
-    if (isNaN(nodeNum)) continue;
-    
+  for (const nodeNum of nodeNumbers) {
     // Categorize node
     if (nodeNum >= 1 && nodeNum <= 105) {
       inventory.startup.push(nodeNum);
     } else if (nodeNum >= 200 && nodeNum <= 299) {
       inventory.mainMenu.push(nodeNum);
-    } else if (nodeNum >= 300 && nodeNum <= 999) {
-      const flowIdx = Math.floor((nodeNum - 300) / 100);
-      if (flowIdx >= 0 && flowIdx < inventory.flows.length) {
-        inventory.flows[flowIdx].nodes.push(nodeNum);
-      } else {
-        inventory.other.push(nodeNum);
-      }
     } else if (nodeNum === -500 || nodeNum === 666 || nodeNum === 999 || 
                (nodeNum >= 1800 && nodeNum <= 1804) || nodeNum === 99990) {
       inventory.system.push(nodeNum);
+    } else if (nodeNum >= FIRST_FLOW_START && !isNodeNumberReserved(nodeNum)) {
+      const blockStart = Math.floor(nodeNum / BLOCK_SIZE) * BLOCK_SIZE;
+      flowBlocks.set(blockStart, [...(flowBlocks.get(blockStart) || []), nodeNum]);
     } else {
       inventory.other.push(nodeNum);
     }
   }
   
+  for (const blockStart of [...flowBlocks.keys()].sort((a, b) => a - b)) {
+    inventory.flows.push({ range: `${blockStart}-${blockStart + BLOCK_SIZE - 1}`, nodes: flowBlocks.get(blockStart)! });
+  }
+  
   // Log summary
   const stagePrefix = stage ? `[${stage}] ` : '';
   console.log(`\n${stagePrefix}📊 Node Inventory:`);
@@ -6327,16 +5849,18 @@ function logNodeInventory(csv: string, stage: string = ''): void {
 
 /**
  * Assemble multiple flow CSVs and run validation pipeline.
- * Combines startup nodes with generated flows, then runs all fixes.
+ * Combines startup nodes with generated flows (in plan order - flowRowsArrays[i]
+ * belongs to flows[i]), then runs all fixes.
  */
 export function assembleAndValidateCSV(
   startupRows: string[],
-  flowRowsArrays: string[][]
+  flowRowsArrays: string[][],
+  flows: FlowPlan[] = []
 ): string {
   // Extract node numbers from startup rows (these are protected and take precedence)
   const startupNodeNums = new Set<number>();
   for (const row of startupRows) {
-    const nodeNum = parseInt(row.split(',')[0], 10);
+    const nodeNum = parseInt(parseCSVLine(row)[0], 10);
     if (!isNaN(nodeNum)) {
       startupNodeNums.add(nodeNum);
     }
@@ -6347,19 +5871,25 @@ export function assembleAndValidateCSV(
   
   // STEP 1: Align flow node numbers BEFORE assembly
   // This remaps any conflicting node numbers to safe ranges
-  const { aligned: alignedFlowRows, report } = alignFlowNodeNumbers(flowRowsArrays, reservedNodes);
+  const { aligned: alignedFlowRows, report } = alignFlowNodeNumbers(flowRowsArrays, reservedNodes, flows);
   
   if (report.remappedNodes > 0) {
     console.log(`[Sequential] Node alignment remapped ${report.remappedNodes} conflicting nodes`);
   }
   
+  // STEP 2: Resolve node clashes and references between concurrently generated flows
+  const { resolved: mergedFlowRows, renumbered, redirected } = resolveCrossFlowReferences(alignedFlowRows, flows, reservedNodes);
+  if (renumbered > 0 || redirected > 0) {
+    console.log(`[Sequential] Cross-flow resolution renumbered ${renumbered} nodes and redirected ${redirected} references`);
+  }
+  
   // Combine all rows with header, filtering out any AI-generated duplicates of startup nodes
   const allRows = [CSV_HEADER, ...startupRows];
   let duplicatesFiltered = 0;
   
-  for (const flowRows of alignedFlowRows) {
+  for (const flowRows of mergedFlowRows) {
     for (const row of flowRows) {
-      const nodeNum = parseInt(row.split(',')[0], 10);
+      const nodeNum = parseInt(parseCSVLine(row)[0], 10);
       // Skip rows that duplicate startup node numbers - startup nodes take precedence
       if (!isNaN(nodeNum) && startupNodeNums.has(nodeNum)) {
         console.log(`[Sequential] Filtered duplicate node ${nodeNum} from AI-generated flow (startup template takes precedence)`);
@@ -6382,29 +5912,19 @@ export function assembleAndValidateCSV(
   
   // Helper to trace node 1800's state for debugging
   const traceNode1800 = (stage: string, csvContent: string) => {
-    const lines = csvContent.split('\n');
-    for (const line of lines) {
-      if (line.startsWith('1800,') || line.startsWith('"1800",')) {
-        const fields = parseCSVLineForFix(line);
-        const cmd = fields[13] || '(empty)';
-        const decVar = fields[18] || '(empty)';
-        console.log(`[Node1800 Trace] ${stage}: command="${cmd}", decVar="${decVar}"`);
-        return;
-      }
+    const node = BotDocument.parse(csvContent).getNode(1800);
+    if (!node) {
+      console.log(`[Node1800 Trace] ${stage}: NODE NOT FOUND`);
+      return;
     }
-    console.log(`[Node1800 Trace] ${stage}: NODE NOT FOUND`);
+    console.log(`[Node1800 Trace] ${stage}: command="${node.command || '(empty)'}", decVar="${node.decVar || '(empty)'}"`);
   };
   
   traceNode1800('After assembly', csv);
   
   // Run the existing validation pipeline
-  csv = normalizeCSVColumns(csv);
-  console.log('[Sequential] Normalized columns');
-  traceNode1800('After normalizeCSVColumns', csv);
-  
-  csv = fixCSVColumnAlignment(csv);
-  console.log('[Sequential] Fixed column alignment');
-  traceNode1800('After fixCSVColumnAlignment', csv);
+  // No column repair needed here - every row was serialized from schema-validated
+  // nodes (node-schema.ts), so column counts and escaping are correct by construction
   
   csv = fixDecisionVariables(csv);
   console.log('[Sequential] Fixed decision variables');
@@ -6445,11 +5965,18 @@ export function assembleAndValidateCSV(
  * 2. Call /api/plan-flows to identify needed flows (5-10s)
  * 3. For each flow, call /api/generate-flow (10-20s each)
  * 4. Assemble and validate (instant)
+ *
+ * With checkpoints, the plan and every completed flow are saved as they finish
+ * and reused when the build resumes. A planned architecture replaces step 2.
  */
 export async function generateSequentially(
   projectConfig: ProjectConfig,
   clarifyingQuestions: ClarifyingQuestion[] = [],
-  onProgress?: (progress: SequentialProgress) => void
+  onProgress?: (progress: SequentialProgress) => void,
+  costLedger?: CostLedger,
+  checkpoints?: BuildCheckpoints,
+  plannedArchitecture?: PlannedArchitecture,
+  flowGeneration?: FlowGenerationOptions
 ): Promise<GenerationResult> {
   const startTime = performance.now();
   
@@ -6460,14 +5987,21 @@ export async function generateSequentially(
     let flows: FlowPlan[];
     let mainMenuOptions: MainMenuOption[] | undefined;
     
-    // Check for pre-planned flows from SolutionArchitecturePage
-    const prePlannedFlows = (window as any).__plannedFlows as FlowPlan[] | undefined;
-    const prePlannedMenu = (window as any).__plannedMenuOptions as MainMenuOption[] | undefined;
+    // Pre-planned flows from SolutionArchitecturePage
+    const prePlannedFlows = plannedArchitecture?.flows;
+    const prePlannedMenu = plannedArchitecture?.mainMenuOptions;
+    
+    // Flow previews - conversation structures the user has seen/approved
+    const flowPreviews = plannedArchitecture?.flowPreviews;
     
-    // Check for flow previews - conversation structures the user has seen/approved
-    const flowPreviews = (window as any).__flowPreviews as Record<string, any[]> | undefined;
+    // Saved plan from an interrupted build (its checkpoints are only kept for the same input)
+    const resumedPlan = checkpoints?.output<{ flows: FlowPlan[]; mainMenuOptions?: MainMenuOption[] }>('plan');
     
-    if (prePlannedFlows && prePlannedFlows.length > 0) {
+    if (resumedPlan) {
+      flows = resumedPlan.flows;
+      mainMenuOptions = resumedPlan.mainMenuOptions;
+      console.log(`[Sequential] Resuming with ${flows.length} flows from the saved plan`);
+    } else if (prePlannedFlows && prePlannedFlows.length > 0) {
       // Use the flows from the architecture review
       flows = prePlannedFlows;
       mainMenuOptions = prePlannedMenu;
@@ -6475,11 +6009,6 @@ export async function generateSequentially(
       if (flowPreviews) {
         console.log(`[Sequential] Have ${Object.keys(flowPreviews).length} flow previews to maintain consistency`);
       }
-      
-      // Clear the pre-planned data so it's not reused on next build
-      delete (window as any).__plannedFlows;
-      delete (window as any).__plannedMenuOptions;
-      delete (window as any).__flowPreviews;
     } else {
       // No pre-planned flows, call the planning API
       // Only pass serializable fields - avoid passing full projectConfig which may contain DOM refs or blobs
@@ -6496,6 +6025,7 @@ export async function generateSequentially(
           clarifyingQuestions 
         })
       });
+      costLedger?.record(planResponse, 'plan');
       
       if (!planResponse.ok) {
         throw new Error(`Flow planning failed: ${await planResponse.text()}`);
@@ -6509,7 +6039,12 @@ export async function generateSequentially(
       mainMenuOptions = planResult.mainMenuOptions;
     }
     
-    onProgress?.({ step: 'planning', status: 'done', totalFlows: flows.length });
+    if (!resumedPlan) {
+      // Size each flow's node range from its estimated complexity
+      ({ flows, mainMenuOptions } = allocateFlowNodeRanges(flows, mainMenuOptions, flowPreviews));
+      await checkpoints?.complete('plan', { flows, mainMenuOptions });
+    }
+    onProgress?.({ step: 'planning', status: 'done', totalFlows: flows.length, flowNames: flows.map(f => f.name) });
     console.log(`[Sequential] Step 1: Planned ${flows.length} flows with ${mainMenuOptions?.length || 0} menu options`);
     
     // Step 2: Generate startup nodes with customized main menu and company context
@@ -6524,19 +6059,19 @@ export async function generateSequentially(
     onProgress?.({ step: 'startup', status: 'done', rows: startupRows.length });
     console.log(`[Sequential] Step 2: Generated ${startupRows.length} startup nodes`);
     
-    // Step 3: Generate flows in PARALLEL for speed (with concurrency limit)
-    const flowRowsArrays: string[][] = [];
+    // Step 3: Generate flows concurrently. Each flow has its own node block and
+    // only needs the other flows' entry nodes; assembly resolves the rest
     const generatedNodeNums: number[] = [1, 10, 100, 101, 102, 103, 104, 105, 666, 999, 99990];
     const failedFlows: { name: string; error: string }[] = [];
-    
-    // Generate flows in parallel with max 3 concurrent
-    const PARALLEL_LIMIT = 3;
-    const flowResults: { index: number; rows: string[]; success: boolean; error?: string }[] = [];
+    const concurrency = getFlowConcurrency(flowGeneration);
+    const maxAttempts = Math.max(1, flowGeneration?.maxAttempts ?? DEFAULT_FLOW_ATTEMPTS);
     
     // Helper to generate a single flow with retry
-    const generateSingleFlow = async (flow: FlowPlan, index: number): Promise<{ index: number; rows: string[]; success: boolean; error?: string }> => {
+    const generateSingleFlow = async (flow: FlowPlan, index: number): Promise<{ rows: string[]; success: boolean; error?: string }> => {
       const isWelcome = flow.name === 'welcome' || flow.name === 'greeting';
-      const MAX_FLOW_RETRIES = 3;
+      const relatedFlows = flows
+        .filter(f => f !== flow)
+        .map(f => ({ name: f.name, description: f.description, startNode: f.startNode }));
       
       // Check if we have a preview for this flow that the user has seen/approved
       const preview = flowPreviews?.[flow.name];
@@ -6549,12 +6084,23 @@ export async function generateSequentially(
         status: 'started', 
         flowName: flow.name,
         currentFlow: index + 1,
-        totalFlows: flows.length
+        totalFlows: flows.length,
+        attempt: 1
       });
       
-      for (let attempt = 1; attempt <= MAX_FLOW_RETRIES; attempt++) {
+      const savedFlow = checkpoints?.output<{ rows: string[] }>('flow', flow.name);
+      if (savedFlow) {
+        onProgress?.({ step: 'flow', status: 'done', flowName: flow.name, rows: savedFlow.rows.length, currentFlow: index + 1, totalFlows: flows.length });
+        console.log(`[Parallel] Reusing ${savedFlow.rows.length} saved nodes for "${flow.name}"`);
+        return { rows: savedFlow.rows, success: true };
+      }
+      await checkpoints?.start('flow', flow.name);
+      
+      let lastError = '';
+      for (let attempt = 1; attempt <= maxAttempts; attempt++) {
         if (attempt > 1) {
-          console.log(`[Parallel] Retrying flow "${flow.name}" (attempt ${attempt}/${MAX_FLOW_RETRIES})...`);
+          console.log(`[Parallel] Retrying flow "${flow.name}" (attempt ${attempt}/${maxAttempts})...`);
+          onProgress?.({ step: 'flow', status: 'started', flowName: flow.name, currentFlow: index + 1, totalFlows: flows.length, attempt, message: lastError });
           await new Promise(r => setTimeout(r, 500 * attempt)); // Shorter delay
         }
         
@@ -6568,13 +6114,16 @@ export async function generateSequentially(
               contextNodes: generatedNodeNums,
               isWelcome,
               // Pass the preview so the AI generates CSV that matches what the user saw
-              conversationPreview: preview
+              conversationPreview: preview,
+              relatedFlows
             })
           });
+          costLedger?.record(flowResponse, 'flow-generation');
           
           if (!flowResponse.ok) {
             const errorText = await flowResponse.text();
             console.error(`[Parallel] Flow "${flow.name}" attempt ${attempt} failed:`, errorText);
+            lastError = `HTTP ${flowResponse.status}`;
             continue;
           }
           
@@ -6582,10 +6131,20 @@ export async function generateSequentially(
           
           if (!nodes || nodes.length === 0) {
             console.error(`[Parallel] Flow "${flow.name}" attempt ${attempt}: Empty response`);
+            lastError = 'Empty response';
+            continue;
+          }
+          
+          // Reject (and retry) output that does not match the node schema
+          const { nodes: validNodes, errors: schemaErrors } = validateGeneratedNodes(nodes);
+          if (schemaErrors.length > 0) {
+            console.error(`[Parallel] Flow "${flow.name}" attempt ${attempt}: ${schemaErrors.length} schema errors`, schemaErrors.slice(0, 5));
+            lastError = `${schemaErrors.length} schema errors`;
             continue;
           }
           
-          const flowRows = nodesToCSVRows(nodes);
+          const flowRows = nodesToCSVRows(validNodes);
+          await checkpoints?.complete('flow', { rows: flowRows }, flow.name);
           
           onProgress?.({ 
             step: 'flow', 
@@ -6597,43 +6156,36 @@ export async function generateSequentially(
           });
           console.log(`[Parallel] Generated ${flowRows.length} nodes for "${flow.name}"`);
           
-          return { index, rows: flowRows, success: true };
+          return { rows: flowRows, success: true };
           
         } catch (fetchError: any) {
           console.error(`[Parallel] Flow "${flow.name}" attempt ${attempt} exception:`, fetchError.message);
+          lastError = fetchError.message;
         }
       }
       
       // All retries failed
-      onProgress?.({ step: 'flow', status: 'error', flowName: flow.name, message: `Failed after ${MAX_FLOW_RETRIES} attempts` });
-      return { index, rows: [], success: false, error: `Failed after ${MAX_FLOW_RETRIES} attempts` };
+      const error = `Failed after ${maxAttempts} attempts${lastError ? ` (${lastError})` : ''}`;
+      await checkpoints?.fail('flow', error, flow.name);
+      onProgress?.({ step: 'flow', status: 'error', flowName: flow.name, currentFlow: index + 1, totalFlows: flows.length, message: error });
+      return { rows: [], success: false, error };
     };
     
-    // Process flows in parallel batches
-    console.log(`[Sequential] Generating ${flows.length} flows in parallel (max ${PARALLEL_LIMIT} concurrent)...`);
+    console.log(`[Sequential] Generating ${flows.length} flows (max ${concurrency} concurrent, ${maxAttempts} attempts each)...`);
     const startParallel = performance.now();
     
-    for (let batchStart = 0; batchStart < flows.length; batchStart += PARALLEL_LIMIT) {
-      const batch = flows.slice(batchStart, batchStart + PARALLEL_LIMIT);
-      const batchPromises = batch.map((flow, batchIndex) => 
-        generateSingleFlow(flow, batchStart + batchIndex)
-      );
-      const batchResults = await Promise.all(batchPromises);
-      flowResults.push(...batchResults);
-    }
+    // Results come back in plan order, whatever order the flows finish in
+    const flowResults = await mapWithConcurrency(flows, concurrency, generateSingleFlow);
     
     const parallelTime = Math.round(performance.now() - startParallel);
     console.log(`[Sequential] Parallel generation complete in ${parallelTime}ms`);
     
-    // Sort results by index and collect
-    flowResults.sort((a, b) => a.index - b.index);
-    for (const result of flowResults) {
-      if (result.success) {
-        flowRowsArrays.push(result.rows);
-      } else {
-        failedFlows.push({ name: flows[result.index].name, error: result.error || 'Unknown error' });
+    const flowRowsArrays = flowResults.map(result => result.rows);
+    flowResults.forEach((result, index) => {
+      if (!result.success) {
+        failedFlows.push({ name: flows[index].name, error: result.error || 'Unknown error' });
       }
-    }
+    });
     
     // CRITICAL: Check if any flows failed - DO NOT deploy incomplete bots
     if (failedFlows.length > 0) {
@@ -6646,7 +6198,11 @@ export async function generateSequentially(
     
     // Step 4: Assemble and validate
     onProgress?.({ step: 'assembly', status: 'started' });
-    const csv = assembleAndValidateCSV(startupRows, flowRowsArrays);
+    // Message nodes carry the widget theme's class (CSS Classname column)
+    const csv = applyThemeClassnames(
+      assembleAndValidateCSV(startupRows, flowRowsArrays, flows),
+      projectConfig.brandAssets?.theme
+    );
     onProgress?.({ step: 'assembly', status: 'done' });
     
     // Step 5: Validation
@@ -0,0 +1,263 @@
+/**
+ * Graph Analyzer
+ *
+ * Static analysis of a bot's routing graph. Field-level checks live in
+ * validateCSV / preDeployValidation; this pass follows the edges between nodes:
+ * Next Nodes, What Next? routes and rich asset button/quick_reply destinations.
+ *
+ * Reports:
+ * - unreachable: nodes that can't be reached from node 1
+ * - dead_end: Decision nodes with no exit (and Action nodes with no routing)
+ * - uncovered_outcome: Action nodes whose What Next misses a SCRIPT_OUTPUTS value
+ * - silent_loop: cycles the bot would spin in without ever waiting for the user
+ *
+ * Results are ValidationIssues (ReviewPage) plus per-node flags (EditorPage canvas).
+ */
+
+import type { GraphCheck, ValidationIssue } from '../types';
+import { SCRIPT_OUTPUTS } from '../data/script-outputs';
+import { BotDocument, type BotNode } from './bot-document';
+import { parseNextNodes, parseRichAssetOptions, parseWhatNext } from './conversation-simulator';
+
+const START_NODE = 1;
+const END_CHAT_NODE = 666;
+const AGENT_TRANSFER_NODE = 999;
+
+export type GraphEdgeKind = 'next' | 'what_next' | 'option';
+
+export interface GraphEdge {
+  from: number;
+  to: number;
+  kind: GraphEdgeKind;
+  // Outcome value (What Next) or button label (option)
+  label?: string;
+}
+
+export interface GraphAnalysis {
+  edges: GraphEdge[];
+  issues: ValidationIssue[];
+  // Checks that flagged each node - used to highlight nodes on the canvas
+  flaggedNodes: Map<number, GraphCheck[]>;
+  unreachable: number[];
+  deadEnds: number[];
+  uncoveredOutcomes: { nodeNumber: number; command: string; missing: string[] }[];
+  silentLoops: number[][];
+}
+
+/**
+ * Collect every routing edge leaving a node
+ */
+export function getNodeEdges(node: BotNode): GraphEdge[] {
+  const from = node.nodeNum;
+  const edges: GraphEdge[] = [];
+
+  for (const to of parseNextNodes(node.nextNodes)) {
+    edges.push({ from, to, kind: 'next' });
+  }
+
+  for (const [outcome, to] of parseWhatNext(node.whatNext.trim())) {
+    edges.push({ from, to, kind: 'what_next', label: outcome });
+  }
+
+  const richType = node.richType.trim().toLowerCase();
+  for (const option of parseRichAssetOptions(richType, node.richContent.trim())) {
+    if (option.dest !== null) {
+      edges.push({ from, to: option.dest, kind: 'option', label: option.label });
+    }
+  }
+
+  return edges;
+}
+
+/**
+ * Run all graph checks over a bot CSV
+ */
+export function analyzeBotGraph(csv: string): GraphAnalysis {
+  const nodes = new Map<number, BotNode>();
+  for (const node of BotDocument.parse(csv).nodes) {
+    if (!nodes.has(node.nodeNum)) nodes.set(node.nodeNum, node);
+  }
+
+  const edges: GraphEdge[] = [];
+  const adjacency = new Map<number, number[]>();
+  for (const node of nodes.values()) {
+    const nodeEdges = getNodeEdges(node);
+    edges.push(...nodeEdges);
+    adjacency.set(node.nodeNum, [...new Set(nodeEdges.map(e => e.to))].filter(to => nodes.has(to)));
+  }
+
+  const issues: ValidationIssue[] = [];
+  const flaggedNodes = new Map<number, GraphCheck[]>();
+  const flag = (issue: ValidationIssue & { graphCheck: GraphCheck }) => {
+    issues.push(issue);
+    for (const num of [issue.nodeNumber!, ...(issue.relatedNodes || [])]) {
+      const checks = flaggedNodes.get(num) || [];
+      if (!checks.includes(issue.graphCheck)) checks.push(issue.graphCheck);
+      flaggedNodes.set(num, checks);
+    }
+  };
+
+  // ---- Reachability ----
+  const unreachable = findUnreachable(nodes, adjacency);
+  for (const num of unreachable) {
+    flag({
+      nodeNumber: num,
+      severity: 'warning',
+      graphCheck: 'unreachable',
+      message: `Node ${num} (${nodes.get(num)!.name.trim() || 'unnamed'}) can't be reached from node ${START_NODE}`,
+    });
+  }
+
+  // ---- Dead ends ----
+  const deadEnds: number[] = [];
+  const hasExit = new Set(edges.map(e => e.from));
+  for (const node of nodes.values()) {
+    if (isTerminal(node) || hasExit.has(node.nodeNum)) continue;
+
+    deadEnds.push(node.nodeNum);
+    flag({
+      nodeNumber: node.nodeNum,
+      severity: 'error',
+      graphCheck: 'dead_end',
+      message: node.type.trim().toUpperCase() === 'A'
+        ? `Action node ${node.nodeNum} has no What Next routing`
+        : `Decision node ${node.nodeNum} has no exit (no Next Nodes or button destinations)`,
+    });
+  }
+
+  // ---- What Next coverage ----
+  const uncoveredOutcomes: GraphAnalysis['uncoveredOutcomes'] = [];
+  for (const node of nodes.values()) {
+    if (node.type.trim().toUpperCase() !== 'A') continue;
+    const command = node.command.trim();
+    const outputs = SCRIPT_OUTPUTS[command];
+    if (!outputs || deadEnds.includes(node.nodeNum)) continue;
+
+    const routes = parseWhatNext(node.whatNext.trim());
+    const missing = outputs.filter(outcome => !routes.has(outcome));
+    if (missing.length === 0) continue;
+
+    uncoveredOutcomes.push({ nodeNumber: node.nodeNum, command, missing });
+    flag({
+      nodeNumber: node.nodeNum,
+      severity: 'warning',
+      graphCheck: 'uncovered_outcome',
+      message: `Action node ${node.nodeNum} (${command}) has no What Next route for: ${missing.join(', ')}`,
+    });
+  }
+
+  // ---- Loops without user input ----
+  const silentLoops = findSilentLoops(nodes, adjacency);
+  for (const loop of silentLoops) {
+    flag({
+      nodeNumber: loop[0],
+      relatedNodes: loop.slice(1),
+      severity: 'error',
+      graphCheck: 'silent_loop',
+      message: `Nodes ${loop.join(', ')} form a loop with no user input`,
+    });
+  }
+
+  return { edges, issues, flaggedNodes, unreachable, deadEnds, uncoveredOutcomes, silentLoops };
+}
+
+/**
+ * Nodes that legitimately end the conversation
+ */
+function isTerminal(node: BotNode): boolean {
+  const behaviors = node.behaviors.toLowerCase();
+  return node.nodeNum === END_CHAT_NODE
+    || node.nodeNum === AGENT_TRANSFER_NODE
+    || behaviors.includes('xfer_to_agent')
+    || behaviors.includes('end_chat');
+}
+
+/**
+ * Nodes where the bot stops and waits for the user (same rules as the simulator)
+ */
+function waitsForUser(node: BotNode): boolean {
+  if (node.type.trim().toUpperCase() === 'A') return false;
+  if (isTerminal(node)) return true;
+
+  const richType = node.richType.trim().toLowerCase();
+  if (parseRichAssetOptions(richType, node.richContent.trim()).length > 0) return true;
+
+  return node.ansReq.trim() === '1' || !!richType || parseNextNodes(node.nextNodes).length > 1;
+}
+
+/**
+ * Breadth-first search from node 1. Nodes with an Intent (reachable through NLU
+ * from anywhere) and negative platform handlers (e.g. -500 HandleBotError) are
+ * entry points too.
+ */
+function findUnreachable(nodes: Map<number, BotNode>, adjacency: Map<number, number[]>): number[] {
+  const roots = [...nodes.values()]
+    .filter(n => n.nodeNum === START_NODE || n.nodeNum < 0 || n.intent.trim())
+    .map(n => n.nodeNum);
+
+  const visited = new Set<number>(roots);
+  const queue = [...roots];
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    for (const next of adjacency.get(current) || []) {
+      if (!visited.has(next)) {
+        visited.add(next);
+        queue.push(next);
+      }
+    }
+  }
+
+  return [...nodes.keys()].filter(num => !visited.has(num)).sort((a, b) => a - b);
+}
+
+/**
+ * Strongly connected components (Tarjan) over the nodes that never wait for input.
+ * Any component with a cycle is a loop the bot can spin in forever.
+ */
+function findSilentLoops(nodes: Map<number, BotNode>, adjacency: Map<number, number[]>): number[][] {
+  const silent = new Set([...nodes.values()].filter(n => !waitsForUser(n)).map(n => n.nodeNum));
+  const successors = (num: number) => (adjacency.get(num) || []).filter(next => silent.has(next));
+
+  let counter = 0;
+  const index = new Map<number, number>();
+  const lowLink = new Map<number, number>();
+  const stack: number[] = [];
+  const onStack = new Set<number>();
+  const loops: number[][] = [];
+
+  const visit = (num: number) => {
+    index.set(num, counter);
+    lowLink.set(num, counter);
+    counter++;
+    stack.push(num);
+    onStack.add(num);
+
+    for (const next of successors(num)) {
+      if (!index.has(next)) {
+        visit(next);
+        lowLink.set(num, Math.min(lowLink.get(num)!, lowLink.get(next)!));
+      } else if (onStack.has(next)) {
+        lowLink.set(num, Math.min(lowLink.get(num)!, index.get(next)!));
+      }
+    }
+
+    if (lowLink.get(num) === index.get(num)) {
+      const component: number[] = [];
+      let member: number;
+      do {
+        member = stack.pop()!;
+        onStack.delete(member);
+        component.push(member);
+      } while (member !== num);
+
+      const isCycle = component.length > 1 || successors(num).includes(num);
+      if (isCycle) loops.push(component.sort((a, b) => a - b));
+    }
+  };
+
+  for (const num of silent) {
+    if (!index.has(num)) visit(num);
+  }
+
+  return loops;
+}
@@ -13,8 +13,9 @@ import {
   CRITICAL_STARTUP_SCRIPTS, 
   getBundledScript 
 } from '../data/startup-scripts';
+import { getClientPypestreamHosts } from './pypestream-hosts';
 
-const BOTMANAGER_API = 'https://api.pypestream.com/botmanager';
+const BOTMANAGER_API = getClientPypestreamHosts().botManager;
 
 interface HotReloadResult {
   success: boolean;
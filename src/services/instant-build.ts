@@ -10,13 +10,28 @@
  * 6. Deploy to sandbox with scripts
  * 7. Create branded channel/widget
  * 8. Export to Google Sheets
+ *
+ * Steps 3-7 are checkpointed per stage against the solution (build-checkpoints.ts),
+ * so an interrupted build resumes from the last completed stage.
  */
 
-import type { ExtractedDetails, InstantBuildResult, BrandAssets, ProjectConfig, FailedRow, HealthCheckResult } from '../types';
-import { generateBotCSV, validateAndRefineIteratively, parseCSVStats, type GenerationResult, type GenerationOptions, type SequentialProgress } from './generation';
+import type { ExtractedDetails, InstantBuildResult, BrandAssets, ProjectConfig, FailedRow, HealthCheckResult, BuildStage, BuildStageState, CustomScript } from '../types';
+import { generateBotCSV, validateAndRefineIteratively, parseCSVStats, type GenerationResult, type GenerationOptions, type SequentialProgress, type FlowPlan, type IterativeRefinementResult, type PlannedArchitecture } from './generation';
 import { oneClickDeploy, generateBotId, createChannelWithWidget } from './botmanager';
 import { exportToGoogleSheets } from './composio';
 import { fetchScripts } from './action-scripts-api';
+import { BotDocument } from './bot-document';
+import { getClientPypestreamHosts } from './pypestream-hosts';
+import { CostLedger, formatCost } from './cost-ledger';
+import { BuildCheckpoints, buildFingerprint } from './build-checkpoints';
+import {
+  getPipelineFixtureMode,
+  getPipelineFixtureName,
+  loadPipelineFixture,
+  savePipelineFixture,
+  startPipelineRecording,
+  startPipelineReplay,
+} from './pipeline-fixtures';
 import { 
   STARTUP_SCRIPTS, 
   CRITICAL_STARTUP_SCRIPTS, 
@@ -28,36 +43,10 @@ import {
 /**
  * Extract failed row details from validation errors for debugging
  */
-function extractFailedRows(errors: any[], csv: string): FailedRow[] {
+export function extractFailedRows(errors: any[], csv: string): FailedRow[] {
   if (!errors || !Array.isArray(errors)) return [];
   
-  const lines = csv.split('\n');
-  const headers = lines[0]?.split(',').map(h => h.trim().replace(/^"|"$/g, '')) || [];
-  
-  // Parse CSV line handling quotes
-  const parseCSVLine = (line: string): string[] => {
-    const result: string[] = [];
-    let current = '';
-    let inQuotes = false;
-    for (let i = 0; i < line.length; i++) {
-      const char = line[i];
-      if (char === '"') {
-        if (inQuotes && line[i + 1] === '"') {
-          current += '"';
-          i++;
-        } else {
-          inQuotes = !inQuotes;
-        }
-      } else if (char === ',' && !inQuotes) {
-        result.push(current);
-        current = '';
-      } else {
-        current += char;
-      }
-    }
-    result.push(current);
-    return result;
-  };
+  const doc = BotDocument.parse(csv);
   
   const failedRows: FailedRow[] = [];
   const seenNodes = new Set<number>();
@@ -70,33 +59,14 @@ function extractFailedRows(errors: any[], csv: string): FailedRow[] {
     if (nodeNum !== undefined && seenNodes.has(nodeNum)) continue;
     if (nodeNum !== undefined) seenNodes.add(nodeNum);
     
-    // Find the raw row
-    let rawRow = '';
-    let fields: Record<string, string> = {};
-    
-    if (rowNum > 0 && rowNum < lines.length) {
-      rawRow = lines[rowNum];
-      const parsedFields = parseCSVLine(rawRow);
-      headers.forEach((header, idx) => {
-        if (parsedFields[idx] !== undefined) {
-          fields[header] = parsedFields[idx];
-        }
-      });
-    } else if (nodeNum !== undefined) {
+    // Find the raw row (Bot Manager row numbers count data records, header excluded)
+    let recordIndex = rowNum > 0 ? rowNum : 0;
+    if (!recordIndex && nodeNum !== undefined) {
       // Find by node number
-      for (let i = 1; i < lines.length; i++) {
-        const parsedFields = parseCSVLine(lines[i]);
-        if (parseInt(parsedFields[0], 10) === nodeNum) {
-          rawRow = lines[i];
-          headers.forEach((header, idx) => {
-            if (parsedFields[idx] !== undefined) {
-              fields[header] = parsedFields[idx];
-            }
-          });
-          break;
-        }
-      }
+      recordIndex = (doc.getNode(nodeNum)?.rowNum ?? 1) - 1;
     }
+    const rawRow = doc.getRecordText(recordIndex) || '';
+    const fields: Record<string, string> = doc.getLabeledRecord(recordIndex) || {};
     
     // Extract error messages
     const errorMessages: string[] = [];
@@ -127,6 +97,29 @@ function extractFailedRows(errors: any[], csv: string): FailedRow[] {
   return failedRows;
 }
 
+/**
+ * Plain-text summary of a stuck build for whoever picks it up: the error, each
+ * failed row with its Bot Manager errors, and the HumanFix JSON shape that
+ * submitHumanFix expects back
+ */
+function formatHumanInterventionContext(errorMessage: string, failedRows: FailedRow[]): string {
+  const rows = failedRows.map(row => [
+    `Node ${row.nodeNum}${row.nodeName ? ` (${row.nodeName})` : ''}`,
+    ...row.errors.map(err => `  - ${err}`),
+    row.rawRow ? `  Row: ${row.rawRow}` : '',
+  ].filter(Boolean).join('\n'));
+  
+  return [
+    `Build failed: ${errorMessage}`,
+    '',
+    `${failedRows.length} row(s) failed Bot Manager validation:`,
+    '',
+    rows.join('\n\n'),
+    '',
+    'Reply with JSON: { "fixes": [{ "node_num", "field", "current_value", "correct_value", "explanation" }], "general_guidance": "" }',
+  ].join('\n');
+}
+
 /**
  * Flow status in sequential generation
  */
@@ -137,6 +130,7 @@ export interface FlowProgressItem {
   startNode?: number;
   nodeCount?: number;  // Number of nodes generated for this flow
   error?: string;  // Error message when status is 'error'
+  attempt?: number;  // Current attempt while a failed flow is being retried
 }
 
 /**
@@ -162,6 +156,8 @@ export interface InstantBuildProgress {
   nodeCount?: number;
   // Sequential generation details for flowchart visualization
   sequentialProgress?: SequentialProgressState;
+  // Persisted state of every pipeline stage
+  stages?: BuildStageState[];
 }
 
 export type ProgressCallback = (update: InstantBuildProgress) => void;
@@ -191,31 +187,15 @@ const REQUIRED_STARTUP_SCRIPT_NAMES = CRITICAL_STARTUP_SCRIPTS.map(s => s.name);
  */
 function detectActionNodeScripts(csv: string): string[] {
   const scripts = new Set<string>();
-  const lines = csv.split('\n');
-  
-  if (lines.length < 2) return [];
+  const doc = BotDocument.parse(csv);
   
-  // Parse header to find column indices dynamically
-  const header = parseCSVLine(lines[0]);
-  const nodeTypeIdx = header.findIndex(h => h.toLowerCase().trim() === 'node type');
-  const commandIdx = header.findIndex(h => h.toLowerCase().trim() === 'command');
+  if (doc.nodes.length === 0) return [];
   
-  console.log('[InstantBuild] CSV columns - NodeType at:', nodeTypeIdx, ', Command at:', commandIdx);
-  console.log('[InstantBuild] Header preview:', header.slice(0, 15).join(' | '));
+  console.log('[InstantBuild] Header preview:', doc.header.slice(0, 15).join(' | '));
   
-  if (nodeTypeIdx === -1 || commandIdx === -1) {
-    console.warn('[InstantBuild] Could not find required columns in CSV header');
-    return [];
-  }
-  
-  // Process data rows
-  for (let i = 1; i < lines.length; i++) {
-    const line = lines[i].trim();
-    if (!line) continue;
-    
-    const values = parseCSVLine(line);
-    const nodeType = values[nodeTypeIdx]?.trim();
-    const command = values[commandIdx]?.trim();
+  for (const node of doc.nodes) {
+    const nodeType = node.type.trim();
+    const command = node.command.trim();
     
     // Only process action nodes (type 'A')
     if (nodeType === 'A' && command) {
@@ -239,36 +219,6 @@ function detectActionNodeScripts(csv: string): string[] {
   return Array.from(scripts);
 }
 
-/**
- * Simple CSV line parser that handles quoted fields
- */
-function parseCSVLine(line: string): string[] {
-  const result: string[] = [];
-  let current = '';
-  let inQuotes = false;
-  
-  for (let i = 0; i < line.length; i++) {
-    const char = line[i];
-    
-    if (char === '"') {
-      if (inQuotes && line[i + 1] === '"') {
-        current += '"';
-        i++;
-      } else {
-        inQuotes = !inQuotes;
-      }
-    } else if (char === ',' && !inQuotes) {
-      result.push(current.trim());
-      current = '';
-    } else {
-      current += char;
-    }
-  }
-  result.push(current.trim());
-  
-  return result;
-}
-
 /**
  * Fetch required action node scripts - BUNDLED FIRST, then Supabase fallback.
  * 
@@ -582,7 +532,7 @@ export async function runPostDeploymentHealthCheck(
   console.log('[HealthCheck] Starting post-deployment verification...');
   onProgress?.('Starting health check...');
   
-  const ENGAGEMENT_API = 'https://engagement-api-sandbox.pypestream.com';
+  const ENGAGEMENT_API = getClientPypestreamHosts().host('engagement-api-sandbox');
   
   try {
     // Step 1: Create anonymous session
@@ -722,6 +672,19 @@ export async function runPostDeploymentHealthCheck(
 
 /**
  * Run the complete instant build pipeline
+ *
+ * With a pipeline fixture mode set (see pipeline-fixtures.ts) the run is
+ * recorded to a bundle, or replayed from one with no network.
+ *
+ * With a solutionId, stage checkpoints are saved against that solution and a
+ * build with the same input resumes from them.
+ *
+ * A planned architecture (flows reviewed on the Architecture page) is generated
+ * as-is instead of planning new flows.
+ *
+ * accessToken is the user's Supabase token when the build runs on the server
+ * (vite/build-worker.ts), where there is no signed-in session. budgetUsd is the
+ * submitter's spend limit there, since the dashboard setting lives in localStorage.
  */
 export async function instantBuild(
   description: string,
@@ -731,15 +694,98 @@ export async function instantBuild(
   userId: string,
   onProgress?: ProgressCallback,
   cachedGeneration?: { result: GenerationResult; projectConfig: ProjectConfig },
-  aiCredentials?: { apiKey?: string; provider?: 'anthropic' | 'google' }
+  aiCredentials?: { apiKey?: string; provider?: 'anthropic' | 'google' },
+  solutionId?: string | null,
+  plannedArchitecture?: PlannedArchitecture,
+  accessToken?: string,
+  budgetUsd?: number | null
+): Promise<InstantBuildResult> {
+  const run = () => runInstantBuild(description, extractedDetails, brandAssets, token, userId, onProgress, cachedGeneration, aiCredentials, solutionId, plannedArchitecture, accessToken, budgetUsd);
+  const mode = getPipelineFixtureMode();
+  
+  if (mode === 'replay') {
+    const name = import.meta.env.VITE_PIPELINE_FIXTURE;
+    if (!name) throw new Error('Set VITE_PIPELINE_FIXTURE to the bundle to replay');
+    const fixture = await loadPipelineFixture(name);
+    const replay = startPipelineReplay(fixture);
+    try {
+      return await run();
+    } finally {
+      const report = replay.stop();
+      if (report.unmatched.length > 0) {
+        console.warn('[InstantBuild] Replay requests with no recorded response:', report.unmatched);
+      }
+    }
+  }
+  
+  if (mode === 'record') {
+    const recording = startPipelineRecording(
+      getPipelineFixtureName(extractedDetails.projectName),
+      { description, details: extractedDetails }
+    );
+    let result: InstantBuildResult | undefined;
+    let error: string | undefined;
+    try {
+      result = await run();
+      return result;
+    } catch (e: any) {
+      error = e.message || String(e);
+      throw e;
+    } finally {
+      const fixture = recording.stop({
+        success: !!result?.success,
+        error: result?.error || error,
+        botId: result?.botId,
+        nodeCount: result?.nodeCount,
+      });
+      await savePipelineFixture(fixture).catch(e => console.error('[InstantBuild] Could not save pipeline fixture:', e));
+    }
+  }
+  
+  return run();
+}
+
+async function runInstantBuild(
+  description: string,
+  extractedDetails: ExtractedDetails,
+  brandAssets: BrandAssets | null,
+  token: string,
+  userId: string,
+  reportProgress?: ProgressCallback,
+  cachedGeneration?: { result: GenerationResult; projectConfig: ProjectConfig },
+  aiCredentials?: { apiKey?: string; provider?: 'anthropic' | 'google' },
+  solutionId?: string | null,
+  plannedArchitecture?: PlannedArchitecture,
+  accessToken?: string,
+  budgetUsd?: number | null
 ): Promise<InstantBuildResult> {
   // Hoist these so they're accessible in catch for pipeline resume
   let generationResult: GenerationResult | undefined;
   let projectConfig: ProjectConfig | undefined;
   
+  // Stage checkpoints - the architecture's planned flows are part of the input
+  const checkpoints = await BuildCheckpoints.load(solutionId, buildFingerprint({
+    description,
+    extractedDetails,
+    brandAssets,
+    plannedFlows: plannedArchitecture?.flows,
+  }), accessToken);
+  let currentStage: BuildStage | null = null;
+  const beginStage = async (stage: BuildStage) => {
+    currentStage = stage;
+    await checkpoints.start(stage);
+  };
+  
+  // Every update carries the persisted stage state
+  const onProgress: ProgressCallback | undefined = reportProgress && (update => reportProgress({ ...update, stages: checkpoints.stageStates() }));
+  
   // Pipeline timing
   const pipelineStart = performance.now();
   const timings: Record<string, number> = {};
+  
+  // AI token usage and cost for this build (budget enforced during refinement).
+  // Jobs pass the submitter's budget; direct callers fall back to the stored one
+  const costLedger = new CostLedger(budgetUsd);
   const timeStep = (name: string, start: number) => {
     const elapsed = Math.round(performance.now() - start);
     timings[name] = elapsed;
@@ -758,10 +804,13 @@ export async function instantBuild(
       stepStartedAt: preflightStart
     });
     
+    await beginStage('preflight');
     const preflight = runPreflightChecks(token);
     if (!preflight.ready) {
       throw new Error(`Pre-flight checks failed: ${preflight.issues.join('; ')}`);
     }
+    await checkpoints.complete('preflight', { issues: preflight.issues });
+    currentStage = null;
     
     // Generate bot ID
     const botId = generateBotId(extractedDetails.clientName, extractedDetails.projectName);
@@ -780,45 +829,56 @@ export async function instantBuild(
     let flowsState: FlowProgressItem[] = [];
     let currentPhase: SequentialProgressState['phase'] = 'planning';
     
-    if (cachedGeneration?.result) {
+    // A cached generation with a different CSV (e.g. a human fix) invalidates everything after assembly
+    const savedGeneration = checkpoints.output<GenerationResult>('assembly');
+    if (cachedGeneration?.result && cachedGeneration.result.csv !== savedGeneration?.csv) {
+      await checkpoints.reset(['assembly', 'pre-validation', 'validation', 'refinement', 'scripts', 'deploy', 'channel', 'health-check']);
+      await checkpoints.complete('assembly', cachedGeneration.result);
+    }
+    const resumedGeneration = cachedGeneration?.result || savedGeneration;
+    const savedPlan = checkpoints.output<{ flows: FlowPlan[] }>('plan');
+    
+    if (resumedGeneration) {
       // Resume from cached generation — skip the expensive AI generation step
       console.log('[InstantBuild] Resuming with cached generation result (skipping CSV generation)');
-      generationResult = cachedGeneration.result;
+      generationResult = resumedGeneration;
+      
+      if (savedPlan) {
+        flowsState = savedPlan.flows.map(flow => ({
+          name: flow.name,
+          status: 'done' as const,
+          nodeCount: checkpoints.output<{ rows: string[] }>('flow', flow.name)?.rows.length,
+        }));
+      }
       
-      // Reconstruct flowsState from the cached generation for visualization
-      // Parse the CSV to extract flow names from node names (flows start at node 300+)
-      const csvLines = generationResult.csv.split('\n');
-      const flowNames = new Set<string>();
-      for (const line of csvLines.slice(1)) { // Skip header
-        const nodeNumMatch = line.match(/^"?(\d+)"?,/);
-        if (nodeNumMatch) {
-          const nodeNum = parseInt(nodeNumMatch[1], 10);
-          if (nodeNum >= 300 && nodeNum < 99990) {
+      if (flowsState.length === 0) {
+        // Reconstruct flowsState from the cached generation for visualization
+        // Parse the CSV to extract flow names from node names (flows start at node 300+)
+        const flowNames = new Set<string>();
+        for (const node of BotDocument.parse(generationResult.csv).nodes) {
+          if (node.nodeNum >= 300 && node.nodeNum < 99990) {
             // Extract flow name from node name (format: "FlowName → Step")
-            const nameMatch = line.match(/^"?\d+"?,"?[AD]"?,"?([^"→]+)/);
-            if (nameMatch && nameMatch[1]) {
-              const flowPart = nameMatch[1].trim().split(' ')[0];
-              if (flowPart && flowPart.length > 2 && !['Main', 'Menu', 'Error', 'End'].includes(flowPart)) {
-                flowNames.add(flowPart);
-              }
+            const flowPart = node.name.split('→')[0].trim().split(' ')[0];
+            if (flowPart && flowPart.length > 2 && !['Main', 'Menu', 'Error', 'End'].includes(flowPart)) {
+              flowNames.add(flowPart);
             }
           }
         }
+        
+        // Create flow items from detected flows
+        flowsState = Array.from(flowNames).slice(0, 6).map(name => ({
+          name: name.replace(/([A-Z])/g, ' $1').trim(), // CamelCase to spaces
+          status: 'done' as const
+        }));
+        
+        // If no flows detected, add a generic one
+        if (flowsState.length === 0) {
+          flowsState = [{ name: 'Conversation Flow', status: 'done' }];
+        }
+        
+        console.log('[InstantBuild] Reconstructed flows for visualization:', flowsState.map(f => f.name));
       }
       
-      // Create flow items from detected flows
-      flowsState = Array.from(flowNames).slice(0, 6).map(name => ({
-        name: name.replace(/([A-Z])/g, ' $1').trim(), // CamelCase to spaces
-        status: 'done' as const
-      }));
-      
-      // If no flows detected, add a generic one
-      if (flowsState.length === 0) {
-        flowsState = [{ name: 'Conversation Flow', status: 'done' }];
-      }
-      
-      console.log('[InstantBuild] Reconstructed flows for visualization:', flowsState.map(f => f.name));
-      
       onProgress?.({
         step: 'validating',
         message: 'Resuming from cached generation...',
@@ -858,9 +918,9 @@ export async function instantBuild(
           
           // Update flows state based on progress
           if (seqProgress.step === 'planning' && seqProgress.status === 'done' && seqProgress.totalFlows) {
-            // Initialize flows as pending after planning completes
-            // Flows will be populated when each flow starts
-            flowsState = [];
+            // Initialize flows as pending after planning completes; several
+            // start at once, so each keeps its own slot in plan order
+            flowsState = (seqProgress.flowNames || []).map(name => ({ name, status: 'pending' as const }));
           }
           
           if (seqProgress.step === 'flow') {
@@ -869,18 +929,17 @@ export async function instantBuild(
             
             if (seqProgress.status === 'started') {
               // Add or update flow as active
-              if (flowIndex >= flowsState.length) {
-                flowsState.push({
-                  name: flowName,
-                  status: 'active'
-                });
-              } else {
-                flowsState[flowIndex] = { ...flowsState[flowIndex], name: flowName, status: 'active' };
-              }
+              flowsState[flowIndex] = {
+                ...flowsState[flowIndex],
+                name: flowName,
+                status: 'active',
+                attempt: seqProgress.attempt && seqProgress.attempt > 1 ? seqProgress.attempt : undefined
+              };
             } else if (seqProgress.status === 'done') {
               // Mark flow as done with node count
               if (flowsState[flowIndex]) {
                 flowsState[flowIndex].status = 'done';
+                flowsState[flowIndex].attempt = undefined;
                 // Capture the node count from the rows property
                 if (seqProgress.rows) {
                   flowsState[flowIndex].nodeCount = seqProgress.rows;
@@ -913,13 +972,16 @@ export async function instantBuild(
                 : 'Generating system nodes...';
               break;
             case 'flow':
-              const flowNum = seqProgress.currentFlow || 1;
-              const totalFlows = seqProgress.totalFlows || 1;
+              // Flows finish out of order, so progress counts finished flows
+              const finishedFlows = flowsState.filter(f => f.status === 'done' || f.status === 'error').length;
+              const totalFlows = seqProgress.totalFlows || flowsState.length || 1;
               // Flows take from 18% to 32% (14% total, divided by number of flows)
-              progress = 18 + Math.round((flowNum / totalFlows) * 14);
+              progress = 18 + Math.round((finishedFlows / totalFlows) * 14);
               message = seqProgress.status === 'done'
                 ? `Generated ${seqProgress.flowName}`
-                : `Generating ${seqProgress.flowName}...`;
+                : seqProgress.attempt && seqProgress.attempt > 1
+                  ? `Retrying ${seqProgress.flowName} (attempt ${seqProgress.attempt})...`
+                  : `Generating ${seqProgress.flowName}...`;
               break;
             case 'assembly':
               progress = seqProgress.status === 'done' ? 35 : 33;
@@ -949,9 +1011,13 @@ export async function instantBuild(
               totalFlows: seqProgress.totalFlows
             }
           });
-        }
+        },
+        costLedger,
+        checkpoints,
+        plannedArchitecture
       });
       timeStep('1_csv_generation', genStart);
+      await checkpoints.complete('assembly', generationResult);
     }
     
     if (!generationResult || !generationResult.csv) {
@@ -979,25 +1045,36 @@ export async function instantBuild(
       sequentialProgress: finalFlowchartState
     });
     
-    const validationResult = await validateAndRefineIteratively(
-      generationResult.csv,
-      botId,
-      token,
-      projectConfig,
-      (update) => {
-        onProgress?.({
-          step: 'validating',
-          message: `Validation: ${update.message}`,
-          progress: 40 + (update.iteration * 5),
-          details: update.errors?.slice(0, 2).join(', '),
-          nodeCount: generationResult?.nodeCount || 0,
-          pipelineStartedAt: pipelineStart,
-          stepStartedAt: valStart,
-          sequentialProgress: finalFlowchartState
-        });
-      },
-      5 // max iterations
-    );
+    // Completed refinement is reused; an interrupted one restarts from its last pass's CSV
+    let validationResult = checkpoints.output<IterativeRefinementResult>('refinement');
+    if (validationResult) {
+      console.log('[InstantBuild] Resuming after validation (refinement checkpoint)');
+    } else {
+      currentStage = 'refinement';
+      validationResult = await validateAndRefineIteratively(
+        checkpoints.partialOutput<{ csv: string }>('refinement')?.csv || generationResult.csv,
+        botId,
+        token,
+        projectConfig,
+        (update) => {
+          onProgress?.({
+            step: 'validating',
+            message: `Validation: ${update.message}`,
+            progress: 40 + (update.iteration * 5),
+            details: update.errors?.slice(0, 2).join(', '),
+            nodeCount: generationResult?.nodeCount || 0,
+            pipelineStartedAt: pipelineStart,
+            stepStartedAt: valStart,
+            sequentialProgress: finalFlowchartState
+          });
+        },
+        5, // max iterations
+        costLedger,
+        checkpoints
+      );
+      await checkpoints.complete('refinement', validationResult);
+      currentStage = null;
+    }
     timeStep('2_validation_refinement', valStart);
     
     if (!validationResult.valid && validationResult.remainingErrors.length > 0) {
@@ -1010,111 +1087,136 @@ export async function instantBuild(
     const stats = parseCSVStats(finalCSV);
     
     // Step 5: Detect and fetch required action node scripts
-    const scriptDetectStart = performance.now();
-    onProgress?.({
-      step: 'deploying',
-      message: 'Preparing deployment...',
-      progress: 55,
-      details: 'Detecting required scripts',
-      pipelineStartedAt: pipelineStart,
-      stepStartedAt: scriptDetectStart,
-      sequentialProgress: finalFlowchartState
-    });
-    const detectedScriptNames = detectActionNodeScripts(finalCSV);
-    console.log('[InstantBuild] Detected action node scripts:', detectedScriptNames);
-    
-    // Fetch scripts from Supabase
-    const fetchedScripts = await fetchRequiredScripts(detectedScriptNames, onProgress);
-    timeStep('4_script_detection_fetch', scriptDetectStart);
-    
-    // Combine with any custom scripts from generation
-    const allScripts = [
-      ...fetchedScripts,
-      ...(generationResult.customScripts || [])
-    ];
+    let allScripts = checkpoints.output<{ scripts: CustomScript[] }>('scripts')?.scripts;
+    if (!allScripts) {
+      await beginStage('scripts');
+      const scriptDetectStart = performance.now();
+      onProgress?.({
+        step: 'deploying',
+        message: 'Preparing deployment...',
+        progress: 55,
+        details: 'Detecting required scripts',
+        pipelineStartedAt: pipelineStart,
+        stepStartedAt: scriptDetectStart,
+        sequentialProgress: finalFlowchartState
+      });
+      const detectedScriptNames = detectActionNodeScripts(finalCSV);
+      console.log('[InstantBuild] Detected action node scripts:', detectedScriptNames);
+      
+      // Fetch scripts from Supabase
+      const fetchedScripts = await fetchRequiredScripts(detectedScriptNames, onProgress);
+      timeStep('4_script_detection_fetch', scriptDetectStart);
+      
+      // Combine with any custom scripts from generation
+      allScripts = [
+        ...fetchedScripts,
+        ...(generationResult.customScripts || [])
+      ];
+      await checkpoints.complete('scripts', { scripts: allScripts });
+    }
     
     // Step 6: Deploy to sandbox
-    const deployStart = performance.now();
-    onProgress?.({
-      step: 'deploying',
-      message: 'Deploying to sandbox...',
-      progress: 60,
-      details: `${botId} (${allScripts.length} scripts)`,
-      pipelineStartedAt: pipelineStart,
-      stepStartedAt: deployStart,
-      sequentialProgress: finalFlowchartState
-    });
-    const deployResult = await oneClickDeploy(
-      finalCSV,
-      botId,
-      'sandbox',
-      token,
-      allScripts
-    );
-    timeStep('5_deploy', deployStart);
-    
-    // Check both success and deployed flags - server returns success:true even for failed deploys
-    // The 'deployed' field correctly reflects actual deployment status
-    if (!deployResult.success || (deployResult.deployed === false)) {
-      if (deployResult.authError) {
-        throw new Error('API token is invalid or expired. Please update your Pypestream API key.');
+    let deployment = checkpoints.output<{ versionId?: string; previewUrl?: string }>('deploy');
+    if (!deployment) {
+      await beginStage('deploy');
+      const deployStart = performance.now();
+      onProgress?.({
+        step: 'deploying',
+        message: 'Deploying to sandbox...',
+        progress: 60,
+        details: `${botId} (${allScripts.length} scripts)`,
+        pipelineStartedAt: pipelineStart,
+        stepStartedAt: deployStart,
+        sequentialProgress: finalFlowchartState
+      });
+      const deployResult = await oneClickDeploy(
+        finalCSV,
+        botId,
+        'sandbox',
+        token,
+        allScripts
+      );
+      timeStep('5_deploy', deployStart);
+      
+      // Check both success and deployed flags - server returns success:true even for failed deploys
+      // The 'deployed' field correctly reflects actual deployment status
+      if (!deployResult.success || (deployResult.deployed === false)) {
+        if (deployResult.authError) {
+          throw new Error('API token is invalid or expired. Please update your Pypestream API key.');
+        }
+        // Bot Manager rejected the refined CSV - a retry refines again from it
+        await checkpoints.fail('refinement', 'Deploy rejected the refined CSV');
+        // Extract failed rows for debugging
+        const failedRows = extractFailedRows(deployResult.errors || [], finalCSV);
+        const errorMsg = deployResult.deployResult?.error?.messages?.[0] 
+          || deployResult.deployResult?.error?.errors
+          || deployResult.message 
+          || 'Deployment failed';
+        const error = new Error(errorMsg);
+        (error as any).failedRows = failedRows;
+        (error as any).validationErrors = deployResult.errors || [];
+        (error as any).csv = finalCSV;
+        throw error;
       }
-      // Extract failed rows for debugging
-      const failedRows = extractFailedRows(deployResult.errors || [], finalCSV);
-      const errorMsg = deployResult.deployResult?.error?.messages?.[0] 
-        || deployResult.deployResult?.error?.errors
-        || deployResult.message 
-        || 'Deployment failed';
-      const error = new Error(errorMsg);
-      (error as any).failedRows = failedRows;
-      (error as any).csv = finalCSV;
-      throw error;
+      
+      deployment = { versionId: deployResult.versionId, previewUrl: deployResult.previewUrl };
+      await checkpoints.complete('deploy', deployment);
     }
     
     // Step 7: Create channel/widget for testing
-    const widgetStart = performance.now();
-    onProgress?.({
-      step: 'deploying',
-      message: 'Creating test widget...',
-      progress: 70,
-      details: 'Setting up channel and widget',
-      pipelineStartedAt: pipelineStart,
-      stepStartedAt: widgetStart,
-      sequentialProgress: finalFlowchartState
-    });
-    
-    let widgetUrl = deployResult.previewUrl;
+    let widgetUrl = deployment.previewUrl;
     let widgetId: string | undefined;
-    
-    try {
-      const widgetResult = await createChannelWithWidget(
-        botId,
-        'sandbox',
-        token,
-        {
-          widgetName: `${extractedDetails.projectName} Widget`,
-          // Pass full brand assets (colors, logos, fonts, images) for comprehensive CSS generation
-          brandAssets: brandAssets || undefined,
-          targetCompany: extractedDetails.targetCompany,
-        }
-      );
+    const savedChannel = checkpoints.output<{ widgetUrl?: string; widgetId?: string }>('channel');
+    if (savedChannel) {
+      widgetUrl = savedChannel.widgetUrl || widgetUrl;
+      widgetId = savedChannel.widgetId;
+    } else {
+      await beginStage('channel');
+      const widgetStart = performance.now();
+      onProgress?.({
+        step: 'deploying',
+        message: 'Creating test widget...',
+        progress: 70,
+        details: 'Setting up channel and widget',
+        pipelineStartedAt: pipelineStart,
+        stepStartedAt: widgetStart,
+        sequentialProgress: finalFlowchartState
+      });
       
-      if (widgetResult.success && widgetResult.widgetUrl) {
-        widgetUrl = widgetResult.widgetUrl;
-        widgetId = widgetResult.widgetId;
-        console.log(`[InstantBuild] Widget created: ${widgetUrl}`);
-      } else {
-        console.warn('[InstantBuild] Widget creation returned:', widgetResult.error);
+      try {
+        const widgetResult = await createChannelWithWidget(
+          botId,
+          'sandbox',
+          token,
+          {
+            widgetName: `${extractedDetails.projectName} Widget`,
+            // Pass full brand assets (colors, logos, fonts, images) for comprehensive CSS generation
+            brandAssets: brandAssets || undefined,
+            targetCompany: extractedDetails.targetCompany,
+          }
+        );
+        
+        if (widgetResult.success && widgetResult.widgetUrl) {
+          widgetUrl = widgetResult.widgetUrl;
+          widgetId = widgetResult.widgetId;
+          console.log(`[InstantBuild] Widget created: ${widgetUrl}`);
+        } else {
+          console.warn('[InstantBuild] Widget creation returned:', widgetResult.error);
+        }
+      } catch (widgetError) {
+        console.warn('[InstantBuild] Widget creation failed (non-blocking):', widgetError);
+        // Continue with fallback preview URL
       }
-    } catch (widgetError) {
-      console.warn('[InstantBuild] Widget creation failed (non-blocking):', widgetError);
-      // Continue with fallback preview URL
+      timeStep('6_widget_creation', widgetStart);
+      await checkpoints.complete('channel', { widgetUrl, widgetId });
     }
-    timeStep('6_widget_creation', widgetStart);
     
     // Step 7b: Post-deployment health check (non-blocking but logged)
     let healthCheckResult: HealthCheckResult | undefined;
-    if (widgetId) {
+    if (checkpoints.isDone('health-check')) {
+      healthCheckResult = checkpoints.output<{ result?: HealthCheckResult }>('health-check')?.result;
+    } else if (widgetId) {
+      await beginStage('health-check');
       const healthStart = performance.now();
       onProgress?.({
         step: 'deploying',
@@ -1161,9 +1263,12 @@ export async function instantBuild(
         console.warn('[InstantBuild] Health check failed (non-blocking):', healthError);
       }
       timeStep('5b_health_check', healthStart);
+      await checkpoints.complete('health-check', { result: healthCheckResult });
     } else {
       console.warn('[InstantBuild] Skipping health check - no widget ID');
+      await checkpoints.complete('health-check', { skipped: true });
     }
+    currentStage = null;
     
     // Step 8: Export to Google Sheets
     const sheetsStart = performance.now();
@@ -1203,6 +1308,10 @@ export async function instantBuild(
       Duration: `${(ms / 1000).toFixed(2)}s`,
       '% of Total': `${((ms / totalMs) * 100).toFixed(1)}%`
     })));
+    const costs = costLedger.summary();
+    // The build is complete - nothing left to resume
+    await checkpoints.clear();
+    console.log(`[💸 Cost Summary] ${formatCost(costs.costUsd)} - ${costs.inputTokens} in / ${costs.outputTokens} out tokens across ${costs.calls} AI call(s)`);
     
     onProgress?.({
       step: 'done',
@@ -1221,17 +1330,25 @@ export async function instantBuild(
       spreadsheetId: sheetsResult.spreadsheetId,
       nodeCount: stats.totalNodes,
       botId,
-      versionId: deployResult.versionId,
+      versionId: deployment.versionId,
       csv: finalCSV,
       // Include all scripts (fetched + AI-generated custom) for editing in EditorPage
       scripts: allScripts,
       // Health check result - warnings about bot status
       healthCheck: healthCheckResult,
+      costs,
+      costEntries: costLedger.entries,
     };
     
   } catch (error: any) {
     console.error('[InstantBuild] Pipeline error:', error);
     
+    // The stage that threw re-runs on resume (generation stages mark their own flows)
+    const failedStage = currentStage as BuildStage | null;
+    if (failedStage) {
+      await checkpoints.fail(failedStage, error.message || 'Build failed');
+    }
+    
     onProgress?.({
       step: 'error',
       message: error.message || 'Build failed',
@@ -1247,19 +1364,12 @@ export async function instantBuild(
     
     // Extract failed rows from the error object
     const failedRows: FailedRow[] = error.failedRows || [];
+    // Rows that survived every automatic fix need a person (see fix-queue.ts)
+    const needsHumanIntervention = failedRows.length > 0;
     const errorCsv = error.csv || (typeof generationResult !== 'undefined' ? generationResult.csv : '');
     
     // Calculate actual node count from CSV even on error
-    let actualNodeCount = 0;
-    if (errorCsv) {
-      try {
-        const stats = parseCSVStats(errorCsv);
-        actualNodeCount = stats.totalNodes;
-      } catch (e) {
-        // Fallback: count rows
-        actualNodeCount = errorCsv.split('\n').filter((line: string) => line.trim()).length - 1; // -1 for header
-      }
-    }
+    const actualNodeCount = errorCsv ? parseCSVStats(errorCsv).totalNodes : 0;
     
     return {
       success: false,
@@ -1269,6 +1379,13 @@ export async function instantBuild(
       _cachedGeneration: cachedGen,
       csv: errorCsv,
       failedRows: failedRows.length > 0 ? failedRows : undefined,
+      validationErrors: needsHumanIntervention ? error.validationErrors : undefined,
+      needsHumanIntervention,
+      humanInterventionContext: needsHumanIntervention
+        ? formatHumanInterventionContext(error.message || 'Build failed', failedRows)
+        : undefined,
+      costs: costLedger.summary(),
+      costEntries: costLedger.entries,
     };
   }
 }
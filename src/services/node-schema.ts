@@ -0,0 +1,331 @@
+/**
+ * Bot Node Schema
+ *
+ * Typed node schema for structured (JSON-per-node) generation, plus the
+ * single deterministic serializer from nodes to the 26-column CSV.
+ *
+ * The AI never writes CSV text directly: /api/generate-flow returns nodes
+ * matching this schema, every node is validated, and rows are produced here.
+ * Column shifts and unescaped commas cannot occur because fields are placed
+ * by name and escaped in one place.
+ *
+ * Dependency-free so it can be imported by vite.config.ts middleware as well.
+ */
+
+/**
+ * The 26 CSV columns in order, keyed by node field name
+ */
+export const BOT_NODE_FIELDS = [
+  { key: 'num', header: 'Node Number' },
+  { key: 'type', header: 'Node Type' },
+  { key: 'name', header: 'Node Name' },
+  { key: 'intent', header: 'Intent' },
+  { key: 'entityType', header: 'Entity Type' },
+  { key: 'entity', header: 'Entity' },
+  { key: 'nluDisabled', header: 'NLU Disabled?' },
+  { key: 'nextNodes', header: 'Next Nodes' },
+  { key: 'message', header: 'Message' },
+  { key: 'richType', header: 'Rich Asset Type' },
+  { key: 'richContent', header: 'Rich Asset Content' },
+  { key: 'ansReq', header: 'Answer Required?' },
+  { key: 'behaviors', header: 'Behaviors' },
+  { key: 'command', header: 'Command' },
+  { key: 'description', header: 'Description' },
+  { key: 'output', header: 'Output' },
+  { key: 'nodeInput', header: 'Node Input' },
+  { key: 'paramInput', header: 'Parameter Input' },
+  { key: 'decVar', header: 'Decision Variable' },
+  { key: 'whatNext', header: 'What Next?' },
+  { key: 'nodeTags', header: 'Node Tags' },
+  { key: 'skillTag', header: 'Skill Tag' },
+  { key: 'variable', header: 'Variable' },
+  { key: 'platformFlag', header: 'Platform Flag' },
+  { key: 'flows', header: 'Flows' },
+  { key: 'cssClass', header: 'CSS Classname' },
+] as const;
+
+export type BotNodeField = typeof BOT_NODE_FIELDS[number]['key'];
+
+export const CSV_HEADER = BOT_NODE_FIELDS.map(f => f.header).join(',');
+
+/**
+ * A fully-typed bot node (one CSV row). Same field names as NodeTemplate,
+ * with the remaining CSV columns filled in.
+ */
+export interface GeneratedNode {
+  num: number;
+  type: 'D' | 'A';
+  name: string;
+  intent?: string;
+  entityType?: string;
+  entity?: string;
+  nluDisabled?: string;
+  nextNodes?: string;
+  message?: string;
+  richType?: string;
+  richContent?: string;
+  ansReq?: string;
+  behaviors?: string;
+  command?: string;
+  description?: string;
+  output?: string;
+  nodeInput?: string;
+  paramInput?: string;
+  decVar?: string;
+  whatNext?: string;
+  nodeTags?: string;
+  skillTag?: string;
+  variable?: string;
+  platformFlag?: string;
+  flows?: string;
+  cssClass?: string;
+}
+
+// Alternate names the AI (or older code) uses for the same field
+const FIELD_ALIASES: Record<string, BotNodeField> = {
+  nodeNum: 'num',
+  nodeNumber: 'num',
+  nodeType: 'type',
+  nodeName: 'name',
+  richAssetType: 'richType',
+  richAssetContent: 'richContent',
+  answerRequired: 'ansReq',
+  parameterInput: 'paramInput',
+  decisionVariable: 'decVar',
+  cssClassname: 'cssClass',
+};
+
+// Fields that may be returned as JSON objects and are stored as JSON strings
+const JSON_FIELDS = new Set<BotNodeField>(['richContent', 'paramInput']);
+
+// Columns owned by one node type - cleared on the other type
+const ACTION_ONLY_FIELDS: BotNodeField[] = ['command', 'description', 'output', 'paramInput', 'decVar', 'whatNext'];
+const DECISION_ONLY_FIELDS: BotNodeField[] = ['message', 'richType', 'richContent', 'ansReq', 'behaviors'];
+
+// Rich asset types whose content must be present for routing to work
+const RICH_TYPES_REQUIRING_CONTENT = new Set(['button', 'buttons', 'quick_reply', 'listpicker', 'carousel']);
+
+/**
+ * JSON Schema for a single node - used as the structured output contract
+ */
+const STRING_OR_OBJECT = { anyOf: [{ type: 'string' }, { type: 'object' }] };
+
+export const BOT_NODE_JSON_SCHEMA = {
+  type: 'object',
+  properties: {
+    num: { type: 'integer', description: 'Node Number' },
+    type: { type: 'string', enum: ['D', 'A'], description: 'D = Decision, A = Action' },
+    name: { type: 'string', description: 'Short node name, e.g. "Claims → Start"' },
+    intent: { type: 'string' },
+    nluDisabled: { type: 'string', enum: ['', '0', '1'] },
+    nextNodes: { type: 'string', description: 'Single node number or empty' },
+    message: { type: 'string', description: 'Text shown to the user (Decision nodes only)' },
+    richType: { type: 'string', description: 'quick_reply, buttons, listpicker, datepicker, timepicker, webview, file_upload, carousel' },
+    richContent: { ...STRING_OR_OBJECT, description: 'Rich asset JSON, e.g. {"type":"static","options":[{"label":"X","dest":310}]}' },
+    ansReq: { type: 'string', enum: ['', '0', '1'] },
+    behaviors: { type: 'string' },
+    command: { type: 'string', description: 'Action script name (Action nodes only)' },
+    description: { type: 'string' },
+    output: { type: 'string' },
+    nodeInput: { type: 'string' },
+    paramInput: { ...STRING_OR_OBJECT, description: 'Parameter Input JSON for the action script' },
+    decVar: { type: 'string', description: 'Decision Variable, e.g. "success"' },
+    whatNext: { type: 'string', description: 'value~node|value~node, e.g. "true~310|error~99990"' },
+    variable: { type: 'string', description: 'ALL_CAPS variable name' },
+    flows: { type: 'string' },
+  },
+  required: ['num', 'type', 'name'],
+} as const;
+
+/**
+ * Anthropic tool definition that forces flow generation to return typed nodes
+ */
+export const FLOW_NODES_TOOL = {
+  name: 'emit_flow_nodes',
+  description: 'Return the nodes of one conversation flow as structured data.',
+  input_schema: {
+    type: 'object',
+    properties: {
+      nodes: { type: 'array', items: BOT_NODE_JSON_SCHEMA },
+    },
+    required: ['nodes'],
+  },
+} as const;
+
+export interface NodeValidationResult {
+  nodes: GeneratedNode[];
+  errors: string[];
+}
+
+/**
+ * Validate and normalize a single raw node against the schema.
+ * Returns the typed node (all values as strings) or the list of schema errors.
+ */
+export function validateGeneratedNode(raw: unknown, index: number = 0): { node?: GeneratedNode; errors: string[] } {
+  const errors: string[] = [];
+  const label = `Node #${index + 1}`;
+
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return { errors: [`${label}: expected an object`] };
+  }
+
+  // Resolve aliases to canonical field names
+  const input: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(raw as Record<string, unknown>)) {
+    const canonical = FIELD_ALIASES[key] || key;
+    if (input[canonical] === undefined || input[canonical] === '') {
+      input[canonical] = value;
+    }
+  }
+
+  const num = typeof input.num === 'number' ? input.num : parseInt(String(input.num ?? ''), 10);
+  if (!Number.isInteger(num) || String(input.num).trim() !== String(num)) {
+    errors.push(`${label}: "num" must be an integer (got ${JSON.stringify(input.num)})`);
+  }
+
+  const nodeLabel = Number.isInteger(num) ? `Node ${num}` : label;
+  const type = String(input.type ?? '').trim().toUpperCase();
+  if (type !== 'D' && type !== 'A') {
+    errors.push(`${nodeLabel}: "type" must be "D" or "A" (got ${JSON.stringify(input.type)})`);
+  }
+
+  const node: GeneratedNode = { num, type: type as 'D' | 'A', name: '' };
+
+  for (const { key } of BOT_NODE_FIELDS) {
+    if (key === 'num' || key === 'type') continue;
+    const value = input[key];
+    if (value === undefined || value === null) continue;
+
+    if (typeof value === 'object') {
+      if (JSON_FIELDS.has(key)) {
+        node[key] = JSON.stringify(value);
+      } else {
+        errors.push(`${nodeLabel}: "${key}" must be a string`);
+      }
+      continue;
+    }
+
+    node[key] = String(value);
+  }
+
+  if (!node.name?.trim()) {
+    errors.push(`${nodeLabel}: "name" is required`);
+  }
+
+  // Flag columns are "", "0" or "1"
+  for (const key of ['nluDisabled', 'ansReq'] as const) {
+    const value = node[key]?.trim().toLowerCase();
+    if (value === 'true') node[key] = '1';
+    else if (value === 'false') node[key] = '0';
+    else if (value && value !== '0' && value !== '1') {
+      errors.push(`${nodeLabel}: "${key}" must be "", "0" or "1" (got "${node[key]}")`);
+    }
+  }
+
+  if (node.variable && /[a-z]/.test(node.variable)) {
+    node.variable = node.variable.trim().toUpperCase().replace(/[\s-]+/g, '_');
+  }
+
+  // JSON-valued fields must be valid JSON when they look like JSON
+  for (const key of JSON_FIELDS) {
+    const value = String(node[key] ?? '').trim();
+    if (value && (value.startsWith('{') || value.startsWith('['))) {
+      try {
+        JSON.parse(value);
+      } catch {
+        errors.push(`${nodeLabel}: "${key}" is not valid JSON`);
+      }
+    }
+  }
+
+  const richType = node.richType?.trim().toLowerCase();
+  if (richType && RICH_TYPES_REQUIRING_CONTENT.has(richType) && !node.richContent?.trim()) {
+    errors.push(`${nodeLabel}: richType "${richType}" requires richContent`);
+  }
+
+  if (node.nextNodes?.trim() && !/^-?\d+(\s*[,|]\s*-?\d+)*$/.test(node.nextNodes.trim())) {
+    errors.push(`${nodeLabel}: "nextNodes" must be node numbers (got "${node.nextNodes}")`);
+  }
+
+  if (node.whatNext?.trim() && !/^[^~|]+~-?\d+(\|[^~|]+~-?\d+)*$/.test(node.whatNext.trim())) {
+    errors.push(`${nodeLabel}: "whatNext" must use value~node|value~node format (got "${node.whatNext}")`);
+  }
+
+  return errors.length > 0 ? { errors } : { node, errors };
+}
+
+/**
+ * Validate a list of raw nodes. Duplicate node numbers are schema errors too.
+ */
+export function validateGeneratedNodes(rawNodes: unknown[]): NodeValidationResult {
+  const nodes: GeneratedNode[] = [];
+  const errors: string[] = [];
+  const seen = new Set<number>();
+
+  rawNodes.forEach((raw, idx) => {
+    const result = validateGeneratedNode(raw, idx);
+    errors.push(...result.errors);
+    if (!result.node) return;
+
+    if (seen.has(result.node.num)) {
+      errors.push(`Node ${result.node.num}: duplicate node number`);
+      return;
+    }
+    seen.add(result.node.num);
+    nodes.push(result.node);
+  });
+
+  return { nodes, errors };
+}
+
+/**
+ * Clear the columns that belong to the other node type
+ * (Decision nodes carry no script columns, Action nodes no message/rich asset columns)
+ */
+export function clearForeignFields<T extends Partial<Record<BotNodeField, unknown>>>(node: T): T {
+  const type = String(node.type ?? '').toUpperCase();
+  const foreignFields = type === 'D' ? ACTION_ONLY_FIELDS : type === 'A' ? DECISION_ONLY_FIELDS : [];
+  const cleared = { ...node };
+  for (const key of foreignFields) {
+    if (key in cleared) (cleared as Record<string, unknown>)[key] = '';
+  }
+  return cleared;
+}
+
+/**
+ * Escape a single CSV field (quote when it contains a comma, quote or newline)
+ */
+export function escapeCSVField(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  const str = String(value);
+  if (str.includes(',') || str.includes('"') || str.includes('\n') || str.includes('\r')) {
+    return '"' + str.replace(/"/g, '""') + '"';
+  }
+  return str;
+}
+
+/**
+ * Place node values into the 26 CSV columns by field name
+ */
+export function nodeToCSVFields(node: Partial<Record<BotNodeField, unknown>>): string[] {
+  return BOT_NODE_FIELDS.map(({ key }) => {
+    const value = node[key];
+    if (value === undefined || value === null) return '';
+    if (typeof value === 'object') return JSON.stringify(value);
+    return String(value);
+  });
+}
+
+/**
+ * Serialize one node to a CSV row - the only place rows are built from nodes
+ */
+export function nodeToCSVRow(node: Partial<Record<BotNodeField, unknown>>): string {
+  return nodeToCSVFields(node).map(escapeCSVField).join(',');
+}
+
+/**
+ * Serialize nodes to a complete CSV (with header)
+ */
+export function serializeNodesToCSV(nodes: Partial<Record<BotNodeField, unknown>>[]): string {
+  return [CSV_HEADER, ...nodes.map(nodeToCSVRow)].join('\n');
+}
@@ -0,0 +1,317 @@
+/**
+ * Pipeline Fixtures
+ *
+ * Record-and-replay bundles for an Instant Build run. Record mode captures every
+ * fetch the pipeline makes (AI middleware, Bot Manager middleware, Engagement
+ * health check, Supabase data) with secrets redacted. Replay mode serves the
+ * recorded responses back in order, so the same run needs no network.
+ *
+ * Mode: VITE_PIPELINE_FIXTURE_MODE=record|replay, or localStorage
+ * 'pipeline-fixture-mode' to capture a single browser. Bundle name:
+ * VITE_PIPELINE_FIXTURE (default: derived from the project name).
+ *
+ * Bundles are stored in fixtures/pipeline/ by the dev server (downloaded when
+ * it isn't available). scripts/test-pipeline-fixtures.ts turns them into
+ * regression tests for structuralPreValidation and sanitizeCSVForDeploy.
+ *
+ * Dependency-free so scripts/ CLIs can read bundles.
+ */
+
+export type PipelineFixtureMode = 'record' | 'replay';
+
+export interface PipelineFixtureEntry {
+  seq: number;
+  method: string;
+  // Path + query for same-origin requests, full URL otherwise
+  url: string;
+  requestBody: string | null;
+  // 0 = the request failed without a response (responseBody holds the error)
+  status: number;
+  contentType: string | null;
+  responseBody: string;
+  durationMs: number;
+}
+
+// Expected structuralPreValidation + sanitizeCSVForDeploy result for one captured CSV
+export interface PipelineFixtureGolden {
+  seq: number;
+  fixes: string[];
+  outputHash: string;
+}
+
+export interface PipelineFixture {
+  version: 1;
+  name: string;
+  createdAt: string;
+  input: { description: string; details: unknown };
+  outcome: { success: boolean; error?: string; botId?: string; nodeCount?: number } | null;
+  entries: PipelineFixtureEntry[];
+  golden?: PipelineFixtureGolden[];
+}
+
+export interface PipelineReplayReport {
+  served: number;
+  // Requests the bundle had no response for (they failed like a dropped connection)
+  unmatched: string[];
+  // Requests whose body differs from the recording - the run has drifted from the capture
+  diverged: string[];
+  unused: number;
+}
+
+// CSV the pipeline sent to Bot Manager, with the errors Bot Manager returned
+export interface PipelineFixtureCSV {
+  seq: number;
+  endpoint: string;
+  csv: string;
+  valid: boolean | null;
+  errors: unknown;
+}
+
+const FIXTURE_API = '/api/pipeline-fixtures';
+const MODE_STORAGE_KEY = 'pipeline-fixture-mode';
+
+// Never captured or replayed: the fixture store itself and the user's auth session
+const PASSTHROUGH = [FIXTURE_API, '/auth/v1/'];
+
+// JSON keys whose values are replaced before a bundle is written
+const SECRET_KEYS = new Set(['token', 'apiKey', 'aiApiKey', 'api_key', 'access_token', 'accessToken', 'refresh_token', 'password']);
+const REDACTED = '[redacted]';
+
+// ============================================
+// MODE
+// ============================================
+
+export function getPipelineFixtureMode(): PipelineFixtureMode | null {
+  let mode: string | undefined = import.meta.env?.VITE_PIPELINE_FIXTURE_MODE;
+  try {
+    mode = globalThis.localStorage?.getItem(MODE_STORAGE_KEY) || mode;
+  } catch {
+    // localStorage unavailable (private mode, Node)
+  }
+  return mode === 'record' || mode === 'replay' ? mode : null;
+}
+
+export function getPipelineFixtureName(projectName?: string): string {
+  const configured = import.meta.env?.VITE_PIPELINE_FIXTURE;
+  if (configured) return configured;
+  const base = (projectName || 'build').toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+  return `${base || 'build'}-${new Date().toISOString().slice(0, 19).replace(/[:T]/g, '-')}`;
+}
+
+// ============================================
+// RECORD / REPLAY
+// ============================================
+
+/**
+ * Capture every fetch until stop() - returns the bundle
+ */
+export function startPipelineRecording(name: string, input: PipelineFixture['input']) {
+  const realFetch = globalThis.fetch;
+  const entries: PipelineFixtureEntry[] = [];
+
+  const recordingFetch: typeof fetch = async (input, init) => {
+    const { method, url } = describeRequest(input, init);
+    if (isPassthrough(url)) return realFetch(input, init);
+
+    const seq = entries.length + 1;
+    const requestBody = redactSecrets(bodyToString(init?.body));
+    const started = Date.now();
+    try {
+      const response = await realFetch(input, init);
+      const responseBody = redactSecrets(await response.clone().text()) || '';
+      entries.push({
+        seq, method, url, requestBody,
+        status: response.status,
+        contentType: response.headers.get('content-type'),
+        responseBody,
+        durationMs: Date.now() - started,
+      });
+      return response;
+    } catch (e: any) {
+      entries.push({ seq, method, url, requestBody, status: 0, contentType: null, responseBody: e?.message || String(e), durationMs: Date.now() - started });
+      throw e;
+    }
+  };
+
+  globalThis.fetch = recordingFetch;
+  console.log(`[PipelineFixture] Recording "${name}"`);
+
+  return {
+    stop(outcome: PipelineFixture['outcome']): PipelineFixture {
+      if (globalThis.fetch === recordingFetch) globalThis.fetch = realFetch;
+      console.log(`[PipelineFixture] Recorded ${entries.length} requests for "${name}"`);
+      return { version: 1, name, createdAt: new Date().toISOString(), input, outcome, entries: [...entries] };
+    },
+  };
+}
+
+/**
+ * Serve fetches from a bundle until stop(). Requests are matched by method + URL
+ * in recorded order (same path with a different query as a fallback).
+ */
+export function startPipelineReplay(fixture: PipelineFixture) {
+  const realFetch = globalThis.fetch;
+  const used = new Set<number>();
+  const report: PipelineReplayReport = { served: 0, unmatched: [], diverged: [], unused: 0 };
+
+  const replayFetch: typeof fetch = async (input, init) => {
+    const { method, url } = describeRequest(input, init);
+    if (isPassthrough(url)) return realFetch(input, init);
+
+    const path = url.split('?')[0];
+    const available = fixture.entries.filter(e => !used.has(e.seq) && e.method === method);
+    const entry = available.find(e => e.url === url) || available.find(e => e.url.split('?')[0] === path);
+    if (!entry) {
+      report.unmatched.push(`${method} ${url}`);
+      console.warn(`[PipelineFixture] No recorded response for ${method} ${url}`);
+      throw new TypeError(`Pipeline replay: no recorded response for ${method} ${url}`);
+    }
+
+    used.add(entry.seq);
+    report.served++;
+    if (entry.requestBody !== redactSecrets(bodyToString(init?.body))) {
+      report.diverged.push(`#${entry.seq} ${method} ${url}`);
+    }
+    if (entry.status === 0) throw new TypeError(entry.responseBody);
+
+    const nullBody = [101, 204, 205, 304].includes(entry.status);
+    return new Response(nullBody ? null : entry.responseBody, {
+      status: entry.status,
+      headers: entry.contentType ? { 'Content-Type': entry.contentType } : {},
+    });
+  };
+
+  globalThis.fetch = replayFetch;
+  console.log(`[PipelineFixture] Replaying "${fixture.name}" (${fixture.entries.length} recorded requests)`);
+
+  return {
+    stop(): PipelineReplayReport {
+      if (globalThis.fetch === replayFetch) globalThis.fetch = realFetch;
+      report.unused = fixture.entries.length - used.size;
+      console.log(`[PipelineFixture] Replay served ${report.served}, unmatched ${report.unmatched.length}, diverged ${report.diverged.length}, unused ${report.unused}`);
+      return report;
+    },
+  };
+}
+
+// ============================================
+// STORAGE
+// ============================================
+
+export async function loadPipelineFixture(name: string): Promise<PipelineFixture> {
+  const response = await fetch(`${FIXTURE_API}/${encodeURIComponent(name)}`);
+  if (!response.ok) {
+    throw new Error(`Pipeline fixture "${name}" not found (${response.status})`);
+  }
+  return response.json();
+}
+
+/**
+ * Save to fixtures/pipeline/ via the dev server, or download the bundle when
+ * there is no dev server (deployed app)
+ */
+export async function savePipelineFixture(fixture: PipelineFixture): Promise<'saved' | 'downloaded'> {
+  const body = JSON.stringify(fixture, null, 2);
+  try {
+    const response = await fetch(`${FIXTURE_API}/${encodeURIComponent(fixture.name)}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body,
+    });
+    if (response.ok) {
+      console.log(`[PipelineFixture] Saved fixtures/pipeline/${fixture.name}.json`);
+      return 'saved';
+    }
+  } catch {
+    // No dev server - fall through to download
+  }
+
+  const link = document.createElement('a');
+  link.href = URL.createObjectURL(new Blob([body], { type: 'application/json' }));
+  link.download = `${fixture.name}.json`;
+  link.click();
+  URL.revokeObjectURL(link.href);
+  console.log(`[PipelineFixture] Downloaded ${fixture.name}.json - copy it to fixtures/pipeline/`);
+  return 'downloaded';
+}
+
+// ============================================
+// BUNDLE CONTENTS
+// ============================================
+
+/**
+ * CSVs sent to /api/botmanager/validate and /upload, with Bot Manager's answer
+ */
+export function getFixtureCSVs(fixture: PipelineFixture): PipelineFixtureCSV[] {
+  const csvs: PipelineFixtureCSV[] = [];
+  for (const entry of fixture.entries) {
+    const endpoint = entry.url.split('?')[0];
+    if (endpoint !== '/api/botmanager/validate' && endpoint !== '/api/botmanager/upload') continue;
+
+    const request = parseJson(entry.requestBody);
+    if (typeof request?.csv !== 'string' || !request.csv.trim()) continue;
+    const response = parseJson(entry.responseBody);
+    csvs.push({
+      seq: entry.seq,
+      endpoint,
+      csv: request.csv,
+      valid: typeof response?.valid === 'boolean' ? response.valid : typeof response?.success === 'boolean' ? response.success : null,
+      errors: response?.errors ?? null,
+    });
+  }
+  return csvs;
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+function describeRequest(input: RequestInfo | URL, init?: RequestInit): { method: string; url: string } {
+  const raw = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url;
+  const origin = globalThis.location?.origin;
+  const url = origin && raw.startsWith(origin) ? raw.substring(origin.length) || '/' : raw;
+  const method = (init?.method || (typeof input === 'object' && 'method' in input ? input.method : '') || 'GET').toUpperCase();
+  return { method, url };
+}
+
+function isPassthrough(url: string): boolean {
+  return PASSTHROUGH.some(part => url.includes(part));
+}
+
+function bodyToString(body: BodyInit | null | undefined): string | null {
+  if (body === undefined || body === null) return null;
+  if (typeof body === 'string') return body;
+  if (body instanceof URLSearchParams) return body.toString();
+  if (typeof FormData !== 'undefined' && body instanceof FormData) {
+    return `[FormData ${[...body.keys()].join(', ')}]`;
+  }
+  return '[binary body]';
+}
+
+function parseJson(text: string | null): any {
+  if (!text) return null;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Replace tokens and API keys in a JSON body; non-JSON bodies are kept as-is
+ */
+export function redactSecrets(body: string | null): string | null {
+  const parsed = parseJson(body);
+  if (parsed === null || typeof parsed !== 'object') return body;
+
+  const walk = (value: any): any => {
+    if (Array.isArray(value)) return value.map(walk);
+    if (!value || typeof value !== 'object') return value;
+    const result: Record<string, unknown> = {};
+    for (const [key, inner] of Object.entries(value)) {
+      result[key] = SECRET_KEYS.has(key) && inner ? REDACTED : walk(inner);
+    }
+    return result;
+  };
+  return JSON.stringify(walk(parsed));
+}
@@ -0,0 +1,50 @@
+/**
+ * Pypestream Hosts
+ *
+ * Base URLs for the Pypestream APIs (Bot Manager, pypes/streams, webservice,
+ * widget preview, Engagement). Setting VITE_PYPESTREAM_MOCK_URL points every
+ * host at the local Bot Manager stand-in (vite/mock-bot-manager.ts) so deploys,
+ * hot reloads and health checks run offline.
+ *
+ * Dependency-free: used from the browser (import.meta.env) and vite.config.ts (process.env).
+ */
+
+export interface PypestreamHosts {
+  mock: boolean;
+  // api.pypestream.com - /botmanager, /ges/v5, /{env}/v5
+  api: string;
+  botManager: string;
+  // Any other subdomain, e.g. host('webservice-sandbox'), host('web-sandbox'), host('engagement-api')
+  host: (subdomain: string) => string;
+}
+
+/**
+ * Resolve host URLs, routing everything to `mockUrl` when it is set.
+ * The mock serves api.pypestream.com at its root and other hosts under /{subdomain}.
+ */
+export function getPypestreamHosts(mockUrl?: string): PypestreamHosts {
+  const mock = (mockUrl || '').trim().replace(/\/+$/, '');
+
+  if (mock) {
+    return {
+      mock: true,
+      api: mock,
+      botManager: `${mock}/botmanager`,
+      host: (subdomain) => `${mock}/${subdomain}`,
+    };
+  }
+
+  return {
+    mock: false,
+    api: 'https://api.pypestream.com',
+    botManager: 'https://api.pypestream.com/botmanager',
+    host: (subdomain) => `https://${subdomain}.pypestream.com`,
+  };
+}
+
+/**
+ * Hosts for browser code (VITE_PYPESTREAM_MOCK_URL from the Vite env)
+ */
+export function getClientPypestreamHosts(): PypestreamHosts {
+  return getPypestreamHosts(import.meta.env?.VITE_PYPESTREAM_MOCK_URL);
+}
@@ -0,0 +1,380 @@
+/**
+ * Script Contract Extractor
+ *
+ * Static analysis of Pypestream action node scripts. Action nodes pass JSON
+ * through Parameter Input and branch on the Decision Variable the script returns;
+ * this reads the Python source to find out what a script actually expects:
+ * - params: keys read from payload (payload.get / payload[...]) or the event
+ *   (event.get / self.event.get) for generated __init__(event) scripts
+ * - returnValues: literal values returned per key, following simple
+ *   `name = 'value'` assignments for keys returned by variable
+ *
+ * checkScriptContracts compares every Action node in a CSV against the contract
+ * of its Command script (missing params, unused params, unhandled outcomes).
+ * Dependency-free so scripts/generate-script-outputs.ts can build SCRIPT_OUTPUTS.
+ */
+
+import { BotDocument } from './bot-document';
+import { parseWhatNext } from './conversation-simulator';
+
+export interface ScriptParam {
+  key: string;
+  // Read with .get(key, default) - the script copes when it's absent
+  optional: boolean;
+}
+
+export interface ScriptContract {
+  name: string;
+  className: string | null;
+  // Documented "Decision Variable:" in the script header, else 'success'
+  decisionVariable: string;
+  params: ScriptParam[];
+  // Reads keys we can't name statically (payload.items(), payload[var], **payload)
+  readsDynamicParams: boolean;
+  returnKeys: string[];
+  returnValues: Record<string, string[]>;
+  // Returns a dict with a computed key or a value we couldn't resolve
+  dynamicReturnKeys: boolean;
+  dynamicReturnValues: string[];
+}
+
+export interface ContractIssue {
+  nodeNum: number;
+  command: string;
+  kind: 'missing_param' | 'unused_param' | 'unhandled_outcome' | 'unknown_decision_variable';
+  field: 'Parameter Input' | 'What Next?' | 'Decision Variable';
+  error: string;
+  value: string;
+}
+
+// Keys the runtime puts on the event for generated scripts - never in Parameter Input
+const EVENT_RUNTIME_KEYS = new Set(['user_input', 'session_id', 'global_variables', 'api_key']);
+
+const STRING_LITERAL = /^[rRuU]?(['"])((?:\\.|(?!\1).)*)\1$/;
+
+// ============================================
+// EXTRACTION
+// ============================================
+
+/**
+ * Parse a script's source for the parameters it reads and the values it returns
+ */
+export function extractScriptContract(content: string, name?: string): ScriptContract {
+  const documentedVar = content.match(/Decision Variable:\s*([A-Za-z_][\w]*)/);
+  const code = stripCommentsAndDocstrings(content);
+
+  const classMatch = code.match(/^class\s+([A-Za-z_]\w*)/m);
+  const className = classMatch ? classMatch[1] : null;
+
+  const { params, readsDynamicParams } = extractParams(code);
+  const { returnValues, dynamicReturnKeys, dynamicReturnValues } = extractReturns(code);
+
+  return {
+    name: name || className || 'unknown',
+    className,
+    decisionVariable: documentedVar ? documentedVar[1] : 'success',
+    params,
+    readsDynamicParams,
+    returnKeys: Object.keys(returnValues),
+    returnValues,
+    dynamicReturnKeys,
+    dynamicReturnValues,
+  };
+}
+
+/**
+ * Decision Variable outcomes a script can produce (the SCRIPT_OUTPUTS entry)
+ */
+export function getContractOutcomes(contract: ScriptContract, decisionVariable?: string): string[] {
+  return contract.returnValues[decisionVariable || contract.decisionVariable] || [];
+}
+
+function extractParams(code: string): { params: ScriptParam[]; readsDynamicParams: boolean } {
+  const params = new Map<string, ScriptParam>();
+
+  // payload plus simple aliases (params = payload or {})
+  const payloadNames = ['payload'];
+  for (const alias of code.matchAll(/^\s*([A-Za-z_]\w*)\s*=\s*payload\b(?:\s+or\s+\{\})?\s*$/gm)) {
+    payloadNames.push(alias[1]);
+  }
+  const sources = [
+    ...payloadNames.map(source => ({ source, isEvent: false })),
+    { source: '(?:self\\.)?event', isEvent: true },
+  ];
+
+  let readsDynamicParams = false;
+  const addParam = (key: string, optional: boolean, isEvent: boolean) => {
+    if (isEvent && EVENT_RUNTIME_KEYS.has(key)) return;
+    const existing = params.get(key);
+    // A single required read makes the key required
+    params.set(key, { key, optional: existing ? existing.optional && optional : optional });
+  };
+
+  for (const { source, isEvent } of sources) {
+    const getCall = new RegExp(`\\b${source}\\.get\\(\\s*([^,)]+?)\\s*(,|\\))`, 'g');
+    for (const match of code.matchAll(getCall)) {
+      const literal = match[1].match(STRING_LITERAL);
+      if (literal) addParam(literal[2], match[2] === ',', isEvent);
+      else readsDynamicParams = true;
+    }
+
+    const subscript = new RegExp(`\\b${source}\\[\\s*([^\\]]+?)\\s*\\]`, 'g');
+    for (const match of code.matchAll(subscript)) {
+      const literal = match[1].match(STRING_LITERAL);
+      if (literal) addParam(literal[2], false, isEvent);
+      else readsDynamicParams = true;
+    }
+
+    if (new RegExp(`\\*\\*${source}\\b|\\b${source}\\.(?:items|keys|values)\\(`).test(code)) {
+      readsDynamicParams = true;
+    }
+  }
+
+  return { params: [...params.values()], readsDynamicParams };
+}
+
+function extractReturns(code: string): {
+  returnValues: Record<string, string[]>;
+  dynamicReturnKeys: boolean;
+  dynamicReturnValues: string[];
+} {
+  const returnValues: Record<string, string[]> = {};
+  const dynamic = new Set<string>();
+  let dynamicReturnKeys = false;
+
+  const addValue = (key: string, value: string) => {
+    const values = returnValues[key] || (returnValues[key] = []);
+    if (!values.includes(value)) values.push(value);
+  };
+
+  for (const match of code.matchAll(/\breturn\s*\{/g)) {
+    const open = match.index! + match[0].length - 1;
+    const body = readBalanced(code, open);
+    if (body === null) continue;
+
+    for (const entry of splitTopLevel(body, ',')) {
+      const colon = splitTopLevel(entry, ':');
+      if (colon.length < 2) continue;
+      const keyLiteral = colon[0].trim().match(STRING_LITERAL);
+      if (!keyLiteral) {
+        dynamicReturnKeys = true;
+        continue;
+      }
+      const key = keyLiteral[2];
+      if (!returnValues[key]) returnValues[key] = [];
+
+      const values = resolveValues(code, colon.slice(1).join(':').trim());
+      if (values === null) dynamic.add(key);
+      else values.forEach(v => addValue(key, v));
+    }
+  }
+
+  return { returnValues, dynamicReturnKeys, dynamicReturnValues: [...dynamic] };
+}
+
+/**
+ * Literal values an expression can take, or null when it isn't statically known.
+ * Handles 'x', "x", 'a' if cond else 'b', and local names only ever assigned those.
+ */
+function resolveValues(code: string, expr: string, seen: Set<string> = new Set()): string[] | null {
+  const literal = expr.match(STRING_LITERAL);
+  if (literal) return [literal[2]];
+
+  const ternary = splitTopLevel(expr, ' if ');
+  if (ternary.length === 2) {
+    const branches = splitTopLevel(ternary[1], ' else ');
+    if (branches.length === 2) {
+      const whenTrue = resolveValues(code, ternary[0].trim(), seen);
+      const whenFalse = resolveValues(code, branches[1].trim(), seen);
+      return whenTrue && whenFalse ? [...whenTrue, ...whenFalse] : null;
+    }
+  }
+
+  if (/^[A-Za-z_]\w*$/.test(expr) && !seen.has(expr)) {
+    seen.add(expr);
+    const values: string[] = [];
+    const assignment = new RegExp(`^\\s*${expr}\\s*=(?!=)\\s*(.+?)\\s*$`, 'gm');
+    for (const match of code.matchAll(assignment)) {
+      const assigned = resolveValues(code, match[1], seen);
+      if (!assigned) return null;
+      assigned.forEach(v => { if (!values.includes(v)) values.push(v); });
+    }
+    return values.length > 0 ? values : null;
+  }
+
+  return null;
+}
+
+// ============================================
+// PYTHON SOURCE HELPERS
+// ============================================
+
+// Remove triple-quoted strings (docstrings, banners) and # comments
+function stripCommentsAndDocstrings(content: string): string {
+  const withoutDocstrings = content.replace(/[rRbBuU]?('''|""")[\s\S]*?\1/g, '""');
+  return withoutDocstrings
+    .split('\n')
+    .map(line => {
+      let quote: string | null = null;
+      for (let i = 0; i < line.length; i++) {
+        const ch = line[i];
+        if (quote) {
+          if (ch === '\\') i++;
+          else if (ch === quote) quote = null;
+        } else if (ch === '"' || ch === "'") {
+          quote = ch;
+        } else if (ch === '#') {
+          return line.substring(0, i).trimEnd();
+        }
+      }
+      return line;
+    })
+    .join('\n');
+}
+
+// Contents between the bracket at `open` and its match, skipping string literals
+function readBalanced(code: string, open: number): string | null {
+  let depth = 0;
+  let quote: string | null = null;
+  for (let i = open; i < code.length; i++) {
+    const ch = code[i];
+    if (quote) {
+      if (ch === '\\') i++;
+      else if (ch === quote) quote = null;
+      continue;
+    }
+    if (ch === '"' || ch === "'") quote = ch;
+    else if ('([{'.includes(ch)) depth++;
+    else if (')]}'.includes(ch) && --depth === 0) return code.substring(open + 1, i);
+  }
+  return null;
+}
+
+// Split on a separator that sits outside brackets and strings
+function splitTopLevel(text: string, separator: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let quote: string | null = null;
+  let start = 0;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quote) {
+      if (ch === '\\') i++;
+      else if (ch === quote) quote = null;
+      continue;
+    }
+    if (ch === '"' || ch === "'") quote = ch;
+    else if ('([{'.includes(ch)) depth++;
+    else if (')]}'.includes(ch)) depth--;
+    else if (depth === 0 && text.startsWith(separator, i)) {
+      parts.push(text.substring(start, i));
+      start = i + separator.length;
+      i += separator.length - 1;
+    }
+  }
+  parts.push(text.substring(start));
+  return parts.filter(p => p.trim());
+}
+
+// ============================================
+// NODE CHECKS
+// ============================================
+
+/**
+ * Keys in a node's Parameter Input JSON ({VAR} placeholders are allowed unquoted)
+ */
+function parameterInputKeys(paramInput: string): string[] {
+  const raw = paramInput.trim();
+  if (!raw.startsWith('{')) return [];
+  try {
+    const parsed = JSON.parse(raw.replace(/:\s*(\{[A-Z0-9_]+\})/g, ': "$1"'));
+    return parsed && typeof parsed === 'object' ? Object.keys(parsed) : [];
+  } catch {
+    return [...raw.matchAll(/"([^"]+)"\s*:/g)].map(m => m[1]);
+  }
+}
+
+/**
+ * Compare every Action node against the contract of its Command script.
+ * Nodes whose script source isn't available are skipped.
+ */
+export function checkScriptContracts(
+  csv: string,
+  scripts: { name: string; content: string }[]
+): ContractIssue[] {
+  const contracts = new Map<string, ScriptContract>();
+  for (const script of scripts) {
+    const name = script.name.replace(/\.py$/, '');
+    if (script.content && !contracts.has(name)) {
+      contracts.set(name, extractScriptContract(script.content, name));
+    }
+  }
+
+  const issues: ContractIssue[] = [];
+  for (const node of BotDocument.parse(csv).nodes) {
+    if (node.type.trim().toUpperCase() !== 'A') continue;
+    const command = node.command.trim();
+    const contract = contracts.get(command);
+    if (!contract) continue;
+
+    const nodeNum = node.nodeNum;
+    const paramInput = node.paramInput.trim();
+    const provided = parameterInputKeys(paramInput);
+
+    for (const param of contract.params) {
+      if (param.optional || provided.includes(param.key)) continue;
+      issues.push({
+        nodeNum,
+        command,
+        kind: 'missing_param',
+        field: 'Parameter Input',
+        error: `${command} reads "${param.key}" but Parameter Input doesn't provide it`,
+        value: paramInput.substring(0, 100),
+      });
+    }
+
+    if (!contract.readsDynamicParams) {
+      const read = new Set(contract.params.map(p => p.key));
+      for (const key of provided.filter(k => !read.has(k))) {
+        issues.push({
+          nodeNum,
+          command,
+          kind: 'unused_param',
+          field: 'Parameter Input',
+          error: `Parameter "${key}" is never read by ${command}`,
+          value: paramInput.substring(0, 100),
+        });
+      }
+    }
+
+    const decisionVariable = node.decVar.trim() || 'success';
+    if (!contract.returnKeys.includes(decisionVariable)) {
+      if (!contract.dynamicReturnKeys && contract.returnKeys.length > 0) {
+        issues.push({
+          nodeNum,
+          command,
+          kind: 'unknown_decision_variable',
+          field: 'Decision Variable',
+          error: `${command} never returns "${decisionVariable}" (returns: ${contract.returnKeys.join(', ')})`,
+          value: decisionVariable,
+        });
+      }
+      continue;
+    }
+
+    const routes = parseWhatNext(node.whatNext.trim());
+    const unhandled = getContractOutcomes(contract, decisionVariable).filter(outcome => !routes.has(outcome));
+    if (unhandled.length > 0) {
+      issues.push({
+        nodeNum,
+        command,
+        kind: 'unhandled_outcome',
+        field: 'What Next?',
+        error: `${command} can return ${decisionVariable}=${unhandled.join(', ')} with no What Next route`,
+        value: node.whatNext.trim(),
+      });
+    }
+  }
+
+  return issues;
+}
@@ -9,9 +9,10 @@
  */
 
 import type { ConversationMessage } from '../types';
+import { getClientPypestreamHosts } from './pypestream-hosts';
 
-const ENGAGEMENT_API_SANDBOX = 'https://engagement-api-sandbox.pypestream.com';
-const ENGAGEMENT_API_LIVE = 'https://engagement-api.pypestream.com';
+const ENGAGEMENT_API_SANDBOX = getClientPypestreamHosts().host('engagement-api-sandbox');
+const ENGAGEMENT_API_LIVE = getClientPypestreamHosts().host('engagement-api');
 
 interface SessionInfo {
   chatId: string;
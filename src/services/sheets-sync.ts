@@ -2,11 +2,15 @@
  * Google Sheets Sync Service
  * 
  * Provides bidirectional sync between the visual editor and Google Sheets.
- * - Push local changes to Sheets
- * - Poll for remote changes and pull updates
- * - Conflict detection
+ * - Keeps a base snapshot: the content both sides last agreed on
+ * - Polls the sheet and compares both sides against the base
+ * - Pulls remote-only changes, pushes local-only changes
+ * - Three-way merges when both sides changed; edits to different nodes or
+ *   fields merge automatically, the rest are returned as conflicts to resolve
  */
 
+import { mergeCSV, resolveMergeConflicts, type CSVMergeResult, type MergeSide } from './bot-diff';
+
 /**
  * Export CSV content to a new Google Sheet
  */
@@ -55,19 +59,62 @@ function hashCSV(csv: string): string {
   return hash.toString(16);
 }
 
+// Whether the user's choices for one merge still fit another: every conflict in
+// the new merge was already shown, with the same kind and the same sheet content
+function sameConflicts(before: CSVMergeResult, after: CSVMergeResult): boolean {
+  return after.conflicts.every(conflict => {
+    const shown = before.conflicts.find(c => c.nodeNum === conflict.nodeNum);
+    return !!shown && shown.kind === conflict.kind && JSON.stringify(shown.remote) === JSON.stringify(conflict.remote);
+  });
+}
+
+// localStorage key prefix for each spreadsheet's base snapshot
+const BASE_STORAGE_KEY_PREFIX = 'sheets-sync-base:';
+
+/**
+ * Spreadsheet id from a Google Sheets URL (.../spreadsheets/d/<id>/edit)
+ */
+export function spreadsheetIdFromUrl(url: string | undefined): string | undefined {
+  return url?.match(/\/spreadsheets\/d\/([a-zA-Z0-9_-]+)/)?.[1];
+}
+
+/**
+ * Outcome of one sync round
+ * - in-sync: neither side changed since the base
+ * - pulled: only the sheet changed - csv is the sheet's content
+ * - pushed: only the local copy changed - it was written to the sheet
+ * - merged: both changed without conflicts - csv was written to the sheet
+ * - conflict: both changed the same nodes - resolve with resolveConflicts()
+ * - dismissed: the same conflict the user closed without resolving; nothing
+ *   is synced until either side changes again
+ */
+export interface SheetsSyncResult {
+  status: 'in-sync' | 'pulled' | 'pushed' | 'merged' | 'conflict' | 'dismissed' | 'error';
+  csv?: string;
+  merge?: CSVMergeResult;
+  error?: string;
+}
+
 export class SheetsSyncService {
   private spreadsheetId: string;
   private pollInterval: number = 5000; // 5 seconds
-  private lastKnownHash: string = '';
+  private baseCSV: string = '';
   private pollIntervalId: NodeJS.Timeout | null = null;
   private isPolling: boolean = false;
+  private isSyncing: boolean = false;
+  // Merge waiting for the user - polling pauses until it is resolved
+  private pendingMerge: CSVMergeResult | null = null;
+  // Local and sheet content the pending merge was computed from
+  private pendingInputs: { local: string; remote: string } | null = null;
+  // Hashes of a conflict the user closed, so polling doesn't raise it again
+  private dismissedConflict: { local: string; remote: string } | null = null;
   
   constructor(spreadsheetId: string) {
     this.spreadsheetId = spreadsheetId;
   }
   
   /**
-   * Push local changes to Google Sheets
+   * Push content to Google Sheets as-is (overwrites the sheet)
    */
   async pushToSheets(csv: string): Promise<{ success: boolean; error?: string }> {
     try {
@@ -85,8 +132,8 @@ export class SheetsSyncService {
         throw new Error(error.error || `Push failed: ${response.status}`);
       }
       
-      // Update hash after successful push
-      this.lastKnownHash = hashCSV(csv);
+      // Both sides now hold this content
+      this.setBase(csv);
       
       return { success: true };
     } catch (error: any) {
@@ -96,7 +143,7 @@ export class SheetsSyncService {
   }
   
   /**
-   * Pull current content from Google Sheets
+   * Pull current content from Google Sheets; changed is relative to the base
    */
   async pullFromSheets(): Promise<{ changed: boolean; csv: string; error?: string }> {
     try {
@@ -115,15 +162,8 @@ export class SheetsSyncService {
       
       const data = await response.json();
       const remoteCSV = data.csvContent || '';
-      const remoteHash = hashCSV(remoteCSV);
-      
-      // Check if content changed
-      if (remoteHash !== this.lastKnownHash) {
-        this.lastKnownHash = remoteHash;
-        return { changed: true, csv: remoteCSV };
-      }
       
-      return { changed: false, csv: remoteCSV };
+      return { changed: hashCSV(remoteCSV) !== hashCSV(this.baseCSV), csv: remoteCSV };
     } catch (error: any) {
       console.error('[SheetsSyncService] Pull error:', error);
       return { changed: false, csv: '', error: error.message };
@@ -131,25 +171,119 @@ export class SheetsSyncService {
   }
   
   /**
-   * Start polling for remote changes
+   * Bring the sheet and the local copy together. Whatever the result, the
+   * caller should adopt result.csv as its local content when it is set.
+   */
+  async sync(localCSV: string): Promise<SheetsSyncResult> {
+    const { changed: remoteChanged, csv: remoteCSV, error } = await this.pullFromSheets();
+    if (error) return { status: 'error', error };
+    
+    const localChanged = this.hasUnsavedChanges(localCSV);
+    
+    if (!remoteChanged && !localChanged) return { status: 'in-sync' };
+    
+    if (!localChanged) {
+      console.log('[SheetsSyncService] Pulled remote changes');
+      this.setBase(remoteCSV);
+      return { status: 'pulled', csv: remoteCSV };
+    }
+    
+    if (!remoteChanged) {
+      const push = await this.pushToSheets(localCSV);
+      return push.success ? { status: 'pushed' } : { status: 'error', error: push.error };
+    }
+    
+    if (this.dismissedConflict?.local === hashCSV(localCSV) && this.dismissedConflict.remote === hashCSV(remoteCSV)) {
+      return { status: 'dismissed' };
+    }
+    this.dismissedConflict = null;
+    
+    const merge = mergeCSV(this.baseCSV, localCSV, remoteCSV);
+    if (merge.conflicts.length > 0) {
+      console.log(`[SheetsSyncService] ${merge.conflicts.length} conflict(s) need resolving`);
+      this.pendingMerge = merge;
+      this.pendingInputs = { local: localCSV, remote: remoteCSV };
+      return { status: 'conflict', merge };
+    }
+    
+    console.log(`[SheetsSyncService] Merged ${merge.localChanges.length} local and ${merge.remoteChanges.length} remote node change(s)`);
+    const push = await this.pushToSheets(merge.csv);
+    return push.success ? { status: 'merged', csv: merge.csv } : { status: 'error', csv: merge.csv, error: push.error };
+  }
+  
+  /**
+   * Apply the user's choice for each conflict, write the result to the sheet
+   * and resume polling. Returns the CSV to adopt locally.
+   *
+   * The sheet is read again first. If it changed while the user was deciding,
+   * the merge is redone against it; when that changes what conflicts, the new
+   * merge comes back as a 'conflict' for the user to decide again.
+   */
+  async resolveConflicts(merge: CSVMergeResult, choices: Record<number, MergeSide>): Promise<SheetsSyncResult> {
+    const inputs = this.pendingInputs;
+    this.pendingMerge = null;
+    this.pendingInputs = null;
+    
+    const { csv: remoteCSV, error } = await this.pullFromSheets();
+    if (error) return { status: 'error', error };
+    
+    let resolved = merge;
+    if (inputs && hashCSV(remoteCSV) !== hashCSV(inputs.remote)) {
+      console.log('[SheetsSyncService] Sheet changed while resolving - merging again');
+      resolved = mergeCSV(this.baseCSV, inputs.local, remoteCSV);
+      if (!sameConflicts(merge, resolved)) {
+        this.pendingMerge = resolved;
+        this.pendingInputs = { local: inputs.local, remote: remoteCSV };
+        return { status: 'conflict', merge: resolved };
+      }
+    }
+    
+    const csv = resolveMergeConflicts(resolved, choices);
+    const push = await this.pushToSheets(csv);
+    return push.success ? { status: 'merged', csv } : { status: 'error', csv, error: push.error };
+  }
+  
+  /**
+   * Close the pending conflicts without changing either side. Polling
+   * resumes, but this conflict is not raised again until one side changes.
+   */
+  dismissConflicts(): void {
+    if (this.pendingInputs) {
+      this.dismissedConflict = { local: hashCSV(this.pendingInputs.local), remote: hashCSV(this.pendingInputs.remote) };
+    }
+    this.pendingMerge = null;
+    this.pendingInputs = null;
+  }
+  
+  /**
+   * Conflicts the user has not resolved yet
    */
-  startPolling(onRemoteChange: (csv: string) => void): void {
+  getPendingMerge(): CSVMergeResult | null {
+    return this.pendingMerge;
+  }
+  
+  /**
+   * Start polling for remote changes. getLocalCSV is read on every round;
+   * onResult gets every round that changed something (or failed).
+   */
+  startPolling(getLocalCSV: () => string, onResult: (result: SheetsSyncResult) => void): void {
     if (this.isPolling) return;
     
     this.isPolling = true;
     console.log('[SheetsSyncService] Starting polling for', this.spreadsheetId);
     
     this.pollIntervalId = setInterval(async () => {
-      const { changed, csv, error } = await this.pullFromSheets();
+      if (this.isSyncing || this.pendingMerge) return;
       
-      if (error) {
-        console.warn('[SheetsSyncService] Poll error:', error);
-        return;
-      }
-      
-      if (changed) {
-        console.log('[SheetsSyncService] Remote change detected');
-        onRemoteChange(csv);
+      this.isSyncing = true;
+      try {
+        const result = await this.sync(getLocalCSV());
+        if (result.status === 'error') {
+          console.warn('[SheetsSyncService] Poll error:', result.error);
+        }
+        if (result.status !== 'in-sync' && result.status !== 'dismissed') onResult(result);
+      } finally {
+        this.isSyncing = false;
       }
     }, this.pollInterval);
   }
@@ -167,16 +301,35 @@ export class SheetsSyncService {
   }
   
   /**
-   * Set the initial hash (call after loading initial data)
+   * Restore the base saved by an earlier session, or start from csv (call
+   * after loading initial data)
+   */
+  initBase(csv: string): void {
+    let saved: string | null = null;
+    try {
+      saved = globalThis.localStorage?.getItem(BASE_STORAGE_KEY_PREFIX + this.spreadsheetId) ?? null;
+    } catch {
+      // localStorage unavailable
+    }
+    this.setBase(saved ?? csv);
+  }
+  
+  /**
+   * Record content both sides agree on
    */
-  setInitialHash(csv: string): void {
-    this.lastKnownHash = hashCSV(csv);
+  setBase(csv: string): void {
+    this.baseCSV = csv;
+    try {
+      localStorage.setItem(BASE_STORAGE_KEY_PREFIX + this.spreadsheetId, csv);
+    } catch {
+      // Quota exceeded or unavailable - the base lasts for this session only
+    }
   }
   
   /**
-   * Check if there are unsaved local changes
+   * Check if there are local changes the sheet doesn't have yet
    */
   hasUnsavedChanges(localCSV: string): boolean {
-    return hashCSV(localCSV) !== this.lastKnownHash;
+    return hashCSV(localCSV) !== hashCSV(this.baseCSV);
   }
 }
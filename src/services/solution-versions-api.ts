@@ -0,0 +1,163 @@
+/**
+ * Solution Versions API Service
+ *
+ * Immutable version history for solutions. Every save, deploy and AI edit that
+ * changes the CSV, scripts or architecture writes a snapshot to solution_versions so it can be restored.
+ */
+
+import { supabase } from '../lib/supabase';
+import type { CustomScript, SavedSolution, SolutionVersion, SolutionVersionSource } from '../types';
+
+export interface SnapshotOptions {
+  source: SolutionVersionSource;
+  note?: string;
+  // Scripts aren't stored on the project row, so callers pass them explicitly
+  scripts?: CustomScript[];
+}
+
+// JSON with sorted object keys - JSONB doesn't keep key order, so compare this way
+function stableJson(value: unknown): string {
+  return JSON.stringify(value ?? null, (_key, v) =>
+    v && typeof v === 'object' && !Array.isArray(v)
+      ? Object.fromEntries(Object.keys(v).sort().map(k => [k, v[k]]))
+      : v
+  );
+}
+
+// Convert database row to SolutionVersion format
+function dbToVersion(row: any): SolutionVersion {
+  return {
+    id: row.id,
+    solutionId: row.project_id,
+    versionNumber: row.version_number,
+    source: row.source,
+    author: row.author || undefined,
+    note: row.note || undefined,
+    csvContent: row.csv_content || '',
+    scripts: row.scripts || undefined,
+    architectureState: row.architecture_state || undefined,
+    nodeCount: row.node_count || 0,
+    botId: row.bot_id || undefined,
+    versionId: row.version_id || undefined,
+    createdAt: row.created_at,
+  };
+}
+
+/**
+ * Record a snapshot of the solution's current state.
+ * Skipped when nothing versioned changed since the latest snapshot.
+ */
+export async function createSolutionVersion(
+  solution: SavedSolution,
+  options: SnapshotOptions
+): Promise<SolutionVersion | null> {
+  try {
+    if (!solution.csvContent) return null;
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      console.error('[Versions API] No authenticated user for snapshot');
+      return null;
+    }
+
+    const { data: latestRows, error: latestError } = await supabase
+      .from('solution_versions')
+      .select('version_number, csv_content, version_id, scripts, architecture_state')
+      .eq('project_id', solution.id)
+      .order('version_number', { ascending: false })
+      .limit(1);
+
+    if (latestError) {
+      console.error('[Versions API] Error reading latest version:', latestError);
+      return null;
+    }
+
+    const latest = latestRows?.[0];
+    const unchanged = latest
+      && latest.csv_content === solution.csvContent
+      && (latest.version_id || undefined) === solution.versionId
+      // Callers that don't pass scripts aren't changing them
+      && (options.scripts === undefined || stableJson(latest.scripts) === stableJson(options.scripts))
+      && stableJson(latest.architecture_state) === stableJson(solution.architectureState);
+    if (unchanged) {
+      console.log('[Versions API] No changes since version', latest.version_number, '- skipping snapshot');
+      return null;
+    }
+
+    const { data, error } = await supabase
+      .from('solution_versions')
+      .insert({
+        project_id: solution.id,
+        user_id: user.id,
+        // version_number is assigned by the database (012_version_numbering.sql)
+        source: options.source,
+        author: user.email || null,
+        note: options.note || null,
+        csv_content: solution.csvContent,
+        scripts: options.scripts || null,
+        architecture_state: solution.architectureState || null,
+        node_count: solution.nodeCount || 0,
+        bot_id: solution.botId || null,
+        version_id: solution.versionId || null,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      console.error('[Versions API] Error creating version:', error);
+      return null;
+    }
+
+    console.log(`[Versions API] Snapshot v${data.version_number} (${options.source}) for solution:`, solution.id);
+    return dbToVersion(data);
+  } catch (error) {
+    console.error('[Versions API] Error creating version:', error);
+    return null;
+  }
+}
+
+/**
+ * Fetch the version history for a solution, newest first
+ */
+export async function fetchSolutionVersions(solutionId: string): Promise<SolutionVersion[]> {
+  try {
+    const { data, error } = await supabase
+      .from('solution_versions')
+      .select('*')
+      .eq('project_id', solutionId)
+      .order('version_number', { ascending: false });
+
+    if (error) {
+      console.error('[Versions API] Error fetching versions:', error);
+      return [];
+    }
+
+    return (data || []).map(dbToVersion);
+  } catch (error) {
+    console.error('[Versions API] Error fetching versions:', error);
+    return [];
+  }
+}
+
+/**
+ * Get a single version by ID
+ */
+export async function getSolutionVersion(versionId: string): Promise<SolutionVersion | null> {
+  try {
+    const { data, error } = await supabase
+      .from('solution_versions')
+      .select('*')
+      .eq('id', versionId)
+      .single();
+
+    if (error) {
+      console.error('[Versions API] Error fetching version:', error);
+      return null;
+    }
+
+    return dbToVersion(data);
+  } catch (error) {
+    console.error('[Versions API] Error fetching version:', error);
+    return null;
+  }
+}
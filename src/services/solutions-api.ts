@@ -6,6 +6,7 @@
 
 import { supabase } from '../lib/supabase';
 import type { SavedSolution } from '../types';
+import { createSolutionVersion, type SnapshotOptions } from './solution-versions-api';
 
 // Convert database row to SavedSolution format
 function dbToSolution(row: any): SavedSolution {
@@ -149,11 +150,14 @@ export async function createSolution(
 }
 
 /**
- * Update an existing solution
+ * Update an existing solution.
+ * When the CSV changes, an immutable version snapshot is recorded as well
+ * (source defaults to 'manual').
  */
 export async function updateSolution(
   solutionId: string,
-  updates: Partial<SavedSolution>
+  updates: Partial<SavedSolution>,
+  snapshot?: SnapshotOptions
 ): Promise<SavedSolution | null> {
   try {
     const userId = await getCurrentUserId();
@@ -183,7 +187,14 @@ export async function updateSolution(
     }
 
     console.log('[Solutions API] Solution updated:', data.id);
-    return dbToSolution(data);
+    const updated = dbToSolution(data);
+
+    // Anything versioned may have changed; createSolutionVersion skips no-op snapshots
+    if (updates.csvContent !== undefined || updates.architectureState !== undefined || snapshot?.scripts) {
+      await createSolutionVersion(updated, snapshot || { source: 'manual' });
+    }
+
+    return updated;
   } catch (error) {
     console.error('[Solutions API] Error updating solution:', error);
     return null;
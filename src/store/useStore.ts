@@ -18,6 +18,7 @@ import type {
   BrandAssets
 } from '../types';
 import * as solutionsApi from '../services/solutions-api';
+import type { SnapshotOptions } from '../services/solution-versions-api';
 
 const defaultIntegrations: Integration[] = [
   {
@@ -102,7 +103,7 @@ interface AppStore extends AppState {
   // Saved Solutions (now with Supabase)
   fetchSavedSolutions: () => Promise<void>;
   addSavedSolution: (solution: Omit<SavedSolution, 'id' | 'createdAt' | 'updatedAt'>) => Promise<SavedSolution | null>;
-  updateSavedSolution: (id: string, updates: Partial<SavedSolution>) => Promise<void>;
+  updateSavedSolution: (id: string, updates: Partial<SavedSolution>, snapshot?: SnapshotOptions) => Promise<void>;
   deleteSavedSolution: (id: string) => Promise<void>;
   setActiveSolution: (id: string | null) => void;
   setSavedSolutions: (solutions: SavedSolution[]) => void;
@@ -113,9 +114,12 @@ interface AppStore extends AppState {
   instantStep: InstantStep;
   extractedDetails: ExtractedDetails | null;
   instantBuildResult: InstantBuildResult | null;
+  // Server-side build job the Processing page is following (build-jobs.ts)
+  buildJobId: string | null;
   setInstantStep: (step: InstantStep) => void;
   setExtractedDetails: (details: ExtractedDetails | null) => void;
   setInstantBuildResult: (result: InstantBuildResult | null) => void;
+  setBuildJobId: (id: string | null) => void;
   
   // Loading / Error
   setLoading: (loading: boolean) => void;
@@ -165,6 +169,7 @@ export const useStore = create<AppStore>()(
       instantStep: 'create' as InstantStep,
       extractedDetails: null,
       instantBuildResult: null,
+      buildJobId: null,
       
       // Navigation
       setStep: (step) => set({ currentStep: step, error: null }),
@@ -289,6 +294,7 @@ export const useStore = create<AppStore>()(
       setInstantStep: (instantStep) => set({ instantStep }),
       setExtractedDetails: (extractedDetails) => set({ extractedDetails }),
       setInstantBuildResult: (instantBuildResult) => set({ instantBuildResult }),
+      setBuildJobId: (buildJobId) => set({ buildJobId }),
       
       // Saved Solutions (Supabase-backed)
       setSavedSolutions: (solutions) => set({ savedSolutions: solutions, solutionsLoaded: true }),
@@ -319,8 +325,8 @@ export const useStore = create<AppStore>()(
         return created;
       },
       
-      updateSavedSolution: async (id, updates) => {
-        const updated = await solutionsApi.updateSolution(id, updates);
+      updateSavedSolution: async (id, updates, snapshot) => {
+        const updated = await solutionsApi.updateSolution(id, updates, snapshot);
         if (updated) {
           set((state) => ({
             savedSolutions: state.savedSolutions.map((s) =>
@@ -471,6 +477,7 @@ export const useStore = create<AppStore>()(
         instantStep: 'create' as InstantStep,
         extractedDetails: null,
         instantBuildResult: null,
+        buildJobId: null,
       })),
       
       // Start new solution (clears current work but keeps saved solutions)
@@ -490,6 +497,7 @@ export const useStore = create<AppStore>()(
         instantStep: 'create' as InstantStep,
         extractedDetails: null,
         instantBuildResult: null,
+        buildJobId: null,
       })),
     }),
     {
@@ -505,6 +513,7 @@ export const useStore = create<AppStore>()(
         instantStep: state.instantStep,
         extractedDetails: state.extractedDetails,
         instantBuildResult: state.instantBuildResult,
+        buildJobId: state.buildJobId,
         solution: state.solution,
         activeSolutionId: state.activeSolutionId,
         // Requirements data
@@ -538,6 +547,7 @@ export const useStore = create<AppStore>()(
           instantStep: persistedState.instantStep || currentState.instantStep,
           extractedDetails: persistedState.extractedDetails || currentState.extractedDetails,
           instantBuildResult: persistedState.instantBuildResult || currentState.instantBuildResult,
+          buildJobId: persistedState.buildJobId || currentState.buildJobId,
           solution: persistedState.solution || currentState.solution,
           activeSolutionId: persistedState.activeSolutionId || currentState.activeSolutionId,
           // Restore requirements
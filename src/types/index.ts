@@ -65,8 +65,13 @@ export interface InstantBuildResult {
   humanInterventionContext?: string;
   // Failed rows for manual debugging/fixing
   failedRows?: FailedRow[];
+  // Raw Bot Manager validation errors behind failedRows
+  validationErrors?: any[];
   // Post-deployment health check result
   healthCheck?: HealthCheckResult;
+  // AI token usage for this build; entries are saved to the ledger once the solution has an id
+  costs?: CostSummary;
+  costEntries?: AIUsageEntry[];
 }
 
 // Instant flow step type
@@ -106,6 +111,19 @@ export interface BrandAssets {
   logoUrl?: string;
   logoBackground?: 'light' | 'dark' | 'transparent';
   brandMomentUrl?: string;
+  theme?: BrandTheme;        // Widget styling adjusted in the theme designer
+}
+
+// Widget styling on top of the brand colors (services/brand-theme.ts)
+export interface BrandTheme {
+  fontFamily?: string;
+  bubbleShape: 'rounded' | 'square' | 'pill';
+  userBubbleColor: string;
+  userBubbleTextColor: string;
+  agentBubbleColor: string;
+  agentBubbleTextColor: string;
+  // Written to the CSS Classname column of message nodes; the channel CSS styles it
+  cssClassname: string;
 }
 
 // Imported requirements from Figma/Sheets analysis
@@ -207,6 +225,8 @@ export interface ArchitectureState {
     label?: string;
     description: string;
     startNode: number;
+    // Nodes of an imported bot whose numbering isn't range-based (bot-import.ts)
+    nodeNumbers?: number[];
   }>;
   // Main menu options
   menuOptions?: Array<{
@@ -264,6 +284,119 @@ export interface SavedSolution {
   architectureState?: ArchitectureState;
 }
 
+// What produced a solution version snapshot
+export type SolutionVersionSource = 'generation' | 'edit' | 'ux-apply' | 'manual' | 'deploy' | 'restore' | 'sheets-sync' | 'import';
+
+// Immutable snapshot of a solution (solution_versions table)
+export interface SolutionVersion {
+  id: string;
+  solutionId: string;
+  versionNumber: number;
+  source: SolutionVersionSource;
+  author?: string;
+  note?: string;
+  csvContent: string;
+  scripts?: CustomScript[];
+  architectureState?: ArchitectureState;
+  nodeCount: number;
+  // Bot Manager deployment this version maps to
+  botId?: string;
+  versionId?: string;
+  createdAt: string;
+}
+
+// Persisted stage of the Instant Build pipeline ('flow' is checkpointed per flow)
+export type BuildStage =
+  | 'preflight' | 'plan' | 'flow' | 'assembly' | 'pre-validation' | 'validation'
+  | 'refinement' | 'scripts' | 'deploy' | 'channel' | 'health-check';
+
+export type BuildStageStatus = 'pending' | 'active' | 'done' | 'error';
+
+// One stage's saved output (build_checkpoints table)
+export interface BuildCheckpoint {
+  stage: BuildStage;
+  // Flow name for 'flow' checkpoints, '' otherwise
+  key: string;
+  status: BuildStageStatus;
+  output?: any;
+  error?: string;
+  updatedAt: string;
+}
+
+// A stage as shown in progress displays; per-flow checkpoints are rolled up
+export interface BuildStageState {
+  stage: BuildStage;
+  label: string;
+  status: BuildStageStatus;
+  detail?: string;
+}
+
+// Where a stuck build is in the shared fix queue
+export type FixQueueStatus = 'open' | 'claimed' | 'resolved' | 'abandoned';
+
+// What instantBuild was called with, so a teammate can resume the pipeline
+export interface FixQueueBuildInput {
+  description: string;
+  extractedDetails: ExtractedDetails;
+  brandAssets: BrandAssets | null;
+}
+
+// A build instantBuild gave up on, waiting for a person (fix_queue table)
+export interface FixQueueItem {
+  id: string;
+  solutionId?: string;
+  projectName: string;
+  status: FixQueueStatus;
+  error: string;
+  context?: string;
+  csvContent: string;
+  failedRows: FailedRow[];
+  validationErrors: any[];
+  buildInput: FixQueueBuildInput;
+  cachedGeneration?: any;
+  createdBy?: string;
+  claimedBy?: string;
+  claimedAt?: string;
+  resolvedBy?: string;
+  resolvedAt?: string;
+  // Bot Manager deployment produced by the resumed pipeline
+  botId?: string;
+  widgetUrl?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Pipeline step an AI call is billed to in the cost ledger
+export type CostStep = 'plan' | 'flow-generation' | 'refinement' | 'ux-review' | 'live-edit' | 'other';
+
+// One AI middleware call (ai_usage table)
+export interface AIUsageEntry {
+  step: CostStep;
+  // Refinement iteration, for step 'refinement'
+  pass?: number;
+  tag: string;
+  provider: string;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+  createdAt: string;
+}
+
+export interface CostTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+}
+
+export interface CostSummary extends CostTotals {
+  byStep: Partial<Record<CostStep, CostTotals>>;
+  // Per-build budget in effect, and whether refinement stopped because of it
+  budgetUsd?: number;
+  budgetExceeded?: boolean;
+}
+
 export interface ValidationResult {
   passed: boolean;
   errors: ValidationIssue[];
@@ -281,10 +414,17 @@ export interface ValidationResult {
   actionNodes?: number;
 }
 
+// Routing graph checks run by the graph analyzer
+export type GraphCheck = 'unreachable' | 'dead_end' | 'uncovered_outcome' | 'silent_loop';
+
 export interface ValidationIssue {
   nodeNumber?: number;
   message: string;
   severity: 'error' | 'warning';
+  // Set when the issue comes from the routing graph analysis
+  graphCheck?: GraphCheck;
+  // Other nodes involved (e.g. the rest of a loop)
+  relatedNodes?: number[];
   // API dependency info for "Use Mock Data" feature
   apiDependency?: {
     type: 'bigquery' | 'email' | 'booking' | 'external_api' | 'integration';
@@ -377,6 +517,8 @@ export interface EditRequest {
   currentCsv: string;
   currentScripts: CustomScript[];
   targetNodeNum?: number;
+  // Solution the edit's AI cost is recorded against
+  solutionId?: string;
 }
 
 // Result of an edit operation
@@ -409,4 +551,6 @@ export interface LiveEditSession {
   scripts: CustomScript[];
   versionId?: string;
   editHistory: EditResult[];
+  // Google Sheet kept in sync with the session's CSV
+  spreadsheetId?: string;
 }
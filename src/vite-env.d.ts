@@ -3,6 +3,15 @@
 interface ImportMetaEnv {
   readonly VITE_COMPOSIO_API_KEY: string;
   readonly VITE_PYPESTREAM_API_KEY: string;
+  // Local Bot Manager stand-in (npm run mock:botmanager), e.g. http://localhost:4010
+  readonly VITE_PYPESTREAM_MOCK_URL?: string;
+  // Pipeline record/replay (src/services/pipeline-fixtures.ts)
+  readonly VITE_PIPELINE_FIXTURE_MODE?: 'record' | 'replay';
+  readonly VITE_PIPELINE_FIXTURE?: string;
+  // Per-build AI spend limit in USD (src/services/cost-ledger.ts)
+  readonly VITE_BUILD_BUDGET_USD?: string;
+  // Comma-separated emails that see the error-learning admin page
+  readonly VITE_ADMIN_EMAILS?: string;
 }
 
 interface ImportMeta {
@@ -6,16 +6,28 @@
  * Endpoints:
  * - GET /sd-error-learning/patterns - List error patterns (with optional filters)
  * - GET /sd-error-learning/patterns/:id - Get a single error pattern with its fixes
- * - POST /sd-error-learning/patterns - Log/upsert an error pattern
+ * - POST /sd-error-learning/patterns - Log/upsert an error pattern (signed-in users)
  * - GET /sd-error-learning/fixes - Get proven fixes (high confidence)
- * - POST /sd-error-learning/fixes - Log a fix attempt
+ * - POST /sd-error-learning/fixes - Log a fix attempt (signed-in users)
  * - GET /sd-error-learning/errors-to-avoid - Get common errors for generation prompt
  * - POST /sd-error-learning/query-fixes - Query fixes for specific error signatures
+ *
+ * Admin endpoints (caller's email must be in the ADMIN_EMAILS secret):
+ * - PUT /sd-error-learning/patterns/:id - Set avoid_in_prompt
+ * - POST /sd-error-learning/patterns/merge - Merge duplicate patterns into one
+ * - PUT /sd-error-learning/fixes/:id - Approve, reject or edit a fix attempt
+ * - PUT /sd-error-learning/rules/:id - Create or replace a fix rule
+ * - POST /sd-error-learning/human-fixes - Log corrections made by a person (approved on insert)
  */
 
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
 
+const ADMIN_EMAILS = (Deno.env.get('ADMIN_EMAILS') || '')
+  .split(',')
+  .map(e => e.trim().toLowerCase())
+  .filter(Boolean);
+
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
@@ -41,6 +53,16 @@ serve(async (req) => {
     const subPath = pathParts.slice(funcIndex + 1);
     const resource = subPath[0];
 
+    // Writes need a verified user - the service-role client bypasses RLS
+    if (req.method === 'POST' && (resource === 'patterns' || resource === 'fixes' || resource === 'human-fixes')) {
+      if (!(await getUserId(req, supabase))) {
+        return new Response(
+          JSON.stringify({ error: 'Sign in required' }),
+          { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+    }
+
     // ============================================
     // ERROR PATTERNS ENDPOINTS
     // ============================================
@@ -48,18 +70,23 @@ serve(async (req) => {
     // GET /sd-error-learning/patterns - List error patterns
     if (req.method === 'GET' && resource === 'patterns' && subPath.length === 1) {
       const limit = parseInt(url.searchParams.get('limit') || '50');
-      const orderBy = url.searchParams.get('order_by') || 'occurrence_count';
+      const orderBy = url.searchParams.get('order_by') === 'last_seen_at' ? 'last_seen_at' : 'occurrence_count';
       const errorType = url.searchParams.get('error_type');
+      const search = url.searchParams.get('search');
 
       let query = supabase
         .from('error_patterns')
-        .select('*')
+        .select('*, fix_attempts(count)')
         .order(orderBy, { ascending: false })
         .limit(limit);
 
       if (errorType) {
         query = query.eq('error_type', errorType);
       }
+      if (search) {
+        const term = search.replace(/[%,()]/g, ' ');
+        query = query.or(`error_description.ilike.%${term}%,error_signature.ilike.%${term}%,field_name.ilike.%${term}%`);
+      }
 
       const { data, error } = await query;
       if (error) throw error;
@@ -106,7 +133,7 @@ serve(async (req) => {
     }
 
     // POST /sd-error-learning/patterns - Log/upsert an error pattern
-    if (req.method === 'POST' && resource === 'patterns') {
+    if (req.method === 'POST' && resource === 'patterns' && subPath.length === 1) {
       const { 
         error_signature, 
         error_type, 
@@ -160,8 +187,8 @@ serve(async (req) => {
             error_description
           )
         `)
-        .gte('confidence_score', minConfidence)
-        .gte('applied_count', minApplied)
+        .or(`and(confidence_score.gte.${minConfidence},applied_count.gte.${minApplied}),review_status.eq.approved`)
+        .neq('review_status', 'rejected')
         .order('confidence_score', { ascending: false })
         .limit(limit);
 
@@ -205,6 +232,86 @@ serve(async (req) => {
       );
     }
 
+    // POST /sd-error-learning/human-fixes - Log human corrections and guidance
+    if (req.method === 'POST' && resource === 'human-fixes') {
+      const adminEmail = await getAdminEmail(req, supabase);
+      if (!adminEmail) {
+        return new Response(
+          JSON.stringify({ error: 'Admin access required' }),
+          { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      const { fixes, general_guidance } = await req.json();
+
+      if (!Array.isArray(fixes)) {
+        return new Response(
+          JSON.stringify({ error: 'fixes must be an array' }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      let logged = 0;
+      for (const fix of fixes) {
+        const errorSignature = `node_${fix.node_num}_${fix.field}`;
+
+        const { data: pattern, error: patternError } = await supabase
+          .from('error_patterns')
+          .upsert({
+            error_signature: errorSignature,
+            error_type: 'Human-Identified',
+            field_name: fix.field,
+            error_description: `Field "${fix.field}" had incorrect value. ${fix.explanation}`,
+            node_context: { node_num: fix.node_num, field: fix.field },
+            occurrence_count: 1,
+            last_seen_at: new Date().toISOString(),
+          }, { onConflict: 'error_signature' })
+          .select('id')
+          .single();
+
+        if (patternError || !pattern) {
+          console.warn('Failed to log pattern for human fix:', patternError);
+          continue;
+        }
+
+        // Counts start from this one correction; the admin's approval is what makes it proven
+        const { error: fixError } = await supabase
+          .from('fix_attempts')
+          .insert({
+            error_pattern_id: pattern.id,
+            fix_description: `Change "${fix.current_value}" to "${fix.correct_value}". ${fix.explanation}`,
+            fix_diff: { before: fix.current_value, after: fix.correct_value },
+            success: true,
+            applied_count: 1,
+            success_count: 1,
+            failure_count: 0,
+            review_status: 'approved',
+            reviewed_by: adminEmail,
+            reviewed_at: new Date().toISOString(),
+          });
+        if (!fixError) logged++;
+      }
+
+      if (general_guidance) {
+        const { error } = await supabase
+          .from('error_patterns')
+          .insert({
+            error_signature: `guidance_${Date.now()}`,
+            error_type: 'Human-Guidance',
+            field_name: null,
+            error_description: general_guidance,
+            node_context: null,
+            occurrence_count: 1,
+          });
+        if (error) throw error;
+      }
+
+      return new Response(
+        JSON.stringify({ logged, message: 'Human fixes logged' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
     // ============================================
     // QUERY ENDPOINTS
     // ============================================
@@ -217,6 +324,7 @@ serve(async (req) => {
       const { data: patterns, error: patternsError } = await supabase
         .from('error_patterns')
         .select('error_type, field_name, error_description, occurrence_count')
+        .eq('avoid_in_prompt', true)
         .order('occurrence_count', { ascending: false })
         .limit(limit);
 
@@ -232,8 +340,8 @@ serve(async (req) => {
             error_type
           )
         `)
-        .gte('confidence_score', 0.7)
-        .gte('applied_count', 3)
+        .or('and(confidence_score.gte.0.7,applied_count.gte.3),review_status.eq.approved')
+        .neq('review_status', 'rejected')
         .order('confidence_score', { ascending: false })
         .limit(30);
 
@@ -265,11 +373,12 @@ serve(async (req) => {
         );
       }
 
-      // First get matching patterns
+      // First get matching patterns (including patterns they were merged into)
+      const signatureList = error_signatures.map((s: string) => String(s).replace(/[,(){}"]/g, '')).join(',');
       const { data: patterns, error: patternsError } = await supabase
         .from('error_patterns')
         .select('id, error_signature, error_type')
-        .in('error_signature', error_signatures);
+        .or(`error_signature.in.(${signatureList}),merged_signatures.ov.{${signatureList}}`);
 
       if (patternsError) throw patternsError;
 
@@ -296,6 +405,7 @@ serve(async (req) => {
         `)
         .in('error_pattern_id', patternIds)
         .gte('confidence_score', 0.5)
+        .neq('review_status', 'rejected')
         .order('confidence_score', { ascending: false });
 
       if (fixesError) throw fixesError;
@@ -340,6 +450,151 @@ serve(async (req) => {
       );
     }
 
+    // ============================================
+    // ADMIN ENDPOINTS
+    // ============================================
+
+    if ((req.method === 'PUT' && (resource === 'patterns' || resource === 'fixes' || resource === 'rules') && subPath.length === 2)
+      || (req.method === 'POST' && resource === 'patterns' && subPath[1] === 'merge')) {
+      const adminEmail = await getAdminEmail(req, supabase);
+      if (!adminEmail) {
+        return new Response(
+          JSON.stringify({ error: 'Admin access required' }),
+          { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      // POST /sd-error-learning/patterns/merge - Merge duplicate signatures
+      if (resource === 'patterns' && subPath[1] === 'merge') {
+        const { target_id, source_ids } = await req.json();
+
+        if (!target_id || !Array.isArray(source_ids) || source_ids.length === 0) {
+          return new Response(
+            JSON.stringify({ error: 'target_id and a non-empty source_ids array are required' }),
+            { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        const { error } = await supabase.rpc('merge_error_patterns', {
+          p_target_id: target_id,
+          p_source_ids: source_ids,
+        });
+        if (error) throw error;
+
+        const { data: pattern, error: patternError } = await supabase
+          .from('error_patterns')
+          .select('*')
+          .eq('id', target_id)
+          .single();
+        if (patternError) throw patternError;
+
+        console.log(`Merged ${source_ids.length} pattern(s) into ${target_id} (${adminEmail})`);
+        return new Response(
+          JSON.stringify({ pattern, message: 'Patterns merged' }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      // PUT /sd-error-learning/patterns/:id - Prompt inclusion
+      if (resource === 'patterns') {
+        const { avoid_in_prompt } = await req.json();
+
+        if (typeof avoid_in_prompt !== 'boolean') {
+          return new Response(
+            JSON.stringify({ error: 'avoid_in_prompt must be a boolean' }),
+            { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        const { data, error } = await supabase
+          .from('error_patterns')
+          .update({ avoid_in_prompt })
+          .eq('id', subPath[1])
+          .select()
+          .single();
+        if (error) throw error;
+
+        return new Response(
+          JSON.stringify({ pattern: data }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      // PUT /sd-error-learning/rules/:id - Create or replace a fix rule
+      if (resource === 'rules') {
+        const { rule, source, enabled, fix_attempt_id } = await req.json();
+
+        if (!rule || typeof rule !== 'object' || !['builtin', 'promoted', 'manual'].includes(source)) {
+          return new Response(
+            JSON.stringify({ error: 'rule and a source of builtin, promoted or manual are required' }),
+            { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        const { data, error } = await supabase
+          .from('fix_rules')
+          .upsert({
+            id: subPath[1],
+            rule,
+            source,
+            enabled: enabled !== false,
+            fix_attempt_id: fix_attempt_id || null,
+            updated_at: new Date().toISOString(),
+          })
+          .select()
+          .single();
+        if (error) throw error;
+
+        console.log(`Saved fix rule ${subPath[1]} (${adminEmail})`);
+        return new Response(
+          JSON.stringify({ rule: data }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      // PUT /sd-error-learning/fixes/:id - Review or edit a fix attempt
+      const { review_status, fix_description, fix_diff } = await req.json();
+      const updates: Record<string, unknown> = {};
+
+      if (review_status !== undefined) {
+        if (!['pending', 'approved', 'rejected'].includes(review_status)) {
+          return new Response(
+            JSON.stringify({ error: 'review_status must be pending, approved or rejected' }),
+            { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+        updates.review_status = review_status;
+        updates.reviewed_by = adminEmail;
+        updates.reviewed_at = new Date().toISOString();
+      }
+      if (typeof fix_description === 'string' && fix_description.trim()) {
+        updates.fix_description = fix_description.trim();
+      }
+      if (fix_diff !== undefined) {
+        updates.fix_diff = fix_diff;
+      }
+
+      if (Object.keys(updates).length === 0) {
+        return new Response(
+          JSON.stringify({ error: 'Nothing to update' }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      const { data, error } = await supabase
+        .from('fix_attempts')
+        .update(updates)
+        .eq('id', subPath[1])
+        .select()
+        .single();
+      if (error) throw error;
+
+      return new Response(
+        JSON.stringify({ fix: data }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
     return new Response(
       JSON.stringify({ error: 'Not found' }),
       { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
@@ -353,3 +608,27 @@ serve(async (req) => {
     );
   }
 });
+
+/**
+ * Id of the user whose JWT is in the Authorization header, or null when it is missing or invalid
+ */
+async function getUserId(req: Request, supabase: ReturnType<typeof createClient>): Promise<string | null> {
+  const token = req.headers.get('Authorization')?.replace(/^Bearer\s+/i, '');
+  if (!token) return null;
+
+  const { data: { user }, error } = await supabase.auth.getUser(token);
+  return error || !user ? null : user.id;
+}
+
+/**
+ * Email of the calling user when they are an admin, otherwise null
+ */
+async function getAdminEmail(req: Request, supabase: ReturnType<typeof createClient>): Promise<string | null> {
+  const token = req.headers.get('Authorization')?.replace(/^Bearer\s+/i, '');
+  if (!token || ADMIN_EMAILS.length === 0) return null;
+
+  const { data: { user }, error } = await supabase.auth.getUser(token);
+  const email = user?.email?.toLowerCase();
+  if (error || !email || !ADMIN_EMAILS.includes(email)) return null;
+  return email;
+}
@@ -0,0 +1,39 @@
+-- Solution Version History
+-- Immutable snapshots of a solution's CSV, scripts and architecture state.
+-- A row is written on every save, deploy and AI edit so any version can be restored.
+
+CREATE TABLE IF NOT EXISTS solution_versions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  version_number INTEGER NOT NULL,       -- 1, 2, 3... per project
+  source TEXT NOT NULL CHECK (source IN ('generation', 'edit', 'ux-apply', 'manual', 'deploy', 'restore')),
+  author TEXT,                           -- Email of the user who made the change
+  note TEXT,                             -- Optional human-readable description
+  csv_content TEXT NOT NULL,
+  scripts JSONB,                         -- CustomScript[] at the time of the snapshot
+  architecture_state JSONB,
+  node_count INTEGER DEFAULT 0,
+  bot_id TEXT,                           -- Bot Manager bot this version was deployed to
+  version_id TEXT,                       -- Bot Manager version ID (for redeploying on restore)
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+
+  UNIQUE(project_id, version_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_solution_versions_project ON solution_versions(project_id, version_number DESC);
+
+-- Enable Row Level Security
+ALTER TABLE solution_versions ENABLE ROW LEVEL SECURITY;
+
+-- Snapshots are immutable: owners can read and insert, never update
+CREATE POLICY "Users can read own solution versions"
+  ON solution_versions FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own solution versions"
+  ON solution_versions FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+COMMENT ON TABLE solution_versions IS 'Immutable history of solution CSV, scripts and architecture state';
+COMMENT ON COLUMN solution_versions.source IS 'What produced this version: generation, edit (AI), ux-apply, manual, deploy or restore';
@@ -0,0 +1,36 @@
+-- AI Cost Ledger
+-- One row per AI middleware call made for a solution: tokens, model and
+-- estimated cost, tagged with the pipeline step that made it.
+
+CREATE TABLE IF NOT EXISTS ai_usage (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  step TEXT NOT NULL CHECK (step IN ('plan', 'flow-generation', 'refinement', 'ux-review', 'live-edit', 'other')),
+  pass INTEGER,                          -- Refinement iteration, when step = 'refinement'
+  tag TEXT NOT NULL,                     -- Middleware endpoint, e.g. 'refine-csv'
+  provider TEXT NOT NULL,                -- anthropic, google, openai-compatible, replay
+  model TEXT NOT NULL,
+  input_tokens INTEGER NOT NULL DEFAULT 0,
+  output_tokens INTEGER NOT NULL DEFAULT 0,
+  cost_usd NUMERIC(12, 6) NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ai_usage_project ON ai_usage(project_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_ai_usage_user ON ai_usage(user_id);
+
+-- Enable Row Level Security
+ALTER TABLE ai_usage ENABLE ROW LEVEL SECURITY;
+
+-- Ledger rows are append-only: owners can read and insert, never update
+CREATE POLICY "Users can read own AI usage"
+  ON ai_usage FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own AI usage"
+  ON ai_usage FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+COMMENT ON TABLE ai_usage IS 'Per-call AI token usage and estimated cost, keyed by solution and pipeline step';
+COMMENT ON COLUMN ai_usage.cost_usd IS 'Estimate from the dev-server price table at the time of the call';
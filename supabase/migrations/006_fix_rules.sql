@@ -0,0 +1,35 @@
+-- Declarative Fix Rules
+-- Deterministic fixes for validation errors, applied before any AI refinement.
+-- The built-in rules ship with the app (src/services/fix-rules.ts); rows here
+-- add to them, and a row with a built-in rule's id overrides it.
+
+CREATE TABLE IF NOT EXISTS fix_rules (
+  id TEXT PRIMARY KEY,                   -- Rule id, e.g. 'promoted-<fix attempt id>' or a built-in id
+  rule JSONB NOT NULL,                   -- FixRule: match, target and operations
+  source TEXT NOT NULL CHECK (source IN ('builtin', 'promoted', 'manual')),
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  fix_attempt_id UUID REFERENCES fix_attempts(id) ON DELETE SET NULL,  -- Proven fix the rule was promoted from
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_fix_rules_fix_attempt ON fix_rules(fix_attempt_id);
+
+-- Enable Row Level Security
+ALTER TABLE fix_rules ENABLE ROW LEVEL SECURITY;
+
+-- Rules are shared like the error-learning tables they are promoted from
+CREATE POLICY "Allow public read on fix_rules"
+  ON fix_rules FOR SELECT
+  USING (true);
+
+CREATE POLICY "Allow insert on fix_rules"
+  ON fix_rules FOR INSERT
+  WITH CHECK (true);
+
+CREATE POLICY "Allow update on fix_rules"
+  ON fix_rules FOR UPDATE
+  USING (true);
+
+COMMENT ON TABLE fix_rules IS 'Runtime fix rules merged with the built-in rules by loadFixRules()';
+COMMENT ON COLUMN fix_rules.enabled IS 'Disabled rules are loaded but never applied (use to switch off a built-in rule)';
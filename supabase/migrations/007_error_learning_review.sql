@@ -0,0 +1,103 @@
+-- Error Learning Curation
+-- Admin review of the learning data: approve/reject fixes, choose which
+-- patterns are fed to the generation prompt, and merge duplicate signatures.
+
+ALTER TABLE error_patterns
+  ADD COLUMN IF NOT EXISTS avoid_in_prompt BOOLEAN NOT NULL DEFAULT true,   -- Included in getErrorsToAvoid / formatErrorsToAvoidForPrompt
+  ADD COLUMN IF NOT EXISTS merged_signatures TEXT[] NOT NULL DEFAULT '{}';  -- Signatures of patterns merged into this one
+
+ALTER TABLE fix_attempts
+  ADD COLUMN IF NOT EXISTS review_status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (review_status IN ('pending', 'approved', 'rejected')),
+  ADD COLUMN IF NOT EXISTS reviewed_by TEXT,                                -- Email of the admin who reviewed the fix
+  ADD COLUMN IF NOT EXISTS reviewed_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_error_patterns_last_seen ON error_patterns(last_seen_at DESC);
+CREATE INDEX IF NOT EXISTS idx_error_patterns_merged ON error_patterns USING GIN (merged_signatures);
+CREATE INDEX IF NOT EXISTS idx_fix_attempts_review ON fix_attempts(review_status);
+
+-- Errors with a merged-away signature keep counting against the surviving pattern
+CREATE OR REPLACE FUNCTION upsert_error_pattern(
+  p_error_signature TEXT,
+  p_error_type TEXT,
+  p_field_name TEXT,
+  p_error_description TEXT,
+  p_node_context JSONB DEFAULT NULL
+) RETURNS UUID AS $$
+DECLARE
+  v_id UUID;
+BEGIN
+  SELECT id INTO v_id FROM error_patterns WHERE p_error_signature = ANY(merged_signatures) LIMIT 1;
+  IF v_id IS NOT NULL THEN
+    UPDATE error_patterns SET
+      occurrence_count = occurrence_count + 1,
+      last_seen_at = NOW(),
+      node_context = COALESCE(node_context, p_node_context)
+    WHERE id = v_id;
+    RETURN v_id;
+  END IF;
+
+  INSERT INTO error_patterns (error_signature, error_type, field_name, error_description, node_context)
+  VALUES (p_error_signature, p_error_type, p_field_name, p_error_description, p_node_context)
+  ON CONFLICT (error_signature) DO UPDATE SET
+    occurrence_count = error_patterns.occurrence_count + 1,
+    last_seen_at = NOW(),
+    -- Update node_context if provided and current is null
+    node_context = COALESCE(error_patterns.node_context, EXCLUDED.node_context)
+  RETURNING id INTO v_id;
+
+  RETURN v_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Merge duplicate patterns into p_target_id: fixes move over (identical fix
+-- descriptions are combined), counts and dates are folded in, and the source
+-- signatures are remembered so future errors land on the target
+CREATE OR REPLACE FUNCTION merge_error_patterns(
+  p_target_id UUID,
+  p_source_ids UUID[]
+) RETURNS UUID AS $$
+DECLARE
+  v_fix RECORD;
+BEGIN
+  p_source_ids := array_remove(p_source_ids, p_target_id);
+
+  FOR v_fix IN SELECT * FROM fix_attempts WHERE error_pattern_id = ANY(p_source_ids) LOOP
+    IF EXISTS (SELECT 1 FROM fix_attempts WHERE error_pattern_id = p_target_id AND fix_description = v_fix.fix_description) THEN
+      UPDATE fix_attempts SET
+        applied_count = applied_count + v_fix.applied_count,
+        success_count = success_count + v_fix.success_count,
+        failure_count = failure_count + v_fix.failure_count,
+        last_applied_at = GREATEST(last_applied_at, v_fix.last_applied_at),
+        fix_diff = COALESCE(fix_diff, v_fix.fix_diff)
+      WHERE error_pattern_id = p_target_id AND fix_description = v_fix.fix_description;
+      DELETE FROM fix_attempts WHERE id = v_fix.id;
+    ELSE
+      UPDATE fix_attempts SET error_pattern_id = p_target_id WHERE id = v_fix.id;
+    END IF;
+  END LOOP;
+
+  UPDATE error_patterns t SET
+    occurrence_count = t.occurrence_count + s.occurrences,
+    first_seen_at = LEAST(t.first_seen_at, s.first_seen),
+    last_seen_at = GREATEST(t.last_seen_at, s.last_seen),
+    merged_signatures = ARRAY(SELECT DISTINCT unnest(t.merged_signatures || s.signatures))
+  FROM (
+    SELECT
+      SUM(occurrence_count) AS occurrences,
+      MIN(first_seen_at) AS first_seen,
+      MAX(last_seen_at) AS last_seen,
+      array_agg(error_signature) || COALESCE((SELECT array_agg(m) FROM error_patterns, unnest(merged_signatures) m WHERE id = ANY(p_source_ids)), '{}') AS signatures
+    FROM error_patterns
+    WHERE id = ANY(p_source_ids)
+  ) s
+  WHERE t.id = p_target_id AND s.occurrences IS NOT NULL;
+
+  DELETE FROM error_patterns WHERE id = ANY(p_source_ids);
+
+  RETURN p_target_id;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON COLUMN error_patterns.avoid_in_prompt IS 'Admin switch: feed this pattern to the generation prompt as an error to avoid';
+COMMENT ON COLUMN fix_attempts.review_status IS 'Admin review: approved fixes count as proven, rejected fixes are never used';
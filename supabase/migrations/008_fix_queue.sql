@@ -0,0 +1,49 @@
+-- Human Fix Queue
+-- Builds instantBuild gave up on (rows that survived every automatic fix).
+-- Any teammate can claim one, fix the failed rows, and resume the pipeline
+-- from the cached generation instead of regenerating.
+
+CREATE TABLE IF NOT EXISTS fix_queue (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id UUID REFERENCES projects(id) ON DELETE SET NULL,  -- Solution the build belongs to, if saved
+  project_name TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'claimed', 'resolved', 'abandoned')),
+  error TEXT NOT NULL,                   -- Pipeline error message
+  context TEXT,                          -- humanInterventionContext from instantBuild
+  csv_content TEXT NOT NULL,             -- CSV that failed to deploy
+  failed_rows JSONB NOT NULL DEFAULT '[]',        -- FailedRow[]
+  validation_errors JSONB NOT NULL DEFAULT '[]',  -- Raw Bot Manager errors
+  build_input JSONB NOT NULL,            -- description, extracted details and brand assets
+  cached_generation JSONB,               -- _cachedGeneration for pipeline resume
+  created_by TEXT,                       -- Email of the user whose build got stuck
+  claimed_by TEXT,                       -- Email of the teammate working on it
+  claimed_at TIMESTAMPTZ,
+  resolved_by TEXT,
+  resolved_at TIMESTAMPTZ,
+  bot_id TEXT,                           -- Bot deployed by the resumed pipeline
+  widget_url TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_fix_queue_status ON fix_queue(status, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_fix_queue_project ON fix_queue(project_id);
+
+-- Enable Row Level Security
+ALTER TABLE fix_queue ENABLE ROW LEVEL SECURITY;
+
+-- The queue is shared: any signed-in teammate can see, add and work items
+CREATE POLICY "Authenticated users can read fix_queue"
+  ON fix_queue FOR SELECT
+  USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Authenticated users can insert fix_queue"
+  ON fix_queue FOR INSERT
+  WITH CHECK (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Authenticated users can update fix_queue"
+  ON fix_queue FOR UPDATE
+  USING (auth.uid() IS NOT NULL);
+
+COMMENT ON TABLE fix_queue IS 'Stuck Instant Build runs waiting for a human fix';
+COMMENT ON COLUMN fix_queue.status IS 'open -> claimed -> resolved; claimed items can be released back to open or abandoned';
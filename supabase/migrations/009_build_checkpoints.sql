@@ -0,0 +1,46 @@
+-- Instant Build Checkpoints
+-- Output of each completed pipeline stage, saved against the solution so an
+-- interrupted build (refresh, auth expiry, closed tab) resumes from the last
+-- completed stage on any device. Cleared when a build finishes.
+
+CREATE TABLE IF NOT EXISTS build_checkpoints (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  fingerprint TEXT NOT NULL,             -- Hash of the build input; checkpoints from other input are discarded
+  stage TEXT NOT NULL CHECK (stage IN (
+    'preflight', 'plan', 'flow', 'assembly', 'pre-validation', 'validation',
+    'refinement', 'scripts', 'deploy', 'channel', 'health-check'
+  )),
+  stage_key TEXT NOT NULL DEFAULT '',    -- Flow name for 'flow' checkpoints
+  status TEXT NOT NULL CHECK (status IN ('active', 'done', 'error')),
+  output JSONB,                          -- Stage output (partial while active, e.g. refinement CSV so far)
+  error TEXT,
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+  UNIQUE(project_id, stage, stage_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_build_checkpoints_project ON build_checkpoints(project_id);
+
+-- Enable Row Level Security
+ALTER TABLE build_checkpoints ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read own build checkpoints"
+  ON build_checkpoints FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own build checkpoints"
+  ON build_checkpoints FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own build checkpoints"
+  ON build_checkpoints FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own build checkpoints"
+  ON build_checkpoints FOR DELETE
+  USING (auth.uid() = user_id);
+
+COMMENT ON TABLE build_checkpoints IS 'Per-stage output of the Instant Build pipeline for resuming interrupted builds';
+COMMENT ON COLUMN build_checkpoints.status IS 'active (started, output may be partial), done, or error (re-run on resume)';
@@ -0,0 +1,10 @@
+-- Google Sheets Sync Versions
+-- Content pulled or merged from a solution's Google Sheet is recorded as a
+-- version like any other edit, with its own source.
+
+ALTER TABLE solution_versions DROP CONSTRAINT IF EXISTS solution_versions_source_check;
+
+ALTER TABLE solution_versions ADD CONSTRAINT solution_versions_source_check
+  CHECK (source IN ('generation', 'edit', 'ux-apply', 'manual', 'deploy', 'restore', 'sheets-sync'));
+
+COMMENT ON COLUMN solution_versions.source IS 'What produced this version: generation, edit (AI), ux-apply, manual, deploy, restore or sheets-sync';
@@ -0,0 +1,10 @@
+-- Imported Bot Versions
+-- Bots imported from a CSV file, Google Sheet or Bot Manager start their
+-- version history with the imported CSV and scripts.
+
+ALTER TABLE solution_versions DROP CONSTRAINT IF EXISTS solution_versions_source_check;
+
+ALTER TABLE solution_versions ADD CONSTRAINT solution_versions_source_check
+  CHECK (source IN ('generation', 'edit', 'ux-apply', 'manual', 'deploy', 'restore', 'sheets-sync', 'import'));
+
+COMMENT ON COLUMN solution_versions.source IS 'What produced this version: generation, edit (AI), ux-apply, manual, deploy, restore, sheets-sync or import';
@@ -0,0 +1,32 @@
+-- Solution Version Numbering
+-- version_number is assigned by the database instead of the client. Two
+-- snapshots of the same solution saved at once (e.g. a save racing a deploy)
+-- used to read the same latest number and collide on
+-- UNIQUE(project_id, version_number). The trigger takes a per-project lock
+-- and numbers the row after the current maximum.
+
+ALTER TABLE solution_versions ALTER COLUMN version_number SET DEFAULT 0;
+
+-- SECURITY DEFINER so the maximum covers every row of the project, not just
+-- the ones the caller's RLS policies can see
+CREATE OR REPLACE FUNCTION assign_solution_version_number()
+RETURNS TRIGGER AS $$
+BEGIN
+  -- Serializes concurrent snapshots of one project until the transaction ends
+  PERFORM pg_advisory_xact_lock(hashtext('solution_versions:' || NEW.project_id::text));
+
+  SELECT COALESCE(MAX(version_number), 0) + 1 INTO NEW.version_number
+  FROM solution_versions
+  WHERE project_id = NEW.project_id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS solution_versions_assign_number ON solution_versions;
+
+CREATE TRIGGER solution_versions_assign_number
+  BEFORE INSERT ON solution_versions
+  FOR EACH ROW EXECUTE FUNCTION assign_solution_version_number();
+
+COMMENT ON COLUMN solution_versions.version_number IS '1, 2, 3... per project, assigned on insert by assign_solution_version_number()';
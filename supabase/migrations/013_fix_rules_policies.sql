@@ -0,0 +1,24 @@
+-- Fix Rules Access
+-- Fix rules are applied to every build, so only the service role writes them:
+-- admins save rules through the sd-error-learning edge function (PUT /rules/:id).
+-- Reads need a signed-in user; the app never loads rules anonymously.
+
+DROP POLICY IF EXISTS "Allow public read on fix_rules" ON fix_rules;
+DROP POLICY IF EXISTS "Allow insert on fix_rules" ON fix_rules;
+DROP POLICY IF EXISTS "Allow update on fix_rules" ON fix_rules;
+
+CREATE POLICY "Signed-in users can read fix_rules"
+  ON fix_rules FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Service role can insert fix_rules"
+  ON fix_rules FOR INSERT
+  TO service_role
+  WITH CHECK (true);
+
+CREATE POLICY "Service role can update fix_rules"
+  ON fix_rules FOR UPDATE
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
@@ -0,0 +1,41 @@
+-- Error Learning Write Access
+-- error_patterns and fix_attempts feed every generation prompt, so only the
+-- service role writes them. The app logs errors, fixes and human fixes through
+-- the sd-error-learning edge function; review writes (approve, merge, prompt
+-- inclusion) additionally require an admin account there.
+
+DROP POLICY IF EXISTS "Allow service role insert on error_patterns" ON error_patterns;
+DROP POLICY IF EXISTS "Allow service role update on error_patterns" ON error_patterns;
+DROP POLICY IF EXISTS "Allow service role insert on fix_attempts" ON fix_attempts;
+DROP POLICY IF EXISTS "Allow service role update on fix_attempts" ON fix_attempts;
+
+CREATE POLICY "Allow service role insert on error_patterns"
+  ON error_patterns FOR INSERT
+  TO service_role
+  WITH CHECK (true);
+
+CREATE POLICY "Allow service role update on error_patterns"
+  ON error_patterns FOR UPDATE
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "Allow service role insert on fix_attempts"
+  ON fix_attempts FOR INSERT
+  TO service_role
+  WITH CHECK (true);
+
+CREATE POLICY "Allow service role update on fix_attempts"
+  ON fix_attempts FOR UPDATE
+  TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- Functions are executable by PUBLIC by default; these are only called by the edge function
+REVOKE EXECUTE ON FUNCTION merge_error_patterns(UUID, UUID[]) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION upsert_error_pattern(TEXT, TEXT, TEXT, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION upsert_fix_attempt(UUID, TEXT, JSONB, BOOLEAN) FROM PUBLIC, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION merge_error_patterns(UUID, UUID[]) TO service_role;
+GRANT EXECUTE ON FUNCTION upsert_error_pattern(TEXT, TEXT, TEXT, TEXT, JSONB) TO service_role;
+GRANT EXECUTE ON FUNCTION upsert_fix_attempt(UUID, TEXT, JSONB, BOOLEAN) TO service_role;
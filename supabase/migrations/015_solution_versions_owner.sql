@@ -0,0 +1,17 @@
+-- Solution Versions Ownership
+-- The insert policy only checked user_id, so a user could write version rows
+-- into another user's project. Snapshots may now only be added to projects
+-- the caller owns.
+
+DROP POLICY IF EXISTS "Users can insert own solution versions" ON solution_versions;
+
+CREATE POLICY "Users can insert own solution versions"
+  ON solution_versions FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM projects
+      WHERE projects.id = solution_versions.project_id
+        AND projects.user_id = auth.uid()
+    )
+  );
@@ -0,0 +1,81 @@
+-- Fix Queue Update Rules
+-- The update policy let any signed-in user rewrite any column of any item,
+-- including the build input a teammate's resumed build runs with. Now:
+-- - only status, claim and fix-result columns can be updated at all
+-- - open items can be claimed (by the caller) or abandoned by anyone
+-- - a claimed item can only be changed by the teammate who claimed it:
+--   released back to open, updated with a failed build's rows, resolved by
+--   them, or abandoned
+
+REVOKE UPDATE ON fix_queue FROM anon, authenticated;
+GRANT UPDATE (
+  status,
+  error,
+  context,
+  csv_content,
+  failed_rows,
+  validation_errors,
+  cached_generation,
+  claimed_by,
+  claimed_at,
+  resolved_by,
+  resolved_at,
+  bot_id,
+  widget_url,
+  updated_at
+) ON fix_queue TO authenticated;
+
+DROP POLICY IF EXISTS "Authenticated users can update fix_queue" ON fix_queue;
+
+CREATE POLICY "Teammates can update open or own claimed fix_queue items"
+  ON fix_queue FOR UPDATE
+  USING (
+    auth.uid() IS NOT NULL
+    AND (status = 'open' OR (status = 'claimed' AND claimed_by = auth.jwt() ->> 'email'))
+  )
+  WITH CHECK (auth.uid() IS NOT NULL);
+
+-- RLS can't compare the old and new row, so the allowed transitions are
+-- checked here
+CREATE OR REPLACE FUNCTION check_fix_queue_update()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_email TEXT := auth.jwt() ->> 'email';
+BEGIN
+  -- Dashboard and service-role writes are not limited
+  IF auth.role() = 'service_role' OR auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF OLD.status = 'open' THEN
+    IF NEW.status = 'claimed' AND NEW.claimed_by = v_email THEN
+      RETURN NEW;
+    END IF;
+    IF NEW.status = 'abandoned' AND NEW.claimed_by IS NOT DISTINCT FROM OLD.claimed_by THEN
+      RETURN NEW;
+    END IF;
+  ELSIF OLD.status = 'claimed' AND OLD.claimed_by = v_email THEN
+    IF NEW.status = 'open' AND NEW.claimed_by IS NULL THEN
+      RETURN NEW;
+    END IF;
+    IF NEW.status = 'claimed' AND NEW.claimed_by = v_email THEN
+      RETURN NEW;
+    END IF;
+    IF NEW.status = 'resolved' AND NEW.claimed_by = v_email AND NEW.resolved_by = v_email THEN
+      RETURN NEW;
+    END IF;
+    IF NEW.status = 'abandoned' THEN
+      RETURN NEW;
+    END IF;
+  END IF;
+
+  RAISE EXCEPTION 'fix_queue item % cannot change from % to % for this user', OLD.id, OLD.status, NEW.status
+    USING ERRCODE = 'insufficient_privilege';
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+DROP TRIGGER IF EXISTS fix_queue_check_update ON fix_queue;
+
+CREATE TRIGGER fix_queue_check_update
+  BEFORE UPDATE ON fix_queue
+  FOR EACH ROW EXECUTE FUNCTION check_fix_queue_update();
@@ -4,10 +4,21 @@ import { config as dotenvConfig } from 'dotenv'
 import path, { resolve } from 'path'
 import fs, { readFileSync, readdirSync } from 'fs'
 import { readFile as fsReadFile } from 'fs/promises'
+import { FLOW_NODES_TOOL, validateGeneratedNodes } from './src/services/node-schema'
+import { runActionScript, formatSandboxReport } from './vite/action-sandbox'
+import { startMockBotManager } from './vite/mock-bot-manager'
+import { extractSiteBrand } from './vite/site-brand'
+import { createBuildWorker, BuildJobError } from './vite/build-worker'
+import { getPypestreamHosts } from './src/services/pypestream-hosts'
+import { BUBBLE_RADIUS, themeClassSelector } from './src/services/brand-theme'
+import { llm, llmUsageMiddleware, RateLimitError, AuthError } from './vite/llm-gateway'
 
 // Load .env file for server-side middleware
 dotenvConfig({ path: resolve(__dirname, '.env') })
 
+// Pypestream API hosts - all point at the mock Bot Manager when VITE_PYPESTREAM_MOCK_URL is set
+const PYPESTREAM_HOSTS = getPypestreamHosts(process.env.VITE_PYPESTREAM_MOCK_URL)
+
 // Map our integration IDs to Composio toolkit slugs
 const TOOLKIT_SLUGS: Record<string, string> = {
   'google-sheets': 'googlesheets',
@@ -20,6 +31,13 @@ const TOOLKIT_SLUGS: Record<string, string> = {
 export default defineConfig({
   plugins: [
     react(),
+    // Report each /api request's AI token usage in X-LLM-Usage - registered first so every endpoint is covered
+    {
+      name: 'llm-usage-header',
+      configureServer(server) {
+        server.middlewares.use(llmUsageMiddleware())
+      }
+    },
     // SPA fallback - serve index.html for all routes (except API and assets)
     {
       name: 'spa-fallback',
@@ -39,6 +57,31 @@ export default defineConfig({
         });
       }
     },
+    // Mock Bot Manager - started alongside the dev server when VITE_PYPESTREAM_MOCK_URL is local
+    {
+      name: 'mock-bot-manager',
+      async configureServer() {
+        if (!PYPESTREAM_HOSTS.mock) return;
+
+        const mockUrl = new URL(PYPESTREAM_HOSTS.api);
+        if (!['localhost', '127.0.0.1'].includes(mockUrl.hostname)) {
+          console.log(`[MockBotManager] Using remote mock at ${PYPESTREAM_HOSTS.api}`);
+          return;
+        }
+
+        const port = Number(mockUrl.port) || 80;
+        try {
+          await startMockBotManager(port, { baseUrl: PYPESTREAM_HOSTS.api });
+          console.log(`[MockBotManager] Listening on ${PYPESTREAM_HOSTS.api} - Pypestream calls stay offline`);
+        } catch (e: any) {
+          if (e.code === 'EADDRINUSE') {
+            console.log(`[MockBotManager] Port ${port} in use - assuming npm run mock:botmanager is running`);
+          } else {
+            console.error('[MockBotManager] Failed to start:', e.message);
+          }
+        }
+      }
+    },
     // API middleware plugin for Composio OAuth
     {
       name: 'composio-api-middleware',
@@ -953,6 +996,105 @@ export default defineConfig({
               return;
             }
             
+            // POST /api/composio/fetch-sheet - Read a spreadsheet back as CSV
+            if (req.method === 'POST' && req.url === '/fetch-sheet') {
+              let body = '';
+              req.on('data', chunk => { body += chunk; });
+              req.on('end', async () => {
+                try {
+                  const { spreadsheetId, userId } = JSON.parse(body);
+                  const apiKey = process.env.VITE_COMPOSIO_API_KEY;
+                  
+                  if (!apiKey) {
+                    res.statusCode = 500;
+                    res.end(JSON.stringify({ error: 'API key not configured' }));
+                    return;
+                  }
+                  
+                  if (!spreadsheetId) {
+                    res.statusCode = 400;
+                    res.end(JSON.stringify({ error: 'spreadsheetId is required' }));
+                    return;
+                  }
+                  
+                  console.log(`[Composio] Fetching sheet: ${spreadsheetId}`);
+                  
+                  // Find Google Sheets connected account
+                  const accountsRes = await fetch(
+                    `https://backend.composio.dev/api/v3/connectedAccounts?user_uuid=${userId || 'default'}&showActiveOnly=true`,
+                    {
+                      headers: { 'x-api-key': apiKey }
+                    }
+                  );
+                  
+                  if (!accountsRes.ok) {
+                    throw new Error('Failed to fetch connected accounts');
+                  }
+                  
+                  const accountsData = await accountsRes.json();
+                  const sheetsAccount = accountsData.items?.find(
+                    (acc: any) => acc.appName === 'googlesheets' && acc.status === 'ACTIVE'
+                  );
+                  
+                  if (!sheetsAccount) {
+                    res.statusCode = 400;
+                    res.end(JSON.stringify({ 
+                      error: 'No Google Sheets connection found. Please connect Google Sheets first.' 
+                    }));
+                    return;
+                  }
+                  
+                  const getResponse = await fetch(
+                    'https://backend.composio.dev/api/v2/actions/GOOGLESHEETS_BATCH_GET/execute',
+                    {
+                      method: 'POST',
+                      headers: {
+                        'Content-Type': 'application/json',
+                        'x-api-key': apiKey
+                      },
+                      body: JSON.stringify({
+                        connectedAccountId: sheetsAccount.id,
+                        input: {
+                          spreadsheet_id: spreadsheetId,
+                          ranges: ['Sheet1']
+                        }
+                      })
+                    }
+                  );
+                  
+                  if (!getResponse.ok) {
+                    const errorText = await getResponse.text();
+                    console.log('[Composio] Fetch failed:', getResponse.status, errorText.substring(0, 500));
+                    throw new Error('Failed to read spreadsheet');
+                  }
+                  
+                  const result = await getResponse.json();
+                  const responseData = result.data?.response_data || result.data || {};
+                  const values: string[][] = responseData.valueRanges?.[0]?.values || responseData.values || [];
+                  
+                  // Sheets drops trailing empty cells - pad rows to the header width
+                  const width = Math.max(0, ...values.map(row => row.length));
+                  const escapeCell = (cell: unknown) => {
+                    const text = cell === undefined || cell === null ? '' : String(cell);
+                    return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+                  };
+                  const csvContent = values
+                    .map(row => Array.from({ length: width }, (_, i) => escapeCell(row[i])).join(','))
+                    .join('\n');
+                  
+                  console.log(`[Composio] Fetched ${values.length} rows from ${spreadsheetId}`);
+                  res.setHeader('Content-Type', 'application/json');
+                  res.end(JSON.stringify({ csvContent, rowCount: values.length }));
+                  
+                } catch (e: any) {
+                  console.error('[Composio] Fetch error:', e);
+                  res.statusCode = 500;
+                  res.end(JSON.stringify({ error: e.message || String(e) }));
+                }
+              });
+              return;
+            }
+            
             next();
           } catch (error: any) {
             console.error('[Composio] Middleware error:', error);
@@ -988,9 +1130,8 @@ export default defineConfig({
           req.on('end', async () => {
             try {
               const { projectConfig } = JSON.parse(body);
-              const apiKey = process.env.ANTHROPIC_API_KEY;
               
-              if (!apiKey || apiKey === 'your-api-key-here') {
+              if (!llm.isConfigured()) {
                 // Return fallback questions
                 console.log('[AI Requirements] No API key, using fallback questions');
                 res.setHeader('Content-Type', 'application/json');
@@ -1083,26 +1224,18 @@ Every question and every answer option should feel like it was written specifica
 
 Make the answer options realistic and include example text/values in the descriptions where helpful.`;
 
-              const response = await fetch('https://api.anthropic.com/v1/messages', {
-                method: 'POST',
-                headers: {
-                  'Content-Type': 'application/json',
-                  'x-api-key': apiKey,
-                  'anthropic-version': '2023-06-01'
-                },
-                body: JSON.stringify({
+              let content = '';
+              try {
+                const response = await llm.complete({
+                  tag: 'generate-requirements',
                   model: 'claude-sonnet-4-20250514',
-                  max_tokens: 4000,
-                  messages: [
-                    { role: 'user', content: userPrompt }
-                  ],
-                  system: systemPrompt
-                })
-              });
-              
-              if (!response.ok) {
-                const errorText = await response.text();
-                console.error('[AI Requirements] Claude API error:', response.status, errorText);
+                  maxTokens: 4000,
+                  system: systemPrompt,
+                  messages: [{ role: 'user', content: userPrompt }]
+                });
+                content = response.text;
+              } catch (aiError: any) {
+                console.error('[AI Requirements] AI error:', aiError.message);
                 res.setHeader('Content-Type', 'application/json');
                 res.end(JSON.stringify({ 
                   questions: generateFallbackQuestions(projectConfig)
@@ -1110,9 +1243,6 @@ Make the answer options realistic and include example text/values in the descrip
                 return;
               }
               
-              const result = await response.json();
-              const content = result.content?.[0]?.text || '';
-              
               console.log('[AI Requirements] Raw response length:', content.length);
               
               let questions;
@@ -1435,9 +1565,7 @@ Make the answer options realistic and include example text/values in the descrip
           req.on('end', async () => {
             try {
               const { companyName, botType, additionalDetails, projectType } = JSON.parse(body);
-              const apiKey = process.env.ANTHROPIC_API_KEY;
-              
-              if (!apiKey || apiKey === 'your-api-key-here') {
+              if (!llm.isConfigured()) {
                 // Return a basic fallback purpose
                 const fallbackPurpose = `This ${botType || 'customer service'} bot for ${companyName || 'the company'} will help users by providing automated assistance, collecting relevant information, and routing inquiries to the appropriate resources when needed.`;
                 res.setHeader('Content-Type', 'application/json');
@@ -1470,31 +1598,15 @@ Additional Details: ${additionalDetails || 'None provided'}
 
 Write a compelling 2-3 sentence paragraph describing what this bot does for users.`;
 
-              const response = await fetch('https://api.anthropic.com/v1/messages', {
-                method: 'POST',
-                headers: {
-                  'Content-Type': 'application/json',
-                  'x-api-key': apiKey,
-                  'anthropic-version': '2023-06-01'
-                },
-                body: JSON.stringify({
-                  model: 'claude-3-5-haiku-20241022',
-                  max_tokens: 300,
-                  messages: [
-                    { role: 'user', content: userPrompt }
-                  ],
-                  system: systemPrompt
-                })
+              const response = await llm.complete({
+                tag: 'generate-purpose',
+                model: 'claude-3-5-haiku-20241022',
+                maxTokens: 300,
+                system: systemPrompt,
+                messages: [{ role: 'user', content: userPrompt }]
               });
               
-              if (!response.ok) {
-                const errorText = await response.text();
-                console.error('[AI Purpose] API error:', response.status, errorText);
-                throw new Error(`API error: ${response.status}`);
-              }
-              
-              const data = await response.json();
-              const purpose = data.content?.[0]?.text?.trim() || `This ${botType} bot helps ${companyName} customers with automated support and assistance.`;
+              const purpose = response.text.trim() || `This ${botType} bot helps ${companyName} customers with automated support and assistance.`;
               
               console.log('[AI Purpose] Generated:', purpose.substring(0, 100) + '...');
               
@@ -1536,14 +1648,13 @@ Write a compelling 2-3 sentence paragraph describing what this bot does for user
           req.on('end', async () => {
             try {
               const { prompt } = JSON.parse(body);
-              const apiKey = process.env.ANTHROPIC_API_KEY;
               
-              if (!apiKey || apiKey === 'your-api-key-here') {
+              if (!llm.isConfigured()) {
                 // Return a signal that client should use local fallback
                 console.log('[AI Analyze] No API key configured, client will use local fallback');
                 res.statusCode = 503;
                 res.end(JSON.stringify({ 
-                  error: 'ANTHROPIC_API_KEY not configured',
+                  error: 'No AI provider configured (set ANTHROPIC_API_KEY or LLM_PROVIDER)',
                   useLocalFallback: true
                 }));
                 return;
@@ -1645,26 +1756,18 @@ Output: {
 
 ALWAYS respond with valid JSON only. No markdown, no explanation - just the JSON object.`;
 
-              const response = await fetch('https://api.anthropic.com/v1/messages', {
-                method: 'POST',
-                headers: {
-                  'Content-Type': 'application/json',
-                  'x-api-key': apiKey,
-                  'anthropic-version': '2023-06-01'
-                },
-                body: JSON.stringify({
+              let content = '';
+              try {
+                const response = await llm.complete({
+                  tag: 'analyze-prompt',
                   model: 'claude-sonnet-4-20250514',
-                  max_tokens: 1000,
-                  messages: [
-                    { role: 'user', content: `Extract project details from this description:\n\n"${prompt}"` }
-                  ],
-                  system: systemPrompt
-                })
-              });
-              
-              if (!response.ok) {
-                const errorText = await response.text();
-                console.error('[AI Analyze] Claude API error:', response.status, errorText);
+                  maxTokens: 1000,
+                  system: systemPrompt,
+                  messages: [{ role: 'user', content: `Extract project details from this description:\n\n"${prompt}"` }]
+                });
+                content = response.text;
+              } catch (aiError: any) {
+                console.error('[AI Analyze] AI error:', aiError.message);
                 // Fall back to basic extraction
                 res.setHeader('Content-Type', 'application/json');
                 res.end(JSON.stringify({ 
@@ -1676,9 +1779,6 @@ ALWAYS respond with valid JSON only. No markdown, no explanation - just the JSON
                 return;
               }
               
-              const result = await response.json();
-              const content = result.content?.[0]?.text || '';
-              
               console.log('[AI Analyze] Raw response:', content);
               
               // Parse JSON from response
@@ -1753,15 +1853,13 @@ ALWAYS respond with valid JSON only. No markdown, no explanation - just the JSON
                 return;
               }
               
-              const apiKey = process.env.ANTHROPIC_API_KEY;
-              
-              if (!apiKey || apiKey === 'your-api-key-here') {
+              if (!llm.isConfigured()) {
                 console.log('[AI Edit] No API key configured');
                 res.statusCode = 503;
                 res.setHeader('Content-Type', 'application/json');
                 res.end(JSON.stringify({ 
                   success: false,
-                  error: 'ANTHROPIC_API_KEY not configured'
+                  error: 'No AI provider configured (set ANTHROPIC_API_KEY or LLM_PROVIDER)'
                 }));
                 return;
               }
@@ -1797,16 +1895,13 @@ You MUST respond with a JSON object containing:
 
 RESPOND WITH JSON ONLY. No markdown, no explanation.`;
 
-              const response = await fetch('https://api.anthropic.com/v1/messages', {
-                method: 'POST',
-                headers: {
-                  'Content-Type': 'application/json',
-                  'x-api-key': apiKey,
-                  'anthropic-version': '2023-06-01'
-                },
-                body: JSON.stringify({
+              let content = '';
+              try {
+                const response = await llm.complete({
+                  tag: 'ai-edit',
                   model: 'claude-sonnet-4-20250514',
-                  max_tokens: 16000,
+                  maxTokens: 16000,
+                  system: systemPrompt,
                   messages: [
                     { 
                       role: 'user', 
@@ -1822,25 +1917,19 @@ ${currentScripts?.map((s: any) => `- ${s.name}`).join('\n') || 'None'}
 
 Apply the requested changes and return the complete modified CSV.` 
                     }
-                  ],
-                  system: systemPrompt
-                })
-              });
-              
-              if (!response.ok) {
-                const errorText = await response.text();
-                console.error('[AI Edit] Claude API error:', response.status, errorText);
+                  ]
+                });
+                content = response.text;
+              } catch (aiError: any) {
+                console.error('[AI Edit] AI error:', aiError.message);
                 res.setHeader('Content-Type', 'application/json');
                 res.end(JSON.stringify({ 
                   success: false,
-                  error: `Claude API error: ${response.status}`
+                  error: `AI API error: ${aiError.status || aiError.message}`
                 }));
                 return;
               }
               
-              const result = await response.json();
-              const content = result.content?.[0]?.text || '';
-              
               console.log('[AI Edit] Response received, length:', content.length);
               
               let editResult;
@@ -1896,6 +1985,59 @@ Apply the requested changes and return the complete modified CSV.`
         });
       }
     },
+    // Figma API middleware - file JSON for the Figma importer (figma-ingest.ts)
+    {
+      name: 'figma-api-middleware',
+      async configureServer(server) {
+        server.middlewares.use('/api/figma/file', async (req, res, next) => {
+          if (req.method !== 'POST') { next(); return; }
+          
+          res.setHeader('Content-Type', 'application/json');
+          
+          let body = '';
+          req.on('data', (chunk: Buffer) => { body += chunk.toString(); });
+          req.on('end', async () => {
+            try {
+              const { fileKey, token } = JSON.parse(body);
+              const figmaToken = token || process.env.FIGMA_ACCESS_TOKEN;
+              
+              if (!fileKey) {
+                res.statusCode = 400;
+                res.end(JSON.stringify({ error: 'fileKey is required' }));
+                return;
+              }
+              
+              if (!figmaToken) {
+                res.statusCode = 401;
+                res.end(JSON.stringify({ error: 'A Figma personal access token is required' }));
+                return;
+              }
+              
+              console.log(`[Figma] Fetching file: ${fileKey}`);
+              const response = await fetch(`https://api.figma.com/v1/files/${encodeURIComponent(fileKey)}`, {
+                headers: { 'X-Figma-Token': figmaToken },
+              });
+              
+              if (!response.ok) {
+                const errorText = await response.text();
+                console.log('[Figma] Fetch failed:', response.status, errorText.substring(0, 300));
+                res.statusCode = response.status;
+                res.end(JSON.stringify({
+                  error: response.status === 403 ? 'Figma token is invalid or has no access to this file' : `Figma API error: ${response.status}`,
+                }));
+                return;
+              }
+              
+              res.end(await response.text());
+            } catch (e: any) {
+              console.error('[Figma] Error:', e);
+              res.statusCode = 500;
+              res.end(JSON.stringify({ error: e.message || String(e) }));
+            }
+          });
+        });
+      }
+    },
     // Brandfetch API middleware - for automatic brand detection
     {
       name: 'brandfetch-middleware',
@@ -2215,6 +2357,33 @@ Apply the requested changes and return the complete modified CSV.`
             }
           });
         });
+        
+        // Brand colors/fonts/logos read from a website's HTML and CSS
+        // (manual fallback when Brandfetch has no key or no data)
+        server.middlewares.use('/api/brand-from-url', async (req, res, next) => {
+          if (req.method !== 'POST') { next(); return; }
+          
+          let body = '';
+          req.on('data', (chunk: Buffer) => { body += chunk.toString(); });
+          req.on('end', async () => {
+            res.setHeader('Content-Type', 'application/json');
+            try {
+              const { url } = JSON.parse(body || '{}');
+              if (!url) {
+                res.statusCode = 400;
+                res.end(JSON.stringify({ success: false, error: 'url is required' }));
+                return;
+              }
+              
+              const brand = await extractSiteBrand(url);
+              res.end(JSON.stringify({ success: true, brand }));
+            } catch (e: any) {
+              console.error('[SiteBrand] Error:', e);
+              res.statusCode = 502;
+              res.end(JSON.stringify({ success: false, error: e.message || String(e) }));
+            }
+          });
+        });
       }
     },
     // AI Generation middleware
@@ -2325,17 +2494,10 @@ Apply the requested changes and return the complete modified CSV.`
                 console.log('[SELF-IMPROVE] ℹ️ No error patterns to avoid (database may be empty or client failed to fetch)');
               }
               
-              // Use user-provided API key if available, fall back to env variable
-              const userAnthropicKey = aiProvider === 'anthropic' ? aiApiKey : undefined;
-              const userGoogleKey = aiProvider === 'google' ? aiApiKey : undefined;
-              const apiKey = userAnthropicKey || process.env.ANTHROPIC_API_KEY;
-              const googleApiKey = userGoogleKey || process.env.GOOGLE_AI_API_KEY;
+              // User-provided API key wins over the env variable (resolved by the gateway)
+              const credentials = { aiProvider, aiApiKey };
               
-              // Determine which provider to use
-              const useGoogle = aiProvider === 'google' && googleApiKey;
-              const effectiveApiKey = useGoogle ? googleApiKey : apiKey;
-              
-              if (!effectiveApiKey || effectiveApiKey === 'your-api-key-here') {
+              if (!llm.isConfigured(credentials)) {
                 res.statusCode = 500;
                 res.end(JSON.stringify({ 
                   error: 'No AI API key configured. Add your Anthropic or Google AI key in Settings.',
@@ -2344,7 +2506,7 @@ Apply the requested changes and return the complete modified CSV.`
                 return;
               }
               
-              console.log(`[AI Gen] Using ${useGoogle ? 'Google Gemini' : 'Anthropic Claude'} for generation`);
+              console.log(`[AI Gen] Using ${llm.providerFor(credentials)} for generation`);
               
               console.log('[AI Gen] Starting generation for:', projectConfig?.projectName);
               
@@ -3472,192 +3634,71 @@ IMPORTANT:
 
 Return ONLY the JSON response with the complete CSV.`;
 
-              console.log(`[AI Gen] Calling ${useGoogle ? 'Google Gemini' : 'Anthropic Claude'} API...`);
-              
-              // Helper function to call AI API with retry logic for rate limits
-              const callAIWithRetry = async (maxRetries = 3): Promise<any> => {
-                let lastError: any;
-                
-                // Use shorter timeout with fallback strategy
-                // Attempt 1: Claude Sonnet (90s) - best quality, 16K tokens
-                // Attempt 2: Claude Haiku (60s) - faster, 8K tokens max
-                // Attempt 3: Gemini Flash (60s) - fastest fallback, 32K tokens
-                const timeoutByAttempt = [90000, 60000, 60000]; // 90s, 60s, 60s
-                const modelByAttempt = ['claude-sonnet-4-20250514', 'claude-3-5-haiku-20241022', 'gemini-flash'];
-                const maxTokensByAttempt = [16000, 8192, 32000]; // Model-specific limits
-                
-                for (let attempt = 1; attempt <= maxRetries; attempt++) {
-                  let response;
-                  const currentTimeout = timeoutByAttempt[attempt - 1] || 60000;
-                  const currentModel = modelByAttempt[attempt - 1] || 'gemini-flash';
-                  const currentMaxTokens = maxTokensByAttempt[attempt - 1] || 8192;
-                  const useGeminiForAttempt = currentModel === 'gemini-flash';
-                  
-                  // Create AbortController for timeout
-                  const controller = new AbortController();
-                  const timeoutId = setTimeout(() => controller.abort(), currentTimeout);
-                  
-                  console.log(`[AI Gen] Attempt ${attempt}/${maxRetries}: Using ${currentModel} (timeout: ${currentTimeout/1000}s)`);
-                  
-                  try {
-                    if (useGoogle || useGeminiForAttempt) {
-                      // Google Gemini API - fast fallback
-                      const geminiKey = useGeminiForAttempt ? process.env.GEMINI_API_KEY : effectiveApiKey;
-                      if (!geminiKey && useGeminiForAttempt) {
-                        console.log('[AI Gen] No GEMINI_API_KEY in .env for fallback, skipping Gemini');
-                        continue;
-                      }
-                      response = await fetch(`https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash:generateContent?key=${geminiKey || effectiveApiKey}`, {
-                        method: 'POST',
-                        headers: {
-                          'Content-Type': 'application/json',
-                        },
-                        body: JSON.stringify({
-                          contents: [{
-                            parts: [{
-                              text: `${systemPrompt}\n\n${userPrompt}`
-                            }]
-                          }],
-                          generationConfig: {
-                            maxOutputTokens: 32000,
-                            temperature: 0.7
-                          }
-                        }),
-                        signal: controller.signal
-                      });
-                      
-                      clearTimeout(timeoutId);
-                      
-                      if (response.ok) {
-                        const geminiResult = await response.json();
-                        // Convert Gemini response format to match Claude format
-                        const text = geminiResult.candidates?.[0]?.content?.parts?.[0]?.text || '';
-                        console.log(`[AI Gen] Success with ${currentModel}`);
-                        return { content: [{ text }] };
-                      }
-                    } else {
-                      // Anthropic Claude API
-                      response = await fetch('https://api.anthropic.com/v1/messages', {
-                        method: 'POST',
-                        headers: {
-                          'Content-Type': 'application/json',
-                          'x-api-key': effectiveApiKey,
-                          'anthropic-version': '2023-06-01'
-                        },
-                      body: JSON.stringify({
-                        model: currentModel,
-                        max_tokens: currentMaxTokens,
-                        messages: [
-                          { role: 'user', content: userPrompt }
-                        ],
-                        system: systemPrompt
-                      }),
-                        signal: controller.signal
-                      });
-                      
-                      clearTimeout(timeoutId);
-                      
-                      if (response.ok) {
-                        console.log(`[AI Gen] Success with ${currentModel}`);
-                        return await response.json();
-                      }
-                    }
-                  } catch (fetchError: any) {
-                    clearTimeout(timeoutId);
-                    
-                    // Check if it was an abort/timeout
-                    if (fetchError.name === 'AbortError') {
-                      console.log(`[AI Gen] ${currentModel} timed out after ${currentTimeout/1000}s, trying next model...`);
-                      lastError = { status: 'timeout', text: `Request timed out after ${currentTimeout/1000} seconds` };
-                      // Continue to next attempt with faster model
-                      continue;
-                    }
-                    
-                    // Re-throw other fetch errors
-                    throw fetchError;
-                  }
-                  
-                  const errorText = await response.text();
-                  console.error(`[AI Gen] API error (attempt ${attempt}/${maxRetries}):`, response.status, errorText);
-                  
-                  // Check for rate limit error - return immediately so frontend can handle
-                  if (response.status === 429) {
-                    const retryAfter = response.headers.get('retry-after');
-                    const waitSeconds = retryAfter ? parseInt(retryAfter) : 60;
-                    
-                    console.log(`[AI Gen] Rate limited, returning to frontend with retry info (${waitSeconds}s)`);
-                    
-                    // Return rate limit info to frontend instead of blocking
-                    return {
-                      isRateLimit: true,
-                      retryAfterSeconds: waitSeconds,
-                      message: `Rate limited. Please wait ${waitSeconds} seconds and try again.`
-                    };
-                  }
-                  
-                  // Check for invalid API key
-                  if (response.status === 401 || response.status === 403) {
-                    return {
-                      isAuthError: true,
-                      message: 'Invalid API key. Please check your API key in Settings.'
-                    };
-                  }
-                  
-                  lastError = { status: response.status, text: errorText };
-                  break; // Don't retry on other errors
-                }
-                
-                throw lastError;
-              };
+              console.log(`[AI Gen] Calling ${llm.providerFor(credentials)} API...`);
               
+              // Fallback strategy with shorter timeouts:
+              // Attempt 1: Claude Sonnet (90s) - best quality, 16K tokens
+              // Attempt 2: Claude Haiku (60s) - faster, 8K tokens max
+              // Attempt 3: Gemini Flash (60s) - fastest fallback, 32K tokens
               let result;
               try {
-                result = await callAIWithRetry(3);
+                result = await llm.complete({
+                  tag: 'generate-csv',
+                  model: 'claude-sonnet-4-20250514',
+                  maxTokens: 16000,
+                  timeoutMs: 90000,
+                  system: systemPrompt,
+                  messages: [{ role: 'user', content: userPrompt }],
+                  fallbacks: [
+                    { model: 'claude-3-5-haiku-20241022', maxTokens: 8192, timeoutMs: 60000 },
+                    { provider: 'google', model: 'gemini-2.0-flash', maxTokens: 32000, timeoutMs: 60000 }
+                  ]
+                }, credentials);
               } catch (apiError: any) {
+                // Auth errors go back to the frontend so it can ask for a new key
+                if (apiError instanceof AuthError) {
+                  console.log('[AI Gen] Returning auth error to frontend');
+                  res.statusCode = 401;
+                  res.end(JSON.stringify({ 
+                    error: 'Invalid API key. Please check your API key in Settings.',
+                    needsApiKey: true
+                  }));
+                  return;
+                }
+                
+                // Rate limits go back with retry info instead of blocking
+                if (apiError instanceof RateLimitError) {
+                  console.log(`[AI Gen] Rate limited, returning to frontend with retry info (${apiError.retryAfterSeconds}s)`);
+                  res.statusCode = 429;
+                  res.end(JSON.stringify({ 
+                    error: `Rate limited. Please wait ${apiError.retryAfterSeconds} seconds and try again.`,
+                    isRateLimit: true,
+                    retryAfterSeconds: apiError.retryAfterSeconds
+                  }));
+                  return;
+                }
+                
                 console.error('[AI Gen] API failed after retries:', apiError);
                 res.statusCode = 500;
                 res.end(JSON.stringify({ 
-                  error: `AI API error: ${apiError.status || 'unknown'}`,
-                  details: apiError.text || apiError.message
-                }));
-                return;
-              }
-              
-              // Check if result is an auth error
-              if (result.isAuthError) {
-                console.log('[AI Gen] Returning auth error to frontend');
-                res.statusCode = 401;
-                res.end(JSON.stringify({ 
-                  error: result.message,
-                  needsApiKey: true
-                }));
-                return;
-              }
-              
-              // Check if result is a rate limit response
-              if (result.isRateLimit) {
-                console.log('[AI Gen] Returning rate limit to frontend');
-                res.statusCode = 429;
-                res.end(JSON.stringify({ 
-                  error: result.message || 'Rate limit exceeded',
-                  isRateLimit: true,
-                  retryAfterSeconds: result.retryAfterSeconds || 60
+                  error: `AI API error: ${apiError.status || 'timeout'}`,
+                  details: apiError.message
                 }));
                 return;
               }
               
-              console.log('[AI Gen] Claude response received');
+              console.log(`[AI Gen] ${result.provider}/${result.model} response received`);
               
-              // Check for truncation (Claude returns stop_reason: "max_tokens" when truncated)
-              const stopReason = result.stop_reason;
+              // Check for truncation (stopReason is "max_tokens" when truncated)
+              const stopReason = result.stopReason;
               if (stopReason === 'max_tokens') {
                 console.error('[AI Gen] ⚠️ RESPONSE TRUNCATED - Claude hit max_tokens limit! Increase max_tokens setting.');
               } else {
                 console.log(`[AI Gen] Stop reason: ${stopReason || 'not specified'}`);
               }
               
-              // Extract content from Claude response
-              const content = result.content?.[0]?.text || '';
+              // Extract content from the response
+              const content = result.text;
               
               // Log content length for debugging
               console.log(`[AI Gen] Response content length: ${content.length} chars`);
@@ -4063,7 +4104,9 @@ DESCRIPTION: ${projectConfig?.description || 'Customer service assistant'}
 
 ${clarifyingQuestions?.length > 0 ? `USER REQUIREMENTS:\n${clarifyingQuestions.map((q: any) => `- ${q.question}: ${q.answer}`).join('\n')}` : ''}
 
-YOUR TASK: Identify 3-5 conversation flows that customers of ${targetCompany} would actually need.
+YOUR TASK: Identify the conversation flows that customers of ${targetCompany} would actually need -
+usually 3-8, more for a business with many products or services. Node ranges are sized per flow, so
+there is no fixed limit on the number of flows.
 
 THINK ABOUT:
 - What are ${targetCompany}'s main products or services?
@@ -4079,24 +4122,22 @@ CRITICAL NODE NUMBERING RULES:
 1. DO NOT use nodes 1-105 (startup infrastructure - RESERVED)
 2. DO NOT use nodes 200-210 (main menu - RESERVED)
 3. DO NOT use nodes 666, 999, 1800-1804, 99990 (system nodes - RESERVED)
-4. First flow: nodes 300-399
-5. Second flow: nodes 400-499
-6. Third flow: nodes 500-599
-7. Fourth flow: nodes 600-699
-8. Fifth flow: nodes 700-799 (max 5 flows)
+4. Number flows in order from 300 (first flow 300, second 400, ...) - final node
+   ranges are assigned from "estimatedNodes", so a large flow may get several blocks
 
 RULES:
 1. DO NOT include "welcome" flow - it's pre-built (nodes 200-299 reserved)
-2. Each flow gets exactly 100 nodes (e.g., 300-399, 400-499)
+2. "estimatedNodes" is your estimate of the nodes the flow needs (questions, answers,
+   API calls, confirmations) - simple FAQ flows ~15-30, multi-step transactions 60-200+
 3. Flow names should be specific to ${targetCompany}'s business
 4. Main menu labels should be short (2-4 words), action-oriented
 
 Return ONLY valid JSON:
 {
   "flows": [
-    { "name": "specific_flow_name", "description": "What this helps customers do", "startNode": 300, "endNode": 350 },
-    { "name": "another_flow", "description": "Another customer need", "startNode": 400, "endNode": 450 },
-    ...max 5 flows
+    { "name": "specific_flow_name", "description": "What this helps customers do", "startNode": 300, "endNode": 399, "estimatedNodes": 40 },
+    { "name": "another_flow", "description": "Another customer need", "startNode": 400, "endNode": 499, "estimatedNodes": 25 },
+    ...one entry per flow
   ],
   "mainMenuOptions": [
     { "label": "Short Action Label", "description": "Brief description", "flowName": "specific_flow_name", "startNode": 300 },
@@ -4105,32 +4146,13 @@ Return ONLY valid JSON:
 }`;
 
               // Use Haiku for fast planning (5-10s)
-              const apiKey = process.env.ANTHROPIC_API_KEY;
-              if (!apiKey) {
-                throw new Error('ANTHROPIC_API_KEY not configured');
-              }
-              
-              const response = await fetch('https://api.anthropic.com/v1/messages', {
-                method: 'POST',
-                headers: {
-                  'Content-Type': 'application/json',
-                  'x-api-key': apiKey,
-                  'anthropic-version': '2023-06-01'
-                },
-                body: JSON.stringify({
-                  model: 'claude-3-5-haiku-20241022',
-                  max_tokens: 2000,
-                  messages: [{ role: 'user', content: planPrompt }]
-                })
+              const response = await llm.complete({
+                tag: 'plan-flows',
+                model: 'claude-3-5-haiku-20241022',
+                maxTokens: 4000,
+                messages: [{ role: 'user', content: planPrompt }]
               });
-              
-              if (!response.ok) {
-                const errorText = await response.text();
-                throw new Error(`API error: ${response.status} - ${errorText}`);
-              }
-              
-              const result = await response.json();
-              const content = result.content?.[0]?.text || '';
+              const content = response.text;
               
               // Parse JSON from response
               let flows;
@@ -4212,11 +4234,6 @@ Return ONLY valid JSON:
             try {
               const { currentFlows, currentMenuOptions, userPrompt, projectConfig } = JSON.parse(body);
               
-              const apiKey = process.env.ANTHROPIC_API_KEY;
-              if (!apiKey) {
-                throw new Error('ANTHROPIC_API_KEY not configured');
-              }
-              
               console.log(`[Refine Architecture] User prompt: "${userPrompt}"`);
               
               const prompt = `You are a solution architect refining a chatbot design.
@@ -4251,26 +4268,13 @@ Return ONLY valid JSON:
   ]
 }`;
 
-              const response = await fetch('https://api.anthropic.com/v1/messages', {
-                method: 'POST',
-                headers: {
-                  'Content-Type': 'application/json',
-                  'x-api-key': apiKey,
-                  'anthropic-version': '2023-06-01'
-                },
-                body: JSON.stringify({
-                  model: 'claude-3-5-haiku-20241022',
-                  max_tokens: 2000,
-                  messages: [{ role: 'user', content: prompt }]
-                })
+              const response = await llm.complete({
+                tag: 'refine-architecture',
+                model: 'claude-3-5-haiku-20241022',
+                maxTokens: 2000,
+                messages: [{ role: 'user', content: prompt }]
               });
-              
-              if (!response.ok) {
-                throw new Error(`API error: ${response.status}`);
-              }
-              
-              const result = await response.json();
-              const content = result.content?.[0]?.text || '';
+              const content = response.text;
               
               // Parse JSON
               const jsonMatch = content.match(/\{[\s\S]*\}/);
@@ -4311,11 +4315,6 @@ Return ONLY valid JSON:
             try {
               const { flowName, flowLabel, description, projectConfig } = JSON.parse(body);
               
-              const apiKey = process.env.ANTHROPIC_API_KEY;
-              if (!apiKey) {
-                throw new Error('ANTHROPIC_API_KEY not configured');
-              }
-              
               console.log(`[Flow Detail] Generating conversation for: ${flowLabel}`);
               
               const prompt = `You are designing the internal conversation flow for an intelligent chatbot that uses NLU (Natural Language Understanding) to process user input.
@@ -4404,26 +4403,13 @@ DESIGN PRINCIPLES:
 
 Return ONLY valid JSON.`;
 
-              const response = await fetch('https://api.anthropic.com/v1/messages', {
-                method: 'POST',
-                headers: {
-                  'Content-Type': 'application/json',
-                  'x-api-key': apiKey,
-                  'anthropic-version': '2023-06-01'
-                },
-                body: JSON.stringify({
-                  model: 'claude-3-5-haiku-20241022',
-                  max_tokens: 2000,
-                  messages: [{ role: 'user', content: prompt }]
-                })
+              const response = await llm.complete({
+                tag: 'generate-flow-detail',
+                model: 'claude-3-5-haiku-20241022',
+                maxTokens: 2000,
+                messages: [{ role: 'user', content: prompt }]
               });
-              
-              if (!response.ok) {
-                throw new Error(`API error: ${response.status}`);
-              }
-              
-              const result = await response.json();
-              const content = result.content?.[0]?.text || '';
+              const content = response.text;
               
               // Parse JSON
               const jsonMatch = content.match(/\{[\s\S]*\}/);
@@ -4464,11 +4450,6 @@ Return ONLY valid JSON.`;
             try {
               const { nodeData, flowContext, projectConfig } = JSON.parse(body);
               
-              const apiKey = process.env.ANTHROPIC_API_KEY;
-              if (!apiKey) {
-                throw new Error('ANTHROPIC_API_KEY not configured');
-              }
-              
               console.log(`[ActionCode] Generating code for: ${nodeData?.type}`);
               
               const intentsStr = nodeData?.intents?.join(', ') || 'general';
@@ -4572,26 +4553,13 @@ IMPORTANT:
 
 Return ONLY the Python code, no markdown.`;
 
-              const response = await fetch('https://api.anthropic.com/v1/messages', {
-                method: 'POST',
-                headers: {
-                  'Content-Type': 'application/json',
-                  'x-api-key': apiKey,
-                  'anthropic-version': '2023-06-01'
-                },
-                body: JSON.stringify({
-                  model: 'claude-3-5-haiku-20241022',
-                  max_tokens: 3000,
-                  messages: [{ role: 'user', content: prompt }]
-                })
+              const response = await llm.complete({
+                tag: 'generate-action-code',
+                model: 'claude-3-5-haiku-20241022',
+                maxTokens: 3000,
+                messages: [{ role: 'user', content: prompt }]
               });
-              
-              if (!response.ok) {
-                throw new Error(`API error: ${response.status}`);
-              }
-              
-              const result = await response.json();
-              let code = result.content?.[0]?.text || '';
+              let code = response.text;
               
               // Clean up markdown if present
               code = code.replace(/^```python\n?/gm, '').replace(/^```\n?/gm, '').trim();
@@ -4608,17 +4576,31 @@ Return ONLY the Python code, no markdown.`;
           });
         });
         
-        // Test action node code (simulated)
+        // Test action node code - runs the script in a local Python sandbox
+        // Same-origin only: no CORS headers, so other sites can't run code on this machine
         server.middlewares.use('/api/test-action-code', async (req, res, next) => {
           if (req.method !== 'POST') { next(); return; }
           
-          res.setHeader('Access-Control-Allow-Origin', '*');
-          res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
-          res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
-          
-          if (req.method === 'OPTIONS') {
-            res.statusCode = 200;
-            res.end();
+          const devUrls = [...(server.resolvedUrls?.local || []), ...(server.resolvedUrls?.network || [])];
+          if (devUrls.length === 0) devUrls.push(`http://localhost:${server.config.server.port || 5173}`);
+          // localhost is also reachable as the loopback addresses
+          const devOrigins = devUrls.flatMap(url => {
+            const { protocol, hostname, port, origin } = new URL(url);
+            return hostname === 'localhost'
+              ? [origin, `${protocol}//127.0.0.1:${port}`, `${protocol}//[::1]:${port}`]
+              : [origin];
+          });
+          if (!req.headers.origin || !devOrigins.includes(req.headers.origin)) {
+            res.statusCode = 403;
+            res.setHeader('Content-Type', 'application/json');
+            res.end(JSON.stringify({ success: false, error: 'Requests must come from the dev server origin' }));
+            return;
+          }
+          // A JSON content type forces a CORS preflight, which this endpoint never answers
+          if (!(req.headers['content-type'] || '').toLowerCase().startsWith('application/json')) {
+            res.statusCode = 415;
+            res.setHeader('Content-Type', 'application/json');
+            res.end(JSON.stringify({ success: false, error: 'Content-Type must be application/json' }));
             return;
           }
           
@@ -4626,51 +4608,47 @@ Return ONLY the Python code, no markdown.`;
           req.on('data', (chunk: Buffer) => { body += chunk.toString(); });
           req.on('end', async () => {
             try {
-              const { code, nodeData } = JSON.parse(body);
-              
-              console.log('[TestCode] Running syntax validation...');
-              
-              // Basic syntax validation
-              const hasClass = /class\s+\w+/.test(code);
-              const hasExecute = /def\s+execute\s*\(/.test(code);
-              const hasReturn = /return\s*\{/.test(code);
-              const hasSuccess = /"success"\s*:/.test(code);
-              
-              const issues: string[] = [];
-              if (!hasClass) issues.push('Missing class definition');
-              if (!hasExecute) issues.push('Missing execute() method');
-              if (!hasReturn) issues.push('Missing return statement');
-              if (!hasSuccess) issues.push('Missing "success" key in return');
-              
-              if (issues.length === 0) {
-                // Simulate test execution
-                const mockEvent = {
-                  user_input: "I want to watch a comedy movie",
-                  session_id: "test-session-123"
-                };
-                
-                res.setHeader('Content-Type', 'application/json');
-                res.end(JSON.stringify({
-                  success: true,
-                  output: `✓ Syntax validation passed
-✓ Class definition found
-✓ execute() method found
-✓ Return statement with success key found
-
-Mock Test Run:
-  Input: "${mockEvent.user_input}"
-  Expected Output: { "success": "true", "DETECTED_INTENT": "comedy_recommendation", ... }
-  
-Script is ready for deployment!`
-                }));
-              } else {
+              const { code, nodeData, csv, nodeNum, variables, userInput } = JSON.parse(body);
+              
+              if (!code || typeof code !== 'string') {
+                res.statusCode = 400;
                 res.setHeader('Content-Type', 'application/json');
-                res.end(JSON.stringify({
-                  success: false,
-                  output: `Validation failed:\n${issues.map(i => '✗ ' + i).join('\n')}\n\nPlease fix these issues before deploying.`
-                }));
+                res.end(JSON.stringify({ success: false, error: 'code is required' }));
+                return;
               }
               
+              console.log(`[TestCode] Running ${nodeData?.command || 'script'} in sandbox...`);
+              
+              const run = await runActionScript(code, {
+                node: {
+                  command: nodeData?.command,
+                  paramInput: nodeData?.paramInput,
+                  whatNext: nodeData?.whatNext,
+                  decVar: nodeData?.decVar,
+                },
+                csv,
+                nodeNum,
+                variables,
+                userInput: userInput || nodeData?.userInput,
+              });
+              
+              console.log(`[TestCode] ${run.ran ? 'Ran' : 'Failed'} in ${run.durationMs}ms, ${run.branch.variable}=${run.branch.value} (${run.branch.matched ? 'matched' : 'unmatched'})`);
+              
+              res.setHeader('Content-Type', 'application/json');
+              res.end(JSON.stringify({
+                success: run.ran && run.branch.matched,
+                output: formatSandboxReport(run),
+                result: run.result,
+                stdout: run.stdout,
+                logs: run.logs,
+                traceback: run.traceback,
+                validationError: run.validationError,
+                timedOut: run.timedOut,
+                durationMs: run.durationMs,
+                branch: run.branch,
+                event: run.event,
+              }));
+              
             } catch (e: any) {
               console.error('[TestCode] Error:', e);
               res.statusCode = 500;
@@ -4702,7 +4680,8 @@ Script is ready for deployment!`
                 projectConfig,       // { projectName, projectType, description, clientName }
                 contextNodes,        // Array of key node numbers already generated
                 isWelcome,           // Boolean - if true, include main menu
-                conversationPreview  // Optional: Array of conversation nodes the user has previewed/approved
+                conversationPreview, // Optional: Array of conversation nodes the user has previewed/approved
+                relatedFlows         // Optional: other planned flows { name, description, startNode } - generated concurrently
               } = JSON.parse(body);
               
               const targetCompany = projectConfig?.targetCompany || projectConfig?.projectName || 'the company';
@@ -4788,8 +4767,17 @@ ${JSON.stringify(conversationPreview, null, 2)}
 `;
               }
               
+              // Other flows are generated at the same time - only their entry nodes are known
+              let relatedFlowsContext = '';
+              if (Array.isArray(relatedFlows) && relatedFlows.length > 0) {
+                relatedFlowsContext = `
+
+OTHER FLOWS IN THIS BOT (you may route to their ENTRY node only, e.g. a "Track my order" button):
+${relatedFlows.map((f: any) => `- ${f.name} (entry node ${f.startNode}): ${f.description || ''}`).join('\n')}`;
+              }
+              
               // Build focused prompt for this specific flow with COMPANY-SPECIFIC context
-              const flowPrompt = `You are creating a customer service chatbot for ${targetCompany}.${previewContext}
+              const flowPrompt = `You are creating a customer service chatbot for ${targetCompany}.${previewContext}${relatedFlowsContext}
 
 COMPANY: ${targetCompany}
 BOT PURPOSE: ${projectConfig?.description || 'Customer support assistant'}
@@ -4932,8 +4920,8 @@ Buttons: [Track My Order] [Return an Item] [Change My Order] [Cancel Order]
 RULE: The FIRST NODE of every flow MUST have buttons that are SPECIFIC ANSWERS or ACTIONS related to that flow!
 - "Back to Menu" and "Talk to Agent" should ONLY appear on error states or at the END of flows, NOT at the start!
 
-IMPORTANT JSON FORMAT RULES:
-- Return ONLY a JSON object with a "nodes" array
+IMPORTANT NODE FORMAT RULES:
+- Call the emit_flow_nodes tool with a "nodes" array
 - Each node must have: num, type, name
 
 ## CRITICAL: EVERY DECISION NODE MUST HAVE A PATH FORWARD! ##
@@ -5018,9 +5006,7 @@ Action nodes (type A):
 - command, paramInput, decVar, whatNext
 - NO message field (message is ONLY for Decision nodes)
 
-Do NOT use commas in message text (use semicolons or reword).
-
-Return ONLY valid JSON (no markdown, no code fences):
+Return the nodes by calling the emit_flow_nodes tool, e.g.:
 {
   "nodes": [
     {
@@ -5115,173 +5101,59 @@ If user clicks "Store Hours" → TELL THEM THE HOURS or how to find them!`;
 
               // Use Sonnet for flow generation - Haiku was ignoring richContent requirements
               // Sonnet is slower but much better at generating proper contextual buttons
-              const apiKey = process.env.ANTHROPIC_API_KEY;
-              if (!apiKey) {
-                throw new Error('ANTHROPIC_API_KEY not configured');
-              }
-              
-              const response = await fetch('https://api.anthropic.com/v1/messages', {
-                method: 'POST',
-                headers: {
-                  'Content-Type': 'application/json',
-                  'x-api-key': apiKey,
-                  'anthropic-version': '2023-06-01'
-                },
-                body: JSON.stringify({
-                  model: 'claude-sonnet-4-20250514',
-                  max_tokens: 8000, // Increased for complex flows with many nodes
-                  system: 'You are a JSON generator. You ONLY output valid JSON with no explanation, no thinking, no markdown. Your response must start with { and end with }. Keep responses concise - generate 8-12 nodes maximum per flow.',
-                  messages: [{ role: 'user', content: flowPrompt }]
-                })
+              // Structured output: the model must call emit_flow_nodes with typed nodes,
+              // so there is no free-form text to repair. CSV rows are serialized client-side.
+              const result = await llm.complete({
+                tag: 'generate-flow',
+                model: 'claude-sonnet-4-20250514',
+                maxTokens: 8000, // Increased for complex flows with many nodes
+                system: 'You generate Pypestream bot flows as structured node data. Always answer by calling the emit_flow_nodes tool. Keep responses concise - generate 8-12 nodes maximum per flow.',
+                tools: [FLOW_NODES_TOOL],
+                toolChoice: FLOW_NODES_TOOL.name,
+                messages: [{ role: 'user', content: flowPrompt }]
               });
-              
-              if (!response.ok) {
-                const errorText = await response.text();
-                throw new Error(`API error: ${response.status} - ${errorText}`);
-              }
-              
-              const result = await response.json();
-              const content = result.content?.[0]?.text || '';
-              const stopReason = result.stop_reason;
+              const stopReason = result.stopReason;
               
               // Log if response was truncated
               if (stopReason === 'max_tokens') {
                 console.warn(`[Generate Flow] WARNING: Response was truncated due to max_tokens limit!`);
               }
-              console.log(`[Generate Flow] Stop reason: ${stopReason}, content length: ${content.length}`);
-              
-              // Check for empty content (API returned nothing)
-              if (!content || content.trim().length === 0) {
-                console.error('[Generate Flow] API returned empty content - possible network issue');
-                throw new Error('API returned empty response - check network connection');
-              }
-              
-              // Log first 500 chars of content for debugging
-              console.log(`[Generate Flow] Raw response preview (first 500 chars): ${content.substring(0, 500)}`);
+              console.log(`[Generate Flow] Stop reason: ${stopReason}`);
               
-              // Parse JSON from response with robust extraction
-              let nodes = [];
-              
-              try {
-                // Remove markdown code fences if present
-                let cleanContent = content
-                  .replace(/```json\s*/gi, '')
-                  .replace(/```\s*/g, '')
-                  .trim();
-                
-                // If content doesn't start with {, try to find the first {
-                if (!cleanContent.startsWith('{')) {
-                  const jsonStart = cleanContent.indexOf('{');
-                  if (jsonStart !== -1) {
-                    console.log(`[Generate Flow] Stripping ${jsonStart} chars of preamble before JSON`);
-                    cleanContent = cleanContent.substring(jsonStart);
-                  }
-                }
-                
-                // First, try to parse the entire response as JSON directly
+              let rawNodes: unknown[] | null = null;
+              const toolUse = result.toolCalls.find(call => call.name === FLOW_NODES_TOOL.name);
+              if (toolUse && Array.isArray(toolUse.input?.nodes)) {
+                rawNodes = toolUse.input.nodes;
+              } else {
+                // Model answered in text despite tool_choice - accept only clean JSON
+                const text = result.text;
                 try {
-                  // Sometimes the AI returns clean JSON
-                  const directParse = JSON.parse(cleanContent);
-                  if (directParse.nodes && Array.isArray(directParse.nodes)) {
-                    nodes = directParse.nodes;
-                    console.log(`[Generate Flow] Direct JSON parse succeeded: ${nodes.length} nodes`);
-                  }
-                } catch (directParseError) {
-                  console.log(`[Generate Flow] Direct parse failed, trying extraction methods`);
-                }
-                
-                // If direct parse didn't work, try to find the nodes array
-                if (nodes.length === 0) {
-                  // Try to find the nodes array - use a more greedy match for nested objects
-                  const nodesStartMatch = cleanContent.match(/"nodes"\s*:\s*\[/);
-                  if (nodesStartMatch) {
-                    const startIndex = nodesStartMatch.index! + nodesStartMatch[0].length - 1;
-                    let bracketCount = 1;
-                    let endIndex = startIndex + 1;
-                    
-                    // Find the matching closing bracket by counting brackets
-                    while (bracketCount > 0 && endIndex < cleanContent.length) {
-                      const char = cleanContent[endIndex];
-                      if (char === '[') bracketCount++;
-                      else if (char === ']') bracketCount--;
-                      endIndex++;
-                    }
-                    
-                    if (bracketCount === 0) {
-                      const nodesArrayStr = cleanContent.substring(startIndex, endIndex);
-                      try {
-                        // Clean up trailing commas
-                        const cleanedArray = nodesArrayStr.replace(/,(\s*[\]}])/g, '$1');
-                        nodes = JSON.parse(cleanedArray);
-                        console.log(`[Generate Flow] Bracket-matched array extraction: ${nodes.length} nodes`);
-                      } catch (arrayParseError) {
-                        console.log(`[Generate Flow] Bracket extraction parse failed: ${arrayParseError}`);
-                      }
-                    }
-                  }
-                }
-                
-                // If direct extraction didn't work, try parsing the whole response
-                if (nodes.length === 0) {
-                  // Find the outermost JSON object containing "nodes"
-                  const jsonMatch = cleanContent.match(/\{[\s\S]*"nodes"[\s\S]*\}/);
-                  if (jsonMatch) {
-                    let jsonStr = jsonMatch[0];
-                    
-                    // Apply repairs
-                    // Fix trailing commas before ] or }
-                    jsonStr = jsonStr.replace(/,(\s*[\]}])/g, '$1');
-                    // Fix unescaped newlines in strings (replace with space)
-                    jsonStr = jsonStr.replace(/(?<=[^\\]"[^"]*)\n(?=[^"]*")/g, ' ');
-                    // Fix double quotes inside strings that aren't escaped
-                    jsonStr = jsonStr.replace(/"([^"]*)"([^",:}\]]*)"([^"]*)"/g, '"$1\\"$2\\"$3"');
-                    
-                    try {
-                      const parsed = JSON.parse(jsonStr);
-                      nodes = parsed.nodes || [];
-                      console.log(`[Generate Flow] Full JSON parse succeeded: ${nodes.length} nodes`);
-                    } catch (fullParseError: any) {
-                      console.log(`[Generate Flow] Full JSON parse failed at position ${fullParseError.message.match(/position (\d+)/)?.[1] || 'unknown'}`);
-                      
-                      // Last resort: try to extract individual node objects
-                      const nodeMatches = cleanContent.matchAll(/\{\s*"num"\s*:\s*(\d+)[\s\S]*?"type"\s*:\s*"[AD]"[\s\S]*?\}(?=\s*[,\]])/g);
-                      const extractedNodes = [];
-                      for (const match of nodeMatches) {
-                        try {
-                          const nodeStr = match[0].replace(/,(\s*[\]}])/g, '$1');
-                          const node = JSON.parse(nodeStr);
-                          extractedNodes.push(node);
-                        } catch (e) {
-                          // Skip malformed nodes
-                        }
-                      }
-                      if (extractedNodes.length > 0) {
-                        nodes = extractedNodes;
-                        console.log(`[Generate Flow] Extracted ${nodes.length} individual nodes as fallback`);
-                      }
-                    }
-                  } else {
-                    console.error('[Generate Flow] No JSON object with "nodes" found in response');
-                    console.error('[Generate Flow] Content preview:', cleanContent.substring(0, 300));
-                  }
+                  const parsed = JSON.parse(text.replace(/```json\s*/gi, '').replace(/```\s*/g, '').trim());
+                  if (Array.isArray(parsed?.nodes)) rawNodes = parsed.nodes;
+                } catch {
+                  console.error('[Generate Flow] Response was not structured node data:', text.substring(0, 300));
                 }
-              } catch (parseError: any) {
-                console.error(`[Generate Flow] Parse failed:`, parseError.message);
-                console.error('[Generate Flow] Content preview:', content.substring(0, 500));
               }
               
-              console.log(`[Generate Flow] Generated ${nodes.length} nodes for "${flow.name}"`);
+              if (!rawNodes || rawNodes.length === 0) {
+                res.statusCode = 422;
+                res.setHeader('Content-Type', 'application/json');
+                res.end(JSON.stringify({ error: 'No nodes returned', schemaErrors: ['Response did not contain a "nodes" array'] }));
+                return;
+              }
               
-              // DEBUG: Log richContent for each node to trace button generation
-              for (const node of nodes) {
-                const richType = node.richType || node.richAssetType || '(none)';
-                const richContent = node.richContent || node.richAssetContent || '(none)';
-                const contentPreview = typeof richContent === 'object' 
-                  ? JSON.stringify(richContent).substring(0, 100)
-                  : String(richContent).substring(0, 100);
-                console.log(`[Generate Flow] Node ${node.num}: richType="${richType}", richContent=${contentPreview}`);
+              // Validate every node against the schema - invalid output is rejected so the client retries
+              const { nodes, errors: schemaErrors } = validateGeneratedNodes(rawNodes);
+              if (schemaErrors.length > 0) {
+                console.warn(`[Generate Flow] ${schemaErrors.length} schema errors in "${flow.name}":`, schemaErrors.slice(0, 5));
+                res.statusCode = 422;
+                res.setHeader('Content-Type', 'application/json');
+                res.end(JSON.stringify({ error: 'Generated nodes failed schema validation', schemaErrors }));
+                return;
               }
               
+              console.log(`[Generate Flow] Generated ${nodes.length} nodes for "${flow.name}"`);
+              
               res.setHeader('Content-Type', 'application/json');
               res.end(JSON.stringify({ nodes, flowName: flow.name }));
               
@@ -5332,10 +5204,9 @@ If user clicks "Store Hours" → TELL THEM THE HOURS or how to find them!`;
                 return;
               }
               
-              const ANTHROPIC_API_KEY = process.env.ANTHROPIC_API_KEY;
-              if (!ANTHROPIC_API_KEY) {
+              if (!llm.isConfigured()) {
                 res.statusCode = 500;
-                res.end(JSON.stringify({ error: 'ANTHROPIC_API_KEY not configured' }));
+                res.end(JSON.stringify({ error: 'No AI provider configured (set ANTHROPIC_API_KEY or LLM_PROVIDER)' }));
                 return;
               }
               
@@ -5794,32 +5665,15 @@ ${knownFixesContext || ''}
 Please fix ALL the validation errors listed above and return the corrected CSV. Use the official documentation provided above as your authoritative reference for the correct formats. If proven fixes are provided above, apply those first as they have worked in the past.`;
               }
 
-              // Call Claude API
-              const anthropicResponse = await fetch('https://api.anthropic.com/v1/messages', {
-                method: 'POST',
-                headers: {
-                  'Content-Type': 'application/json',
-                  'x-api-key': ANTHROPIC_API_KEY,
-                  'anthropic-version': '2023-06-01'
-                },
-                body: JSON.stringify({
-                  model: 'claude-sonnet-4-20250514',
-                  max_tokens: useRowLevel ? 8000 : 16000,
-                  messages: [
-                    { role: 'user', content: userPrompt }
-                  ],
-                  system: systemPrompt + rowLevelSystemAddendum
-                })
+              // Call the model
+              const result = await llm.complete({
+                tag: 'refine-csv',
+                model: 'claude-sonnet-4-20250514',
+                maxTokens: useRowLevel ? 8000 : 16000,
+                system: systemPrompt + rowLevelSystemAddendum,
+                messages: [{ role: 'user', content: userPrompt }]
               });
-              
-              if (!anthropicResponse.ok) {
-                const errorText = await anthropicResponse.text();
-                console.error('[AI Refine] API error:', errorText);
-                throw new Error(`Claude API error: ${anthropicResponse.status}`);
-              }
-              
-              const result = await anthropicResponse.json();
-              const content = result.content?.[0]?.text || '';
+              const content = result.text;
               
               // Log first 200 chars of response for debugging
               console.log(`[AI Refine] Response preview:`, content.substring(0, 200).replace(/\n/g, '\\n'));
@@ -5959,6 +5813,162 @@ Please fix ALL the validation errors listed above and return the corrected CSV.
         });
       }
     },
+    // Pipeline record/replay bundles (src/services/pipeline-fixtures.ts) stored in fixtures/pipeline/
+    {
+      name: 'pipeline-fixtures-middleware',
+      configureServer(server) {
+        const FIXTURE_DIR = resolve(__dirname, 'fixtures', 'pipeline');
+
+        server.middlewares.use('/api/pipeline-fixtures', async (req, res) => {
+          res.setHeader('Content-Type', 'application/json');
+          const name = decodeURIComponent((req.url || '/').split('?')[0].replace(/^\/+|\/+$/g, ''));
+
+          // Bundle names become file names - no paths
+          if (name && !/^[a-zA-Z0-9._-]+$/.test(name)) {
+            res.statusCode = 400;
+            res.end(JSON.stringify({ error: 'Invalid fixture name' }));
+            return;
+          }
+
+          try {
+            if (req.method === 'GET' && !name) {
+              const fixtures = fs.existsSync(FIXTURE_DIR)
+                ? readdirSync(FIXTURE_DIR).filter(f => f.endsWith('.json')).map(f => f.replace(/\.json$/, ''))
+                : [];
+              res.end(JSON.stringify({ fixtures }));
+              return;
+            }
+
+            const file = path.join(FIXTURE_DIR, `${name}.json`);
+
+            if (req.method === 'GET') {
+              if (!fs.existsSync(file)) {
+                res.statusCode = 404;
+                res.end(JSON.stringify({ error: `Fixture ${name} not found` }));
+                return;
+              }
+              res.end(await fsReadFile(file, 'utf-8'));
+              return;
+            }
+
+            if (req.method === 'POST' && name) {
+              let body = '';
+              req.on('data', chunk => { body += chunk; });
+              req.on('end', () => {
+                try {
+                  const fixture = JSON.parse(body);
+                  if (!Array.isArray(fixture.entries)) {
+                    res.statusCode = 400;
+                    res.end(JSON.stringify({ error: 'Not a pipeline fixture' }));
+                    return;
+                  }
+                  fs.mkdirSync(FIXTURE_DIR, { recursive: true });
+                  fs.writeFileSync(file, JSON.stringify(fixture, null, 2));
+                  console.log(`[PipelineFixture] Saved ${file} (${fixture.entries.length} requests)`);
+                  res.end(JSON.stringify({ success: true, file: `fixtures/pipeline/${name}.json` }));
+                } catch (e: any) {
+                  res.statusCode = 400;
+                  res.end(JSON.stringify({ error: e.message }));
+                }
+              });
+              return;
+            }
+
+            res.statusCode = 405;
+            res.end(JSON.stringify({ error: 'Method not allowed' }));
+          } catch (e: any) {
+            console.error('[PipelineFixture] Error:', e);
+            res.statusCode = 500;
+            res.end(JSON.stringify({ error: e.message }));
+          }
+        });
+      }
+    },
+    // Server-side Instant Build jobs (vite/build-worker.ts)
+    {
+      name: 'build-jobs-middleware',
+      configureServer(server) {
+        const worker = createBuildWorker({
+          loadPipeline: () => server.ssrLoadModule('/src/services/instant-build.ts') as Promise<any>,
+          origin: () => (server.resolvedUrls?.local[0] || `http://localhost:${server.config.server.port || 5173}`).replace(/\/+$/, ''),
+          maxConcurrent: Number(process.env.BUILD_WORKER_CONCURRENCY) || 3,
+          supabaseUrl: server.config.env.VITE_SUPABASE_URL || 'https://jcsfggahtaewgqytvgau.supabase.co',
+          supabaseAnonKey: server.config.env.VITE_SUPABASE_ANON_KEY || '',
+        });
+
+        const sendJson = (res: any, status: number, body: unknown) => {
+          res.statusCode = status;
+          res.setHeader('Content-Type', 'application/json');
+          res.end(JSON.stringify(body));
+        };
+
+        server.middlewares.use('/api/build-jobs', async (req, res) => {
+          const url = new URL(req.url || '/', 'http://localhost');
+          const [id, action] = url.pathname.split('/').filter(Boolean).map(decodeURIComponent);
+
+          try {
+            // Only the Authorization header - tokens in URLs end up in logs and history
+            const accessToken = req.headers.authorization?.replace(/^Bearer\s+/i, '') || undefined;
+            const owner = await worker.authenticate(accessToken);
+            if (!owner) {
+              sendJson(res, 401, { error: 'Sign in to run builds' });
+              return;
+            }
+            worker.refreshOwner(owner);
+
+            if (!id) {
+              if (req.method === 'GET') {
+                sendJson(res, 200, { jobs: worker.list(owner.id) });
+                return;
+              }
+              if (req.method === 'POST') {
+                let body = '';
+                req.on('data', chunk => { body += chunk; });
+                req.on('end', () => {
+                  try {
+                    sendJson(res, 200, { job: worker.submit(JSON.parse(body || '{}'), owner) });
+                  } catch (e: any) {
+                    sendJson(res, e instanceof BuildJobError ? e.status : 400, { error: e.message });
+                  }
+                });
+                return;
+              }
+            } else if (!action && req.method === 'GET') {
+              const job = worker.get(id, owner.id);
+              if (job) sendJson(res, 200, { job });
+              else sendJson(res, 404, { error: `Build job ${id} not found` });
+              return;
+            } else if (action === 'cancel' && req.method === 'POST') {
+              const job = worker.cancel(id, owner.id);
+              if (job) sendJson(res, 200, { job });
+              else sendJson(res, 404, { error: `Build job ${id} not found` });
+              return;
+            } else if (action === 'events' && req.method === 'GET') {
+              if (!worker.get(id, owner.id)) {
+                sendJson(res, 404, { error: `Build job ${id} not found` });
+                return;
+              }
+              res.writeHead(200, {
+                'Content-Type': 'text/event-stream',
+                'Cache-Control': 'no-cache',
+                'Connection': 'keep-alive',
+              });
+              const unsubscribe = worker.subscribe(id, owner.id, (event) => {
+                res.write(`data: ${JSON.stringify(event)}\n\n`);
+                if (event.type === 'finished') res.end();
+              });
+              req.on('close', () => unsubscribe?.());
+              return;
+            }
+
+            sendJson(res, 405, { error: 'Method not allowed' });
+          } catch (e: any) {
+            console.error('[BuildJobs] Error:', e);
+            sendJson(res, 500, { error: e.message });
+          }
+        });
+      }
+    },
     // Pypestream Documentation MCP Server with full SSE listener
     {
       name: 'pypestream-docs-middleware',
@@ -6410,7 +6420,14 @@ Please fix ALL the validation errors listed above and return the corrected CSV.
     {
       name: 'botmanager-api-middleware',
       configureServer(server) {
-        const BOT_MANAGER_BASE = 'https://api.pypestream.com/botmanager';
+        const BOT_MANAGER_BASE = PYPESTREAM_HOSTS.botManager;
+        
+        // Multipart uploads use form-data with http(s).request instead of fetch
+        const botManagerTransport = () => PYPESTREAM_HOSTS.mock ? import('http') : import('https');
+        const botManagerTarget = (path: string) => {
+          const url = new URL(`${BOT_MANAGER_BASE}${path}`);
+          return { protocol: url.protocol, hostname: url.hostname, port: url.port || undefined, path: url.pathname };
+        };
         
         // Helper to find the highest version number from a list like ['v1', 'v10', 'v2', 'v23']
         const getHighestVersion = (versions: string[]): string => {
@@ -6518,10 +6535,9 @@ Please fix ALL the validation errors listed above and return the corrected CSV.
                 return;
               }
               
-              const ANTHROPIC_API_KEY = process.env.ANTHROPIC_API_KEY;
-              if (!ANTHROPIC_API_KEY) {
+              if (!llm.isConfigured()) {
                 res.statusCode = 500;
-                res.end(JSON.stringify({ error: 'ANTHROPIC_API_KEY not configured' }));
+                res.end(JSON.stringify({ error: 'No AI provider configured (set ANTHROPIC_API_KEY or LLM_PROVIDER)' }));
                 return;
               }
               
@@ -6697,33 +6713,23 @@ BE HARSH. BE SPECIFIC. PROVIDE COMPLETE REWRITES for bad messages and buttons.
 Return your analysis as JSON with the improvements field populated with EVERY fix needed.`;
 
               // Call Anthropic API
-              const response = await fetch('https://api.anthropic.com/v1/messages', {
-                method: 'POST',
-                headers: {
-                  'Content-Type': 'application/json',
-                  'x-api-key': ANTHROPIC_API_KEY,
-                  'anthropic-version': '2023-06-01'
-                },
-                body: JSON.stringify({
+              let aiResponse;
+              try {
+                aiResponse = await llm.complete({
+                  tag: 'ux-review',
                   model: 'claude-sonnet-4-20250514',
-                  max_tokens: 8000,
-                  messages: [
-                    { role: 'user', content: userPrompt }
-                  ],
-                  system: systemPrompt
-                })
-              });
-              
-              if (!response.ok) {
-                const errorText = await response.text();
-                console.log(`[UX Review] API error: ${response.status} - ${errorText}`);
+                  maxTokens: 8000,
+                  system: systemPrompt,
+                  messages: [{ role: 'user', content: userPrompt }]
+                });
+              } catch (aiError: any) {
+                console.log(`[UX Review] API error: ${aiError.message}`);
                 res.statusCode = 500;
-                res.end(JSON.stringify({ error: `AI API error: ${response.status}` }));
+                res.end(JSON.stringify({ error: `AI API error: ${aiError.status || aiError.message}` }));
                 return;
               }
               
-              const aiResponse = await response.json();
-              const content = aiResponse.content?.[0]?.text || '';
+              const content = aiResponse.text;
               
               // Extract JSON from response
               let analysis;
@@ -6793,10 +6799,9 @@ Return your analysis as JSON with the improvements field populated with EVERY fi
                 return;
               }
               
-              const ANTHROPIC_API_KEY = process.env.ANTHROPIC_API_KEY;
-              if (!ANTHROPIC_API_KEY) {
+              if (!llm.isConfigured()) {
                 res.statusCode = 500;
-                res.end(JSON.stringify({ error: 'ANTHROPIC_API_KEY not configured' }));
+                res.end(JSON.stringify({ error: 'No AI provider configured (set ANTHROPIC_API_KEY or LLM_PROVIDER)' }));
                 return;
               }
               
@@ -6850,33 +6855,23 @@ ${csv}
 
 Apply ALL the changes above and return the complete updated CSV.`;
 
-              const response = await fetch('https://api.anthropic.com/v1/messages', {
-                method: 'POST',
-                headers: {
-                  'Content-Type': 'application/json',
-                  'x-api-key': ANTHROPIC_API_KEY,
-                  'anthropic-version': '2023-06-01'
-                },
-                body: JSON.stringify({
+              let aiResponse;
+              try {
+                aiResponse = await llm.complete({
+                  tag: 'ux-apply',
                   model: 'claude-sonnet-4-20250514',
-                  max_tokens: 16000,
-                  messages: [
-                    { role: 'user', content: userPrompt }
-                  ],
-                  system: systemPrompt
-                })
-              });
-              
-              if (!response.ok) {
-                const errorText = await response.text();
-                console.log(`[UX Apply] API error: ${response.status} - ${errorText}`);
+                  maxTokens: 16000,
+                  system: systemPrompt,
+                  messages: [{ role: 'user', content: userPrompt }]
+                });
+              } catch (aiError: any) {
+                console.log(`[UX Apply] API error: ${aiError.message}`);
                 res.statusCode = 500;
-                res.end(JSON.stringify({ error: `AI API error: ${response.status}` }));
+                res.end(JSON.stringify({ error: `AI API error: ${aiError.status || aiError.message}` }));
                 return;
               }
               
-              const aiResponse = await response.json();
-              let fixedCSV = aiResponse.content?.[0]?.text || '';
+              let fixedCSV = aiResponse.text;
               
               // Clean up the response - remove any markdown code blocks
               fixedCSV = fixedCSV.replace(/```csv\n?/gi, '').replace(/```\n?/g, '').trim();
@@ -7440,7 +7435,7 @@ Apply ALL the changes above and return the complete updated CSV.`;
                     // Bot Manager API requires multipart form data with 'scriptFile' field
                     // Use https module with form-data for proper streaming support
                     const FormData = (await import('form-data')).default;
-                    const https = await import('https');
+                    const https = await botManagerTransport();
                     
                     const formData = new FormData();
                     formData.append('scriptFile', Buffer.from(script.content, 'utf-8'), {
@@ -7452,8 +7447,7 @@ Apply ALL the changes above and return the complete updated CSV.`;
                     const uploadResult = await new Promise<{ ok: boolean; status: number; data: any }>((resolve) => {
                       const req = https.request(
                         {
-                          hostname: 'api.pypestream.com',
-                          path: `/botmanager/versions/${targetVersionId}/scripts`,
+                          ...botManagerTarget(`/versions/${targetVersionId}/scripts`),
                           method: 'POST',
                           headers: {
                             'Authorization': `Bearer ${token}`,
@@ -7497,7 +7491,7 @@ Apply ALL the changes above and return the complete updated CSV.`;
               console.log('[BotManager] Auto-generating and uploading app.py config...');
               try {
                 const FormData = (await import('form-data')).default;
-                const https = await import('https');
+                const https = await botManagerTransport();
                 
                 // Generate app.py with Pypestream's shared OpenAI API key
                 const pypestreamOpenAIKey = process.env.VITE_PYPESTREAM_OPENAI_KEY || '';
@@ -7532,8 +7526,7 @@ PARAMS = {
                 const configUploadResult = await new Promise<{ ok: boolean; status: number; data: any }>((resolve) => {
                   const configReq = https.request(
                     {
-                      hostname: 'api.pypestream.com',
-                      path: `/botmanager/versions/${targetVersionId}/config`,
+                      ...botManagerTarget(`/versions/${targetVersionId}/config`),
                       method: 'POST',
                       headers: {
                         'Authorization': `Bearer ${token}`,
@@ -7613,7 +7606,7 @@ PARAMS = {
                         const widgetId = previewResponse.data.widgetId || previewResponse.data.widget_id || previewResponse.data.appId;
                         if (widgetId) {
                           const webPrefix = environment === 'production' ? 'web' : 'web-sandbox';
-                          previewUrl = `https://${webPrefix}.pypestream.com/preview.html?id=${widgetId}`;
+                          previewUrl = `${PYPESTREAM_HOSTS.host(webPrefix)}/preview.html?id=${widgetId}`;
                           console.log(`[Deploy] Constructed preview URL from widgetId: ${previewUrl}`);
                         }
                       }
@@ -7720,7 +7713,7 @@ PARAMS = {
               }
               
               // Get preview URL
-              const previewUrl = `https://web-${env}.pypestream.com/preview.html?id=${versionId.split('.').slice(0, 2).join('.')}`;
+              const previewUrl = `${PYPESTREAM_HOSTS.host(`web-${env}`)}/preview.html?id=${versionId.split('.').slice(0, 2).join('.')}`;
               
               res.setHeader('Content-Type', 'application/json');
               res.end(JSON.stringify({
@@ -7793,7 +7786,7 @@ PARAMS = {
               
               // Strategy 1: Try GES API
               try {
-                const gesResponse = await fetch('https://api.pypestream.com/ges/v5/customers', {
+                const gesResponse = await fetch(`${PYPESTREAM_HOSTS.api}/ges/v5/customers`, {
                   headers: {
                     'Authorization': `Bearer ${token}`,
                     'Content-Type': 'application/json'
@@ -7820,7 +7813,7 @@ PARAMS = {
               // Strategy 2: Try environment-specific customer API
               if (!customerId) {
                 try {
-                  const envCustomersUrl = `https://api.pypestream.com/${envPrefix}/v5/customers`;
+                  const envCustomersUrl = `${PYPESTREAM_HOSTS.api}/${envPrefix}/v5/customers`;
                   const envResponse = await fetch(envCustomersUrl, {
                     headers: {
                       'Authorization': `Bearer ${token}`,
@@ -7857,7 +7850,7 @@ PARAMS = {
               
               // Step 2: Get or create Pype
               console.log('[Channel] Step 2: Getting/creating pype...');
-              const pypesUrl = `https://api.pypestream.com/${envPrefix}/v5/customers/${customerId}/pypes`;
+              const pypesUrl = `${PYPESTREAM_HOSTS.api}/${envPrefix}/v5/customers/${customerId}/pypes`;
               const pypesResponse = await fetch(pypesUrl, {
                 headers: {
                   'Authorization': `Bearer ${token}`,
@@ -7910,7 +7903,7 @@ PARAMS = {
               // Step 2.5: Try to set avatar/logo on pype (for home menu avatar)
               if (logoUrl && pypeId) {
                 try {
-                  const pypeUpdateUrl = `https://api.pypestream.com/${envPrefix}/v5/customers/${customerId}/pypes/${pypeId}`;
+                  const pypeUpdateUrl = `${PYPESTREAM_HOSTS.api}/${envPrefix}/v5/customers/${customerId}/pypes/${pypeId}`;
                   const pypeUpdateResponse = await fetch(pypeUpdateUrl, {
                     method: 'PATCH',
                     headers: {
@@ -7936,7 +7929,7 @@ PARAMS = {
               
               // Step 3: Create stream
               console.log('[Channel] Step 3: Creating stream...');
-              const streamsUrl = `https://api.pypestream.com/${envPrefix}/v5/customers/${customerId}/pypes/${pypeId}/streams`;
+              const streamsUrl = `${PYPESTREAM_HOSTS.api}/${envPrefix}/v5/customers/${customerId}/pypes/${pypeId}/streams`;
               const streamName = `${botName}-stream-${Date.now()}`.toLowerCase().replace(/[^a-z0-9-]/g, '-');
               
               const createStreamResponse = await fetch(streamsUrl, {
@@ -7972,7 +7965,7 @@ PARAMS = {
               
               // Step 4: Configure bot on stream
               console.log('[Channel] Step 4: Configuring bot on stream...');
-              const configBotUrl = `https://api.pypestream.com/${envPrefix}/v5/customers/${customerId}/pypes/${pypeId}/streams/${streamId}/bot`;
+              const configBotUrl = `${PYPESTREAM_HOSTS.api}/${envPrefix}/v5/customers/${customerId}/pypes/${pypeId}/streams/${streamId}/bot`;
               
               const configBotResponse = await fetch(configBotUrl, {
                 method: 'PUT',
@@ -8004,7 +7997,7 @@ PARAMS = {
               
               // Step 5: Create widget
               console.log('[Channel] Step 5: Creating widget...');
-              const webserviceUrl = `https://webservice-${envPrefix}.pypestream.com/v3/business/widget`;
+              const webserviceUrl = `${PYPESTREAM_HOSTS.host(`webservice-${envPrefix}`)}/v3/business/widget`;
               
               // Default widget styles with brand colors
               const primaryColor = brandAssets?.primaryColor || '#0066FF';
@@ -8253,7 +8246,7 @@ textarea#ps-textinput-textarea:disabled::placeholder {
                   || widgetResult.result?.id;
                 
                 if (widgetId) {
-                  widgetUrl = `https://web-${envPrefix}.pypestream.com/preview.html?id=${widgetId}`;
+                  widgetUrl = `${PYPESTREAM_HOSTS.host(`web-${envPrefix}`)}/preview.html?id=${widgetId}`;
                   console.log(`[Channel] Widget created successfully: ${widgetId}`);
                 } else {
                   console.warn('[Channel] Widget API succeeded but no widget_id found in response');
@@ -8264,7 +8257,7 @@ textarea#ps-textinput-textarea:disabled::placeholder {
               // Fallback: Try Channel API if widget creation didn't return an ID
               if (!widgetId) {
                 console.log('[Channel] Trying Channel API as fallback...');
-                const channelApiUrl = `https://webservice-${envPrefix}.pypestream.com/v3/configuration/customers/${customerId}/channel/`;
+                const channelApiUrl = `${PYPESTREAM_HOSTS.host(`webservice-${envPrefix}`)}/v3/configuration/customers/${customerId}/channel/`;
                 
                 try {
                   const channelResponse = await fetch(channelApiUrl, {
@@ -8294,7 +8287,7 @@ textarea#ps-textinput-textarea:disabled::placeholder {
                       || channelResult.data?.widget_id;
                     
                     if (widgetId) {
-                      widgetUrl = `https://web-${envPrefix}.pypestream.com/preview.html?id=${widgetId}`;
+                      widgetUrl = `${PYPESTREAM_HOSTS.host(`web-${envPrefix}`)}/preview.html?id=${widgetId}`;
                       console.log(`[Channel] Channel created with widget: ${widgetId}`);
                     }
                   } else {
@@ -8310,7 +8303,7 @@ textarea#ps-textinput-textarea:disabled::placeholder {
               if (!widgetId) {
                 console.log('[Channel] Querying existing widgets for pype...');
                 try {
-                  const widgetsQueryUrl = `https://webservice-${envPrefix}.pypestream.com/v3/business/widgets?pype_id=${pypeId}`;
+                  const widgetsQueryUrl = `${PYPESTREAM_HOSTS.host(`webservice-${envPrefix}`)}/v3/business/widgets?pype_id=${pypeId}`;
                   const widgetsResponse = await fetch(widgetsQueryUrl, {
                     headers: {
                       'Authorization': `Bearer ${token}`,
@@ -8328,7 +8321,7 @@ textarea#ps-textinput-textarea:disabled::placeholder {
                       const firstWidget = widgets[0];
                       widgetId = firstWidget.id || firstWidget.widget_id || firstWidget.app_id;
                       if (widgetId) {
-                        widgetUrl = `https://web-${envPrefix}.pypestream.com/preview.html?id=${widgetId}`;
+                        widgetUrl = `${PYPESTREAM_HOSTS.host(`web-${envPrefix}`)}/preview.html?id=${widgetId}`;
                         console.log(`[Channel] Found existing widget: ${widgetId}`);
                       }
                     }
@@ -8341,7 +8334,7 @@ textarea#ps-textinput-textarea:disabled::placeholder {
               // If still no widget URL, log error but don't fail completely
               if (!widgetUrl) {
                 console.error('[Channel] Could not obtain a valid widget URL. The bot is deployed but preview may not work.');
-                widgetUrl = `https://web-${envPrefix}.pypestream.com/preview.html?id=${pypeId}`;
+                widgetUrl = `${PYPESTREAM_HOSTS.host(`web-${envPrefix}`)}/preview.html?id=${pypeId}`;
                 console.log('[Channel] Using pype_id as last resort (may show blank):', widgetUrl);
               }
               
@@ -8461,7 +8454,7 @@ textarea#ps-textinput-textarea:disabled::placeholder {
         // Proxy for error-learning edge function
         server.middlewares.use('/functions/v1/sd-error-learning', async (req, res, next) => {
           res.setHeader('Access-Control-Allow-Origin', '*');
-          res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+          res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PUT, OPTIONS');
           res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
           
           if (req.method === 'OPTIONS') {
@@ -8480,7 +8473,7 @@ textarea#ps-textinput-textarea:disabled::placeholder {
             
             // Forward the request
             let body = '';
-            if (req.method === 'POST') {
+            if (req.method === 'POST' || req.method === 'PUT') {
               await new Promise<void>((resolve) => {
                 req.on('data', (chunk: Buffer) => { body += chunk.toString(); });
                 req.on('end', () => resolve());
@@ -9012,7 +9005,7 @@ textarea#ps-textinput-textarea:disabled::placeholder {
               // Upload the config file as app.py using multipart form data (same as scripts)
               try {
                 const FormData = (await import('form-data')).default;
-                const https = await import('https');
+                const https = await botManagerTransport();
                 
                 const formData = new FormData();
                 formData.append('configFile', Buffer.from(configContent, 'utf-8'), {
@@ -9023,8 +9016,7 @@ textarea#ps-textinput-textarea:disabled::placeholder {
                 const uploadResult = await new Promise<{ ok: boolean; status: number; data: any }>((resolve) => {
                   const req = https.request(
                     {
-                      hostname: 'api.pypestream.com',
-                      path: `/botmanager/versions/${versionId}/config`,
+                      ...botManagerTarget(`/versions/${versionId}/config`),
                       method: 'POST',
                       headers: {
                         'Authorization': `Bearer ${token}`,
@@ -9122,6 +9114,101 @@ textarea#ps-textinput-textarea:disabled::placeholder {
           });
         });
         
+        // Export an existing bot: its CSV graph and custom scripts
+        // Uses the requested version, otherwise the newest version that has a graph
+        server.middlewares.use('/api/botmanager/export', async (req, res, next) => {
+          if (req.method !== 'POST') { next(); return; }
+          
+          res.setHeader('Access-Control-Allow-Origin', '*');
+          res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+          res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+          res.setHeader('Content-Type', 'application/json');
+          
+          let body = '';
+          req.on('data', (chunk: Buffer) => { body += chunk.toString(); });
+          req.on('end', async () => {
+            try {
+              const { botId, token, versionId: requestedVersionId } = JSON.parse(body);
+              
+              if (!token || !botId) {
+                res.statusCode = 400;
+                res.end(JSON.stringify({ success: false, error: 'Bot ID and token required' }));
+                return;
+              }
+              
+              const botInfoResult = await botManagerRequest('GET', `/bots/${botId}`, token);
+              if (!botInfoResult.ok) {
+                res.statusCode = botInfoResult.status === 401 ? 401 : 404;
+                res.end(JSON.stringify({
+                  success: false,
+                  error: botInfoResult.status === 401 ? botInfoResult.data.errors : `Bot ${botId} not found`,
+                  authError: botInfoResult.status === 401,
+                  details: botInfoResult.data,
+                }));
+                return;
+              }
+              
+              const versions: string[] = botInfoResult.data?.data?.versions || [];
+              const candidates = requestedVersionId
+                ? [requestedVersionId]
+                : [...versions]
+                    .sort((a, b) => (parseInt(b.replace('v', '')) || 0) - (parseInt(a.replace('v', '')) || 0))
+                    .map(v => `${botId}.${v}`);
+              
+              // Drafts created by a failed upload have no graph yet - fall back to older versions
+              let versionId = '';
+              let csv = '';
+              for (const candidate of candidates.slice(0, 5)) {
+                const graphResult = await botManagerRequest('GET', `/versions/${candidate}/graph`, token);
+                if (!graphResult.ok) continue;
+                const graph = graphResult.data?.data ?? graphResult.data;
+                const templateData = typeof graph === 'string' ? graph : graph?.templateData ?? graph?.raw;
+                if (typeof templateData === 'string' && templateData.trim()) {
+                  versionId = candidate;
+                  csv = templateData;
+                  break;
+                }
+              }
+              
+              if (!csv) {
+                res.statusCode = 404;
+                res.end(JSON.stringify({ success: false, error: `No version of ${botId} has a CSV graph` }));
+                return;
+              }
+              
+              console.log(`[BotManager] Exporting ${versionId}`);
+              
+              // Scripts are best-effort: the graph alone is enough to import
+              const scripts: { name: string; content: string }[] = [];
+              const listResult = await botManagerRequest('GET', `/versions/${versionId}/scripts`, token);
+              const listed = listResult.ok ? (listResult.data?.data ?? listResult.data) : [];
+              const scriptNames: string[] = (Array.isArray(listed) ? listed : listed?.scripts || [])
+                .map((entry: any) => typeof entry === 'string' ? entry : entry?.name)
+                .filter((name: unknown): name is string => typeof name === 'string' && name.endsWith('.py'));
+              
+              for (const fileName of scriptNames) {
+                const scriptResult = await botManagerRequest('GET', `/versions/${versionId}/scripts/${fileName}`, token);
+                if (!scriptResult.ok) {
+                  console.log(`[BotManager] Could not export script ${fileName}:`, scriptResult.status);
+                  continue;
+                }
+                const script = scriptResult.data?.data ?? scriptResult.data;
+                const content = typeof script === 'string' ? script : script?.content ?? script?.raw;
+                if (typeof content === 'string') {
+                  scripts.push({ name: fileName.replace(/\.py$/, ''), content });
+                }
+              }
+              
+              console.log(`[BotManager] Exported ${versionId} with ${scripts.length} script(s)`);
+              res.end(JSON.stringify({ success: true, botId, versionId, csv, scripts }));
+              
+            } catch (e: any) {
+              res.statusCode = 500;
+              res.end(JSON.stringify({ success: false, error: e.message || String(e) }));
+            }
+          });
+        });
+        
         // Create channel/widget for a deployed bot
         // Full workflow: Create Stream → Configure Bot → Create Widget
         server.middlewares.use('/api/botmanager/create-channel', async (req, res, next) => {
@@ -9293,6 +9380,9 @@ textarea#ps-textinput-textarea:disabled::placeholder {
               const primaryColor = brandAssets?.primaryColor || brandPalette[0] || '#1E3A5F';
               const secondaryColor = brandAssets?.secondaryColor || brandPalette[1] || '#3B82F6';
               
+              // Widget theme saved from the theme designer - its choices win over derived ones
+              const theme = brandAssets?.theme;
+              
               // Separate into dark and light brand colors for smart assignment
               const darkBrandColors = brandPalette.filter(c => isDarkColor(c));
               const lightBrandColors = brandPalette.filter(c => !isDarkColor(c));
@@ -9385,22 +9475,34 @@ textarea#ps-textinput-textarea:disabled::placeholder {
               );
               const timestampColor = timestampResult.color;
               
+              // Text color chosen in the theme, with its contrast for the log below
+              const themedText = (color: string, bg: string) => ({
+                color,
+                ratio: getContrastRatio(color, bg),
+                passes: passesWCAG(color, bg),
+              });
+              
               // User bubbles: use primary brand color, select text that works on it
-              const userBubbleColor = primaryColor;
-              const userBubbleTextResult = selectBestColor(
-                isDarkColor(primaryColor) ? lightBrandColors : darkBrandColors,
-                primaryColor,
-                4.5
-              );
+              const userBubbleColor = theme?.userBubbleColor || primaryColor;
+              const userBubbleTextResult = theme?.userBubbleTextColor
+                ? themedText(theme.userBubbleTextColor, userBubbleColor)
+                : selectBestColor(
+                    isDarkColor(primaryColor) ? lightBrandColors : darkBrandColors,
+                    primaryColor,
+                    4.5
+                  );
               const userBubbleTextColor = userBubbleTextResult.color;
               
               // Agent bubbles: light background, need dark text
-              const agentBubbleColor = agentBubbleBg;
-              const agentBubbleTextResult = selectBestColor(darkBrandColors, agentBubbleBg, 4.5);
+              const agentBubbleColor = theme?.agentBubbleColor || agentBubbleBg;
+              const agentBubbleTextResult = theme?.agentBubbleTextColor
+                ? themedText(theme.agentBubbleTextColor, agentBubbleColor)
+                : selectBestColor(darkBrandColors, agentBubbleBg, 4.5);
               const agentBubbleTextColor = agentBubbleTextResult.color;
               
               // Buttons: use darkest brand color for bg, find contrasting text
-              const buttonBgColor = darkBrandColors[0] || primaryColor;
+              // (a themed widget uses the secondary color, as previewed in the designer)
+              const buttonBgColor = theme ? secondaryColor : (darkBrandColors[0] || primaryColor);
               const buttonTextResult = selectBestColor(
                 isDarkColor(buttonBgColor) ? lightBrandColors : darkBrandColors,
                 buttonBgColor,
@@ -9440,11 +9542,11 @@ textarea#ps-textinput-textarea:disabled::placeholder {
               
               // API base URLs
               const pypesApiBase = environment === 'production' 
-                ? 'https://api.pypestream.com/live/v5'
-                : 'https://api.pypestream.com/sandbox/v5';
+                ? `${PYPESTREAM_HOSTS.api}/live/v5`
+                : `${PYPESTREAM_HOSTS.api}/sandbox/v5`;
               const webserviceBase = environment === 'production'
-                ? 'https://webservice.pypestream.com'
-                : 'https://webservice-sandbox.pypestream.com';
+                ? PYPESTREAM_HOSTS.host('webservice')
+                : PYPESTREAM_HOSTS.host('webservice-sandbox');
               
               console.log(`[Channel] Creating channel for ${botId} in ${environment}`);
               
@@ -9456,7 +9558,7 @@ textarea#ps-textinput-textarea:disabled::placeholder {
               // Strategy 1: Try GES API
               try {
                 const gesResponse = await fetch(
-                  `https://api.pypestream.com/ges/v5/customers`,
+                  `${PYPESTREAM_HOSTS.api}/ges/v5/customers`,
                   { headers: { 'Authorization': `Bearer ${token}` } }
                 );
                 
@@ -9667,7 +9769,13 @@ textarea#ps-textinput-textarea:disabled::placeholder {
               const brandFonts = brandAssets?.fonts || [];
               const titleFont = brandFonts.find((f: any) => f.type === 'title')?.name;
               const bodyFont = brandFonts.find((f: any) => f.type === 'body')?.name || titleFont;
-              const primaryFont = titleFont || bodyFont || 'Inter';
+              const primaryFont = theme?.fontFamily || titleFont || bodyFont || 'Inter';
+              
+              // Bubble corners for the theme's bubble shape
+              const bubbleRadius = BUBBLE_RADIUS[theme?.bubbleShape] || BUBBLE_RADIUS.rounded;
+              
+              // Bot bubble text stays near-black unless the theme picks a color
+              const agentBubbleCssText = theme?.agentBubbleTextColor || '#1A1A1A';
               
               // Generate comprehensive custom CSS using all brand elements
               // Based on production Gillette stylesheet pattern
@@ -9715,6 +9823,7 @@ textarea#ps-textinput-textarea:disabled::placeholder {
                 }
                 
                 googleFonts.forEach((f: any) => fontsToLoad.add(f.name));
+                if (theme?.fontFamily) fontsToLoad.add(theme.fontFamily);
                 
                 const fontFamiliesParam = Array.from(fontsToLoad)
                   .map(f => f.replace(/\s+/g, '+') + ':wght@400;500;600;700')
@@ -9724,7 +9833,7 @@ textarea#ps-textinput-textarea:disabled::placeholder {
                 console.log(`[Channel] Loading fonts from Google: ${Array.from(fontsToLoad).join(', ')}`);
                 
                 // Use the effective font (Google alternative if available) in CSS
-                const cssFont = googleFontAlternative || (googleFonts.length > 0 ? googleFonts[0].name : 'Inter');
+                const cssFont = googleFontAlternative || theme?.fontFamily || (googleFonts.length > 0 ? googleFonts[0].name : 'Inter');
                 
                 // Production-quality CSS based on Gillette example
                 css.push(`
@@ -10923,10 +11032,10 @@ ${avatarLogoForCSS ? `
 /* Bot bubbles use light gray (#F5F5F5) for visibility on white background */
 
 .ps-bubble-solution {
-  background-color: #F5F5F5 !important;
-  color: #1A1A1A !important;
-  border-radius: 18px !important;
-  border-bottom-left-radius: 4px !important;
+  background-color: ${agentBubbleColor} !important;
+  color: ${agentBubbleCssText} !important;
+  border-radius: ${bubbleRadius.corner} !important;
+  border-bottom-left-radius: ${bubbleRadius.tail} !important;
   /* Subtle shadow for depth on white background */
   box-shadow: 0 1px 2px rgba(0, 0, 0, 0.08) !important;
 }
@@ -10934,17 +11043,17 @@ ${avatarLogoForCSS ? `
 .ps-bubble-solution p,
 .ps-bubble-solution span,
 .ps-bubble-solution div {
-  color: #1A1A1A !important;
+  color: ${agentBubbleCssText} !important;
 }
 
 .ps-bubble-solution h3 {
   margin-bottom: -10px;
-  color: #1A1A1A !important;
+  color: ${agentBubbleCssText} !important;
 }
 
 .ps-bubble-solution h4 {
   margin-bottom: -12px;
-  color: #1A1A1A !important;
+  color: ${agentBubbleCssText} !important;
 }
 
 .ps-bubble ul {
@@ -10956,8 +11065,8 @@ ${avatarLogoForCSS ? `
 .ps-bubble-user {
   background-color: ${userBubbleColor} !important;
   color: ${userBubbleTextColor} !important;
-  border-radius: 18px !important;
-  border-bottom-right-radius: 4px !important;
+  border-radius: ${bubbleRadius.corner} !important;
+  border-bottom-right-radius: ${bubbleRadius.tail} !important;
   box-shadow: 0 1px 2px rgba(0, 0, 0, 0.1) !important;
 }
 
@@ -10996,6 +11105,23 @@ ${avatarLogoForCSS ? `
 }
                 `);
                 
+                // Message nodes carry the theme class in their CSS Classname column
+                if (theme?.cssClassname) {
+                  const themeClass = themeClassSelector(theme.cssClassname);
+                  css.push(`
+/* ---------- THEME CLASS (CSS Classname column) ---------- */
+
+${themeClass} .ps-bubble-solution,
+.ps-bubble-solution${themeClass} {
+  background-color: ${agentBubbleColor} !important;
+  color: ${agentBubbleCssText} !important;
+  border-radius: ${bubbleRadius.corner} !important;
+  border-bottom-left-radius: ${bubbleRadius.tail} !important;
+  font-family: '${cssFont}', 'Inter', system-ui, sans-serif !important;
+}
+                  `);
+                }
+                
                 return css.join('\n');
               };
               
@@ -11111,7 +11237,7 @@ ${avatarLogoForCSS ? `
                 
                 if (widgetId) {
                   const webPrefix = environment === 'production' ? 'web' : 'web-sandbox';
-                  previewUrl = `https://${webPrefix}.pypestream.com/preview.html?id=${widgetId}`;
+                  previewUrl = `${PYPESTREAM_HOSTS.host(webPrefix)}/preview.html?id=${widgetId}`;
                 }
               } else {
                 const errText = await widgetResponse.text();
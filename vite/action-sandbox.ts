@@ -0,0 +1,413 @@
+/**
+ * Action Script Sandbox
+ *
+ * Runs a Pypestream action node script in a local Python subprocess so
+ * /api/test-action-code can report what the script really returns.
+ *
+ * - OS isolation with bubblewrap (bwrap): no network, own PID/IPC/user namespaces,
+ *   unprivileged uid, read-only /usr, empty /tmp and only the throwaway working dir
+ *   writable. Without bwrap scripts are refused unless SANDBOX_ISOLATION=none.
+ * - Isolated interpreter (python3 -I), environment scrubbed to PATH
+ * - CPU time and address-space limits (resource.setrlimit) plus a wall-clock timeout
+ * - Audit hook (sys.addaudithook) installed before the script loads, as an extra
+ *   layer: network, subprocesses, exec/spawn, ctypes and file writes outside the
+ *   working dir raise. It is not a boundary on its own.
+ * - Supports both script conventions:
+ *     execute(self, log, payload=None, context=None)    (Pypestream runtime)
+ *     __init__(self, event) + execute(self)              (generated scripts)
+ */
+
+import { spawn } from 'child_process'
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { BotDocument } from '../src/services/bot-document'
+import { parseWhatNext } from '../src/services/conversation-simulator'
+
+export interface SandboxNode {
+  // Script / class name (Command column)
+  command?: string
+  // Parameter Input JSON (object or string)
+  paramInput?: string | Record<string, unknown>
+  // What Next? routing, e.g. "true~300|false~310|error~99990"
+  whatNext?: string
+  // Decision Variable (defaults to "success")
+  decVar?: string
+}
+
+export interface SandboxOptions {
+  node?: SandboxNode
+  // Full bot CSV - used to look up the node and collect the bot's variables
+  csv?: string
+  nodeNum?: number
+  // Variable values to use instead of generated samples
+  variables?: Record<string, string>
+  userInput?: string
+  timeoutMs?: number
+  memoryMb?: number
+}
+
+export interface SandboxResult {
+  ran: boolean
+  result: Record<string, unknown> | null
+  stdout: string
+  logs: string[]
+  traceback: string | null
+  timedOut: boolean
+  durationMs: number
+  // Inputs could not be built (e.g. Parameter Input is not JSON) - the script was not run
+  validationError: string | null
+  // What the script was called with
+  event: Record<string, unknown>
+  branch: {
+    variable: string
+    value: string | null
+    expected: string[]
+    target: number | null
+    matched: boolean
+  }
+}
+
+const DEFAULT_TIMEOUT_MS = 5000
+const DEFAULT_MEMORY_MB = 256
+// Must live under /usr when isolated - nothing else of the host filesystem is mounted
+const PYTHON_BIN = process.env.SANDBOX_PYTHON || 'python3'
+// 'bwrap' (default) or 'none' to run without OS isolation on a trusted machine
+const ISOLATION = process.env.SANDBOX_ISOLATION || 'bwrap'
+const BWRAP_BIN = process.env.SANDBOX_BWRAP || 'bwrap'
+// Where the working dir is mounted inside the bwrap namespace
+const SANDBOX_DIR = '/sandbox'
+const SANDBOX_PATH = '/usr/local/bin:/usr/bin:/bin'
+
+// Harness executed by the sandboxed interpreter: argv = [script.py, input.json, output.json]
+const HARNESS = `
+import contextlib, importlib.util, inspect, io, json, os, resource, sys, traceback
+
+script_path, input_path, output_path = sys.argv[1:4]
+with open(input_path) as f:
+    spec = json.load(f)
+
+mem = spec['memory_mb'] * 1024 * 1024
+resource.setrlimit(resource.RLIMIT_AS, (mem, mem))
+cpu = max(1, int(spec['timeout_ms'] / 1000))
+resource.setrlimit(resource.RLIMIT_CPU, (cpu, cpu + 1))
+
+# Audit hook: runs for every audited operation from here on and cannot be removed
+work_dir = os.path.realpath(os.path.dirname(os.path.abspath(script_path)))
+# Imports still need to read the standard library and installed packages
+read_roots = {os.path.realpath(p) for p in (sys.prefix, sys.base_prefix, sys.exec_prefix, sys.base_exec_prefix)}
+
+BLOCKED_EVENTS = {
+    'socket.connect', 'socket.sendto', 'socket.sendmsg', 'socket.bind', 'socket.getaddrinfo',
+    'subprocess.Popen', 'os.system', 'os.exec', 'os.spawn', 'os.posix_spawn', 'os.fork', 'os.forkpty',
+    'os.kill', 'os.killpg', 'pty.spawn', 'ctypes.dlopen', 'ctypes.dlsym', 'ctypes.call_function',
+}
+# Path-changing calls; the listed argument positions must stay inside the working dir
+PATH_EVENTS = {
+    'os.remove': (0,), 'os.rmdir': (0,), 'os.mkdir': (0,), 'os.rename': (0, 1), 'os.link': (0, 1),
+    'os.symlink': (1,), 'os.truncate': (0,), 'os.chmod': (0,), 'os.chown': (0,), 'os.utime': (0,),
+    'os.chdir': (0,), 'shutil.rmtree': (0,),
+}
+WRITE_FLAGS = os.O_WRONLY | os.O_RDWR | os.O_CREAT | os.O_APPEND | os.O_TRUNC
+
+def _inside(path, roots):
+    real = os.path.realpath(os.fsdecode(path))
+    return any(real == root or real.startswith(root + os.sep) for root in roots)
+
+def _sandbox_audit(event, args):
+    if event in BLOCKED_EVENTS:
+        raise PermissionError(event + ' is not allowed in the test sandbox')
+    if event == 'open':
+        path, mode, flags = args
+        if path is None or isinstance(path, int):
+            return
+        writes = any(c in (mode or '') for c in 'wax+') or bool((flags or 0) & WRITE_FLAGS)
+        if _inside(path, {work_dir}) or (not writes and _inside(path, read_roots)):
+            return
+        raise PermissionError('open(' + os.fsdecode(path) + ') is outside the test sandbox')
+    if event in PATH_EVENTS:
+        for i in PATH_EVENTS[event]:
+            if i < len(args) and isinstance(args[i], (str, bytes, os.PathLike)) and not _inside(args[i], {work_dir}):
+                raise PermissionError(event + '(' + os.fsdecode(args[i]) + ') is outside the test sandbox')
+
+sys.addaudithook(_sandbox_audit)
+
+out = {'result': None, 'logs': [], 'traceback': None}
+stdout = io.StringIO()
+
+def log(message):
+    out['logs'].append(str(message))
+
+try:
+    with contextlib.redirect_stdout(stdout), contextlib.redirect_stderr(stdout):
+        module_spec = importlib.util.spec_from_file_location('action_script', script_path)
+        module = importlib.util.module_from_spec(module_spec)
+        module_spec.loader.exec_module(module)
+
+        classes = [c for _, c in inspect.getmembers(module, inspect.isclass)
+                   if c.__module__ == 'action_script' and hasattr(c, 'execute')]
+        named = [c for c in classes if c.__name__ == spec['command']]
+        if not classes:
+            raise RuntimeError('No class with an execute() method found')
+        cls = (named or classes)[0]
+
+        params = [p for p in inspect.signature(cls.execute).parameters if p != 'self']
+        if params:
+            result = cls().execute(log, spec['payload'], spec['context'])
+        else:
+            init_params = [p for p in inspect.signature(cls.__init__).parameters if p != 'self']
+            instance = cls(spec['event']) if init_params else cls()
+            result = instance.execute()
+
+    out['result'] = result if isinstance(result, dict) else {'__non_dict__': repr(result)}
+except BaseException:
+    out['traceback'] = traceback.format_exc()
+
+out['stdout'] = stdout.getvalue()
+with open(output_path, 'w') as f:
+    json.dump(out, f, default=str)
+`
+
+/**
+ * Build the inputs a script would receive at runtime: the node's Parameter Input
+ * (with {VARIABLE} placeholders filled in) and the bot's session variables.
+ * An invalid Parameter Input is reported in validationError, not thrown.
+ */
+export function buildSandboxEvent(options: SandboxOptions) {
+  const node = resolveNode(options)
+
+  // Every variable the bot sets, with a sample value unless one was provided
+  const variables: Record<string, string> = {}
+  if (options.csv) {
+    for (const n of BotDocument.parse(options.csv).nodes) {
+      for (const name of n.variable.split(/[,|]/).map(v => v.trim()).filter(Boolean)) {
+        variables[name] = `sample_${name.toLowerCase()}`
+      }
+    }
+  }
+  Object.assign(variables, options.variables || {})
+
+  let payload: Record<string, unknown> = {}
+  let validationError: string | null = null
+  const rawParams = node.paramInput
+  if (rawParams && typeof rawParams === 'object') {
+    payload = rawParams
+  } else if (typeof rawParams === 'string' && rawParams.trim()) {
+    const filled = rawParams.replace(/\{([A-Z0-9_]+)\}/g, (match, name: string) =>
+      variables[name] !== undefined ? variables[name] : match
+    )
+    try {
+      payload = JSON.parse(filled)
+    } catch (e: any) {
+      validationError = `Parameter Input is not valid JSON (${e.message}): ${rawParams}`
+    }
+  }
+
+  const userInput = options.userInput || ''
+  const chatId = 'sandbox-chat-0001'
+  const context = { chat_id: chatId, user_data: { platform: 'Mac OS X', ...variables }, events: [] }
+  const event = { ...payload, user_input: userInput, session_id: chatId, global_variables: variables }
+
+  return { node, payload, context, event, variables, validationError }
+}
+
+/**
+ * Run a script in the sandbox and check its result against the node's What Next
+ */
+export async function runActionScript(code: string, options: SandboxOptions = {}): Promise<SandboxResult> {
+  const timeoutMs = options.timeoutMs || DEFAULT_TIMEOUT_MS
+  const { node, payload, context, event, validationError } = buildSandboxEvent(options)
+  const variable = node.decVar?.trim() || 'success'
+  const routes = parseWhatNext(node.whatNext?.trim() || '')
+
+  // The runtime could not call the script with these inputs either
+  if (validationError) {
+    return {
+      ran: false,
+      result: null,
+      stdout: '',
+      logs: [],
+      traceback: null,
+      timedOut: false,
+      durationMs: 0,
+      validationError,
+      event: { payload, context, event },
+      branch: { variable, value: null, expected: [...routes.keys()], target: null, matched: false },
+    }
+  }
+
+  const dir = await mkdtemp(join(tmpdir(), 'action-sandbox-'))
+  const started = Date.now()
+
+  try {
+    await writeFile(join(dir, 'script.py'), code)
+    await writeFile(join(dir, 'harness.py'), HARNESS)
+    await writeFile(join(dir, 'input.json'), JSON.stringify({
+      command: node.command || '',
+      payload,
+      context,
+      event,
+      timeout_ms: timeoutMs,
+      memory_mb: options.memoryMb || DEFAULT_MEMORY_MB,
+    }))
+
+    const { command, args } = sandboxCommand(dir, ['-I', 'harness.py', 'script.py', 'input.json', 'output.json'])
+    const { timedOut, stderr } = await new Promise<{ timedOut: boolean; stderr: string }>((resolve, reject) => {
+      const child = spawn(command, args, {
+        cwd: dir,
+        // Nothing from the dev server's environment (API keys, tokens) reaches the script
+        env: { PATH: process.env.PATH || '/usr/bin:/bin' },
+        stdio: ['ignore', 'ignore', 'pipe'],
+      })
+      let stderr = ''
+      let killed = false
+      const timer = setTimeout(() => {
+        killed = true
+        child.kill('SIGKILL')
+      }, timeoutMs)
+
+      child.stderr.on('data', (chunk: Buffer) => { stderr += chunk.toString() })
+      child.on('error', (err: NodeJS.ErrnoException) => {
+        clearTimeout(timer)
+        reject(new Error(err.code === 'ENOENT' && command === BWRAP_BIN
+          ? `Action scripts run under bubblewrap, but ${BWRAP_BIN} was not found. Install bubblewrap, or set SANDBOX_ISOLATION=none to run scripts without OS isolation.`
+          : `Could not start ${command}: ${err.message}`))
+      })
+      child.on('close', () => {
+        clearTimeout(timer)
+        resolve({ timedOut: killed, stderr })
+      })
+    })
+
+    let output: { result: Record<string, unknown> | null; stdout: string; logs: string[]; traceback: string | null } = {
+      result: null,
+      stdout: '',
+      logs: [],
+      traceback: null,
+    }
+    try {
+      output = JSON.parse(await readFile(join(dir, 'output.json'), 'utf-8'))
+    } catch {
+      // Killed before the harness could write (timeout, memory limit, CPU limit)
+      output.traceback = timedOut
+        ? `Timed out after ${timeoutMs}ms`
+        : stderr.trim() || 'Script process exited without a result (memory or CPU limit exceeded?)'
+    }
+
+    // Compare the decision variable with the node's What Next branches
+    const rawValue = output.result?.[variable]
+    const value = rawValue === undefined || rawValue === null ? null : String(rawValue)
+    const target = value !== null ? routes.get(value) ?? null : null
+
+    return {
+      ran: !!output.result && !output.traceback,
+      result: output.result,
+      stdout: output.stdout,
+      logs: output.logs,
+      traceback: output.traceback,
+      timedOut,
+      durationMs: Date.now() - started,
+      validationError: null,
+      event: { payload, context, event },
+      branch: {
+        variable,
+        value,
+        expected: [...routes.keys()],
+        target,
+        // Without What Next routing there is nothing to match against
+        matched: routes.size === 0 ? value !== null : target !== null,
+      },
+    }
+  } finally {
+    await rm(dir, { recursive: true, force: true })
+  }
+}
+
+/**
+ * Human-readable report for the code modal
+ */
+export function formatSandboxReport(run: SandboxResult): string {
+  const lines: string[] = []
+
+  if (run.validationError) {
+    return `✗ Script not run\n\n${run.validationError}`
+  }
+
+  if (run.traceback) {
+    lines.push(run.timedOut ? '✗ Script timed out' : '✗ Script raised an exception', '', run.traceback.trim())
+  } else {
+    lines.push(`✓ Script ran in ${run.durationMs}ms`, '', 'Returned:', JSON.stringify(run.result, null, 2))
+  }
+
+  if (!run.traceback) {
+    const { variable, value, expected, target, matched } = run.branch
+    lines.push('')
+    if (expected.length === 0) {
+      lines.push(matched ? `✓ ${variable} = "${value}" (no What Next to check)` : `✗ Result has no "${variable}" key`)
+    } else if (matched) {
+      lines.push(`✓ ${variable} = "${value}" routes to node ${target}`)
+    } else {
+      lines.push(`✗ ${variable} = ${value === null ? '(missing)' : `"${value}"`} matches no What Next branch (expected one of: ${expected.join(', ')})`)
+    }
+  }
+
+  if (run.logs.length > 0) lines.push('', 'log():', ...run.logs.map(l => `  ${l}`))
+  if (run.stdout.trim()) lines.push('', 'stdout:', run.stdout.trimEnd())
+
+  return lines.join('\n')
+}
+
+/**
+ * Command line that starts the interpreter. Under bwrap the script sees a read-only
+ * /usr, an empty /tmp and its working dir - no network, host processes or home dir.
+ */
+function sandboxCommand(dir: string, pythonArgs: string[]): { command: string; args: string[] } {
+  if (ISOLATION === 'none') {
+    return { command: PYTHON_BIN, args: pythonArgs }
+  }
+  if (ISOLATION !== 'bwrap') {
+    throw new Error(`Unknown SANDBOX_ISOLATION "${ISOLATION}" (expected "bwrap" or "none")`)
+  }
+
+  return {
+    command: BWRAP_BIN,
+    args: [
+      '--unshare-all',
+      '--die-with-parent',
+      '--new-session',
+      '--uid', '65534',
+      '--gid', '65534',
+      '--ro-bind', '/usr', '/usr',
+      '--ro-bind-try', '/bin', '/bin',
+      '--ro-bind-try', '/lib', '/lib',
+      '--ro-bind-try', '/lib64', '/lib64',
+      '--proc', '/proc',
+      '--dev', '/dev',
+      '--tmpfs', '/tmp',
+      '--bind', dir, SANDBOX_DIR,
+      // The script can write its output but not replace the harness that reads it
+      '--ro-bind', join(dir, 'harness.py'), `${SANDBOX_DIR}/harness.py`,
+      '--remount-ro', '/',
+      '--chdir', SANDBOX_DIR,
+      '--clearenv',
+      '--setenv', 'PATH', SANDBOX_PATH,
+      '--',
+      PYTHON_BIN,
+      ...pythonArgs,
+    ],
+  }
+}
+
+function resolveNode(options: SandboxOptions): SandboxNode {
+  const node: SandboxNode = { ...(options.node || {}) }
+  if (options.csv && options.nodeNum !== undefined) {
+    const row = BotDocument.parse(options.csv).getNode(options.nodeNum)
+    if (row) {
+      node.command = node.command || row.command.trim()
+      node.paramInput = node.paramInput || row.paramInput.trim()
+      node.whatNext = node.whatNext || row.whatNext.trim()
+      node.decVar = node.decVar || row.decVar.trim()
+    }
+  }
+  return node
+}
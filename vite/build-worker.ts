@@ -0,0 +1,387 @@
+/**
+ * Build Worker
+ *
+ * Runs Instant Build jobs in the dev server process instead of the user's tab,
+ * so a build survives navigation and reloads, and several builds can run at
+ * once. Served by the build-jobs middleware in vite.config.ts:
+ *
+ *   POST /api/build-jobs              submit a BuildJobInput, returns the job
+ *   GET  /api/build-jobs              list the caller's jobs
+ *   GET  /api/build-jobs/:id          status, latest progress and result
+ *   POST /api/build-jobs/:id/cancel   cancel a queued or running job
+ *   GET  /api/build-jobs/:id/events   server-sent events: the latest progress,
+ *                                     every update after it, then 'finished'
+ *
+ * The pipeline (src/services/instant-build.ts) is loaded through Vite's SSR
+ * loader so import.meta.env resolves like in the app. Its relative /api/*
+ * fetches are sent back to this server, and every fetch a job makes carries
+ * the job's abort signal so cancelling stops in-flight AI and Bot Manager
+ * requests.
+ *
+ * Every request carries the user's Supabase access token in the Authorization
+ * header. A job belongs to the user who submitted it - other users get a 404
+ * for it - and runs as that user: its Supabase requests carry the token, so
+ * build checkpoints pass RLS. Later requests from the user (the event stream
+ * reconnects whenever the app refreshes its session) replace the token of
+ * their running jobs; a job whose token expires anyway fails at its next
+ * Supabase request instead of running on unauthenticated.
+ *
+ * Like the rest of /api/*, this runs in the dev server only; the Netlify
+ * build has no equivalent.
+ *
+ * Jobs live in memory; finished jobs are dropped after JOB_TTL_MS.
+ * Wire types are mirrored by src/services/build-jobs.ts.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks'
+import { randomUUID } from 'crypto'
+
+export type BuildJobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled'
+
+// Progress events are relayed as-is, stamped with the server's performance.now()
+// so clients can rebase the pipeline's timing fields onto their own clock
+export interface BuildJobProgress {
+  emittedAt: number
+  [key: string]: unknown
+}
+
+export interface BuildJob {
+  id: string
+  status: BuildJobStatus
+  projectName: string
+  userId: string
+  solutionId?: string
+  createdAt: string
+  startedAt?: string
+  finishedAt?: string
+  progress?: BuildJobProgress
+  // InstantBuildResult once the job finishes
+  result?: Record<string, unknown>
+  error?: string
+}
+
+export type BuildJobEvent =
+  | { type: 'progress'; progress: BuildJobProgress }
+  | { type: 'finished'; job: BuildJob }
+
+type BuildJobListener = (event: BuildJobEvent) => void
+
+// instantBuild's arguments; the token stays on the server and is never listed
+interface BuildJobInput {
+  description: string
+  extractedDetails: { projectName?: string; [key: string]: unknown }
+  brandAssets?: unknown
+  token: string
+  userId?: string
+  cachedGeneration?: unknown
+  aiCredentials?: unknown
+  solutionId?: string | null
+  plannedArchitecture?: unknown
+  // Per-build AI spend limit; the server has no localStorage to read it from
+  budgetUsd?: number | null
+}
+
+interface Pipeline {
+  instantBuild: (...args: any[]) => Promise<Record<string, any>>
+}
+
+// Signed-in user a job runs as; the token never leaves the server
+export interface BuildJobOwner {
+  id: string
+  accessToken: string
+  // When accessToken expires (ms since epoch)
+  expiresAt: number
+}
+
+export interface BuildWorkerOptions {
+  // Loads src/services/instant-build.ts
+  loadPipeline: () => Promise<Pipeline>
+  // Origin the pipeline's relative /api/* fetches are sent to, e.g. http://localhost:5173
+  origin: () => string
+  // Supabase project the access tokens belong to
+  supabaseUrl: string
+  supabaseAnonKey: string
+  // Jobs run at once; more are queued (default 3)
+  maxConcurrent?: number
+  log?: (message: string) => void
+}
+
+interface JobEntry {
+  job: BuildJob
+  input: BuildJobInput
+  owner: BuildJobOwner
+  abort: AbortController
+  listeners: Set<BuildJobListener>
+  // Set when the job was stopped because the owner's token expired
+  expired?: boolean
+}
+
+const JOB_TTL_MS = 60 * 60 * 1000
+const FINISHED: BuildJobStatus[] = ['succeeded', 'failed', 'cancelled']
+const SESSION_EXPIRED = 'Your sign-in expired during the build - sign in again and rerun it'
+
+export class BuildJobError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message)
+    this.name = 'BuildJobError'
+  }
+}
+
+// Job whose pipeline is making the current fetch
+const jobScope = new AsyncLocalStorage<JobEntry>()
+let fetchInstalled = false
+
+/**
+ * Route fetches made inside a job: relative URLs go to the dev server, Supabase
+ * requests are made with the owner's access token, and the job's abort signal
+ * is attached. Fetches outside a job are untouched.
+ */
+function installJobFetch(origin: () => string, supabaseUrl: string) {
+  if (fetchInstalled) return
+  fetchInstalled = true
+
+  const realFetch = globalThis.fetch
+  globalThis.fetch = ((input: Parameters<typeof fetch>[0], init?: RequestInit) => {
+    const entry = jobScope.getStore()
+    if (!entry) return realFetch(input, init)
+
+    const { signal } = entry.abort
+    if (signal.aborted) return Promise.reject(new Error('Build cancelled'))
+
+    const url = typeof input === 'string' && input.startsWith('/') ? `${origin()}${input}` : input
+    const href = url instanceof Request ? url.url : String(url)
+    let headers = init?.headers
+    if (href.startsWith(supabaseUrl)) {
+      if (Date.now() >= entry.owner.expiresAt) {
+        entry.expired = true
+        entry.abort.abort()
+        return Promise.reject(new Error(SESSION_EXPIRED))
+      }
+      headers = new Headers(init?.headers ?? (url instanceof Request ? url.headers : undefined))
+      headers.set('Authorization', `Bearer ${entry.owner.accessToken}`)
+    }
+    return realFetch(url, {
+      ...init,
+      headers,
+      signal: init?.signal ? AbortSignal.any([init.signal, signal]) : signal,
+    })
+  }) as typeof fetch
+}
+
+/**
+ * Expiry of a Supabase access token from its exp claim, in ms. Only called on
+ * tokens Supabase has just accepted, so the payload is not verified again.
+ */
+function tokenExpiry(accessToken: string): number {
+  try {
+    const payload = JSON.parse(Buffer.from(accessToken.split('.')[1], 'base64url').toString())
+    return typeof payload.exp === 'number' ? payload.exp * 1000 : Infinity
+  } catch {
+    return Infinity
+  }
+}
+
+export function createBuildWorker(options: BuildWorkerOptions) {
+  const log = options.log || ((message: string) => console.log(`[BuildWorker] ${message}`))
+  const maxConcurrent = Math.max(1, options.maxConcurrent || 3)
+  const jobs = new Map<string, JobEntry>()
+  let running = 0
+
+  const supabaseUrl = options.supabaseUrl.replace(/\/+$/, '')
+  installJobFetch(options.origin, supabaseUrl)
+
+  // Jobs of other users are reported as unknown
+  const owned = (id: string, ownerId: string): JobEntry | undefined => {
+    const entry = jobs.get(id)
+    return entry?.owner.id === ownerId ? entry : undefined
+  }
+
+  const snapshot = (entry: JobEntry): BuildJob => ({ ...entry.job })
+
+  const emit = (entry: JobEntry, event: BuildJobEvent) => {
+    for (const listener of entry.listeners) {
+      try {
+        listener(event)
+      } catch (e) {
+        log(`Listener error on ${entry.job.id}: ${e}`)
+      }
+    }
+  }
+
+  const finish = (entry: JobEntry, status: BuildJobStatus, result?: Record<string, any>, error?: string) => {
+    const { job } = entry
+    job.status = status
+    job.finishedAt = new Date().toISOString()
+    if (result) job.result = result
+    if (error) job.error = error
+    log(`${job.id} ${status}${error ? `: ${error}` : ''}`)
+
+    emit(entry, { type: 'finished', job: snapshot(entry) })
+    entry.listeners.clear()
+    setTimeout(() => jobs.delete(job.id), JOB_TTL_MS).unref()
+  }
+
+  const run = async (entry: JobEntry) => {
+    const { job, input } = entry
+    job.status = 'running'
+    job.startedAt = new Date().toISOString()
+    running++
+    log(`${job.id} started (${job.projectName}), ${running} running`)
+
+    const onProgress = (update: Record<string, unknown>) => {
+      if (entry.abort.signal.aborted) return
+      job.progress = { ...update, emittedAt: performance.now() }
+      emit(entry, { type: 'progress', progress: job.progress })
+    }
+
+    try {
+      const { instantBuild } = await options.loadPipeline()
+      const result = await jobScope.run(entry, () => instantBuild(
+        input.description,
+        input.extractedDetails,
+        input.brandAssets ?? null,
+        input.token,
+        input.userId || 'anonymous',
+        onProgress,
+        input.cachedGeneration,
+        input.aiCredentials,
+        input.solutionId,
+        input.plannedArchitecture,
+        entry.owner.accessToken,
+        typeof input.budgetUsd === 'number' && input.budgetUsd > 0 ? input.budgetUsd : null
+      ))
+
+      if (entry.expired) finish(entry, 'failed', result, SESSION_EXPIRED)
+      else if (entry.abort.signal.aborted) finish(entry, 'cancelled', result, 'Build cancelled')
+      else if (result.success) finish(entry, 'succeeded', result)
+      else finish(entry, 'failed', result, result.error || 'Build failed')
+    } catch (e: any) {
+      if (entry.expired) finish(entry, 'failed', undefined, SESSION_EXPIRED)
+      else if (entry.abort.signal.aborted) finish(entry, 'cancelled', undefined, 'Build cancelled')
+      else finish(entry, 'failed', undefined, e?.message || String(e))
+    } finally {
+      running--
+      startQueued()
+    }
+  }
+
+  const startQueued = () => {
+    for (const entry of jobs.values()) {
+      if (running >= maxConcurrent) return
+      if (entry.job.status === 'queued') void run(entry)
+    }
+  }
+
+  return {
+    /**
+     * The user an access token belongs to, or null for a missing or expired token
+     */
+    async authenticate(accessToken: string | undefined): Promise<BuildJobOwner | null> {
+      if (!accessToken) return null
+      try {
+        const response = await fetch(`${supabaseUrl}/auth/v1/user`, {
+          headers: { apikey: options.supabaseAnonKey, Authorization: `Bearer ${accessToken}` },
+          signal: AbortSignal.timeout(10_000),
+        })
+        if (!response.ok) return null
+        const user = await response.json()
+        return user?.id ? { id: user.id, accessToken, expiresAt: tokenExpiry(accessToken) } : null
+      } catch (e) {
+        log(`Could not verify access token: ${e}`)
+        return null
+      }
+    },
+
+    /**
+     * Queue a build for the owner; it starts as soon as a slot is free
+     */
+    submit(input: BuildJobInput, owner: BuildJobOwner): BuildJob {
+      if (!input?.description || !input.extractedDetails) {
+        throw new BuildJobError('description and extractedDetails are required', 400)
+      }
+      if (!input.token) {
+        throw new BuildJobError('A Pypestream API token is required', 400)
+      }
+
+      const entry: JobEntry = {
+        job: {
+          id: randomUUID(),
+          status: 'queued',
+          projectName: input.extractedDetails.projectName || 'Instant Build Solution',
+          userId: input.userId || 'anonymous',
+          solutionId: input.solutionId || undefined,
+          createdAt: new Date().toISOString(),
+        },
+        input,
+        owner,
+        abort: new AbortController(),
+        listeners: new Set(),
+      }
+      jobs.set(entry.job.id, entry)
+      log(`${entry.job.id} queued (${entry.job.projectName})`)
+      startQueued()
+      return snapshot(entry)
+    },
+
+    /**
+     * Give the owner's unfinished jobs a token that lasts longer than theirs
+     */
+    refreshOwner(owner: BuildJobOwner): void {
+      for (const entry of jobs.values()) {
+        if (entry.owner.id !== owner.id || FINISHED.includes(entry.job.status)) continue
+        if (owner.expiresAt > entry.owner.expiresAt) entry.owner = owner
+      }
+    },
+
+    get(id: string, ownerId: string): BuildJob | undefined {
+      const entry = owned(id, ownerId)
+      return entry && snapshot(entry)
+    },
+
+    /**
+     * The owner's jobs, newest first
+     */
+    list(ownerId: string): BuildJob[] {
+      return [...jobs.values()].filter(entry => entry.owner.id === ownerId).map(snapshot).reverse()
+    },
+
+    /**
+     * Cancel a job. A running job stops at its next fetch and reports
+     * 'cancelled' once the pipeline unwinds.
+     */
+    cancel(id: string, ownerId: string): BuildJob | undefined {
+      const entry = owned(id, ownerId)
+      if (!entry) return undefined
+
+      if (entry.job.status === 'queued') {
+        entry.abort.abort()
+        finish(entry, 'cancelled', undefined, 'Build cancelled')
+      } else if (entry.job.status === 'running' && !entry.abort.signal.aborted) {
+        log(`${id} cancelling`)
+        entry.abort.abort()
+      }
+      return snapshot(entry)
+    },
+
+    /**
+     * Listen for a job's events. The listener is called straight away with the
+     * latest progress, or with 'finished' if the job is already done.
+     * Returns the unsubscribe function, or undefined for an unknown job.
+     */
+    subscribe(id: string, ownerId: string, listener: BuildJobListener): (() => void) | undefined {
+      const entry = owned(id, ownerId)
+      if (!entry) return undefined
+
+      if (FINISHED.includes(entry.job.status)) {
+        listener({ type: 'finished', job: snapshot(entry) })
+        return () => {}
+      }
+
+      if (entry.job.progress) listener({ type: 'progress', progress: entry.job.progress })
+      entry.listeners.add(listener)
+      return () => { entry.listeners.delete(listener) }
+    },
+  }
+}
+
+export type BuildWorker = ReturnType<typeof createBuildWorker>
@@ -0,0 +1,612 @@
+/**
+ * LLM Gateway
+ *
+ * Single entry point for every AI call made by the dev-server middleware.
+ * Middleware builds prompts; the gateway picks the provider, applies the
+ * per-request timeout, retries rate limits / overloads, walks fallbacks and
+ * counts tokens.
+ *
+ * Providers:
+ *   anthropic          Messages API (default)
+ *   google             Gemini generateContent
+ *   openai-compatible  Any /chat/completions endpoint (Ollama, LM Studio, vLLM, ...)
+ *   replay             Serves responses recorded with LLM_RECORD_DIR - no network
+ *
+ * Environment:
+ *   LLM_PROVIDER     Use this provider for every call (otherwise the request's aiProvider, default anthropic)
+ *   LLM_BASE_URL     openai-compatible base URL (default http://localhost:11434/v1)
+ *   LLM_MODEL        Model for openai-compatible / google
+ *   LLM_API_KEY      Bearer token for openai-compatible (optional)
+ *   LLM_RECORD_DIR   Save every prompt/response pair as a fixture
+ *   LLM_REPLAY_DIR   Fixture directory read by the replay provider
+ *
+ * Every /api response carries an X-LLM-Usage header listing the calls made
+ * while serving it (tokens, model, estimated cost) - see llmUsageMiddleware.
+ */
+
+import { AsyncLocalStorage, AsyncResource } from 'async_hooks'
+import { createHash } from 'crypto'
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs'
+import type { IncomingMessage, ServerResponse } from 'http'
+import { join } from 'path'
+
+export type LLMProviderId = 'anthropic' | 'google' | 'openai-compatible' | 'replay'
+
+export interface LLMMessage {
+  role: 'user' | 'assistant'
+  content: string
+}
+
+export interface LLMTool {
+  name: string
+  description?: string
+  input_schema: unknown
+}
+
+// One provider/model to try; the request itself is the first attempt
+export interface LLMAttempt {
+  provider?: LLMProviderId
+  // Anthropic model name (other providers fall back to their configured model)
+  model?: string
+  maxTokens?: number
+  timeoutMs?: number
+}
+
+export interface LLMRequest extends LLMAttempt {
+  // Endpoint label for logs, usage and fixtures, e.g. 'generate-csv'
+  tag: string
+  system?: string
+  messages: LLMMessage[]
+  maxTokens: number
+  temperature?: number
+  tools?: LLMTool[]
+  // Force the model to call this tool
+  toolChoice?: string
+  // Tried in order when an attempt times out, is rate limited or has no key
+  fallbacks?: LLMAttempt[]
+}
+
+// AI settings sent by the client (Credentials.aiProvider / API key)
+export interface LLMCredentials {
+  aiProvider?: string
+  aiApiKey?: string
+}
+
+export interface LLMUsage {
+  inputTokens: number
+  outputTokens: number
+}
+
+export interface LLMResponse {
+  text: string
+  toolCalls: { name: string; input: any }[]
+  stopReason: 'end_turn' | 'max_tokens' | 'tool_use' | 'other'
+  provider: LLMProviderId
+  model: string
+  usage: LLMUsage
+  durationMs: number
+}
+
+export interface LLMUsageEvent extends LLMUsage {
+  tag: string
+  provider: LLMProviderId
+  model: string
+  durationMs: number
+  // Estimate from MODEL_PRICING; 0 for unpriced (local) models
+  costUsd: number
+}
+
+export interface LLMGatewayOptions {
+  env?: Record<string, string | undefined>
+  // Retries per attempt for rate limits, overloads and network errors
+  maxRetries?: number
+  // Longer retry-after waits are surfaced as RateLimitError instead of sleeping
+  maxRetryWaitMs?: number
+  defaultTimeoutMs?: number
+  fetch?: typeof fetch
+  log?: (message: string) => void
+}
+
+// ============================================
+// ERRORS
+// ============================================
+
+export class LLMError extends Error {
+  constructor(
+    message: string,
+    public provider: LLMProviderId | null,
+    public status: number | null = null,
+    public retryable = false
+  ) {
+    super(message)
+    this.name = 'LLMError'
+  }
+}
+
+export class RateLimitError extends LLMError {
+  constructor(message: string, provider: LLMProviderId, public retryAfterSeconds: number) {
+    super(message, provider, 429, true)
+    this.name = 'RateLimitError'
+  }
+}
+
+export class AuthError extends LLMError {
+  constructor(message: string, provider: LLMProviderId | null, status: number | null = 401) {
+    super(message, provider, status)
+    this.name = 'AuthError'
+  }
+}
+
+export class LLMTimeoutError extends LLMError {
+  constructor(provider: LLMProviderId, timeoutMs: number) {
+    super(`${provider} request timed out after ${timeoutMs / 1000}s`, provider, null, false)
+    this.name = 'LLMTimeoutError'
+  }
+}
+
+const PROVIDERS: LLMProviderId[] = ['anthropic', 'google', 'openai-compatible', 'replay']
+const PLACEHOLDER_KEYS = new Set(['', 'your-api-key-here'])
+const RETRYABLE_STATUS = new Set([408, 500, 502, 503, 504, 529])
+
+// USD per million input / output tokens, matched by model-name prefix
+const MODEL_PRICING: Array<{ prefix: string; input: number; output: number }> = [
+  { prefix: 'claude-opus-4', input: 15, output: 75 },
+  { prefix: 'claude-sonnet-4', input: 3, output: 15 },
+  { prefix: 'claude-3-7-sonnet', input: 3, output: 15 },
+  { prefix: 'claude-3-5-sonnet', input: 3, output: 15 },
+  { prefix: 'claude-3-5-haiku', input: 0.8, output: 4 },
+  { prefix: 'claude-haiku-4', input: 1, output: 5 },
+  { prefix: 'gemini-2.0-flash', input: 0.1, output: 0.4 },
+  { prefix: 'gemini-2.5-flash', input: 0.3, output: 2.5 },
+  { prefix: 'gemini-2.5-pro', input: 1.25, output: 10 },
+]
+
+export const LLM_USAGE_HEADER = 'X-LLM-Usage'
+
+const DEFAULT_GOOGLE_MODEL = 'gemini-2.0-flash'
+const DEFAULT_OPENAI_BASE_URL = 'http://localhost:11434/v1'
+const DEFAULT_OPENAI_MODEL = 'llama3.1'
+
+interface ResolvedAttempt {
+  provider: LLMProviderId
+  model: string
+  maxTokens: number
+  timeoutMs: number
+  apiKey: string
+}
+
+type ProviderResult = Omit<LLMResponse, 'provider' | 'durationMs'>
+
+export function createLLMGateway(options: LLMGatewayOptions = {}) {
+  const env = options.env || process.env
+  const doFetch = options.fetch || fetch
+  const log = options.log || ((message: string) => console.log(`[LLM] ${message}`))
+  const maxRetries = options.maxRetries ?? 2
+  const maxRetryWaitMs = options.maxRetryWaitMs ?? 20000
+  const defaultTimeoutMs = options.defaultTimeoutMs ?? 120000
+
+  const usage = {
+    total: { calls: 0, inputTokens: 0, outputTokens: 0, costUsd: 0 },
+    byTag: {} as Record<string, { calls: number; inputTokens: number; outputTokens: number; costUsd: number }>,
+    byModel: {} as Record<string, { calls: number; inputTokens: number; outputTokens: number; costUsd: number }>,
+  }
+  const listeners = new Set<(event: LLMUsageEvent) => void>()
+
+  // Fixture responses already recorded / replayed in this process, per key
+  const recorded = new Map<string, number>()
+  const replayed = new Map<string, number>()
+
+  // ============================================
+  // PROVIDER RESOLUTION
+  // ============================================
+
+  const forcedProvider = (): LLMProviderId | null => {
+    const value = (env.LLM_PROVIDER || '').trim() as LLMProviderId
+    return PROVIDERS.includes(value) ? value : null
+  }
+
+  const keyFor = (provider: LLMProviderId, credentials: LLMCredentials): string => {
+    const userKey = credentials.aiProvider === provider ? credentials.aiApiKey || '' : ''
+    const key = provider === 'anthropic' ? userKey || env.ANTHROPIC_API_KEY || ''
+      : provider === 'google' ? userKey || env.GOOGLE_AI_API_KEY || env.GEMINI_API_KEY || ''
+      : provider === 'openai-compatible' ? env.LLM_API_KEY || ''
+      : ''
+    return PLACEHOLDER_KEYS.has(key.trim()) ? '' : key.trim()
+  }
+
+  const isAvailable = (provider: LLMProviderId, credentials: LLMCredentials) => {
+    if (provider === 'openai-compatible') return true
+    if (provider === 'replay') return !!env.LLM_REPLAY_DIR
+    return !!keyFor(provider, credentials)
+  }
+
+  const resolve = (attempt: LLMAttempt, request: LLMRequest, credentials: LLMCredentials): ResolvedAttempt => {
+    const provider = forcedProvider()
+      || attempt.provider
+      || (credentials.aiProvider === 'google' ? 'google' : 'anthropic')
+    const requested = attempt.model || request.model || ''
+    const model = provider === 'anthropic' ? requested
+      : provider === 'google' ? (requested.startsWith('gemini') ? requested : env.LLM_MODEL || DEFAULT_GOOGLE_MODEL)
+      : provider === 'openai-compatible' ? env.LLM_MODEL || DEFAULT_OPENAI_MODEL
+      : requested || 'replay'
+    return {
+      provider,
+      model,
+      maxTokens: attempt.maxTokens || request.maxTokens,
+      timeoutMs: attempt.timeoutMs || request.timeoutMs || defaultTimeoutMs,
+      apiKey: keyFor(provider, credentials),
+    }
+  }
+
+  // ============================================
+  // HTTP
+  // ============================================
+
+  const post = async (provider: LLMProviderId, url: string, headers: Record<string, string>, body: unknown, timeoutMs: number) => {
+    const controller = new AbortController()
+    const timer = setTimeout(() => controller.abort(), timeoutMs)
+    let response: Response
+    try {
+      response = await doFetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...headers },
+        body: JSON.stringify(body),
+        signal: controller.signal,
+      })
+    } catch (e: any) {
+      if (e.name === 'AbortError') throw new LLMTimeoutError(provider, timeoutMs)
+      throw new LLMError(`${provider} request failed: ${e.message}`, provider, null, true)
+    } finally {
+      clearTimeout(timer)
+    }
+
+    if (response.ok) return response.json()
+
+    const errorText = (await response.text()).substring(0, 500)
+    if (response.status === 429) {
+      const retryAfter = parseInt(response.headers.get('retry-after') || '', 10)
+      throw new RateLimitError(`${provider} rate limit: ${errorText}`, provider, isNaN(retryAfter) ? 60 : retryAfter)
+    }
+    if (response.status === 401 || response.status === 403) {
+      throw new AuthError(`${provider} rejected the API key (${response.status}): ${errorText}`, provider, response.status)
+    }
+    throw new LLMError(`${provider} API error ${response.status}: ${errorText}`, provider, response.status, RETRYABLE_STATUS.has(response.status))
+  }
+
+  // ============================================
+  // PROVIDERS
+  // ============================================
+
+  const callAnthropic = async (request: LLMRequest, attempt: ResolvedAttempt): Promise<ProviderResult> => {
+    const result = await post('anthropic', 'https://api.anthropic.com/v1/messages', {
+      'x-api-key': attempt.apiKey,
+      'anthropic-version': '2023-06-01',
+    }, {
+      model: attempt.model,
+      max_tokens: attempt.maxTokens,
+      messages: request.messages,
+      ...(request.system ? { system: request.system } : {}),
+      ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+      ...(request.tools ? { tools: request.tools } : {}),
+      ...(request.toolChoice ? { tool_choice: { type: 'tool', name: request.toolChoice } } : {}),
+    }, attempt.timeoutMs)
+
+    const blocks: any[] = result.content || []
+    const stop = result.stop_reason
+    return {
+      text: blocks.filter(b => b.type === 'text').map(b => b.text).join(''),
+      toolCalls: blocks.filter(b => b.type === 'tool_use').map(b => ({ name: b.name, input: b.input })),
+      stopReason: stop === 'end_turn' || stop === 'max_tokens' || stop === 'tool_use' ? stop : 'other',
+      model: result.model || attempt.model,
+      usage: { inputTokens: result.usage?.input_tokens || 0, outputTokens: result.usage?.output_tokens || 0 },
+    }
+  }
+
+  const callGoogle = async (request: LLMRequest, attempt: ResolvedAttempt): Promise<ProviderResult> => {
+    const url = `https://generativelanguage.googleapis.com/v1beta/models/${attempt.model}:generateContent?key=${encodeURIComponent(attempt.apiKey)}`
+    const result = await post('google', url, {}, {
+      contents: request.messages.map(m => ({ role: m.role === 'assistant' ? 'model' : 'user', parts: [{ text: m.content }] })),
+      ...(request.system ? { systemInstruction: { parts: [{ text: request.system }] } } : {}),
+      generationConfig: {
+        maxOutputTokens: attempt.maxTokens,
+        ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+      },
+      ...(request.tools ? {
+        tools: [{
+          functionDeclarations: request.tools.map(t => ({ name: t.name, description: t.description, parameters: toGeminiSchema(t.input_schema) })),
+        }],
+      } : {}),
+      ...(request.toolChoice ? { toolConfig: { functionCallingConfig: { mode: 'ANY', allowedFunctionNames: [request.toolChoice] } } } : {}),
+    }, attempt.timeoutMs)
+
+    const candidate = result.candidates?.[0]
+    const parts: any[] = candidate?.content?.parts || []
+    const toolCalls = parts.filter(p => p.functionCall).map(p => ({ name: p.functionCall.name, input: p.functionCall.args }))
+    const finish = candidate?.finishReason
+    return {
+      text: parts.filter(p => typeof p.text === 'string').map(p => p.text).join(''),
+      toolCalls,
+      stopReason: finish === 'MAX_TOKENS' ? 'max_tokens' : toolCalls.length > 0 ? 'tool_use' : finish === 'STOP' ? 'end_turn' : 'other',
+      model: attempt.model,
+      usage: {
+        inputTokens: result.usageMetadata?.promptTokenCount || 0,
+        outputTokens: result.usageMetadata?.candidatesTokenCount || 0,
+      },
+    }
+  }
+
+  const callOpenAICompatible = async (request: LLMRequest, attempt: ResolvedAttempt): Promise<ProviderResult> => {
+    const baseUrl = (env.LLM_BASE_URL || DEFAULT_OPENAI_BASE_URL).replace(/\/+$/, '')
+    const result = await post('openai-compatible', `${baseUrl}/chat/completions`, attempt.apiKey ? {
+      Authorization: `Bearer ${attempt.apiKey}`,
+    } : {}, {
+      model: attempt.model,
+      max_tokens: attempt.maxTokens,
+      messages: [
+        ...(request.system ? [{ role: 'system', content: request.system }] : []),
+        ...request.messages,
+      ],
+      ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+      ...(request.tools ? {
+        tools: request.tools.map(t => ({ type: 'function', function: { name: t.name, description: t.description, parameters: t.input_schema } })),
+      } : {}),
+      ...(request.toolChoice ? { tool_choice: { type: 'function', function: { name: request.toolChoice } } } : {}),
+    }, attempt.timeoutMs)
+
+    const choice = result.choices?.[0]
+    const toolCalls = (choice?.message?.tool_calls || []).map((call: any) => {
+      let input: any = call.function?.arguments
+      try { input = JSON.parse(input) } catch { /* keep raw string */ }
+      return { name: call.function?.name, input }
+    })
+    const finish = choice?.finish_reason
+    return {
+      text: choice?.message?.content || '',
+      toolCalls,
+      stopReason: finish === 'length' ? 'max_tokens' : finish === 'tool_calls' ? 'tool_use' : finish === 'stop' ? 'end_turn' : 'other',
+      model: result.model || attempt.model,
+      usage: { inputTokens: result.usage?.prompt_tokens || 0, outputTokens: result.usage?.completion_tokens || 0 },
+    }
+  }
+
+  const callReplay = async (request: LLMRequest): Promise<ProviderResult> => {
+    const key = fixtureKey(request)
+    const file = join(env.LLM_REPLAY_DIR || '', `${key}.json`)
+    if (!existsSync(file)) {
+      throw new LLMError(`No recorded response for ${request.tag} (${key}) in ${env.LLM_REPLAY_DIR}`, 'replay', 404)
+    }
+    const fixture: LLMFixture = JSON.parse(readFileSync(file, 'utf-8'))
+    // Identical prompts get their recorded responses in order (the last one repeats)
+    const index = replayed.get(key) || 0
+    replayed.set(key, index + 1)
+    return fixture.responses[Math.min(index, fixture.responses.length - 1)]
+  }
+
+  const record = (request: LLMRequest, result: ProviderResult) => {
+    const dir = env.LLM_RECORD_DIR
+    if (!dir) return
+    const key = fixtureKey(request)
+    const file = join(dir, `${key}.json`)
+    mkdirSync(dir, { recursive: true })
+
+    // First recording of a key in this process replaces fixtures from earlier runs
+    const count = recorded.get(key) || 0
+    const fixture: LLMFixture = count > 0 && existsSync(file)
+      ? JSON.parse(readFileSync(file, 'utf-8'))
+      : { tag: request.tag, key, request: { system: request.system, messages: request.messages, toolChoice: request.toolChoice }, responses: [] }
+    fixture.responses.push(result)
+    recorded.set(key, count + 1)
+    writeFileSync(file, JSON.stringify(fixture, null, 2))
+  }
+
+  const callProvider = (request: LLMRequest, attempt: ResolvedAttempt): Promise<ProviderResult> => {
+    switch (attempt.provider) {
+      case 'google': return callGoogle(request, attempt)
+      case 'openai-compatible': return callOpenAICompatible(request, attempt)
+      case 'replay': return callReplay(request)
+      default: return callAnthropic(request, attempt)
+    }
+  }
+
+  const addUsage = (event: LLMUsageEvent) => {
+    for (const bucket of [usage.total, usage.byTag[event.tag] ||= { calls: 0, inputTokens: 0, outputTokens: 0, costUsd: 0 }, usage.byModel[event.model] ||= { calls: 0, inputTokens: 0, outputTokens: 0, costUsd: 0 }]) {
+      bucket.calls++
+      bucket.inputTokens += event.inputTokens
+      bucket.outputTokens += event.outputTokens
+      bucket.costUsd += event.costUsd
+    }
+    requestUsage.getStore()?.push(event)
+    for (const listener of listeners) {
+      try {
+        listener(event)
+      } catch (e: any) {
+        log(`Usage listener failed: ${e.message}`)
+      }
+    }
+  }
+
+  // ============================================
+  // PUBLIC API
+  // ============================================
+
+  /**
+   * Run a request, walking retries and fallbacks. Throws RateLimitError, AuthError,
+   * LLMTimeoutError or LLMError once every attempt has failed.
+   */
+  const complete = async (request: LLMRequest, credentials: LLMCredentials = {}): Promise<LLMResponse> => {
+    const attempts: LLMAttempt[] = [request, ...(forcedProvider() ? [] : request.fallbacks || [])]
+    let lastError: LLMError | null = null
+
+    for (let i = 0; i < attempts.length; i++) {
+      const attempt = resolve(attempts[i], request, credentials)
+      const label = `${request.tag} ${attempt.provider}${attempt.model && attempt.provider !== 'replay' ? `/${attempt.model}` : ''}`
+
+      if (!isAvailable(attempt.provider, credentials)) {
+        log(`${label}: no API key configured, skipping`)
+        lastError = lastError || new AuthError(`No API key configured for ${attempt.provider}`, attempt.provider, null)
+        continue
+      }
+
+      for (let retry = 0; ; retry++) {
+        const started = Date.now()
+        try {
+          log(`${label} (attempt ${i + 1}/${attempts.length}${retry > 0 ? `, retry ${retry}` : ''}, timeout ${attempt.timeoutMs / 1000}s)`)
+          const result = await callProvider(request, attempt)
+          const durationMs = Date.now() - started
+          if (attempt.provider !== 'replay') record(request, result)
+          addUsage({ tag: request.tag, provider: attempt.provider, model: result.model, durationMs, costUsd: estimateCostUsd(result.model, result.usage), ...result.usage })
+          log(`${label}: ${result.usage.inputTokens} in / ${result.usage.outputTokens} out tokens in ${durationMs}ms (${result.stopReason})`)
+          return { ...result, provider: attempt.provider, durationMs }
+        } catch (e: any) {
+          const error: LLMError = e instanceof LLMError ? e : new LLMError(e.message || String(e), attempt.provider)
+          lastError = error
+          log(`${label}: ${error.name} - ${error.message}`)
+
+          if (error instanceof RateLimitError) {
+            const waitMs = error.retryAfterSeconds * 1000
+            if (retry < maxRetries && waitMs <= maxRetryWaitMs) {
+              await sleep(waitMs || backoff(retry))
+              continue
+            }
+            break
+          }
+          // Bad key or too slow: move on to the next fallback
+          if (error instanceof AuthError || error instanceof LLMTimeoutError) break
+          if (error.retryable && retry < maxRetries) {
+            await sleep(backoff(retry))
+            continue
+          }
+          throw error
+        }
+      }
+    }
+
+    throw lastError || new LLMError(`No provider available for ${request.tag}`, null)
+  }
+
+  return {
+    complete,
+    // Whether a call with these credentials has any provider to go to
+    isConfigured: (credentials: LLMCredentials = {}) => {
+      const forced = forcedProvider()
+      if (forced) return isAvailable(forced, credentials)
+      return isAvailable(credentials.aiProvider === 'google' ? 'google' : 'anthropic', credentials)
+    },
+    // Provider that calls with these credentials start on
+    providerFor: (credentials: LLMCredentials = {}): LLMProviderId =>
+      forcedProvider() || (credentials.aiProvider === 'google' ? 'google' : 'anthropic'),
+    getUsage: () => JSON.parse(JSON.stringify(usage)) as typeof usage,
+    onUsage: (listener: (event: LLMUsageEvent) => void) => {
+      listeners.add(listener)
+      return () => { listeners.delete(listener) }
+    },
+  }
+}
+
+export type LLMGateway = ReturnType<typeof createLLMGateway>
+
+// Shared gateway for the dev-server middleware, so usage totals cover every endpoint
+export const llm = createLLMGateway()
+
+// ============================================
+// PER-REQUEST USAGE
+// ============================================
+
+// Usage events for the HTTP request whose handler made the call
+const requestUsage = new AsyncLocalStorage<LLMUsageEvent[]>()
+
+export function estimateCostUsd(model: string, usage: LLMUsage): number {
+  const price = MODEL_PRICING.find(p => model.startsWith(p.prefix))
+  if (!price) return 0
+  return (usage.inputTokens * price.input + usage.outputTokens * price.output) / 1_000_000
+}
+
+/**
+ * Connect middleware - register before the /api handlers. Calls made while a
+ * request is handled are reported on its response as X-LLM-Usage (JSON array),
+ * so the client can keep a cost ledger without every endpoint returning usage.
+ *
+ * Handlers read the body with req.on('data' / 'end'), and those events fire in
+ * the socket's async context rather than the request's, so listeners added to
+ * req are bound to the context they were added in.
+ */
+export function llmUsageMiddleware() {
+  return (req: IncomingMessage, res: ServerResponse, next: () => void) => {
+    if (!req.url?.startsWith('/api/')) return next()
+
+    const events: LLMUsageEvent[] = []
+    bindRequestListeners(req)
+    const writeHead = res.writeHead
+    res.writeHead = function (this: ServerResponse, ...args: any[]) {
+      if (events.length > 0 && !res.headersSent) {
+        res.setHeader(LLM_USAGE_HEADER, JSON.stringify(events.map(e => ({
+          tag: e.tag,
+          provider: e.provider,
+          model: e.model,
+          inputTokens: e.inputTokens,
+          outputTokens: e.outputTokens,
+          costUsd: e.costUsd,
+        }))))
+      }
+      return (writeHead as any).apply(this, args)
+    } as typeof res.writeHead
+
+    requestUsage.run(events, next)
+  }
+}
+
+// Wrap req.on / addListener / prependListener so listeners run in the async
+// context that registered them. `listener` lets removeListener find the
+// original (once() keeps its own wrapper, so it is left alone).
+function bindRequestListeners(req: IncomingMessage) {
+  for (const method of ['on', 'addListener', 'prependListener'] as const) {
+    const original = req[method]
+    req[method] = function (this: IncomingMessage, event: string | symbol, listener: (...args: any[]) => void) {
+      const bound = Object.assign(AsyncResource.bind(listener), { listener })
+      return original.call(this, event, bound)
+    } as typeof original
+  }
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+interface LLMFixture {
+  tag: string
+  key: string
+  request: { system?: string; messages: LLMMessage[]; toolChoice?: string }
+  responses: ProviderResult[]
+}
+
+/**
+ * Fixture key: the prompt, not the provider or model, so a recording replays
+ * whichever fallback produced it
+ */
+export function fixtureKey(request: LLMRequest): string {
+  const hash = createHash('sha256')
+    .update(JSON.stringify([request.system || '', request.messages, request.tools?.map(t => t.name) || [], request.toolChoice || '']))
+    .digest('hex')
+    .substring(0, 16)
+  return `${request.tag.replace(/[^a-z0-9-]+/gi, '-')}-${hash}`
+}
+
+// Gemini rejects JSON Schema keywords it doesn't know
+function toGeminiSchema(schema: any): any {
+  if (Array.isArray(schema)) return schema.map(toGeminiSchema)
+  if (!schema || typeof schema !== 'object') return schema
+  const result: Record<string, unknown> = {}
+  for (const [key, value] of Object.entries(schema)) {
+    if (key === 'additionalProperties' || key === '$schema') continue
+    result[key] = toGeminiSchema(value)
+  }
+  return result
+}
+
+function backoff(retry: number): number {
+  return Math.min(1000 * 2 ** retry, 10000)
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms))
+}
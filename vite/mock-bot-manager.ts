@@ -0,0 +1,726 @@
+/**
+ * Mock Bot Manager
+ *
+ * In-memory stand-in for the Pypestream APIs the deploy paths call, so the
+ * Instant Build pipeline, hot reload and health checks run offline.
+ * Enabled by VITE_PYPESTREAM_MOCK_URL (see src/services/pypestream-hosts.ts).
+ *
+ * Served hosts (api.pypestream.com at the root, other hosts under /{subdomain}):
+ * - /botmanager                 bots, versions, CSV graph upload/export + compile errors,
+ *                               scripts, app.py config, deploy, preview
+ * - /ges/v5, /{env}/v5          customers, pypes, streams, stream bot config
+ * - /webservice-{env}           widget and channel creation, widget lookup
+ * - /web-{env}/preview.html     minimal chat page for a widget
+ * - /engagement-api-{env}       anonymous session, start, message, snapshot, end
+ *                               (conversations run through ConversationSimulator)
+ *
+ * Any bearer token is accepted except "invalid", which returns 401 so auth
+ * error handling can be exercised.
+ */
+
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'http'
+import { BotDocument } from '../src/services/bot-document'
+import { ConversationSimulator, parseNextNodes, parseWhatNext } from '../src/services/conversation-simulator'
+
+export interface MockBotManagerOptions {
+  // Customers that exist; omit to accept any customer name
+  customers?: string[]
+  // Public URL of the mock (used in preview URLs), e.g. http://localhost:4010
+  baseUrl?: string
+  log?: (message: string) => void
+}
+
+interface MockBot {
+  id: string
+  customerName: string
+  botName: string
+  botLanguage: string
+  botType: string
+  versions: string[]
+  // environment -> deployed version ID
+  deployed: Record<string, string>
+}
+
+interface MockVersion {
+  id: string
+  botId: string
+  csv: string | null
+  scripts: Record<string, string>
+  config: string | null
+  // Deployed versions can't be changed ("Solution version is set")
+  locked: boolean
+}
+
+interface MockWidget {
+  id: string
+  env: string
+  pypeId: string
+  streamId: string | null
+  botId: string | null
+  name: string
+}
+
+interface MockChat {
+  id: string
+  widget: MockWidget
+  simulator: ConversationSimulator | null
+  started: boolean
+  ended: boolean
+  error: string | null
+}
+
+interface MockCompileError {
+  row_num: number
+  node_num: number | null
+  err_msgs: { field_name: string; error_description: string }[]
+}
+
+interface MockRequest {
+  method: string
+  path: string
+  query: URLSearchParams
+  headers: IncomingMessage['headers']
+  body: Buffer
+}
+
+interface MockReply {
+  status: number
+  body: unknown
+  contentType?: string
+}
+
+const LOCKED_VERSION_ERROR = 'Solution version is set and cannot be updated.'
+
+// Nodes every bot may route to without defining them
+const SYSTEM_NODES = new Set([-500, 666, 999, 99990])
+
+export function createMockBotManager(options: MockBotManagerOptions = {}) {
+  const log = options.log || ((message: string) => console.log(`[MockBotManager] ${message}`))
+  const allowedCustomers = options.customers?.map(c => c.toLowerCase())
+
+  const customers = new Map<string, { id: string; name: string; display_name: string }>()
+  const bots = new Map<string, MockBot>()
+  const versions = new Map<string, MockVersion>()
+  const pypes = new Map<string, { id: string; name: string; customer_id: string; env: string; [key: string]: unknown }>()
+  const streams = new Map<string, { id: string; pype_id: string; name: string; bot: Record<string, unknown> | null }>()
+  const widgets = new Map<string, MockWidget>()
+  const chats = new Map<string, MockChat>()
+  let sequence = 0
+  const nextId = (prefix: string) => `${prefix}-${(++sequence).toString().padStart(6, '0')}`
+
+  const findCustomer = (name: string) => {
+    const key = name.toLowerCase()
+    if (allowedCustomers && !allowedCustomers.includes(key)) return null
+    if (!customers.has(key)) customers.set(key, { id: `cust-${key}`, name, display_name: name })
+    return customers.get(key)!
+  }
+
+  const ok = (body: unknown, status = 200): MockReply => ({ status, body })
+  const fail = (status: number, errors: unknown): MockReply => ({ status, body: { errors } })
+
+  const botData = (bot: MockBot) => ({
+    id: bot.id,
+    customerName: bot.customerName,
+    botName: bot.botName,
+    botLanguage: bot.botLanguage,
+    botType: bot.botType,
+    versions: [...bot.versions],
+    draftVersion: bot.versions[bot.versions.length - 1],
+    deployed: { ...bot.deployed },
+  })
+
+  // ============================================
+  // BOT MANAGER
+  // ============================================
+
+  const createVersion = (bot: MockBot): MockVersion => {
+    const version = `v${bot.versions.length + 1}`
+    bot.versions.push(version)
+    const record: MockVersion = { id: `${bot.id}.${version}`, botId: bot.id, csv: null, scripts: {}, config: null, locked: false }
+    versions.set(record.id, record)
+    return record
+  }
+
+  const getVersion = (versionId: string): MockVersion | MockReply => {
+    const version = versions.get(versionId)
+    return version || fail(404, 'Solution version does not exist.')
+  }
+
+  const botManager = (req: MockRequest): MockReply | null => {
+    const { method, path } = req
+    let m: RegExpMatchArray | null
+
+    if ((m = path.match(/^\/customers\/([^/]+)\/bots$/)) && method === 'POST') {
+      const customer = findCustomer(decodeURIComponent(m[1]))
+      if (!customer) return fail(404, `Customer ${m[1]} not found.`)
+      const { botName, botLanguage = 'english', botType = 'main' } = parseJson(req.body)
+      if (!botName) return fail(400, 'botName is required.')
+      const id = `${customer.name}.${botName}`
+      if (bots.has(id)) return fail(400, 'Bot already exists.')
+      const bot: MockBot = { id, customerName: customer.name, botName, botLanguage, botType, versions: [], deployed: {} }
+      bots.set(id, bot)
+      createVersion(bot)
+      log(`Created bot ${id}`)
+      return ok({ data: botData(bot) })
+    }
+
+    if ((m = path.match(/^\/bots\/([^/]+)$/)) && method === 'GET') {
+      const bot = bots.get(decodeURIComponent(m[1]))
+      return bot ? ok({ data: botData(bot) }) : fail(404, 'Bot does not exist.')
+    }
+
+    if ((m = path.match(/^\/bots\/([^/]+)\/versions$/)) && method === 'POST') {
+      const bot = bots.get(decodeURIComponent(m[1]))
+      if (!bot) return fail(400, 'Bot does not exist.')
+      const version = createVersion(bot)
+      log(`Created version ${version.id}`)
+      return ok({ data: botData(bot) })
+    }
+
+    if ((m = path.match(/^\/versions\/([^/]+)\/graph$/)) && (method === 'PUT' || method === 'POST')) {
+      const version = getVersion(decodeURIComponent(m[1]))
+      if (!('botId' in version)) return version
+      if (version.locked) return fail(400, LOCKED_VERSION_ERROR)
+
+      const csv = req.headers['content-type']?.includes('multipart/form-data')
+        ? parseMultipart(req)[0]?.content.toString('utf-8') || ''
+        : String(parseJson(req.body).templateData || '')
+      if (!csv.trim()) return fail(400, 'templateData is required.')
+
+      const errors = compileCSV(csv)
+      if (errors.length > 0) {
+        log(`Compile failed for ${version.id}: ${errors.length} error(s)`)
+        return fail(400, errors)
+      }
+      version.csv = csv
+      const nodeCount = BotDocument.parse(csv).nodes.length
+      log(`Compiled ${version.id} (${nodeCount} nodes)`)
+      return ok({ data: { versionId: version.id, nodeCount } })
+    }
+
+    if ((m = path.match(/^\/versions\/([^/]+)\/(?:scripts|assets\/services)(?:\/([^/]+))?$/)) && ['PUT', 'POST'].includes(method)) {
+      const version = getVersion(decodeURIComponent(m[1]))
+      if (!('botId' in version)) return version
+      if (version.locked) return fail(400, LOCKED_VERSION_ERROR)
+
+      let fileName = m[2] ? decodeURIComponent(m[2]) : ''
+      let content = req.body.toString('utf-8')
+      if (req.headers['content-type']?.includes('multipart/form-data')) {
+        const part = parseMultipart(req)[0]
+        if (!part) return fail(400, 'No script file in request.')
+        fileName = fileName || part.filename || ''
+        content = part.content.toString('utf-8')
+      }
+      if (!fileName) return fail(400, 'Script file name is required.')
+      version.scripts[fileName] = content
+      log(`Uploaded script ${fileName} to ${version.id}`)
+      return ok({ data: { versionId: version.id, name: fileName } })
+    }
+
+    if ((m = path.match(/^\/versions\/([^/]+)\/graph$/)) && method === 'GET') {
+      const version = getVersion(decodeURIComponent(m[1]))
+      if (!('botId' in version)) return version
+      if (!version.csv) return fail(404, 'Solution version has no compiled graph.')
+      return ok({ data: { versionId: version.id, templateType: 'csv', templateData: version.csv } })
+    }
+
+    if ((m = path.match(/^\/versions\/([^/]+)\/scripts(?:\/([^/]+))?$/)) && method === 'GET') {
+      const version = getVersion(decodeURIComponent(m[1]))
+      if (!('botId' in version)) return version
+      if (!m[2]) return ok({ data: Object.keys(version.scripts) })
+      const name = decodeURIComponent(m[2])
+      if (!(name in version.scripts)) return fail(404, `Script ${name} does not exist.`)
+      return ok({ data: { name, content: version.scripts[name] } })
+    }
+
+    if ((m = path.match(/^\/versions\/([^/]+)\/config$/)) && ['PUT', 'POST'].includes(method)) {
+      const version = getVersion(decodeURIComponent(m[1]))
+      if (!('botId' in version)) return version
+      const part = parseMultipart(req)[0]
+      version.config = part ? part.content.toString('utf-8') : req.body.toString('utf-8')
+      return ok({ data: { versionId: version.id } })
+    }
+
+    if ((m = path.match(/^\/versions\/([^/]+)\/deploy$/)) && ['PUT', 'POST'].includes(method)) {
+      const version = getVersion(decodeURIComponent(m[1]))
+      if (!('botId' in version)) return version
+      if (!version.csv) return fail(400, 'Solution version has no compiled graph.')
+      const environment = normalizeEnv(parseJson(req.body).environment || 'sandbox')
+      version.locked = true
+      bots.get(version.botId)!.deployed[environment] = version.id
+      log(`Deployed ${version.id} to ${environment}`)
+      return ok({ data: { versionId: version.id, environment } })
+    }
+
+    if ((m = path.match(/^\/versions\/([^/]+)\/preview$/)) && method === 'POST') {
+      const version = getVersion(decodeURIComponent(m[1]))
+      if (!('botId' in version)) return version
+      const bot = bots.get(version.botId)!
+      const environment = Object.keys(bot.deployed).find(env => bot.deployed[env] === version.id)
+      if (!environment) return fail(400, 'Solution version is not deployed.')
+
+      const webEnv = environment === 'production' ? 'live' : 'sandbox'
+      let widget = [...widgets.values()].find(w => w.botId === bot.id && w.env === webEnv)
+      if (!widget) {
+        widget = { id: nextId('widget'), env: webEnv, pypeId: '', streamId: null, botId: bot.id, name: `${bot.botName} Preview` }
+        widgets.set(widget.id, widget)
+      }
+      return ok({ widgetId: widget.id, previewUrl: previewUrl(webEnv, widget.id) })
+    }
+
+    return null
+  }
+
+  // ============================================
+  // CUSTOMERS, PYPES, STREAMS
+  // ============================================
+
+  const pypesApi = (req: MockRequest): MockReply | null => {
+    const { method, path } = req
+    let m: RegExpMatchArray | null
+
+    if (/^\/(?:ges|sandbox|live)\/v5\/customers$/.test(path) && method === 'GET') {
+      return ok([...customers.values()])
+    }
+
+    if ((m = path.match(/^\/(sandbox|live)\/v5\/customers\/([^/]+)\/pypes$/))) {
+      const [, env, customerId] = m
+      if (method === 'GET') {
+        return ok([...pypes.values()].filter(p => p.customer_id === customerId && p.env === env))
+      }
+      if (method === 'POST') {
+        const { name, description } = parseJson(req.body)
+        const pype = { id: nextId('pype'), name: name || 'pype', description, customer_id: customerId, env }
+        pypes.set(pype.id, pype)
+        return ok(pype, 201)
+      }
+    }
+
+    if ((m = path.match(/^\/(?:sandbox|live)\/v5\/customers\/[^/]+\/pypes\/([^/]+)$/)) && method === 'PATCH') {
+      const pype = pypes.get(m[1])
+      if (!pype) return fail(404, 'Pype not found.')
+      Object.assign(pype, parseJson(req.body))
+      return ok(pype)
+    }
+
+    if ((m = path.match(/^\/(?:sandbox|live)\/v5\/customers\/[^/]+\/pypes\/([^/]+)\/streams$/)) && method === 'POST') {
+      if (!pypes.has(m[1])) return fail(404, 'Pype not found.')
+      const stream = { id: nextId('stream'), pype_id: m[1], name: parseJson(req.body).name || 'stream', bot: null }
+      streams.set(stream.id, stream)
+      return ok(stream, 201)
+    }
+
+    if ((m = path.match(/^\/(?:sandbox|live)\/v5\/customers\/[^/]+\/pypes\/[^/]+\/streams\/([^/]+)\/bot$/)) && method === 'PUT') {
+      const stream = streams.get(m[1])
+      if (!stream) return fail(404, 'Stream not found.')
+      stream.bot = parseJson(req.body)
+      return ok({ stream_id: stream.id, ...stream.bot })
+    }
+
+    return null
+  }
+
+  // ============================================
+  // WEBSERVICE (widgets, channels)
+  // ============================================
+
+  const webservice = (env: string, req: MockRequest): MockReply | null => {
+    const { method, path } = req
+
+    if (path === '/v3/business/widget' && method === 'POST') {
+      const { data = {} } = parseJson(req.body)
+      if (!data.pype_id) return fail(400, 'pype_id is required.')
+      const stream = data.stream_id ? streams.get(data.stream_id) : undefined
+      const widget: MockWidget = {
+        id: nextId('widget'),
+        env,
+        pypeId: data.pype_id,
+        streamId: data.stream_id || null,
+        botId: (stream?.bot?.start_chat_bot_id as string) || null,
+        name: data.widget_name || 'Widget',
+      }
+      widgets.set(widget.id, widget)
+      log(`Created widget ${widget.id} for ${widget.botId || widget.pypeId}`)
+      return ok({ widget_id: widget.id, id: widget.id })
+    }
+
+    if (path === '/v3/business/widgets' && method === 'GET') {
+      const pypeId = req.query.get('pype_id')
+      return ok({ widgets: [...widgets.values()].filter(w => !pypeId || w.pypeId === pypeId).map(w => ({ id: w.id, widget_name: w.name })) })
+    }
+
+    if (/^\/v3\/configuration\/customers\/[^/]+\/channel\/?$/.test(path) && method === 'POST') {
+      const { pype_id, start_bot, name } = parseJson(req.body)
+      const widget: MockWidget = { id: nextId('widget'), env, pypeId: pype_id || '', streamId: null, botId: start_bot || null, name: name || 'Channel' }
+      widgets.set(widget.id, widget)
+      return ok({ app_id: widget.id, id: widget.id })
+    }
+
+    return null
+  }
+
+  // ============================================
+  // ENGAGEMENT (chat sessions)
+  // ============================================
+
+  // CSV deployed behind a widget (stream bot config or preview widget)
+  const widgetCSV = (widget: MockWidget): string | null => {
+    const bot = widget.botId ? bots.get(widget.botId) : undefined
+    const versionId = bot?.deployed[widget.env === 'live' ? 'production' : 'sandbox']
+    return versionId ? versions.get(versionId)?.csv || null : null
+  }
+
+  const snapshot = (chat: MockChat) => {
+    const transcript = chat.simulator?.getState().transcript || []
+    const messages = transcript.map(msg => ({
+      id: msg.id,
+      msg: msg.text,
+      side: msg.fromSide === 'bot' ? 'bot' : 'anonymous_consumer',
+      timestamp: msg.timestamp.toISOString(),
+      rich_asset_type: msg.richAssetType,
+      rich_asset_content: msg.richAssetContent,
+    }))
+    // A crashed bot hands over with the platform's generic error
+    if (chat.error) {
+      messages.push({
+        id: `${chat.id}-error`,
+        msg: 'We are experiencing technical difficulties. Please try again later.',
+        side: 'bot',
+        timestamp: new Date().toISOString(),
+        rich_asset_type: undefined,
+        rich_asset_content: undefined,
+      })
+    }
+    return { result: { chat_id: chat.id, messages } }
+  }
+
+  const engagement = (req: MockRequest): MockReply | null => {
+    const { method, path } = req
+    let m: RegExpMatchArray | null
+
+    if (path === '/messaging/v1/consumers/anonymous_session' && method === 'POST') {
+      const widget = widgets.get(parseJson(req.body).app_id)
+      if (!widget) return fail(404, 'Unknown app_id.')
+      const chat: MockChat = { id: nextId('chat'), widget, simulator: null, started: false, ended: false, error: null }
+      chats.set(chat.id, chat)
+      return ok({
+        chat_id: chat.id,
+        id: nextId('user'),
+        access_token: `mock-access-${chat.id}`,
+        web_chat_pype_id: widget.pypeId,
+        web_chat_stream_id: widget.streamId,
+      })
+    }
+
+    if (!(m = path.match(/^\/messaging\/v1\/chats\/([^/]+)\/(start|message|snapshot|end)$/)) || method !== 'POST') {
+      return null
+    }
+    const chat = chats.get(m[1])
+    if (!chat) return fail(404, 'Chat not found.')
+    const action = m[2]
+
+    if (action === 'start') {
+      const csv = widgetCSV(chat.widget)
+      if (!csv) return fail(400, 'No bot is deployed behind this widget.')
+      chat.simulator = new ConversationSimulator(csv, { autoResolveActions: true })
+      const state = chat.simulator.start()
+      chat.started = true
+      chat.error = state.status === 'error' ? state.error || 'Bot error' : null
+      return ok({ result: { chat_id: chat.id } })
+    }
+
+    if (action === 'snapshot') {
+      if (!chat.started) return fail(404, 'Chat has not started.')
+      return ok(snapshot(chat))
+    }
+
+    if (action === 'message') {
+      if (!chat.simulator || chat.ended) return fail(400, 'Chat is not active.')
+      const text = String(parseJson(req.body).msg || '')
+      // Typed text matching a button label is treated as a click
+      const state = chat.simulator.sendText(text)
+      chat.error = state.status === 'error' ? state.error || 'Bot error' : null
+      return ok({ result: { chat_id: chat.id } })
+    }
+
+    chat.ended = true
+    return ok({ result: { chat_id: chat.id } })
+  }
+
+  // ============================================
+  // PREVIEW PAGE
+  // ============================================
+
+  const previewUrl = (env: string, widgetId: string) =>
+    `${(options.baseUrl || '').replace(/\/+$/, '')}/web-${env}/preview.html?id=${encodeURIComponent(widgetId)}`
+
+  const previewPage = (env: string, req: MockRequest): MockReply | null => {
+    if (req.path !== '/preview.html' || req.method !== 'GET') return null
+    const widget = widgets.get(req.query.get('id') || '')
+    if (!widget) return { status: 404, body: 'Unknown widget', contentType: 'text/plain' }
+    return { status: 200, body: renderPreviewPage(widget, `/engagement-api-${env}`), contentType: 'text/html' }
+  }
+
+  // ============================================
+  // DISPATCH
+  // ============================================
+
+  const route = (req: MockRequest): MockReply => {
+    const [, first = ''] = req.path.split('/')
+    const rest = req.path.substring(first.length + 1) || '/'
+    const needsAuth = !/^(?:web|engagement-api)(?:-\w+)?$/.test(first)
+
+    if (needsAuth) {
+      const token = (req.headers.authorization || '').replace(/^Bearer\s+/i, '').trim()
+      if (!token) return fail(401, 'Authentication credentials were not provided.')
+      if (token === 'invalid') return fail(401, 'Invalid token.')
+    }
+
+    let reply: MockReply | null = null
+    if (first === 'botmanager') reply = botManager({ ...req, path: rest })
+    else if (['ges', 'sandbox', 'live'].includes(first)) reply = pypesApi(req)
+    else if (first.startsWith('webservice')) reply = webservice(hostEnv(first), { ...req, path: rest })
+    else if (first.startsWith('engagement-api')) reply = engagement({ ...req, path: rest })
+    else if (first.startsWith('web')) reply = previewPage(hostEnv(first), { ...req, path: rest })
+
+    return reply || fail(404, `Mock Bot Manager has no route for ${req.method} ${req.path}`)
+  }
+
+  /**
+   * Node request handler (standalone http server or Vite middleware)
+   */
+  const handle = async (req: IncomingMessage, res: ServerResponse) => {
+    res.setHeader('Access-Control-Allow-Origin', '*')
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PUT, PATCH, DELETE, OPTIONS')
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization')
+    if (req.method === 'OPTIONS') {
+      res.statusCode = 204
+      res.end()
+      return
+    }
+
+    const chunks: Buffer[] = []
+    for await (const chunk of req) chunks.push(chunk as Buffer)
+    const url = new URL(req.url || '/', 'http://mock')
+
+    let reply: MockReply
+    try {
+      reply = route({
+        method: req.method || 'GET',
+        path: url.pathname.replace(/\/+$/, '') || '/',
+        query: url.searchParams,
+        headers: req.headers,
+        body: Buffer.concat(chunks),
+      })
+    } catch (err: any) {
+      reply = fail(500, err?.message || String(err))
+    }
+
+    res.statusCode = reply.status
+    res.setHeader('Content-Type', reply.contentType || 'application/json')
+    res.end(typeof reply.body === 'string' && reply.contentType ? reply.body : JSON.stringify(reply.body))
+  }
+
+  return {
+    handle,
+    // Exposed for scripts and tests
+    state: { customers, bots, versions, pypes, streams, widgets, chats },
+  }
+}
+
+/**
+ * Start the mock on a port (resolves once listening)
+ */
+export function startMockBotManager(port: number, options: MockBotManagerOptions = {}): Promise<Server> {
+  const mock = createMockBotManager({ baseUrl: `http://localhost:${port}`, ...options })
+  const server = createServer((req, res) => { mock.handle(req, res) })
+  return new Promise((resolve, reject) => {
+    server.once('error', reject)
+    server.listen(port, () => resolve(server))
+  })
+}
+
+// ============================================
+// CSV COMPILE CHECKS
+// ============================================
+
+/**
+ * Subset of the Bot Manager template compiler, reported in its error shape:
+ * [{ row_num, node_num, err_msgs: [{ field_name, error_description }] }]
+ */
+export function compileCSV(csv: string): MockCompileError[] {
+  const doc = BotDocument.parse(csv)
+  if (doc.header[0]?.trim() !== 'Node Number') {
+    return [{ row_num: 0, node_num: null, err_msgs: [{ field_name: 'Header', error_description: 'Template header row is missing or invalid.' }] }]
+  }
+
+  const errors: MockCompileError[] = []
+  const seen = new Set<number>()
+  const known = new Set([...doc.nodes.map(n => n.nodeNum), ...SYSTEM_NODES])
+
+  for (const node of doc.nodes) {
+    const msgs: MockCompileError['err_msgs'] = []
+    const add = (field_name: string, error_description: string) => msgs.push({ field_name, error_description })
+    const type = node.type.trim().toUpperCase()
+
+    if (isNaN(node.nodeNum)) add('Node Number', `Node Number "${node.num}" is not an integer.`)
+    else if (seen.has(node.nodeNum)) add('Node Number', `Duplicate Node Number ${node.nodeNum}.`)
+    seen.add(node.nodeNum)
+
+    if (type !== 'D' && type !== 'A') add('Node Type', `Node Type must be D or A, got "${node.type}".`)
+
+    for (const dest of parseNextNodes(node.nextNodes)) {
+      if (!known.has(dest)) add('Next Nodes', `Next Node ${dest} does not exist.`)
+    }
+
+    // {415*list_picker} references another node's asset rather than inline JSON
+    const richContent = node.richContent.trim()
+    if ((richContent.startsWith('{') || richContent.startsWith('[')) && !/^\{\d+\*\w+\}$/.test(richContent)) {
+      try {
+        const parsed = JSON.parse(lenientJson(richContent))
+        if (parsed && parsed.dest !== undefined && parsed.options) {
+          add('Rich Asset Content', '"dest" is not allowed at the root of Rich Asset Content.')
+        }
+      } catch {
+        add('Rich Asset Content', 'Rich Asset Content is not valid JSON.')
+      }
+    }
+
+    if (type === 'A') {
+      if (!node.command.trim()) add('Command', 'Action node requires a Command.')
+      if (!node.decVar.trim()) add('Decision Variable', 'Action node requires a Decision Variable.')
+      const whatNext = node.whatNext.trim()
+      const routes = parseWhatNext(whatNext)
+      if (!whatNext) add('What Next?', 'Action node requires What Next?.')
+      else if (routes.size === 0) add('What Next?', `What Next? "${whatNext}" is not in value~node format.`)
+      for (const dest of routes.values()) {
+        if (!known.has(dest)) add('What Next?', `What Next? destination ${dest} does not exist.`)
+      }
+      const paramInput = node.paramInput.trim()
+      if (paramInput.startsWith('{')) {
+        try {
+          JSON.parse(lenientJson(paramInput).replace(/:\s*(\{[A-Z0-9_]+\})/g, ': "$1"'))
+        } catch {
+          add('Parameter Input', 'Parameter Input is not valid JSON.')
+        }
+      }
+    }
+
+    if (msgs.length > 0) {
+      errors.push({ row_num: node.rowNum - 1, node_num: isNaN(node.nodeNum) ? null : node.nodeNum, err_msgs: msgs })
+    }
+  }
+
+  return errors
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+// Bot Manager accepts line breaks inside JSON strings (multi-line labels)
+function lenientJson(text: string): string {
+  return text.replace(/\r?\n/g, ' ')
+}
+
+function parseJson(body: Buffer): any {
+  try {
+    return JSON.parse(body.toString('utf-8') || '{}')
+  } catch {
+    return {}
+  }
+}
+
+function normalizeEnv(env: string): string {
+  return env === 'live' || env === 'production' ? 'production' : 'sandbox'
+}
+
+// webservice-sandbox / web-live / webservice -> sandbox | live
+function hostEnv(subdomain: string): string {
+  return subdomain.endsWith('-sandbox') ? 'sandbox' : 'live'
+}
+
+function parseMultipart(req: MockRequest): { name: string; filename?: string; content: Buffer }[] {
+  const boundary = req.headers['content-type']?.match(/boundary=(?:"([^"]+)"|([^;]+))/)
+  if (!boundary) return []
+  const delimiter = Buffer.from(`--${boundary[1] || boundary[2]}`)
+  const parts: { name: string; filename?: string; content: Buffer }[] = []
+
+  let start = req.body.indexOf(delimiter)
+  while (start !== -1) {
+    const next = req.body.indexOf(delimiter, start + delimiter.length)
+    if (next === -1) break
+    const part = req.body.subarray(start + delimiter.length + 2, next - 2)
+    const headerEnd = part.indexOf('\r\n\r\n')
+    if (headerEnd !== -1) {
+      const headers = part.subarray(0, headerEnd).toString('utf-8')
+      const name = headers.match(/name="([^"]*)"/)?.[1] || ''
+      const filename = headers.match(/filename="([^"]*)"/)?.[1]
+      parts.push({ name, filename, content: part.subarray(headerEnd + 4) })
+    }
+    start = next
+  }
+
+  // File parts first
+  return parts.sort((a, b) => Number(!!b.filename) - Number(!!a.filename))
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, ch => `&#${ch.charCodeAt(0)};`)
+}
+
+function renderPreviewPage(widget: MockWidget, engagementBase: string): string {
+  return `<!doctype html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <title>${escapeHtml(widget.name)} (mock)</title>
+  <style>
+    body { font-family: system-ui, sans-serif; margin: 0; background: #f4f4f6; }
+    header { padding: 12px 16px; background: #1f2937; color: #fff; font-size: 14px; }
+    #log { padding: 16px; display: flex; flex-direction: column; gap: 8px; height: calc(100vh - 120px); overflow-y: auto; }
+    .msg { max-width: 75%; padding: 8px 12px; border-radius: 12px; font-size: 14px; white-space: pre-wrap; }
+    .bot { background: #fff; align-self: flex-start; }
+    .user { background: #2563eb; color: #fff; align-self: flex-end; }
+    form { display: flex; gap: 8px; padding: 8px 16px; }
+    input { flex: 1; padding: 8px; border: 1px solid #ccc; border-radius: 8px; }
+  </style>
+</head>
+<body>
+  <header>${escapeHtml(widget.name)} - Mock Bot Manager preview</header>
+  <div id="log"></div>
+  <form id="form"><input id="text" placeholder="Type a message or a button label" autocomplete="off"><button>Send</button></form>
+  <script>
+    const base = ${JSON.stringify(engagementBase)};
+    const post = (path, body) => fetch(base + path, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body || {}) }).then(r => r.json());
+    let chatId = null;
+    const render = async () => {
+      const snap = await post('/messaging/v1/chats/' + chatId + '/snapshot');
+      const log = document.getElementById('log');
+      log.innerHTML = '';
+      for (const m of (snap.result && snap.result.messages) || []) {
+        const div = document.createElement('div');
+        div.className = 'msg ' + (m.side === 'bot' ? 'bot' : 'user');
+        div.textContent = m.msg;
+        log.appendChild(div);
+      }
+      log.scrollTop = log.scrollHeight;
+    };
+    (async () => {
+      const session = await post('/messaging/v1/consumers/anonymous_session', { app_id: ${JSON.stringify(widget.id)} });
+      chatId = session.chat_id;
+      await post('/messaging/v1/chats/' + chatId + '/start');
+      await render();
+    })();
+    document.getElementById('form').addEventListener('submit', async (e) => {
+      e.preventDefault();
+      const input = document.getElementById('text');
+      if (!input.value.trim() || !chatId) return;
+      await post('/messaging/v1/chats/' + chatId + '/message', { msg: input.value });
+      input.value = '';
+      await render();
+    });
+  </script>
+</body>
+</html>`
+}
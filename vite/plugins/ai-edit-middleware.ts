@@ -1,4 +1,5 @@
 import type { Plugin } from 'vite'
+import { llm } from '../llm-gateway'
 
 /**
  * AI Edit Middleware
@@ -36,14 +37,12 @@ export function aiEditMiddlewarePlugin(): Plugin {
               return
             }
             
-            const apiKey = process.env.ANTHROPIC_API_KEY
-            
-            if (!apiKey || apiKey === 'your-api-key-here') {
+            if (!llm.isConfigured()) {
               console.log('[AI Edit] No API key configured')
               res.statusCode = 503
               res.end(JSON.stringify({ 
                 success: false,
-                error: 'ANTHROPIC_API_KEY not configured'
+                error: 'No AI provider configured (set ANTHROPIC_API_KEY or LLM_PROVIDER)'
               }))
               return
             }
@@ -79,16 +78,13 @@ You MUST respond with a JSON object containing:
 
 RESPOND WITH JSON ONLY. No markdown, no explanation.`
 
-            const response = await fetch('https://api.anthropic.com/v1/messages', {
-              method: 'POST',
-              headers: {
-                'Content-Type': 'application/json',
-                'x-api-key': apiKey,
-                'anthropic-version': '2023-06-01'
-              },
-              body: JSON.stringify({
+            let content = ''
+            try {
+              const response = await llm.complete({
+                tag: 'ai-edit',
                 model: 'claude-sonnet-4-20250514',
-                max_tokens: 16000,
+                maxTokens: 16000,
+                system: systemPrompt,
                 messages: [
                   { 
                     role: 'user', 
@@ -104,25 +100,19 @@ ${currentScripts?.map((s: any) => `- ${s.name}`).join('\n') || 'None'}
 
 Apply the requested changes and return the complete modified CSV.` 
                   }
-                ],
-                system: systemPrompt
+                ]
               })
-            })
-            
-            if (!response.ok) {
-              const errorText = await response.text()
-              console.error('[AI Edit] Claude API error:', response.status, errorText)
+              content = response.text
+            } catch (aiError: any) {
+              console.error('[AI Edit] AI error:', aiError.message)
               res.setHeader('Content-Type', 'application/json')
               res.end(JSON.stringify({ 
                 success: false,
-                error: `Claude API error: ${response.status}`
+                error: `AI API error: ${aiError.status || aiError.message}`
               }))
               return
             }
             
-            const result = await response.json()
-            const content = result.content?.[0]?.text || ''
-            
             console.log('[AI Edit] Response received, length:', content.length)
             
             let editResult
@@ -1,4 +1,5 @@
 import type { Plugin } from 'vite'
+import { llm } from '../llm-gateway'
 
 /**
  * AI Prompt Analysis Middleware
@@ -29,13 +30,11 @@ export function aiPromptAnalysisPlugin(): Plugin {
         req.on('end', async () => {
           try {
             const { prompt } = JSON.parse(body)
-            const apiKey = process.env.ANTHROPIC_API_KEY
-            
-            if (!apiKey || apiKey === 'your-api-key-here') {
+            if (!llm.isConfigured()) {
               console.log('[AI Analyze] No API key configured')
               res.statusCode = 503
               res.end(JSON.stringify({ 
-                error: 'ANTHROPIC_API_KEY not configured',
+                error: 'No AI provider configured (set ANTHROPIC_API_KEY or LLM_PROVIDER)',
                 useLocalFallback: true
               }))
               return
@@ -65,26 +64,20 @@ Your job is to analyze a user's description and extract/infer ALL of the followi
 
 ALWAYS respond with valid JSON only. No markdown, no explanation.`
 
-            const response = await fetch('https://api.anthropic.com/v1/messages', {
-              method: 'POST',
-              headers: {
-                'Content-Type': 'application/json',
-                'x-api-key': apiKey,
-                'anthropic-version': '2023-06-01'
-              },
-              body: JSON.stringify({
+            let content = ''
+            try {
+              const response = await llm.complete({
+                tag: 'analyze-prompt',
                 model: 'claude-sonnet-4-20250514',
-                max_tokens: 1000,
+                maxTokens: 1000,
+                system: systemPrompt,
                 messages: [
                   { role: 'user', content: `Extract project details from this description:\n\n"${prompt}"` }
-                ],
-                system: systemPrompt
+                ]
               })
-            })
-            
-            if (!response.ok) {
-              const errorText = await response.text()
-              console.error('[AI Analyze] Claude API error:', response.status, errorText)
+              content = response.text
+            } catch (aiError: any) {
+              console.error('[AI Analyze] AI error:', aiError.message)
               res.setHeader('Content-Type', 'application/json')
               res.end(JSON.stringify({ 
                 clientName: '',
@@ -95,9 +88,6 @@ ALWAYS respond with valid JSON only. No markdown, no explanation.`
               return
             }
             
-            const result = await response.json()
-            const content = result.content?.[0]?.text || ''
-            
             console.log('[AI Analyze] Raw response:', content)
             
             let extractedDetails
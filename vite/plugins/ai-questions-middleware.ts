@@ -1,4 +1,5 @@
 import type { Plugin } from 'vite'
+import { llm } from '../llm-gateway'
 
 /**
  * AI Requirements Questions Middleware
@@ -30,9 +31,7 @@ export function aiQuestionsMiddlewarePlugin(): Plugin {
         req.on('end', async () => {
           try {
             const { projectConfig } = JSON.parse(body)
-            const apiKey = process.env.ANTHROPIC_API_KEY
-            
-            if (!apiKey || apiKey === 'your-api-key-here') {
+            if (!llm.isConfigured()) {
               console.log('[AI Requirements] No API key, using fallback questions')
               res.setHeader('Content-Type', 'application/json')
               res.end(JSON.stringify({ 
@@ -123,26 +122,20 @@ Every question and every answer option should feel like it was written specifica
 
 Make the answer options realistic and include example text/values in the descriptions where helpful.`
 
-            const response = await fetch('https://api.anthropic.com/v1/messages', {
-              method: 'POST',
-              headers: {
-                'Content-Type': 'application/json',
-                'x-api-key': apiKey,
-                'anthropic-version': '2023-06-01'
-              },
-              body: JSON.stringify({
+            let content = ''
+            try {
+              const response = await llm.complete({
+                tag: 'generate-requirements',
                 model: 'claude-sonnet-4-20250514',
-                max_tokens: 4000,
+                maxTokens: 4000,
+                system: systemPrompt,
                 messages: [
                   { role: 'user', content: userPrompt }
-                ],
-                system: systemPrompt
+                ]
               })
-            })
-            
-            if (!response.ok) {
-              const errorText = await response.text()
-              console.error('[AI Requirements] Claude API error:', response.status, errorText)
+              content = response.text
+            } catch (aiError: any) {
+              console.error('[AI Requirements] AI error:', aiError.message)
               res.setHeader('Content-Type', 'application/json')
               res.end(JSON.stringify({ 
                 questions: generateFallbackQuestions(projectConfig)
@@ -150,9 +143,6 @@ Make the answer options realistic and include example text/values in the descrip
               return
             }
             
-            const result = await response.json()
-            const content = result.content?.[0]?.text || ''
-            
             console.log('[AI Requirements] Raw response length:', content.length)
             
             let questions
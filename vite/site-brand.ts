@@ -0,0 +1,385 @@
+/**
+ * Website Brand Extraction
+ *
+ * Fallback for /api/brandfetch: reads a site's HTML and its stylesheets and
+ * picks out brand colors, fonts, logos and the site name. Used by
+ * /api/brand-from-url when Brandfetch has no key or doesn't know the company.
+ *
+ * - Colors: <meta name="theme-color">, brand-ish CSS custom properties
+ *   (--primary, --brand-*, --accent), then the most used non-neutral colors
+ * - Fonts: Google Fonts links, @font-face families, font-family declarations
+ * - Logos: apple-touch-icon, og:image, favicons
+ *
+ * The URL comes from the user, so only public hosts are fetched: every hop of
+ * a redirect is resolved and refused if it points at localhost, a private
+ * network or a cloud metadata address, the connection goes to the addresses
+ * that were checked (a second DNS answer can't rebind it), and bodies are
+ * read up to a byte cap.
+ */
+
+import type { LookupAddress } from 'dns'
+import { lookup } from 'dns/promises'
+import { request as httpRequest, type IncomingMessage } from 'http'
+import { request as httpsRequest } from 'https'
+import { BlockList, isIPv4, type LookupFunction } from 'net'
+import { pipeline, type Readable } from 'stream'
+import { createBrotliDecompress, createGunzip, createInflate } from 'zlib'
+
+const FETCH_TIMEOUT_MS = 8000
+const MAX_REDIRECTS = 5
+const MAX_STYLESHEETS = 4
+const MAX_HTML_BYTES = 1_000_000
+const MAX_CSS_BYTES = 500_000
+
+// Loopback, private, link-local (incl. 169.254.169.254 metadata), CGNAT,
+// multicast and reserved ranges
+const NON_PUBLIC = new BlockList()
+for (const [net, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3],
+] as const) {
+  NON_PUBLIC.addSubnet(net, prefix, 'ipv4')
+}
+for (const [net, prefix] of [
+  ['::', 127], ['64:ff9b::', 96], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8],
+] as const) {
+  NON_PUBLIC.addSubnet(net, prefix, 'ipv6')
+}
+
+const GENERIC_FONTS = new Set([
+  'serif', 'sans-serif', 'monospace', 'cursive', 'fantasy', 'system-ui', 'ui-sans-serif', 'ui-serif',
+  'ui-monospace', '-apple-system', 'blinkmacsystemfont', 'inherit', 'initial', 'unset', 'emoji',
+  'segoe ui', 'helvetica', 'helvetica neue', 'arial', 'roboto', 'apple color emoji', 'segoe ui emoji',
+  'segoe ui symbol', 'noto color emoji', 'times new roman', 'courier new',
+])
+
+export interface SiteBrandColor {
+  name: string
+  hex: string
+  usage: 'primary' | 'secondary' | 'accent'
+}
+
+export interface SiteBrandFont {
+  name: string
+  type: 'title' | 'body'
+  origin: 'google' | 'custom'
+}
+
+export interface SiteBrandLogo {
+  url: string
+  type: 'primary' | 'icon'
+  format?: string
+  background: 'transparent'
+}
+
+export interface SiteBrand {
+  name: string
+  domain: string
+  colors: SiteBrandColor[]
+  fonts: SiteBrandFont[]
+  logos: SiteBrandLogo[]
+  images: { url: string; type: string }[]
+  primaryColor?: string
+  secondaryColor?: string
+  logoUrl?: string
+}
+
+// ============================================
+// COLORS
+// ============================================
+
+function toHex(value: string): string | null {
+  const v = value.trim().toLowerCase()
+  const hex = v.match(/^#([0-9a-f]{3}|[0-9a-f]{6})$/)
+  if (hex) {
+    const h = hex[1].length === 3 ? hex[1].split('').map(c => c + c).join('') : hex[1]
+    return `#${h.toUpperCase()}`
+  }
+  const rgb = v.match(/^rgba?\(\s*(\d{1,3})[\s,]+(\d{1,3})[\s,]+(\d{1,3})(?:[\s,/]+([\d.]+%?))?\s*\)$/)
+  if (rgb) {
+    // Mostly transparent colors are overlays, not brand colors
+    if (rgb[4] && parseFloat(rgb[4]) < (rgb[4].endsWith('%') ? 50 : 0.5)) return null
+    return '#' + [rgb[1], rgb[2], rgb[3]]
+      .map(n => Math.min(255, parseInt(n, 10)).toString(16).padStart(2, '0'))
+      .join('')
+      .toUpperCase()
+  }
+  return null
+}
+
+// Near-white, near-black and grays say little about a brand
+function isNeutral(hex: string): boolean {
+  const r = parseInt(hex.slice(1, 3), 16)
+  const g = parseInt(hex.slice(3, 5), 16)
+  const b = parseInt(hex.slice(5, 7), 16)
+  const max = Math.max(r, g, b)
+  const min = Math.min(r, g, b)
+  return max - min < 24 || max < 30 || min > 235
+}
+
+const COLOR_PATTERN = /#(?:[0-9a-f]{6}|[0-9a-f]{3})\b|rgba?\([^)]*\)/gi
+
+function extractColors(html: string, css: string): SiteBrandColor[] {
+  const ranked: string[] = []
+  const add = (hex: string | null) => {
+    if (hex && !isNeutral(hex) && !ranked.includes(hex)) ranked.push(hex)
+  }
+
+  // 1. Declared theme color
+  const themeColor = html.match(/<meta[^>]+name=["']theme-color["'][^>]*>/i)?.[0].match(/content=["']([^"']+)["']/i)?.[1]
+  if (themeColor) add(toHex(themeColor))
+
+  // 2. Brand-named custom properties
+  const varPattern = /--([\w-]*(?:primary|brand|accent|secondary)[\w-]*)\s*:\s*([^;}]+)/gi
+  for (const match of css.matchAll(varPattern)) {
+    add(toHex(match[2]))
+  }
+
+  // 3. Most used colors
+  const counts = new Map<string, number>()
+  for (const match of css.matchAll(COLOR_PATTERN)) {
+    const hex = toHex(match[0])
+    if (hex && !isNeutral(hex)) counts.set(hex, (counts.get(hex) || 0) + 1)
+  }
+  ;[...counts.entries()].sort((a, b) => b[1] - a[1]).forEach(([hex]) => add(hex))
+
+  return ranked.slice(0, 6).map((hex, i) => ({
+    name: `Site ${i + 1}`,
+    hex,
+    usage: i === 0 ? 'primary' : i === 1 ? 'secondary' : 'accent',
+  }))
+}
+
+// ============================================
+// FONTS
+// ============================================
+
+function extractFonts(html: string, css: string): SiteBrandFont[] {
+  const fonts: SiteBrandFont[] = []
+  const seen = new Set<string>()
+  const add = (raw: string, origin: SiteBrandFont['origin']) => {
+    const name = raw.trim().replace(/^["']|["']$/g, '').replace(/\+/g, ' ').trim()
+    const key = name.toLowerCase()
+    if (!name || name.startsWith('var(') || GENERIC_FONTS.has(key) || seen.has(key)) return
+    seen.add(key)
+    fonts.push({ name, type: fonts.length === 0 ? 'title' : 'body', origin })
+  }
+
+  // Google Fonts links: family=Open+Sans:wght@400;700&family=Lato
+  for (const match of html.matchAll(/fonts\.googleapis\.com\/css2?\?([^"'\s>]+)/gi)) {
+    for (const family of match[1].replace(/&amp;/g, '&').split('&')) {
+      if (family.startsWith('family=')) {
+        decodeURIComponent(family.slice(7)).split('|').forEach(f => add(f.split(':')[0], 'google'))
+      }
+    }
+  }
+
+  // Self-hosted faces
+  for (const match of css.matchAll(/@font-face\s*{[^}]*font-family\s*:\s*([^;}]+)/gi)) {
+    add(match[1], 'custom')
+  }
+
+  // First family of the most common font-family declarations
+  const counts = new Map<string, number>()
+  for (const match of css.matchAll(/font-family\s*:\s*([^;}]+)/gi)) {
+    const first = match[1].split(',')[0].trim()
+    counts.set(first, (counts.get(first) || 0) + 1)
+  }
+  ;[...counts.entries()].sort((a, b) => b[1] - a[1]).forEach(([name]) => add(name, 'custom'))
+
+  return fonts.slice(0, 4)
+}
+
+// ============================================
+// LOGOS AND NAME
+// ============================================
+
+function attr(tag: string, name: string): string | undefined {
+  return tag.match(new RegExp(`${name}=["']([^"']+)["']`, 'i'))?.[1]
+}
+
+function extractLogos(html: string, baseUrl: string): SiteBrandLogo[] {
+  const logos: SiteBrandLogo[] = []
+  const add = (href: string | undefined, type: SiteBrandLogo['type']) => {
+    if (!href) return
+    try {
+      const url = new URL(href, baseUrl).toString()
+      if (logos.some(l => l.url === url)) return
+      const format = url.split('?')[0].split('.').pop()?.toLowerCase()
+      logos.push({ url, type, format, background: 'transparent' })
+    } catch {
+      // Ignore malformed URLs
+    }
+  }
+
+  const links = html.match(/<link[^>]+>/gi) || []
+  const metas = html.match(/<meta[^>]+>/gi) || []
+  links.filter(tag => /rel=["'][^"']*apple-touch-icon/i.test(tag)).forEach(tag => add(attr(tag, 'href'), 'icon'))
+  metas.filter(tag => /property=["']og:image["']/i.test(tag)).forEach(tag => add(attr(tag, 'content'), 'primary'))
+  links.filter(tag => /rel=["'](?:shortcut )?icon["']/i.test(tag)).forEach(tag => add(attr(tag, 'href'), 'icon'))
+  return logos
+}
+
+function extractName(html: string, domain: string): string {
+  const siteName = (html.match(/<meta[^>]+>/gi) || [])
+    .find(tag => /property=["']og:site_name["']/i.test(tag))
+  const fromMeta = siteName && attr(siteName, 'content')
+  if (fromMeta) return fromMeta.trim()
+
+  const title = html.match(/<title[^>]*>([^<]+)<\/title>/i)?.[1]
+  const fromTitle = title?.split(/\s[|\-–—:]\s/).map(s => s.trim()).filter(Boolean).pop()
+  if (fromTitle && fromTitle.length <= 40) return fromTitle
+
+  const label = domain.replace(/^www\./, '').split('.')[0]
+  return label.charAt(0).toUpperCase() + label.slice(1)
+}
+
+// ============================================
+// FETCH
+// ============================================
+
+// BlockList checks IPv4-mapped IPv6 addresses (::ffff:10.0.0.1) against the IPv4 rules
+function isPublicAddress(address: string): boolean {
+  return !NON_PUBLIC.check(address, isIPv4(address) ? 'ipv4' : 'ipv6')
+}
+
+/**
+ * Resolve the URL's host, throwing unless the URL is http(s) and every address
+ * is public. The request must connect to these addresses, not resolve again.
+ */
+async function resolvePublicUrl(url: URL): Promise<LookupAddress[]> {
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new Error(`${url} is not an http(s) URL`)
+  }
+  const host = url.hostname.replace(/^\[|\]$/g, '')
+  const addresses = await lookup(host, { all: true })
+  if (addresses.length === 0 || addresses.some(a => !isPublicAddress(a.address))) {
+    throw new Error(`${url.hostname} is not a public host`)
+  }
+  return addresses
+}
+
+/**
+ * GET a URL, connecting only to the given addresses. The hostname is still
+ * used for the Host header and for TLS (SNI and the certificate check).
+ */
+function get(url: URL, addresses: LookupAddress[], signal: AbortSignal): Promise<IncomingMessage> {
+  const pinned: LookupFunction = (_hostname, options, callback) => {
+    if (options.all) callback(null, addresses)
+    else callback(null, addresses[0].address, addresses[0].family)
+  }
+
+  return new Promise((resolve, reject) => {
+    const request = (url.protocol === 'https:' ? httpsRequest : httpRequest)(url, {
+      headers: {
+        'User-Agent': 'Mozilla/5.0 (compatible; SolutionBuilder/1.0)',
+        'Accept-Encoding': 'gzip, deflate, br',
+      },
+      lookup: pinned,
+      signal,
+    }, resolve)
+    request.on('error', reject)
+    request.end()
+  })
+}
+
+/**
+ * Response body with any content encoding undone
+ */
+function decodedBody(response: IncomingMessage): Readable {
+  const encoding = response.headers['content-encoding']
+  const decoder = encoding === 'gzip' || encoding === 'x-gzip' ? createGunzip()
+    : encoding === 'deflate' ? createInflate()
+    : encoding === 'br' ? createBrotliDecompress()
+    : null
+  return decoder ? pipeline(response, decoder, () => {}) : response
+}
+
+/**
+ * Read at most maxBytes of the (decoded) body, then stop the download
+ */
+async function readCapped(body: Readable, maxBytes: number): Promise<string> {
+  const decoder = new TextDecoder()
+  let text = ''
+  let bytes = 0
+  for await (const value of body) {
+    const chunk = (value as Buffer).subarray(0, maxBytes - bytes)
+    bytes += chunk.length
+    text += decoder.decode(chunk, { stream: true })
+    if (bytes >= maxBytes) break
+  }
+  body.destroy()
+  return text + decoder.decode()
+}
+
+/**
+ * GET a public URL, following redirects by hand so every hop is checked
+ */
+async function fetchText(url: string, maxBytes: number): Promise<string> {
+  const signal = AbortSignal.timeout(FETCH_TIMEOUT_MS)
+  let current = new URL(url)
+
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+    const addresses = await resolvePublicUrl(current)
+    const response = await get(current, addresses, signal)
+    const status = response.statusCode || 0
+
+    const location = response.headers.location
+    if (status >= 300 && status < 400 && location) {
+      response.destroy()
+      current = new URL(location, current)
+      continue
+    }
+
+    if (status < 200 || status >= 300) {
+      response.destroy()
+      throw new Error(`${url} returned ${status}`)
+    }
+    return readCapped(decodedBody(response), maxBytes)
+  }
+
+  throw new Error(`${url} redirected more than ${MAX_REDIRECTS} times`)
+}
+
+/**
+ * Read brand colors, fonts, logos and name from a website
+ */
+export async function extractSiteBrand(siteUrl: string): Promise<SiteBrand> {
+  const url = /^https?:\/\//i.test(siteUrl) ? siteUrl : `https://${siteUrl}`
+  const html = await fetchText(url, MAX_HTML_BYTES)
+  const domain = new URL(url).hostname
+
+  // Inline styles plus the first few stylesheets
+  const inline = [...html.matchAll(/<style[^>]*>([\s\S]*?)<\/style>/gi)].map(m => m[1])
+  const styleAttrs = [...html.matchAll(/style=["']([^"']+)["']/gi)].map(m => m[1])
+  const sheetUrls = (html.match(/<link[^>]+>/gi) || [])
+    .filter(tag => /rel=["']stylesheet["']/i.test(tag) && !/fonts\.googleapis/i.test(tag))
+    .map(tag => attr(tag, 'href'))
+    .filter((href): href is string => !!href)
+    .slice(0, MAX_STYLESHEETS)
+  const sheets = await Promise.all(sheetUrls.map(href =>
+    fetchText(new URL(href, url).toString(), MAX_CSS_BYTES)
+      .catch(e => {
+        console.log(`[SiteBrand] Skipping stylesheet ${href}: ${e.message}`)
+        return ''
+      })
+  ))
+  const css = [...inline, ...styleAttrs, ...sheets].join('\n')
+
+  const colors = extractColors(html, css)
+  const fonts = extractFonts(html, css)
+  const logos = extractLogos(html, url)
+  console.log(`[SiteBrand] ${domain}: ${colors.length} colors, ${fonts.length} fonts, ${logos.length} logos from ${sheets.length} stylesheets`)
+
+  return {
+    name: extractName(html, domain),
+    domain,
+    colors,
+    fonts,
+    logos,
+    images: [],
+    primaryColor: colors[0]?.hex,
+    secondaryColor: colors[1]?.hex,
+    logoUrl: logos[0]?.url,
+  }
+}